@@ -4,6 +4,7 @@
  * Custom hooks for Audit & Compliance features:
  * - Immutable Audit Logs
  * - Data Deletion Requests (GDPR/DPDP)
+ * - Legal Holds and Retention Certificates
  * - Access Reviews
  * - Security Incidents
  * - Data Classifications
@@ -47,10 +48,55 @@ export interface DataDeletionRequest {
   rejectionReason: string | null;
   exportUrl: string | null;
   exportExpiresAt: string | null;
+  outcome: ErasureOutcome | null;
   createdAt: string;
   requestedByName?: string | null;
 }
 
+export interface ErasureOutcome {
+  subjectUserIds: number[];
+  purged: Array<{ kind: string; id: number; title: string; certificateNumber: string }>;
+  retained: Array<{ kind: string; id: number; title: string; reason: string; until?: string; holdId?: number }>;
+  failed: Array<{ kind: string; id: number; title: string; error: string }>;
+}
+
+export interface LegalHold {
+  id: number;
+  name: string;
+  reason: string;
+  matterReference: string | null;
+  scopeType: 'document' | 'entity' | 'category';
+  documentKind: 'vault' | 'ai_document' | 'upload' | null;
+  documentId: number | null;
+  businessEntityId: number | null;
+  documentCategory: string | null;
+  status: 'active' | 'released';
+  placedBy: number | null;
+  placedAt: string;
+  releasedBy: number | null;
+  releasedAt: string | null;
+  releaseReason: string | null;
+}
+
+export interface RetentionCertificate {
+  id: number;
+  certificateNumber: string;
+  trigger: 'retention_policy' | 'erasure_request';
+  policyId: number | null;
+  dataDeletionRequestId: number | null;
+  documentKind: string;
+  documentId: number;
+  documentTitle: string | null;
+  documentCategory: string | null;
+  versionsPurged: number;
+  filesPurged: Array<{ path: string; sha256: string | null; bytes: number | null; status: string }>;
+  signature: string;
+  signingKeyId: string | null;
+  issuedAt: string;
+  signatureValid?: boolean;
+  pdfUrl?: string | null;
+}
+
 export interface AccessReview {
   id: number;
   reviewPeriodStart: string;
@@ -306,9 +352,11 @@ export function useProcessDataRequest() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: number) => postJson(`/api/audit/data-requests/${id}/process`),
+    mutationFn: (id: number) =>
+      postJson<{ message: string; request: DataDeletionRequest }>(`/api/audit/data-requests/${id}/process`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['audit', 'data-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['audit', 'retention-certificates'] });
     },
   });
 }
@@ -332,6 +380,69 @@ export function useUpdateDataRequest() {
   });
 }
 
+// ============================================================================
+// Legal Hold & Retention Certificate Hooks
+// ============================================================================
+
+export function useLegalHolds(status: string = 'active') {
+  return useQuery<LegalHold[]>({
+    queryKey: ['audit', 'legal-holds', status],
+    queryFn: () => fetchJson(`/api/document-retention/holds?status=${status}`),
+    staleTime: 30000,
+  });
+}
+
+export function usePlaceLegalHold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: {
+      name: string;
+      reason: string;
+      matterReference?: string;
+      scopeType: 'document' | 'entity' | 'category';
+      documentKind?: 'vault' | 'ai_document' | 'upload';
+      documentId?: number;
+      businessEntityId?: number;
+      documentCategory?: string;
+    }) => postJson<LegalHold>('/api/document-retention/holds', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['audit', 'legal-holds'] });
+    },
+  });
+}
+
+export function useReleaseLegalHold() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: number; reason: string }) =>
+      postJson<LegalHold>(`/api/document-retention/holds/${id}/release`, { reason }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['audit', 'legal-holds'] });
+    },
+  });
+}
+
+export function useRetentionCertificates(filters: { dataDeletionRequestId?: number } = {}, enabled = true) {
+  const params = new URLSearchParams();
+  if (filters.dataDeletionRequestId) params.set('dataDeletionRequestId', String(filters.dataDeletionRequestId));
+
+  return useQuery<RetentionCertificate[]>({
+    queryKey: ['audit', 'retention-certificates', filters],
+    queryFn: () => fetchJson(`/api/document-retention/certificates${params.toString() ? `?${params}` : ''}`),
+    enabled,
+  });
+}
+
+export function useRetentionCertificate(id: number | null) {
+  return useQuery<RetentionCertificate>({
+    queryKey: ['audit', 'retention-certificates', id],
+    queryFn: () => fetchJson(`/api/document-retention/certificates/${id}`),
+    enabled: !!id,
+  });
+}
+
 // ============================================================================
 // Access Review Hooks
 // ============================================================================
@@ -543,6 +654,8 @@ export const auditKeys = {
   logs: () => [...auditKeys.all, 'logs'] as const,
   log: (id: number | string) => [...auditKeys.logs(), id] as const,
   dataRequests: () => [...auditKeys.all, 'data-requests'] as const,
+  legalHolds: () => [...auditKeys.all, 'legal-holds'] as const,
+  retentionCertificates: () => [...auditKeys.all, 'retention-certificates'] as const,
   accessReviews: () => [...auditKeys.all, 'access-reviews'] as const,
   reviewItems: (reviewId: number | string) => [...auditKeys.accessReviews(), reviewId, 'items'] as const,
   securityIncidents: () => [...auditKeys.all, 'security-incidents'] as const,
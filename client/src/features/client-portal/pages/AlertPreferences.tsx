@@ -6,6 +6,7 @@
  * - Compliance type preferences (GST, Income Tax, ROC, etc.)
  * - Alert severity settings
  * - Quiet hours configuration
+ * - Next digest preview (notifications held for hourly/daily/weekly delivery)
  * - Test notifications
  */
 
@@ -127,6 +128,35 @@ interface Preferences {
   };
 }
 
+interface DigestEntry {
+  deliveryId: number;
+  priority: 'urgent' | 'high' | 'normal' | 'low';
+  title: string;
+  summary: string | null;
+  link: string;
+  createdAt: string;
+}
+
+interface DigestGroup {
+  businessEntityId: number | null;
+  entityName: string;
+  counts: Record<string, number>;
+  entries: DigestEntry[];
+}
+
+interface DigestPreview {
+  nextDigestAt: string | null;
+  channels: string[];
+  subject: string | null;
+  digest: {
+    frequency: string;
+    total: number;
+    counts: Record<string, number>;
+    groups: DigestGroup[];
+  } | null;
+  heldForLater: number;
+}
+
 // Channel icon component
 const ChannelIcon = ({ channel, className }: { channel: string; className?: string }) => {
   const icons: Record<string, React.ReactNode> = {
@@ -423,6 +453,103 @@ const ComplianceTypeCard = ({
   );
 };
 
+// Next digest preview
+const DigestPreviewCard = () => {
+  const { data: preview, isLoading, refetch, isFetching } = useQuery<DigestPreview>({
+    queryKey: ['/api/notification-preferences/digest/preview'],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Mail className="h-4 w-4" />
+              Next Digest
+            </CardTitle>
+            <CardDescription>
+              Email and WhatsApp notifications held for your hourly, daily or weekly summary. Urgent alerts are always sent straight away.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !preview?.digest ? (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertTitle>Nothing waiting</AlertTitle>
+            <AlertDescription>
+              No notifications are being held for a digest. Set a notification type to hourly, daily or weekly to batch it.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Clock className="h-4 w-4 text-muted-foreground" />
+              <span>
+                {preview.nextDigestAt ? `Sends ${new Date(preview.nextDigestAt).toLocaleString('en-IN')}` : 'Sends at the next batch window'}
+              </span>
+              {preview.channels.map((channel) => (
+                <Badge key={channel} variant="outline" className="capitalize">{channel}</Badge>
+              ))}
+              {preview.digest.counts.high > 0 && (
+                <Badge variant="destructive">{preview.digest.counts.high} high priority</Badge>
+              )}
+            </div>
+            <p className="font-medium">{preview.subject}</p>
+            <ScrollArea className="h-80 pr-4">
+              <div className="space-y-4">
+                {preview.digest.groups.map((group) => (
+                  <div key={group.businessEntityId ?? 'general'} className="space-y-2">
+                    <h4 className="text-sm font-semibold flex items-center gap-2">
+                      <Building2 className="h-4 w-4 text-muted-foreground" />
+                      {group.entityName}
+                      <Badge variant="secondary">{group.entries.length}</Badge>
+                    </h4>
+                    {group.entries.map((entry) => (
+                      <a
+                        key={entry.deliveryId}
+                        href={entry.link}
+                        className="block p-3 rounded-lg border hover:bg-muted/50"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium">{entry.title}</span>
+                          {entry.priority === 'high' ? (
+                            <Badge variant="destructive">High</Badge>
+                          ) : (
+                            <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
+                          )}
+                        </div>
+                        {entry.summary && (
+                          <p className="text-xs text-muted-foreground mt-1">{entry.summary}</p>
+                        )}
+                      </a>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            {preview.heldForLater > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {preview.heldForLater} more held for a later digest.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 // Main component
 export default function ComplianceAlertPreferences() {
   const { toast } = useToast();
@@ -590,11 +717,12 @@ export default function ComplianceAlertPreferences() {
       {/* Main Content */}
       <div className={!localPrefs.notificationsEnabled ? 'opacity-50 pointer-events-none' : ''}>
         <Tabs defaultValue="channels" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="channels">Channels</TabsTrigger>
             <TabsTrigger value="compliance">Compliance Types</TabsTrigger>
             <TabsTrigger value="alerts">Alert Settings</TabsTrigger>
             <TabsTrigger value="schedule">Schedule</TabsTrigger>
+            <TabsTrigger value="digest">Digest</TabsTrigger>
           </TabsList>
 
           {/* Channels Tab */}
@@ -855,6 +983,11 @@ export default function ComplianceAlertPreferences() {
               </Card>
             </div>
           </TabsContent>
+
+          {/* Digest Tab */}
+          <TabsContent value="digest" className="mt-6">
+            <DigestPreviewCard />
+          </TabsContent>
         </Tabs>
       </div>
 
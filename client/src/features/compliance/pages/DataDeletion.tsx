@@ -6,6 +6,9 @@
  * - Data portability (Export)
  * - Data rectification
  * - Processing restriction
+ *
+ * Erasure purges the subject's documents, keeping those under a legal hold
+ * or statutory retention; each purge is backed by a signed certificate.
  */
 
 import { useState } from 'react';
@@ -51,6 +54,11 @@ import {
   useCreateDataRequest,
   useProcessDataRequest,
   useUpdateDataRequest,
+  useLegalHolds,
+  usePlaceLegalHold,
+  useReleaseLegalHold,
+  useRetentionCertificates,
+  useRetentionCertificate,
   type DataDeletionRequest,
 } from '@/features/audit/hooks';
 import {
@@ -66,6 +74,9 @@ import {
   Loader2,
   AlertTriangle,
   Shield,
+  Lock,
+  Unlock,
+  FileCheck,
 } from 'lucide-react';
 
 export default function DataDeletionRequests() {
@@ -73,6 +84,7 @@ export default function DataDeletionRequests() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [outcomeRequest, setOutcomeRequest] = useState<DataDeletionRequest | null>(null);
 
   const [newRequest, setNewRequest] = useState({
     subjectEmail: '',
@@ -127,10 +139,13 @@ export default function DataDeletionRequests() {
 
   const handleProcess = async (id: number) => {
     try {
-      await processMutation.mutateAsync(id);
+      const result = await processMutation.mutateAsync(id);
+      const outcome = result.request.outcome;
       toast({
-        title: 'Processing Started',
-        description: 'Data request is now being processed.',
+        title: result.message,
+        description: outcome
+          ? `${outcome.purged.length} document(s) purged, ${outcome.retained.length} retained, ${outcome.failed.length} failed.`
+          : 'Data request is now being processed.',
       });
     } catch (error) {
       toast({
@@ -369,13 +384,25 @@ export default function DataDeletionRequests() {
                       </div>
                     </TableCell>
                     <TableCell>{getTypeBadge(request.requestType)}</TableCell>
-                    <TableCell>{getStatusBadge(request.status)}</TableCell>
+                    <TableCell>
+                      {getStatusBadge(request.status)}
+                      {request.outcome && (
+                        <button
+                          type="button"
+                          className="block text-xs text-muted-foreground underline mt-1"
+                          onClick={() => setOutcomeRequest(request)}
+                        >
+                          {request.outcome.purged.length} purged, {request.outcome.retained.length} retained
+                        </button>
+                      )}
+                    </TableCell>
                     <TableCell className="text-sm">{formatDate(request.createdAt)}</TableCell>
                     <TableCell className="text-sm">{formatDate(request.verifiedAt)}</TableCell>
                     <TableCell className="text-sm">{formatDate(request.completedAt)}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-1">
-                        {request.status === 'verified' && (
+                        {(request.status === 'verified' ||
+                          (request.status === 'processing' && request.requestType === 'erasure')) && (
                           <Button
                             variant="ghost"
                             size="sm"
@@ -385,7 +412,7 @@ export default function DataDeletionRequests() {
                             <Play className="h-4 w-4 text-purple-500" />
                           </Button>
                         )}
-                        {request.status === 'processing' && (
+                        {request.status === 'processing' && request.requestType !== 'erasure' && (
                           <Button
                             variant="ghost"
                             size="sm"
@@ -424,6 +451,10 @@ export default function DataDeletionRequests() {
         </CardContent>
       </Card>
 
+      <LegalHoldsCard />
+
+      <ErasureOutcomeDialog request={outcomeRequest} onClose={() => setOutcomeRequest(null)} />
+
       {/* Create Request Dialog */}
       <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
         <DialogContent>
@@ -476,6 +507,9 @@ export default function DataDeletionRequests() {
                 <div className="text-sm text-yellow-800 dark:text-yellow-200">
                   <p className="font-medium">DPDP Compliance Notice</p>
                   <p>A verification email will be sent to the subject. The request will only be processed after verification.</p>
+                  {newRequest.requestType === 'erasure' && (
+                    <p className="mt-1">Documents under a legal hold or a statutory retention period are kept; the reason is recorded on the request.</p>
+                  )}
                 </div>
               </div>
             </div>
@@ -498,3 +532,372 @@ export default function DataDeletionRequests() {
     </DashboardLayout>
   );
 }
+
+const formatDay = (dateString: string | null | undefined) =>
+  dateString ? new Date(dateString).toLocaleDateString('en-IN', { dateStyle: 'medium' }) : '-';
+
+function holdScope(hold: { scopeType: string; documentKind: string | null; documentId: number | null; businessEntityId: number | null; documentCategory: string | null }) {
+  if (hold.scopeType === 'document') {
+    const label = hold.documentKind === 'vault' ? 'Vault document' : hold.documentKind === 'upload' ? 'Service request upload' : 'Document';
+    return `${label} #${hold.documentId}`;
+  }
+  if (hold.scopeType === 'entity') return `Entity #${hold.businessEntityId}`;
+  return `Category: ${hold.documentCategory}`;
+}
+
+/**
+ * Legal holds: documents they cover are never deleted, by retention policy,
+ * erasure request or hand, until the hold is released
+ */
+function LegalHoldsCard() {
+  const { toast } = useToast();
+  const { data: holds = [], isLoading } = useLegalHolds('active');
+  const placeMutation = usePlaceLegalHold();
+  const releaseMutation = useReleaseLegalHold();
+  const [isPlaceOpen, setIsPlaceOpen] = useState(false);
+  const [releasing, setReleasing] = useState<{ id: number; name: string } | null>(null);
+  const [releaseReason, setReleaseReason] = useState('');
+  const [form, setForm] = useState({
+    name: '',
+    reason: '',
+    matterReference: '',
+    scopeType: 'entity' as 'document' | 'entity' | 'category',
+    documentKind: 'vault' as 'vault' | 'ai_document' | 'upload',
+    target: '',
+  });
+
+  const handlePlace = async () => {
+    const target = form.target.trim();
+    try {
+      await placeMutation.mutateAsync({
+        name: form.name,
+        reason: form.reason,
+        matterReference: form.matterReference || undefined,
+        scopeType: form.scopeType,
+        ...(form.scopeType === 'document' && { documentKind: form.documentKind, documentId: parseInt(target) }),
+        ...(form.scopeType === 'entity' && { businessEntityId: parseInt(target) }),
+        ...(form.scopeType === 'category' && { documentCategory: target }),
+      });
+      setIsPlaceOpen(false);
+      setForm({ ...form, name: '', reason: '', matterReference: '', target: '' });
+      toast({ title: 'Legal Hold Placed', description: 'Covered documents will not be deleted until it is released.' });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to place legal hold', variant: 'destructive' });
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!releasing) return;
+    try {
+      await releaseMutation.mutateAsync({ id: releasing.id, reason: releaseReason });
+      setReleasing(null);
+      setReleaseReason('');
+      toast({ title: 'Legal Hold Released', description: 'Held documents return to their retention schedule.' });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to release legal hold', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Legal Holds
+            </CardTitle>
+            <CardDescription>
+              Documents under litigation, audit or investigation are kept regardless of retention or erasure
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setIsPlaceOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Place Hold
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : holds.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No active legal holds.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Hold</TableHead>
+                <TableHead>Covers</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Placed</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {holds.map((hold) => (
+                <TableRow key={hold.id}>
+                  <TableCell>
+                    <p className="font-medium">{hold.name}</p>
+                    {hold.matterReference && (
+                      <p className="text-sm text-muted-foreground">{hold.matterReference}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{holdScope(hold)}</TableCell>
+                  <TableCell className="text-sm max-w-xs truncate">{hold.reason}</TableCell>
+                  <TableCell className="text-sm">{formatDay(hold.placedAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setReleasing({ id: hold.id, name: hold.name })}>
+                      <Unlock className="h-4 w-4 mr-1" />
+                      Release
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isPlaceOpen} onOpenChange={setIsPlaceOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Place Legal Hold</DialogTitle>
+            <DialogDescription>
+              Hold one document, everything of a business entity, or a whole document category.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="holdName">Name *</Label>
+              <Input
+                id="holdName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="GST audit FY 2023-24"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holdReason">Reason *</Label>
+              <Textarea
+                id="holdReason"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holdMatter">Matter reference</Label>
+              <Input
+                id="holdMatter"
+                value={form.matterReference}
+                onChange={(e) => setForm({ ...form, matterReference: e.target.value })}
+                placeholder="Notice or case number"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Scope</Label>
+                <Select
+                  value={form.scopeType}
+                  onValueChange={(value: any) => setForm({ ...form, scopeType: value, target: '' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="entity">Business entity</SelectItem>
+                    <SelectItem value="document">Single document</SelectItem>
+                    <SelectItem value="category">Document category</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.scopeType === 'document' && (
+                <div className="space-y-2">
+                  <Label>Document source</Label>
+                  <Select
+                    value={form.documentKind}
+                    onValueChange={(value: any) => setForm({ ...form, documentKind: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="vault">Document vault</SelectItem>
+                      <SelectItem value="ai_document">Prepared documents</SelectItem>
+                      <SelectItem value="upload">Service request uploads</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holdTarget">
+                {form.scopeType === 'document' ? 'Document ID' : form.scopeType === 'entity' ? 'Entity ID' : 'Category'} *
+              </Label>
+              <Input
+                id="holdTarget"
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value })}
+                placeholder={form.scopeType === 'category' ? 'tax' : '123'}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPlaceOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handlePlace}
+              disabled={!form.name || !form.reason || !form.target || placeMutation.isPending}
+            >
+              {placeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Place Hold
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!releasing} onOpenChange={(open) => !open && setReleasing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Release {releasing?.name}</DialogTitle>
+            <DialogDescription>
+              Documents it covers go back to their retention schedule and may be deleted when due.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="releaseReason">Reason *</Label>
+            <Textarea
+              id="releaseReason"
+              value={releaseReason}
+              onChange={(e) => setReleaseReason(e.target.value)}
+              placeholder="Matter closed"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReleasing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRelease} disabled={!releaseReason || releaseMutation.isPending}>
+              {releaseMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Release Hold
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+/**
+ * What an erasure did: documents purged (with their certificates) and
+ * documents kept, with the reason
+ */
+function ErasureOutcomeDialog({ request, onClose }: { request: DataDeletionRequest | null; onClose: () => void }) {
+  const [certificateId, setCertificateId] = useState<number | null>(null);
+  const { data: certificates = [] } = useRetentionCertificates(
+    { dataDeletionRequestId: request?.id },
+    !!request
+  );
+  const { data: certificate } = useRetentionCertificate(certificateId);
+  const outcome = request?.outcome;
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Erasure Outcome</DialogTitle>
+          <DialogDescription>{request?.subjectEmail}</DialogDescription>
+        </DialogHeader>
+        {outcome && (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <div>
+              <p className="font-medium mb-2">Purged ({outcome.purged.length})</p>
+              {outcome.purged.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing was purged.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {outcome.purged.map((item) => {
+                    const issued = certificates.find((c) => c.certificateNumber === item.certificateNumber);
+                    return (
+                      <li key={`${item.kind}-${item.id}`} className="flex items-center justify-between gap-2">
+                        <span>{item.title}</span>
+                        <Button
+                          variant="link"
+                          size="sm"
+                          disabled={!issued}
+                          onClick={() => issued && setCertificateId(issued.id)}
+                        >
+                          <FileCheck className="h-4 w-4 mr-1" />
+                          {item.certificateNumber}
+                        </Button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+            {outcome.retained.length > 0 && (
+              <div>
+                <p className="font-medium mb-2">Retained ({outcome.retained.length})</p>
+                <ul className="space-y-1 text-sm">
+                  {outcome.retained.map((item) => (
+                    <li key={`${item.kind}-${item.id}`}>
+                      <span className="font-medium">{item.title}</span>
+                      <span className="text-muted-foreground">
+                        {' '}{item.reason}{item.until && ` (until ${formatDay(item.until)})`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {outcome.failed.length > 0 && (
+              <div>
+                <p className="font-medium mb-2 text-red-600">Failed ({outcome.failed.length})</p>
+                <ul className="space-y-1 text-sm">
+                  {outcome.failed.map((item) => (
+                    <li key={`${item.kind}-${item.id}`}>
+                      {item.title}: <span className="text-muted-foreground">{item.error}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {certificate && certificate.id === certificateId && (
+              <div className="p-3 border rounded-lg text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium">{certificate.certificateNumber}</p>
+                  <Badge className={certificate.signatureValid ? 'bg-green-500' : 'bg-red-500'}>
+                    {certificate.signatureValid ? 'Signature valid' : 'Signature invalid'}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  Issued {formatDay(certificate.issuedAt)}; {certificate.filesPurged.length} file(s),{' '}
+                  {certificate.versionsPurged} earlier version(s)
+                </p>
+                {certificate.filesPurged.map((file) => (
+                  <p key={file.path} className="font-mono text-xs break-all">
+                    {file.status} {file.sha256 || '-'}
+                  </p>
+                ))}
+                {certificate.pdfUrl && (
+                  <Button variant="outline" size="sm" onClick={() => window.open(certificate.pdfUrl!, '_blank')}>
+                    <Download className="h-4 w-4 mr-1" />
+                    Certificate PDF
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
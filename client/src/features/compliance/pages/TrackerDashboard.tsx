@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import DashboardNav from '@/components/DashboardNav';
@@ -27,6 +28,23 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { SkeletonCard, SkeletonDashboard } from '@/components/ui/skeleton-loader';
 
+interface PenaltyLine {
+  code: string;
+  name: string;
+  component: 'LATE_FEE' | 'INTEREST' | 'ADDITIONAL_FEE';
+  amount: number;
+  basis: string;
+  legalReference?: string | null;
+}
+
+interface PenaltyWhatIf {
+  filedOn: string;
+  daysLate: number;
+  components: PenaltyLine[];
+  total: number;
+  notes: string[];
+}
+
 interface ComplianceItem {
   id: number;
   serviceType: string;
@@ -38,6 +56,11 @@ interface ComplianceItem {
   healthScore: number;
   penaltyRisk: boolean;
   estimatedPenalty: number;
+  penaltyBreakdown?: {
+    daysLate: number;
+    components: PenaltyLine[];
+    notes: string[];
+  } | null;
   serviceId: string;
   complianceRuleId?: number | null;
   lastCompleted?: string | null;
@@ -78,6 +101,8 @@ const ComplianceTrackerDashboard = () => {
   const { toast } = useToast();
   const [selectedPriority, setSelectedPriority] = useState<string>('all');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [whatIfDates, setWhatIfDates] = useState<Record<number, string>>({});
+  const [whatIfResults, setWhatIfResults] = useState<Record<number, PenaltyWhatIf>>({});
 
   // Fetch compliance tracking data
   const { data: complianceItems = [], isLoading } = useQuery<ComplianceItem[]>({
@@ -139,6 +164,28 @@ const ComplianceTrackerDashboard = () => {
     },
   });
 
+  // Penalty if filed on a chosen date
+  const penaltyWhatIfMutation = useMutation({
+    mutationFn: ({ trackingId, filedOn }: { trackingId: number; filedOn: string }) =>
+      apiRequest<PenaltyWhatIf>('POST', '/api/penalties/what-if', { trackingId, filedOn }),
+    onSuccess: (result, { trackingId }) => {
+      setWhatIfResults((current) => ({ ...current, [trackingId]: result }));
+    },
+    onError: () => {
+      toast({
+        title: "Calculation Failed",
+        description: "Could not calculate the penalty for that date.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const penaltyComponentLabel = (component: PenaltyLine['component']) => {
+    if (component === 'INTEREST') return 'Interest';
+    if (component === 'ADDITIONAL_FEE') return 'Additional fee';
+    return 'Late fee';
+  };
+
   const acknowledgeAlertMutation = useMutation({
     mutationFn: (alertId: number) =>
       apiRequest('PATCH', `/api/client/compliance-alerts/${alertId}/acknowledge`, {
@@ -567,6 +614,50 @@ const ComplianceTrackerDashboard = () => {
                               </span>
                             )}
                           </div>
+                          {item.penaltyBreakdown && item.penaltyBreakdown.components.length > 0 && (
+                            <div className="mt-2 rounded bg-red-50 p-2 text-xs text-red-700 space-y-1">
+                              <p className="font-medium">{item.penaltyBreakdown.daysLate} days late</p>
+                              {item.penaltyBreakdown.components.map((line) => (
+                                <div key={line.code} className="flex justify-between gap-4">
+                                  <span>
+                                    {penaltyComponentLabel(line.component)}: {line.basis}
+                                    {line.legalReference ? ` (${line.legalReference})` : ''}
+                                  </span>
+                                  <span className="font-medium">₹{line.amount.toLocaleString()}</span>
+                                </div>
+                              ))}
+                              {item.penaltyBreakdown.notes.map((note) => (
+                                <p key={note} className="text-gray-500">{note}</p>
+                              ))}
+                            </div>
+                          )}
+                          {item.complianceRuleId && (
+                            <div className="mt-2 flex items-center gap-2 text-xs">
+                              <span className="text-gray-500">If filed on</span>
+                              <Input
+                                type="date"
+                                className="h-7 w-40 text-xs"
+                                value={whatIfDates[item.id] || ''}
+                                onChange={(e) => setWhatIfDates((current) => ({ ...current, [item.id]: e.target.value }))}
+                              />
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7"
+                                disabled={!whatIfDates[item.id] || penaltyWhatIfMutation.isPending}
+                                onClick={() => penaltyWhatIfMutation.mutate({ trackingId: item.id, filedOn: whatIfDates[item.id] })}
+                              >
+                                Calculate
+                              </Button>
+                              {whatIfResults[item.id] && (
+                                <span className={whatIfResults[item.id].total > 0 ? 'text-red-600' : 'text-green-600'}>
+                                  {whatIfResults[item.id].total > 0
+                                    ? `₹${whatIfResults[item.id].total.toLocaleString()} (${whatIfResults[item.id].daysLate} days late)`
+                                    : 'No penalty'}
+                                </span>
+                              )}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -0,0 +1,382 @@
+import { useRef, useState, type MouseEvent } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Crosshair, MessageSquare, Highlighter, PenLine, X } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+type AnnotationType = 'comment' | 'highlight' | 'correction';
+type AnnotationStatus = 'open' | 'addressed' | 'resolved' | 'wont_fix';
+type AnnotationAction = 'address' | 'resolve' | 'reopen' | 'dismiss';
+
+interface AnnotationPosition {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface AnnotationEvent {
+  id: number;
+  action: string;
+  fromStatus: string | null;
+  toStatus: string;
+  userId: number | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface DocumentAnnotation {
+  id: number;
+  annotationType: string;
+  severity: string | null;
+  content: string | null;
+  highlightedText: string | null;
+  requestedChange: string | null;
+  position: AnnotationPosition | null;
+  status: AnnotationStatus;
+  createdAt: string;
+  history?: AnnotationEvent[];
+}
+
+interface DocumentAnnotationPanelProps {
+  source: 'upload' | 'vault';
+  documentId: number;
+  fileUrl: string;
+  mimeType?: string | null;
+}
+
+const STATUS_STYLES: Record<AnnotationStatus, string> = {
+  open: 'bg-red-100 text-red-800',
+  addressed: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+  wont_fix: 'bg-gray-100 text-gray-800',
+};
+
+const ACTIONS: Record<AnnotationStatus, Array<{ action: AnnotationAction; label: string; needsNote?: boolean }>> = {
+  open: [
+    { action: 'address', label: 'Mark addressed' },
+    { action: 'resolve', label: 'Resolve' },
+    { action: 'dismiss', label: "Won't fix", needsNote: true },
+  ],
+  addressed: [
+    { action: 'resolve', label: 'Resolve' },
+    { action: 'reopen', label: 'Reopen', needsNote: true },
+    { action: 'dismiss', label: "Won't fix", needsNote: true },
+  ],
+  resolved: [{ action: 'reopen', label: 'Reopen', needsNote: true }],
+  wont_fix: [{ action: 'reopen', label: 'Reopen', needsNote: true }],
+};
+
+const TYPE_ICONS: Record<string, typeof MessageSquare> = {
+  comment: MessageSquare,
+  highlight: Highlighter,
+  correction: PenLine,
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Document preview with pinned QC annotations. Drag on the preview to pin a
+ * region, then raise a comment, highlight or correction request against it.
+ */
+export function DocumentAnnotationPanel({ source, documentId, fileUrl, mimeType }: DocumentAnnotationPanelProps) {
+  const { toast } = useToast();
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [page, setPage] = useState(1);
+  const [selecting, setSelecting] = useState(false);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [region, setRegion] = useState<AnnotationPosition | null>(null);
+  const [annotationType, setAnnotationType] = useState<AnnotationType>('comment');
+  const [severity, setSeverity] = useState('minor');
+  const [content, setContent] = useState('');
+  const [highlightedText, setHighlightedText] = useState('');
+  const [requestedChange, setRequestedChange] = useState('');
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const queryKey = ['/api/qc/annotations', source, documentId];
+  const { data: annotations = [], isLoading } = useQuery<DocumentAnnotation[]>({
+    queryKey,
+    queryFn: () => apiRequest<DocumentAnnotation[]>(
+      'GET',
+      `/api/qc/annotations?source=${source}&documentId=${documentId}&includeHistory=true`
+    ),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/ops/document-vault'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/qc/annotations', {
+      source,
+      documentId,
+      annotationType,
+      severity,
+      content: content || null,
+      highlightedText: highlightedText || null,
+      requestedChange: requestedChange || null,
+      position: region,
+    }),
+    onSuccess: () => {
+      refresh();
+      setContent('');
+      setHighlightedText('');
+      setRequestedChange('');
+      setRegion(null);
+      toast({ title: 'Annotation added' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not add annotation', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: AnnotationAction }) =>
+      apiRequest('POST', `/api/qc/annotations/${id}/${action}`, { note: notes[id] || null }),
+    onSuccess: (_data, { id }) => {
+      refresh();
+      setNotes((current) => ({ ...current, [id]: '' }));
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update annotation', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const pointAt = (event: MouseEvent<HTMLDivElement>) => {
+    const rect = previewRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const finishSelection = (event: MouseEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const end = pointAt(event);
+    setRegion({
+      page,
+      x: Math.min(dragStart.x, end.x),
+      y: Math.min(dragStart.y, end.y),
+      width: Math.abs(end.x - dragStart.x),
+      height: Math.abs(end.y - dragStart.y),
+    });
+    setDragStart(null);
+    setSelecting(false);
+  };
+
+  const isPdf = mimeType === 'application/pdf' || fileUrl.toLowerCase().includes('.pdf');
+  const unresolved = annotations.filter((annotation) => annotation.status === 'open' || annotation.status === 'addressed');
+  const pinned = annotations.filter((annotation) => annotation.position?.page === page);
+  const canSubmit = annotationType === 'correction'
+    ? !!requestedChange.trim()
+    : annotationType === 'highlight'
+      ? !!highlightedText.trim() || !!region
+      : !!content.trim();
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[3fr_2fr]">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Label className="text-sm">Page</Label>
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            value={page}
+            onChange={(event) => setPage(Math.max(1, parseInt(event.target.value) || 1))}
+          />
+          <Button
+            variant={selecting ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSelecting(!selecting)}
+          >
+            <Crosshair className="h-4 w-4 mr-1" />
+            {selecting ? 'Drag on the page…' : 'Pin a region'}
+          </Button>
+          {region && (
+            <Button variant="ghost" size="sm" onClick={() => setRegion(null)}>
+              <X className="h-4 w-4 mr-1" />
+              Clear pin
+            </Button>
+          )}
+        </div>
+        <div ref={previewRef} className="relative h-[520px] overflow-hidden rounded border bg-muted">
+          {isPdf ? (
+            <iframe title="Document preview" src={`${fileUrl}#page=${page}`} className="h-full w-full" />
+          ) : (
+            <img src={fileUrl} alt="Document preview" className="h-full w-full object-contain" />
+          )}
+          {pinned.map((annotation, index) => (
+            <div
+              key={annotation.id}
+              className={`absolute border-2 ${annotation.status === 'resolved' || annotation.status === 'wont_fix' ? 'border-green-500/60' : 'border-red-500 bg-red-500/10'}`}
+              style={{
+                left: `${annotation.position!.x * 100}%`,
+                top: `${annotation.position!.y * 100}%`,
+                width: annotation.position!.width ? `${annotation.position!.width * 100}%` : 12,
+                height: annotation.position!.height ? `${annotation.position!.height * 100}%` : 12,
+              }}
+              title={annotation.requestedChange || annotation.content || annotation.highlightedText || ''}
+            >
+              <span className="absolute -top-5 left-0 rounded bg-red-600 px-1 text-xs text-white">{index + 1}</span>
+            </div>
+          ))}
+          {region && region.page === page && (
+            <div
+              className="absolute border-2 border-dashed border-blue-600 bg-blue-500/10"
+              style={{
+                left: `${region.x * 100}%`,
+                top: `${region.y * 100}%`,
+                width: region.width ? `${region.width * 100}%` : 12,
+                height: region.height ? `${region.height * 100}%` : 12,
+              }}
+            />
+          )}
+          {selecting && (
+            <div
+              className="absolute inset-0 cursor-crosshair"
+              onMouseDown={(event) => setDragStart(pointAt(event))}
+              onMouseUp={finishSelection}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="flex gap-2">
+            <Select value={annotationType} onValueChange={(value) => setAnnotationType(value as AnnotationType)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="comment">Comment</SelectItem>
+                <SelectItem value="highlight">Highlight</SelectItem>
+                <SelectItem value="correction">Correction</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={severity} onValueChange={setSeverity}>
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="minor">Minor</SelectItem>
+                <SelectItem value="major">Major</SelectItem>
+                <SelectItem value="critical">Critical</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {annotationType !== 'comment' && (
+            <Input
+              placeholder="Text on the document this refers to"
+              value={highlightedText}
+              onChange={(event) => setHighlightedText(event.target.value)}
+            />
+          )}
+          {annotationType === 'correction' && (
+            <Textarea
+              placeholder="Change required, e.g. DIN of second director is incorrect"
+              value={requestedChange}
+              onChange={(event) => setRequestedChange(event.target.value)}
+            />
+          )}
+          <Textarea
+            placeholder={annotationType === 'comment' ? 'Comment' : 'Comment (optional)'}
+            value={content}
+            onChange={(event) => setContent(event.target.value)}
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              {region ? `Pinned to page ${region.page}` : 'Not pinned to a region'}
+            </span>
+            <Button size="sm" onClick={() => createMutation.mutate()} disabled={!canSubmit || createMutation.isPending}>
+              Add annotation
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">Annotations ({annotations.length})</p>
+          {unresolved.length > 0 && (
+            <Badge className="bg-red-100 text-red-800">{unresolved.length} unresolved - approval blocked</Badge>
+          )}
+        </div>
+        <div className="max-h-[340px] space-y-2 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading annotations…</p>
+          ) : annotations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No annotations on this document.</p>
+          ) : (
+            annotations.map((annotation) => {
+              const Icon = TYPE_ICONS[annotation.annotationType] || MessageSquare;
+              return (
+                <div key={annotation.id} className="space-y-2 rounded-lg border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 font-medium capitalize"
+                      onClick={() => annotation.position && setPage(annotation.position.page)}
+                    >
+                      <Icon className="h-4 w-4" />
+                      {annotation.annotationType}
+                      {annotation.position && (
+                        <span className="text-xs text-muted-foreground normal-case">p.{annotation.position.page}</span>
+                      )}
+                    </button>
+                    <div className="flex gap-1">
+                      <Badge variant="outline" className="capitalize">{annotation.severity || 'minor'}</Badge>
+                      <Badge className={STATUS_STYLES[annotation.status]}>{annotation.status.replace(/_/g, ' ')}</Badge>
+                    </div>
+                  </div>
+                  {annotation.highlightedText && (
+                    <p className="rounded bg-yellow-100 px-2 py-1 text-xs">“{annotation.highlightedText}”</p>
+                  )}
+                  {annotation.requestedChange && <p><span className="font-medium">Change: </span>{annotation.requestedChange}</p>}
+                  {annotation.content && <p className="text-muted-foreground">{annotation.content}</p>}
+                  {annotation.history && annotation.history.length > 1 && (
+                    <ul className="space-y-0.5 border-l pl-2 text-xs text-muted-foreground">
+                      {annotation.history.slice(1).map((event) => (
+                        <li key={event.id}>
+                          {event.toStatus.replace(/_/g, ' ')} {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                          {event.note ? ` - ${event.note}` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex flex-wrap items-center gap-1">
+                    <Input
+                      className="h-8 flex-1 min-w-[120px]"
+                      placeholder="Note"
+                      value={notes[annotation.id] || ''}
+                      onChange={(event) => setNotes((current) => ({ ...current, [annotation.id]: event.target.value }))}
+                    />
+                    {ACTIONS[annotation.status].map(({ action, label, needsNote }) => (
+                      <Button
+                        key={action}
+                        size="sm"
+                        variant="outline"
+                        disabled={transitionMutation.isPending || (needsNote && !notes[annotation.id]?.trim())}
+                        onClick={() => transitionMutation.mutate({ id: annotation.id, action })}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -14,3 +14,4 @@ export * from './PriorityBadge';
 export * from './EscalationIndicator';
 export * from './QCReviewCard';
 export * from './TeamWorkloadCard';
+export * from './DocumentAnnotationPanel';
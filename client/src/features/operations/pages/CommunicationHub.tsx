@@ -2,6 +2,7 @@
  * Client Communication Hub
  *
  * Unified communication center for ops team:
+ * - Inbox of client replies (WhatsApp, SMS, email) threaded onto requests and tickets
  * - View all client communications (email, SMS, WhatsApp, calls)
  * - Log new communications
  * - Filter and search history
@@ -9,10 +10,11 @@
  */
 
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { DashboardLayout } from '@/layouts';
 import { useAuth } from '@/hooks/use-auth';
 import { useStandardQuery } from '@/hooks/useStandardQuery';
-import { get, post } from '@/lib/api';
+import { get, post, put } from '@/lib/api';
 import {
   Card,
   CardContent,
@@ -64,6 +66,11 @@ import {
   Calendar,
   FileText,
   RefreshCw,
+  Inbox,
+  Paperclip,
+  Lock,
+  Send,
+  Link2,
 } from 'lucide-react';
 
 interface Communication {
@@ -107,6 +114,72 @@ interface CommunicationData {
   };
 }
 
+interface ThreadAttachment {
+  name: string;
+  url: string;
+  size: number;
+  type: string;
+  documentVaultId: number | null;
+}
+
+interface ThreadMessage {
+  id: number;
+  threadId: number;
+  senderId: number | null;
+  messageType: 'text' | 'attachment' | 'system' | 'template';
+  content: string | null;
+  attachments: ThreadAttachment[] | null;
+  isInternal: boolean;
+  channel: 'whatsapp' | 'sms' | 'email' | null;
+  direction: 'inbound' | 'outbound' | 'internal';
+  senderAddress: string | null;
+  metadata: {
+    intent?: string | null;
+    verifiedSender?: boolean;
+    senderName?: string | null;
+    subject?: string | null;
+    status?: string;
+    skippedAttachments?: string[];
+  } | null;
+  createdAt: string;
+}
+
+interface InboxThread {
+  id: number;
+  entityType: 'service_request' | 'support_ticket' | 'contact';
+  entityId: number;
+  subject: string | null;
+  businessEntityName: string | null;
+  contactAddress: string | null;
+  awaitingResponse: boolean;
+  messageCount: number;
+  lastMessageAt: string;
+  lastMessage: ThreadMessage | null;
+}
+
+interface InboxData {
+  threads: InboxThread[];
+  counts: { total: number; awaiting: number };
+}
+
+interface ThreadDetail extends Omit<InboxThread, 'lastMessage'> {
+  messages: ThreadMessage[];
+}
+
+const INTENT_LABELS: Record<string, string> = {
+  documents_uploaded: 'Says uploaded',
+  payment_made: 'Says paid',
+  callback_requested: 'Wants a call',
+  opt_out: 'Opt-out',
+  acknowledged: 'Acknowledged',
+};
+
+const ENTITY_LABELS: Record<InboxThread['entityType'], string> = {
+  service_request: 'Service request',
+  support_ticket: 'Ticket',
+  contact: 'Unlinked',
+};
+
 const navigation = [
   { label: 'Dashboard', href: '/operations' },
   { label: 'Work Queue', href: '/work-queue' },
@@ -114,6 +187,280 @@ const navigation = [
   { label: 'Team', href: '/ops/team' },
 ];
 
+// Client replies threaded onto requests and tickets, with internal notes
+function ReplyInbox({
+  formatTime,
+  getTypeIcon,
+}: {
+  formatTime: (dateStr: string) => string;
+  getTypeIcon: (type: string) => JSX.Element;
+}) {
+  const [statusFilter, setStatusFilter] = useState<'awaiting' | 'all'>('awaiting');
+  const [channelFilter, setChannelFilter] = useState<string>('all');
+  const [selectedThreadId, setSelectedThreadId] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [link, setLink] = useState({ entityType: 'service_request', entityId: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const inboxQuery = useStandardQuery<InboxData>({
+    queryKey: ['/api/communications/inbox', statusFilter, channelFilter],
+    queryFn: () => get<InboxData>(
+      `/api/communications/inbox?status=${statusFilter}&channel=${channelFilter}`
+    ),
+  });
+
+  const threadQuery = useQuery<ThreadDetail>({
+    queryKey: ['/api/communications/threads', selectedThreadId],
+    queryFn: () => get<ThreadDetail>(`/api/communications/threads/${selectedThreadId}`),
+    enabled: selectedThreadId !== null,
+  });
+
+  const runAction = async (action: () => Promise<unknown>, clearDraft = false) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      if (clearDraft) setDraft('');
+      inboxQuery.refetch();
+      threadQuery.refetch();
+    } catch (error) {
+      console.error('Inbox action failed:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const thread = threadQuery.data;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Inbox className="h-4 w-4" />
+              Client Replies
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={() => inboxQuery.refetch()}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex gap-2 pt-2">
+            <Select value={statusFilter} onValueChange={(v: 'awaiting' | 'all') => setStatusFilter(v)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="awaiting">Awaiting response</SelectItem>
+                <SelectItem value="all">All threads</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={channelFilter} onValueChange={setChannelFilter}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels</SelectItem>
+                <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                <SelectItem value="sms">SMS</SelectItem>
+                <SelectItem value="email">Email</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {inboxQuery.render((data) => (
+            <div className="space-y-2">
+              <p className="text-xs text-gray-500">
+                {data.counts.awaiting} awaiting response of {data.counts.total} threads
+              </p>
+              {data.threads.length === 0 && (
+                <div className="text-center py-8 text-gray-500">
+                  <Inbox className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+                  <p>No client replies</p>
+                </div>
+              )}
+              {data.threads.map((item) => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => setSelectedThreadId(item.id)}
+                  className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                    selectedThreadId === item.id ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm truncate">
+                      {item.subject || item.contactAddress}
+                    </span>
+                    <span className="text-xs text-gray-500 shrink-0">{formatTime(item.lastMessageAt)}</span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                    {item.lastMessage?.channel && getTypeIcon(item.lastMessage.channel)}
+                    <span>{ENTITY_LABELS[item.entityType]}</span>
+                    {item.businessEntityName && <span>· {item.businessEntityName}</span>}
+                    {item.awaitingResponse && <Badge className="bg-orange-500 ml-auto">Awaiting</Badge>}
+                  </div>
+                  {item.lastMessage?.content && (
+                    <p className="text-sm text-gray-600 mt-1 line-clamp-1">{item.lastMessage.content}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-3">
+        {!thread ? (
+          <CardContent className="py-16 text-center text-gray-500">
+            <MessageSquare className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>Select a thread to read the conversation</p>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base">{thread.subject || thread.contactAddress}</CardTitle>
+                  <CardDescription>
+                    {ENTITY_LABELS[thread.entityType]}
+                    {thread.businessEntityName ? ` · ${thread.businessEntityName}` : ''}
+                    {thread.contactAddress ? ` · ${thread.contactAddress}` : ''}
+                  </CardDescription>
+                </div>
+                {thread.awaitingResponse && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSubmitting}
+                    onClick={() => runAction(() => post(`/api/communications/threads/${thread.id}/handled`))}
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Mark Handled
+                  </Button>
+                )}
+              </div>
+              {thread.entityType === 'contact' && (
+                <div className="flex items-center gap-2 pt-2">
+                  <Select value={link.entityType} onValueChange={(v) => setLink({ ...link, entityType: v })}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="service_request">Service request</SelectItem>
+                      <SelectItem value="support_ticket">Ticket</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="w-32"
+                    placeholder="ID"
+                    value={link.entityId}
+                    onChange={(e) => setLink({ ...link, entityId: e.target.value })}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!link.entityId || isSubmitting}
+                    onClick={() => runAction(() => put(`/api/communications/threads/${thread.id}/link`, {
+                      entityType: link.entityType,
+                      entityId: parseInt(link.entityId),
+                    }))}
+                  >
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Link
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-3 max-h-[480px] overflow-y-auto pr-1">
+                {thread.messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={`p-3 rounded-lg border ${
+                      message.isInternal
+                        ? 'bg-yellow-50 border-yellow-200'
+                        : message.direction === 'outbound'
+                          ? 'bg-blue-50 border-blue-100 ml-8'
+                          : 'bg-white mr-8'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                      {message.isInternal ? <Lock className="h-3 w-3" /> : message.channel && getTypeIcon(message.channel)}
+                      <span>
+                        {message.isInternal
+                          ? 'Internal note'
+                          : message.direction === 'inbound'
+                            ? message.metadata?.senderName || message.senderAddress
+                            : `Reply to ${message.senderAddress}`}
+                      </span>
+                      {message.metadata?.intent && (
+                        <Badge variant="outline" className="text-xs">
+                          {INTENT_LABELS[message.metadata.intent] || message.metadata.intent}
+                        </Badge>
+                      )}
+                      {message.direction === 'inbound' && message.metadata?.verifiedSender === false && (
+                        <Badge variant="destructive" className="text-xs">Unverified sender</Badge>
+                      )}
+                      {message.direction === 'outbound' && message.metadata?.status === 'failed' && (
+                        <Badge variant="destructive" className="text-xs">Not delivered</Badge>
+                      )}
+                      <span className="ml-auto">{formatTime(message.createdAt)}</span>
+                    </div>
+                    {message.content && (
+                      <p className="text-sm mt-1 whitespace-pre-wrap">{message.content}</p>
+                    )}
+                    {message.attachments?.map((attachment) => (
+                      <a
+                        key={attachment.url}
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center gap-1 text-sm text-blue-600 mt-1"
+                      >
+                        <Paperclip className="h-3 w-3" />
+                        {attachment.name}
+                        {attachment.documentVaultId && <span className="text-xs text-gray-500">(in vault)</span>}
+                      </a>
+                    ))}
+                    {message.metadata?.skippedAttachments?.map((note) => (
+                      <p key={note} className="text-xs text-red-600 mt-1">{note}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <Textarea
+                placeholder="Write a reply to the client, or an internal note..."
+                rows={3}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  disabled={!draft.trim() || isSubmitting}
+                  onClick={() => runAction(() => post(`/api/communications/threads/${thread.id}/notes`, { content: draft }), true)}
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  Add Note
+                </Button>
+                <Button
+                  disabled={!draft.trim() || isSubmitting}
+                  onClick={() => runAction(() => post(`/api/communications/threads/${thread.id}/reply`, { content: draft }), true)}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  Reply to Client
+                </Button>
+              </div>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
+
 export default function ClientCommunicationHub() {
   const { user: authUser } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
@@ -321,193 +668,206 @@ export default function ClientCommunicationHub() {
           </Dialog>
         </div>
 
-        {/* Stats Cards */}
-        {commQuery.render((data) => (
-          <>
-            <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
-              <Card>
-                <CardContent className="p-4 text-center">
-                  <p className="text-sm text-gray-600">Today</p>
-                  <p className="text-2xl font-bold">{data?.stats?.today || 0}</p>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardContent className="p-4 text-center">
-                  <p className="text-sm text-gray-600">Total</p>
-                  <p className="text-2xl font-bold">{data?.stats?.total || 0}</p>
-                </CardContent>
-              </Card>
-              <Card className="bg-blue-50">
-                <CardContent className="p-4 flex items-center gap-2">
-                  <Mail className="h-5 w-5 text-blue-600" />
-                  <div>
-                    <p className="text-xs text-blue-700">Emails</p>
-                    <p className="text-lg font-bold text-blue-800">{data?.stats?.byType?.email || 0}</p>
-                  </div>
-                </CardContent>
-              </Card>
-              <Card className="bg-orange-50">
-                <CardContent className="p-4 flex items-center gap-2">
-                  <Phone className="h-5 w-5 text-orange-600" />
-                  <div>
-                    <p className="text-xs text-orange-700">Calls</p>
-                    <p className="text-lg font-bold text-orange-800">{data?.stats?.byType?.call || 0}</p>
-                  </div>
-                </CardContent>
-              </Card>
-              <Card className="bg-green-50">
-                <CardContent className="p-4 flex items-center gap-2">
-                  <MessageCircle className="h-5 w-5 text-green-600" />
-                  <div>
-                    <p className="text-xs text-green-700">WhatsApp</p>
-                    <p className="text-lg font-bold text-green-800">{data?.stats?.byType?.whatsapp || 0}</p>
-                  </div>
-                </CardContent>
-              </Card>
-              <Card className="bg-purple-50">
-                <CardContent className="p-4 flex items-center gap-2">
-                  <MessageSquare className="h-5 w-5 text-purple-600" />
-                  <div>
-                    <p className="text-xs text-purple-700">SMS</p>
-                    <p className="text-lg font-bold text-purple-800">{data?.stats?.byType?.sms || 0}</p>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
+        <Tabs defaultValue="inbox">
+          <TabsList>
+            <TabsTrigger value="inbox">Inbox</TabsTrigger>
+            <TabsTrigger value="all">All Communications</TabsTrigger>
+          </TabsList>
 
-            {/* Filters */}
-            <Card>
-              <CardContent className="p-4">
-                <div className="flex flex-col lg:flex-row gap-4">
-                  <div className="relative flex-1">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                    <Input
-                      placeholder="Search by client name or content..."
-                      className="pl-10"
-                      value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
-                    />
-                  </div>
-                  <Select value={typeFilter} onValueChange={setTypeFilter}>
-                    <SelectTrigger className="w-40">
-                      <SelectValue placeholder="Type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Types</SelectItem>
-                      <SelectItem value="email">Email</SelectItem>
-                      <SelectItem value="call">Call</SelectItem>
-                      <SelectItem value="whatsapp">WhatsApp</SelectItem>
-                      <SelectItem value="sms">SMS</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Select value={directionFilter} onValueChange={setDirectionFilter}>
-                    <SelectTrigger className="w-40">
-                      <SelectValue placeholder="Direction" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All</SelectItem>
-                      <SelectItem value="outbound">Outbound</SelectItem>
-                      <SelectItem value="inbound">Inbound</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Button variant="outline" onClick={() => commQuery.refetch()}>
-                    <RefreshCw className="h-4 w-4" />
-                  </Button>
+          <TabsContent value="inbox" className="mt-4">
+            <ReplyInbox formatTime={formatTime} getTypeIcon={getTypeIcon} />
+          </TabsContent>
+
+          <TabsContent value="all" className="mt-4 space-y-6">
+            {/* Stats Cards */}
+            {commQuery.render((data) => (
+              <>
+                <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+                  <Card>
+                    <CardContent className="p-4 text-center">
+                      <p className="text-sm text-gray-600">Today</p>
+                      <p className="text-2xl font-bold">{data?.stats?.today || 0}</p>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="p-4 text-center">
+                      <p className="text-sm text-gray-600">Total</p>
+                      <p className="text-2xl font-bold">{data?.stats?.total || 0}</p>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-blue-50">
+                    <CardContent className="p-4 flex items-center gap-2">
+                      <Mail className="h-5 w-5 text-blue-600" />
+                      <div>
+                        <p className="text-xs text-blue-700">Emails</p>
+                        <p className="text-lg font-bold text-blue-800">{data?.stats?.byType?.email || 0}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-orange-50">
+                    <CardContent className="p-4 flex items-center gap-2">
+                      <Phone className="h-5 w-5 text-orange-600" />
+                      <div>
+                        <p className="text-xs text-orange-700">Calls</p>
+                        <p className="text-lg font-bold text-orange-800">{data?.stats?.byType?.call || 0}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-green-50">
+                    <CardContent className="p-4 flex items-center gap-2">
+                      <MessageCircle className="h-5 w-5 text-green-600" />
+                      <div>
+                        <p className="text-xs text-green-700">WhatsApp</p>
+                        <p className="text-lg font-bold text-green-800">{data?.stats?.byType?.whatsapp || 0}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                  <Card className="bg-purple-50">
+                    <CardContent className="p-4 flex items-center gap-2">
+                      <MessageSquare className="h-5 w-5 text-purple-600" />
+                      <div>
+                        <p className="text-xs text-purple-700">SMS</p>
+                        <p className="text-lg font-bold text-purple-800">{data?.stats?.byType?.sms || 0}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
                 </div>
-              </CardContent>
-            </Card>
-
-            {/* Communication Timeline */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Recent Communications</CardTitle>
-                <CardDescription>All client interactions across channels</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {data?.communications?.length === 0 && (
-                    <div className="text-center py-8 text-gray-500">
-                      <MessageSquare className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-                      <p>No communications found</p>
-                      <p className="text-sm">Log your first client interaction above</p>
-                    </div>
-                  )}
-                  {data?.communications?.map((comm) => (
-                    <div
-                      key={comm.id}
-                      className="flex gap-4 p-4 border rounded-lg hover:bg-gray-50 transition-colors"
-                    >
-                      {/* Type Icon */}
-                      <div className={`p-2 rounded-full h-fit ${getTypeColor(comm.type)}`}>
-                        {getTypeIcon(comm.type)}
+
+                {/* Filters */}
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="flex flex-col lg:flex-row gap-4">
+                      <div className="relative flex-1">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <Input
+                          placeholder="Search by client name or content..."
+                          className="pl-10"
+                          value={searchQuery}
+                          onChange={(e) => setSearchQuery(e.target.value)}
+                        />
                       </div>
+                      <Select value={typeFilter} onValueChange={setTypeFilter}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue placeholder="Type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Types</SelectItem>
+                          <SelectItem value="email">Email</SelectItem>
+                          <SelectItem value="call">Call</SelectItem>
+                          <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                          <SelectItem value="sms">SMS</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select value={directionFilter} onValueChange={setDirectionFilter}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue placeholder="Direction" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All</SelectItem>
+                          <SelectItem value="outbound">Outbound</SelectItem>
+                          <SelectItem value="inbound">Inbound</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button variant="outline" onClick={() => commQuery.refetch()}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Communication Timeline */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Recent Communications</CardTitle>
+                    <CardDescription>All client interactions across channels</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {data?.communications?.length === 0 && (
+                        <div className="text-center py-8 text-gray-500">
+                          <MessageSquare className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                          <p>No communications found</p>
+                          <p className="text-sm">Log your first client interaction above</p>
+                        </div>
+                      )}
+                      {data?.communications?.map((comm) => (
+                        <div
+                          key={comm.id}
+                          className="flex gap-4 p-4 border rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          {/* Type Icon */}
+                          <div className={`p-2 rounded-full h-fit ${getTypeColor(comm.type)}`}>
+                            {getTypeIcon(comm.type)}
+                          </div>
 
-                      {/* Content */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between gap-2">
-                          <div>
-                            <div className="flex items-center gap-2">
-                              <span className="font-semibold">{comm.clientName}</span>
-                              {comm.direction === 'outbound' ? (
-                                <ArrowUpRight className="h-4 w-4 text-blue-500" />
-                              ) : (
-                                <ArrowDownLeft className="h-4 w-4 text-green-500" />
+                          {/* Content */}
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-start justify-between gap-2">
+                              <div>
+                                <div className="flex items-center gap-2">
+                                  <span className="font-semibold">{comm.clientName}</span>
+                                  {comm.direction === 'outbound' ? (
+                                    <ArrowUpRight className="h-4 w-4 text-blue-500" />
+                                  ) : (
+                                    <ArrowDownLeft className="h-4 w-4 text-green-500" />
+                                  )}
+                                  <Badge variant="outline" className="text-xs">
+                                    {comm.direction}
+                                  </Badge>
+                                </div>
+                                {comm.subject && (
+                                  <p className="text-sm font-medium text-gray-700 mt-1">
+                                    {comm.subject}
+                                  </p>
+                                )}
+                              </div>
+                              <div className="text-right">
+                                <p className="text-xs text-gray-500">{formatTime(comm.sentAt)}</p>
+                                {getStatusBadge(comm.status)}
+                              </div>
+                            </div>
+
+                            <p className="text-sm text-gray-600 mt-2 line-clamp-2">
+                              {comm.content}
+                            </p>
+
+                            <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
+                              <span className="flex items-center gap-1">
+                                <User className="h-3 w-3" />
+                                {comm.sentBy}
+                              </span>
+                              {comm.caseReference && (
+                                <span className="flex items-center gap-1">
+                                  <FileText className="h-3 w-3" />
+                                  {comm.caseReference}
+                                </span>
                               )}
-                              <Badge variant="outline" className="text-xs">
-                                {comm.direction}
-                              </Badge>
                             </div>
-                            {comm.subject && (
-                              <p className="text-sm font-medium text-gray-700 mt-1">
-                                {comm.subject}
-                              </p>
-                            )}
-                          </div>
-                          <div className="text-right">
-                            <p className="text-xs text-gray-500">{formatTime(comm.sentAt)}</p>
-                            {getStatusBadge(comm.status)}
                           </div>
                         </div>
-
-                        <p className="text-sm text-gray-600 mt-2 line-clamp-2">
-                          {comm.content}
-                        </p>
-
-                        <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
-                          <span className="flex items-center gap-1">
-                            <User className="h-3 w-3" />
-                            {comm.sentBy}
-                          </span>
-                          {comm.caseReference && (
-                            <span className="flex items-center gap-1">
-                              <FileText className="h-3 w-3" />
-                              {comm.caseReference}
-                            </span>
-                          )}
-                        </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
 
-                {/* Pagination */}
-                {data?.pagination && data.pagination.totalPages > 1 && (
-                  <div className="flex justify-center gap-2 mt-6">
-                    <Button variant="outline" size="sm" disabled={data.pagination.page <= 1}>
-                      Previous
-                    </Button>
-                    <span className="flex items-center px-3 text-sm text-gray-600">
-                      Page {data.pagination.page} of {data.pagination.totalPages}
-                    </span>
-                    <Button variant="outline" size="sm" disabled={data.pagination.page >= data.pagination.totalPages}>
-                      Next
-                    </Button>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </>
-        ))}
+                    {/* Pagination */}
+                    {data?.pagination && data.pagination.totalPages > 1 && (
+                      <div className="flex justify-center gap-2 mt-6">
+                        <Button variant="outline" size="sm" disabled={data.pagination.page <= 1}>
+                          Previous
+                        </Button>
+                        <span className="flex items-center px-3 text-sm text-gray-600">
+                          Page {data.pagination.page} of {data.pagination.totalPages}
+                        </span>
+                        <Button variant="outline" size="sm" disabled={data.pagination.page >= data.pagination.totalPages}>
+                          Next
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            ))}
+          </TabsContent>
+        </Tabs>
       </div>
     </DashboardLayout>
   );
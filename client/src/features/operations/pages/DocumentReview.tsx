@@ -10,9 +10,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Eye, CheckCircle2, XCircle, FileText } from "lucide-react";
+import { Eye, CheckCircle2, XCircle, FileText, Search, MessageSquarePlus } from "lucide-react";
+import DOMPurify from "isomorphic-dompurify";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { DocumentAnnotationPanel } from "../components/DocumentAnnotationPanel";
 
 interface ReviewDocument {
   id: number;
@@ -45,6 +47,27 @@ interface DocumentQueueResponse {
   };
 }
 
+interface DocumentSearchResult {
+  indexId: number;
+  source: "upload" | "vault";
+  sourceId: number;
+  title: string | null;
+  documentType: string | null;
+  category: string | null;
+  entityName: string | null;
+  documentDate: string | null;
+  status: string | null;
+  ocrConfidence: number | null;
+  identifiers: Record<string, string[]>;
+  highlights: string[];
+  downloadUrl: string | null;
+}
+
+interface DocumentSearchResponse {
+  total: number;
+  results: DocumentSearchResult[];
+}
+
 const statusColor = (status: string) => {
   switch (status) {
     case "approved":
@@ -71,12 +94,140 @@ const formatFileSize = (bytes?: number | null) => {
   return `${size.toFixed(1)} ${units[unitIndex]}`;
 };
 
+function DocumentSearchPanel() {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams();
+  if (query) params.set("q", query);
+  if (category !== "all") params.set("category", category);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const searchString = params.toString();
+
+  const { data, isFetching } = useQuery<DocumentSearchResponse>({
+    queryKey: ["/api/document-search", searchString],
+    queryFn: () => apiRequest<DocumentSearchResponse>("GET", `/api/document-search?${searchString}`),
+    enabled: !!query || !!from || !!to,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Search Documents
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-col gap-3 md:flex-row md:items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            setQuery(input.trim());
+          }}
+        >
+          <div className="flex-1 space-y-1">
+            <Label className="text-sm">Search text, client, PAN/GSTIN/CIN/DIN</Label>
+            <Input
+              placeholder="e.g. 2023 MOA Acme"
+              value={input}
+              onChange={(event) => setInput(event.target.value)}
+              data-testid="input-document-search"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="kyc">KYC</SelectItem>
+                <SelectItem value="tax">Tax</SelectItem>
+                <SelectItem value="license">License</SelectItem>
+                <SelectItem value="compliance">Compliance</SelectItem>
+                <SelectItem value="legal">Legal</SelectItem>
+                <SelectItem value="general">General</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">From</Label>
+            <Input type="date" value={from} onChange={(event) => setFrom(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm">To</Label>
+            <Input type="date" value={to} onChange={(event) => setTo(event.target.value)} />
+          </div>
+          <Button type="submit" disabled={isFetching} data-testid="button-document-search">
+            {isFetching ? "Searching..." : "Search"}
+          </Button>
+        </form>
+
+        {data && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">{data.total} document(s) found</p>
+            {data.results.map((result) => (
+              <div key={result.indexId} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-medium">{result.title || "Untitled document"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {result.entityName || "No entity"} • {(result.documentType || result.category || "document").replace(/_/g, " ")}
+                      {result.documentDate ? ` • ${format(new Date(result.documentDate), "dd MMM yyyy")}` : ""}
+                      {result.ocrConfidence !== null ? ` • OCR ${Math.round(result.ocrConfidence)}%` : ""}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {result.status && result.status !== "indexed" && (
+                      <Badge variant="outline">{result.status === "pending" ? "indexing" : result.status}</Badge>
+                    )}
+                    {result.downloadUrl && (
+                      <Button variant="outline" size="sm" onClick={() => window.open(result.downloadUrl!, "_blank")}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {Object.entries(result.identifiers).length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {Object.entries(result.identifiers).flatMap(([type, values]) =>
+                      values.slice(0, 3).map((value) => (
+                        <Badge key={`${type}-${value}`} variant="secondary" className="font-mono text-xs">
+                          {type.toUpperCase()} {value}
+                        </Badge>
+                      ))
+                    )}
+                  </div>
+                )}
+                {result.highlights.map((fragment, index) => (
+                  <p
+                    key={index}
+                    className="text-sm text-muted-foreground [&_mark]:bg-yellow-200 [&_mark]:text-foreground"
+                    dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(`…${fragment}…`, { ALLOWED_TAGS: ["mark"] }) }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function OperationsDocumentReview() {
   const { toast } = useToast();
   const [statusFilter, setStatusFilter] = useState("pending");
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [rejectReason, setRejectReason] = useState("");
   const [selectedDocument, setSelectedDocument] = useState<ReviewDocument | null>(null);
+  const [annotatingDocument, setAnnotatingDocument] = useState<ReviewDocument | null>(null);
 
   const { data, isLoading } = useQuery<DocumentQueueResponse>({
     queryKey: ["/api/ops/document-vault", statusFilter],
@@ -108,6 +259,13 @@ export default function OperationsDocumentReview() {
         description: "The document is now approved.",
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Cannot Approve",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const rejectMutation = useMutation({
@@ -143,6 +301,8 @@ export default function OperationsDocumentReview() {
         </p>
       </div>
 
+      <DocumentSearchPanel />
+
       <Card>
         <CardHeader className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
           <CardTitle className="flex items-center gap-2">
@@ -227,6 +387,14 @@ export default function OperationsDocumentReview() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setAnnotatingDocument(doc)}
+                        >
+                          <MessageSquarePlus className="h-4 w-4 mr-1" />
+                          Annotate
+                        </Button>
                         {["pending", "under_review"].includes(doc.approvalStatus) && (
                           <>
                             <Button
@@ -257,6 +425,25 @@ export default function OperationsDocumentReview() {
         </CardContent>
       </Card>
 
+      <Dialog open={!!annotatingDocument} onOpenChange={(open) => !open && setAnnotatingDocument(null)}>
+        <DialogContent className="max-w-6xl">
+          <DialogHeader>
+            <DialogTitle>Annotate {annotatingDocument?.fileName}</DialogTitle>
+            <DialogDescription>
+              Pin comments and correction requests to the document. It can't be approved while any are unresolved.
+            </DialogDescription>
+          </DialogHeader>
+          {annotatingDocument && (
+            <DocumentAnnotationPanel
+              source="vault"
+              documentId={annotatingDocument.id}
+              fileUrl={annotatingDocument.fileUrl}
+              mimeType={annotatingDocument.mimeType}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
         <DialogContent>
           <DialogHeader>
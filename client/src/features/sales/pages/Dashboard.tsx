@@ -112,6 +112,24 @@ interface TeamMember {
   target: number;
 }
 
+interface LeaderboardEntry {
+  userId: number;
+  name: string;
+  teamName: string | null;
+  rank: number;
+  target: number | null;
+  actual: number;
+  conversions: number;
+  attainmentPct: number | null;
+  projected: number;
+  status: 'achieved' | 'on_track' | 'at_risk' | 'behind' | 'no_quota';
+}
+
+interface LeaderboardResponse {
+  period: { periodType: 'monthly' | 'quarterly'; start: string; end: string; label: string };
+  entries: LeaderboardEntry[];
+}
+
 // API response interfaces
 interface LeadsResponse {
   data: Lead[];
@@ -168,6 +186,15 @@ const navigation = [
   },
 ];
 
+// Quota attainment status badges
+const attainmentStatus: Record<LeaderboardEntry['status'], { label: string; className: string }> = {
+  achieved: { label: 'Achieved', className: 'bg-green-100 text-green-800' },
+  on_track: { label: 'On track', className: 'bg-blue-100 text-blue-800' },
+  at_risk: { label: 'At risk', className: 'bg-yellow-100 text-yellow-800' },
+  behind: { label: 'Behind', className: 'bg-red-100 text-red-800' },
+  no_quota: { label: 'No quota', className: 'bg-gray-100 text-gray-700' },
+};
+
 // Lead sources for dropdown
 const leadSources = [
   { value: 'Website', label: 'Website' },
@@ -212,6 +239,8 @@ function CreateLeadDialog({
     estimatedValue: '',
     serviceInterested: '',
     state: '',
+    city: '',
+    industry: '',
     entityType: '',
     notes: '',
   });
@@ -233,6 +262,8 @@ function CreateLeadDialog({
       estimatedValue: formData.estimatedValue ? parseFloat(formData.estimatedValue) : null,
       serviceInterested: formData.serviceInterested || 'General Inquiry',
       state: formData.state,
+      city: formData.city,
+      industry: formData.industry,
       entityType: formData.entityType,
       notes: formData.notes,
     });
@@ -249,6 +280,8 @@ function CreateLeadDialog({
       estimatedValue: '',
       serviceInterested: '',
       state: '',
+      city: '',
+      industry: '',
       entityType: '',
       notes: '',
     });
@@ -348,6 +381,24 @@ function CreateLeadDialog({
               />
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>City</Label>
+              <Input
+                value={formData.city}
+                onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                placeholder="Pune"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Industry</Label>
+              <Input
+                value={formData.industry}
+                onChange={(e) => setFormData({ ...formData, industry: e.target.value })}
+                placeholder="Manufacturing"
+              />
+            </div>
+          </div>
           <div className="space-y-2">
             <Label>Service Interested</Label>
             <Input
@@ -387,6 +438,7 @@ export default function SalesDashboard() {
   const [isCreateLeadOpen, setIsCreateLeadOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [quotaPeriod, setQuotaPeriod] = useState<'monthly' | 'quarterly'>('monthly');
 
   const isManager = user?.role === 'sales_manager';
 
@@ -443,6 +495,16 @@ export default function SalesDashboard() {
     },
   });
 
+  // Fetch quota leaderboard from API
+  const { data: leaderboard, isLoading: leaderboardLoading } = useQuery<LeaderboardResponse>({
+    queryKey: ['/api/sales-planning/leaderboard', quotaPeriod],
+    queryFn: async () => {
+      const response = await fetch(`/api/sales-planning/leaderboard?periodType=${quotaPeriod}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch leaderboard');
+      return response.json();
+    },
+  });
+
   // Create lead mutation with proper error handling
   const createLeadMutation = useMutation({
     mutationFn: async (leadData: Partial<Lead>) => {
@@ -671,6 +733,79 @@ export default function SalesDashboard() {
             </Card>
           </div>
 
+          {/* Quota Leaderboard */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Quota Leaderboard</CardTitle>
+                <CardDescription>
+                  Attainment from converted revenue{leaderboard ? ` - ${leaderboard.period.label}` : ''}
+                </CardDescription>
+              </div>
+              <Select value={quotaPeriod} onValueChange={(v) => setQuotaPeriod(v as 'monthly' | 'quarterly')}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">This month</SelectItem>
+                  <SelectItem value="quarterly">This quarter</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {leaderboardLoading ? (
+                <p className="text-sm text-muted-foreground text-center py-4">Loading leaderboard...</p>
+              ) : !leaderboard || leaderboard.entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No quotas set for this period yet.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Rep</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right">Quota</TableHead>
+                      <TableHead className="w-[180px]">Attainment</TableHead>
+                      <TableHead className="text-right">Projected</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {leaderboard.entries.map((entry) => (
+                      <TableRow key={entry.userId} className={entry.userId === user?.id ? 'bg-muted/50' : undefined}>
+                        <TableCell className="font-medium">{entry.rank}</TableCell>
+                        <TableCell>
+                          <p className="font-medium text-sm">{entry.name}</p>
+                          {entry.teamName && <p className="text-xs text-muted-foreground">{entry.teamName}</p>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.actual)}</TableCell>
+                        <TableCell className="text-right">{entry.target !== null ? formatCurrency(entry.target) : '-'}</TableCell>
+                        <TableCell>
+                          {entry.attainmentPct !== null ? (
+                            <div className="flex items-center gap-2">
+                              <Progress value={Math.min(entry.attainmentPct, 100)} className="h-2 flex-1" />
+                              <span className="text-xs w-12 text-right">{entry.attainmentPct}%</span>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.projected)}</TableCell>
+                        <TableCell>
+                          <Badge className={attainmentStatus[entry.status].className}>
+                            {attainmentStatus[entry.status].label}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Upcoming Tasks */}
           <Card>
             <CardHeader>
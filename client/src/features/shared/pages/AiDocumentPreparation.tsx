@@ -8,7 +8,7 @@ import DOMPurify from 'isomorphic-dompurify';
 import { 
   FileText, Sparkles, Download, Upload, Edit, Eye, 
   Save, FileSignature, Stamp, PenTool, X, Plus,
-  ChevronLeft, Check, AlertCircle
+  ChevronLeft, Check, AlertCircle, FileStack
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,6 +20,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { format } from 'date-fns';
@@ -143,6 +144,293 @@ function SignatureCanvas({ onSave, onCancel }: { onSave: (dataUrl: string) => vo
   );
 }
 
+// ============================================================================
+// TEMPLATE GENERATION
+// Merge templates rendered to PDF/DOCX for an entity or service request
+// ============================================================================
+
+interface TemplateVariable {
+  name: string;
+  type: string;
+  required: boolean;
+  default?: unknown;
+}
+
+interface DocumentTemplate {
+  id: number;
+  name: string;
+  category: string | null;
+  documentType: string | null;
+  version: number | null;
+  variables: TemplateVariable[] | null;
+}
+
+interface TemplatePreview {
+  html: string;
+  missingFields: string[];
+}
+
+interface GenerationJob {
+  id: number;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  errorMessage: string | null;
+  aiDocumentId: number | null;
+  documentVersion: number | null;
+}
+
+interface GeneratedFiles {
+  pdfUrl: string | null;
+  docxUrl: string | null;
+  version: number | null;
+  versions: Array<{ version: number; pdfUrl: string | null; docxUrl: string | null; changes: string | null }>;
+}
+
+// Dotted field names (meeting.date) become nested merge data
+function nestVariables(values: Record<string, string>): Record<string, unknown> {
+  const nested: Record<string, any> = {};
+  Object.entries(values).forEach(([name, value]) => {
+    if (!value.trim()) return;
+    const keys = name.split('.');
+    let node = nested;
+    keys.slice(0, -1).forEach((key) => {
+      node[key] = node[key] && typeof node[key] === 'object' ? node[key] : {};
+      node = node[key];
+    });
+    node[keys[keys.length - 1]] = value;
+  });
+  return nested;
+}
+
+function TemplateGenerateDialog({
+  open,
+  onOpenChange,
+  onGenerated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGenerated: (job: GenerationJob) => void;
+}) {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState<string>('');
+  const [targetType, setTargetType] = useState<'service_request' | 'business_entity'>('service_request');
+  const [targetId, setTargetId] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [formats, setFormats] = useState<Array<'pdf' | 'docx'>>(['pdf', 'docx']);
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+
+  const { data: templates = [] } = useQuery<DocumentTemplate[]>({
+    queryKey: ['/api/document-generation/templates'],
+    enabled: open,
+  });
+  const template = templates.find((t) => String(t.id) === templateId);
+  const fields = (template?.variables || []).filter((v) => v.type !== 'list');
+
+  const requestBody = () => ({
+    templateId: Number(templateId),
+    ...(targetType === 'service_request'
+      ? { serviceRequestId: Number(targetId) }
+      : { businessEntityId: Number(targetId) }),
+    variables: nestVariables(values),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => apiRequest<TemplatePreview>('POST', `/api/document-generation/templates/${templateId}/preview`, requestBody()),
+    onSuccess: (result) => setPreview(result),
+    onError: (error: any) => {
+      toast({ title: 'Preview failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => apiRequest<GenerationJob>('POST', '/api/document-generation/jobs', { ...requestBody(), formats }),
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai-documents'] });
+      if (job.status === 'failed') {
+        toast({ title: 'Generation failed', description: job.errorMessage || 'Check the merge fields', variant: 'destructive' });
+        return;
+      }
+      toast({
+        title: job.status === 'completed' ? 'Document generated' : 'Generation queued',
+        description: job.status === 'completed'
+          ? `Version ${job.documentVersion} is ready`
+          : 'The document will appear in the list when it is ready',
+      });
+      onGenerated(job);
+      onOpenChange(false);
+      setPreview(null);
+      setValues({});
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to queue generation', variant: 'destructive' });
+    },
+  });
+
+  const toggleFormat = (format: 'pdf' | 'docx', checked: boolean) => {
+    setFormats((current) => (checked ? Array.from(new Set([...current, format])) : current.filter((f) => f !== format)));
+  };
+
+  const ready = !!templateId && !!targetId && formats.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate from Template</DialogTitle>
+          <DialogDescription>
+            Merge entity, client and service request details into a standard document
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Template *</Label>
+            <Select value={templateId} onValueChange={(v) => { setTemplateId(v); setValues({}); setPreview(null); }}>
+              <SelectTrigger data-testid="select-generation-template">
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((t) => (
+                  <SelectItem key={t.id} value={String(t.id)}>
+                    {t.name} (v{t.version || 1})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Generate for *</Label>
+              <Select value={targetType} onValueChange={(v) => setTargetType(v as 'service_request' | 'business_entity')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="service_request">Service request</SelectItem>
+                  <SelectItem value="business_entity">Business entity</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{targetType === 'service_request' ? 'Service request ID' : 'Business entity ID'} *</Label>
+              <Input
+                type="number"
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                data-testid="input-generation-target"
+              />
+            </div>
+          </div>
+
+          {fields.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              {fields.map((field) => (
+                <div key={field.name} className="space-y-2">
+                  <Label>{field.name}{field.required ? ' *' : ''}</Label>
+                  <Input
+                    type={field.type === 'date' ? 'date' : field.type === 'number' ? 'number' : 'text'}
+                    placeholder={field.default !== undefined ? String(field.default) : undefined}
+                    value={values[field.name] || ''}
+                    onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-6">
+            <Label>Formats</Label>
+            {(['pdf', 'docx'] as const).map((format) => (
+              <label key={format} className="flex items-center gap-2 text-sm">
+                <Checkbox checked={formats.includes(format)} onCheckedChange={(checked) => toggleFormat(format, checked === true)} />
+                {format.toUpperCase()}
+              </label>
+            ))}
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              {preview.missingFields.length > 0 && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 text-amber-900 text-sm">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>Missing: {preview.missingFields.join(', ')}</span>
+                </div>
+              )}
+              <div
+                className="prose max-w-none max-h-[360px] overflow-y-auto p-4 border rounded-lg bg-white text-sm"
+                dangerouslySetInnerHTML={{
+                  __html: DOMPurify.sanitize(preview.html, {
+                    ALLOWED_TAGS: ['p', 'br', 'strong', 'b', 'em', 'i', 'u', 'h1', 'h2', 'h3', 'ul', 'ol', 'li', 'table', 'tr', 'td', 'th', 'div', 'hr'],
+                    ALLOWED_ATTR: ['style', 'class'],
+                  }),
+                }}
+                data-testid="template-preview"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button
+              variant="outline"
+              disabled={!ready || previewMutation.isPending}
+              onClick={() => previewMutation.mutate()}
+              data-testid="button-template-preview"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              {previewMutation.isPending ? 'Merging...' : 'Preview'}
+            </Button>
+            <Button
+              disabled={!ready || generateMutation.isPending}
+              onClick={() => generateMutation.mutate()}
+              data-testid="button-template-generate"
+            >
+              <FileStack className="w-4 h-4 mr-2" />
+              {generateMutation.isPending ? 'Generating...' : 'Generate'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Rendered files of a template-generated document, current and earlier versions
+function GeneratedFileLinks({ documentId }: { documentId: number }) {
+  const { data } = useQuery<GeneratedFiles>({
+    queryKey: ['/api/document-generation/documents', documentId],
+    queryFn: () => apiRequest<GeneratedFiles>('GET', `/api/document-generation/documents/${documentId}`),
+  });
+  if (!data) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+      <span className="text-muted-foreground">Version {data.version}:</span>
+      {data.pdfUrl && (
+        <Button variant="outline" size="sm" asChild>
+          <a href={data.pdfUrl} target="_blank" rel="noreferrer"><Download className="w-4 h-4 mr-2" />PDF</a>
+        </Button>
+      )}
+      {data.docxUrl && (
+        <Button variant="outline" size="sm" asChild>
+          <a href={data.docxUrl} target="_blank" rel="noreferrer"><Download className="w-4 h-4 mr-2" />DOCX</a>
+        </Button>
+      )}
+      {data.versions.map((version) => (
+        <a
+          key={version.version}
+          href={version.pdfUrl || version.docxUrl || undefined}
+          target="_blank"
+          rel="noreferrer"
+          title={version.changes || undefined}
+          className="text-xs text-muted-foreground underline"
+        >
+          v{version.version}
+        </a>
+      ))}
+    </div>
+  );
+}
+
 export default function AiDocumentPreparation() {
   const { toast } = useToast();
   const [selectedDoc, setSelectedDoc] = useState<any>(null);
@@ -152,6 +440,7 @@ export default function AiDocumentPreparation() {
   const [signatureMethod, setSignatureMethod] = useState<'drawn' | 'dsc' | 'upload'>('drawn');
   const [drawnSignature, setDrawnSignature] = useState<string>('');
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
 
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'instant' });
@@ -297,6 +586,20 @@ export default function AiDocumentPreparation() {
           <p className="text-muted-foreground mt-1">Generate, edit, sign, and manage documents with AI</p>
         </div>
         
+        <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setTemplateDialogOpen(true)} data-testid="button-generate-from-template">
+          <FileStack className="w-4 h-4 mr-2" />
+          From Template
+        </Button>
+        <TemplateGenerateDialog
+          open={templateDialogOpen}
+          onOpenChange={setTemplateDialogOpen}
+          onGenerated={(job) => {
+            const generated = documents.find((doc) => doc.id === job.aiDocumentId);
+            if (generated) setSelectedDoc(generated);
+          }}
+        />
+
         <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
           <DialogTrigger asChild>
             <Button data-testid="button-create-document">
@@ -433,6 +736,7 @@ export default function AiDocumentPreparation() {
             </Form>
           </DialogContent>
         </Dialog>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -532,6 +836,9 @@ export default function AiDocumentPreparation() {
             </div>
           </CardHeader>
           <CardContent>
+            {selectedDoc?.generatedBy === 'template' && !isEditing && (
+              <GeneratedFileLinks documentId={selectedDoc.id} />
+            )}
             {!selectedDoc ? (
               <EmptyList
                 title="No Document Selected"
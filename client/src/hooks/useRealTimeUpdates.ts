@@ -1,11 +1,12 @@
 /**
  * Real-time Updates Hook
- * Connects to WebSocket for live compliance updates
+ * Connects to the authenticated real-time gateway for live updates
  *
  * Features:
  * - Auto-reconnect with exponential backoff
- * - Event subscription/filtering
- * - Optimistic updates
+ * - Resume from the last cursor on reconnect, refetching if it expired
+ * - Room subscriptions (entity:<id>, service_request:<id>), restored on reconnect
+ * - Event filtering
  * - Connection state management
  */
 
@@ -15,10 +16,10 @@ import { useQueryClient } from '@tanstack/react-query';
 export type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'reconnecting';
 
 export interface RealTimeEvent {
+  id?: string; // Replay cursor, present on room events
   type: string;
   payload: any;
   timestamp: string;
-  sessionId?: string;
 }
 
 export interface UseRealTimeUpdatesOptions {
@@ -41,14 +42,15 @@ const DEFAULT_OPTIONS: UseRealTimeUpdatesOptions = {
 
 // Query keys that should be invalidated on specific events
 const EVENT_QUERY_MAP: Record<string, string[]> = {
-  'compliance_update': ['/api/v2/client/status', '/api/v2/client/executive-summary', '/api/v2/client/proactive-alerts'],
-  'document_update': ['/api/v2/client/executive-summary', '/api/v2/client/proactive-alerts'],
-  'deadline_approaching': ['/api/v2/client/status', '/api/v2/client/proactive-alerts'],
-  'action_completed': ['/api/v2/client/status', '/api/v2/client/executive-summary'],
-  'periodic_sync': [], // Don't invalidate on periodic sync
-  'sync_event': ['/api/v2/client/status'],
+  'compliance_alert': ['/api/v2/client/status', '/api/v2/client/executive-summary', '/api/v2/client/proactive-alerts'],
+  'status_changed': ['/api/v2/client/status', '/api/v2/client/executive-summary', '/api/client/service-requests'],
+  'pipeline_event': ['/api/v2/client/status', '/api/client/service-requests'],
+  'message_created': ['/api/messages/threads'],
+  'sync_event': [], // Platform sync notices for staff dashboards
 };
 
+const ALL_EVENT_QUERIES = Array.from(new Set(Object.values(EVENT_QUERY_MAP).flat()));
+
 export function useRealTimeUpdates(options: UseRealTimeUpdatesOptions = {}) {
   const opts = { ...DEFAULT_OPTIONS, ...options };
   const queryClient = useQueryClient();
@@ -62,15 +64,18 @@ export function useRealTimeUpdates(options: UseRealTimeUpdatesOptions = {}) {
   const reconnectAttemptsRef = useRef(0);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isUnmountedRef = useRef(false);
+  const cursorRef = useRef<string | null>(null);
+  const hasConnectedRef = useRef(false);
+  const subscriptionsRef = useRef<Set<string>>(new Set());
 
   const getWebSocketUrl = useCallback(() => {
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    return `${protocol}//${window.location.host}/ws/sync`;
+    const cursor = cursorRef.current ? `?cursor=${encodeURIComponent(cursorRef.current)}` : '';
+    return `${protocol}//${window.location.host}/ws/sync${cursor}`;
   }, []);
 
-  const invalidateQueriesForEvent = useCallback((eventType: string) => {
-    const queriesToInvalidate = EVENT_QUERY_MAP[eventType] || [];
-    queriesToInvalidate.forEach(queryKey => {
+  const invalidateQueries = useCallback((queryKeys: string[]) => {
+    queryKeys.forEach(queryKey => {
       queryClient.invalidateQueries({ queryKey: [queryKey] });
     });
   }, [queryClient]);
@@ -79,14 +84,31 @@ export function useRealTimeUpdates(options: UseRealTimeUpdatesOptions = {}) {
     try {
       const data = JSON.parse(event.data) as RealTimeEvent;
 
-      // Apply event filter if provided
-      if (opts.eventFilter && !opts.eventFilter(data)) {
+      if (data.id) {
+        cursorRef.current = data.id;
+      }
+
+      if (data.type === 'connected') {
+        setSessionId(data.payload?.connectionId ?? null);
+        // Events were missed and cannot be replayed: refetch everything
+        const missedEvents = data.payload?.resyncRequired || (hasConnectedRef.current && !cursorRef.current);
+        if (missedEvents) {
+          invalidateQueries(ALL_EVENT_QUERIES);
+        }
+        if (missedEvents || !cursorRef.current) {
+          cursorRef.current = data.payload?.cursor ?? null;
+        }
+        hasConnectedRef.current = true;
+        return;
+      }
+
+      if (data.type === 'pong' || data.type === 'subscribed' || data.type === 'unsubscribed') {
         return;
       }
 
-      // Store session ID from initial sync
-      if (data.type === 'initial_sync' && data.payload?.sessionId) {
-        setSessionId(data.payload.sessionId);
+      // Apply event filter if provided
+      if (opts.eventFilter && !opts.eventFilter(data)) {
+        return;
       }
 
       // Update state
@@ -94,25 +116,11 @@ export function useRealTimeUpdates(options: UseRealTimeUpdatesOptions = {}) {
       setEvents(prev => [...prev.slice(-49), data]); // Keep last 50 events
 
       // Invalidate relevant queries for automatic refresh
-      invalidateQueriesForEvent(data.type);
-
-      // Handle specific event types
-      switch (data.type) {
-        case 'compliance_update':
-        case 'action_completed':
-        case 'deadline_approaching':
-          // These are high-priority events that should trigger immediate UI updates
-          queryClient.invalidateQueries({ queryKey: ['/api/v2/client/status'] });
-          break;
-
-        case 'document_update':
-          queryClient.invalidateQueries({ queryKey: ['/api/v2/client/executive-summary'] });
-          break;
-      }
+      invalidateQueries(EVENT_QUERY_MAP[data.type] || []);
     } catch (error) {
       console.error('WebSocket message parse error:', error);
     }
-  }, [opts.eventFilter, invalidateQueriesForEvent, queryClient]);
+  }, [opts.eventFilter, invalidateQueries]);
 
   const connect = useCallback(() => {
     if (isUnmountedRef.current || !opts.enabled) return;
@@ -131,6 +139,9 @@ export function useRealTimeUpdates(options: UseRealTimeUpdatesOptions = {}) {
         }
         setConnectionState('connected');
         reconnectAttemptsRef.current = 0;
+        subscriptionsRef.current.forEach(room => {
+          ws.send(JSON.stringify({ type: 'subscribe', room }));
+        });
         opts.onConnect?.();
       };
 
@@ -190,12 +201,20 @@ export function useRealTimeUpdates(options: UseRealTimeUpdatesOptions = {}) {
     return false;
   }, []);
 
+  // The gateway pushes events rather than snapshots, so a manual sync refetches
   const requestSync = useCallback(() => {
-    return send({ type: 'request_sync' });
+    invalidateQueries(ALL_EVENT_QUERIES);
+    return true;
+  }, [invalidateQueries]);
+
+  const subscribe = useCallback((room: string) => {
+    subscriptionsRef.current.add(room);
+    return send({ type: 'subscribe', room });
   }, [send]);
 
-  const updateState = useCallback((stateUpdate: Record<string, any>) => {
-    return send({ type: 'state_update', payload: stateUpdate });
+  const unsubscribe = useCallback((room: string) => {
+    subscriptionsRef.current.delete(room);
+    return send({ type: 'unsubscribe', room });
   }, [send]);
 
   // Connect on mount
@@ -237,7 +256,8 @@ export function useRealTimeUpdates(options: UseRealTimeUpdatesOptions = {}) {
     disconnect,
     send,
     requestSync,
-    updateState,
+    subscribe,
+    unsubscribe,
 
     // Utilities
     clearEvents: () => setEvents([]),
@@ -247,29 +267,17 @@ export function useRealTimeUpdates(options: UseRealTimeUpdatesOptions = {}) {
 // Convenience hook for compliance-specific updates
 export function useComplianceRealTime() {
   const realTime = useRealTimeUpdates({
-    eventFilter: (event) => {
-      const complianceEvents = [
-        'compliance_update',
-        'deadline_approaching',
-        'action_completed',
-        'document_update',
-        'periodic_sync',
-        'initial_sync'
-      ];
-      return complianceEvents.includes(event.type);
-    }
+    eventFilter: (event) => event.type === 'compliance_alert' || event.type === 'status_changed'
   });
 
-  const complianceEvents = realTime.events.filter(e =>
-    e.type === 'compliance_update' ||
-    e.type === 'deadline_approaching' ||
-    e.type === 'action_completed'
-  );
+  const complianceEvents = realTime.events.filter(e => e.type === 'compliance_alert');
 
   return {
     ...realTime,
     complianceEvents,
-    hasUrgentUpdates: complianceEvents.some(e => e.type === 'deadline_approaching'),
+    hasUrgentUpdates: complianceEvents.some(e =>
+      e.payload?.alertType === 'OVERDUE' || e.payload?.severity === 'CRITICAL'
+    ),
   };
 }
 
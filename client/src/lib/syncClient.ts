@@ -8,13 +8,16 @@ export interface SyncClientOptions {
   reconnectDelay?: number;
 }
 
+// The real-time gateway only accepts keepalives and room subscriptions;
+// client state stays local
 export interface ClientMessage {
-  type: 'state_update' | 'service_interaction' | 'workflow_action' | 'request_sync';
-  payload: any;
+  type: 'ping' | 'subscribe' | 'unsubscribe';
+  payload?: any;
+  room?: string;
 }
 
 export interface ServerMessage {
-  type: 'initial_sync' | 'periodic_sync' | 'full_sync' | 'sync_event' | 'combo_suggestions';
+  type: 'connected' | 'initial_sync' | 'periodic_sync' | 'full_sync' | 'sync_event' | 'combo_suggestions';
   payload: any;
 }
 
@@ -95,6 +98,10 @@ export class SyncClient {
 
   private handleServerMessage(message: ServerMessage) {
     switch (message.type) {
+      case 'connected':
+        this.sessionId = message.payload.connectionId;
+        break;
+
       case 'initial_sync':
         this.sessionId = message.payload.sessionId;
         this.handleInitialSync(message.payload);
@@ -260,10 +267,7 @@ export class SyncClient {
   private startHeartbeat() {
     this.heartbeatTimer = setInterval(() => {
       if (this.isConnected && this.ws) {
-        this.send({
-          type: 'request_sync',
-          payload: { timestamp: new Date() }
-        });
+        this.send({ type: 'ping' });
       }
     }, this.options.heartbeatInterval);
   }
@@ -293,20 +297,10 @@ export class SyncClient {
 
   public updateState(stateUpdate: Partial<typeof this.clientState>) {
     this.clientState = { ...this.clientState, ...stateUpdate };
-    
-    this.send({
-      type: 'state_update',
-      payload: this.clientState
-    });
   }
 
   public serviceInteraction(serviceId: string, action: 'select' | 'deselect' | 'configure', data?: any) {
-    this.send({
-      type: 'service_interaction',
-      payload: { serviceId, action, data }
-    });
-
-    // Optimistically update local state
+    // Update local state
     if (action === 'select' && !this.clientState.activeServices.includes(serviceId)) {
       this.clientState.activeServices.push(serviceId);
     } else if (action === 'deselect') {
@@ -315,22 +309,15 @@ export class SyncClient {
   }
 
   public workflowAction(workflowId: string, stepId: string, action: 'start' | 'complete' | 'pause' | 'skip') {
-    this.send({
-      type: 'workflow_action',
-      payload: { workflowId, stepId, action }
-    });
-
-    // Optimistically update workflow state
+    // Update local workflow state
     if (action === 'start' && !this.clientState.currentWorkflows.includes(workflowId)) {
       this.clientState.currentWorkflows.push(workflowId);
     }
   }
 
   public requestFullSync() {
-    this.send({
-      type: 'request_sync',
-      payload: { type: 'full', timestamp: new Date() }
-    });
+    // The gateway pushes events, not snapshots: refetch instead
+    this.handleFullSync({});
   }
 
   public on(event: string, callback: Function) {
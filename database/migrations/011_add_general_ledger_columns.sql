@@ -0,0 +1,36 @@
+-- Migration: General Ledger Support
+-- Adds idempotency and reversal tracking to journal entries plus
+-- lookup indexes used by trial balance and financial statements.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- JOURNAL_ENTRIES TABLE
+-- ============================================================================
+
+-- Idempotency key for entries posted automatically from invoices, payments and payouts
+ALTER TABLE journal_entries
+ADD COLUMN IF NOT EXISTS source_ref VARCHAR(100);
+
+-- Link from a reversing entry back to the entry it reverses
+ALTER TABLE journal_entries
+ADD COLUMN IF NOT EXISTS reversal_of_id INTEGER REFERENCES journal_entries(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_tenant_number
+ON journal_entries (tenant_id, entry_number);
+
+-- NULL source_ref values never conflict, so manual entries are unaffected
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_tenant_source_ref
+ON journal_entries (tenant_id, source_ref);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_tenant_date
+ON journal_entries (tenant_id, entry_date);
+
+-- ============================================================================
+-- JOURNAL_ENTRY_LINES TABLE
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_entry
+ON journal_entry_lines (journal_entry_id);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entry_lines_account
+ON journal_entry_lines (account_id);
@@ -0,0 +1,64 @@
+-- Migration: Bank Reconciliation
+-- Statement import dedupe, Razorpay settlements and the match review queue.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- BANK_TRANSACTIONS TABLE
+-- ============================================================================
+
+ALTER TABLE bank_transactions
+ADD COLUMN IF NOT EXISTS import_batch_id VARCHAR(50);
+
+-- Dedupe key so re-uploading an overlapping statement does not double-import lines
+ALTER TABLE bank_transactions
+ADD COLUMN IF NOT EXISTS fingerprint VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_account_date
+ON bank_transactions (bank_account_id, transaction_date);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_transactions_account_fingerprint
+ON bank_transactions (bank_account_id, fingerprint);
+
+-- ============================================================================
+-- GATEWAY_SETTLEMENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS gateway_settlements (
+    id SERIAL PRIMARY KEY,
+    provider VARCHAR(30) NOT NULL DEFAULT 'razorpay',
+    settlement_id VARCHAR(100) NOT NULL,
+    utr VARCHAR(100),
+    amount DECIMAL(15,2) NOT NULL,
+    fees DECIMAL(15,2) DEFAULT 0,
+    tax DECIMAL(15,2) DEFAULT 0,
+    status VARCHAR(20) DEFAULT 'processed',
+    settled_at TIMESTAMP NOT NULL,
+    payload JSONB,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gateway_settlements_provider_id
+ON gateway_settlements (provider, settlement_id);
+
+-- ============================================================================
+-- BANK_RECONCILIATION_MATCHES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bank_reconciliation_matches (
+    id SERIAL PRIMARY KEY,
+    bank_transaction_id INTEGER NOT NULL REFERENCES bank_transactions(id),
+    match_type VARCHAR(30) NOT NULL,
+    match_id INTEGER NOT NULL,
+    score INTEGER NOT NULL,
+    reasons JSONB DEFAULT '[]',
+    status VARCHAR(20) DEFAULT 'suggested',
+    reviewed_by INTEGER REFERENCES users(id),
+    reviewed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_recon_matches_txn
+ON bank_reconciliation_matches (bank_transaction_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_recon_matches_candidate
+ON bank_reconciliation_matches (bank_transaction_id, match_type, match_id);
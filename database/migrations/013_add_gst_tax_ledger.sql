@@ -0,0 +1,91 @@
+-- Migration: GST Tax Ledger
+-- Line-level GST output/input rows for GSTR-1/GSTR-3B and the vendor bills that feed ITC.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- TAX_TRANSACTIONS TABLE
+-- ============================================================================
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS line_number INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS document_number VARCHAR(50);
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS document_date DATE;
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS document_value DECIMAL(15,2);
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS counterparty_name VARCHAR(255);
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS counterparty_gstin VARCHAR(15);
+
+-- GST state code of the place of supply, e.g. '29' for Karnataka
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS place_of_supply VARCHAR(2);
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS supply_type VARCHAR(10);
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS hsn_code VARCHAR(10);
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(5,2);
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS cgst_amount DECIMAL(15,2) DEFAULT 0;
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS sgst_amount DECIMAL(15,2) DEFAULT 0;
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS igst_amount DECIMAL(15,2) DEFAULT 0;
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS cess_amount DECIMAL(15,2) DEFAULT 0;
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS reverse_charge BOOLEAN DEFAULT false;
+
+ALTER TABLE tax_transactions
+ADD COLUMN IF NOT EXISTS itc_eligible BOOLEAN DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_tax_transactions_tenant_period
+ON tax_transactions (tenant_id, period_year, period_month);
+
+-- A document line is recorded once, so re-persisting an invoice is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_transactions_document_line
+ON tax_transactions (tenant_id, transaction_type, reference_type, reference_id, line_number);
+
+-- ============================================================================
+-- VENDOR_BILLS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS vendor_bills (
+    id SERIAL PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    bill_number VARCHAR(50) NOT NULL,
+    bill_date DATE NOT NULL,
+    vendor_name VARCHAR(255) NOT NULL,
+    vendor_gstin VARCHAR(15),
+    place_of_supply VARCHAR(2),
+    line_items JSONB NOT NULL,
+    subtotal DECIMAL(15,2) NOT NULL,
+    cgst_amount DECIMAL(15,2) DEFAULT 0,
+    sgst_amount DECIMAL(15,2) DEFAULT 0,
+    igst_amount DECIMAL(15,2) DEFAULT 0,
+    total DECIMAL(15,2) NOT NULL,
+    reverse_charge BOOLEAN DEFAULT false,
+    itc_eligible BOOLEAN DEFAULT true,
+    notes TEXT,
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_bills_tenant_vendor_number
+ON vendor_bills (tenant_id, vendor_gstin, bill_number);
@@ -0,0 +1,72 @@
+-- Migration: Multi-Currency Invoicing
+-- Locked exchange rates on invoices, rate upserts and realised FX on settlement.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- EXCHANGE_RATES TABLE
+-- ============================================================================
+
+-- One rate per currency pair per day; re-importing a file updates it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_pair_date
+ON exchange_rates (from_currency, to_currency, effective_date);
+
+-- ============================================================================
+-- INVOICES TABLE
+-- ============================================================================
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'INR';
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(10,6) DEFAULT 1;
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS exchange_rate_date DATE;
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS base_subtotal DECIMAL(14,2);
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS base_total_tax DECIMAL(14,2);
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS base_grand_total DECIMAL(14,2);
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS amount_settled DECIMAL(12,2) DEFAULT 0;
+
+-- Ledger tenant the invoice was raised under
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenants(id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_tenant
+ON invoices (tenant_id);
+
+-- ============================================================================
+-- FOREIGN_CURRENCY_SETTLEMENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS foreign_currency_settlements (
+    id SERIAL PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    invoice_id INTEGER NOT NULL REFERENCES invoices(id),
+    currency VARCHAR(3) NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    invoice_rate DECIMAL(10,6) NOT NULL,
+    settlement_rate DECIMAL(10,6) NOT NULL,
+    base_amount_at_invoice_rate DECIMAL(15,2) NOT NULL,
+    base_amount_received DECIMAL(15,2) NOT NULL,
+    bank_charges DECIMAL(15,2) DEFAULT 0,
+    realised_gain_loss DECIMAL(15,2) NOT NULL,
+    reference VARCHAR(100),
+    received_at DATE NOT NULL,
+    journal_entry_id INTEGER REFERENCES journal_entries(id),
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_settlements_invoice
+ON foreign_currency_settlements (invoice_id);
+
+CREATE INDEX IF NOT EXISTS idx_fx_settlements_tenant_date
+ON foreign_currency_settlements (tenant_id, received_at);
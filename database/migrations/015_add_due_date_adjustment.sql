@@ -0,0 +1,12 @@
+-- Migration: Holiday-Aware Due Dates
+-- Per-rule holiday adjustment used by the shared deadline resolver.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- COMPLIANCE_RULES TABLE
+-- ============================================================================
+
+-- What to do when a due date falls on a weekend or holiday:
+-- NEXT_WORKING_DAY (roll forward), PREVIOUS_WORKING_DAY (roll back) or NONE
+ALTER TABLE compliance_rules
+ADD COLUMN IF NOT EXISTS due_date_adjustment TEXT DEFAULT 'NEXT_WORKING_DAY';
@@ -0,0 +1,40 @@
+-- Migration: Government Due Date Extensions
+-- Registry of deadlines extended by CBDT / CBIC / MCA circular, and the link
+-- from compliance rules to the penalty rule used for late filing exposure.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- COMPLIANCE_DUE_DATE_EXTENSIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS compliance_due_date_extensions (
+    id SERIAL PRIMARY KEY,
+    authority TEXT NOT NULL,
+    rule_codes JSON NOT NULL,
+    period TEXT NOT NULL,
+    original_due_date TIMESTAMP NOT NULL,
+    extended_due_date TIMESTAMP NOT NULL,
+    circular_reference TEXT NOT NULL,
+    circular_date TIMESTAMP,
+    circular_url TEXT,
+    applicable_entity_types JSON,
+    applicable_states JSON,
+    notes TEXT,
+    is_active BOOLEAN DEFAULT true,
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Extensions are looked up by the statutory date they replace
+CREATE INDEX IF NOT EXISTS idx_due_date_extensions_original
+ON compliance_due_date_extensions (original_due_date)
+WHERE is_active = true;
+
+-- ============================================================================
+-- COMPLIANCE_RULES TABLE
+-- ============================================================================
+
+-- penalty_rules_master.code used to compute late filing exposure
+ALTER TABLE compliance_rules
+ADD COLUMN IF NOT EXISTS penalty_rule_code TEXT;
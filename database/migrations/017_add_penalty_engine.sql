@@ -0,0 +1,23 @@
+-- Migration: Penalty Engine
+-- Tax liability on tracked filings, used for interest on tax due.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- COMPLIANCE_TRACKING TABLE
+-- ============================================================================
+
+-- Tax payable with the filing, when known (GST net liability, TDS deducted, income tax due)
+ALTER TABLE compliance_tracking
+ADD COLUMN IF NOT EXISTS tax_liability DECIMAL(15,2);
+
+-- ============================================================================
+-- PENALTY_RULES_MASTER TABLE
+-- ============================================================================
+
+-- Income Tax Act interest, computed 1% per month or part of a month
+INSERT INTO penalty_rules_master (code, name, description, category, penalty_type, interest_rate_annual, conditions, legal_section)
+VALUES
+    ('IT_INTEREST_234A', 'Interest u/s 234A', 'Interest for default in furnishing return of income', 'INCOME_TAX', 'INTEREST', 12.00, '{"method": "SECTION_234A"}', 'Section 234A of Income Tax Act'),
+    ('IT_INTEREST_234B', 'Interest u/s 234B', 'Interest for default in payment of advance tax', 'INCOME_TAX', 'INTEREST', 12.00, '{"method": "SECTION_234B"}', 'Section 234B of Income Tax Act'),
+    ('IT_INTEREST_234C', 'Interest u/s 234C', 'Interest for deferment of advance tax instalments', 'INCOME_TAX', 'INTEREST', 12.00, '{"method": "SECTION_234C"}', 'Section 234C of Income Tax Act')
+ON CONFLICT (code) DO NOTHING;
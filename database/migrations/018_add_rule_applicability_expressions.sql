@@ -0,0 +1,28 @@
+-- Migration: Rule Applicability Expressions
+-- Declarative applicability per compliance rule, and the entity facts it needs.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- COMPLIANCE_RULES TABLE
+-- ============================================================================
+
+-- {"all": [...]}, {"any": [...]}, {"not": ...} or {"fact": ..., "op": ..., "value": ...}
+-- Evaluated together with the column criteria; null means no extra criteria
+ALTER TABLE compliance_rules
+ADD COLUMN IF NOT EXISTS applicability_expression JSONB;
+
+-- PAS-6 is filed by unlisted public companies only
+UPDATE compliance_rules
+SET applicability_expression = '{"fact": "isListed", "op": "eq", "value": false}'
+WHERE rule_code = 'ROC_PAS6_HALF_YEARLY'
+  AND applicability_expression IS NULL;
+
+-- ============================================================================
+-- BUSINESS_ENTITIES TABLE
+-- ============================================================================
+
+ALTER TABLE business_entities
+ADD COLUMN IF NOT EXISTS is_listed BOOLEAN DEFAULT false;
+
+ALTER TABLE business_entities
+ADD COLUMN IF NOT EXISTS has_foreign_investment BOOLEAN DEFAULT false;
@@ -0,0 +1,65 @@
+-- Migration: SLA Business Calendars
+-- Business calendars for SLA clocks, and the columns that record pauses and breaches.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- SLA_BUSINESS_CALENDARS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sla_business_calendars (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    service_code TEXT,
+    team TEXT,
+    tenant_id UUID,
+    utc_offset_minutes INTEGER NOT NULL DEFAULT 330,
+    workday_start TEXT NOT NULL DEFAULT '09:00',
+    workday_end TEXT NOT NULL DEFAULT '18:00',
+    working_days JSON NOT NULL DEFAULT '[1, 2, 3, 4, 5]',
+    jurisdiction_id UUID,
+    observe_holidays BOOLEAN DEFAULT true,
+    is_active BOOLEAN DEFAULT true,
+    created_by INTEGER,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sla_business_calendars_scope
+ON sla_business_calendars(service_code, team, tenant_id)
+WHERE is_active = true;
+
+-- Platform-wide calendar: the hours SLAs have always used, plus national holidays
+INSERT INTO sla_business_calendars (name, utc_offset_minutes, workday_start, workday_end, working_days)
+SELECT 'India business hours', 330, '09:00', '18:00', '[1, 2, 3, 4, 5]'
+WHERE NOT EXISTS (
+    SELECT 1 FROM sla_business_calendars
+    WHERE service_code IS NULL AND team IS NULL AND tenant_id IS NULL
+);
+
+-- ============================================================================
+-- SLA_TIMERS TABLE
+-- ============================================================================
+
+-- Calendar the clock runs on, fixed when the clock starts
+ALTER TABLE sla_timers
+ADD COLUMN IF NOT EXISTS calendar_id INTEGER;
+
+ALTER TABLE sla_timers
+ADD COLUMN IF NOT EXISTS breached_at TIMESTAMP;
+
+-- Earlier timers used display states; map them onto the statuses the constraint allows
+UPDATE sla_timers
+SET status = 'active'
+WHERE status IN ('on_track', 'at_risk', 'warning', 'exception_granted');
+
+CREATE INDEX IF NOT EXISTS idx_sla_timers_active
+ON sla_timers(service_request_id)
+WHERE is_active = true;
+
+-- ============================================================================
+-- SLA_EXCEPTIONS TABLE
+-- ============================================================================
+
+-- One row per pause interval; the business time it added to the deadline
+ALTER TABLE sla_exceptions
+ADD COLUMN IF NOT EXISTS paused_business_minutes INTEGER;
@@ -0,0 +1,34 @@
+-- Migration: Service Workflow Versions
+-- Published per-service workflows for the service request state machine,
+-- and the version each request runs on.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- SERVICE_WORKFLOW_VERSIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS service_workflow_versions (
+    id SERIAL PRIMARY KEY,
+    service_key TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    definition JSON NOT NULL,
+    status_mapping JSON,
+    migration_summary JSON,
+    notes TEXT,
+    published_by INTEGER,
+    published_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_workflow_versions_key_version
+ON service_workflow_versions(service_key, version);
+
+-- ============================================================================
+-- SERVICE_REQUESTS TABLE
+-- ============================================================================
+
+-- NULL = the built-in workflow (no version published for the service yet)
+ALTER TABLE service_requests
+ADD COLUMN IF NOT EXISTS workflow_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_service_requests_service_workflow
+ON service_requests(service_id, workflow_version);
@@ -0,0 +1,76 @@
+-- Migration: Notification Dispatch
+-- Versioned notification templates per channel and language, and per-channel
+-- delivery records (with receipts) for the unified notification dispatcher.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- NOTIFICATION_TEMPLATE_VERSIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_template_versions (
+    id SERIAL PRIMARY KEY,
+    template_key TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    channel TEXT NOT NULL,
+    language TEXT NOT NULL DEFAULT 'en',
+    subject TEXT,
+    body TEXT NOT NULL,
+    variables JSON,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by INTEGER,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_template_versions_key
+ON notification_template_versions(template_key, channel, language, version);
+
+-- ============================================================================
+-- NOTIFICATION_DELIVERIES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id SERIAL PRIMARY KEY,
+    idempotency_key TEXT NOT NULL,
+    recipient_key TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    notification_type TEXT NOT NULL,
+    priority TEXT DEFAULT 'normal',
+    user_id INTEGER,
+    business_entity_id INTEGER,
+    recipient_address TEXT,
+    template_key TEXT,
+    template_version INTEGER,
+    language TEXT,
+    subject TEXT,
+    reference_type TEXT,
+    reference_id INTEGER,
+    status TEXT NOT NULL DEFAULT 'queued',
+    status_reason TEXT,
+    provider_message_id TEXT,
+    notification_id INTEGER,
+    pending_payload JSON,
+    scheduled_for TIMESTAMP,
+    sent_at TIMESTAMP,
+    delivered_at TIMESTAMP,
+    read_at TIMESTAMP,
+    bounced_at TIMESTAMP,
+    failed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Dedupe: a repeated dispatch inserts nothing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_deliveries_idempotency
+ON notification_deliveries(idempotency_key, recipient_key, channel);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_entity
+ON notification_deliveries(business_entity_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user
+ON notification_deliveries(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_provider_message
+ON notification_deliveries(provider_message_id);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_deferred
+ON notification_deliveries(status, scheduled_for);
@@ -0,0 +1,12 @@
+-- Migration: Notification Digests
+-- Email and WhatsApp notifications held for a user's hourly/daily/weekly
+-- frequency are sent together as one digest. Held rows record the frequency
+-- they wait for and, once sent, the digest delivery that carried them.
+-- All statements are idempotent (safe to run multiple times)
+
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS batch_frequency TEXT;
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS digest_delivery_id INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_digest
+ON notification_deliveries(user_id, status, scheduled_for)
+WHERE batch_frequency IS NOT NULL;
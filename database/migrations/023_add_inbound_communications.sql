@@ -0,0 +1,36 @@
+-- Migration: Inbound Communications
+-- Client replies by WhatsApp, SMS and email are threaded onto the service
+-- request or support ticket they reference (communication_threads /
+-- thread_messages), and surfaced to ops in a unified inbox.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- COMMUNICATION_THREADS
+-- ============================================================================
+
+ALTER TABLE communication_threads ADD COLUMN IF NOT EXISTS business_entity_id INTEGER;
+-- Sender address for replies that could not be matched to a request or ticket
+ALTER TABLE communication_threads ADD COLUMN IF NOT EXISTS contact_address TEXT;
+ALTER TABLE communication_threads ADD COLUMN IF NOT EXISTS awaiting_response BOOLEAN DEFAULT FALSE;
+ALTER TABLE communication_threads ADD COLUMN IF NOT EXISTS last_inbound_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_comm_threads_inbox
+ON communication_threads(awaiting_response, last_message_at);
+
+CREATE INDEX IF NOT EXISTS idx_comm_threads_contact
+ON communication_threads(contact_address);
+
+-- ============================================================================
+-- THREAD_MESSAGES
+-- ============================================================================
+
+ALTER TABLE thread_messages ADD COLUMN IF NOT EXISTS channel VARCHAR(20);
+ALTER TABLE thread_messages ADD COLUMN IF NOT EXISTS direction VARCHAR(10) DEFAULT 'internal';
+ALTER TABLE thread_messages ADD COLUMN IF NOT EXISTS sender_address TEXT;
+ALTER TABLE thread_messages ADD COLUMN IF NOT EXISTS external_message_id TEXT;
+ALTER TABLE thread_messages ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+-- Provider retries of the same inbound message insert nothing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_thread_messages_external
+ON thread_messages(channel, external_message_id)
+WHERE external_message_id IS NOT NULL;
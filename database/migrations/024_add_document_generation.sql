@@ -0,0 +1,123 @@
+-- Migration: Template Document Generation
+-- Merge templates (document_templates_v2) are rendered to PDF/DOCX by
+-- background jobs (document_generation_jobs). Output is kept on an
+-- ai_documents row per template and target, with superseded versions and
+-- their files in document_versions.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- DOCUMENT_TEMPLATES_V2
+-- ============================================================================
+
+ALTER TABLE document_templates_v2 ADD COLUMN IF NOT EXISTS document_type VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_doc_templates_v2_type
+ON document_templates_v2(document_type, is_active);
+
+-- ============================================================================
+-- DOCUMENT_GENERATION_JOBS
+-- ============================================================================
+
+ALTER TABLE document_generation_jobs ADD COLUMN IF NOT EXISTS template_version INTEGER;
+ALTER TABLE document_generation_jobs ADD COLUMN IF NOT EXISTS output_formats JSONB DEFAULT '["pdf"]';
+ALTER TABLE document_generation_jobs ADD COLUMN IF NOT EXISTS ai_document_id INTEGER;
+ALTER TABLE document_generation_jobs ADD COLUMN IF NOT EXISTS document_version INTEGER;
+ALTER TABLE document_generation_jobs ADD COLUMN IF NOT EXISTS missing_fields JSONB;
+ALTER TABLE document_generation_jobs ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_doc_generation_jobs_target
+ON document_generation_jobs(entity_type, entity_id);
+
+CREATE INDEX IF NOT EXISTS idx_doc_generation_jobs_status
+ON document_generation_jobs(status, created_at);
+
+-- ============================================================================
+-- DOCUMENT_VERSIONS
+-- ============================================================================
+
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS pdf_url TEXT;
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS docx_url TEXT;
+
+-- ============================================================================
+-- STARTER TEMPLATES
+-- ============================================================================
+
+INSERT INTO document_templates_v2 (name, category, document_type, template_type, template_content, variables)
+SELECT 'Board Resolution', 'corporate', 'board_resolution', 'html', $tpl$
+<h2 style="text-align: center">{{entity.name | upper}}</h2>
+<p style="text-align: center">CIN: {{entity.cin}}<br>Registered Office: {{entity.address}}</p>
+<h3 style="text-align: center">CERTIFIED TRUE COPY OF THE RESOLUTION PASSED BY THE BOARD OF DIRECTORS AT THEIR MEETING HELD ON {{meeting.date | date "long" | upper}} AT {{meeting.venue | upper}}</h3>
+<p style="text-align: justify"><b>{{resolution.title}}</b></p>
+<p style="text-align: justify">"RESOLVED THAT {{resolution.text}}</p>
+<p style="text-align: justify">RESOLVED FURTHER THAT {{#each authorisedDirectors}}{{name}} (DIN: {{din}}){{#unless @last}}, {{/unless}}{{else}}any Director{{/each}} of the Company be and {{#if authorisedDirectors}}{{#if authorisedDirectors.1}}are{{else}}is{{/if}}{{else}}is{{/if}} hereby authorised to sign and file the necessary forms and documents and to do all such acts, deeds and things as may be necessary to give effect to this resolution."</p>
+<p>Certified to be true</p>
+<p>For <b>{{entity.name}}</b></p>
+<table>
+<tr>{{#each signatories}}<td><br><br>{{name}}<br>{{designation | default "Director"}}<br>DIN: {{din}}</td>{{/each}}</tr>
+</table>
+<p>Date: {{today | date}}<br>Place: {{meeting.place | default entity.city}}</p>
+$tpl$, '[{"name":"meeting.date","type":"date","required":true},{"name":"meeting.venue","type":"text","required":true},{"name":"resolution.title","type":"text","required":true},{"name":"resolution.text","type":"text","required":true}]'
+WHERE NOT EXISTS (SELECT 1 FROM document_templates_v2 WHERE document_type = 'board_resolution');
+
+INSERT INTO document_templates_v2 (name, category, document_type, template_type, template_content, variables)
+SELECT 'DIR-2 Consent to Act as Director', 'corporate', 'dir2_consent', 'html', $tpl$
+<h2 style="text-align: center">Form DIR-2</h2>
+<p style="text-align: center"><i>[Pursuant to section 152(5) and rule 8 of Companies (Appointment and Qualification of Directors) Rules, 2014]</i></p>
+<h3 style="text-align: center">Consent to act as a director of a company</h3>
+<p>To,<br>The Board of Directors<br>{{entity.name}}<br>{{entity.address}}</p>
+<p style="text-align: justify">Subject: Consent to act as a Director of {{entity.name}}</p>
+<p style="text-align: justify">I, {{director.name}}, hereby give my consent to act as director of {{entity.name}} pursuant to sub-section (5) of section 152 of the Companies Act, 2013 and certify that I am not disqualified to become a director under the Companies Act, 2013.</p>
+<table>
+<tr><th>Particulars</th><th>Details</th></tr>
+<tr><td>Director Identification Number (DIN)</td><td>{{director.din}}</td></tr>
+<tr><td>Name (in full)</td><td>{{director.name}}</td></tr>
+<tr><td>Father's Name</td><td>{{director.fatherName}}</td></tr>
+<tr><td>Address</td><td>{{director.address}}</td></tr>
+<tr><td>E-mail id</td><td>{{director.email}}</td></tr>
+<tr><td>Mobile no.</td><td>{{director.phone}}</td></tr>
+<tr><td>Income-tax PAN</td><td>{{director.pan | upper}}</td></tr>
+<tr><td>Occupation</td><td>{{director.occupation | default "Business"}}</td></tr>
+<tr><td>Date of birth</td><td>{{director.dateOfBirth | date}}</td></tr>
+<tr><td>Nationality</td><td>{{director.nationality | default "Indian"}}</td></tr>
+<tr><td>No. of companies in which I am already a Director</td><td>{{director.otherDirectorships | default "0"}}</td></tr>
+</table>
+<p><br><br>{{director.name}}<br>Date: {{today | date}}<br>Place: {{director.city | default entity.city}}</p>
+$tpl$, '[{"name":"director.name","type":"text","required":true},{"name":"director.din","type":"text","required":true},{"name":"director.fatherName","type":"text","required":true},{"name":"director.address","type":"text","required":true},{"name":"director.dateOfBirth","type":"date","required":true}]'
+WHERE NOT EXISTS (SELECT 1 FROM document_templates_v2 WHERE document_type = 'dir2_consent');
+
+INSERT INTO document_templates_v2 (name, category, document_type, template_type, template_content, variables)
+SELECT 'INC-9 Declaration by Subscribers and First Directors', 'incorporation', 'inc9_declaration', 'html', $tpl$
+<h2 style="text-align: center">Form INC-9</h2>
+<p style="text-align: center"><i>[Pursuant to section 7(1)(c) of the Companies Act, 2013 and rule 15 of the Companies (Incorporation) Rules, 2014]</i></p>
+<h3 style="text-align: center">Declaration by subscribers and first directors</h3>
+<p style="text-align: justify">In the matter of the proposed company {{entity.name}}, we, the subscribers to the memorandum of association and the first directors named in the articles of association, do hereby severally declare that we are not convicted of any offence in connection with the promotion, formation or management of any company, nor found guilty of any fraud or misfeasance or of any breach of duty to any company under the Companies Act, 2013 or any previous company law during the last five years, and that all the documents filed with the Registrar for registration of the company contain information that is correct and complete and true to the best of our knowledge and belief.</p>
+<table>
+<tr><th>S. No.</th><th>Name</th><th>DIN / PAN</th><th>Address</th><th>Signature</th></tr>
+{{#each subscribers}}<tr><td>{{@number}}</td><td>{{name}}</td><td>{{din | default pan}}</td><td>{{address}}</td><td></td></tr>{{/each}}
+</table>
+<p>Date: {{today | date}}<br>Place: {{entity.city}}</p>
+$tpl$, '[{"name":"subscribers","type":"list","required":true}]'
+WHERE NOT EXISTS (SELECT 1 FROM document_templates_v2 WHERE document_type = 'inc9_declaration');
+
+INSERT INTO document_templates_v2 (name, category, document_type, template_type, template_content, variables)
+SELECT 'Engagement Letter', 'engagement', 'engagement_letter', 'html', $tpl$
+<p style="text-align: right">{{today | date "long"}}</p>
+<p>To,<br><b>{{entity.name}}</b><br>{{entity.address}}<br>{{entity.city}}{{#if entity.pincode}} - {{entity.pincode}}{{/if}}</p>
+<p>Kind attention: {{client.name}}</p>
+<p><b><u>Engagement letter for {{service.name}}{{#if serviceRequest.periodLabel}} ({{serviceRequest.periodLabel}}){{/if}}</u></b></p>
+<p style="text-align: justify">Dear {{client.name}},</p>
+<p style="text-align: justify">Thank you for choosing {{firm.name}}. This letter sets out the scope of our engagement, our fees and the responsibilities of each party for the services described below (reference {{serviceRequest.requestId}}).</p>
+<h3>1. Scope of services</h3>
+<p style="text-align: justify">{{service.name}}{{#if serviceRequest.description}}: {{serviceRequest.description}}{{/if}}</p>
+<h3>2. Fees</h3>
+<p style="text-align: justify">Our professional fee for this engagement is {{serviceRequest.totalAmount | inr}} ({{serviceRequest.totalAmount | rupees}}), exclusive of GST and government fees, payable before filing.</p>
+<h3>3. Your responsibilities</h3>
+<ul>
+<li>Share complete and accurate documents and information in time for the due date{{#if serviceRequest.dueDate}} of {{serviceRequest.dueDate | date "long"}}{{/if}}.</li>
+<li>Review and approve drafts and returns before they are filed.</li>
+</ul>
+<p style="text-align: justify">Please sign and return a copy of this letter to confirm your acceptance.</p>
+<p>For <b>{{firm.name}}</b><br><br><br>Authorised Signatory</p>
+<p>Accepted for <b>{{entity.name}}</b><br><br><br>{{client.name}}</p>
+$tpl$, '[]'
+WHERE NOT EXISTS (SELECT 1 FROM document_templates_v2 WHERE document_type = 'engagement_letter');
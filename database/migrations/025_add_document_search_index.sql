@@ -0,0 +1,76 @@
+-- Migration: Document Search Index
+-- document_search_index holds extracted (OCR) text and identifiers for both
+-- service request uploads (documents) and vault documents (document_vault),
+-- with a generated, weighted tsvector for ranked search.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- SOURCES
+-- ============================================================================
+
+-- Index rows go with the file they describe
+ALTER TABLE document_search_index ALTER COLUMN document_id DROP NOT NULL;
+ALTER TABLE document_search_index DROP CONSTRAINT IF EXISTS document_search_index_document_id_documents_id_fk;
+ALTER TABLE document_search_index
+  ADD CONSTRAINT document_search_index_document_id_documents_id_fk
+  FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE;
+
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS vault_document_id INTEGER REFERENCES document_vault(id) ON DELETE CASCADE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'document_search_index_vault_document_id_unique'
+  ) THEN
+    ALTER TABLE document_search_index
+      ADD CONSTRAINT document_search_index_vault_document_id_unique UNIQUE (vault_document_id);
+  END IF;
+END $$;
+
+-- ============================================================================
+-- FILTER AND RANKING FIELDS
+-- ============================================================================
+
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS business_entity_id INTEGER REFERENCES business_entities(id);
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS service_request_id INTEGER;
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS owner_user_id INTEGER;
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS title VARCHAR(500);
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS document_type VARCHAR(100);
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS category VARCHAR(100);
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS keywords TEXT;
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS document_date DATE;
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS uploaded_at TIMESTAMP;
+ALTER TABLE document_search_index ALTER COLUMN content_text SET DEFAULT '';
+
+-- ============================================================================
+-- INDEXING STATE
+-- ============================================================================
+
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'pending';
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS extraction_method VARCHAR(20);
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS page_count INTEGER;
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS error_message TEXT;
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0;
+
+-- ============================================================================
+-- FULL-TEXT SEARCH
+-- Title and keywords (entity name, client id, tags) outrank body text
+-- ============================================================================
+
+ALTER TABLE document_search_index ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(document_type, '') || ' ' || coalesce(keywords, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(content_text, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_search_vector
+ON document_search_index USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_document_search_identifiers
+ON document_search_index USING GIN (extracted_entities jsonb_path_ops);
+
+CREATE INDEX IF NOT EXISTS idx_document_search_entity
+ON document_search_index(business_entity_id, document_date);
+
+CREATE INDEX IF NOT EXISTS idx_document_search_status
+ON document_search_index(status);
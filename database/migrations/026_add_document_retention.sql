@@ -0,0 +1,102 @@
+-- Migration: Document Retention and Legal Holds
+-- Retention policy clock and statutory flags, legal holds, the per-document
+-- retention schedule and signed retention certificates for every purge.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- DOCUMENT_RETENTION_POLICIES
+-- ============================================================================
+
+ALTER TABLE document_retention_policies ADD COLUMN IF NOT EXISTS clock_start VARCHAR(30) DEFAULT 'uploaded';
+ALTER TABLE document_retention_policies ADD COLUMN IF NOT EXISTS is_statutory BOOLEAN DEFAULT FALSE;
+ALTER TABLE document_retention_policies ADD COLUMN IF NOT EXISTS legal_basis TEXT;
+ALTER TABLE document_retention_policies ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+-- ============================================================================
+-- LEGAL_HOLDS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS legal_holds (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    reason TEXT NOT NULL,
+    matter_reference VARCHAR(200),
+    scope_type VARCHAR(20) NOT NULL,
+    document_kind VARCHAR(20),
+    document_id INTEGER,
+    business_entity_id INTEGER REFERENCES business_entities(id),
+    document_category VARCHAR(100),
+    status VARCHAR(20) DEFAULT 'active',
+    placed_by INTEGER REFERENCES users(id),
+    placed_at TIMESTAMP DEFAULT NOW(),
+    released_by INTEGER REFERENCES users(id),
+    released_at TIMESTAMP,
+    release_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_holds_status ON legal_holds(status, scope_type);
+
+-- ============================================================================
+-- DOCUMENT_RETENTION_SCHEDULE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS document_retention_schedule (
+    id SERIAL PRIMARY KEY,
+    document_kind VARCHAR(20) NOT NULL,
+    document_id INTEGER NOT NULL,
+    policy_id INTEGER REFERENCES document_retention_policies(id),
+    business_entity_id INTEGER,
+    owner_user_id INTEGER,
+    document_category VARCHAR(100),
+    action VARCHAR(20) NOT NULL,
+    due_at TIMESTAMP NOT NULL,
+    notice_at TIMESTAMP,
+    notified_at TIMESTAMP,
+    status VARCHAR(20) DEFAULT 'scheduled',
+    held_by INTEGER REFERENCES legal_holds(id),
+    action_taken_at TIMESTAMP,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_retention_schedule_document
+ON document_retention_schedule(document_kind, document_id);
+
+CREATE INDEX IF NOT EXISTS idx_retention_schedule_due
+ON document_retention_schedule(status, due_at);
+
+-- ============================================================================
+-- RETENTION_CERTIFICATES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS retention_certificates (
+    id SERIAL PRIMARY KEY,
+    certificate_number VARCHAR(50) UNIQUE NOT NULL,
+    trigger VARCHAR(30) NOT NULL,
+    policy_id INTEGER REFERENCES document_retention_policies(id),
+    data_deletion_request_id INTEGER,
+    document_kind VARCHAR(20) NOT NULL,
+    document_id INTEGER NOT NULL,
+    document_title TEXT,
+    document_category VARCHAR(100),
+    business_entity_id INTEGER,
+    versions_purged INTEGER DEFAULT 0,
+    files_purged JSONB,
+    payload JSONB NOT NULL,
+    signature VARCHAR(128) NOT NULL,
+    signing_key_id VARCHAR(50),
+    pdf_path TEXT,
+    issued_by INTEGER REFERENCES users(id),
+    issued_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_certificates_document
+ON retention_certificates(document_kind, document_id);
+
+-- ============================================================================
+-- ARCHIVED VAULT DOCUMENTS AND ERASURE OUTCOMES
+-- ============================================================================
+
+ALTER TABLE document_vault ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE data_deletion_requests ADD COLUMN IF NOT EXISTS outcome JSONB;
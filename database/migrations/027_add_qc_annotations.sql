@@ -0,0 +1,59 @@
+-- Migration: QC Document Annotations
+-- Pinned comments, highlights and correction requests on service request
+-- uploads and vault documents, their resolution history, and the rework
+-- statistics quality_metrics derives from it.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- DOCUMENT_ANNOTATIONS
+-- ============================================================================
+
+-- Annotations go with the document they are pinned to
+ALTER TABLE document_annotations ALTER COLUMN document_id DROP NOT NULL;
+ALTER TABLE document_annotations DROP CONSTRAINT IF EXISTS document_annotations_document_id_documents_id_fk;
+ALTER TABLE document_annotations
+  ADD CONSTRAINT document_annotations_document_id_documents_id_fk
+  FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE;
+
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS vault_document_id INTEGER REFERENCES document_vault(id) ON DELETE CASCADE;
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS service_request_id INTEGER;
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS quality_review_id INTEGER;
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS severity VARCHAR(20) DEFAULT 'minor';
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS highlighted_text TEXT;
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS requested_change TEXT;
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'open';
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS addressed_by INTEGER REFERENCES users(id);
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS addressed_at TIMESTAMP;
+ALTER TABLE document_annotations ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+-- Existing annotations keep their resolved flag
+UPDATE document_annotations SET status = 'resolved' WHERE is_resolved = TRUE AND status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_doc_annotations_vault_document ON document_annotations(vault_document_id);
+CREATE INDEX IF NOT EXISTS idx_doc_annotations_service_request ON document_annotations(service_request_id, status);
+
+-- ============================================================================
+-- DOCUMENT_ANNOTATION_EVENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS document_annotation_events (
+    id SERIAL PRIMARY KEY,
+    annotation_id INTEGER NOT NULL REFERENCES document_annotations(id) ON DELETE CASCADE,
+    action VARCHAR(20) NOT NULL,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    user_id INTEGER REFERENCES users(id),
+    note TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_doc_annotation_events_annotation ON document_annotation_events(annotation_id);
+
+-- ============================================================================
+-- QUALITY_METRICS
+-- ============================================================================
+
+ALTER TABLE quality_metrics ADD COLUMN IF NOT EXISTS annotation_count INTEGER DEFAULT 0;
+ALTER TABLE quality_metrics ADD COLUMN IF NOT EXISTS corrections_requested INTEGER DEFAULT 0;
+ALTER TABLE quality_metrics ADD COLUMN IF NOT EXISTS annotations_reopened INTEGER DEFAULT 0;
+ALTER TABLE quality_metrics ADD COLUMN IF NOT EXISTS avg_annotation_resolution_minutes INTEGER;
@@ -0,0 +1,68 @@
+-- Migration: Lead Deduplication
+-- Tax identifiers and merge markers on leads, suspected duplicate pairs,
+-- the merge audit trail, and the lead a referral registered as.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- LEADS
+-- ============================================================================
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS pan TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS gstin TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS merged_into_id INTEGER REFERENCES leads(id);
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP;
+
+-- Candidate lookups match on the last ten digits of the phone and the lowercased email
+CREATE INDEX IF NOT EXISTS idx_leads_phone_digits ON leads(RIGHT(REGEXP_REPLACE(contact_phone, '[^0-9]', '', 'g'), 10));
+CREATE INDEX IF NOT EXISTS idx_leads_email_lower ON leads(LOWER(contact_email));
+CREATE INDEX IF NOT EXISTS idx_leads_pan ON leads(pan) WHERE pan IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_gstin ON leads(gstin) WHERE gstin IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_merged_into ON leads(merged_into_id) WHERE merged_into_id IS NOT NULL;
+
+-- ============================================================================
+-- LEAD_DUPLICATE_PAIRS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS lead_duplicate_pairs (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    duplicate_lead_id INTEGER NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    score DECIMAL(4, 3) NOT NULL,
+    reasons JSON,
+    detected_by TEXT NOT NULL,
+    status TEXT DEFAULT 'open',
+    resolved_by INTEGER REFERENCES users(id),
+    resolved_at TIMESTAMP,
+    detected_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT lead_duplicate_pairs_ordered CHECK (lead_id < duplicate_lead_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_duplicate_pairs_pair ON lead_duplicate_pairs(lead_id, duplicate_lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_pairs_status ON lead_duplicate_pairs(status, score DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_pairs_duplicate ON lead_duplicate_pairs(duplicate_lead_id);
+
+-- ============================================================================
+-- LEAD_MERGES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS lead_merges (
+    id SERIAL PRIMARY KEY,
+    survivor_lead_id INTEGER NOT NULL REFERENCES leads(id),
+    merged_lead_id INTEGER NOT NULL REFERENCES leads(id),
+    merged_lead_snapshot JSON NOT NULL,
+    fields_taken JSON,
+    records_moved JSON,
+    reason TEXT,
+    merged_by INTEGER NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_merges_survivor ON lead_merges(survivor_lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_merges_merged ON lead_merges(merged_lead_id);
+
+-- ============================================================================
+-- REFERRALS
+-- ============================================================================
+
+ALTER TABLE referrals ADD COLUMN IF NOT EXISTS lead_id INTEGER REFERENCES leads(id);
+CREATE INDEX IF NOT EXISTS idx_referrals_lead ON referrals(lead_id) WHERE lead_id IS NOT NULL;
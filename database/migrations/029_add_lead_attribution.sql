@@ -0,0 +1,94 @@
+-- Migration: Multi-touch Lead Attribution
+-- Recorded lead touchpoints, configurable attribution models, per-conversion
+-- credit splits, and the attribution a commission or dispute refers to.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- LEAD_TOUCHPOINTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS lead_touchpoints (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    touch_type TEXT NOT NULL,
+    agent_id INTEGER REFERENCES users(id),
+    referrer_id INTEGER REFERENCES users(id),
+    referral_code TEXT,
+    utm_source TEXT,
+    utm_medium TEXT,
+    utm_campaign TEXT,
+    utm_content TEXT,
+    utm_term TEXT,
+    proposal_id INTEGER,
+    source TEXT,
+    metadata JSON,
+    occurred_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    recorded_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_touchpoints_lead ON lead_touchpoints(lead_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_lead_touchpoints_agent ON lead_touchpoints(agent_id) WHERE agent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_lead_touchpoints_campaign ON lead_touchpoints(utm_source, utm_campaign) WHERE touch_type = 'campaign';
+
+-- ============================================================================
+-- ATTRIBUTION_MODELS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS attribution_models (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    model TEXT NOT NULL,
+    first_touch_weight DECIMAL(4, 3) DEFAULT 0.400,
+    last_touch_weight DECIMAL(4, 3) DEFAULT 0.400,
+    lookback_days INTEGER DEFAULT 90,
+    touch_types JSON,
+    is_default BOOLEAN DEFAULT FALSE,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT attribution_models_model CHECK (model IN ('first_touch', 'last_touch', 'linear', 'position_based'))
+);
+
+-- At most one default model
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attribution_models_default ON attribution_models(is_default) WHERE is_default = TRUE;
+
+INSERT INTO attribution_models (name, model, first_touch_weight, last_touch_weight, lookback_days, is_default)
+SELECT 'Position based (40/20/40)', 'position_based', 0.400, 0.400, 90, TRUE
+WHERE NOT EXISTS (SELECT 1 FROM attribution_models);
+
+-- ============================================================================
+-- CONVERSION_ATTRIBUTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS conversion_attributions (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL REFERENCES leads(id),
+    service_request_id INTEGER REFERENCES service_requests(id),
+    conversion_type TEXT NOT NULL,
+    conversion_value DECIMAL(12, 2) NOT NULL,
+    converted_at TIMESTAMP NOT NULL,
+    model_id INTEGER REFERENCES attribution_models(id),
+    model TEXT NOT NULL,
+    model_settings JSON,
+    splits JSON NOT NULL,
+    superseded_at TIMESTAMP,
+    superseded_by INTEGER REFERENCES conversion_attributions(id),
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversion_attributions_lead ON conversion_attributions(lead_id);
+CREATE INDEX IF NOT EXISTS idx_conversion_attributions_request ON conversion_attributions(service_request_id) WHERE service_request_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_conversion_attributions_current ON conversion_attributions(converted_at) WHERE superseded_at IS NULL;
+
+-- ============================================================================
+-- COMMISSIONS / COMMISSION_DISPUTES
+-- ============================================================================
+
+ALTER TABLE commissions ADD COLUMN IF NOT EXISTS attribution_id INTEGER REFERENCES conversion_attributions(id);
+ALTER TABLE commissions ADD COLUMN IF NOT EXISTS attribution_weight DECIMAL(5, 4);
+CREATE INDEX IF NOT EXISTS idx_commissions_attribution ON commissions(attribution_id) WHERE attribution_id IS NOT NULL;
+
+ALTER TABLE commission_disputes ADD COLUMN IF NOT EXISTS attribution_id INTEGER REFERENCES conversion_attributions(id);
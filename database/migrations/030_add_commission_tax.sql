@@ -0,0 +1,50 @@
+-- Migration: Commission Payout Tax
+-- Agent PAN / GST registration, TDS u/s 194H and GST on commission recorded
+-- against each payout, and deductee details on TDS rows of the tax ledger.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- AGENT_TAX_PROFILES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS agent_tax_profiles (
+    id SERIAL PRIMARY KEY,
+    agent_id INTEGER NOT NULL UNIQUE REFERENCES users(id),
+    legal_name TEXT,
+    pan TEXT,
+    gstin TEXT,
+    gst_treatment TEXT DEFAULT 'unregistered',
+    updated_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT agent_tax_profiles_gst_treatment CHECK (gst_treatment IN ('unregistered', 'forward_charge', 'reverse_charge'))
+);
+
+-- ============================================================================
+-- COMMISSION_PAYOUTS
+-- ============================================================================
+
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS financial_year TEXT;
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS tds_section TEXT;
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS tds_rate DECIMAL(5, 2);
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS tds_base DECIMAL(12, 2);
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS tds_amount DECIMAL(12, 2);
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS tds_reason_code TEXT;
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS deductee_pan TEXT;
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS gst_treatment TEXT;
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS agent_gstin TEXT;
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS cgst_amount DECIMAL(12, 2);
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS sgst_amount DECIMAL(12, 2);
+ALTER TABLE commission_payouts ADD COLUMN IF NOT EXISTS igst_amount DECIMAL(12, 2);
+
+-- Year-to-date commission per agent for the 194H threshold
+CREATE INDEX IF NOT EXISTS idx_commission_payouts_agent_fy ON commission_payouts(agent_id, financial_year);
+
+-- ============================================================================
+-- TAX_TRANSACTIONS
+-- ============================================================================
+
+ALTER TABLE tax_transactions ADD COLUMN IF NOT EXISTS counterparty_pan VARCHAR(10);
+ALTER TABLE tax_transactions ADD COLUMN IF NOT EXISTS tds_section VARCHAR(10);
+
+CREATE INDEX IF NOT EXISTS idx_tax_transactions_tds ON tax_transactions(tenant_id, document_date) WHERE transaction_type = 'tds_deducted';
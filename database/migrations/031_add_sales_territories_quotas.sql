@@ -0,0 +1,93 @@
+-- Migration: Sales Territories and Quotas
+-- Sales teams, territories (state / city / industry) that drive lead
+-- auto-assignment, and monthly / quarterly revenue quotas per rep and team.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- LEADS
+-- ============================================================================
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS city TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS industry TEXT;
+
+-- ============================================================================
+-- SALES_TEAMS / SALES_TEAM_MEMBERS TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sales_teams (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    manager_id INTEGER REFERENCES users(id),
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sales_team_members (
+    id SERIAL PRIMARY KEY,
+    team_id INTEGER NOT NULL REFERENCES sales_teams(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL UNIQUE REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_team_members_team ON sales_team_members(team_id);
+
+-- ============================================================================
+-- SALES_TERRITORIES / SALES_TERRITORY_MEMBERS TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sales_territories (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    states JSON,
+    cities JSON,
+    industries JSON,
+    team_id INTEGER REFERENCES sales_teams(id),
+    priority INTEGER DEFAULT 0,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sales_territory_members (
+    id SERIAL PRIMARY KEY,
+    territory_id INTEGER NOT NULL REFERENCES sales_territories(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_territory_members_pair ON sales_territory_members(territory_id, user_id);
+
+-- ============================================================================
+-- SALES_QUOTAS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sales_quotas (
+    id SERIAL PRIMARY KEY,
+    owner_type TEXT NOT NULL,
+    user_id INTEGER REFERENCES users(id),
+    team_id INTEGER REFERENCES sales_teams(id),
+    period_type TEXT NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    target_amount DECIMAL(14, 2) NOT NULL,
+    target_conversions INTEGER,
+    notes TEXT,
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT sales_quotas_owner CHECK (
+        (owner_type = 'user' AND user_id IS NOT NULL AND team_id IS NULL)
+        OR (owner_type = 'team' AND team_id IS NOT NULL AND user_id IS NULL)
+    ),
+    CONSTRAINT sales_quotas_period_type CHECK (period_type IN ('monthly', 'quarterly'))
+);
+
+-- One quota per owner and period
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_quotas_owner_period
+    ON sales_quotas(owner_type, COALESCE(user_id, 0), COALESCE(team_id, 0), period_type, period_start);
+
+-- Attainment: converted service requests by the lead's rep
+CREATE INDEX IF NOT EXISTS idx_service_requests_lead_created ON service_requests(lead_id, created_at) WHERE lead_id IS NOT NULL;
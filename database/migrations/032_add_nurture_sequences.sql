@@ -0,0 +1,74 @@
+-- Migration: Lead Nurture Sequences
+-- Multi-step nurture sequences (email, WhatsApp, rep task, wait, branch) per
+-- lead segment, lead enrollments run on the nurture queue, and a per-step
+-- event log for conversion metrics.
+-- All statements are idempotent (safe to run multiple times)
+
+-- ============================================================================
+-- LEADS
+-- ============================================================================
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS nurture_opted_out_at TIMESTAMP;
+
+-- ============================================================================
+-- NURTURE_SEQUENCES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nurture_sequences (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    segment JSON,
+    steps JSON NOT NULL,
+    auto_enroll BOOLEAN DEFAULT FALSE,
+    auto_enroll_since TIMESTAMP,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================================================
+-- NURTURE_ENROLLMENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nurture_enrollments (
+    id SERIAL PRIMARY KEY,
+    sequence_id INTEGER NOT NULL REFERENCES nurture_sequences(id) ON DELETE CASCADE,
+    lead_id INTEGER NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'active',
+    current_step_key TEXT,
+    next_run_at TIMESTAMP,
+    stage_at_enrollment TEXT,
+    signals JSON,
+    stop_reason TEXT,
+    unsubscribe_token TEXT NOT NULL UNIQUE,
+    enrolled_by INTEGER REFERENCES users(id),
+    enrolled_at TIMESTAMP DEFAULT NOW(),
+    finished_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT nurture_enrollments_status CHECK (status IN ('active', 'completed', 'converted', 'unsubscribed', 'stopped'))
+);
+
+-- A lead goes through a sequence once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_nurture_enrollments_sequence_lead ON nurture_enrollments(sequence_id, lead_id);
+CREATE INDEX IF NOT EXISTS idx_nurture_enrollments_due ON nurture_enrollments(next_run_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_nurture_enrollments_lead ON nurture_enrollments(lead_id);
+
+-- ============================================================================
+-- NURTURE_STEP_EVENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nurture_step_events (
+    id SERIAL PRIMARY KEY,
+    enrollment_id INTEGER NOT NULL REFERENCES nurture_enrollments(id) ON DELETE CASCADE,
+    sequence_id INTEGER NOT NULL REFERENCES nurture_sequences(id) ON DELETE CASCADE,
+    step_key TEXT NOT NULL,
+    step_type TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    detail TEXT,
+    occurred_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_nurture_step_events_sequence ON nurture_step_events(sequence_id, step_key);
+CREATE INDEX IF NOT EXISTS idx_nurture_step_events_enrollment ON nurture_step_events(enrollment_id);
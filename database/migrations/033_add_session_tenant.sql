@@ -0,0 +1,7 @@
+-- Migration: Session Tenant
+-- The tenant a session was signed in to, so connections made with the session
+-- (e.g. the real-time gateway) are scoped to it rather than to the Host header.
+-- All statements are idempotent (safe to run multiple times)
+
+ALTER TABLE user_sessions
+ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenants(id);
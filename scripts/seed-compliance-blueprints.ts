@@ -349,6 +349,36 @@ async function seedPenaltyRules() {
       interestRateAnnual: '12.00',
       legalSection: 'Section 234B/234C of Income Tax Act',
     },
+    {
+      code: 'IT_INTEREST_234A',
+      name: 'Interest u/s 234A',
+      description: 'Interest for default in furnishing return of income',
+      category: 'INCOME_TAX',
+      penaltyType: 'INTEREST',
+      interestRateAnnual: '12.00',
+      conditions: { method: 'SECTION_234A' },
+      legalSection: 'Section 234A of Income Tax Act',
+    },
+    {
+      code: 'IT_INTEREST_234B',
+      name: 'Interest u/s 234B',
+      description: 'Interest for default in payment of advance tax',
+      category: 'INCOME_TAX',
+      penaltyType: 'INTEREST',
+      interestRateAnnual: '12.00',
+      conditions: { method: 'SECTION_234B' },
+      legalSection: 'Section 234B of Income Tax Act',
+    },
+    {
+      code: 'IT_INTEREST_234C',
+      name: 'Interest u/s 234C',
+      description: 'Interest for deferment of advance tax instalments',
+      category: 'INCOME_TAX',
+      penaltyType: 'INTEREST',
+      interestRateAnnual: '12.00',
+      conditions: { method: 'SECTION_234C' },
+      legalSection: 'Section 234C of Income Tax Act',
+    },
     {
       code: 'ROC_LATE_FEE',
       name: 'ROC Late Filing Additional Fee',
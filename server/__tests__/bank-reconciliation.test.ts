@@ -0,0 +1,179 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  parseStatement,
+  parseCsvStatement,
+  parseMt940,
+  parseCamt053,
+  detectStatementFormat,
+  parseStatementDate,
+} from '../services/bank-statement-parser';
+import {
+  referenceSimilarity,
+  scoreCandidate,
+  classifyCandidates,
+  type MatchCandidate,
+} from '../services/bank-reconciliation-service';
+
+const HDFC_CSV = [
+  'HDFC BANK Ltd.,,,,,,',
+  'Account No :,50100012345678,,,,,',
+  ',,,,,,',
+  'Date,Narration,Chq./Ref.No.,Value Dt,Withdrawal Amt.,Deposit Amt.,Closing Balance',
+  '15/01/24,NEFT CR-UTIB0000001-RAZORPAY SOFTWARE-UTIBR52024011512345,UTIBR52024011512345,15/01/24,,"11,682.00","1,11,682.00"',
+  '16/01/24,ACH D- GOOGLE WORKSPACE,ACH123,16/01/24,"1,500.00",,"1,10,182.00"',
+  '** End of Statement **,,,,,,',
+].join('\n');
+
+const MT940 = [
+  ':20:STMT240115',
+  ':25:HDFC0000001/50100012345678',
+  ':28C:1/1',
+  ':60F:C240114INR100000,00',
+  ':61:2401150115C11682,00NTRFNONREF//UTIBR52024011512345',
+  ':86:NEFT CR RAZORPAY SOFTWARE',
+  ':61:2401160116D1500,00NDDTACH123',
+  ':86:ACH D- GOOGLE WORKSPACE',
+  ':62F:C240116INR110182,00',
+  '-',
+].join('\n');
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="INR">100000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="INR">110182.00</Amt><CdtDbtInd>CRDT</CdtDbtInd></Bal>
+      <Ntry>
+        <Amt Ccy="INR">11682.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2024-01-15</Dt></BookgDt>
+        <ValDt><Dt>2024-01-15</Dt></ValDt>
+        <AcctSvcrRef>UTIBR52024011512345</AcctSvcrRef>
+        <AddtlNtryInf>NEFT CR RAZORPAY SOFTWARE &amp; CO</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="INR">1500.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2024-01-16</Dt></BookgDt>
+        <NtryDtls><TxDtls><RmtInf><Ustrd>ACH D- GOOGLE WORKSPACE</Ustrd></RmtInf></TxDtls></NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('Bank Reconciliation', () => {
+  describe('statement parsing', () => {
+    it('detects the statement format from content', () => {
+      expect(detectStatementFormat(HDFC_CSV)).toBe('csv');
+      expect(detectStatementFormat(MT940)).toBe('mt940');
+      expect(detectStatementFormat(CAMT053)).toBe('camt053');
+    });
+
+    it('parses day-first and month-name dates', () => {
+      expect(parseStatementDate('15/01/24')).toBe('2024-01-15');
+      expect(parseStatementDate('5-1-2024')).toBe('2024-01-05');
+      expect(parseStatementDate('15-Jan-2024')).toBe('2024-01-15');
+      expect(parseStatementDate('2024-01-15T10:00:00')).toBe('2024-01-15');
+      expect(parseStatementDate('Opening Balance')).toBeNull();
+    });
+
+    it('parses a bank CSV with preamble and footer rows', () => {
+      const statement = parseCsvStatement(HDFC_CSV);
+      expect(statement.lines).toHaveLength(2);
+      expect(statement.lines[0]).toMatchObject({
+        transactionDate: '2024-01-15',
+        credit: 11682,
+        debit: 0,
+        reference: 'UTIBR52024011512345',
+        balance: 111682,
+      });
+      expect(statement.lines[1]).toMatchObject({ debit: 1500, credit: 0, balance: 110182 });
+      expect(statement.openingBalance).toBe(100000);
+      expect(statement.closingBalance).toBe(110182);
+    });
+
+    it('parses MT940 with running balances and narratives', () => {
+      const statement = parseMt940(MT940);
+      expect(statement.openingBalance).toBe(100000);
+      expect(statement.closingBalance).toBe(110182);
+      expect(statement.lines).toHaveLength(2);
+      expect(statement.lines[0]).toMatchObject({
+        transactionDate: '2024-01-15',
+        credit: 11682,
+        reference: 'UTIBR52024011512345',
+        description: 'NEFT CR RAZORPAY SOFTWARE',
+        balance: 111682,
+      });
+      expect(statement.lines[1]).toMatchObject({ debit: 1500, reference: 'ACH123', balance: 110182 });
+    });
+
+    it('parses CAMT.053 entries', () => {
+      const statement = parseCamt053(CAMT053);
+      expect(statement.lines).toHaveLength(2);
+      expect(statement.lines[0]).toMatchObject({
+        transactionDate: '2024-01-15',
+        credit: 11682,
+        reference: 'UTIBR52024011512345',
+        description: 'NEFT CR RAZORPAY SOFTWARE & CO',
+      });
+      expect(statement.lines[1]).toMatchObject({ debit: 1500, description: 'ACH D- GOOGLE WORKSPACE' });
+      expect(statement.closingBalance).toBe(110182);
+    });
+
+    it('produces the same fingerprints when a statement is re-imported', () => {
+      const first = parseStatement(HDFC_CSV).lines.map((line) => line.fingerprint);
+      const second = parseStatement(HDFC_CSV).lines.map((line) => line.fingerprint);
+      expect(second).toEqual(first);
+      expect(new Set(first).size).toBe(first.length);
+    });
+  });
+
+  describe('matching', () => {
+    const line = {
+      amount: 11682,
+      date: '2024-01-15',
+      reference: null,
+      description: 'NEFT CR-UTIB0000001-RAZORPAY SOFTWARE-UTIBR52024011512345',
+    };
+    const settlement: MatchCandidate = {
+      type: 'settlement', id: 1, amount: 11682, date: '2024-01-15', reference: 'UTIBR52024011512345', label: 'settlement',
+    };
+
+    it('finds references embedded in narrations', () => {
+      expect(referenceSimilarity(line.description, 'UTIBR52024011512345')).toBe(1);
+      expect(referenceSimilarity('NEFT UTIBR52024011512346', 'UTIBR52024011512345')).toBeGreaterThan(0.8);
+      expect(referenceSimilarity('NEFT CR', 'UTIBR52024011512345')).toBe(0);
+    });
+
+    it('drops candidates with a different amount or outside the date window', () => {
+      expect(scoreCandidate(line, { ...settlement, amount: 11682.01 })).toBeNull();
+      expect(scoreCandidate(line, { ...settlement, date: '2024-01-20' }, 3)).toBeNull();
+    });
+
+    it('auto-matches a same-day exact amount with matching reference', () => {
+      const scored = scoreCandidate(line, settlement)!;
+      expect(scored.score).toBe(100);
+      expect(scored.reasons).toContain('reference_exact');
+      expect(classifyCandidates([scored]).autoMatch?.id).toBe(1);
+    });
+
+    it('sends ties to the review queue', () => {
+      const a = scoreCandidate(line, { ...settlement, id: 1, reference: null })!;
+      const b = scoreCandidate(line, { ...settlement, id: 2, reference: null })!;
+      const result = classifyCandidates([a, b]);
+      expect(result.autoMatch).toBeNull();
+      expect(result.suggestions.map((s) => s.id)).toEqual([1, 2]);
+    });
+
+    it('auto-matches a lone exact-amount candidate without a reference only when close in date', () => {
+      const sameDay = scoreCandidate(line, { ...settlement, reference: null })!;
+      expect(classifyCandidates([sameDay]).autoMatch).not.toBeNull();
+
+      const threeDaysOff = scoreCandidate(line, { ...settlement, reference: null, date: '2024-01-18' })!;
+      expect(classifyCandidates([threeDaysOff]).autoMatch).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,156 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  buildForm16A,
+  buildForm26Q,
+  commissionTdsRate,
+  commissionTdsThreshold,
+  computeCommissionTax,
+  financialYear,
+  parseFinancialYear,
+  quarterRange,
+  tdsDepositDueDate,
+  tdsQuarter,
+  type CommissionTaxInput,
+  type TdsDeduction,
+} from '../services/commission-tax-rules';
+
+const payout = (overrides: Partial<CommissionTaxInput>): CommissionTaxInput => ({
+  commission: 10000,
+  bonus: 0,
+  creditedOn: new Date(2025, 5, 30),
+  pan: 'ABCDE1234F',
+  gstTreatment: 'unregistered',
+  agentStateCode: null,
+  ourStateCode: '29',
+  fyCreditedBefore: 0,
+  fyTaxedBefore: 0,
+  ...overrides,
+});
+
+describe('Financial year and due dates', () => {
+  it('runs April to March', () => {
+    expect(financialYear(new Date(2025, 2, 31))).toBe('2024-25');
+    expect(financialYear(new Date(2025, 3, 1))).toBe('2025-26');
+    expect(parseFinancialYear('2025-26')).toBe(2025);
+    expect(parseFinancialYear('2025-27')).toBeNull();
+  });
+
+  it('puts April-June in Q1 and January-March in Q4', () => {
+    expect(tdsQuarter(new Date(2025, 3, 1))).toBe(1);
+    expect(tdsQuarter(new Date(2025, 11, 31))).toBe(3);
+    expect(tdsQuarter(new Date(2026, 0, 15))).toBe(4);
+    expect(quarterRange(2025, 4)).toEqual({ from: '2026-01-01', to: '2026-03-31' });
+  });
+
+  it('is due by the 7th of the next month, and 30 April for March', () => {
+    expect(tdsDepositDueDate(new Date(2025, 11, 31))).toBe('2026-01-07');
+    expect(tdsDepositDueDate(new Date(2026, 2, 15))).toBe('2026-04-30');
+  });
+});
+
+describe('TDS under section 194H', () => {
+  it('uses the rate and threshold in force on the date of credit', () => {
+    expect(commissionTdsRate(new Date(2024, 8, 30))).toBe(5);
+    expect(commissionTdsRate(new Date(2024, 9, 1))).toBe(2);
+    expect(commissionTdsThreshold(new Date(2025, 2, 31))).toBe(15000);
+    expect(commissionTdsThreshold(new Date(2025, 3, 1))).toBe(20000);
+  });
+
+  it('deducts nothing while the year is below the threshold', () => {
+    const tax = computeCommissionTax(payout({ commission: 8000 }));
+
+    expect(tax).toMatchObject({ tdsBase: 0, tdsAmount: 0, reasonCode: 'Y', netAmount: 8000 });
+  });
+
+  it('catches up on the untaxed amounts of the year once the threshold is crossed', () => {
+    const crossing = computeCommissionTax(payout({ fyCreditedBefore: 15000 }));
+    expect(crossing).toMatchObject({ fyCreditedTotal: 25000, tdsBase: 25000, tdsRate: 2, tdsAmount: 500, reasonCode: null, netAmount: 9500 });
+
+    const after = computeCommissionTax(payout({ commission: 1000, fyCreditedBefore: 25000, fyTaxedBefore: 25000 }));
+    expect(after).toMatchObject({ tdsBase: 1000, tdsAmount: 20 });
+  });
+
+  it('deducts 20% when the PAN is missing or invalid', () => {
+    expect(computeCommissionTax(payout({ pan: null, fyCreditedBefore: 15000 })))
+      .toMatchObject({ panAvailable: false, tdsRate: 20, tdsAmount: 5000, reasonCode: 'C', netAmount: 5000 });
+    expect(computeCommissionTax(payout({ pan: 'NOT-A-PAN', fyCreditedBefore: 20000 })).tdsRate).toBe(20);
+  });
+
+  it('rounds TDS to the nearest rupee and keeps other deductions separate', () => {
+    const tax = computeCommissionTax(payout({ commission: 1234.56, fyCreditedBefore: 20000, fyTaxedBefore: 20000, otherDeductions: 100 }));
+
+    expect(tax).toMatchObject({ tdsAmount: 25, totalDeductions: 125, netAmount: 1109.56 });
+  });
+});
+
+describe('GST on commission', () => {
+  it('pays a forward-charge agent the GST and works out TDS without it', () => {
+    const tax = computeCommissionTax(payout({
+      gstTreatment: 'forward_charge',
+      agentStateCode: '29',
+      fyCreditedBefore: 20000,
+      fyTaxedBefore: 20000,
+    }));
+
+    expect(tax.gst).toMatchObject({ supplyType: 'intra', cgst: 900, sgst: 900, igst: 0, total: 1800, payableToAgent: true });
+    expect(tax.tdsAmount).toBe(200);
+    expect(tax.netAmount).toBe(11600);
+  });
+
+  it('self-assesses reverse-charge GST instead of paying it to the agent', () => {
+    const tax = computeCommissionTax(payout({
+      gstTreatment: 'reverse_charge',
+      agentStateCode: '27',
+      fyCreditedBefore: 20000,
+      fyTaxedBefore: 20000,
+    }));
+
+    expect(tax.gst).toMatchObject({ supplyType: 'inter', igst: 1800, payableToAgent: false });
+    expect(tax.netAmount).toBe(9800);
+  });
+
+  it('charges no GST without both states known', () => {
+    expect(computeCommissionTax(payout({ gstTreatment: 'forward_charge', agentStateCode: null })).gst)
+      .toMatchObject({ treatment: 'unregistered', total: 0 });
+  });
+});
+
+describe('Form 26Q and Form 16A', () => {
+  const deductor = { name: 'DigiComply Services Pvt Ltd', tan: 'BLRD12345E', pan: 'AABCD1234E' };
+  const deductions: TdsDeduction[] = [
+    { referenceId: 3, deducteeName: 'Ravi', pan: null, section: '194H', creditedOn: '2025-05-31', amountCredited: 25000, tdsRate: 20, tdsAmount: 5000 },
+    { referenceId: 1, deducteeName: 'Asha', pan: 'ABCDE1234F', section: '194H', creditedOn: '2025-04-30', amountCredited: 8000, tdsRate: 2, tdsAmount: 0 },
+    { referenceId: 2, deducteeName: 'Asha', pan: 'ABCDE1234F', section: '194H', creditedOn: '2025-05-31', amountCredited: 15000, tdsRate: 2, tdsAmount: 460 },
+  ];
+
+  it('lists deductee records in date order with 26Q reason codes and a challan per month', () => {
+    const form = buildForm26Q(deductions, { fyStart: 2025, quarter: 1, deductor });
+
+    expect(form).toMatchObject({ financialYear: '2025-26', assessmentYear: '2026-27', dueDate: '2025-07-31' });
+    expect(form.deducteeRecords.map(record => [record.referenceId, record.pan, record.reasonCode])).toEqual([
+      [1, 'ABCDE1234F', 'Y'],
+      [2, 'ABCDE1234F', null],
+      [3, 'PANNOTAVBL', 'C'],
+    ]);
+    expect(form.challanSummary).toEqual([
+      { month: '2025-05', section: '194H', depositDueDate: '2025-06-07', records: 2, tdsAmount: 5460 },
+    ]);
+    expect(form.totals).toEqual({ records: 3, amountPaidOrCredited: 48000, tdsDeducted: 5460 });
+  });
+
+  it('certifies one deductee for the quarter', () => {
+    const certificate = buildForm16A(deductions.filter(d => d.deducteeName === 'Asha'), {
+      fyStart: 2025,
+      quarter: 1,
+      deductor,
+      deductee: { name: 'Asha', pan: 'ABCDE1234F' },
+    });
+
+    expect(certificate.issueDueDate).toBe('2025-08-15');
+    expect(certificate.transactions.map(t => t.dateOfCredit)).toEqual(['2025-04-30', '2025-05-31']);
+    expect(certificate.totals).toEqual({ amountPaidOrCredited: 23000, tdsDeducted: 460 });
+  });
+});
@@ -0,0 +1,117 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import { mergeScopes } from '../services/compliance-dependency-resolver';
+import { detectStateDrift } from '../services/compliance-replay-service';
+import { recalculationJobId } from '../compliance-event-emitter';
+import type { ComplianceRequirementStatus, EntityComplianceState } from '@shared/compliance-state-types';
+
+function requirement(overrides: Partial<ComplianceRequirementStatus>): ComplianceRequirementStatus {
+  return {
+    requirementId: 'GST_GSTR3B_MONTHLY',
+    name: 'GSTR-3B Monthly Return',
+    domain: 'TAX_GST',
+    state: 'GREEN',
+    dueDate: new Date(2024, 3, 20),
+    daysUntilDue: 20,
+    daysOverdue: null,
+    penaltyExposure: 0,
+    priority: 'low',
+    isRecurring: true,
+    nextOccurrence: null,
+    lastFiled: null,
+    blockers: [],
+    actionRequired: '',
+    ...overrides,
+  };
+}
+
+function entityState(requirements: ComplianceRequirementStatus[], calculatedAt: Date): EntityComplianceState {
+  return {
+    entityId: 7,
+    entityName: 'Acme Pvt Ltd',
+    entityType: 'pvt_ltd',
+    overallState: 'GREEN',
+    overallRiskScore: 10,
+    daysUntilNextDeadline: null,
+    nextCriticalDeadline: null,
+    nextCriticalAction: null,
+    totalPenaltyExposure: 0,
+    totalOverdueItems: 0,
+    totalUpcomingItems: 0,
+    domains: [{
+      domain: 'TAX_GST',
+      state: 'GREEN',
+      riskScore: 0,
+      activeRequirements: requirements.length,
+      overdueRequirements: 0,
+      upcomingDeadlines: 0,
+      totalPenaltyExposure: 0,
+      requirements,
+    }],
+    calculatedAt,
+    calculationVersion: '1.1.0',
+    dataCompletenessScore: 80,
+  };
+}
+
+describe('Incremental compliance recalculation', () => {
+  it('merges scopes per entity and lets a full recalculation win', () => {
+    const merged = mergeScopes([
+      { entityId: 1, domains: ['TAX_GST'] },
+      { entityId: 2, domains: ['LABOUR'] },
+      { entityId: 1, domains: ['CORPORATE', 'TAX_GST'] },
+      { entityId: 2, domains: null },
+      { entityId: 3, domains: [] },
+    ]);
+
+    expect(merged).toEqual([
+      { entityId: 1, domains: ['CORPORATE', 'TAX_GST'] },
+      { entityId: 2, domains: null },
+      { entityId: 3, domains: [] },
+    ]);
+  });
+
+  it('gives identical pending recalculations the same job id', () => {
+    expect(recalculationJobId(5, ['TAX_GST', 'CORPORATE'])).toBe(recalculationJobId(5, ['CORPORATE', 'TAX_GST']));
+    expect(recalculationJobId(5, null)).toBe('compliance-recalc:5:all');
+    expect(recalculationJobId(5, [])).toBe('compliance-recalc:5:entity');
+  });
+});
+
+describe('Nightly drift detection', () => {
+  it('ignores changes explained by the passage of time', () => {
+    const saved = entityState([requirement({})], new Date(2024, 3, 19));
+    const fresh = entityState([
+      // Period rolled forward after the due date passed, and became overdue
+      requirement({ dueDate: new Date(2024, 4, 20), state: 'RED', daysOverdue: 2, penaltyExposure: 100 }),
+    ], new Date(2024, 3, 22));
+
+    expect(detectStateDrift(saved, fresh)).toEqual([]);
+  });
+
+  it('reports filings, moved deadlines and requirements the saved state missed', () => {
+    const saved = entityState([
+      requirement({}),
+      requirement({ requirementId: 'GST_GSTR1_MONTHLY', name: 'GSTR-1', dueDate: new Date(2024, 3, 11) }),
+    ], new Date(2024, 3, 1));
+    const fresh = entityState([
+      requirement({ dueDate: new Date(2024, 3, 27) }),
+      requirement({
+        requirementId: 'GST_GSTR1_MONTHLY',
+        name: 'GSTR-1',
+        dueDate: new Date(2024, 3, 11),
+        lastFiled: new Date(2024, 3, 2),
+      }),
+      requirement({ requirementId: 'TDS_24Q', name: 'TDS Return', domain: 'TAX_INCOME' }),
+    ], new Date(2024, 3, 3));
+
+    const drift = detectStateDrift(saved, fresh);
+    expect(drift.map((change) => [change.requirementId, change.change])).toEqual([
+      ['GST_GSTR3B_MONTHLY', 'CHANGED'],
+      ['GST_GSTR1_MONTHLY', 'CHANGED'],
+      ['TDS_24Q', 'ADDED'],
+    ]);
+  });
+});
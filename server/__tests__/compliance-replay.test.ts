@@ -0,0 +1,130 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  diffEntityStates,
+  parseReplayDate,
+  reviveEntityState,
+} from '../services/compliance-replay-service';
+import type { ComplianceRequirementStatus, EntityComplianceState } from '@shared/compliance-state-types';
+
+function requirement(overrides: Partial<ComplianceRequirementStatus>): ComplianceRequirementStatus {
+  return {
+    requirementId: 'GST_GSTR3B_MONTHLY',
+    name: 'GSTR-3B Monthly Return',
+    domain: 'TAX_GST',
+    state: 'GREEN',
+    dueDate: new Date(2024, 3, 20),
+    daysUntilDue: 20,
+    daysOverdue: null,
+    penaltyExposure: 0,
+    priority: 'low',
+    isRecurring: true,
+    nextOccurrence: null,
+    lastFiled: null,
+    blockers: [],
+    actionRequired: '',
+    ...overrides,
+  };
+}
+
+function entityState(requirements: ComplianceRequirementStatus[], overrides: Partial<EntityComplianceState> = {}): EntityComplianceState {
+  return {
+    entityId: 7,
+    entityName: 'Acme Pvt Ltd',
+    entityType: 'pvt_ltd',
+    overallState: 'GREEN',
+    overallRiskScore: 10,
+    daysUntilNextDeadline: null,
+    nextCriticalDeadline: null,
+    nextCriticalAction: null,
+    totalPenaltyExposure: 0,
+    totalOverdueItems: 0,
+    totalUpcomingItems: 0,
+    domains: [{
+      domain: 'TAX_GST',
+      state: 'GREEN',
+      riskScore: 0,
+      activeRequirements: requirements.length,
+      overdueRequirements: 0,
+      upcomingDeadlines: 0,
+      totalPenaltyExposure: 0,
+      requirements,
+    }],
+    calculatedAt: new Date(2024, 2, 31),
+    calculationVersion: '1.0.0',
+    dataCompletenessScore: 80,
+    ...overrides,
+  };
+}
+
+describe('Compliance replay', () => {
+  it('restores dates from stored JSON snapshots', () => {
+    const stored = JSON.parse(JSON.stringify(entityState([requirement({ lastFiled: new Date(2024, 2, 18) })])));
+    const revived = reviveEntityState(stored);
+
+    const [revivedRequirement] = revived.domains[0].requirements;
+    expect(revivedRequirement.dueDate).toBeInstanceOf(Date);
+    expect(revivedRequirement.lastFiled?.getDate()).toBe(18);
+    expect(revivedRequirement.extensionReference).toBeNull();
+    expect(revived.calculationVersion).toBe('1.0.0');
+  });
+
+  it('explains why requirements changed between two states', () => {
+    const before = entityState([
+      requirement({}),
+      requirement({ requirementId: 'GST_GSTR1_MONTHLY', name: 'GSTR-1', dueDate: new Date(2024, 3, 11) }),
+    ]);
+    const after = entityState([
+      requirement({
+        dueDate: new Date(2024, 3, 27),
+        extensionReference: 'Notification No. 09/2024-Central Tax',
+      }),
+      requirement({
+        requirementId: 'GST_GSTR1_MONTHLY',
+        name: 'GSTR-1',
+        dueDate: new Date(2024, 3, 11),
+        state: 'RED',
+        daysOverdue: 5,
+        penaltyExposure: 250,
+      }),
+      requirement({ requirementId: 'TDS_24Q', name: 'TDS Return', domain: 'TAX_INCOME' }),
+    ], { overallState: 'RED', overallRiskScore: 75, totalPenaltyExposure: 250, totalOverdueItems: 1, calculationVersion: '1.1.0' });
+
+    const diff = diffEntityStates(before, after);
+
+    expect(diff.summary.overallState).toEqual({ before: 'GREEN', after: 'RED' });
+    expect(diff.summary.riskScore.change).toBe(65);
+    expect(diff.summary.penaltyExposure.change).toBe(250);
+
+    const byId = new Map(diff.requirements.map((change) => [change.requirementId, change]));
+    expect(byId.get('GST_GSTR3B_MONTHLY')?.reasons).toEqual([
+      'Due date extended from 2024-04-20 to 2024-04-27 by Notification No. 09/2024-Central Tax',
+    ]);
+    expect(byId.get('GST_GSTR1_MONTHLY')?.reasons).toEqual([
+      'Became overdue (5 days)',
+      'Penalty exposure changed from ₹0 to ₹250',
+    ]);
+    expect(byId.get('TDS_24Q')?.change).toBe('ADDED');
+  });
+
+  it('reports requirements that stopped applying and ignores unchanged ones', () => {
+    const before = entityState([requirement({}), requirement({ requirementId: 'PT_MONTHLY', name: 'Professional Tax' })]);
+    const after = entityState([requirement({})]);
+
+    const diff = diffEntityStates(before, after);
+    expect(diff.requirements).toHaveLength(1);
+    expect(diff.requirements[0]).toMatchObject({ requirementId: 'PT_MONTHLY', change: 'REMOVED', after: null });
+  });
+
+  it('reads replay dates as the end of the day and rejects future dates', () => {
+    const asOf = parseReplayDate('2024-03-31', 'date');
+    expect(asOf.getHours()).toBe(23);
+    expect(asOf.getDate()).toBe(31);
+
+    expect(() => parseReplayDate('2024-02-30', 'date')).toThrow('not a valid date');
+    expect(() => parseReplayDate('31/03/2024', 'date')).toThrow('YYYY-MM-DD');
+    expect(() => parseReplayDate(`${new Date().getFullYear() + 1}-01-01`, 'date')).toThrow('future');
+  });
+});
@@ -0,0 +1,111 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  normalizeAdjustment,
+  buildWorkingCalendar,
+  isWorkingDay,
+  shiftToWorkingDay,
+  applyDeadlineRules,
+} from '../services/deadline-resolver';
+
+const NATIONAL = {
+  jurisdictionId: null,
+  holidays: [
+    { date: '2024-08-15', name: 'Independence Day', type: 'NATIONAL' },
+    { date: '2024-12-25', name: 'Christmas', type: 'NATIONAL' },
+    { date: '2025-01-01', name: 'New Year', type: 'BANK' },
+  ],
+  weekendDays: [0, 6],
+};
+
+const MAHARASHTRA = {
+  jurisdictionId: 'mh',
+  holidays: [{ date: '2024-08-16', name: 'Parsi New Year', type: 'REGIONAL' }],
+  weekendDays: [0],
+};
+
+const ymd = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+describe('Deadline Resolver', () => {
+  describe('adjustment rules', () => {
+    it('accepts calendar and rule spellings of the three semantics', () => {
+      expect(normalizeAdjustment('NEXT_WORKING_DAY')).toBe('NEXT_WORKING_DAY');
+      expect(normalizeAdjustment('roll forward')).toBe('NEXT_WORKING_DAY');
+      expect(normalizeAdjustment('roll_back')).toBe('PREVIOUS_WORKING_DAY');
+      expect(normalizeAdjustment('No adjustment')).toBe('NONE');
+      expect(normalizeAdjustment(null)).toBe('NEXT_WORKING_DAY');
+      expect(normalizeAdjustment('sideways', 'NONE')).toBe('NONE');
+    });
+  });
+
+  describe('working calendar', () => {
+    it('merges holidays and takes weekend days from the most specific calendar', () => {
+      const national = buildWorkingCalendar([NATIONAL]);
+      const mumbai = buildWorkingCalendar([NATIONAL, MAHARASHTRA]);
+
+      expect(national.weekendDays).toEqual([0, 6]);
+      expect(mumbai.weekendDays).toEqual([0]);
+      expect(mumbai.holidays.has('2024-08-15')).toBe(true);
+      expect(mumbai.holidays.has('2024-08-16')).toBe(true);
+
+      const saturday = new Date(2024, 7, 17);
+      expect(isWorkingDay(saturday, national)).toBe(false);
+      expect(isWorkingDay(saturday, mumbai)).toBe(true);
+    });
+  });
+
+  describe('holiday shifts', () => {
+    const calendar = buildWorkingCalendar([NATIONAL, MAHARASHTRA]);
+
+    it('rolls forward past consecutive holidays and records them', () => {
+      const shifted = shiftToWorkingDay(new Date(2024, 7, 15), 'NEXT_WORKING_DAY', calendar);
+      expect(ymd(shifted.date)).toBe('2024-08-17');
+      expect(shifted.skippedHolidays.map((h) => h.name)).toEqual(['Independence Day', 'Parsi New Year']);
+    });
+
+    it('rolls back to the previous working day', () => {
+      const shifted = shiftToWorkingDay(new Date(2024, 7, 16), 'PREVIOUS_WORKING_DAY', calendar);
+      expect(ymd(shifted.date)).toBe('2024-08-14');
+    });
+
+    it('leaves the date alone when the rule says no adjustment', () => {
+      const shifted = shiftToWorkingDay(new Date(2024, 7, 15), 'NONE', calendar);
+      expect(ymd(shifted.date)).toBe('2024-08-15');
+      expect(shifted.skippedHolidays).toEqual([]);
+    });
+
+    it('carries a shift across the year end', () => {
+      // Tue 31 Dec 2024 is a working day; Wed 1 Jan 2025 is a bank holiday
+      const national = buildWorkingCalendar([NATIONAL]);
+      const resolved = applyDeadlineRules('2025-01-01', national);
+      expect(ymd(resolved.dueDate)).toBe('2025-01-02');
+      expect(ymd(applyDeadlineRules('2025-01-01', national, { adjustment: 'roll_back' }).dueDate)).toBe('2024-12-31');
+    });
+  });
+
+  describe('extensions', () => {
+    const calendar = buildWorkingCalendar([NATIONAL]);
+
+    it('replaces the adjusted deadline with a later extension as notified', () => {
+      const resolved = applyDeadlineRules('2024-08-15', calendar, {
+        extensions: [{ dueDate: '2024-08-31', reference: 'Notification 12/2024' }],
+      });
+      expect(ymd(resolved.statutoryDueDate)).toBe('2024-08-15');
+      expect(ymd(resolved.adjustedDueDate)).toBe('2024-08-16');
+      // 31 Aug 2024 is a Saturday; a notified date is not shifted again
+      expect(ymd(resolved.dueDate)).toBe('2024-08-31');
+      expect(resolved.extension?.reference).toBe('Notification 12/2024');
+    });
+
+    it('never lets an extension shorten the deadline', () => {
+      const resolved = applyDeadlineRules('2024-08-15', calendar, {
+        extensions: [{ dueDate: '2024-08-10' }],
+      });
+      expect(ymd(resolved.dueDate)).toBe('2024-08-16');
+      expect(resolved.extension).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  canonicalJson,
+  erasureDecision,
+  financialYearEnd,
+  findHold,
+  noticeDate,
+  retentionDueDate,
+  selectPolicy,
+  signPayload,
+  verifySignature,
+  type HoldRule,
+  type PolicyRule,
+} from '../services/documents/retention-rules';
+
+const policy = (overrides: Partial<PolicyRule>): PolicyRule => ({
+  id: 1,
+  documentCategory: null,
+  retentionDays: 365,
+  clockStart: 'uploaded',
+  action: 'archive',
+  notifyDaysBeforeAction: 30,
+  isStatutory: false,
+  isActive: true,
+  ...overrides,
+});
+
+const hold = (overrides: Partial<HoldRule>): HoldRule => ({
+  id: 1,
+  name: 'GST audit',
+  scopeType: 'entity',
+  documentKind: null,
+  documentId: null,
+  businessEntityId: null,
+  documentCategory: null,
+  status: 'active',
+  ...overrides,
+});
+
+describe('Retention policies', () => {
+  const catchAll = policy({ id: 1, retentionDays: 365 });
+  const taxShort = policy({ id: 2, documentCategory: 'tax', retentionDays: 1000 });
+  const taxLong = policy({ id: 3, documentCategory: 'Tax', retentionDays: 2920, clockStart: 'financial_year_end' });
+  const inactive = policy({ id: 4, documentCategory: 'kyc', retentionDays: 30, isActive: false });
+
+  it('prefers the category policy with the longest retention, then the catch-all', () => {
+    const policies = [catchAll, taxShort, taxLong, inactive];
+
+    expect(selectPolicy(policies, 'tax')?.id).toBe(3);
+    expect(selectPolicy(policies, 'kyc')?.id).toBe(1);
+    expect(selectPolicy(policies, null)?.id).toBe(1);
+    expect(selectPolicy([taxShort], 'legal')).toBeNull();
+  });
+
+  it('counts statutory clocks from the 31 March after upload', () => {
+    expect(financialYearEnd(new Date('2024-04-01T00:00:00Z')).toISOString().slice(0, 10)).toBe('2025-03-31');
+    expect(financialYearEnd(new Date('2024-03-31T10:00:00Z')).toISOString().slice(0, 10)).toBe('2024-03-31');
+
+    const uploaded = new Date('2023-06-15T00:00:00Z');
+    expect(retentionDueDate(taxLong, uploaded).toISOString().slice(0, 10)).toBe('2032-03-29');
+    expect(retentionDueDate(catchAll, uploaded).toISOString().slice(0, 10)).toBe('2024-06-14');
+  });
+
+  it('sends notice the configured days before the action, or not at all', () => {
+    const due = new Date('2025-01-31T00:00:00Z');
+
+    expect(noticeDate(catchAll, due)?.toISOString().slice(0, 10)).toBe('2025-01-01');
+    expect(noticeDate(policy({ notifyDaysBeforeAction: 0 }), due)).toBeNull();
+  });
+});
+
+describe('Legal holds', () => {
+  const document = { kind: 'vault' as const, id: 7, category: 'Tax', businessEntityId: 42 };
+
+  it('covers a document by itself, its entity or its category', () => {
+    expect(findHold([hold({ scopeType: 'document', documentKind: 'vault', documentId: 7 })], document)).not.toBeNull();
+    expect(findHold([hold({ scopeType: 'document', documentKind: 'ai_document', documentId: 7 })], document)).toBeNull();
+    expect(findHold([hold({ businessEntityId: 42 })], document)).not.toBeNull();
+    expect(findHold([hold({ businessEntityId: 43 })], document)).toBeNull();
+    expect(findHold([hold({ scopeType: 'category', documentCategory: 'tax' })], document)).not.toBeNull();
+  });
+
+  it('ignores released holds', () => {
+    expect(findHold([hold({ businessEntityId: 42, status: 'released' })], document)).toBeNull();
+  });
+});
+
+describe('Erasure requests', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+  const document = {
+    kind: 'vault' as const,
+    id: 7,
+    category: 'tax',
+    businessEntityId: 42,
+    uploadedAt: new Date('2023-06-15T00:00:00Z'),
+  };
+  const statutory = policy({ id: 9, documentCategory: 'tax', retentionDays: 2920, clockStart: 'financial_year_end', isStatutory: true });
+
+  it('keeps documents under a legal hold', () => {
+    expect(erasureDecision(document, [], [hold({ id: 5, businessEntityId: 42 })], now))
+      .toEqual({ action: 'retain', reason: 'legal_hold', holdId: 5, holdName: 'GST audit' });
+  });
+
+  it('keeps documents inside a statutory retention period', () => {
+    expect(erasureDecision(document, [statutory], [], now)).toEqual({
+      action: 'retain',
+      reason: 'statutory_retention',
+      policyId: 9,
+      until: new Date('2032-03-29T00:00:00Z'),
+    });
+  });
+
+  it('purges once statutory retention has run, and despite non-statutory policies', () => {
+    expect(erasureDecision(document, [statutory], [], new Date('2032-04-01T00:00:00Z'))).toEqual({ action: 'purge' });
+    expect(erasureDecision(document, [policy({ documentCategory: 'tax', retentionDays: 5000 })], [], now)).toEqual({ action: 'purge' });
+  });
+});
+
+describe('Retention certificates', () => {
+  const payload = {
+    certificateNumber: 'CRT2025000001',
+    files: [{ path: 'private/a.pdf', sha256: 'ab', bytes: 10, status: 'deleted' }],
+    document: { title: 'GST return', id: 7, kind: 'vault' },
+    purgedAt: new Date('2025-06-01T00:00:00Z'),
+  };
+
+  it('serialises with sorted keys whatever the insertion order', () => {
+    expect(canonicalJson({ b: 1, a: [{ d: null, c: 'x' }], skipped: undefined }))
+      .toBe('{"a":[{"c":"x","d":null}],"b":1}');
+    expect(canonicalJson(payload)).toBe(canonicalJson({ ...payload, document: { kind: 'vault', id: 7, title: 'GST return' } }));
+  });
+
+  it('verifies its own signature and rejects tampering or another key', () => {
+    const signature = signPayload(payload, 'secret');
+
+    expect(signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifySignature(payload, signature, 'secret')).toBe(true);
+    expect(verifySignature({ ...payload, certificateNumber: 'CRT2025000002' }, signature, 'secret')).toBe(false);
+    expect(verifySignature(payload, signature, 'other')).toBe(false);
+    expect(verifySignature(payload, 'zz', 'secret')).toBe(false);
+  });
+});
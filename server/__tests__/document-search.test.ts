@@ -0,0 +1,101 @@
+import { extractEntities, identifierType, isValidGstin } from '../services/documents/entity-extraction';
+import { fileNameWords, parseSearchQuery, renderHighlights } from '../services/documents/search-query';
+import { docxText, looksScanned, parseTesseractTsv } from '../services/documents/text-extraction';
+import { renderDocx } from '../services/documents/document-renderers';
+import { htmlToBlocks } from '../services/documents/document-blocks';
+
+describe('Entity extraction', () => {
+  const text = [
+    'Memorandum of Association of ACME PRIVATE LIMITED',
+    'CIN: U72900MH2023PTC123456  PAN: AAACA1234A',
+    'GSTIN 27AAACA1234A1ZK, also quoted wrongly as 27AAACA1234A1ZX, registered on 15/04/2023.',
+    'Director: Asha Rao, DIN: 01234567. Meeting held on 1st day of April, 2023 and March 5, 2024.',
+    'Authorised capital Rs. 10,00,000/- and fees ₹2.5 lakh. Not a date: 31/02/2023. LLPIN: AAB-1234',
+  ].join('\n');
+
+  it('finds Indian identifiers, rejecting a GSTIN with a bad check digit', () => {
+    const entities = extractEntities(text);
+
+    expect(entities.cin).toEqual(['U72900MH2023PTC123456']);
+    expect(entities.gstin).toEqual(['27AAACA1234A1ZK']);
+    expect(entities.pan).toEqual(['AAACA1234A']);
+    expect(entities.din).toEqual(['01234567']);
+    expect(entities.llpin).toEqual(['AAB-1234']);
+  });
+
+  it('reads rupee amounts, including lakh and crore', () => {
+    expect(extractEntities(text).amounts).toEqual([1000000, 250000]);
+  });
+
+  it('reads day-first and written dates in order, skipping impossible ones', () => {
+    expect(extractEntities(text).dates).toEqual(['2023-04-15', '2023-04-01', '2024-03-05']);
+  });
+
+  it('validates the GSTIN check digit', () => {
+    expect(isValidGstin('27AAACA1234A1ZK')).toBe(true);
+    expect(isValidGstin('27AAACA1234A1ZX')).toBe(false);
+  });
+
+  it('recognises identifiers typed as search terms', () => {
+    expect(identifierType('aaaca1234a')).toBe('pan');
+    expect(identifierType('U72900MH2023PTC123456')).toBe('cin');
+    expect(identifierType('01234567')).toBe('din');
+    expect(identifierType('hello123')).toBeNull();
+  });
+});
+
+describe('Search queries', () => {
+  it('splits years, identifiers and words, dropping filler', () => {
+    expect(parseSearchQuery('the 2023 MOA for client Acme-Corp AAACA1234A moa')).toEqual({
+      terms: [
+        { text: 'moa', identifier: null },
+        { text: 'acme', identifier: null },
+        { text: 'corp', identifier: null },
+        { text: 'AAACA1234A', identifier: 'pan' },
+      ],
+      years: [2023],
+    });
+  });
+
+  it('escapes highlighted fragments and marks the matches', () => {
+    expect(renderHighlights('a <b> \u0002MOA\u0003 x\u0004second \u0002acme\u0003')).toEqual([
+      'a &lt;b&gt; <mark>MOA</mark> x',
+      'second <mark>acme</mark>',
+    ]);
+    expect(renderHighlights(null)).toEqual([]);
+  });
+
+  it('makes file names searchable by word', () => {
+    expect(fileNameWords('MOA_AcmeCorp-2023.pdf')).toBe('MOA Acme Corp 2023');
+  });
+});
+
+describe('Text extraction', () => {
+  it('rebuilds lines and paragraphs from tesseract TSV with mean confidence', () => {
+    const tsv = [
+      'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext',
+      '1\t1\t0\t0\t0\t0\t0\t0\t1\t1\t-1\t',
+      '5\t1\t1\t1\t1\t1\t0\t0\t1\t1\t96.5\tCertificate',
+      '5\t1\t1\t1\t1\t2\t0\t0\t1\t1\t91.5\tof',
+      '5\t1\t1\t1\t2\t1\t0\t0\t1\t1\t90\tIncorporation',
+      '5\t1\t2\t1\t1\t1\t0\t0\t1\t1\t82\tCIN',
+    ].join('\n');
+
+    expect(parseTesseractTsv(tsv)).toEqual({
+      text: 'Certificate of\nIncorporation\n\nCIN',
+      confidence: 90,
+    });
+  });
+
+  it('treats a PDF with next to no text layer as a scan', () => {
+    expect(looksScanned(['  1  ', 'Page 2'])).toBe(true);
+    expect(looksScanned(['This memorandum of association is made between the subscribers named below.'])).toBe(false);
+    expect(looksScanned([])).toBe(true);
+  });
+
+  it('reads paragraph text out of a DOCX', () => {
+    const docx = renderDocx(htmlToBlocks('<h2>Board Resolution</h2><p>RESOLVED THAT &amp; more</p>'), { title: 'Resolution' });
+
+    expect(docxText(docx).trim()).toBe('Board Resolution\nRESOLVED THAT & more');
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  TemplateError,
+  financialYear,
+  formatIndianDate,
+  formatIndianNumber,
+  numberInWords,
+  renderTemplate,
+  rupeesInWords,
+  validateTemplate,
+} from '../services/documents/template-merge';
+import { htmlToBlocks } from '../services/documents/document-blocks';
+import { assembleMergeData } from '../services/documents/merge-data';
+
+// 1 April 2026, 01:30 IST - still 31 March in UTC
+const fyStart = new Date('2026-03-31T20:00:00Z');
+
+describe('Template merge', () => {
+  it('loops over lists with numbering, separators and an empty fallback', () => {
+    const source = '{{#each directors}}{{@number}}. {{name}}{{#unless @last}}; {{/unless}}{{else}}none{{/each}}';
+
+    expect(renderTemplate(source, { directors: [{ name: 'Asha' }, { name: 'Ravi' }] }).html)
+      .toBe('1. Asha; 2. Ravi');
+    expect(renderTemplate(source, { directors: [] }).html).toBe('none');
+  });
+
+  it('branches on truthiness and on literal comparisons', () => {
+    const source = '{{#if entity.cin}}CIN {{entity.cin}}{{else}}Unregistered{{/if}} / {{#if type == "llp"}}LLP{{else}}Company{{/if}}';
+
+    expect(renderTemplate(source, { entity: { cin: 'U12345' }, type: 'llp' }).html).toBe('CIN U12345 / LLP');
+    expect(renderTemplate(source, { entity: {}, type: 'pvt_ltd' }).html).toBe('Unregistered / Company');
+  });
+
+  it('escapes values unless triple-braced', () => {
+    expect(renderTemplate('{{name}} {{{name}}}', { name: '<b>A & B</b>' }).html)
+      .toBe('&lt;b&gt;A &amp; B&lt;/b&gt; <b>A & B</b>');
+  });
+
+  it('reports missing fields, including positions inside loops', () => {
+    const result = renderTemplate('{{entity.name}} {{#each ds}}{{din}}{{/each}}', {
+      entity: {},
+      ds: [{ din: '001' }, {}],
+    });
+
+    expect(result.html).toBe('[entity.name] 001[din]');
+    expect(result.missingFields).toEqual(['entity.name', 'ds.2.din']);
+  });
+
+  it('falls back to another field or a literal with default', () => {
+    const source = '{{meeting.place | default entity.city}} {{occupation | default "Business"}}';
+    const result = renderTemplate(source, { meeting: {}, entity: { city: 'Pune' } });
+
+    expect(result.html).toBe('Pune Business');
+    expect(result.missingFields).toEqual([]);
+  });
+
+  it('formats amounts, dates and financial years the Indian way', () => {
+    const source = '{{fee | inr}} ({{fee | rupees}}) on {{on | date "long"}}, FY {{on | fy}}';
+
+    expect(renderTemplate(source, { fee: 250000, on: fyStart }).html)
+      .toBe('₹2,50,000.00 (Rupees Two Lakh Fifty Thousand Only) on 1 April 2026, FY 2026-27');
+  });
+
+  it('rejects unbalanced blocks with line numbers', () => {
+    const validation = validateTemplate('{{#if a}}x{{#each b}}{{/if}}');
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors[0]).toBe('Line 1: {{/if}} closes {{#each}} from line 1');
+    expect(() => renderTemplate('{{#if a}}', {})).toThrow(TemplateError);
+  });
+
+  it('lists the fields a template reads', () => {
+    expect(validateTemplate('{{a.b}} {{#each c}}{{d}}{{/each}}')).toEqual({
+      valid: true,
+      errors: [],
+      fields: ['a.b', 'c', 'd'],
+    });
+  });
+});
+
+describe('Indian formatting', () => {
+  it('groups digits in lakhs and crores', () => {
+    expect(formatIndianNumber(1234567)).toBe('12,34,567');
+    expect(formatIndianNumber(1234567.456, 2)).toBe('12,34,567.46');
+  });
+
+  it('writes numbers and rupee amounts in words', () => {
+    expect(numberInWords(12345678)).toBe('One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight');
+    expect(rupeesInWords(150000.5)).toBe('Rupees One Lakh Fifty Thousand and Fifty Paise Only');
+  });
+
+  it('uses Indian time for dates and the April financial year', () => {
+    expect(formatIndianDate(fyStart)).toBe('01/04/2026');
+    expect(formatIndianDate(fyStart, 'ordinal')).toBe('1st day of April, 2026');
+    expect(financialYear(fyStart)).toBe('2026-27');
+    expect(financialYear(new Date('2026-03-30T10:00:00Z'))).toBe('2025-26');
+  });
+});
+
+describe('Document blocks', () => {
+  it('turns merged HTML into headings, runs, lists, tables and breaks', () => {
+    const blocks = htmlToBlocks(
+      '<h2 style="text-align: center">Title &amp; Co</h2><p>Hello <b>bold</b><br>next</p>'
+      + '<ul><li>one</li><li>two</li></ul><table><tr><th>H</th></tr><tr><td>c</td></tr></table>'
+      + '<div class="page-break"></div><hr>'
+    );
+
+    expect(blocks).toEqual([
+      { type: 'heading', level: 2, runs: [{ text: 'Title & Co' }], align: 'center' },
+      { type: 'paragraph', runs: [{ text: 'Hello ' }, { text: 'bold', bold: true }, { text: '\n' }, { text: 'next' }], align: 'left' },
+      { type: 'list', ordered: false, items: [[{ text: 'one' }], [{ text: 'two' }]] },
+      { type: 'table', rows: [[{ runs: [{ text: 'H' }], header: true }], [{ runs: [{ text: 'c' }], header: false }]] },
+      { type: 'page_break' },
+      { type: 'rule' },
+    ]);
+  });
+});
+
+describe('Merge data', () => {
+  const entity = {
+    name: 'Acme Private Limited',
+    entityType: 'pvt_ltd',
+    address: '12 MG Road',
+    city: 'Bengaluru',
+    state: 'Karnataka',
+    pincode: '560001',
+    metadata: {
+      directors: [{ name: 'Asha Rao', din: '01234567' }, 'Ravi Kumar', { din: 'no-name' }],
+      shareholders: [{ name: 'Asha Rao', shares: 7500 }, { name: 'Ravi Kumar', shares: 2500 }],
+    },
+  };
+
+  it('reads directors and shareholders from entity metadata', () => {
+    const data = assembleMergeData({ entity, today: fyStart }) as Record<string, any>;
+
+    expect(data.entity.entityTypeLabel).toBe('Private Limited Company');
+    expect(data.entity.fullAddress).toBe('12 MG Road, Bengaluru, Karnataka, 560001');
+    expect(data.directors.map((d: any) => d.name)).toEqual(['Asha Rao', 'Ravi Kumar']);
+    expect(data.director).toEqual({ name: 'Asha Rao', din: '01234567' });
+    expect(data.shareholders.map((s: any) => s.percentage)).toEqual([75, 25]);
+    expect(data.totalShares).toBe(10000);
+  });
+
+  it('lays request variables over the record, replacing lists', () => {
+    const data = assembleMergeData({
+      entity,
+      serviceRequest: { serviceId: 'annual_return-filing', requestId: 'SR00042' },
+      variables: {
+        entity: { city: 'Mysuru' },
+        authorisedDirectors: [{ name: 'Ravi Kumar' }],
+      },
+    }) as Record<string, any>;
+
+    expect(data.entity.city).toBe('Mysuru');
+    expect(data.entity.name).toBe('Acme Private Limited');
+    expect(data.authorisedDirectors).toEqual([{ name: 'Ravi Kumar' }]);
+    expect(data.service.name).toBe('Annual Return Filing');
+  });
+});
@@ -0,0 +1,97 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  extensionApplies,
+  extensionCoversEntity,
+  findApplicableExtensions,
+  isAlertStillValid,
+} from '../services/due-date-extension-service';
+import { applyDeadlineRules, buildWorkingCalendar } from '../services/deadline-resolver';
+import type { ComplianceRequirementStatus } from '@shared/compliance-state-types';
+
+const GSTR3B_EXTENSION = {
+  ruleCodes: ['GST_GSTR3B_MONTHLY'],
+  originalDueDate: new Date(2024, 4, 20),
+  extendedDueDate: new Date(2024, 4, 27),
+  circularReference: 'Notification No. 09/2024-Central Tax',
+  applicableEntityTypes: null,
+  applicableStates: ['Maharashtra', '29'],
+  isActive: true,
+};
+
+const ymd = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+function requirement(overrides: Partial<ComplianceRequirementStatus>): ComplianceRequirementStatus {
+  return {
+    requirementId: 'GST_GSTR3B_MONTHLY',
+    name: 'GSTR-3B Monthly Return',
+    domain: 'TAX_GST',
+    state: 'GREEN',
+    dueDate: null,
+    daysUntilDue: null,
+    daysOverdue: null,
+    penaltyExposure: 0,
+    priority: 'medium',
+    isRecurring: true,
+    nextOccurrence: null,
+    lastFiled: null,
+    blockers: [],
+    actionRequired: '',
+    ...overrides,
+  };
+}
+
+describe('Due date extensions', () => {
+  describe('applicability', () => {
+    it('matches state names and GST state codes', () => {
+      expect(extensionCoversEntity(GSTR3B_EXTENSION, { state: 'maharashtra' })).toBe(true);
+      expect(extensionCoversEntity(GSTR3B_EXTENSION, { state: 'Karnataka' })).toBe(true);
+      expect(extensionCoversEntity(GSTR3B_EXTENSION, { state: 'Gujarat' })).toBe(false);
+      expect(extensionCoversEntity(GSTR3B_EXTENSION, { state: null })).toBe(false);
+    });
+
+    it('matches entity types across spellings', () => {
+      const llpAndCompanies = { ...GSTR3B_EXTENSION, applicableStates: null, applicableEntityTypes: ['pvt_ltd', 'LLP'] };
+      expect(extensionCoversEntity(llpAndCompanies, { entityType: 'Private Limited' })).toBe(true);
+      expect(extensionCoversEntity(llpAndCompanies, { entityType: 'llp' })).toBe(true);
+      expect(extensionCoversEntity(llpAndCompanies, { entityType: 'partnership' })).toBe(false);
+    });
+
+    it('applies only to the extended rule and statutory date', () => {
+      const target = { ruleCode: 'GST_GSTR3B_MONTHLY', statutoryDueDate: new Date(2024, 4, 20, 18, 30), state: '27' };
+      expect(extensionApplies(GSTR3B_EXTENSION, target)).toBe(true);
+      expect(extensionApplies(GSTR3B_EXTENSION, { ...target, ruleCode: 'GST_GSTR1_MONTHLY' })).toBe(false);
+      expect(extensionApplies(GSTR3B_EXTENSION, { ...target, statutoryDueDate: new Date(2024, 5, 20) })).toBe(false);
+      expect(extensionApplies({ ...GSTR3B_EXTENSION, isActive: false }, target)).toBe(false);
+    });
+  });
+
+  describe('effective deadline', () => {
+    it('moves the deadline to the extended date through the resolver', () => {
+      const calendar = buildWorkingCalendar([]);
+      const statutoryDueDate = new Date(2024, 4, 20);
+      const extensions = findApplicableExtensions([GSTR3B_EXTENSION], {
+        ruleCode: 'GST_GSTR3B_MONTHLY',
+        statutoryDueDate,
+        state: 'Maharashtra',
+      });
+
+      const resolved = applyDeadlineRules(statutoryDueDate, calendar, { extensions });
+      expect(ymd(resolved.dueDate)).toBe('2024-05-27');
+      expect(resolved.extension?.reference).toBe('Notification No. 09/2024-Central Tax');
+    });
+  });
+
+  describe('alerts', () => {
+    it('withdraws overdue alerts once the requirement is back within its deadline', () => {
+      expect(isAlertStillValid('OVERDUE', requirement({ state: 'RED' }))).toBe(true);
+      expect(isAlertStillValid('OVERDUE', requirement({ state: 'AMBER', priority: 'critical' }))).toBe(false);
+      expect(isAlertStillValid('UPCOMING', requirement({ state: 'AMBER', priority: 'critical' }))).toBe(true);
+      expect(isAlertStillValid('UPCOMING', requirement({ state: 'GREEN' }))).toBe(false);
+      expect(isAlertStillValid('OVERDUE', undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import { parseExchangeRateFile, resolveCurrencyColumn } from '../services/exchange-rate-parser';
+import { toBaseAmount, computeRealisedFx, computeRevaluation } from '../services/fx-service';
+import { buildGstr1, buildGstr3b, type GstLedgerRow } from '../services/gst-return-builder';
+
+const RBI_REFERENCE_CSV = [
+  'Reference Rate for US $ / Pound Sterling / Euro / Japanese Yen',
+  'Date,USD,GBP,EURO,YEN',
+  '01/10/2024,83.7900,112.1002,93.4888,58.5000',
+  '03/10/2024,83.9000,110.4651,92.6812,57.2300',
+  'Source: RBI,,,,',
+].join('\n');
+
+const FBIL_CSV = [
+  'Date,INR / 1 USD,INR / 1 EUR,INR / 100 JPY',
+  '2024-10-01,83.79,93.49,58.50',
+].join('\n');
+
+const LONG_CSV = [
+  'Date,Currency,Rate,To',
+  '2024-10-01,usd,83.79,INR',
+  '2024-10-01,AED,22.81,',
+  '2024-10-01,GBP,not-a-rate,INR',
+].join('\n');
+
+function exportRow(overrides: Partial<GstLedgerRow>): GstLedgerRow {
+  return {
+    transactionType: 'gst_output',
+    documentNumber: 'INV-EXP-1',
+    documentDate: '2024-10-01',
+    documentValue: 837900,
+    counterpartyName: 'Globex Inc',
+    counterpartyGstin: null,
+    placeOfSupply: '96',
+    supplyType: 'inter',
+    hsnCode: '998311',
+    taxRate: 18,
+    taxableValue: 837900,
+    cgst: 0,
+    sgst: 0,
+    igst: 0,
+    cess: 0,
+    reverseCharge: false,
+    itcEligible: true,
+    ...overrides,
+  };
+}
+
+describe('Multi-currency', () => {
+  describe('exchange rate files', () => {
+    it('reads RBI reference rates with one column per currency, yen per 100 units', () => {
+      const parsed = parseExchangeRateFile(RBI_REFERENCE_CSV);
+      expect(parsed.format).toBe('wide');
+      expect(parsed.skippedRows).toBe(1);
+      expect(parsed.rates).toHaveLength(8);
+      expect(parsed.rates.slice(0, 4)).toEqual([
+        { fromCurrency: 'USD', toCurrency: 'INR', rate: 83.79, effectiveDate: '2024-10-01' },
+        { fromCurrency: 'GBP', toCurrency: 'INR', rate: 112.1002, effectiveDate: '2024-10-01' },
+        { fromCurrency: 'EUR', toCurrency: 'INR', rate: 93.4888, effectiveDate: '2024-10-01' },
+        { fromCurrency: 'JPY', toCurrency: 'INR', rate: 0.585, effectiveDate: '2024-10-01' },
+      ]);
+    });
+
+    it('honours the quotation unit in FBIL column headings', () => {
+      expect(resolveCurrencyColumn('INR / 100 JPY')).toEqual({ currency: 'JPY', unit: 100 });
+      expect(resolveCurrencyColumn('US Dollar')).toEqual({ currency: 'USD', unit: null });
+      expect(resolveCurrencyColumn('Date')).toBeNull();
+
+      const parsed = parseExchangeRateFile(FBIL_CSV);
+      expect(parsed.rates.map((r) => [r.fromCurrency, r.rate])).toEqual([
+        ['USD', 83.79],
+        ['EUR', 93.49],
+        ['JPY', 0.585],
+      ]);
+    });
+
+    it('reads one rate per row and skips unparseable rates', () => {
+      const parsed = parseExchangeRateFile(LONG_CSV);
+      expect(parsed.format).toBe('long');
+      expect(parsed.skippedRows).toBe(1);
+      expect(parsed.rates).toEqual([
+        { fromCurrency: 'USD', toCurrency: 'INR', rate: 83.79, effectiveDate: '2024-10-01' },
+        { fromCurrency: 'AED', toCurrency: 'INR', rate: 22.81, effectiveDate: '2024-10-01' },
+      ]);
+    });
+
+    it('rejects files without a date column', () => {
+      expect(() => parseExchangeRateFile('Currency,Rate\nUSD,83.79')).toThrow(/Date column/);
+    });
+  });
+
+  describe('realised and unrealised FX', () => {
+    it('converts to INR at the paisa', () => {
+      expect(toBaseAmount(1180, 83.79)).toBe(98872.2);
+      expect(toBaseAmount(0.01, 83.79)).toBe(0.84);
+    });
+
+    it('books a gain when the rupee weakens before settlement, counting bank charges as received', () => {
+      // USD 1,000 invoiced at 83.00; bank credits ₹83,950 after ₹550 charges (84.50)
+      expect(computeRealisedFx({ amount: 1000, invoiceRate: 83, baseAmountReceived: 83950, bankCharges: 550 })).toEqual({
+        baseAmountAtInvoiceRate: 83000,
+        settlementRate: 84.5,
+        realisedGainLoss: 1500,
+      });
+    });
+
+    it('books a loss when the rupee strengthens', () => {
+      const fx = computeRealisedFx({ amount: 500, invoiceRate: 84.2, baseAmountReceived: 41800 });
+      expect(fx.baseAmountAtInvoiceRate).toBe(42100);
+      expect(fx.realisedGainLoss).toBe(-300);
+    });
+
+    it('revalues open balances at the current rate', () => {
+      expect(computeRevaluation(2500, 83, 83.79)).toEqual({
+        baseAmountAtInvoiceRate: 207500,
+        baseAmountAtCurrentRate: 209475,
+        unrealisedGainLoss: 1975,
+      });
+    });
+  });
+
+  describe('exports in GST returns', () => {
+    const rows = [
+      exportRow({}),
+      exportRow({ documentNumber: 'INV-EXP-2', documentValue: 118000, taxableValue: 100000, igst: 18000 }),
+    ];
+
+    it('reports exports in GSTR-1 table 6A, split by payment of IGST', () => {
+      const gstr1 = buildGstr1(rows, { gstin: '29AABCD1234E1Z5', period: '102024' });
+      expect(gstr1.b2cl).toEqual([]);
+      expect(gstr1.b2cs).toEqual([]);
+      expect(gstr1.exp).toEqual([
+        { exp_typ: 'WOPAY', inv: [{ inum: 'INV-EXP-1', idt: '01-10-2024', val: 837900, itms: [{ txval: 837900, rt: 18, iamt: 0, csamt: 0 }] }] },
+        { exp_typ: 'WPAY', inv: [{ inum: 'INV-EXP-2', idt: '01-10-2024', val: 118000, itms: [{ txval: 100000, rt: 18, iamt: 18000, csamt: 0 }] }] },
+      ]);
+    });
+
+    it('reports exports as zero-rated supplies in GSTR-3B', () => {
+      const gstr3b = buildGstr3b(rows, { gstin: '29AABCD1234E1Z5', period: '102024' });
+      expect(gstr3b.sup_details.osup_zero).toEqual({ txval: 937900, iamt: 18000, csamt: 0 });
+      expect(gstr3b.sup_details.osup_det.txval).toBe(0);
+      expect(gstr3b.inter_sup.unreg_details).toEqual([]);
+    });
+  });
+});
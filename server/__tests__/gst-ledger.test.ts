@@ -0,0 +1,176 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  resolveStateCode,
+  splitGst,
+  parseReturnPeriod,
+  formatReturnPeriod,
+  gstReturnDueDates,
+  buildGstr1,
+  buildGstr3b,
+  summarizeGstRows,
+  type GstLedgerRow,
+} from '../services/gst-return-builder';
+
+const SUPPLIER_GSTIN = '29AABCD1234E1Z5';
+
+function row(overrides: Partial<GstLedgerRow>): GstLedgerRow {
+  return {
+    transactionType: 'gst_output',
+    documentNumber: 'INV-2024-000001',
+    documentDate: '2024-09-05',
+    documentValue: 11800,
+    counterpartyName: 'Acme Pvt Ltd',
+    counterpartyGstin: null,
+    placeOfSupply: '29',
+    supplyType: 'intra',
+    hsnCode: '998311',
+    taxRate: 18,
+    taxableValue: 10000,
+    cgst: 900,
+    sgst: 900,
+    igst: 0,
+    cess: 0,
+    reverseCharge: false,
+    itcEligible: true,
+    ...overrides,
+  };
+}
+
+describe('GST Ledger', () => {
+  describe('place of supply', () => {
+    it('resolves GSTINs, codes and state names to GST state codes', () => {
+      expect(resolveStateCode('27AAACR5055K1Z5')).toBe('27');
+      expect(resolveStateCode('7')).toBe('07');
+      expect(resolveStateCode('Karnataka')).toBe('29');
+      expect(resolveStateCode('tamil nadu')).toBe('33');
+      expect(resolveStateCode('Jammu & Kashmir')).toBe('01');
+      expect(resolveStateCode('Orissa')).toBe('21');
+      expect(resolveStateCode('Atlantis')).toBeNull();
+      expect(resolveStateCode(null)).toBeNull();
+    });
+
+    it('splits intra-state tax into CGST and SGST and inter-state tax into IGST', () => {
+      expect(splitGst(10000, 18, '29', '29')).toEqual({ supplyType: 'intra', cgst: 900, sgst: 900, igst: 0 });
+      expect(splitGst(10000, 18, '29', '27')).toEqual({ supplyType: 'inter', cgst: 0, sgst: 0, igst: 1800 });
+    });
+
+    it('rounds each half of intra-state tax to the paisa', () => {
+      const split = splitGst(333.33, 18, '29', '29');
+      expect(split.cgst).toBe(30);
+      expect(split.sgst).toBe(30);
+    });
+  });
+
+  describe('return periods', () => {
+    it('accepts MMYYYY and YYYY-MM', () => {
+      expect(parseReturnPeriod('092024')).toEqual({ year: 2024, month: 9 });
+      expect(parseReturnPeriod('2024-09')).toEqual({ year: 2024, month: 9 });
+      expect(formatReturnPeriod(2024, 9)).toBe('092024');
+      expect(() => parseReturnPeriod('132024')).toThrow();
+      expect(() => parseReturnPeriod('Sept')).toThrow();
+    });
+
+    it('computes monthly due dates across the year end', () => {
+      expect(gstReturnDueDates(2024, 9)).toEqual({ gstr1: '2024-10-11', gstr3b: '2024-10-20' });
+      expect(gstReturnDueDates(2024, 12)).toEqual({ gstr1: '2025-01-11', gstr3b: '2025-01-20' });
+    });
+  });
+
+  describe('GSTR-1', () => {
+    const rows: GstLedgerRow[] = [
+      // B2B invoice with two lines at the same rate
+      row({ documentNumber: 'INV-1', counterpartyGstin: '27AAACR5055K1Z5', placeOfSupply: '27', supplyType: 'inter', documentValue: 23600, cgst: 0, sgst: 0, igst: 1800 }),
+      row({ documentNumber: 'INV-1', counterpartyGstin: '27AAACR5055K1Z5', placeOfSupply: '27', supplyType: 'inter', documentValue: 23600, hsnCode: '998312', cgst: 0, sgst: 0, igst: 1800 }),
+      // Large inter-state B2C invoice
+      row({ documentNumber: 'INV-2', placeOfSupply: '33', supplyType: 'inter', documentValue: 236000, taxableValue: 200000, cgst: 0, sgst: 0, igst: 36000 }),
+      // Small B2C invoices, summarised
+      row({ documentNumber: 'INV-3' }),
+      row({ documentNumber: 'INV-4' }),
+      // Purchases never appear in GSTR-1
+      row({ documentNumber: 'BILL-1', transactionType: 'gst_input' }),
+    ];
+
+    const gstr1 = buildGstr1(rows, { gstin: SUPPLIER_GSTIN, period: '092024' });
+
+    it('groups B2B invoices by recipient with one item per rate', () => {
+      expect(gstr1.gstin).toBe(SUPPLIER_GSTIN);
+      expect(gstr1.fp).toBe('092024');
+      expect(gstr1.b2b).toHaveLength(1);
+      expect(gstr1.b2b[0].ctin).toBe('27AAACR5055K1Z5');
+      expect(gstr1.b2b[0].inv[0]).toMatchObject({
+        inum: 'INV-1',
+        idt: '05-09-2024',
+        val: 23600,
+        pos: '27',
+        rchrg: 'N',
+        inv_typ: 'R',
+      });
+      expect(gstr1.b2b[0].inv[0].itms).toEqual([
+        { num: 1, itm_det: { rt: 18, txval: 20000, iamt: 3600, camt: 0, samt: 0, csamt: 0 } },
+      ]);
+    });
+
+    it('reports large inter-state B2C invoices invoice-wise and summarises the rest', () => {
+      expect(gstr1.b2cl).toEqual([
+        {
+          pos: '33',
+          inv: [{ inum: 'INV-2', idt: '05-09-2024', val: 236000, itms: [{ num: 1, itm_det: { txval: 200000, rt: 18, iamt: 36000, csamt: 0 } }] }],
+        },
+      ]);
+      expect(gstr1.b2cs).toEqual([
+        { sply_ty: 'INTRA', pos: '29', typ: 'OE', rt: 18, txval: 20000, iamt: 0, camt: 1800, samt: 1800, csamt: 0 },
+      ]);
+    });
+
+    it('summarises outward supplies by HSN and rate', () => {
+      expect(gstr1.hsn.data.map((h) => [h.hsn_sc, h.txval])).toEqual([
+        ['998311', 230000],
+        ['998312', 10000],
+      ]);
+    });
+  });
+
+  describe('GSTR-3B', () => {
+    const rows: GstLedgerRow[] = [
+      row({ documentNumber: 'INV-1' }),
+      row({ documentNumber: 'INV-2', placeOfSupply: '27', supplyType: 'inter', cgst: 0, sgst: 0, igst: 1800 }),
+      row({ documentNumber: 'INV-3', taxRate: 0, taxableValue: 500, cgst: 0, sgst: 0 }),
+      row({ documentNumber: 'BILL-1', transactionType: 'gst_input', taxableValue: 5000, cgst: 450, sgst: 450 }),
+      row({ documentNumber: 'BILL-2', transactionType: 'gst_input', taxableValue: 2000, reverseCharge: true, cgst: 180, sgst: 180 }),
+      row({ documentNumber: 'BILL-3', transactionType: 'gst_input', taxableValue: 1000, itcEligible: false, cgst: 90, sgst: 90 }),
+    ];
+
+    const gstr3b = buildGstr3b(rows, { gstin: SUPPLIER_GSTIN, period: '092024' });
+
+    it('totals outward taxable, nil-rated and unregistered inter-state supplies', () => {
+      expect(gstr3b.ret_period).toBe('092024');
+      expect(gstr3b.sup_details.osup_det).toEqual({ txval: 20000, iamt: 1800, camt: 900, samt: 900, csamt: 0 });
+      expect(gstr3b.sup_details.osup_nil_exmp).toEqual({ txval: 500 });
+      expect(gstr3b.inter_sup.unreg_details).toEqual([{ pos: '27', txval: 10000, iamt: 1800 }]);
+    });
+
+    it('separates forward-charge, reverse-charge and ineligible credit', () => {
+      expect(gstr3b.sup_details.isup_rev).toEqual({ txval: 2000, iamt: 0, camt: 180, samt: 180, csamt: 0 });
+      const avl = Object.fromEntries(gstr3b.itc_elg.itc_avl.map((r) => [r.ty, r]));
+      expect(avl.OTH).toMatchObject({ camt: 450, samt: 450 });
+      expect(avl.ISRC).toMatchObject({ camt: 180, samt: 180 });
+      expect(gstr3b.itc_elg.itc_net).toEqual({ iamt: 0, camt: 630, samt: 630, csamt: 0 });
+      expect(gstr3b.itc_elg.itc_inelg[0]).toEqual({ ty: 'RUL', iamt: 0, camt: 90, samt: 90, csamt: 0 });
+    });
+
+    it('nets output tax against credit, paying reverse charge in cash', () => {
+      expect(summarizeGstRows(rows)).toEqual({
+        taxableOutward: 20500,
+        outputTax: 3600,
+        inputTaxCredit: 1260,
+        ineligibleCredit: 180,
+        reverseChargeTax: 360,
+        netPayable: 2700,
+        creditCarriedForward: 0,
+      });
+    });
+  });
+});
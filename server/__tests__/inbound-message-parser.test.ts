@@ -0,0 +1,131 @@
+import {
+  detectReplyIntent,
+  extractReferenceTokens,
+  normalizeAddress,
+  parseInboundPayload,
+  phoneMatchKey,
+  stripQuotedReply,
+} from '../services/inbound-message-parser';
+
+const now = new Date('2026-03-16T06:00:00Z');
+
+describe('Inbound payloads', () => {
+  it('reads the local stub format, single or batched', () => {
+    const [message] = parseInboundPayload('sms', {
+      from: '98765 43210',
+      text: '  Paid the invoice for SR00123  ',
+      messageId: 'stub-1',
+      attachments: [{ fileName: 'receipt.pdf', mimeType: 'application/pdf', contentBase64: 'JVBERi0=' }],
+    }, now);
+
+    expect(message).toMatchObject({
+      channel: 'sms',
+      externalId: 'stub-1',
+      from: '919876543210',
+      text: 'Paid the invoice for SR00123',
+      receivedAt: now,
+    });
+    expect(message.attachments[0]).toMatchObject({ fileName: 'receipt.pdf', mimeType: 'application/pdf', contentBase64: 'JVBERi0=' });
+
+    expect(parseInboundPayload('email', {
+      messages: [{ from: 'A <a@x.test>', text: 'one' }, { from: 'not-an-address', text: 'two' }],
+    }, now)).toHaveLength(1);
+  });
+
+  it('reads Meta WhatsApp messages with contact names, reply context and media', () => {
+    const messages = parseInboundPayload('whatsapp', {
+      object: 'whatsapp_business_account',
+      entry: [{
+        changes: [{
+          value: {
+            metadata: { display_phone_number: '911800000000' },
+            contacts: [{ wa_id: '919876543210', profile: { name: 'Ravi' } }],
+            messages: [
+              { id: 'wamid.1', from: '919876543210', type: 'text', text: { body: 'ok' }, context: { id: 'wamid.out' }, timestamp: '1773640800' },
+              { id: 'wamid.2', from: '919876543210', type: 'document', document: { id: 'media-9', filename: 'pan.pdf', mime_type: 'application/pdf', caption: 'PAN' } },
+            ],
+          },
+        }],
+      }],
+    }, now);
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toMatchObject({ fromName: 'Ravi', text: 'ok', replyToMessageId: 'wamid.out', to: '911800000000' });
+    expect(messages[0].receivedAt).toEqual(new Date(1773640800 * 1000));
+    expect(messages[1].text).toBe('PAN');
+    expect(messages[1].attachments[0]).toMatchObject({ fileName: 'pan.pdf', mediaId: 'media-9' });
+  });
+
+  it('reads Twilio form posts with media urls', () => {
+    const [message] = parseInboundPayload('whatsapp', {
+      MessageSid: 'SM1',
+      From: 'whatsapp:+919876543210',
+      Body: 'Uploaded',
+      NumMedia: '1',
+      MediaUrl0: 'https://api.twilio.com/media/1',
+      MediaContentType0: 'image/jpeg',
+    }, now);
+
+    expect(message).toMatchObject({ externalId: 'SM1', from: '919876543210', text: 'Uploaded' });
+    expect(message.attachments[0]).toMatchObject({ fileName: 'attachment-1.jpg', url: 'https://api.twilio.com/media/1' });
+  });
+
+  it('reads Postmark email with threading headers', () => {
+    const [message] = parseInboundPayload('email', {
+      MessageID: 'pm-1',
+      From: 'Ravi <Ravi@Acme.test>',
+      Subject: 'Re: Documents needed [SR00456]',
+      TextBody: 'Attached.\n\nOn Mon, 16 Mar 2026 DigiComply wrote:\n> Please send',
+      Headers: [
+        { Name: 'In-Reply-To', Value: '<out-1@digicomply.in>' },
+        { Name: 'References', Value: '<out-0@digicomply.in> <out-1@digicomply.in>' },
+      ],
+      Attachments: [{ Name: 'gst.pdf', ContentType: 'application/pdf', Content: 'JVBERi0=', ContentLength: 5 }],
+    }, now);
+
+    expect(message).toMatchObject({
+      from: 'ravi@acme.test',
+      text: 'Attached.',
+      replyToMessageId: 'out-1@digicomply.in',
+      references: ['out-0@digicomply.in', 'out-1@digicomply.in'],
+    });
+    expect(message.attachments[0]).toMatchObject({ fileName: 'gst.pdf', size: 5 });
+  });
+
+  it('ignores bodies without a message', () => {
+    expect(parseInboundPayload('whatsapp', { object: 'whatsapp_business_account', entry: [{ changes: [{ value: { statuses: [{}] } }] }] })).toEqual([]);
+    expect(parseInboundPayload('sms', null)).toEqual([]);
+  });
+});
+
+describe('Reply content', () => {
+  it('extracts request and ticket references', () => {
+    expect(extractReferenceTokens('Re: sr00123 and TKT20260001', 'also SR00123, T12345')).toEqual({
+      serviceRequestIds: ['SR00123'],
+      ticketNumbers: ['TKT20260001', 'T12345'],
+    });
+  });
+
+  it('detects common reply intents', () => {
+    expect(detectReplyIntent('STOP')).toBe('opt_out');
+    expect(detectReplyIntent('I have uploaded the documents')).toBe('documents_uploaded');
+    expect(detectReplyIntent('Payment done via NEFT')).toBe('payment_made');
+    expect(detectReplyIntent('Please call me tomorrow')).toBe('callback_requested');
+    expect(detectReplyIntent('Thanks!')).toBe('acknowledged');
+    expect(detectReplyIntent('Please don\'t stop the filing')).toBeNull();
+    expect(detectReplyIntent('', 2)).toBe('documents_uploaded');
+  });
+
+  it('drops quoted history from email replies', () => {
+    expect(stripQuotedReply('Sent today\r\n> earlier\r\n-----Original Message-----\r\nold')).toBe('Sent today');
+    expect(stripQuotedReply('Done\n\nFrom: DigiComply <ops@x.test>\nSent: Monday')).toBe('Done');
+  });
+
+  it('normalises sender addresses', () => {
+    expect(normalizeAddress('whatsapp', '+91 98765-43210')).toBe('919876543210');
+    expect(normalizeAddress('sms', '9876543210')).toBe('919876543210');
+    expect(normalizeAddress('email', 'bad address')).toBeNull();
+    expect(phoneMatchKey('+91 98765 43210')).toBe('9876543210');
+    expect(phoneMatchKey('1234')).toBeNull();
+  });
+});
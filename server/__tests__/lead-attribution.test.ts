@@ -0,0 +1,146 @@
+import {
+  DEFAULT_MODEL_SETTINGS,
+  agentShares,
+  attributionWeights,
+  computeSplits,
+  modelSettingsErrors,
+  sourceRoi,
+  touchpointKey,
+  type ModelSettings,
+  type Touchpoint,
+} from '../services/attribution-rules';
+
+const settings = (overrides: Partial<ModelSettings>): ModelSettings => ({ ...DEFAULT_MODEL_SETTINGS, ...overrides });
+
+const touch = (id: number, day: number, overrides: Partial<Touchpoint>): Touchpoint => ({
+  id,
+  touchType: 'agent',
+  occurredAt: new Date(Date.UTC(2025, 0, day)),
+  ...overrides,
+});
+
+const convertedAt = new Date(Date.UTC(2025, 1, 1));
+
+// A campaign click, then agent 7 picks the lead up, the proposal is opened, agent 9 closes
+const journey: Touchpoint[] = [
+  touch(4, 20, { agentId: 9 }),
+  touch(1, 2, { touchType: 'campaign', utmSource: 'Google', utmCampaign: 'gst-q1' }),
+  touch(2, 5, { agentId: 7 }),
+  touch(3, 12, { touchType: 'proposal_view', proposalId: 31 }),
+];
+
+describe('Attribution weights', () => {
+  it('gives all the credit to one end for first and last touch', () => {
+    expect(attributionWeights(settings({ model: 'first_touch' }), 3)).toEqual([1, 0, 0]);
+    expect(attributionWeights(settings({ model: 'last_touch' }), 3)).toEqual([0, 0, 1]);
+  });
+
+  it('shares equally under linear', () => {
+    expect(attributionWeights(settings({ model: 'linear' }), 4)).toEqual([0.25, 0.25, 0.25, 0.25]);
+  });
+
+  it('gives the ends their weights and the middle the rest under position based', () => {
+    expect(attributionWeights(settings({ model: 'position_based' }), 4).map(w => Math.round(w * 100) / 100))
+      .toEqual([0.4, 0.1, 0.1, 0.4]);
+    expect(attributionWeights(settings({ firstTouchWeight: 0.25, lastTouchWeight: 0.5 }), 2)).toEqual([1 / 3, 2 / 3]);
+    expect(attributionWeights(settings({}), 1)).toEqual([1]);
+  });
+
+  it('rejects weights that add up to more than the whole credit', () => {
+    expect(modelSettingsErrors(settings({ firstTouchWeight: 0.7, lastTouchWeight: 0.5 }))).toHaveLength(1);
+    expect(modelSettingsErrors({ model: 'w_shaped' as any })).toHaveLength(1);
+    expect(modelSettingsErrors(settings({ touchTypes: ['agent', 'billboard' as any] }))).toEqual(['Unknown touch types: billboard']);
+    expect(modelSettingsErrors(settings({ model: 'linear', lookbackDays: null }))).toEqual([]);
+  });
+});
+
+describe('Conversion splits', () => {
+  it('splits position based credit across the journey in time order', () => {
+    const splits = computeSplits(journey, 10000, convertedAt, settings({}), 'Website');
+
+    expect(splits.map(split => [split.touchpointId, split.source, split.weight, split.value])).toEqual([
+      [1, 'google', 0.4, 4000],
+      [2, 'agent', 0.1, 1000],
+      [3, 'proposal', 0.1, 1000],
+      [4, 'agent', 0.4, 4000],
+    ]);
+    expect(splits[0].campaign).toBe('gst-q1');
+  });
+
+  it('keeps weights and rupee values adding up to the whole after rounding', () => {
+    const splits = computeSplits(journey.slice(1), 1000, convertedAt, settings({ model: 'linear' }), null);
+
+    expect(splits.reduce((sum, split) => sum + split.weight, 0)).toBeCloseTo(1, 10);
+    expect(splits.reduce((sum, split) => sum + split.value, 0)).toBeCloseTo(1000, 10);
+    expect(splits.map(split => split.value)).toEqual([333.34, 333.33, 333.33]);
+  });
+
+  it('leaves out touches outside the lookback, after the conversion or of ignored types', () => {
+    const touches = [
+      touch(10, 1, { agentId: 3, occurredAt: new Date(Date.UTC(2024, 6, 1)) }),
+      touch(11, 10, { agentId: 7 }),
+      touch(12, 15, { touchType: 'proposal_view', proposalId: 2 }),
+      touch(13, 20, { agentId: 9, occurredAt: new Date(Date.UTC(2025, 1, 3)) }),
+    ];
+    const splits = computeSplits(touches, 500, convertedAt, settings({ model: 'linear', touchTypes: ['agent'] }), null);
+
+    expect(splits).toHaveLength(1);
+    expect(splits[0]).toMatchObject({ touchpointId: 11, agentId: 7, weight: 1, value: 500 });
+  });
+
+  it('credits the lead source in full when no touch qualifies', () => {
+    expect(computeSplits([], 2500, convertedAt, settings({}), 'Facebook Ads')).toEqual([{
+      touchpointId: null,
+      touchType: null,
+      source: 'facebook ads',
+      campaign: null,
+      agentId: null,
+      referrerId: null,
+      weight: 1,
+      value: 2500,
+    }]);
+  });
+});
+
+describe('Agent shares', () => {
+  it('totals each agent and ignores touches no agent earns', () => {
+    const splits = computeSplits(
+      [...journey, touch(5, 25, { agentId: 7 })],
+      9000,
+      convertedAt,
+      settings({ model: 'linear' }),
+      null,
+    );
+
+    expect(agentShares(splits)).toEqual([
+      { agentId: 7, weight: 0.4, value: 3600 },
+      { agentId: 9, weight: 0.2, value: 1800 },
+    ]);
+  });
+});
+
+describe('Source ROI', () => {
+  it('adds fractional conversions and revenue per source against its cost', () => {
+    const first = computeSplits(journey, 10000, convertedAt, settings({}), null);
+    const second = computeSplits([], 5000, convertedAt, settings({}), 'google');
+
+    const rows = sourceRoi([{ splits: first }, { splits: second }], { agent: 500, referral: 200 });
+
+    expect(rows).toEqual([
+      { source: 'google', conversions: 1.4, revenue: 9000, cost: 0, roi: null },
+      { source: 'agent', conversions: 0.5, revenue: 5000, cost: 500, roi: 9 },
+      { source: 'proposal', conversions: 0.1, revenue: 1000, cost: 0, roi: null },
+      { source: 'referral', conversions: 0, revenue: 0, cost: 200, roi: -1 },
+    ]);
+  });
+});
+
+describe('Touchpoint identity', () => {
+  it('treats a repeated proposal view or campaign click as the same touch', () => {
+    expect(touchpointKey({ touchType: 'proposal_view', proposalId: 31 }))
+      .toBe(touchpointKey({ touchType: 'proposal_view', proposalId: 31 }));
+    expect(touchpointKey({ touchType: 'campaign', utmSource: 'Google', utmCampaign: 'GST-Q1' }))
+      .toBe(touchpointKey({ touchType: 'campaign', utmSource: 'google', utmCampaign: 'gst-q1' }));
+    expect(touchpointKey({ touchType: 'agent', agentId: 7 })).not.toBe(touchpointKey({ touchType: 'agent', agentId: 9 }));
+  });
+});
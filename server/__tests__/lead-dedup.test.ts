@@ -0,0 +1,179 @@
+import {
+  classifyScore,
+  companyNameSimilarity,
+  corporateDomain,
+  findDuplicatePairs,
+  mergeLeadFields,
+  normalizeCompanyName,
+  normalizeEmail,
+  normalizePhone,
+  rankDuplicates,
+  scoreDuplicate,
+  type DedupLead,
+  type MergeableLead,
+} from '../services/lead-dedup-rules';
+
+const lead = (overrides: Partial<DedupLead>): DedupLead => ({
+  clientName: null,
+  contactEmail: null,
+  contactPhone: null,
+  ...overrides,
+});
+
+describe('Normalisation', () => {
+  it('reduces Indian phone formats to the subscriber number', () => {
+    expect(normalizePhone('+91 98765-43210')).toBe('9876543210');
+    expect(normalizePhone('09876543210')).toBe('9876543210');
+    expect(normalizePhone('98765')).toBeNull();
+  });
+
+  it('lowercases emails and folds Gmail variants together', () => {
+    expect(normalizeEmail(' Ravi@Acme.IN ')).toBe('ravi@acme.in');
+    expect(normalizeEmail('ravi.kumar+leads@googlemail.com')).toBe('ravikumar@gmail.com');
+    expect(normalizeEmail('not-an-email')).toBeNull();
+  });
+
+  it('only treats company domains as a signal', () => {
+    expect(corporateDomain('ravi@acme.in')).toBe('acme.in');
+    expect(corporateDomain('ravi@gmail.com')).toBeNull();
+  });
+
+  it('drops legal suffixes and punctuation from company names', () => {
+    expect(normalizeCompanyName('M/s. Acme Solutions Pvt. Ltd.')).toBe('acme solutions');
+    expect(normalizeCompanyName('Shah & Co LLP')).toBe('shah and');
+    expect(companyNameSimilarity('Acme Solutions Private Limited', 'ACME SOLUTIONS PVT LTD')).toBe(1);
+    expect(companyNameSimilarity('Acme Solutions', 'Acme Solution')).toBeGreaterThan(0.9);
+    expect(companyNameSimilarity('Acme Solutions', 'Zenith Traders')).toBeLessThan(0.3);
+  });
+});
+
+describe('Duplicate scoring', () => {
+  it('matches the same founder entered with different phone formats', () => {
+    const result = scoreDuplicate(
+      lead({ clientName: 'Acme Solutions Pvt Ltd', contactPhone: '+91 98765 43210' }),
+      lead({ clientName: 'Bright Ideas', contactPhone: '9876543210' }),
+    );
+
+    expect(result.score).toBe(0.9);
+    expect(result.reasons.map(reason => reason.signal)).toEqual(['phone']);
+    expect(classifyScore(result.score)).toBe('likely');
+  });
+
+  it('matches a PAN against the PAN inside a GSTIN', () => {
+    const result = scoreDuplicate(
+      lead({ clientName: 'Acme', pan: 'aaaca1234b' }),
+      lead({ clientName: 'Other', gstin: '27AAACA1234B1Z5' }),
+    );
+
+    expect(result.reasons[0]).toMatchObject({ signal: 'pan', detail: 'AAACA1234B' });
+    expect(classifyScore(result.score)).toBe('likely');
+  });
+
+  it('needs more than a similar name to call a duplicate likely', () => {
+    const nameOnly = scoreDuplicate(
+      lead({ clientName: 'Acme Solutions Pvt Ltd', contactEmail: 'a@gmail.com' }),
+      lead({ clientName: 'Acme Solutions LLP', contactEmail: 'b@yahoo.com' }),
+    );
+    const nameAndDomain = scoreDuplicate(
+      lead({ clientName: 'Acme Solutions Pvt Ltd', contactEmail: 'ravi@acme.in' }),
+      lead({ clientName: 'Acme Solutions', contactEmail: 'accounts@acme.in' }),
+    );
+
+    expect(classifyScore(nameOnly.score)).toBe('possible');
+    expect(nameAndDomain.reasons.map(reason => reason.signal)).toEqual(['email_domain', 'company_name']);
+    expect(classifyScore(nameAndDomain.score)).toBe('likely');
+  });
+
+  it('ranks candidates and leaves out unrelated leads and the lead itself', () => {
+    const candidate = lead({ id: 1, clientName: 'Acme Solutions', contactPhone: '9876543210' });
+    const ranked = rankDuplicates(candidate, [
+      { ...candidate },
+      lead({ id: 2, clientName: 'Acme Solution', contactPhone: '9876543210' }),
+      lead({ id: 3, clientName: 'Acme Solutions', contactPhone: '9000000000' }),
+      lead({ id: 4, clientName: 'Zenith Traders', contactPhone: '9111111111' }),
+    ]);
+
+    expect(ranked.map(match => match.lead.id)).toEqual([2, 3]);
+  });
+});
+
+describe('Duplicate scan', () => {
+  it('pairs leads that share a blocking key, lower id first', () => {
+    const pairs = findDuplicatePairs([
+      { id: 7, ...lead({ clientName: 'Acme Solutions', contactPhone: '9876543210' }) },
+      { id: 3, ...lead({ clientName: 'ACME Solutions Pvt Ltd', contactEmail: 'ravi@acme.in' }) },
+      { id: 5, ...lead({ clientName: 'Zenith Traders', contactPhone: '+919876543210' }) },
+      { id: 9, ...lead({ clientName: 'Unrelated Foods', contactPhone: '9111111111' }) },
+    ]);
+
+    expect(pairs.map(pair => [pair.leadId, pair.duplicateLeadId])).toEqual([[5, 7], [3, 7]]);
+  });
+});
+
+describe('Merging', () => {
+  const base: MergeableLead = {
+    id: 1,
+    leadId: 'L0001',
+    contactEmail: null,
+    directorName: null,
+    directorEmail: null,
+    directorPhone: null,
+    state: 'Maharashtra',
+    entityType: null,
+    pan: null,
+    gstin: null,
+    agentId: null,
+    assignedTo: 4,
+    requiredServices: ['gst_registration'],
+    estimatedValue: '20000.00',
+    lastContactDate: new Date('2025-01-10T00:00:00Z'),
+    nextFollowupDate: null,
+    notes: null,
+    interactionHistory: [{ date: '2025-01-05T00:00:00Z', type: 'created' }],
+  };
+  const duplicate: MergeableLead = {
+    ...base,
+    id: 2,
+    leadId: 'L0002',
+    contactEmail: 'ravi@acme.in',
+    state: 'Karnataka',
+    pan: 'AAACA1234B',
+    agentId: 11,
+    assignedTo: 6,
+    requiredServices: ['gst_registration', 'incorporation'],
+    estimatedValue: '50000.00',
+    lastContactDate: new Date('2025-01-20T00:00:00Z'),
+    nextFollowupDate: new Date('2025-02-05T00:00:00Z'),
+    notes: 'Wants a callback',
+    interactionHistory: [{ date: '2025-01-02T00:00:00Z', type: 'imported' }],
+  };
+  const mergedAt = new Date('2025-02-01T00:00:00Z');
+
+  it('fills empty survivor fields without overwriting what it has', () => {
+    const { updates, fieldsTaken } = mergeLeadFields(base, duplicate, mergedAt);
+
+    expect(updates).toMatchObject({
+      contactEmail: 'ravi@acme.in',
+      pan: 'AAACA1234B',
+      agentId: 11,
+      requiredServices: ['gst_registration', 'incorporation'],
+      estimatedValue: '50000.00',
+      lastContactDate: duplicate.lastContactDate,
+      nextFollowupDate: duplicate.nextFollowupDate,
+      notes: '[From L0002] Wants a callback',
+    });
+    expect(updates).not.toHaveProperty('state');
+    expect(updates).not.toHaveProperty('assignedTo');
+    expect(fieldsTaken).toContain('agentId');
+  });
+
+  it('interleaves interaction history by date and records the merge', () => {
+    const { updates } = mergeLeadFields(base, duplicate, mergedAt);
+
+    expect(updates.interactionHistory).toEqual([
+      { date: '2025-01-02T00:00:00Z', type: 'imported', mergedFrom: 'L0002' },
+      { date: '2025-01-05T00:00:00Z', type: 'created' },
+      { date: mergedAt.toISOString(), type: 'merged', notes: 'Merged duplicate lead L0002' },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  validateJournalLines,
+  buildTrialBalance,
+  buildProfitAndLoss,
+  buildBalanceSheet,
+  DEFAULT_CHART_OF_ACCOUNTS,
+  LEDGER_ACCOUNTS,
+  type AccountTotalsRow,
+} from '../services/ledger-service';
+
+const row = (accountCode: string, accountType: string, debit: number, credit: number): AccountTotalsRow => ({
+  accountId: parseInt(accountCode),
+  accountCode,
+  accountName: accountCode,
+  accountType,
+  debit,
+  credit,
+});
+
+describe('Ledger Service', () => {
+  describe('validateJournalLines', () => {
+    it('accepts a balanced entry and returns totals', () => {
+      const totals = validateJournalLines([
+        { accountCode: '1100', debit: 1180 },
+        { accountCode: '4100', credit: 1000 },
+        { accountCode: '2210', credit: 90 },
+        { accountCode: '2220', credit: 90 },
+      ]);
+      expect(totals).toEqual({ totalDebit: 1180, totalCredit: 1180 });
+    });
+
+    it('does not drift on fractional rupee amounts', () => {
+      expect(() => validateJournalLines([
+        { accountCode: '1100', debit: 0.3 },
+        { accountCode: '4100', credit: 0.1 },
+        { accountCode: '4200', credit: 0.2 },
+      ])).not.toThrow();
+    });
+
+    it('rejects unbalanced entries', () => {
+      expect(() => validateJournalLines([
+        { accountCode: '1100', debit: 100 },
+        { accountCode: '4100', credit: 90 },
+      ])).toThrow('Total debits must equal total credits');
+    });
+
+    it('rejects a line carrying both sides, negative or zero amounts', () => {
+      expect(() => validateJournalLines([
+        { accountCode: '1100', debit: 100, credit: 100 },
+        { accountCode: '4100', credit: 0.01 },
+      ])).toThrow('both a debit and a credit');
+      expect(() => validateJournalLines([
+        { accountCode: '1100', debit: -100 },
+        { accountCode: '4100', credit: -100 },
+      ])).toThrow('cannot be negative');
+      expect(() => validateJournalLines([
+        { accountCode: '1100', debit: 0 },
+        { accountCode: '4100', credit: 0 },
+      ])).toThrow('debit or credit amount is required');
+    });
+
+    it('requires at least two lines', () => {
+      expect(() => validateJournalLines([{ accountCode: '1100', debit: 100 }])).toThrow('at least two lines');
+    });
+
+    it('balances foreign currency lines in base currency', () => {
+      expect(() => validateJournalLines([
+        { accountCode: '1100', debit: 100, currency: 'USD', exchangeRate: 83.25 },
+        { accountCode: '4100', credit: 8325 },
+      ])).not.toThrow();
+    });
+  });
+
+  describe('financial statements', () => {
+    const rows = [
+      row(LEDGER_ACCOUNTS.GATEWAY_CLEARING, 'asset', 1180, 0),
+      row(LEDGER_ACCOUNTS.SUNDRY_DEBTORS, 'asset', 1180, 1180),
+      row(LEDGER_ACCOUNTS.OUTPUT_CGST, 'liability', 0, 90),
+      row(LEDGER_ACCOUNTS.OUTPUT_SGST, 'liability', 0, 90),
+      row(LEDGER_ACCOUNTS.COMMISSION_PAYABLE, 'liability', 0, 100),
+      row(LEDGER_ACCOUNTS.PROFESSIONAL_FEES, 'revenue', 0, 1000),
+      row(LEDGER_ACCOUNTS.COMMISSION_EXPENSE, 'expense', 100, 0),
+    ];
+
+    it('builds a balanced trial balance from closing balances', () => {
+      const tb = buildTrialBalance(rows);
+      expect(tb.totalDebit).toBe(1280);
+      expect(tb.totalCredit).toBe(1280);
+      expect(tb.isBalanced).toBe(true);
+      const debtors = tb.accounts.find((a) => a.accountCode === LEDGER_ACCOUNTS.SUNDRY_DEBTORS)!;
+      expect(debtors.closingDebit).toBe(0);
+      expect(debtors.closingCredit).toBe(0);
+    });
+
+    it('computes net profit from revenue and expense accounts', () => {
+      const pnl = buildProfitAndLoss(rows);
+      expect(pnl.totalRevenue).toBe(1000);
+      expect(pnl.totalExpenses).toBe(100);
+      expect(pnl.netProfit).toBe(900);
+    });
+
+    it('carries unclosed earnings into equity so the balance sheet balances', () => {
+      const bs = buildBalanceSheet(rows);
+      expect(bs.totalAssets).toBe(1180);
+      expect(bs.totalLiabilities).toBe(280);
+      expect(bs.currentPeriodEarnings).toBe(900);
+      expect(bs.totalEquity).toBe(900);
+      expect(bs.isBalanced).toBe(true);
+      // Zero-balance accounts are omitted from statements
+      expect(bs.assets.map((a) => a.accountCode)).toEqual([LEDGER_ACCOUNTS.GATEWAY_CLEARING]);
+    });
+  });
+
+  describe('default chart of accounts', () => {
+    it('has unique codes and lists parents before children', () => {
+      const seen = new Set<string>();
+      for (const account of DEFAULT_CHART_OF_ACCOUNTS) {
+        expect(seen.has(account.code)).toBe(false);
+        if (account.parentCode) expect(seen.has(account.parentCode)).toBe(true);
+        seen.add(account.code);
+      }
+    });
+
+    it('includes every account used for automatic postings', () => {
+      const codes = new Set(DEFAULT_CHART_OF_ACCOUNTS.map((a) => a.code));
+      for (const code of Object.values(LEDGER_ACCOUNTS)) {
+        expect(codes.has(code)).toBe(true);
+      }
+    });
+  });
+});
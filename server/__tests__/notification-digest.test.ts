@@ -0,0 +1,113 @@
+import {
+  buildDigest,
+  deepLink,
+  digestSubject,
+  renderDigestHtml,
+  renderDigestText,
+  summarize,
+  type DigestItem,
+} from '../services/notifications/digest-builder';
+
+let nextId = 1;
+const item = (overrides: Partial<DigestItem> = {}): DigestItem => ({
+  deliveryId: nextId++,
+  notificationType: 'compliance.reminder',
+  priority: 'normal',
+  frequency: 'daily',
+  subject: 'GSTR-3B due',
+  body: null,
+  businessEntityId: 1,
+  referenceType: null,
+  referenceId: null,
+  createdAt: new Date('2026-03-16T04:00:00Z'),
+  ...overrides,
+});
+
+const entityNames = { 1: 'Acme Traders', 2: 'Zenith Foods' };
+
+describe('Digest grouping', () => {
+  it('groups by business, most urgent first, with general items last', () => {
+    const digest = buildDigest([
+      item({ businessEntityId: null, subject: 'Password changed' }),
+      item({ subject: 'TDS due', priority: 'low' }),
+      item({ businessEntityId: 2, subject: 'FSSAI renewal', priority: 'high' }),
+      item({ subject: 'GSTR-1 due', createdAt: new Date('2026-03-16T05:00:00Z') }),
+      item({ subject: 'GSTR-3B due' }),
+      item({ businessEntityId: 3, subject: 'ROC filing' }),
+    ], { entityNames });
+
+    expect(digest.groups.map(g => g.entityName)).toEqual([
+      'Zenith Foods', 'Acme Traders', 'Business #3', 'General',
+    ]);
+    expect(digest.groups[1].entries.map(e => e.title)).toEqual(['GSTR-3B due', 'GSTR-1 due', 'TDS due']);
+    expect(digest.groups[1].counts).toEqual({ urgent: 0, high: 0, normal: 2, low: 1 });
+    expect(digest.counts).toEqual({ urgent: 0, high: 1, normal: 4, low: 1 });
+    expect(digest.total).toBe(6);
+  });
+
+  it('is labelled with the widest frequency it covers', () => {
+    expect(buildDigest([item({ frequency: 'hourly' })]).frequency).toBe('hourly');
+    expect(buildDigest([item({ frequency: 'weekly' }), item({ frequency: 'daily' })]).frequency).toBe('weekly');
+  });
+
+  it('falls back to the notification type and drops summaries that repeat the title', () => {
+    const [entry] = buildDigest([item({ subject: null, notificationType: 'document.request', body: 'Document request' })])
+      .groups[0].entries;
+    expect(entry.title).toBe('Document request');
+    expect(entry.summary).toBeNull();
+  });
+});
+
+describe('Deep links', () => {
+  const base = 'https://app.digicomply.in/';
+
+  it('prefers the link the notification carried', () => {
+    expect(deepLink({ link: 'https://x.test/a', referenceType: 'service_request', referenceId: 4 }, base)).toBe('https://x.test/a');
+    expect(deepLink({ link: '/service-request/9', referenceType: null, referenceId: null }, base))
+      .toBe('https://app.digicomply.in/service-request/9');
+  });
+
+  it('derives the portal page from the reference', () => {
+    expect(deepLink({ referenceType: 'service_request', referenceId: 4 }, base)).toBe('https://app.digicomply.in/service-request/4');
+    expect(deepLink({ referenceType: 'compliance_tracking', referenceId: 4 }, base)).toBe('https://app.digicomply.in/compliance-calendar');
+    expect(deepLink({ referenceType: 'document_request', referenceId: 4 }, base)).toBe('https://app.digicomply.in/documents');
+    expect(deepLink({ referenceType: null, referenceId: null })).toBe('/notifications');
+  });
+});
+
+describe('Rendering', () => {
+  const digest = buildDigest([
+    item({ subject: 'FSSAI <renewal>', priority: 'high', businessEntityId: 2, referenceType: 'service_request', referenceId: 7 }),
+    item({ subject: 'GSTR-1 due', body: '<p>Filing for <b>March</b></p>' }),
+  ], { entityNames, baseUrl: 'https://app.digicomply.in' });
+
+  it('summarises across businesses in the subject', () => {
+    expect(digestSubject(digest)).toBe('Daily digest: 2 updates across 2 businesses');
+    expect(digestSubject(buildDigest([item({ frequency: 'weekly' })]))).toBe('Weekly digest: 1 update');
+  });
+
+  it('escapes content in the email body and links each item', () => {
+    const html = renderDigestHtml(digest);
+    expect(html).toContain('FSSAI &lt;renewal&gt;');
+    expect(html).toContain('[High priority]');
+    expect(html).toContain('href="https://app.digicomply.in/service-request/7"');
+    expect(html).toContain('Filing for March');
+  });
+
+  it('renders a WhatsApp text summary', () => {
+    expect(renderDigestText(digest)).toBe([
+      'Your daily DigiComply summary: 2 updates',
+      '',
+      '*Zenith Foods* (1)',
+      '• [High] FSSAI <renewal> - https://app.digicomply.in/service-request/7',
+      '',
+      '*Acme Traders* (1)',
+      '• GSTR-1 due - https://app.digicomply.in/notifications',
+    ].join('\n'));
+  });
+
+  it('truncates long bodies at a word boundary', () => {
+    expect(summarize('one two three four', 12)).toBe('one two…');
+    expect(summarize('<div>short</div>')).toBe('short');
+  });
+});
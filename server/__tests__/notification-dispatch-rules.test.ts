@@ -0,0 +1,177 @@
+import {
+  applyReceiptEvent,
+  dedupeBucket,
+  dispatchIdempotencyKey,
+  isWithinQuietHours,
+  nextFrequencyWindow,
+  normalizeChannel,
+  normalizeReceiptStatus,
+  planChannels,
+  quietHoursEnd,
+  renderTemplate,
+  selectTemplate,
+  templateVariables,
+  type ChannelPreference,
+  type TemplateCandidate,
+} from '../services/notifications/dispatch-rules';
+
+// Monday 16 March 2026; IST is UTC+05:30
+const ist = (day: number, hour: number, minute = 0) =>
+  new Date(Date.UTC(2026, 2, day, hour, minute) - 330 * 60 * 1000);
+
+const preference = (overrides: Partial<ChannelPreference> = {}): ChannelPreference => ({
+  emailEnabled: true,
+  smsEnabled: false,
+  whatsappEnabled: true,
+  pushEnabled: false,
+  inAppEnabled: true,
+  frequency: 'immediate',
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00:00',
+  quietHoursTimezone: 'Asia/Kolkata',
+  ...overrides,
+});
+
+describe('Channel planning', () => {
+  const channels = ['email', 'sms', 'in_app', 'whatsapp'] as const;
+
+  it('suppresses opt-outs and holds external channels through quiet hours', () => {
+    expect(planChannels([...channels], preference(), 'normal', ist(16, 23))).toEqual([
+      { channel: 'email', action: 'defer', until: ist(17, 7), reason: 'quiet_hours' },
+      { channel: 'sms', action: 'suppress', reason: 'opted_out' },
+      { channel: 'in_app', action: 'send' },
+      { channel: 'whatsapp', action: 'defer', until: ist(17, 7), reason: 'quiet_hours' },
+    ]);
+    expect(planChannels(['email', 'email'], preference(), 'normal', ist(16, 12))).toEqual([
+      { channel: 'email', action: 'send' },
+    ]);
+  });
+
+  it('batches by frequency unless the notification is high priority', () => {
+    const daily = preference({ frequency: 'daily' });
+    expect(planChannels(['email'], daily, 'normal', ist(16, 23))).toEqual([
+      { channel: 'email', action: 'defer', until: ist(17, 9), reason: 'frequency' },
+    ]);
+    expect(planChannels(['email'], daily, 'high', ist(16, 23))).toEqual([
+      { channel: 'email', action: 'defer', until: ist(17, 7), reason: 'quiet_hours' },
+    ]);
+    expect(planChannels(['email'], daily, 'high', ist(16, 12))).toEqual([{ channel: 'email', action: 'send' }]);
+  });
+
+  it('sends urgent notifications and preference-less recipients everywhere', () => {
+    const optedOut = preference({ emailEnabled: false, smsEnabled: false, frequency: 'weekly' });
+    expect(planChannels(['email', 'sms'], optedOut, 'urgent', ist(16, 23))).toEqual([
+      { channel: 'email', action: 'send' },
+      { channel: 'sms', action: 'send' },
+    ]);
+    expect(planChannels(['email', 'sms'], null, 'low', ist(16, 23))).toEqual([
+      { channel: 'email', action: 'send' },
+      { channel: 'sms', action: 'send' },
+    ]);
+  });
+
+  it('reads channel names from the older notification paths', () => {
+    expect(['EMAIL', 'WHATSAPP', 'INAPP', 'in-app', 'Push', 'fax', 42].map(normalizeChannel)).toEqual([
+      'email', 'whatsapp', 'in_app', 'in_app', 'push', null, null,
+    ]);
+  });
+});
+
+describe('Quiet hours and batch windows', () => {
+  it('wraps overnight quiet hours in the recipient time zone', () => {
+    expect(quietHoursEnd(ist(17, 6, 30), '22:00', '07:00')).toEqual(ist(17, 7));
+    expect(quietHoursEnd(ist(16, 12), '22:00', '07:00')).toBeNull();
+    expect(isWithinQuietHours(ist(16, 13), '12:00', '14:00')).toBe(true);
+    expect(isWithinQuietHours(ist(16, 14), '12:00', '14:00')).toBe(false);
+    // 23:00 IST is 21:30 in Dubai, before its quiet hours start
+    expect(isWithinQuietHours(ist(16, 23), '22:00', '07:00', 'Asia/Dubai')).toBe(false);
+    expect(quietHoursEnd(ist(16, 23), null, '07:00')).toBeNull();
+  });
+
+  it('releases hourly, daily and weekly batches at local boundaries', () => {
+    expect(nextFrequencyWindow(ist(16, 12, 20), 'hourly')).toEqual(ist(16, 13));
+    expect(nextFrequencyWindow(ist(16, 8), 'daily')).toEqual(ist(16, 9));
+    expect(nextFrequencyWindow(ist(16, 9), 'daily')).toEqual(ist(17, 9));
+    expect(nextFrequencyWindow(ist(16, 8), 'weekly')).toEqual(ist(16, 9));
+    expect(nextFrequencyWindow(ist(16, 10), 'weekly')).toEqual(ist(23, 9));
+    expect(nextFrequencyWindow(ist(18, 12), 'weekly')).toEqual(ist(23, 9));
+    expect(nextFrequencyWindow(ist(18, 12), 'immediate')).toBeNull();
+  });
+});
+
+describe('Templates', () => {
+  const candidate = (version: number, channel: string, language: string, isActive: boolean | null = true): TemplateCandidate => ({
+    templateKey: 'doc_reminder',
+    version,
+    channel,
+    language,
+    subject: `v${version} ${language}`,
+    body: 'Hi {{userName}}',
+    isActive,
+  });
+  const candidates = [
+    candidate(0, 'EMAIL', 'en'),
+    candidate(2, 'email', 'en'),
+    candidate(3, 'email', 'en', false),
+    candidate(1, 'email', 'hi'),
+    candidate(1, 'sms', 'en'),
+  ];
+
+  it('picks the latest active version, falling back by language', () => {
+    const pick = (channel: 'email' | 'sms' | 'whatsapp', language?: string) =>
+      selectTemplate(candidates, { templateKey: 'doc_reminder', channel, language })?.subject ?? null;
+
+    expect(pick('email')).toBe('v2 en');
+    expect(pick('email', 'hi-IN')).toBe('v1 hi');
+    expect(pick('sms', 'ta')).toBe('v1 en');
+    expect(pick('whatsapp')).toBeNull();
+    expect(selectTemplate(candidates, { templateKey: 'other', channel: 'email' })).toBeNull();
+  });
+
+  it('renders nested variables and leaves unknown ones visible', () => {
+    const template = 'Dear {{ client.name }}, {{count}} filings due by {{dueDate}}';
+    expect(renderTemplate(template, { client: { name: 'Acme' }, count: 0 })).toBe(
+      'Dear Acme, 0 filings due by {{dueDate}}'
+    );
+    expect(templateVariables(`${template} {{count}}`)).toEqual(['client.name', 'count', 'dueDate']);
+  });
+});
+
+describe('Idempotency keys', () => {
+  const parts = {
+    type: 'compliance:reminder',
+    referenceType: 'service_request',
+    referenceId: 12,
+    recipients: ['user-4', 'user-9'],
+    content: 'GST due',
+    bucket: dedupeBucket(ist(16, 10, 5), 60),
+  };
+
+  it('is stable inside a dedupe window and safe as a queue job id', () => {
+    const key = dispatchIdempotencyKey(parts);
+    expect(key).toMatch(/^ntf-compliance_reminder-[0-9a-f]{32}$/);
+    expect(dispatchIdempotencyKey({ ...parts, recipients: ['user-9', 'user-4'] })).toBe(key);
+    expect(dispatchIdempotencyKey({ ...parts, bucket: dedupeBucket(ist(16, 10, 25), 60) })).toBe(key);
+    expect(dispatchIdempotencyKey({ ...parts, bucket: dedupeBucket(ist(16, 11, 35), 60) })).not.toBe(key);
+    expect(dispatchIdempotencyKey({ ...parts, content: 'TDS due' })).not.toBe(key);
+  });
+});
+
+describe('Delivery receipts', () => {
+  it('only moves deliveries forward', () => {
+    expect(applyReceiptEvent('sent', 'delivered')).toBe('delivered');
+    expect(applyReceiptEvent('delivered', 'read')).toBe('read');
+    expect(applyReceiptEvent('sent', 'read')).toBe('read');
+    expect(applyReceiptEvent('read', 'delivered')).toBeNull();
+    expect(applyReceiptEvent('sent', 'bounced')).toBe('bounced');
+    expect(applyReceiptEvent('delivered', 'bounced')).toBeNull();
+    expect(applyReceiptEvent('bounced', 'delivered')).toBeNull();
+    expect(applyReceiptEvent('suppressed', 'sent')).toBeNull();
+  });
+
+  it('maps provider status names', () => {
+    expect(['delivered', 'undelivered', 'READ', 'open', 'dropped', 'failed', 'queued', null].map(normalizeReceiptStatus)).toEqual([
+      'delivered', 'bounced', 'read', 'read', 'bounced', 'failed', null, null,
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  branchHolds,
+  nextStepKey,
+  renderTemplate,
+  segmentFilters,
+  stepErrors,
+  stepMetrics,
+  stopReason,
+  type NurtureStep,
+  type StepEventRecord,
+} from '../services/nurture-rules';
+
+const sequence: NurtureStep[] = [
+  { key: 'intro', type: 'email', subject: 'Hi {{firstName}}', body: 'About {{service}}' },
+  { key: 'pause', type: 'wait', days: 3 },
+  { key: 'viewed', type: 'branch', condition: 'proposal_viewed', then: 'call', else: 'nudge' },
+  { key: 'nudge', type: 'whatsapp', message: 'Did you see our proposal?', next: 'end' },
+  { key: 'call', type: 'task', title: 'Call {{name}}', dueInDays: 1 },
+];
+
+describe('Nurture step validation', () => {
+  it('accepts a well-formed sequence', () => {
+    expect(stepErrors(sequence)).toEqual([]);
+  });
+
+  it('reports missing fields, bad types and repeated keys', () => {
+    expect(stepErrors([
+      { key: 'a', type: 'email', subject: 'Only a subject' },
+      { key: 'a', type: 'wait', days: 0 },
+      { key: 'c', type: 'sms' },
+    ])).toEqual([
+      'step 1 needs a subject and body, or an aiObjective',
+      'step 2 repeats key a',
+      'step 2 days must be more than 0 and at most 365',
+      'step 3 type must be one of: email, whatsapp, task, wait, branch',
+    ]);
+    expect(stepErrors([])).toEqual(['steps must be a non-empty list']);
+  });
+
+  it('rejects references to unknown steps', () => {
+    expect(stepErrors([
+      { key: 'check', type: 'branch', condition: 'reply_received', then: 'thanks', else: 'end' },
+    ])).toEqual(['step check points to unknown step thanks']);
+  });
+
+  it('allows loops only through a wait', () => {
+    const loop: NurtureStep[] = [
+      { key: 'ping', type: 'email', aiObjective: 're_engage' },
+      { key: 'replied', type: 'branch', condition: 'reply_received', then: 'end', else: 'ping' },
+    ];
+    expect(stepErrors(loop)).toEqual(['steps ping -> replied -> ping loop without a wait']);
+
+    const paced: NurtureStep[] = [
+      { key: 'ping', type: 'email', aiObjective: 're_engage' },
+      { key: 'pause', type: 'wait', days: 7 },
+      { key: 'replied', type: 'branch', condition: 'reply_received', then: 'end', else: 'ping' },
+    ];
+    expect(stepErrors(paced)).toEqual([]);
+  });
+});
+
+describe('Segments and stop conditions', () => {
+  it('turns a segment into lower-cased filters, with stages matching stage or status', () => {
+    expect(segmentFilters({ sources: [' Website ', 'website'], states: [], stages: ['Hot Lead'], minValue: 50000 })).toEqual({
+      lists: [
+        { fields: ['leadSource'], values: ['website'] },
+        { fields: ['leadStage', 'status'], values: ['hot lead'] },
+      ],
+      minValue: 50000,
+    });
+    expect(segmentFilters(null)).toEqual({ lists: [], minValue: null });
+  });
+
+  it('stops converted leads first, then opted-out and merged ones', () => {
+    const now = new Date();
+
+    expect(stopReason({ status: 'converted', nurtureOptedOutAt: now })).toBe('converted');
+    expect(stopReason({ convertedAt: now })).toBe('converted');
+    expect(stopReason({ status: 'contacted', nurtureOptedOutAt: now })).toBe('unsubscribed');
+    expect(stopReason({ mergedIntoId: 12 })).toBe('stopped');
+    expect(stopReason({ status: 'qualified' })).toBeNull();
+  });
+});
+
+describe('Running steps', () => {
+  it('follows steps in order, honouring next and branch targets', () => {
+    const [intro, pause, viewed, nudge, call] = sequence;
+
+    expect(nextStepKey(sequence, intro)).toBe('pause');
+    expect(nextStepKey(sequence, pause)).toBe('viewed');
+    expect(nextStepKey(sequence, viewed, true)).toBe('call');
+    expect(nextStepKey(sequence, viewed, false)).toBe('nudge');
+    expect(nextStepKey(sequence, nudge)).toBeNull();
+    expect(nextStepKey(sequence, call)).toBeNull();
+  });
+
+  it('evaluates branch conditions against signals and stage', () => {
+    const facts = { signals: {}, stageAtEnrollment: 'contacted', currentStage: 'contacted' };
+
+    expect(branchHolds({ key: 'b', type: 'branch', condition: 'proposal_viewed', then: 'end', else: 'end' }, facts)).toBe(false);
+    expect(branchHolds(
+      { key: 'b', type: 'branch', condition: 'reply_received', then: 'end', else: 'end' },
+      { ...facts, signals: { repliedAt: '2026-10-01T10:00:00Z' } }
+    )).toBe(true);
+    expect(branchHolds(
+      { key: 'b', type: 'branch', condition: 'stage_changed', then: 'end', else: 'end' },
+      { ...facts, currentStage: 'qualified' }
+    )).toBe(true);
+    expect(branchHolds(
+      { key: 'b', type: 'branch', condition: 'stage_changed', stage: 'Proposal', then: 'end', else: 'end' },
+      { ...facts, currentStage: 'qualified' }
+    )).toBe(false);
+  });
+
+  it('fills placeholders, leaving unknown ones empty', () => {
+    expect(renderTemplate('Hi {{ firstName }}, re {{service}}{{missing}}', { firstName: 'Asha', service: 'GST' }))
+      .toBe('Hi Asha, re GST');
+  });
+});
+
+describe('Step metrics', () => {
+  it('counts reach, delivery, branches and conversions per step', () => {
+    const at = (minute: number) => new Date(2026, 9, 1, 10, minute);
+    const event = (enrollmentId: number, stepKey: string, outcome: StepEventRecord['outcome'], minute: number) =>
+      ({ enrollmentId, stepKey, outcome, occurredAt: at(minute) });
+
+    const metrics = stepMetrics(sequence, [
+      event(1, 'intro', 'sent', 0), event(1, 'pause', 'waited', 1), event(1, 'viewed', 'branch_then', 2), event(1, 'call', 'task_created', 3),
+      event(2, 'intro', 'sent', 0), event(2, 'pause', 'waited', 1), event(2, 'viewed', 'branch_else', 2), event(2, 'nudge', 'failed', 3),
+      event(3, 'intro', 'skipped', 0), event(3, 'pause', 'waited', 1),
+    ], [
+      { id: 1, status: 'converted' },
+      { id: 2, status: 'completed' },
+      { id: 3, status: 'converted' },
+    ]);
+    const byKey = Object.fromEntries(metrics.map(m => [m.key, m]));
+
+    expect(byKey.intro).toMatchObject({ reached: 3, sent: 2, skipped: 1, converted: 2, conversionRate: 66.7, lastTouchConversions: 1 });
+    expect(byKey.viewed).toMatchObject({ reached: 2, branchThen: 1, branchElse: 1, converted: 1, conversionRate: 50 });
+    expect(byKey.nudge).toMatchObject({ reached: 1, failed: 1, converted: 0, conversionRate: 0 });
+    expect(byKey.call).toMatchObject({ reached: 1, sent: 1, conversionRate: 100, lastTouchConversions: 1 });
+  });
+});
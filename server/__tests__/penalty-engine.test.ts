@@ -0,0 +1,244 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  assessPenalty,
+  calculateInterest234B,
+  calculateInterest234C,
+  monthsOrPart,
+  termsFromPenaltyDefinition,
+  termsFromPenaltyRule,
+} from '../services/penalty-engine';
+import type { PenaltyRuleTerms } from '@shared/compliance-state-types';
+
+const GSTR3B_LATE_FEE: PenaltyRuleTerms = {
+  code: 'GST_LATE_FEE_3B',
+  name: 'GSTR-3B Late Fee',
+  component: 'LATE_FEE',
+  penaltyType: 'DAILY',
+  dailyAmount: 50,
+  maxPenalty: 10000,
+};
+
+const GST_INTEREST: PenaltyRuleTerms = {
+  code: 'GST_INTEREST',
+  name: 'GST Interest',
+  component: 'INTEREST',
+  penaltyType: 'INTEREST',
+  interestMethod: 'DAILY',
+  interestRateAnnual: 18,
+};
+
+function masterRow(overrides: Record<string, unknown>) {
+  return {
+    code: 'RULE',
+    name: 'Rule',
+    category: 'GST',
+    penaltyType: 'DAILY',
+    flatAmount: null,
+    dailyAmount: null,
+    interestRateAnnual: null,
+    compoundingFrequency: null,
+    slabs: null,
+    maxPenalty: null,
+    maxPenaltyDays: null,
+    minPenalty: null,
+    conditions: null,
+    legalSection: null,
+    ...overrides,
+  } as any;
+}
+
+describe('Penalty engine', () => {
+  describe('late fees and interest', () => {
+    it('caps per-day late fees and charges 18% p.a. on known tax', () => {
+      const assessment = assessPenalty([GSTR3B_LATE_FEE, GST_INTEREST], {
+        dueDate: new Date(2024, 4, 20),
+        filedOn: new Date(2024, 6, 19),
+        taxLiability: 100000,
+      });
+
+      expect(assessment.daysLate).toBe(60);
+      expect(assessment.lateFee).toBe(3000);
+      expect(assessment.interest).toBe(2958.9);
+      expect(assessment.total).toBe(5958.9);
+
+      const capped = assessPenalty([GSTR3B_LATE_FEE], {
+        dueDate: new Date(2024, 4, 20),
+        filedOn: new Date(2025, 4, 20),
+      });
+      expect(capped.lateFee).toBe(10000);
+      expect(capped.components[0].basis).toContain('capped');
+    });
+
+    it('skips interest and notes it when the tax liability is unknown', () => {
+      const assessment = assessPenalty([GSTR3B_LATE_FEE, GST_INTEREST], {
+        dueDate: new Date(2024, 4, 20),
+        filedOn: new Date(2024, 4, 30),
+      });
+
+      expect(assessment.components.map((line) => line.code)).toEqual(['GST_LATE_FEE_3B']);
+      expect(assessment.notes[0]).toContain('tax liability not known');
+    });
+
+    it('charges nothing when filed on time', () => {
+      const assessment = assessPenalty([GSTR3B_LATE_FEE, GST_INTEREST], {
+        dueDate: new Date(2024, 4, 20),
+        filedOn: new Date(2024, 4, 20),
+        taxLiability: 100000,
+      });
+      expect(assessment.total).toBe(0);
+      expect(assessment.components).toHaveLength(0);
+    });
+  });
+
+  describe('slabs', () => {
+    it('accumulates per-day MCA additional fees across delay slabs', () => {
+      const terms = termsFromPenaltyRule(masterRow({
+        code: 'ROC_ADDITIONAL_FEE',
+        category: 'ROC',
+        penaltyType: 'SLAB',
+        slabs: [
+          { from_days: 1, to_days: 30, amount_per_day: 100 },
+          { from_days: 31, to_days: null, amount_per_day: 200 },
+        ],
+      }));
+
+      expect(terms.component).toBe('ADDITIONAL_FEE');
+      const assessment = assessPenalty([terms], {
+        dueDate: new Date(2024, 9, 30),
+        filedOn: new Date(2024, 11, 4),
+      });
+      expect(assessment.daysLate).toBe(35);
+      expect(assessment.additionalFee).toBe(100 * 30 + 200 * 5);
+    });
+
+    it('picks the Section 234F fee by income, assuming the higher fee when unknown', () => {
+      const definition = termsFromPenaltyDefinition({
+        id: 1,
+        complianceRuleId: 1,
+        penaltyType: 'late_fee',
+        calculationType: 'slab_based',
+        calculationFormula: {
+          slabs: [
+            { income_upto: 500000, fee: 1000 },
+            { income_above: 500000, fee: 5000 },
+          ],
+        },
+        maxPenalty: null,
+        minPenalty: null,
+        gracePeriodDays: 0,
+        legalReference: 'Section 234F',
+        notes: null,
+      } as any, 'ITR_INDIVIDUAL')!;
+
+      const context = { dueDate: new Date(2024, 6, 31), filedOn: new Date(2024, 7, 10) };
+      expect(assessPenalty([definition], { ...context, income: 400000 }).lateFee).toBe(1000);
+      expect(assessPenalty([definition], { ...context, income: 900000 }).lateFee).toBe(5000);
+      expect(assessPenalty([definition], context).lateFee).toBe(5000);
+    });
+  });
+
+  describe('income tax interest', () => {
+    it('counts a part of a month as a full month', () => {
+      expect(monthsOrPart(new Date(2024, 6, 31), new Date(2024, 6, 31))).toBe(0);
+      expect(monthsOrPart(new Date(2024, 6, 31), new Date(2024, 7, 1))).toBe(1);
+      expect(monthsOrPart(new Date(2024, 6, 31), new Date(2024, 8, 15))).toBe(2);
+    });
+
+    it('charges 234A on tax rounded down to the nearest hundred', () => {
+      const terms = termsFromPenaltyRule(masterRow({
+        code: 'IT_INTEREST_234A',
+        category: 'INCOME_TAX',
+        penaltyType: 'INTEREST',
+        interestRateAnnual: '12.00',
+        conditions: { method: 'SECTION_234A' },
+      }));
+
+      const assessment = assessPenalty([terms], {
+        dueDate: new Date(2024, 6, 31),
+        filedOn: new Date(2024, 8, 15),
+        taxLiability: 50050,
+      });
+      expect(assessment.interest).toBe(1000);
+    });
+
+    it('charges 234B only when advance tax paid is below 90%', () => {
+      const dueDate = new Date(2024, 6, 31);
+      const filedOn = new Date(2024, 6, 20);
+
+      expect(calculateInterest234B({ assessedTax: 100000, advanceTaxPaid: 95000 }, dueDate, filedOn).amount).toBe(0);
+      const interest = calculateInterest234B({ assessedTax: 100000, advanceTaxPaid: 50000 }, dueDate, filedOn);
+      expect(interest.months).toBe(4);
+      expect(interest.amount).toBe(2000);
+    });
+
+    it('charges 234C on each instalment short of the schedule', () => {
+      const onSchedule = calculateInterest234C({ assessedTax: 100000, instalmentsPaid: [15000, 45000, 75000, 100000] });
+      expect(onSchedule.amount).toBe(0);
+
+      const withinSafeHarbour = calculateInterest234C({ assessedTax: 100000, instalmentsPaid: [12000, 36000, 75000, 100000] });
+      expect(withinSafeHarbour.amount).toBe(0);
+
+      const nothingPaid = calculateInterest234C({ assessedTax: 100000, instalmentsPaid: [] });
+      expect(nothingPaid.amount).toBe(450 + 1350 + 2250 + 1000);
+    });
+  });
+
+  describe('penalty definitions', () => {
+    it('translates TDS per-day fees capped at the TDS amount', () => {
+      const terms = termsFromPenaltyDefinition({
+        id: 1,
+        complianceRuleId: 1,
+        penaltyType: 'late_fee',
+        calculationType: 'per_day',
+        calculationFormula: { per_day_rate: 200, max_is_tds_amount: true },
+        maxPenalty: null,
+        minPenalty: null,
+        gracePeriodDays: 0,
+        legalReference: 'Section 234E',
+        notes: null,
+      } as any, 'TDS_24Q')!;
+
+      const assessment = assessPenalty([terms], {
+        dueDate: new Date(2024, 6, 31),
+        filedOn: new Date(2024, 9, 29),
+        taxLiability: 5000,
+      });
+      expect(assessment.lateFee).toBe(5000);
+    });
+
+    it('translates EPF damages and monthly interest', () => {
+      const base = {
+        id: 1,
+        complianceRuleId: 1,
+        penaltyType: 'interest',
+        calculationType: 'percentage_per_month',
+        maxPenalty: null,
+        minPenalty: null,
+        gracePeriodDays: 0,
+        legalReference: 'Section 7Q',
+        notes: null,
+      };
+
+      const interest = termsFromPenaltyDefinition({ ...base, calculationFormula: { monthly_rate: 1 } } as any, 'EPF_ECR')!;
+      expect(interest.interestMethod).toBe('MONTH_OR_PART');
+      expect(interest.interestRateAnnual).toBe(12);
+
+      const damages = termsFromPenaltyDefinition({
+        ...base,
+        penaltyType: 'additional_penalty',
+        calculationFormula: { damage_rate_range: [5, 25] },
+      } as any, 'EPF_ECR')!;
+      expect(damages.component).toBe('ADDITIONAL_FEE');
+
+      const assessment = assessPenalty([damages], {
+        dueDate: new Date(2024, 0, 15),
+        filedOn: new Date(2024, 2, 15),
+        taxLiability: 365000,
+      });
+      expect(assessment.additionalFee).toBe(6000);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  isUnresolved,
+  nextStatus,
+  parsePosition,
+  reworkStatistics,
+  type AnnotationHistory,
+} from '../services/qc-annotation-rules';
+
+const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 10, minutes));
+
+const annotation = (overrides: Partial<AnnotationHistory>): AnnotationHistory => ({
+  annotationType: 'comment',
+  severity: 'minor',
+  status: 'open',
+  createdAt: at(0),
+  events: [{ action: 'created', createdAt: at(0) }],
+  ...overrides,
+});
+
+describe('Annotation resolution', () => {
+  it('moves a correction through rework and review', () => {
+    expect(nextStatus('open', 'address')).toBe('addressed');
+    expect(nextStatus('addressed', 'reopen')).toBe('open');
+    expect(nextStatus('addressed', 'resolve')).toBe('resolved');
+    expect(nextStatus('resolved', 'reopen')).toBe('open');
+  });
+
+  it('lets a reviewer close an open annotation directly', () => {
+    expect(nextStatus('open', 'resolve')).toBe('resolved');
+    expect(nextStatus('open', 'dismiss')).toBe('wont_fix');
+  });
+
+  it('rejects transitions that make no sense from the current state', () => {
+    expect(nextStatus('open', 'reopen')).toBeNull();
+    expect(nextStatus('resolved', 'address')).toBeNull();
+    expect(nextStatus('wont_fix', 'resolve')).toBeNull();
+  });
+
+  it('treats open and addressed annotations as blocking approval', () => {
+    expect(isUnresolved('open')).toBe(true);
+    expect(isUnresolved('addressed')).toBe(true);
+    expect(isUnresolved(null)).toBe(true);
+    expect(isUnresolved('resolved')).toBe(false);
+    expect(isUnresolved('wont_fix')).toBe(false);
+  });
+});
+
+describe('Annotation positions', () => {
+  it('accepts a region as fractions of the page', () => {
+    expect(parsePosition({ page: 2, x: 0.1, y: 0.25, width: 0.5, height: 0.1 }))
+      .toEqual({ page: 2, x: 0.1, y: 0.25, width: 0.5, height: 0.1 });
+  });
+
+  it('treats a point as a zero-size region on page 1', () => {
+    expect(parsePosition({ x: '0.33333333', y: 0.5 }))
+      .toEqual({ page: 1, x: 0.3333, y: 0.5, width: 0, height: 0 });
+  });
+
+  it('rejects positions off the page', () => {
+    expect(parsePosition({ page: 0, x: 0.1, y: 0.1 })).toBe('position.page must be a page number from 1');
+    expect(parsePosition({ x: 1.2, y: 0.1 })).toBe('position.x must be between 0 and 1');
+    expect(parsePosition({ y: 0.1 })).toBe('position.x must be between 0 and 1');
+    expect(parsePosition({ x: 0.8, y: 0.1, width: 0.5 })).toBe('position must lie within the page');
+    expect(parsePosition('top left')).toBe('position must be an object');
+  });
+});
+
+describe('Rework statistics', () => {
+  it('counts corrections, rework rounds and reopenings', () => {
+    const stats = reworkStatistics([
+      annotation({
+        annotationType: 'correction',
+        severity: 'critical',
+        status: 'resolved',
+        events: [
+          { action: 'created', createdAt: at(0) },
+          { action: 'address', createdAt: at(20) },
+          { action: 'reopen', createdAt: at(30) },
+          { action: 'address', createdAt: at(50) },
+          { action: 'resolve', createdAt: at(60) },
+        ],
+      }),
+      annotation({
+        status: 'resolved',
+        events: [
+          { action: 'created', createdAt: at(0) },
+          { action: 'resolve', createdAt: at(10) },
+        ],
+      }),
+      annotation({ annotationType: 'correction', status: 'addressed' }),
+    ]);
+
+    expect(stats).toEqual({
+      annotationCount: 3,
+      correctionsRequested: 2,
+      criticalCount: 1,
+      unresolvedCount: 1,
+      addressedCount: 2,
+      reopenedCount: 1,
+      avgResolutionMinutes: 35,
+    });
+  });
+
+  it('measures resolution to the last resolve after a reopen', () => {
+    const stats = reworkStatistics([
+      annotation({
+        status: 'resolved',
+        events: [
+          { action: 'resolve', createdAt: at(5) },
+          { action: 'reopen', createdAt: at(10) },
+          { action: 'resolve', createdAt: at(40) },
+        ],
+      }),
+    ]);
+
+    expect(stats.avgResolutionMinutes).toBe(40);
+  });
+
+  it('has no resolution time when nothing was resolved', () => {
+    expect(reworkStatistics([annotation({})]).avgResolutionMinutes).toBeNull();
+    expect(reworkStatistics([]).annotationCount).toBe(0);
+  });
+});
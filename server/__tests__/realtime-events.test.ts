@@ -0,0 +1,179 @@
+import {
+  ReplayBuffer,
+  complianceAlertToRealtime,
+  createEventIdGenerator,
+  isAudienceFor,
+  isSubscriberRole,
+  messageToRealtime,
+  parseSubscribableRoom,
+  pipelineEventToRealtime,
+  roomsForConnection,
+  scopeToTenant,
+  statusTransitionToRealtime,
+  type RealtimeAudience,
+  type RealtimeEvent,
+  type RealtimeEventInput,
+} from '../realtime/realtime-events';
+import { normalizeRole } from '../rbac-middleware';
+
+const nextId = createEventIdGenerator('test');
+
+function event(input: Partial<RealtimeEventInput>, at: Date = new Date(2024, 3, 1, 10, 0)): RealtimeEvent {
+  return {
+    type: 'status_changed',
+    payload: {},
+    rooms: ['staff'],
+    ...input,
+    id: nextId(),
+    timestamp: at.toISOString(),
+  };
+}
+
+function audience(rooms: string[], tenantId: string | null = null): RealtimeAudience {
+  return { rooms: new Set(rooms), tenantId };
+}
+
+describe('Real-time rooms', () => {
+  it('joins staff to role and staff rooms, clients to their entities', () => {
+    expect(roomsForConnection({ userId: 4, role: 'ops_executive', tenantId: 'acme', entityIds: [] })).toEqual([
+      'user:4', 'role:ops_executive', 'staff',
+    ]);
+    expect(roomsForConnection({ userId: 9, role: 'client', tenantId: null, entityIds: [12, 15] })).toEqual([
+      'user:9', 'role:client', 'entity:12', 'entity:15',
+    ]);
+    expect(roomsForConnection({ userId: 3, role: 'agent', tenantId: null, entityIds: [] })).toEqual(['user:3', 'role:agent']);
+  });
+
+  it('keeps partner aliases and mixed-case clients out of the staff room once normalised', () => {
+    expect(roomsForConnection({ userId: 5, role: normalizeRole('channel_partner'), tenantId: null, entityIds: [] })).toEqual([
+      'user:5', 'role:agent',
+    ]);
+    expect(roomsForConnection({ userId: 6, role: normalizeRole('Partner'), tenantId: null, entityIds: [] })).not.toContain('staff');
+    expect(roomsForConnection({ userId: 7, role: normalizeRole('Client'), tenantId: null, entityIds: [12] })).toEqual([
+      'user:7', 'role:client', 'entity:12',
+    ]);
+  });
+
+  it('only allows subscribing to entity and service request rooms', () => {
+    expect(parseSubscribableRoom('service_request:42')).toEqual({ kind: 'service_request', id: 42 });
+    expect(parseSubscribableRoom('entity:7')).toEqual({ kind: 'entity', id: 7 });
+    expect(parseSubscribableRoom('staff')).toBeNull();
+    expect(parseSubscribableRoom('role:admin')).toBeNull();
+    expect(parseSubscribableRoom('entity:0')).toBeNull();
+    expect(parseSubscribableRoom({ room: 'entity:7' })).toBeNull();
+  });
+
+  it('lets staff subscribe only to the rooms their role works on', () => {
+    expect(isSubscriberRole('qc_executive', 'service_request')).toBe(true);
+    expect(isSubscriberRole('qc_executive', 'entity')).toBe(false);
+    expect(isSubscriberRole('accountant', 'entity')).toBe(true);
+    expect(isSubscriberRole('accountant', 'service_request')).toBe(false);
+    expect(isSubscriberRole('sales_executive', 'entity')).toBe(false);
+    expect(isSubscriberRole('sales_manager', 'service_request')).toBe(false);
+    expect(isSubscriberRole('ops_executive', 'entity')).toBe(true);
+  });
+
+  it('delivers to any matching room within the event tenant', () => {
+    const alert = event({ rooms: ['entity:12'] });
+    expect(isAudienceFor(alert, audience(['user:9', 'entity:12']))).toBe(true);
+    expect(isAudienceFor(alert, audience(['user:9', 'entity:15']))).toBe(false);
+
+    const scoped = event({ rooms: ['staff'], tenantId: 'acme' });
+    expect(isAudienceFor(scoped, audience(['staff'], 'acme'))).toBe(true);
+    expect(isAudienceFor(scoped, audience(['staff'], 'globex'))).toBe(false);
+    expect(isAudienceFor(scoped, audience(['staff']))).toBe(false);
+  });
+
+  it('does not deliver a tenant\'s published events to staff of another tenant', () => {
+    const published = event(scopeToTenant(statusTransitionToRealtime({
+      serviceRequestId: 42,
+      businessEntityId: 12,
+      fromStatus: 'in_progress',
+      toStatus: 'qc_review',
+    }), 'acme'));
+
+    expect(isAudienceFor(published, audience(['staff', 'service_request:42'], 'acme'))).toBe(true);
+    expect(isAudienceFor(published, audience(['staff', 'service_request:42'], 'globex'))).toBe(false);
+    expect(scopeToTenant({ type: 'sync_event', payload: {}, rooms: ['staff'], tenantId: 'globex' }, 'acme').tenantId).toBe('globex');
+  });
+});
+
+describe('Real-time event mapping', () => {
+  it('sends the pipeline envelope to staff and the rooms it names', () => {
+    const mapped = pipelineEventToRealtime({
+      id: 31,
+      eventType: 'payment_received',
+      entityType: 'service_request',
+      entityId: 42,
+      payload: { businessEntityId: 12, razorpayPaymentId: 'pay_123' },
+      previousState: 'pending_payment',
+      newState: 'payment_received',
+    });
+
+    expect(mapped.rooms).toEqual(['staff', 'service_request:42', 'entity:12']);
+    expect(mapped.payload).toEqual({
+      pipelineEventId: 31,
+      eventType: 'payment_received',
+      entityType: 'service_request',
+      entityId: 42,
+      previousState: 'pending_payment',
+      newState: 'payment_received',
+    });
+  });
+
+  it('routes review alerts to reviewers and the rest to the entity', () => {
+    const base = { id: 1, entityId: 12, ruleId: 'GSTR3B', severity: 'WARNING', title: 'GSTR-3B Due Soon', message: 'File GSTR-3B' };
+    expect(complianceAlertToRealtime({ ...base, alertType: 'UPCOMING' }).rooms).toEqual(['entity:12']);
+    expect(complianceAlertToRealtime({ ...base, alertType: 'EXTENSION_REQUEST' }).rooms).toEqual([
+      'role:super_admin', 'role:admin', 'role:ops_manager',
+    ]);
+  });
+
+  it('sends messages to participants and the request they belong to', () => {
+    const mapped = messageToRealtime({
+      id: 8,
+      threadId: 'SR-42',
+      senderId: 9,
+      content: 'Uploaded the bank statement',
+      serviceRequestId: 42,
+      recipientIds: [9, 4, 9],
+    });
+    expect(mapped.rooms).toEqual(['user:9', 'user:4', 'service_request:42']);
+    expect(mapped.payload.preview).toBe('Uploaded the bank statement');
+  });
+});
+
+describe('Replay buffer', () => {
+  const now = new Date(2024, 3, 1, 10, 5).getTime();
+
+  it('replays what the audience missed after the cursor', () => {
+    const buffer = new ReplayBuffer();
+    const seen = event({ rooms: ['entity:12'] });
+    const missed = event({ rooms: ['entity:12'] });
+    const otherEntity = event({ rooms: ['entity:15'] });
+    const staffOnly = event({ rooms: ['staff'] });
+    [seen, missed, otherEntity, staffOnly].forEach((e) => buffer.add(e, now));
+
+    expect(buffer.since(seen.id, audience(['entity:12']), now)).toEqual([missed]);
+    expect(buffer.since(staffOnly.id, audience(['entity:12']), now)).toEqual([]);
+    expect(buffer.latestCursor()).toBe(staffOnly.id);
+  });
+
+  it('asks for a refetch once the cursor has been evicted', () => {
+    const buffer = new ReplayBuffer(2, 10 * 60 * 1000);
+    const first = event({}, new Date(2024, 3, 1, 9, 0));
+    const second = event({});
+    const third = event({});
+    const fourth = event({});
+    [first, second, third, fourth].forEach((e) => buffer.add(e, now));
+
+    expect(buffer.size).toBe(2);
+    expect(buffer.since(first.id, audience(['staff']), now)).toBeNull();
+    expect(buffer.since(second.id, audience(['staff']), now)).toBeNull();
+    expect(buffer.since(third.id, audience(['staff']), now)).toEqual([fourth]);
+
+    // Everything is past the age limit an hour later
+    expect(buffer.since(third.id, audience(['staff']), now + 60 * 60 * 1000)).toBeNull();
+    expect(buffer.latestCursor()).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+jest.mock('../db', () => ({
+  db: {},
+}));
+
+import {
+  entityFactsFromRecord,
+  evaluateApplicabilityExpression,
+  explainRuleApplicability,
+  validateApplicabilityExpression,
+  type ApplicabilityExpression,
+} from '../services/rule-applicability';
+
+const facts = entityFactsFromRecord({
+  entityType: 'Private Limited',
+  annualTurnover: '35000000.00',
+  employeeCount: 24,
+  state: 'Maharashtra',
+  gstin: '27AAACA1234A1Z5',
+  isListed: false,
+  hasForeignInvestment: true,
+});
+
+describe('Rule applicability expressions', () => {
+  it('accepts well-formed expressions', () => {
+    expect(validateApplicabilityExpression({
+      all: [
+        { fact: 'turnover', op: 'gte', value: 20000000 },
+        { any: [{ fact: 'state', op: 'in', value: ['Maharashtra', 'Karnataka'] }, { not: { fact: 'isListed', op: 'eq', value: true } }] },
+        { fact: 'employeeCount', op: 'exists' },
+      ],
+    })).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(validateApplicabilityExpression({
+      all: [
+        { fact: 'revenue', op: 'gte', value: 1 },
+        { fact: 'hasGST', op: 'gt', value: true },
+        { fact: 'employeeCount', op: 'gte', value: '20' },
+        { fact: 'state', op: 'in', value: [] },
+        { any: [] },
+        { fact: 'isListed', op: 'eq', value: false, extra: 1 },
+      ],
+    })).toEqual([
+      expect.stringContaining('expression.all[0].fact: unknown fact "revenue"'),
+      expect.stringContaining('expression.all[1].op: "gt" is not valid for hasGST'),
+      'expression.all[2].value: must be a number',
+      'expression.all[3].value: must be a non-empty array for in',
+      'expression.all[4].any: must be a non-empty array',
+      'expression.all[5]: unknown keys extra',
+    ]);
+    expect(validateApplicabilityExpression([])).toEqual(['expression: must be an object']);
+    expect(validateApplicabilityExpression({ all: [], not: {} })).toEqual([
+      'expression: must have exactly one of all, any, not or fact',
+    ]);
+  });
+
+  it('evaluates with normalised values and records each step', () => {
+    const expression: ApplicabilityExpression = {
+      all: [
+        { fact: 'entityType', op: 'in', value: ['pvt ltd', 'LLP'] },
+        { fact: 'state', op: 'eq', value: 'maharashtra' },
+        { not: { fact: 'employeeCount', op: 'lt', value: 20 } },
+      ],
+    };
+
+    const trace = evaluateApplicabilityExpression(expression, facts);
+    expect(trace.passed).toBe(true);
+    expect(trace.children?.map((child) => child.expression)).toEqual([
+      'entityType (pvt_ltd) in [pvt ltd, LLP]',
+      'state (Maharashtra) = maharashtra',
+      'not',
+    ]);
+    expect(trace.children?.[2].children?.[0]).toEqual({ expression: 'employeeCount (24) < 20', passed: false });
+  });
+
+  it('fails comparisons on unknown facts unless testing that they are unknown', () => {
+    const unknownTurnover = { ...facts, turnover: null };
+    expect(evaluateApplicabilityExpression({ fact: 'turnover', op: 'lt', value: 5000000 }, unknownTurnover).passed).toBe(false);
+    expect(evaluateApplicabilityExpression({ fact: 'turnover', op: 'neq', value: 0 }, unknownTurnover).passed).toBe(false);
+    expect(evaluateApplicabilityExpression({ fact: 'turnover', op: 'exists', value: false }, unknownTurnover).passed).toBe(true);
+  });
+});
+
+describe('Rule applicability explanations', () => {
+  const now = new Date(2024, 5, 1);
+
+  it('explains column criteria and the expression together', () => {
+    const explanation = explainRuleApplicability({
+      ruleCode: 'ROC_PAS6_HALF_YEARLY',
+      regulationCategory: 'companies_act',
+      applicableEntityTypes: ['public_limited'],
+      applicabilityExpression: { fact: 'isListed', op: 'eq', value: false },
+    }, facts, now);
+
+    expect(explanation.applicable).toBe(false);
+    expect(explanation.checks.map((check) => [check.check, check.passed])).toEqual([
+      ['entity_type', false],
+      ['expression', true],
+    ]);
+    expect(explanation.checks[0].detail).toBe('Entity type pvt_ltd is not one of public_limited');
+  });
+
+  it('keeps the existing threshold, registration, state and effective window rules', () => {
+    const explanation = explainRuleApplicability({
+      ruleCode: 'PT_MONTHLY',
+      regulationCategory: 'pf_esi',
+      employeeCountMin: 20,
+      turnoverThresholdMax: '10000000.00',
+      stateSpecific: true,
+      applicableStates: ['Karnataka'],
+      effectiveFrom: new Date(2024, 6, 1),
+    }, facts, now);
+
+    expect(explanation.checks.map((check) => [check.check, check.passed])).toEqual([
+      ['turnover', false],
+      ['employee_count', true],
+      ['registration', true],
+      ['state', false],
+      ['effective_window', false],
+    ]);
+
+    const noCriteria = explainRuleApplicability({ ruleCode: 'FUNDING_GOVERNANCE_MINUTES' }, facts, now);
+    expect(noCriteria).toEqual({ ruleCode: 'FUNDING_GOVERNANCE_MINUTES', applicable: true, checks: [] });
+  });
+
+  it('does not apply a rule whose stored expression is invalid', () => {
+    const explanation = explainRuleApplicability({
+      ruleCode: 'FEMA_FLA_ANNUAL',
+      applicabilityExpression: { fact: 'hasFDI', op: 'eq', value: true },
+    }, facts, now);
+
+    expect(explanation.applicable).toBe(false);
+    expect(explanation.checks[0].detail).toContain('Invalid applicability expression');
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  buildLeaderboard,
+  computeAttainment,
+  elapsedFraction,
+  forecastAgainstQuota,
+  matchTerritories,
+  quotaPeriod,
+  territoryErrors,
+  type TerritoryDefinition,
+} from '../services/territory-quota-rules';
+
+const territory = (overrides: Partial<TerritoryDefinition>): TerritoryDefinition => ({
+  id: 1,
+  name: 'Territory',
+  states: null,
+  cities: null,
+  industries: null,
+  priority: 0,
+  ...overrides,
+});
+
+describe('Territory matching', () => {
+  const west = territory({ id: 1, name: 'West', states: ['Maharashtra', 'Gujarat'] });
+  const pune = territory({ id: 2, name: 'Pune', states: ['Maharashtra'], cities: ['Pune'] });
+  const punePharma = territory({ id: 3, name: 'Pune Pharma', states: ['Maharashtra'], cities: ['Pune'], industries: ['Pharma & Healthcare'] });
+  const mumbaiFinance = territory({ id: 4, name: 'Mumbai Finance', cities: ['Mumbai'], industries: ['Finance'] });
+
+  it('needs the lead to match every list the territory sets', () => {
+    const matches = matchTerritories({ state: 'Maharashtra', city: 'Mumbai', industry: 'Retail' }, [west, pune, mumbaiFinance]);
+
+    expect(matches.map(t => t.name)).toEqual(['West']);
+  });
+
+  it('prefers the most specific territory, ignoring case and spacing', () => {
+    const matches = matchTerritories(
+      { state: 'maharashtra', city: ' PUNE ', industry: 'pharma and  healthcare' },
+      [west, pune, punePharma]
+    );
+
+    expect(matches.map(t => t.name)).toEqual(['Pune Pharma', 'Pune', 'West']);
+  });
+
+  it('breaks ties on priority', () => {
+    const gujarat = territory({ id: 5, name: 'Gujarat', states: ['Gujarat'], priority: 5 });
+
+    expect(matchTerritories({ state: 'Gujarat' }, [west, gujarat])[0].name).toBe('Gujarat');
+    expect(matchTerritories({ state: 'Kerala' }, [west, gujarat])).toEqual([]);
+  });
+
+  it('rejects territories without a name or with blank entries', () => {
+    expect(territoryErrors({ name: ' ', states: ['Goa', ''] })).toEqual([
+      'name is required',
+      'states must be a list of names',
+    ]);
+    expect(territoryErrors({ cities: ['Pune'] }, true)).toEqual([]);
+  });
+});
+
+describe('Quota periods', () => {
+  it('covers the calendar month', () => {
+    expect(quotaPeriod('monthly', new Date(2026, 1, 14))).toMatchObject({ start: '2026-02-01', end: '2026-02-28' });
+  });
+
+  it('labels quarters by financial year', () => {
+    expect(quotaPeriod('quarterly', new Date(2026, 9, 19))).toEqual({
+      periodType: 'quarterly',
+      start: '2026-10-01',
+      end: '2026-12-31',
+      label: 'Q3 FY2026-27',
+    });
+    expect(quotaPeriod('quarterly', new Date(2027, 1, 1)).label).toBe('Q4 FY2026-27');
+  });
+
+  it('counts the day in progress as elapsed', () => {
+    const april = { start: '2026-04-01', end: '2026-04-30' };
+
+    expect(elapsedFraction(april, new Date(2026, 3, 15, 9))).toBe(0.5);
+    expect(elapsedFraction(april, new Date(2026, 2, 31))).toBe(0);
+    expect(elapsedFraction(april, new Date(2026, 4, 2))).toBe(1);
+  });
+});
+
+describe('Attainment', () => {
+  it('compares earned share with elapsed share', () => {
+    expect(computeAttainment({ target: 100000, actual: 50000, elapsed: 0.5 }))
+      .toMatchObject({ attainmentPct: 50, remaining: 50000, projected: 100000, status: 'on_track' });
+    expect(computeAttainment({ target: 100000, actual: 40000, elapsed: 0.5 }).status).toBe('at_risk');
+    expect(computeAttainment({ target: 100000, actual: 25000, elapsed: 0.5 }).status).toBe('behind');
+    expect(computeAttainment({ target: 100000, actual: 125000, elapsed: 0.5 }))
+      .toMatchObject({ attainmentPct: 125, remaining: 0, status: 'achieved' });
+  });
+
+  it('reports revenue without a quota as no_quota', () => {
+    expect(computeAttainment({ target: null, actual: 7500, elapsed: 0.25 }))
+      .toMatchObject({ target: null, attainmentPct: null, remaining: null, projected: 30000, status: 'no_quota' });
+  });
+
+  it('ranks by attainment, then revenue, with reps without a quota last', () => {
+    const entry = (userId: number, target: number | null, actual: number) => ({
+      userId,
+      name: `Rep ${userId}`,
+      teamName: null,
+      ...computeAttainment({ target, actual, elapsed: 0.5 }),
+    });
+
+    const board = buildLeaderboard([
+      entry(1, null, 900000),
+      entry(2, 100000, 50000),
+      entry(3, 200000, 100000),
+      entry(4, 100000, 80000),
+    ]);
+
+    expect(board.map(e => [e.rank, e.userId])).toEqual([[1, 4], [2, 3], [3, 2], [4, 1]]);
+  });
+});
+
+describe('Forecast versus quota', () => {
+  it('adds weighted pipeline to closed revenue', () => {
+    expect(forecastAgainstQuota({ quota: 500000, closed: 200000, weightedPipeline: 150000 })).toEqual({
+      quota: 500000,
+      closed: 200000,
+      weightedPipeline: 150000,
+      forecast: 350000,
+      forecastPct: 70,
+      gap: 150000,
+      coverage: 0.5,
+    });
+  });
+
+  it('has no gap or coverage once the quota is closed', () => {
+    expect(forecastAgainstQuota({ quota: 100000, closed: 120000, weightedPipeline: 10000 }))
+      .toMatchObject({ forecastPct: 130, gap: 0, coverage: null });
+    expect(forecastAgainstQuota({ quota: null, closed: 1000, weightedPipeline: 500 }))
+      .toMatchObject({ quota: null, forecast: 1500, forecastPct: null });
+  });
+});
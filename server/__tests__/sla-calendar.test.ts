@@ -0,0 +1,135 @@
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  addBusinessHours,
+  businessHoursBetween,
+  calendarFromRecord,
+  clockState,
+  computeSlaClock,
+  findOpenPause,
+  normalizePauseIntervals,
+  selectCalendarRecord,
+  validateBusinessCalendarInput,
+} from '../services/sla-calendar';
+
+// Monday 16 March 2026; IST is UTC+05:30
+const ist = (day: number, hour: number, minute = 0) =>
+  new Date(Date.UTC(2026, 2, day, hour, minute) - 330 * 60 * 1000);
+
+describe('Business calendar arithmetic', () => {
+  it('skips nights, weekends and holidays when adding hours', () => {
+    const holi = calendarFromRecord(
+      { id: 1, name: 'India', utcOffsetMinutes: 330, workdayStart: '09:00', workdayEnd: '18:00', workingDays: [1, 2, 3, 4, 5] },
+      ['2026-03-17']
+    );
+
+    expect(addBusinessHours(ist(16, 16), 4, DEFAULT_BUSINESS_CALENDAR)).toEqual(ist(17, 11));
+    expect(addBusinessHours(ist(16, 16), 4, holi)).toEqual(ist(18, 11));
+    expect(addBusinessHours(ist(20, 17), 2)).toEqual(ist(23, 10));
+    expect(addBusinessHours(ist(21, 12), 1)).toEqual(ist(23, 10));
+  });
+
+  it('uses the calendar offset, hours and working days', () => {
+    const dubai = calendarFromRecord({
+      id: 2, name: 'Dubai desk', utcOffsetMinutes: 240, workdayStart: '08:00', workdayEnd: '14:00', workingDays: [1, 2, 3, 4, 5, 6],
+    });
+    // Saturday 21 March 13:00 Dubai = 09:00 UTC; 3 hours run to Monday 10:00 Dubai
+    const start = new Date(Date.UTC(2026, 2, 21, 9, 0));
+    expect(addBusinessHours(start, 3, dubai)).toEqual(new Date(Date.UTC(2026, 2, 23, 6, 0)));
+    expect(businessHoursBetween(start, new Date(Date.UTC(2026, 2, 23, 6, 0)), dubai)).toBe(3);
+  });
+
+  it('counts business hours between two moments in calendar time', () => {
+    expect(businessHoursBetween(ist(16, 8), ist(16, 20))).toBe(9);
+    expect(businessHoursBetween(ist(20, 17), ist(23, 10))).toBe(2);
+    expect(businessHoursBetween(ist(16, 12), ist(23, 12))).toBe(45);
+    expect(businessHoursBetween(ist(23, 12), ist(16, 12))).toBe(0);
+  });
+
+  it('falls back to default hours for an unusable record', () => {
+    const calendar = calendarFromRecord({ id: 3, name: 'Broken', utcOffsetMinutes: null, workdayStart: '18:00', workdayEnd: '09:00', workingDays: [] });
+    expect(calendar.workdayStartMinutes).toBe(9 * 60);
+    expect(calendar.workdayEndMinutes).toBe(18 * 60);
+    expect(calendar.workingDays).toEqual([1, 2, 3, 4, 5]);
+    expect(calendar.utcOffsetMinutes).toBe(330);
+  });
+});
+
+describe('Business calendar selection', () => {
+  const records = [
+    { id: 1, serviceCode: null, team: null, tenantId: null },
+    { id: 2, serviceCode: null, team: null, tenantId: 'acme' },
+    { id: 3, serviceCode: null, team: 'operations', tenantId: null },
+    { id: 4, serviceCode: 'gst_registration', team: null, tenantId: null },
+    { id: 5, serviceCode: 'gst_registration', team: 'operations', tenantId: 'globex' },
+  ];
+
+  it('prefers service over team over tenant and never matches another scope', () => {
+    expect(selectCalendarRecord(records, { serviceCode: 'gst_registration', team: 'operations', tenantId: 'acme' })?.id).toBe(4);
+    expect(selectCalendarRecord(records, { serviceCode: 'gst_registration', team: 'operations', tenantId: 'globex' })?.id).toBe(5);
+    expect(selectCalendarRecord(records, { serviceCode: 'itr_filing', team: 'operations', tenantId: 'acme' })?.id).toBe(3);
+    expect(selectCalendarRecord(records, { serviceCode: 'itr_filing', tenantId: 'acme' })?.id).toBe(2);
+    expect(selectCalendarRecord(records, {})?.id).toBe(1);
+    expect(selectCalendarRecord(records.slice(1), {})).toBeNull();
+  });
+
+  it('validates calendar definitions', () => {
+    expect(validateBusinessCalendarInput({ name: 'Ops', workdayStart: '08:30', workdayEnd: '17:30', workingDays: [1, 2, 3, 4, 5, 6] })).toEqual([]);
+    expect(validateBusinessCalendarInput({
+      workdayStart: '9am',
+      workdayEnd: '25:00',
+      workingDays: [7],
+      utcOffsetMinutes: 5.5,
+      team: '',
+    })).toEqual([
+      'name: is required',
+      'utcOffsetMinutes: must be a whole number of minutes between -720 and 840',
+      'workdayStart: must be HH:MM',
+      'workdayEnd: must be HH:MM',
+      'workingDays: must be a non-empty array of weekdays 0 (Sunday) to 6',
+      'team: must be a non-empty string or null',
+    ]);
+    expect(validateBusinessCalendarInput({ workdayStart: '18:00', workdayEnd: '09:00' }, true)).toEqual([
+      'workdayEnd: must be after workdayStart',
+    ]);
+  });
+});
+
+describe('SLA clocks', () => {
+  const base = { startTime: ist(16, 9), standardHours: 18, totalPausedMinutes: 0, pausedAt: null };
+
+  it('runs in business hours against the deadline', () => {
+    const clock = computeSlaClock(base, DEFAULT_BUSINESS_CALENDAR, ist(17, 9));
+    expect(clock).toMatchObject({ elapsedHours: 9, remainingHours: 9, pausedHours: 0, isPaused: false, isBreached: false, percentageUsed: 50 });
+    expect(clock.deadline).toEqual(ist(17, 18));
+  });
+
+  it('moves the deadline by the business time spent paused', () => {
+    // Paused Monday 14:00 until Tuesday 11:00 (6 business hours)
+    const paused = computeSlaClock({ ...base, pausedAt: ist(16, 14) }, DEFAULT_BUSINESS_CALENDAR, ist(17, 11));
+    expect(paused).toMatchObject({ elapsedHours: 5, pausedHours: 6, isPaused: true, isBreached: false });
+    expect(paused.deadline).toEqual(ist(18, 15));
+    expect(clockState(paused)).toBe('paused');
+
+    const resumed = computeSlaClock({ ...base, totalPausedMinutes: 360 }, DEFAULT_BUSINESS_CALENDAR, ist(18, 15));
+    expect(resumed).toMatchObject({ elapsedHours: 18, isBreached: true, remainingHours: 0 });
+    expect(clockState(resumed)).toBe('breached');
+    expect(clockState(computeSlaClock({ ...base, totalPausedMinutes: 360 }, DEFAULT_BUSINESS_CALENDAR, ist(18, 14)))).toBe('at_risk');
+  });
+
+  it('stops at completion', () => {
+    const clock = computeSlaClock({ ...base, completedAt: ist(16, 13) }, DEFAULT_BUSINESS_CALENDAR, ist(30, 9));
+    expect(clock.elapsedHours).toBe(4);
+    expect(clockState(clock, true)).toBe('completed');
+  });
+
+  it('reads pause intervals and ignores legacy free-text reasons', () => {
+    const intervals = normalizePauseIntervals([
+      'Waiting for client (paused at: 2025-01-01T00:00:00.000Z)',
+      { source: 'status', status: 'documents_pending', reason: 'Waiting on client', pausedAt: '2026-03-16T08:30:00.000Z', resumedAt: '2026-03-17T05:30:00.000Z', businessMinutes: 360, exceptionId: 7 },
+      { source: 'manual', reason: 'Awaiting MCA portal', pausedAt: '2026-03-18T05:30:00.000Z' },
+    ]);
+    expect(intervals).toHaveLength(2);
+    expect(intervals[0]).toMatchObject({ source: 'status', businessMinutes: 360, exceptionId: 7 });
+    expect(findOpenPause(intervals)).toMatchObject({ source: 'manual', resumedAt: null, businessMinutes: null });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  compileWorkflow,
+  findTransition,
+  isRoleAllowed,
+  nextStatuses,
+  planWorkflowMigration,
+  sameWorkflow,
+  type WorkflowStatusRow,
+  type WorkflowTransitionRow,
+} from '../services/workflow-definition';
+
+const status = (statusCode: string, displayOrder: number, isTerminal = false): WorkflowStatusRow => ({
+  statusCode,
+  statusName: statusCode.replace(/_/g, ' '),
+  isTerminal,
+  displayOrder,
+});
+
+const transition = (fromStatusCode: string, toStatusCode: string, extra: Partial<WorkflowTransitionRow> = {}): WorkflowTransitionRow => ({
+  fromStatusCode,
+  toStatusCode,
+  transitionName: `${fromStatusCode} to ${toStatusCode}`,
+  ...extra,
+});
+
+const statuses = [
+  status('initiated', 1),
+  status('docs_pending', 2),
+  status('in_progress', 3),
+  status('qc_review', 4),
+  status('completed', 5, true),
+  status('cancelled', 6, true),
+];
+
+const transitions = [
+  transition('initiated', 'docs_pending'),
+  transition('initiated', 'cancelled'),
+  transition('docs_pending', 'in_progress', { conditionsJson: { guards: ['documents_verified', 'payment_received'] } }),
+  transition('in_progress', 'qc_review', { allowedRoles: ['ops_executive'] }),
+  transition('qc_review', 'completed', { conditionsJson: ['qc_approved'], allowedRoles: ['qc_executive'] }),
+  transition('qc_review', 'in_progress'),
+];
+
+describe('Workflow compilation', () => {
+  it('builds a runnable graph with guards, roles and side-effects', () => {
+    const { definition, validation } = compileWorkflow('gst_registration', statuses, [
+      ...transitions.slice(0, -1),
+      transition('qc_review', 'in_progress', {
+        onTransitionTasks: [{ title: 'Rework QC findings', assigneeRole: 'ops_executive', dueInHours: 24 }],
+        onTransitionNotifications: [{ recipient: 'assignee', message: 'QC sent this back' }],
+        onTransitionWebhook: 'https://hooks.example.com/qc',
+      }),
+    ]);
+
+    expect(validation).toEqual({ valid: true, errors: [], warnings: [] });
+    expect(definition.initialStatus).toBe('initiated');
+    expect(nextStatuses(definition, 'initiated')).toEqual(['docs_pending', 'cancelled']);
+    expect(findTransition(definition, 'docs_pending', 'in_progress')?.guards).toEqual(['documents_verified', 'payment_received']);
+    expect(findTransition(definition, 'qc_review', 'in_progress')).toMatchObject({
+      tasks: [{ title: 'Rework QC findings', description: null, assigneeRole: 'ops_executive', dueInHours: 24 }],
+      notifications: [{ recipient: 'assignee', title: null, message: 'QC sent this back' }],
+      webhookUrl: 'https://hooks.example.com/qc',
+    });
+  });
+
+  it('rejects graphs that cannot be reached or cannot finish', () => {
+    const { validation } = compileWorkflow('gst_registration', [...statuses, status('govt_submission', 7)], [
+      ...transitions.filter(t => t.toStatusCode !== 'completed'),
+      transition('completed', 'in_progress'),
+      transition('in_progress', 'filed'),
+    ]);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors).toEqual([
+      'Transition completed -> in_progress leaves terminal status completed',
+      'Transition in_progress -> filed leads to unknown status filed',
+      'Statuses not reachable from initiated: completed, govt_submission',
+      'Statuses that can never reach a terminal status: docs_pending, in_progress, qc_review, govt_submission',
+    ]);
+  });
+
+  it('reports rows the engine cannot act on', () => {
+    const { validation } = compileWorkflow('gst_registration', statuses, [
+      ...transitions,
+      transition('initiated', 'docs_pending'),
+      transition('docs_pending', 'cancelled', {
+        conditionsJson: ['client_signed'],
+        allowedRoles: [],
+        onTransitionWebhook: 'ftp://example.com',
+      }),
+    ]);
+
+    expect(validation.errors).toEqual([
+      'Transition initiated -> docs_pending is defined more than once',
+      'Transition docs_pending -> cancelled: allowedRoles must be a non-empty list of role names or null',
+      'Transition docs_pending -> cancelled: unknown guard "client_signed" (expected one of documents_uploaded, documents_verified, payment_received, qc_approved)',
+      'Transition docs_pending -> cancelled: onTransitionWebhook must be an http(s) URL',
+    ]);
+  });
+
+  it('limits transitions to their roles', () => {
+    const { definition } = compileWorkflow('gst_registration', statuses, transitions);
+    const qcComplete = findTransition(definition, 'qc_review', 'completed')!;
+
+    expect(isRoleAllowed(qcComplete, 'qc_executive')).toBe(true);
+    expect(isRoleAllowed(qcComplete, 'ops_executive')).toBe(false);
+    expect(isRoleAllowed(qcComplete, 'super_admin')).toBe(true);
+    expect(isRoleAllowed(findTransition(definition, 'initiated', 'docs_pending')!, 'client')).toBe(true);
+  });
+});
+
+describe('Workflow version migration', () => {
+  const previous = { ...compileWorkflow('gst_registration', statuses, transitions).definition, version: 1 };
+  const next = compileWorkflow(
+    'gst_registration',
+    [status('initiated', 1), status('collecting', 2), status('in_progress', 3), status('completed', 4, true), status('cancelled', 5, true)],
+    [
+      transition('initiated', 'collecting'),
+      transition('collecting', 'in_progress'),
+      transition('in_progress', 'completed'),
+      transition('initiated', 'cancelled'),
+    ]
+  ).definition;
+
+  const requests = [
+    { id: 1, status: 'docs_pending' },
+    { id: 2, status: 'in_progress' },
+    { id: 3, status: 'qc_review' },
+    { id: 4, status: 'completed' },
+    { id: 5, status: 'docs_pending' },
+  ];
+
+  it('moves mapped requests, re-pins the rest and leaves finished ones alone', () => {
+    const plan = planWorkflowMigration(requests, previous, next, { docs_pending: 'collecting', qc_review: 'in_progress' });
+
+    expect(plan.moves).toEqual([
+      { serviceRequestId: 1, from: 'docs_pending', to: 'collecting' },
+      { serviceRequestId: 3, from: 'qc_review', to: 'in_progress' },
+      { serviceRequestId: 5, from: 'docs_pending', to: 'collecting' },
+    ]);
+    expect(plan.unchanged).toEqual([2]);
+    expect(plan.closed).toEqual([4]);
+    expect(plan.unmapped).toEqual([]);
+  });
+
+  it('lists statuses that still need a mapping', () => {
+    const plan = planWorkflowMigration(requests, previous, next, { qc_review: 'qc_review' });
+
+    expect(plan.mappingErrors).toEqual(['statusMapping.qc_review: qc_review is not a status of the new workflow']);
+    expect(plan.unmapped).toEqual([
+      { status: 'docs_pending', serviceRequestIds: [1, 5] },
+      { status: 'qc_review', serviceRequestIds: [3] },
+    ]);
+  });
+
+  it('ignores the version number when comparing definitions', () => {
+    const draft = compileWorkflow('gst_registration', statuses, transitions).definition;
+    expect(sameWorkflow(previous, draft)).toBe(true);
+    expect(sameWorkflow(next, draft)).toBe(false);
+  });
+});
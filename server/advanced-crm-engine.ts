@@ -33,6 +33,10 @@ import { sessionAuthMiddleware } from './rbac-middleware';
 import { parse } from 'csv-parse/sync';
 import bcrypt from 'bcrypt';
 import { syncComplianceTracking } from './compliance-tracking-sync';
+import { leadDedupService } from './services/lead-dedup-service';
+import { attributionService } from './services/attribution-service';
+import { territoryQuotaService } from './services/territory-quota-service';
+import { ValidationError } from './errors';
 
 const router = Router();
 
@@ -76,6 +80,7 @@ interface BulkOperationResult {
   failed: number;
   errors: Array<{ row: number; error: string; data?: any }>;
   duplicates: number;
+  duplicateMatches?: Array<{ row: number; leadId: number; leadCode: string; score: number }>;
   created: number;
   updated: number;
 }
@@ -237,6 +242,8 @@ function parseLeadCSV(csvContent: string): { leads: any[]; errors: any[] } {
         clientName: record.clientName || record.client_name || record.name || record.company,
         contactEmail: record.contactEmail || record.email || record.contact_email,
         contactPhone: String(record.contactPhone || record.phone || record.mobile || '').replace(/[^\d+]/g, ''),
+        pan: record.pan || record.PAN || null,
+        gstin: record.gstin || record.GSTIN || record.gst || null,
         state: record.state || record.location || record.region,
         entityType: mapEntityType(record.entityType || record.entity_type || record.business_type),
         requiredServices: parseServices(record.services || record.required_services || record.serviceInterested),
@@ -362,6 +369,7 @@ router.get('/leads', sessionAuthMiddleware, async (req: Request, res: Response)
       dateFrom,
       dateTo,
       followupOverdue,
+      includeMerged,
       page = '1',
       limit = '20',
       sortBy = 'createdAt',
@@ -371,6 +379,11 @@ router.get('/leads', sessionAuthMiddleware, async (req: Request, res: Response)
     let query = db.select().from(leads);
     const conditions: any[] = [];
 
+    // Duplicates merged into another lead are hidden unless asked for
+    if (includeMerged !== 'true') {
+      conditions.push(isNull(leads.mergedIntoId));
+    }
+
     // Search filter
     if (search) {
       const searchTerm = `%${search}%`;
@@ -555,22 +568,24 @@ router.post('/leads', sessionAuthMiddleware, async (req: Request, res: Response)
       : 0;
     const newLeadId = `L${String(lastNum + 1).padStart(4, '0')}`;
 
-    // Check for duplicates
-    const existing = await db.select({ id: leads.id })
-      .from(leads)
-      .where(
-        or(
-          eq(leads.contactPhone, data.contactPhone),
-          data.contactEmail ? eq(leads.contactEmail, data.contactEmail) : undefined
-        )
-      )
-      .limit(1);
+    // Check for duplicates: normalised phone/email, PAN/GSTIN, similar company name.
+    // A likely duplicate can still be created with allowDuplicate; it is flagged for review.
+    const duplicates = await leadDedupService.check({
+      clientName: data.clientName,
+      contactEmail: data.contactEmail,
+      contactPhone: data.contactPhone,
+      directorEmail: data.directorEmail,
+      directorPhone: data.directorPhone,
+      pan: data.pan,
+      gstin: data.gstin
+    });
 
-    if (existing.length > 0) {
+    if (duplicates.likely.length > 0 && !data.allowDuplicate) {
       return res.status(409).json({
         error: 'Duplicate lead',
-        message: 'A lead with this phone or email already exists',
-        existingLeadId: existing[0].id
+        message: 'This prospect looks like an existing lead',
+        existingLeadId: duplicates.likely[0].leadId,
+        duplicates: duplicates.likely
       });
     }
 
@@ -581,6 +596,8 @@ router.post('/leads', sessionAuthMiddleware, async (req: Request, res: Response)
         clientName: data.clientName,
         contactEmail: data.contactEmail,
         contactPhone: data.contactPhone,
+        pan: data.pan,
+        gstin: data.gstin,
         state: data.state,
         entityType: data.entityType || 'pvt_ltd',
         requiredServices: data.requiredServices || [],
@@ -603,12 +620,16 @@ router.post('/leads', sessionAuthMiddleware, async (req: Request, res: Response)
       })
       .returning();
 
+    await leadDedupService.recordMatches(newLead.id, [...duplicates.likely, ...duplicates.possible], 'create');
+    await attributionService.recordLeadOrigin(newLead, data, (req as any).user?.id);
+
     // Calculate initial score
     const score = calculateLeadScore(newLead);
 
     res.status(201).json({
       success: true,
       lead: { ...newLead, score },
+      possibleDuplicates: [...duplicates.likely, ...duplicates.possible],
       message: 'Lead created successfully'
     });
 
@@ -734,6 +755,7 @@ router.post('/leads/bulk-import', sessionAuthMiddleware, async (req: Request, re
       failed: errors.length,
       errors,
       duplicates: 0,
+      duplicateMatches: [],
       created: 0,
       updated: 0
     };
@@ -753,16 +775,9 @@ router.post('/leads/bulk-import', sessionAuthMiddleware, async (req: Request, re
       const rowNum = i + 2;
 
       try {
-        // Check for existing lead
-        const existing = await db.select()
-          .from(leads)
-          .where(
-            or(
-              eq(leads.contactPhone, lead.contactPhone),
-              lead.contactEmail ? eq(leads.contactEmail, lead.contactEmail) : undefined
-            )
-          )
-          .limit(1);
+        // Check for an existing lead (rows already imported in this batch included)
+        const duplicates = await leadDedupService.check(lead);
+        const existing = duplicates.likely;
 
         if (existing.length > 0) {
           if (updateExisting) {
@@ -772,19 +787,25 @@ router.post('/leads/bulk-import', sessionAuthMiddleware, async (req: Request, re
                 ...lead,
                 updatedAt: new Date()
               })
-              .where(eq(leads.id, existing[0].id));
+              .where(eq(leads.id, existing[0].leadId));
 
             result.updated++;
             result.success++;
           } else {
             result.duplicates++;
+            result.duplicateMatches!.push({
+              row: rowNum,
+              leadId: existing[0].leadId,
+              leadCode: existing[0].leadCode,
+              score: existing[0].score
+            });
           }
         } else {
           // Create new lead
           lastNum++;
           const newLeadId = `L${String(lastNum).padStart(4, '0')}`;
 
-          await db.insert(leads)
+          const [created] = await db.insert(leads)
             .values({
               leadId: newLeadId,
               ...lead,
@@ -794,7 +815,10 @@ router.post('/leads/bulk-import', sessionAuthMiddleware, async (req: Request, re
                 notes: 'Lead imported via bulk upload',
                 executive: 'System'
               }]
-            });
+            })
+            .returning({ id: leads.id });
+
+          await leadDedupService.recordMatches(created.id, duplicates.possible, 'import');
 
           result.created++;
           result.success++;
@@ -964,6 +988,39 @@ router.post('/leads/bulk-assign', sessionAuthMiddleware, async (req: Request, re
 // EXTERNAL CONVERSION HANDLING
 // -----------------------------------------------------------------------------
 
+/**
+ * Attribute an external conversion across the lead's touchpoints. The
+ * claimed conversion source becomes the last touch instead of taking all
+ * the credit; a failure never blocks the conversion itself.
+ */
+async function attributeExternalConversion(
+  lead: { id: number; estimatedValue: string | null },
+  conversion: { source?: string; revenue?: number | string; convertedAt: Date; actorId?: number }
+) {
+  try {
+    if (conversion.source) {
+      await attributionService.recordTouchpoint({
+        leadId: lead.id,
+        touchType: 'manual',
+        source: conversion.source,
+        occurredAt: conversion.convertedAt,
+        metadata: { conversion: 'external' }
+      }, conversion.actorId);
+    }
+
+    return await attributionService.attributeConversion({
+      leadId: lead.id,
+      conversionType: 'external',
+      conversionValue: Number(conversion.revenue || lead.estimatedValue || 0),
+      convertedAt: conversion.convertedAt,
+      createdBy: conversion.actorId
+    });
+  } catch (error: any) {
+    console.error(`Attribution failed for external conversion of lead ${lead.id}:`, error);
+    return null;
+  }
+}
+
 /**
  * POST /api/crm/leads/:id/mark-converted-external
  * Mark lead as converted externally (outside the system)
@@ -1096,9 +1153,17 @@ router.post('/leads/:id/mark-converted-external', sessionAuthMiddleware, async (
       await syncComplianceTracking({ entityIds: [newEntity.id] });
     }
 
+    const attribution = await attributeExternalConversion(existingLead, {
+      source: conversionSource,
+      revenue,
+      convertedAt: updatedLead.convertedAt || new Date(),
+      actorId: (req as any).user?.id
+    });
+
     res.json({
       success: true,
       lead: updatedLead,
+      attribution,
       message: 'Lead marked as converted successfully'
     });
 
@@ -1172,6 +1237,13 @@ router.post('/leads/sync-external-conversions', sessionAuthMiddleware, async (re
           })
           .where(eq(leads.id, lead.id));
 
+        await attributeExternalConversion(lead, {
+          source: conversion.source,
+          revenue: conversion.revenue,
+          convertedAt: conversion.conversionDate ? new Date(conversion.conversionDate) : new Date(),
+          actorId: (req as any).user?.id
+        });
+
         results.synced++;
 
       } catch (err: any) {
@@ -1396,6 +1468,9 @@ router.get('/analytics', sessionAuthMiddleware, async (req: Request, res: Respon
     const lastMonthNew = lastMonthLeads.length;
     const growth = lastMonthNew > 0 ? ((thisMonthNew - lastMonthNew) / lastMonthNew) * 100 : 100;
 
+    // Revenue per source as split across touchpoints, against commissions and referral credits
+    const sourceRoi = await attributionService.sourceRoi();
+
     res.json({
       success: true,
       analytics: {
@@ -1426,7 +1501,12 @@ router.get('/analytics', sessionAuthMiddleware, async (req: Request, res: Respon
         topExecutives: Object.entries(byExecutive)
           .sort(([, a], [, b]) => b - a)
           .slice(0, 5)
-          .map(([executive, count]) => ({ executive, count }))
+          .map(([executive, count]) => ({ executive, count })),
+        sourceRoi: {
+          attributedConversions: sourceRoi.conversions,
+          bySource: sourceRoi.bySource,
+          byCampaign: sourceRoi.byCampaign
+        }
       }
     });
 
@@ -1437,8 +1517,8 @@ router.get('/analytics', sessionAuthMiddleware, async (req: Request, res: Respon
 });
 
 /**
- * GET /api/crm/forecast
- * Revenue forecasting based on pipeline
+ * GET /api/crm/forecast?periodType=monthly|quarterly
+ * Revenue forecasting based on pipeline, against the period's sales quotas
  */
 router.get('/forecast', sessionAuthMiddleware, async (req: Request, res: Response) => {
   try {
@@ -1471,6 +1551,8 @@ router.get('/forecast', sessionAuthMiddleware, async (req: Request, res: Respons
     let worstCase = 0;
 
     const byStage: Record<string, { count: number; value: number; weighted: number }> = {};
+    // Weighted pipeline per rep for forecast vs quota; 0 = unassigned
+    const weightedByRep = new Map<number, number>();
 
     allLeads.forEach((lead: any) => {
       const value = parseFloat(lead.estimatedValue || '0');
@@ -1485,11 +1567,16 @@ router.get('/forecast', sessionAuthMiddleware, async (req: Request, res: Respons
       byStage[stage].value += value;
       byStage[stage].weighted += value * probability;
 
+      const rep = lead.assignedTo || 0;
+      weightedByRep.set(rep, (weightedByRep.get(rep) || 0) + value * probability);
+
       weightedForecast += value * probability;
       bestCase += value;
       worstCase += value * (probability * 0.5);
     });
 
+    const vsQuota = await territoryQuotaService.forecastVsQuota(req.query.periodType, weightedByRep);
+
     res.json({
       success: true,
       forecast: {
@@ -1498,11 +1585,15 @@ router.get('/forecast', sessionAuthMiddleware, async (req: Request, res: Respons
         worstCase: Math.round(worstCase),
         byStage,
         leadsInPipeline: allLeads.length,
-        methodology: 'Stage-based probability weighting'
+        methodology: 'Stage-based probability weighting',
+        vsQuota
       }
     });
 
   } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Forecast error:', error);
     res.status(500).json({ error: 'Failed to generate forecast' });
   }
@@ -1569,9 +1660,9 @@ function buildLeadJourney(lead: any): LeadJourney {
 // -----------------------------------------------------------------------------
 
 router.get('/leads/export-template', sessionAuthMiddleware, async (req: Request, res: Response) => {
-  const template = `clientName,contactPhone,contactEmail,state,entityType,serviceInterested,leadSource,leadStage,priority,estimatedValue,remarks
-"ABC Pvt Ltd",9876543210,abc@example.com,Maharashtra,pvt_ltd,"GST Registration",website,Hot,high,50000,"Interested in quick registration"
-"XYZ LLP",8765432109,xyz@example.com,Karnataka,llp,"Company Incorporation",referral,Warm,medium,75000,"Referred by existing client"`;
+  const template = `clientName,contactPhone,contactEmail,pan,gstin,state,entityType,serviceInterested,leadSource,leadStage,priority,estimatedValue,remarks
+"ABC Pvt Ltd",9876543210,abc@example.com,AAACA1234B,27AAACA1234B1Z5,Maharashtra,pvt_ltd,"GST Registration",website,Hot,high,50000,"Interested in quick registration"
+"XYZ LLP",8765432109,xyz@example.com,,,Karnataka,llp,"Company Incorporation",referral,Warm,medium,75000,"Referred by existing client"`;
 
   res.setHeader('Content-Type', 'text/csv');
   res.setHeader('Content-Disposition', 'attachment; filename=lead_import_template.csv');
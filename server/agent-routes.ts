@@ -17,6 +17,8 @@ import { leads, users, commissions, serviceRequests, services, businessEntities,
 import { agentKycStatus, agentKycDocuments, documents, kycVerificationLog } from './db/schema/agent-kyc';
 import { eq, and, desc, sql, gte, lte } from 'drizzle-orm';
 import { sessionAuthMiddleware, requireMinimumRole, requireRole, USER_ROLES, type AuthenticatedRequest } from './rbac-middleware';
+import { leadDedupService } from './services/lead-dedup-service';
+import { attributionService } from './services/attribution-service';
 
 // Middleware combination for agent routes - requires authentication + agent role or higher
 const agentAuth = [sessionAuthMiddleware, requireMinimumRole(USER_ROLES.AGENT)] as const;
@@ -225,6 +227,22 @@ export function registerAgentRoutes(app: Express) {
         return res.status(400).json({ error: 'Contact name and phone are required' });
       }
 
+      // Another agent or the sales team may already be working this prospect;
+      // agents are told so without seeing whose lead it is
+      const duplicates = await leadDedupService.check({
+        clientName: companyName || contactName,
+        contactEmail: email,
+        contactPhone: phone,
+        pan: req.body.pan,
+        gstin: req.body.gstin,
+      });
+      if (duplicates.likely.length > 0) {
+        return res.status(409).json({
+          error: 'This prospect is already registered as a lead',
+          leadId: duplicates.likely.find(match => match.agentId === agentId)?.leadId ?? null,
+        });
+      }
+
       const [newLead] = await db.insert(leads)
         .values({
           companyName,
@@ -240,6 +258,9 @@ export function registerAgentRoutes(app: Express) {
         })
         .returning();
 
+      await leadDedupService.recordMatches(newLead.id, duplicates.possible, 'agent_portal');
+      await attributionService.recordLeadOrigin({ id: newLead.id, agentId, createdAt: newLead.createdAt }, req.body, agentId);
+
       res.status(201).json({
         message: 'Lead created successfully',
         lead: newLead,
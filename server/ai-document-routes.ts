@@ -15,6 +15,7 @@ import {
   insertDocumentSignatorySchema,
 } from '@shared/schema';
 import { eq, desc, and, sql } from 'drizzle-orm';
+import { retentionEngine } from './services/documents';
 
 // ============================================================================
 // AI DOCUMENT PREPARATION AND SIGNATURE MANAGEMENT API
@@ -261,6 +262,18 @@ export function registerAiDocumentRoutes(app: Express) {
       const userId = req.user!.id;
       const documentId = parseInt(req.params.id);
       
+      const [document] = await db.select().from(aiDocuments).where(eq(aiDocuments.id, documentId)).limit(1);
+      if (document) {
+        const hold = await retentionEngine.activeHoldFor('ai_document', {
+          id: document.id,
+          category: document.category,
+          businessEntityId: document.entityId,
+        });
+        if (hold) {
+          return res.status(409).json({ error: `Document is under legal hold "${hold.name}" and cannot be deleted` });
+        }
+      }
+      
       await db.delete(aiDocuments).where(eq(aiDocuments.id, documentId));
       
       res.json({ success: true });
@@ -7,6 +7,7 @@ import { nanoid } from 'nanoid';
 import * as cron from 'node-cron';
 import crypto from 'crypto';
 import { emailService } from './email-service';
+import { resolveTenantFromHost } from './middleware/tenant-middleware';
 
 // Normalize IP address to handle IPv4, IPv6, and IPv4-mapped IPv6
 function normalizeIP(ip: string | undefined): string {
@@ -43,6 +44,18 @@ function generateCSRFToken(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
+// Tenant the user signed in to, kept on the session so later connections
+// cannot pick another one through the Host header
+async function resolveSessionTenant(req: Request): Promise<string | null> {
+  try {
+    const tenant = await resolveTenantFromHost(req.headers.host || '');
+    return tenant?.id ?? null;
+  } catch (error) {
+    console.error('Failed to resolve session tenant:', error);
+    return null;
+  }
+}
+
 // Production-ready PostgreSQL-based OTP storage with hashing (Salesforce-level security)
 async function storeOTP(email: string, otp: string, expiresAt: Date): Promise<void> {
   // Delete any existing OTPs for this email
@@ -154,6 +167,7 @@ export async function registerAuthRoutes(app: Express) {
         userAgent: req.headers['user-agent'] || 'unknown',
         fingerprint, // Session fingerprinting for hijack detection
         csrfToken, // CSRF protection token
+        tenantId: await resolveSessionTenant(req),
         expiresAt,
         isActive: true,
         lastActivity: new Date(),
@@ -338,6 +352,7 @@ export async function registerAuthRoutes(app: Express) {
         userAgent: req.headers['user-agent'] || 'unknown',
         fingerprint, // Session fingerprinting for hijack detection
         csrfToken, // CSRF protection token
+        tenantId: await resolveSessionTenant(req),
         expiresAt,
         isActive: true,
         lastActivity: new Date(),
@@ -441,6 +456,7 @@ export async function registerAuthRoutes(app: Express) {
         userAgent: req.headers['user-agent'] || 'unknown',
         fingerprint, // Session fingerprinting for hijack detection
         csrfToken, // CSRF protection token
+        tenantId: await resolveSessionTenant(req),
         expiresAt,
         isActive: true,
         lastActivity: new Date(),
@@ -16,6 +16,8 @@ import {
 import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES, type AuthenticatedRequest } from "./rbac-middleware";
 import { eq, and } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import { leadDedupService, type DuplicateMatch } from "./services/lead-dedup-service";
+import { scoreDuplicate, classifyScore, type DedupLead } from "./services/lead-dedup-rules";
 
 interface BulkImportResult {
   success: number;
@@ -49,7 +51,7 @@ export function registerBulkImportRoutes(app: Express) {
    */
   app.post("/api/crm/leads/bulk", ...requireSalesAccess, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { items } = req.body;
+      const { items, allowDuplicates = false } = req.body;
 
       if (!Array.isArray(items) || items.length === 0) {
         return res.status(400).json({ error: "Items array is required" });
@@ -101,22 +103,58 @@ export function registerBulkImportRoutes(app: Express) {
         });
       }
 
+      // Likely duplicates of existing leads, or of earlier rows in the batch, are
+      // skipped unless allowDuplicates; possible ones are imported and flagged
+      const duplicateRows: Array<{ row: number; duplicateOf: string; score: number }> = [];
+      const possibleMatches = new Map<number, DuplicateMatch[]>();
+      const accepted: Array<{ rowNum: number; candidate: DedupLead }> = [];
+      const itemsToInsert: typeof items = [];
+
+      for (const item of validItems) {
+        const candidate: DedupLead = {
+          clientName: item.companyName,
+          contactEmail: item.email,
+          contactPhone: item.phone,
+          pan: item.pan,
+          gstin: item.gstin,
+        };
+        const matches = await leadDedupService.check(candidate);
+        const inBatch = accepted
+          .map(previous => ({ row: previous.rowNum, ...scoreDuplicate(candidate, previous.candidate) }))
+          .find(match => classifyScore(match.score) === 'likely');
+
+        if (!allowDuplicates && (matches.likely.length > 0 || inBatch)) {
+          duplicateRows.push(matches.likely.length > 0
+            ? { row: item.rowNum, duplicateOf: matches.likely[0].leadCode, score: matches.likely[0].score }
+            : { row: item.rowNum, duplicateOf: `row ${inBatch!.row}`, score: inBatch!.score });
+          continue;
+        }
+
+        possibleMatches.set(item.rowNum, [...matches.likely, ...matches.possible]);
+        accepted.push({ rowNum: item.rowNum, candidate });
+        itemsToInsert.push(item);
+      }
+
       // PHASE 2: Insert all valid items in a transaction
-      const result: BulkImportResult = {
+      const result: BulkImportResult & { duplicates: typeof duplicateRows } = {
         success: 0,
         failed: 0,
         errors: [],
         insertedIds: [],
+        duplicates: duplicateRows,
       };
 
+      const insertedByRow = new Map<number, number>();
       await db.transaction(async (tx) => {
-        for (const item of validItems) {
+        for (const item of itemsToInsert) {
           const [inserted] = await tx.insert(leads).values({
             tenantId,
             companyName: item.companyName,
             contactPerson: item.contactPerson,
             email: item.email,
             phone: item.phone.replace(/[\s\-]/g, ''),
+            pan: item.pan || null,
+            gstin: item.gstin || null,
             leadSource: item.leadSource || 'bulk_import',
             stage: item.stage || 'new',
             requirementSummary: item.requirementSummary || '',
@@ -129,9 +167,14 @@ export function registerBulkImportRoutes(app: Express) {
 
           result.success++;
           result.insertedIds.push(inserted.id);
+          insertedByRow.set(item.rowNum, inserted.id);
         }
       });
 
+      for (const [rowNum, leadId] of Array.from(insertedByRow.entries())) {
+        await leadDedupService.recordMatches(leadId, possibleMatches.get(rowNum) || [], 'import');
+      }
+
       res.json(result);
     } catch (error: any) {
       console.error("Bulk lead import error:", error);
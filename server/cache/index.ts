@@ -13,6 +13,8 @@ export {
   cacheDeletePattern,
   cacheGetOrSet,
   getCacheStats,
+  publishMessage,
+  subscribeToChannel,
   closeRedis,
 } from './redis-client';
 
@@ -12,6 +12,9 @@ import { logger } from '../logger';
 let redisClient: RedisClientType | null = null;
 let isRedisConnected = false;
 
+// Subscriptions need a dedicated connection
+let subscriberClient: RedisClientType | null = null;
+
 // In-memory fallback cache
 const memoryCache = new Map<string, { value: string; expiry: number }>();
 
@@ -227,10 +230,59 @@ setInterval(() => {
   }
 }, 5 * 60 * 1000);
 
+/**
+ * Publish a message to a pub/sub channel
+ */
+export async function publishMessage(channel: string, message: string): Promise<boolean> {
+  try {
+    if (isRedisAvailable() && redisClient) {
+      await redisClient.publish(channel, message);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    logger.error(`Redis PUBLISH error for channel ${channel}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Subscribe to a pub/sub channel. Returns false when Redis is unavailable,
+ * in which case messages only reach this instance.
+ */
+export async function subscribeToChannel(
+  channel: string,
+  handler: (message: string) => void
+): Promise<boolean> {
+  try {
+    if (!isRedisAvailable() || !redisClient) {
+      return false;
+    }
+
+    if (!subscriberClient) {
+      subscriberClient = redisClient.duplicate();
+      subscriberClient.on('error', (err: Error) => {
+        logger.error('Redis Subscriber Error:', err.message);
+      });
+      await subscriberClient.connect();
+    }
+
+    await subscriberClient.subscribe(channel, handler);
+    return true;
+  } catch (error) {
+    logger.error(`Redis SUBSCRIBE error for channel ${channel}:`, error);
+    return false;
+  }
+}
+
 /**
  * Graceful shutdown
  */
 export async function closeRedis(): Promise<void> {
+  if (subscriberClient) {
+    await subscriberClient.quit();
+    subscriberClient = null;
+  }
   if (redisClient) {
     await redisClient.quit();
     redisClient = null;
@@ -14,6 +14,8 @@ import {
 import { eq, desc, and, gte, lte, or, asc, sql } from 'drizzle-orm';
 import { COMPLIANCE_KNOWLEDGE_BASE, getComplianceByCode } from './compliance-knowledge-base';
 import { mapComplianceCategory } from './compliance-taxonomy';
+import { penaltyEngine } from './services/penalty-engine';
+import { publishComplianceAlert, publishMessageCreated } from './realtime';
 import {
   sessionAuthMiddleware,
   requireRole,
@@ -337,10 +339,14 @@ export function registerClientRoutes(app: Express) {
         .where(and(...conditions))
         .orderBy(complianceTracking.dueDate);
 
+      // Itemised late fee and interest for filings with penalty terms
+      const penalties = await penaltyEngine.assessTrackingItems(complianceItems);
+
       // Enrich with compliance knowledge base data
       const transformedItems = complianceItems.map(item => {
         // Try to find matching rule in knowledge base by serviceId
         const knowledgeRule = getComplianceByCode(item.serviceId);
+        const penalty = penalties.get(item.id);
         
         return {
           id: item.id,
@@ -351,8 +357,13 @@ export function registerClientRoutes(app: Express) {
           priority: item.priority,
           complianceType: item.complianceType,
           healthScore: item.healthScore || 100,
-          penaltyRisk: item.penaltyRisk || false,
-          estimatedPenalty: item.estimatedPenalty || 0,
+          penaltyRisk: item.penaltyRisk || (penalty?.total ?? 0) > 0,
+          estimatedPenalty: penalty ? penalty.total : item.estimatedPenalty || 0,
+          penaltyBreakdown: penalty && penalty.total > 0 ? {
+            daysLate: penalty.daysLate,
+            components: penalty.components,
+            notes: penalty.notes,
+          } : null,
           serviceId: item.serviceId,
           complianceRuleId: item.complianceRuleId || null,
           lastCompleted: item.lastCompleted ? item.lastCompleted.toISOString() : null,
@@ -678,6 +689,15 @@ export function registerClientRoutes(app: Express) {
         })
         .returning();
 
+      publishMessageCreated({
+        id: newMessage.id,
+        threadId,
+        senderId: userId,
+        content: newMessage.content,
+        serviceRequestId: requestId,
+        businessEntityId: userEntityId,
+      });
+
       // Update the service request's updatedAt timestamp
       await db
         .update(serviceRequests)
@@ -1148,6 +1168,7 @@ export function registerClientRoutes(app: Express) {
           initiatedBy: userId,
         },
       }).returning();
+      publishComplianceAlert(alert);
 
       res.json({
         message: `Test notification sent to ${channel}`,
@@ -5,6 +5,7 @@ import { users } from "@shared/schema";
 import { eq, desc, and, sql } from "drizzle-orm";
 import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES, type AuthenticatedRequest } from "./rbac-middleware";
 import { commissionService } from "./services/commission-service";
+import { commissionTaxService } from "./services/commission-tax-service";
 
 // Valid agent tiers for validation
 const VALID_AGENT_TIERS = ['silver', 'gold', 'platinum'] as const;
@@ -353,6 +354,9 @@ export function registerCommissionRoutes(app: Express) {
             commissionAmount: commissionPayouts.commissionAmount,
             bonusAmount: commissionPayouts.bonusAmount,
             deductions: commissionPayouts.deductions,
+            tdsAmount: commissionPayouts.tdsAmount,
+            tdsRate: commissionPayouts.tdsRate,
+            gstTreatment: commissionPayouts.gstTreatment,
             netAmount: commissionPayouts.netAmount,
             status: commissionPayouts.status,
             paymentReference: commissionPayouts.paymentReference,
@@ -397,7 +401,7 @@ export function registerCommissionRoutes(app: Express) {
    * POST /api/super-admin/commission-payouts
    * Create a new payout
    * Body: { agentId, periodStart, periodEnd, totalSales, commissionAmount, bonusAmount, deductions }
-   * Calculates netAmount = commissionAmount + bonusAmount - deductions
+   * Applies TDS u/s 194H and GST from the agent tax profile on top of any other deductions
    */
   app.post(
     "/api/super-admin/commission-payouts",
@@ -440,11 +444,15 @@ export function registerCommissionRoutes(app: Express) {
           return res.status(404).json({ error: "Agent not found" });
         }
 
-        // Calculate netAmount
+        // TDS and GST on top of any other deductions; netAmount = commission + bonus + GST paid to agent - deductions
         const commission = parseFloat(commissionAmount || '0');
         const bonus = parseFloat(bonusAmount || '0');
         const deduct = parseFloat(deductions || '0');
-        const netAmount = commission + bonus - deduct;
+        const { columns } = await commissionTaxService.assess(
+          agentId,
+          { commission, bonus, otherDeductions: deduct },
+          new Date(periodEnd)
+        );
 
         const [created] = await db
           .insert(commissionPayouts)
@@ -455,12 +463,15 @@ export function registerCommissionRoutes(app: Express) {
             totalSales: totalSales?.toString() || null,
             commissionAmount: commissionAmount?.toString() || null,
             bonusAmount: bonusAmount?.toString() || null,
-            deductions: deductions?.toString() || null,
-            netAmount: netAmount.toString(),
+            ...columns,
             status: PAYOUT_STATUS.PENDING,
           })
           .returning();
 
+        if (commission + bonus > 0) {
+          await commissionService.recordPayoutTax(created);
+        }
+
         res.status(201).json(created);
       } catch (error: any) {
         console.error('Failed to create commission payout:', error);
@@ -565,6 +576,9 @@ export function registerCommissionRoutes(app: Express) {
           .where(eq(commissionPayouts.id, payoutId))
           .returning();
 
+        // Idempotent; covers payouts created before deductions were recorded
+        await commissionService.recordPayoutTax(updated);
+
         res.json(updated);
       } catch (error: any) {
         console.error('Failed to mark commission payout as paid:', error);
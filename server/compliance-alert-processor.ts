@@ -4,6 +4,7 @@ import { complianceTracking, complianceRules, complianceAlerts, notifications, b
 import { and, eq, sql } from 'drizzle-orm';
 import { logger } from './logger';
 import { triggerWorkflowAutomation } from './workflow-automation-engine';
+import { publishComplianceAlert } from './realtime';
 
 const UPCOMING_THRESHOLDS = [7, 3, 1, 0]; // days before due date
 
@@ -214,7 +215,7 @@ export class ComplianceAlertProcessor {
     actionRequired: string;
     metadata: Record<string, unknown>;
   }) {
-    await db.insert(complianceAlerts).values({
+    const [alert] = await db.insert(complianceAlerts).values({
       entityId: payload.entityId,
       ruleId: payload.ruleId,
       alertType: payload.alertType,
@@ -224,7 +225,8 @@ export class ComplianceAlertProcessor {
       actionRequired: payload.actionRequired,
       triggeredAt: new Date(),
       metadata: payload.metadata,
-    });
+    }).returning();
+    publishComplianceAlert(alert);
 
     await db.insert(notifications).values({
       userId: payload.userId,
@@ -1,16 +1,27 @@
 /**
  * Compliance Event Emitter
- * 
+ *
  * Central event bus for entity state changes
  * Triggers state recalculation when relevant data changes
- * 
+ *
  * Design: Debounced queue to prevent calculation storms
+ * - Changes are resolved to the entity / domain pairs they affect
+ *   (see services/compliance-dependency-resolver)
+ * - Pending recalculations are merged per entity and debounced
+ * - Each flush enqueues one job per entity on the COMPLIANCE queue, deduplicated
+ *   while an identical job is still waiting
  */
 
 import { EventEmitter } from 'events';
-import { stateEngine } from './compliance-state-engine';
+import { addJob, QueueNames } from './queues';
+import { logger } from './logger';
+import type { ComplianceDomain } from '../shared/compliance-state-types';
+import {
+  complianceDependencyResolver,
+  type ComplianceChange,
+} from './services/compliance-dependency-resolver';
 
-export type EntityChangeReason = 
+export type EntityChangeReason =
   | 'document_uploaded'
   | 'document_approved'
   | 'document_rejected'
@@ -19,41 +30,104 @@ export type EntityChangeReason =
   | 'service_created'
   | 'service_updated'
   | 'service_completed'
+  | 'service_status_changed'
   | 'task_completed'
+  | 'action_completed'
   | 'due_date_updated'
   | 'filing_submitted'
+  | 'rule_changed'
   | 'manual_trigger'
   | 'scheduled_recalc';
 
 interface EntityChangeEvent {
   entityId: number;
   reason: EntityChangeReason;
+  domains: ComplianceDomain[] | null; // null: every domain
   metadata?: any;
   timestamp: Date;
 }
 
+interface PendingRecalculation {
+  entityId: number;
+  domains: Set<ComplianceDomain> | null;
+  reasons: Set<EntityChangeReason>;
+  firstQueuedAt: number;
+}
+
+export interface RecalculationJobData {
+  action: 'recalculate_entity';
+  entityId: number;
+  domains: ComplianceDomain[] | null;
+  reasons: EntityChangeReason[];
+}
+
+/**
+ * Identical pending jobs (same entity, same domains) collapse into one
+ */
+export function recalculationJobId(entityId: number, domains: ComplianceDomain[] | null): string {
+  return `compliance-recalc:${entityId}:${domains ? [...domains].sort().join(',') || 'entity' : 'all'}`;
+}
+
 class ComplianceEventEmitter extends EventEmitter {
-  private recalcQueue: Map<number, EntityChangeEvent> = new Map();
+  private recalcQueue: Map<number, PendingRecalculation> = new Map();
   private debounceTimer: NodeJS.Timeout | null = null;
   private readonly DEBOUNCE_MS = 5000; // 5 seconds
+  private readonly MAX_WAIT_MS = 60000; // Flush even under a steady stream of changes
   private processing = false;
 
   /**
    * Emit entity change event
-   * Will trigger debounced recalculation
+   * Will trigger debounced recalculation of every domain
    */
   emitEntityChanged(entityId: number, reason: EntityChangeReason, metadata?: any) {
-    const event: EntityChangeEvent = {
-      entityId,
-      reason,
-      metadata,
-      timestamp: new Date(),
-    };
+    this.enqueue({ entityId, reason, domains: null, metadata, timestamp: new Date() });
+  }
 
-    console.log(`📡 Entity change event: Entity ${entityId} - ${reason}`);
+  /**
+   * Emit a data change. Only the entity / domain pairs it affects are
+   * recalculated; if they cannot be resolved, the whole entity is.
+   */
+  async emitChange(change: ComplianceChange, reason: EntityChangeReason, metadata?: any): Promise<void> {
+    try {
+      const scopes = await complianceDependencyResolver.resolve(change);
+      for (const scope of scopes) {
+        this.enqueue({ entityId: scope.entityId, reason, domains: scope.domains, metadata, timestamp: new Date() });
+      }
+    } catch (error) {
+      logger.error(`Failed to resolve compliance dependencies for ${change.type} change:`, error);
+      if ('entityId' in change) {
+        this.emitEntityChanged(change.entityId, reason, metadata);
+      }
+    }
+  }
 
-    // Add to queue (overwrites previous event for same entity)
-    this.recalcQueue.set(entityId, event);
+  /**
+   * Enqueue a recalculation now, bypassing the debounce
+   */
+  async recalculate(entityId: number, domains: ComplianceDomain[] | null = null): Promise<string | null> {
+    return this.addRecalculationJob({ action: 'recalculate_entity', entityId, domains, reasons: ['manual_trigger'] });
+  }
+
+  private enqueue(event: EntityChangeEvent) {
+    console.log(`📡 Entity change event: Entity ${event.entityId} - ${event.reason}${event.domains ? ` [${event.domains.join(', ') || 'entity'}]` : ''}`);
+
+    // Merge with the pending recalculation for the same entity
+    const pending = this.recalcQueue.get(event.entityId);
+    if (!pending) {
+      this.recalcQueue.set(event.entityId, {
+        entityId: event.entityId,
+        domains: event.domains ? new Set(event.domains) : null,
+        reasons: new Set([event.reason]),
+        firstQueuedAt: Date.now(),
+      });
+    } else {
+      pending.reasons.add(event.reason);
+      if (pending.domains && event.domains) {
+        event.domains.forEach((domain) => pending.domains!.add(domain));
+      } else {
+        pending.domains = null;
+      }
+    }
 
     // Emit for listeners
     this.emit('entity:changed', event);
@@ -70,17 +144,24 @@ class ComplianceEventEmitter extends EventEmitter {
       clearTimeout(this.debounceTimer);
     }
 
+    const oldest = Math.min(...Array.from(this.recalcQueue.values()).map((pending) => pending.firstQueuedAt));
+    const delay = Math.max(0, Math.min(this.DEBOUNCE_MS, oldest + this.MAX_WAIT_MS - Date.now()));
+
     this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
       this.processQueue();
-    }, this.DEBOUNCE_MS);
+    }, delay);
+    // Pending recalculations alone should not keep the process alive
+    this.debounceTimer.unref?.();
   }
 
   /**
-   * Process queued recalculations
+   * Move pending recalculations onto the COMPLIANCE queue
    */
   private async processQueue() {
     if (this.processing) {
-      console.log('⏳ Queue processing already in progress, skipping...');
+      console.log('⏳ Queue processing already in progress, rescheduling...');
+      this.scheduleProcessing();
       return;
     }
 
@@ -89,51 +170,34 @@ class ComplianceEventEmitter extends EventEmitter {
     }
 
     this.processing = true;
-    const queueSnapshot = new Map(this.recalcQueue);
+    const queueSnapshot = Array.from(this.recalcQueue.values());
     this.recalcQueue.clear();
 
-    console.log(`🔄 Processing ${queueSnapshot.size} entity state recalculations...`);
+    console.log(`🔄 Enqueueing ${queueSnapshot.length} entity state recalculations...`);
 
     const results = {
-      success: 0,
+      enqueued: 0,
       failed: 0,
       errors: [] as { entityId: number; error: string }[],
     };
 
-    for (const [entityId, event] of queueSnapshot) {
-      try {
-        const result = await stateEngine.calculateEntityState(entityId);
-        
-        if (result.success) {
-          results.success++;
-          console.log(`  ✅ Entity ${entityId} - ${event.reason}`);
-          
-          // Emit completion event
-          this.emit('entity:recalculated', {
-            entityId,
-            reason: event.reason,
-            state: result.entityState.overallState,
-            riskScore: result.entityState.overallRiskScore,
-          });
-        } else {
-          results.failed++;
-          results.errors.push({
-            entityId,
-            error: result.errors.join(', '),
-          });
-          console.error(`  ❌ Entity ${entityId} - ${result.errors.join(', ')}`);
-        }
-      } catch (error: any) {
+    for (const pending of queueSnapshot) {
+      const jobId = await this.addRecalculationJob({
+        action: 'recalculate_entity',
+        entityId: pending.entityId,
+        domains: pending.domains ? Array.from(pending.domains).sort() : null,
+        reasons: Array.from(pending.reasons),
+      });
+
+      if (jobId) {
+        results.enqueued++;
+      } else {
         results.failed++;
-        results.errors.push({
-          entityId,
-          error: error.message,
-        });
-        console.error(`  ❌ Entity ${entityId} - ${error.message}`);
+        results.errors.push({ entityId: pending.entityId, error: 'Failed to enqueue recalculation' });
       }
     }
 
-    console.log(`✅ Queue processing complete: ${results.success} success, ${results.failed} failed`);
+    console.log(`✅ Queue processing complete: ${results.enqueued} enqueued, ${results.failed} failed`);
 
     if (results.errors.length > 0) {
       console.error('Recalculation errors:', results.errors);
@@ -145,6 +209,12 @@ class ComplianceEventEmitter extends EventEmitter {
     this.emit('queue:processed', results);
   }
 
+  private addRecalculationJob(data: RecalculationJobData): Promise<string | null> {
+    return addJob(QueueNames.COMPLIANCE, 'recalculate_entity', data, {
+      deduplication: { id: recalculationJobId(data.entityId, data.domains) },
+    });
+  }
+
   /**
    * Force immediate processing (bypass debounce)
    */
@@ -182,16 +252,27 @@ class ComplianceEventEmitter extends EventEmitter {
 
 // Export singleton instance
 export const complianceEvents = new ComplianceEventEmitter();
+export const complianceEventEmitter = complianceEvents;
 
 // Convenience function for common usage
 export function triggerEntityRecalculation(
-  entityId: number, 
+  entityId: number,
   reason: EntityChangeReason,
   metadata?: any
 ) {
   complianceEvents.emitEntityChanged(entityId, reason, metadata);
 }
 
+// Convenience function for data changes with dependency tracking
+export function triggerComplianceChange(
+  change: ComplianceChange,
+  reason: EntityChangeReason,
+  metadata?: any
+) {
+  complianceEvents.emitChange(change, reason, metadata)
+    .catch((error) => logger.error('Failed to emit compliance change:', error));
+}
+
 // Health check endpoint data
 export function getEventSystemStatus() {
   return {
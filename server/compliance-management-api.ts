@@ -23,6 +23,8 @@ import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES } from './rbac-mi
 import { mapComplianceCategory } from './compliance-taxonomy';
 import { ensureRequiredDocumentsForRuleIds, getEvidenceStatusForRule } from './compliance-evidence';
 import { computeDueDateFromFormula, computeNextDueDate } from './compliance-due-date';
+import { triggerComplianceChange, type EntityChangeReason } from './compliance-event-emitter';
+import { publishComplianceAlert } from './realtime';
 
 const router = Router();
 
@@ -399,6 +401,7 @@ router.post('/items', sessionAuthMiddleware, requireMinimumRole(USER_ROLES.OPERA
       updatedAt: new Date(),
     }).returning();
 
+    notifyTrackingChanged(newItem, 'service_created');
     res.json({ success: true, item: newItem });
   } catch (error) {
     console.error('Error creating compliance item:', error);
@@ -406,6 +409,20 @@ router.post('/items', sessionAuthMiddleware, requireMinimumRole(USER_ROLES.OPERA
   }
 });
 
+// Queue a state engine recalculation for the tracked rule's domain
+function notifyTrackingChanged(
+  item: { id: number; businessEntityId: number | null; complianceRuleId: number | null; serviceId: string } | undefined,
+  reason: EntityChangeReason
+) {
+  if (!item?.businessEntityId) return;
+  triggerComplianceChange({
+    type: 'tracking',
+    entityId: item.businessEntityId,
+    complianceRuleId: item.complianceRuleId,
+    serviceId: item.serviceId,
+  }, reason, { trackingId: item.id });
+}
+
 // Update compliance item
 router.patch('/items/:id', sessionAuthMiddleware, async (req: Request, res: Response) => {
   try {
@@ -435,6 +452,7 @@ router.patch('/items/:id', sessionAuthMiddleware, async (req: Request, res: Resp
       .where(eq(complianceTracking.id, parseInt(id)))
       .returning();
 
+    notifyTrackingChanged(updated, updatePayload.dueDate ? 'due_date_updated' : 'service_updated');
     res.json({ success: true, item: updated });
   } catch (error) {
     console.error('Error updating compliance item:', error);
@@ -573,6 +591,7 @@ router.post('/items/:id/complete', sessionAuthMiddleware, async (req: Request, r
     if (updated?.businessEntityId) {
       await recalculateComplianceState(updated.businessEntityId);
     }
+    notifyTrackingChanged(updated, 'filing_submitted');
 
     res.json({ success: true, item: updated });
   } catch (error) {
@@ -598,7 +617,7 @@ router.post('/items/:id/extension', sessionAuthMiddleware, async (req: Request,
       .returning();
 
     // Create alert for admin review
-    await db.insert(complianceAlerts).values({
+    const [alert] = await db.insert(complianceAlerts).values({
       entityId: updated.businessEntityId!,
       ruleId: updated.serviceId,
       alertType: 'EXTENSION_REQUEST',
@@ -613,7 +632,8 @@ router.post('/items/:id/extension', sessionAuthMiddleware, async (req: Request,
         reason,
         requestedBy,
       },
-    });
+    }).returning();
+    publishComplianceAlert(alert);
 
     res.json({ success: true, item: updated });
   } catch (error) {
@@ -709,8 +729,11 @@ router.delete('/items/:id', sessionAuthMiddleware, requireMinimumRole(USER_ROLES
   try {
     const { id } = req.params;
 
-    await db.delete(complianceTracking).where(eq(complianceTracking.id, parseInt(id)));
+    const [deleted] = await db.delete(complianceTracking)
+      .where(eq(complianceTracking.id, parseInt(id)))
+      .returning();
 
+    notifyTrackingChanged(deleted, 'service_updated');
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting compliance item:', error);
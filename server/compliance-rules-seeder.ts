@@ -146,6 +146,7 @@ export async function seedComplianceRules(storage: IStorage) {
       dueDateCalculationType: 'fixed_date',
       dueDateFormula: { type: 'fixed', day: 30, month: 5 }, // 30 May / 29 Nov
       applicableEntityTypes: ['public_limited'],
+      applicabilityExpression: { fact: 'isListed', op: 'eq', value: false }, // Listed companies report to the stock exchange instead
       priorityLevel: 'medium',
       penaltyRiskLevel: 'medium',
       metadata: { note: 'Due within 60 days of half-year end' }
@@ -701,6 +702,24 @@ export async function seedComplianceRules(storage: IStorage) {
       penaltyRiskLevel: 'medium'
     },
 
+    // ==================== FEMA ====================
+
+    {
+      ruleCode: 'FEMA_FLA_ANNUAL',
+      regulationCategory: 'fema',
+      complianceName: 'FLA Return: Foreign Liabilities and Assets',
+      formNumber: 'FLA',
+      description: 'Annual return to RBI by entities that received FDI or made overseas investment',
+      periodicity: 'annual',
+      dueDateCalculationType: 'fixed_date',
+      dueDateFormula: { type: 'fixed', day: 15, month: 7 }, // 15th July
+      applicableEntityTypes: ['pvt_ltd', 'public_limited', 'opc', 'llp'],
+      applicabilityExpression: { fact: 'hasForeignInvestment', op: 'eq', value: true },
+      priorityLevel: 'high',
+      penaltyRiskLevel: 'high',
+      metadata: { authority: 'RBI', legal_reference: 'FEMA 1999, Master Direction on Reporting' }
+    },
+
     // ==================== FUNDING READINESS ====================
 
     {
@@ -18,7 +18,7 @@ import {
   complianceAlerts,
   stateCalculationLog 
 } from '../shared/compliance-state-schema';
-import { complianceRules, complianceTracking, businessEntities, serviceRequests, documentsUploads, documentVault } from '../shared/schema';
+import { complianceRules, complianceTracking, businessEntities, serviceRequests, documentsUploads, documentVault, type ComplianceDueDateExtension } from '../shared/schema';
 import {
   ComplianceState,
   ComplianceDomain,
@@ -27,12 +27,42 @@ import {
   ComplianceRequirementStatus,
   StateCalculationInput,
   StateCalculationResult,
-  ComplianceRule
+  ComplianceRule,
+  PenaltyRuleTerms,
+  PenaltyComponent
 } from '../shared/compliance-state-types';
 import { eq, and, gte, lte, sql } from 'drizzle-orm';
 import { computeDueDateFromFormula } from './compliance-due-date';
+import { deadlineResolver, normalizeAdjustment, type DeadlineContext } from './services/deadline-resolver';
+import { dueDateExtensionService, findApplicableExtensions } from './services/due-date-extension-service';
+import { penaltyEngine, assessPenalty } from './services/penalty-engine';
+import { entityFactsFromInput, entityFactsFromRecord, isRuleApplicable } from './services/rule-applicability';
+import { publishComplianceAlert } from './realtime';
 
-const CALCULATION_VERSION = '1.0.0';
+export const CALCULATION_VERSION = '1.1.0';
+
+export const COMPLIANCE_DOMAINS: ComplianceDomain[] = ['CORPORATE', 'TAX_GST', 'TAX_INCOME', 'LABOUR', 'FEMA', 'LICENSES', 'STATUTORY'];
+
+export interface StateCalculationOptions {
+  domains?: ComplianceDomain[]; // Recalculate only these domains, keeping the others from the saved state
+  triggeredBy?: string; // Recorded in state_calculation_log (MANUAL, EVENT, RECONCILIATION, ...)
+}
+
+export function mapRegulationCategoryToDomain(category?: string | null): ComplianceDomain {
+  const normalized = (category || '').toLowerCase();
+  if (['companies_act', 'business_registration', 'funding_readiness'].includes(normalized)) {
+    return 'CORPORATE';
+  }
+  if (normalized === 'gst') return 'TAX_GST';
+  if (['income_tax', 'tds', 'tcs'].includes(normalized)) return 'TAX_INCOME';
+  if (['pf_esi', 'labour_laws', 'professional_tax', 'payroll'].includes(normalized)) {
+    return 'LABOUR';
+  }
+  if (normalized === 'fema') return 'FEMA';
+  if (normalized === 'licenses' || normalized === 'license') return 'LICENSES';
+  if (normalized === 'general') return 'STATUTORY';
+  return 'STATUTORY';
+}
 
 // ============================================================================
 // MAIN STATE CALCULATION ENGINE
@@ -44,55 +74,24 @@ export class ComplianceStateEngine {
    * Calculate compliance state for an entity
    * This is the main entry point
    */
-  async calculateEntityState(entityId: number): Promise<StateCalculationResult> {
+  async calculateEntityState(entityId: number, options: StateCalculationOptions = {}): Promise<StateCalculationResult> {
     const startTime = Date.now();
     const errors: string[] = [];
     const warnings: string[] = [];
 
     try {
-      // 1. Gather input data
-      const input = await this.gatherInputData(entityId);
-      if (!input) {
+      // 1-6. Gather input, load rules and build the entity state
+      const evaluation = await this.evaluateEntityState(entityId, undefined, options.domains);
+      if (!evaluation) {
         return this.errorResult('Entity not found', startTime);
       }
-
-      // 2. Load applicable rules
-      const rules = await this.loadApplicableRules(input);
-      console.log(`📋 Loaded ${rules.length} applicable rules for entity ${entityId}`);
-
-      // 3. Calculate state for each domain
-      const domainStates = await this.calculateDomainStates(input, rules);
-
-      // 4. Calculate overall state
-      const overallState = this.calculateOverallState(domainStates);
-
-      // 5. Identify next critical action
-      const nextAction = this.identifyNextCriticalAction(domainStates);
-
-      // 6. Build entity state
-      const entityState: EntityComplianceState = {
-        entityId: input.entityId,
-        entityName: input.entityName || input.entityType,
-        entityType: input.entityType,
-        overallState: overallState.state,
-        overallRiskScore: overallState.riskScore,
-        daysUntilNextDeadline: nextAction.daysUntil,
-        nextCriticalDeadline: nextAction.deadline,
-        nextCriticalAction: nextAction.action,
-        totalPenaltyExposure: this.sumPenaltyExposure(domainStates),
-        totalOverdueItems: this.countOverdueItems(domainStates),
-        totalUpcomingItems: this.countUpcomingItems(domainStates),
-        domains: domainStates,
-        calculatedAt: new Date(),
-        calculationVersion: CALCULATION_VERSION,
-        dataCompletenessScore: this.calculateDataCompleteness(input),
-      };
+      const { entityState, overallState, rules } = evaluation;
 
       // 7. Save state to database
       await this.saveState(entityState);
 
       // 8. Log calculation
-      await this.logCalculation(entityId, null, overallState.state, rules.length, errors, warnings, Date.now() - startTime);
+      await this.logCalculation(entityId, evaluation.previousState, overallState.state, rules.length, errors, warnings, Date.now() - startTime, options.triggeredBy);
 
       // 9. Generate alerts if needed
       await this.generateAlerts(entityState);
@@ -108,11 +107,102 @@ export class ComplianceStateEngine {
     } catch (error: any) {
       console.error(`❌ State calculation failed for entity ${entityId}:`, error);
       errors.push(error.message);
-      await this.logCalculation(entityId, null, 'RED', 0, errors, warnings, Date.now() - startTime);
+      await this.logCalculation(entityId, null, 'RED', 0, errors, warnings, Date.now() - startTime, options.triggeredBy);
       return this.errorResult(error.message, startTime);
     }
   }
 
+  /**
+   * Reconstruct an entity's state as it stood at a past date, without saving it.
+   * Tracking, documents and service requests are taken as they were at that date
+   * (later completions undone, later records left out), and only rules and
+   * extensions in effect then are applied.
+   */
+  async reconstructEntityState(entityId: number, asOf: Date): Promise<{ entityState: EntityComplianceState; rulesApplied: number } | null> {
+    const evaluation = await this.evaluateEntityState(entityId, asOf);
+    if (!evaluation) return null;
+    return { entityState: evaluation.entityState, rulesApplied: evaluation.rules.length };
+  }
+
+  private async evaluateEntityState(entityId: number, asOf?: Date, onlyDomains?: ComplianceDomain[]) {
+    const clock = asOf || new Date();
+
+    // 1. Gather input data
+    const input = await this.gatherInputData(entityId, asOf);
+    if (!input) return null;
+
+    // 2. Load applicable rules
+    const rules = await this.loadApplicableRules(input, clock, !!asOf);
+    console.log(`📋 Loaded ${rules.length} applicable rules for entity ${entityId}`);
+
+    // A domain-scoped recalculation reuses the saved state of the other domains,
+    // unless there is none or it was calculated by another engine version
+    const saved = asOf ? null : await this.loadSavedDomainStates(entityId);
+    const domains = onlyDomains && saved?.calculationVersion === CALCULATION_VERSION
+      ? COMPLIANCE_DOMAINS.filter((domain) => onlyDomains.includes(domain))
+      : COMPLIANCE_DOMAINS;
+
+    // 3. Calculate state for each domain, with deadlines on the entity's holiday calendar
+    //    and government extensions applied
+    const deadlines = await this.loadDeadlineContext(input, clock);
+    const extensions = (await dueDateExtensionService.getActiveExtensions())
+      .filter((extension) => !asOf || !extension.createdAt || extension.createdAt <= asOf);
+    const recalculated = await this.calculateDomainStates(input, rules, deadlines, extensions, clock, domains);
+    const domainStates = domains === COMPLIANCE_DOMAINS
+      ? recalculated
+      : COMPLIANCE_DOMAINS
+          .map((domain) => domains.includes(domain)
+            ? recalculated.find((state) => state.domain === domain)
+            : saved!.domains.find((state) => state.domain === domain))
+          .filter((state): state is DomainComplianceState => !!state);
+
+    // 4. Calculate overall state
+    const overallState = this.calculateOverallState(domainStates);
+
+    // 5. Identify next critical action
+    const nextAction = this.identifyNextCriticalAction(domainStates);
+
+    // 6. Build entity state
+    const entityState: EntityComplianceState = {
+      entityId: input.entityId,
+      entityName: input.entityName || input.entityType,
+      entityType: input.entityType,
+      overallState: overallState.state,
+      overallRiskScore: overallState.riskScore,
+      daysUntilNextDeadline: nextAction.daysUntil,
+      nextCriticalDeadline: nextAction.deadline,
+      nextCriticalAction: nextAction.action,
+      totalPenaltyExposure: this.sumPenaltyExposure(domainStates),
+      totalOverdueItems: this.countOverdueItems(domainStates),
+      totalUpcomingItems: this.countUpcomingItems(domainStates),
+      domains: domainStates,
+      calculatedAt: new Date(),
+      calculationVersion: CALCULATION_VERSION,
+      dataCompletenessScore: this.calculateDataCompleteness(input),
+    };
+
+    return { input, rules, overallState, entityState, previousState: saved?.overallState || null };
+  }
+
+  private async loadSavedDomainStates(entityId: number): Promise<{
+    overallState: ComplianceState;
+    calculationVersion: string;
+    domains: DomainComplianceState[];
+  } | null> {
+    const [saved] = await db.select().from(complianceStates)
+      .where(eq(complianceStates.entityId, entityId))
+      .limit(1);
+    if (!saved) return null;
+
+    // Saved as JSON; restore dates the same way history snapshots are
+    const { reviveEntityState } = await import('./services/compliance-replay-service');
+    return {
+      overallState: saved.overallState as ComplianceState,
+      calculationVersion: saved.calculationVersion,
+      domains: reviveEntityState({ domains: saved.domainStates }).domains,
+    };
+  }
+
   /**
    * Recalculate all entities (for batch processing)
    */
@@ -148,7 +238,7 @@ export class ComplianceStateEngine {
   // DATA GATHERING
   // ============================================================================
 
-  private async gatherInputData(entityId: number): Promise<StateCalculationInput | null> {
+  private async gatherInputData(entityId: number, asOf?: Date): Promise<StateCalculationInput | null> {
     // Gather all data needed for state calculation
     const [entity] = await db
       .select()
@@ -183,26 +273,42 @@ export class ComplianceStateEngine {
         nextDueDate: complianceTracking.nextDueDate,
         status: complianceTracking.status,
         lastCompleted: complianceTracking.lastCompleted,
-        priority: complianceTracking.priority
+        priority: complianceTracking.priority,
+        taxLiability: complianceTracking.taxLiability,
+        createdAt: complianceTracking.createdAt
       })
       .from(complianceTracking)
       .where(eq(complianceTracking.businessEntityId, entityId));
 
+    // When reconstructing a past state, keep only what existed at that date
+    const existedAt = (createdAt: Date | null) => !asOf || !createdAt || createdAt <= asOf;
+    const trackingAsOf = trackingItems
+      .filter((item: typeof trackingItems[number]) => existedAt(item.createdAt))
+      .map(({ createdAt, ...item }: typeof trackingItems[number]) => {
+        if (asOf && item.status === 'completed' && item.lastCompleted && item.lastCompleted > asOf) {
+          return { ...item, status: 'pending', lastCompleted: null, nextDueDate: null };
+        }
+        return item;
+      });
+
     // Build input
+    const facts = entityFactsFromRecord(entity);
     const input: StateCalculationInput = {
       entityId: entity.id,
       entityName: (entity as any).name || (entity as any).businessName || null,
       entityType: entity.entityType || 'pvt_ltd',
       incorporationDate: entity.incorporationDate || null,
-      turnover: entity.annualTurnover ? parseFloat(entity.annualTurnover) : null,
-      employeeCount: entity.employeeCount ?? null,
-      state: entity.state || null,
-      hasGST: entity.gstin ? true : false,
-      hasPF: entity.employeeCount ? entity.employeeCount >= 20 : false,
-      hasESI: entity.employeeCount ? entity.employeeCount >= 10 : false,
+      turnover: facts.turnover,
+      employeeCount: facts.employeeCount,
+      state: facts.state,
+      hasGST: facts.hasGST,
+      hasPF: facts.hasPF,
+      hasESI: facts.hasESI,
       hasForeignTransactions: false, // TODO: Detect from services
+      isListed: facts.isListed,
+      hasForeignInvestment: facts.hasForeignInvestment,
       
-      activeServices: serviceRequestsList.map((sr: any) => ({
+      activeServices: serviceRequestsList.filter((sr: any) => existedAt(sr.createdAt)).map((sr: any) => ({
         serviceKey: sr.serviceType || '',
         status: sr.status || 'pending',
         dueDate: sr.expectedCompletionDate || null,
@@ -210,13 +316,13 @@ export class ComplianceStateEngine {
       })),
       
       documentStatus: [
-        ...uploadedDocuments.map((doc: any) => ({
+        ...uploadedDocuments.filter((doc: any) => existedAt(doc.createdAt)).map((doc: any) => ({
           documentType: doc.doctype || '',
           uploaded: true,
           approved: doc.status === 'approved',
           expiryDate: null,
         })),
-        ...vaultDocuments.map((doc: any) => ({
+        ...vaultDocuments.filter((doc: any) => existedAt(doc.createdAt)).map((doc: any) => ({
           documentType: doc.documentType || '',
           uploaded: true,
           approved: doc.approvalStatus === 'approved',
@@ -225,7 +331,7 @@ export class ComplianceStateEngine {
       ],
       
       filingHistory: [], // TODO: Implement filing history tracking
-      trackingItems,
+      trackingItems: trackingAsOf,
     };
 
     return input;
@@ -235,83 +341,22 @@ export class ComplianceStateEngine {
   // RULE LOADING & FILTERING
   // ============================================================================
 
-  private async loadApplicableRules(input: StateCalculationInput): Promise<ComplianceRule[]> {
-    const allRules = await db.select().from(complianceRules).where(eq(complianceRules.isActive, true));
-    const now = new Date();
-    const normalizedEntityType = this.normalizeEntityType(input.entityType);
-
-    // Filter rules based on applicability
-    const applicableRules = allRules.filter((rule: any) => {
-      // Check entity type
-      if (rule.applicableEntityTypes) {
-        const applicableTypes = Array.isArray(rule.applicableEntityTypes)
-          ? rule.applicableEntityTypes
-          : [rule.applicableEntityTypes];
-        const normalizedApplicable = applicableTypes
-          .filter(Boolean)
-          .map((value: string) => this.normalizeEntityType(value));
-
-        if (normalizedApplicable.length > 0 && !normalizedApplicable.includes(normalizedEntityType)) {
-          return false;
-        }
-      }
-
-      // Check turnover threshold
-      if (input.turnover !== null && input.turnover !== undefined) {
-        if (rule.turnoverThresholdMin && input.turnover < parseFloat(rule.turnoverThresholdMin)) return false;
-        if (rule.turnoverThresholdMax && input.turnover > parseFloat(rule.turnoverThresholdMax)) return false;
-      }
-
-      // Check employee count
-      if (rule.employeeCountMin && input.employeeCount !== null && input.employeeCount !== undefined) {
-        if (input.employeeCount < rule.employeeCountMin) return false;
-      }
-      if (rule.employeeCountMax && input.employeeCount !== null && input.employeeCount !== undefined) {
-        if (input.employeeCount > rule.employeeCountMax) return false;
-      }
-
-      // Check effective window (date-granular to avoid time-of-day exclusions)
-      if (rule.effectiveFrom) {
-        const effectiveFrom = new Date(rule.effectiveFrom);
-        const effectiveStart = new Date(
-          effectiveFrom.getFullYear(),
-          effectiveFrom.getMonth(),
-          effectiveFrom.getDate()
-        );
-        if (now < effectiveStart) return false;
-      }
-      if (rule.effectiveUntil) {
-        const effectiveUntil = new Date(rule.effectiveUntil);
-        const effectiveEnd = new Date(
-          effectiveUntil.getFullYear(),
-          effectiveUntil.getMonth(),
-          effectiveUntil.getDate(),
-          23,
-          59,
-          59,
-          999
-        );
-        if (now > effectiveEnd) return false;
-      }
+  private async loadApplicableRules(input: StateCalculationInput, now: Date, includeRetired = false): Promise<ComplianceRule[]> {
+    // Rules retired since (inactive with an end date) still applied at a past date;
+    // the effective window check decides whether they did
+    const allRules = includeRetired
+      ? (await db.select().from(complianceRules)).filter((rule: any) => rule.isActive || rule.effectiveUntil)
+      : await db.select().from(complianceRules).where(eq(complianceRules.isActive, true));
+    const facts = entityFactsFromInput(input);
 
-      // Check GST/PF/ESI requirement by category
-      if (String(rule.regulationCategory || '').toLowerCase() === 'gst' && !input.hasGST) return false;
-      if (String(rule.regulationCategory || '').toLowerCase() === 'pf_esi' && !input.hasPF && !input.hasESI) return false;
+    // Filter rules based on applicability (see services/rule-applicability)
+    const applicableRules = allRules.filter((rule: any) => isRuleApplicable(rule, facts, now));
 
-      // State-specific compliance
-      if (rule.stateSpecific && Array.isArray(rule.applicableStates) && rule.applicableStates.length > 0) {
-        if (!input.state || !rule.applicableStates.includes(input.state)) {
-          return false;
-        }
-      }
-
-      return true;
-    });
-
-    return applicableRules.map((rule: any) => this.convertToComplianceRule(rule));
+    const penaltyTerms = await penaltyEngine.loadTerms(applicableRules);
+    return applicableRules.map((rule: any) => this.convertToComplianceRule(rule, penaltyTerms.get(rule.ruleCode)));
   }
 
-  private convertToComplianceRule(dbRule: any): ComplianceRule {
+  private convertToComplianceRule(dbRule: any, penaltyRules?: PenaltyRuleTerms[]): ComplianceRule {
     const rawFormula = dbRule.dueDateFormula || {};
     const formulaList = Array.isArray(rawFormula) ? [...rawFormula] : [rawFormula];
     const metadata = dbRule.metadata && typeof dbRule.metadata === 'object' ? dbRule.metadata : null;
@@ -346,9 +391,11 @@ export class ComplianceStateEngine {
       },
       frequency: this.mapPeriodicityToFrequency(dbRule.periodicity),
       dueDateLogic,
+      dueDateAdjustment: normalizeAdjustment(dbRule.dueDateAdjustment),
       graceDays: dbRule.graceDays || 0,
       penaltyPerDay: dbRule.penaltyPerDay ? parseFloat(dbRule.penaltyPerDay) : undefined,
       maxPenalty: dbRule.maxPenalty ? parseFloat(dbRule.maxPenalty) : undefined,
+      penaltyRules,
       criticalityScore: this.mapPriorityToCriticalityScore(dbRule.priorityLevel),
       amberThresholdDays: dbRule.amberThresholdDays || 7,
       redTriggers: {
@@ -358,48 +405,7 @@ export class ComplianceStateEngine {
   }
 
   private mapRegulationCategoryToDomain(category?: string): ComplianceDomain {
-    const normalized = (category || '').toLowerCase();
-    if (['companies_act', 'business_registration', 'funding_readiness'].includes(normalized)) {
-      return 'CORPORATE';
-    }
-    if (normalized === 'gst') return 'TAX_GST';
-    if (['income_tax', 'tds', 'tcs'].includes(normalized)) return 'TAX_INCOME';
-    if (['pf_esi', 'labour_laws', 'professional_tax', 'payroll'].includes(normalized)) {
-      return 'LABOUR';
-    }
-    if (normalized === 'fema') return 'FEMA';
-    if (normalized === 'licenses' || normalized === 'license') return 'LICENSES';
-    if (normalized === 'general') return 'STATUTORY';
-    return 'STATUTORY';
-  }
-
-  private normalizeEntityType(entityType?: string | null): string {
-    if (!entityType) return '';
-    const normalized = entityType.toLowerCase().replace(/[^a-z]/g, '');
-    switch (normalized) {
-      case 'privatelimited':
-      case 'privateltd':
-      case 'pvtlimited':
-      case 'pvtltd':
-      case 'pvtltdcompany':
-        return 'pvt_ltd';
-      case 'publiclimited':
-      case 'publicltd':
-        return 'public_limited';
-      case 'opc':
-      case 'onepersoncompany':
-        return 'opc';
-      case 'llp':
-        return 'llp';
-      case 'proprietorship':
-      case 'soleproprietorship':
-      case 'soleprop':
-        return 'sole_prop';
-      case 'partnership':
-        return 'partnership';
-      default:
-        return entityType.toLowerCase();
-    }
+    return mapRegulationCategoryToDomain(category);
   }
 
   private mapPeriodicityToFrequency(periodicity?: string): ComplianceRule['frequency'] {
@@ -443,10 +449,12 @@ export class ComplianceStateEngine {
 
   private async calculateDomainStates(
     input: StateCalculationInput,
-    rules: ComplianceRule[]
+    rules: ComplianceRule[],
+    deadlines: DeadlineContext,
+    extensions: ComplianceDueDateExtension[],
+    now: Date,
+    domains: ComplianceDomain[] = COMPLIANCE_DOMAINS
   ): Promise<DomainComplianceState[]> {
-    const domains: ComplianceDomain[] = ['CORPORATE', 'TAX_GST', 'TAX_INCOME', 'LABOUR', 'FEMA', 'LICENSES', 'STATUTORY'];
-    
     const domainStates: DomainComplianceState[] = [];
 
     for (const domain of domains) {
@@ -454,7 +462,7 @@ export class ComplianceStateEngine {
       if (domainRules.length === 0) continue; // Skip domains with no applicable rules
 
       const requirements = domainRules.map(rule => 
-        this.calculateRequirementStatus(rule, input)
+        this.calculateRequirementStatus(rule, input, deadlines, extensions, now)
       );
 
       const domainState: DomainComplianceState = {
@@ -476,16 +484,32 @@ export class ComplianceStateEngine {
 
   private calculateRequirementStatus(
     rule: ComplianceRule,
-    input: StateCalculationInput
+    input: StateCalculationInput,
+    deadlines: DeadlineContext,
+    extensions: ComplianceDueDateExtension[],
+    now: Date
   ): ComplianceRequirementStatus {
     const tracking = this.findTrackingForRule(rule, input);
     const trackingPriority = this.normalizePriority(tracking?.priority);
     const trackingStatus = tracking?.status ? tracking.status.toLowerCase() : null;
     const trackingDueDate = tracking?.nextDueDate || tracking?.dueDate || null;
 
-    // Calculate due date based on tracking (preferred) or rule logic
-    let dueDate = trackingDueDate || this.calculateDueDate(rule, input);
-    const now = new Date();
+    // Calculate due date based on tracking (preferred) or rule logic, then
+    // move it off holidays the same way the compliance calendar does and
+    // apply any extension notified for it
+    const statutoryDueDate = trackingDueDate || this.calculateDueDate(rule, input, now);
+    const deadline = statutoryDueDate
+      ? deadlines.resolve(statutoryDueDate, {
+          adjustment: rule.dueDateAdjustment,
+          extensions: findApplicableExtensions(extensions, {
+            ruleCode: rule.ruleId,
+            statutoryDueDate,
+            entityType: input.entityType,
+            state: input.state,
+          }),
+        })
+      : null;
+    const dueDate = deadline ? deadline.dueDate : null;
     
     let daysUntilDue: number | null = null;
     let daysOverdue: number | null = null;
@@ -548,10 +572,10 @@ export class ComplianceStateEngine {
       }
     }
 
-    // Calculate penalty exposure
-    const penaltyExposure = daysOverdue && rule.penaltyPerDay
-      ? Math.min(daysOverdue * rule.penaltyPerDay, rule.maxPenalty || Infinity)
-      : 0;
+    // Calculate penalty exposure against the effective (extended) deadline
+    const penalty = daysOverdue && dueDate
+      ? this.calculatePenaltyExposure(rule, dueDate, daysOverdue, now, tracking?.taxLiability)
+      : { total: 0, components: [] as PenaltyComponent[] };
 
     // Determine priority
     const priority = trackingPriority || this.determinePriority(state, rule.criticalityScore, daysUntilDue);
@@ -562,9 +586,12 @@ export class ComplianceStateEngine {
       domain: rule.domain,
       state,
       dueDate,
+      statutoryDueDate: deadline ? deadline.statutoryDueDate : null,
+      extensionReference: deadline?.extension?.reference || null,
       daysUntilDue,
       daysOverdue,
-      penaltyExposure,
+      penaltyExposure: penalty.total,
+      penaltyBreakdown: penalty.components,
       priority,
       isRecurring: rule.frequency !== 'ONE_TIME',
       nextOccurrence: dueDate,
@@ -574,6 +601,44 @@ export class ComplianceStateEngine {
     };
   }
 
+  /**
+   * Late filing exposure as of a date, itemised by late fee and interest.
+   * Uses the rule's penalty terms when configured, otherwise the flat per-day rate.
+   */
+  private calculatePenaltyExposure(
+    rule: ComplianceRule,
+    dueDate: Date,
+    daysOverdue: number,
+    asOf: Date,
+    taxLiability?: string | null
+  ): { total: number; components: PenaltyComponent[] } {
+    if (rule.penaltyRules && rule.penaltyRules.length > 0) {
+      const assessment = assessPenalty(rule.penaltyRules, {
+        dueDate,
+        filedOn: asOf,
+        taxLiability: taxLiability ? parseFloat(taxLiability) : null,
+      });
+      return { total: assessment.total, components: assessment.components };
+    }
+    return {
+      total: rule.penaltyPerDay ? Math.min(daysOverdue * rule.penaltyPerDay, rule.maxPenalty || Infinity) : 0,
+      components: [],
+    };
+  }
+
+  /**
+   * Preload the holiday calendars for the entity's state covering every year
+   * a deadline may fall in
+   */
+  private async loadDeadlineContext(input: StateCalculationInput, now: Date): Promise<DeadlineContext> {
+    const years = new Set<number>([now.getFullYear()]);
+    for (const item of input.trackingItems || []) {
+      const date = item.nextDueDate || item.dueDate;
+      if (date) years.add(new Date(date).getFullYear());
+    }
+    return deadlineResolver.createContext({ location: input.state, years: Array.from(years) });
+  }
+
   private findTrackingForRule(rule: ComplianceRule, input: StateCalculationInput) {
     if (!input.trackingItems || input.trackingItems.length === 0) return null;
 
@@ -634,8 +699,7 @@ export class ComplianceStateEngine {
     return null;
   }
 
-  private calculateDueDate(rule: ComplianceRule, input: StateCalculationInput): Date | null {
-    const now = new Date();
+  private calculateDueDate(rule: ComplianceRule, input: StateCalculationInput, now: Date): Date | null {
     const formulaInput = (rule as any).dueDateFormula;
     const calcType = (rule as any).dueDateCalculationType;
 
@@ -891,6 +955,8 @@ export class ComplianceStateEngine {
         domainStates: entityState.domains,
         requirementStates: entityState.domains.flatMap(d => d.requirements),
         calculatedAt: entityState.calculatedAt,
+        calculationVersion: entityState.calculationVersion,
+        dataCompletenessScore: entityState.dataCompletenessScore.toString(),
         updatedAt: new Date(),
       },
     });
@@ -914,7 +980,8 @@ export class ComplianceStateEngine {
     rulesApplied: number,
     errors: string[],
     warnings: string[],
-    calculationTimeMs: number
+    calculationTimeMs: number,
+    triggeredBy = 'MANUAL'
   ): Promise<void> {
     await db.insert(stateCalculationLog).values({
       entityId,
@@ -928,7 +995,7 @@ export class ComplianceStateEngine {
       warningsCount: warnings.length,
       errors,
       warnings,
-      triggeredBy: 'MANUAL',
+      triggeredBy,
       calculatedAt: new Date(),
     });
   }
@@ -950,7 +1017,7 @@ export class ComplianceStateEngine {
 
           if (existingAlert.length === 0) {
             // Create new alert
-            await db.insert(complianceAlerts).values({
+            const [alert] = await db.insert(complianceAlerts).values({
               entityId: entityState.entityId,
               ruleId: req.requirementId,
               alertType: req.state === 'RED' ? 'OVERDUE' : 'UPCOMING',
@@ -960,7 +1027,8 @@ export class ComplianceStateEngine {
               actionRequired: req.actionRequired,
               triggeredAt: new Date(),
               expiresAt: req.dueDate || undefined,
-            });
+            }).returning();
+            publishComplianceAlert(alert);
           }
         }
       }
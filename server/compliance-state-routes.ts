@@ -6,6 +6,8 @@
 
 import { Request, Response, Router } from 'express';
 import { stateEngine } from './compliance-state-engine';
+import { triggerComplianceChange } from './compliance-event-emitter';
+import { complianceScheduler } from './compliance-state-scheduler';
 import { db } from './db';
 import { complianceStates, complianceAlerts, complianceStateHistory } from '../shared/compliance-state-schema';
 import { eq, desc, and, sql } from 'drizzle-orm';
@@ -274,6 +276,29 @@ complianceStateRoutes.post('/recalculate-all', requireAuth, async (req: Request,
   }
 });
 
+/**
+ * GET /api/compliance-state/reconciliation/latest
+ * Drift found by the latest nightly reconciliation (admin only)
+ */
+complianceStateRoutes.get('/reconciliation/latest', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userRole = (req as any).user?.role;
+    if (userRole !== 'super_admin' && userRole !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const report = complianceScheduler.getLastReconciliation();
+    res.json({
+      success: true,
+      report,
+      message: report ? undefined : 'No reconciliation has run since the server started',
+    });
+  } catch (error: any) {
+    console.error('Error fetching reconciliation report:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // ============================================================================
 // DASHBOARD SUMMARY
 // ============================================================================
@@ -634,10 +659,14 @@ complianceStateRoutes.post('/tracking/:id/complete', requireAuth, async (req: Re
       }
     }
 
-    // Trigger state recalculation for the entity
+    // Trigger state recalculation for the rule's domain
     if (updatedItem.businessEntityId) {
-      stateEngine.calculateEntityState(updatedItem.businessEntityId)
-        .catch(err => console.error('Background state recalculation failed:', err));
+      triggerComplianceChange({
+        type: 'tracking',
+        entityId: updatedItem.businessEntityId,
+        complianceRuleId: updatedItem.complianceRuleId,
+        serviceId: updatedItem.serviceId,
+      }, 'filing_submitted', { trackingId });
     }
 
     res.json({
@@ -683,8 +712,12 @@ complianceStateRoutes.post('/tracking/:id/extension', requireAuth, async (req: R
     }
 
     if (result[0].businessEntityId) {
-      stateEngine.calculateEntityState(result[0].businessEntityId)
-        .catch(err => console.error('Background state recalculation failed:', err));
+      triggerComplianceChange({
+        type: 'tracking',
+        entityId: result[0].businessEntityId,
+        complianceRuleId: result[0].complianceRuleId,
+        serviceId: result[0].serviceId,
+      }, 'due_date_updated', { trackingId });
     }
 
     res.json({
@@ -2,8 +2,9 @@
  * Compliance State Scheduler
  * 
  * Scheduled jobs for compliance state recalculation:
- * - Nightly: Full recalc of all entities (prevent drift)
+ * - Nightly: Full recalc of all entities, reporting drift from the saved states
  * - Hourly: Recalc AMBER/RED entities (catch time-based state changes)
+ * - Every 10 minutes: Emit rule changes made outside the API (seeders, SQL)
  * 
  * Design:
  * - Uses node-cron for scheduling
@@ -11,7 +12,7 @@
  * - Metrics tracking
  */
 
-import cron from 'node-cron';
+import cron, { type ScheduledTask } from 'node-cron';
 import { ComplianceStateEngine } from './compliance-state-engine';
 import { db } from './db';
 import { complianceStates } from '../shared/compliance-state-schema';
@@ -20,6 +21,28 @@ import { eq, inArray } from 'drizzle-orm';
 import { jobManager } from './job-lifecycle-manager';
 import { logger } from './logger';
 import { syncComplianceTracking } from './compliance-tracking-sync';
+import { complianceEvents } from './compliance-event-emitter';
+import { complianceDependencyResolver } from './services/compliance-dependency-resolver';
+import {
+  detectStateDrift,
+  reviveEntityState,
+  type RequirementChange,
+} from './services/compliance-replay-service';
+
+const MAX_DRIFT_ENTRIES = 200;
+
+export interface EntityDrift {
+  entityId: number;
+  changes: RequirementChange[];
+}
+
+export interface ReconciliationReport {
+  runAt: Date;
+  entitiesChecked: number;
+  driftedEntities: number;
+  driftedRequirements: number;
+  entries: EntityDrift[]; // capped at MAX_DRIFT_ENTRIES
+}
 
 interface SchedulerMetrics {
   lastNightlyRun: Date | null;
@@ -29,13 +52,16 @@ interface SchedulerMetrics {
   hourlySuccessCount: number;
   hourlyFailureCount: number;
   lastError: string | null;
+  lastReconciliation: ReconciliationReport | null;
 }
 
 class ComplianceStateScheduler {
   private engine: ComplianceStateEngine;
   private metrics: SchedulerMetrics;
-  private nightlyJob: cron.ScheduledTask | null = null;
-  private hourlyJob: cron.ScheduledTask | null = null;
+  private nightlyJob: ScheduledTask | null = null;
+  private hourlyJob: ScheduledTask | null = null;
+  private ruleWatchJob: ScheduledTask | null = null;
+  private lastRuleCheck = new Date();
 
   constructor() {
     this.engine = new ComplianceStateEngine();
@@ -47,6 +73,7 @@ class ComplianceStateScheduler {
       hourlySuccessCount: 0,
       hourlyFailureCount: 0,
       lastError: null,
+      lastReconciliation: null,
     };
   }
 
@@ -84,9 +111,22 @@ class ComplianceStateScheduler {
       'Hourly AMBER/RED compliance state recalculation (:15 past hour)'
     );
 
+    // Rule watch: every 10 minutes
+    // Recalculate entities affected by rules edited outside the API
+    this.ruleWatchJob = cron.schedule('*/10 * * * *', async () => {
+      await this.runRuleWatch();
+    });
+
+    jobManager.registerCron(
+      'compliance-rule-watch',
+      this.ruleWatchJob,
+      'Incremental recalculation for changed compliance rules (every 10 minutes)'
+    );
+
     logger.info('[ComplianceStateScheduler] Jobs started:');
-    logger.info('  - Nightly (2:00 AM): Full recalculation');
+    logger.info('  - Nightly (2:00 AM): Full recalculation with drift report');
     logger.info('  - Hourly (:15 past): AMBER/RED recalculation');
+    logger.info('  - Every 10 minutes: Compliance rule changes');
   }
 
   /**
@@ -103,6 +143,10 @@ class ComplianceStateScheduler {
     if (this.hourlyJob) {
       this.hourlyJob = null;
     }
+
+    if (this.ruleWatchJob) {
+      this.ruleWatchJob = null;
+    }
     
     logger.info('[ComplianceStateScheduler] Jobs stopped');
   }
@@ -115,6 +159,9 @@ class ComplianceStateScheduler {
    * - Catch any missed events
    * - Fix corrupted states
    * - Baseline "truth" reset
+   *
+   * Saved states are compared with the fresh calculation first; differences
+   * the clock does not explain mean an event was missed and are reported.
    */
   private async runNightlyRecalculation(): Promise<void> {
     const startTime = Date.now();
@@ -136,11 +183,25 @@ class ComplianceStateScheduler {
       let successCount = 0;
       let failureCount = 0;
       const errors: string[] = [];
+      const drifted: EntityDrift[] = [];
 
       // Recalculate each entity
       for (const entity of entities) {
         try {
-          await this.engine.calculateEntityState(entity.id);
+          const [saved] = await db.select().from(complianceStates)
+            .where(eq(complianceStates.entityId, entity.id))
+            .limit(1);
+          const result = await this.engine.calculateEntityState(entity.id, { triggeredBy: 'RECONCILIATION' });
+
+          if (saved && result.success) {
+            const changes = detectStateDrift(
+              reviveEntityState({ ...saved, domains: saved.domainStates }),
+              result.entityState
+            );
+            if (changes.length > 0) {
+              drifted.push({ entityId: entity.id, changes });
+            }
+          }
           successCount++;
         } catch (error) {
           failureCount++;
@@ -156,10 +217,23 @@ class ComplianceStateScheduler {
       this.metrics.lastNightlyRun = new Date();
       this.metrics.nightlySuccessCount++;
       this.metrics.lastError = null;
+      this.metrics.lastReconciliation = {
+        runAt: this.metrics.lastNightlyRun,
+        entitiesChecked: successCount,
+        driftedEntities: drifted.length,
+        driftedRequirements: drifted.reduce((sum, entry) => sum + entry.changes.length, 0),
+        entries: drifted.slice(0, MAX_DRIFT_ENTRIES),
+      };
 
       logger.info(`[Nightly] Completed in ${duration}ms`);
       logger.info(`[Nightly] Success: ${successCount}, Failures: ${failureCount}`);
 
+      if (drifted.length > 0) {
+        logger.warn(`[Nightly] State drift found for ${drifted.length} entities`, {
+          entityIds: drifted.slice(0, MAX_DRIFT_ENTRIES).map((entry) => entry.entityId),
+        });
+      }
+
       if (failureCount > 0) {
         logger.error(`[Nightly] Errors encountered:`, { errors });
         // TODO: Send alert if failures exceed threshold
@@ -230,6 +304,27 @@ class ComplianceStateScheduler {
     }
   }
 
+  /**
+   * Rule watch: emit changes for rules updated since the last check
+   */
+  private async runRuleWatch(): Promise<void> {
+    const checkedAt = new Date();
+
+    try {
+      const ruleIds = await complianceDependencyResolver.rulesChangedSince(this.lastRuleCheck);
+      for (const ruleId of ruleIds) {
+        await complianceEvents.emitChange({ type: 'rule', ruleId }, 'rule_changed');
+      }
+      this.lastRuleCheck = checkedAt;
+
+      if (ruleIds.length > 0) {
+        logger.info(`[RuleWatch] Queued recalculation for ${ruleIds.length} changed rules`);
+      }
+    } catch (error) {
+      logger.error('[RuleWatch] Job failed:', error);
+    }
+  }
+
   /**
    * Manual trigger: Run nightly recalc now (for testing/recovery)
    */
@@ -252,6 +347,13 @@ class ComplianceStateScheduler {
   getMetrics(): SchedulerMetrics {
     return { ...this.metrics };
   }
+
+  /**
+   * Drift report from the latest nightly run
+   */
+  getLastReconciliation(): ReconciliationReport | null {
+    return this.metrics.lastReconciliation;
+  }
 }
 
 // Export singleton
@@ -3,99 +3,11 @@ import { businessEntities, complianceRules, complianceTracking } from '../shared
 import { eq, inArray } from 'drizzle-orm';
 import { computeDueDateCandidates, computeDueDateFromFormula } from './compliance-due-date';
 import { ensureRequiredDocumentsForRuleIds } from './compliance-evidence';
+import { entityFactsFromRecord, isRuleApplicable } from './services/rule-applicability';
 
 type Entity = typeof businessEntities.$inferSelect;
 type Rule = typeof complianceRules.$inferSelect;
 
-const normalizeEntityType = (entityType?: string | null): string => {
-  if (!entityType) return '';
-  const normalized = entityType.toLowerCase().replace(/[^a-z]/g, '');
-  switch (normalized) {
-    case 'privatelimited':
-    case 'privateltd':
-    case 'pvtlimited':
-    case 'pvtltd':
-      return 'pvt_ltd';
-    case 'publiclimited':
-    case 'publicltd':
-      return 'public_limited';
-    case 'opc':
-    case 'onepersoncompany':
-      return 'opc';
-    case 'llp':
-      return 'llp';
-    case 'proprietorship':
-    case 'soleproprietorship':
-    case 'soleprop':
-      return 'sole_prop';
-    case 'partnership':
-      return 'partnership';
-    default:
-      return entityType.toLowerCase();
-  }
-};
-
-const isRuleApplicable = (rule: Rule, entity: Entity): boolean => {
-  const normalizedEntityType = normalizeEntityType(entity.entityType);
-
-  if (rule.applicableEntityTypes) {
-    const applicableTypes = Array.isArray(rule.applicableEntityTypes)
-      ? rule.applicableEntityTypes
-      : [rule.applicableEntityTypes];
-    const normalizedApplicable = applicableTypes
-      .filter(Boolean)
-      .map((value: string) => normalizeEntityType(value));
-    if (normalizedApplicable.length > 0 && !normalizedApplicable.includes(normalizedEntityType)) {
-      return false;
-    }
-  }
-
-  if (rule.turnoverThresholdMin && entity.annualTurnover) {
-    if (parseFloat(entity.annualTurnover) < parseFloat(rule.turnoverThresholdMin)) return false;
-  }
-  if (rule.turnoverThresholdMax && entity.annualTurnover) {
-    if (parseFloat(entity.annualTurnover) > parseFloat(rule.turnoverThresholdMax)) return false;
-  }
-
-  if (rule.employeeCountMin && entity.employeeCount !== null && entity.employeeCount !== undefined) {
-    if (entity.employeeCount < rule.employeeCountMin) return false;
-  }
-  if (rule.employeeCountMax && entity.employeeCount !== null && entity.employeeCount !== undefined) {
-    if (entity.employeeCount > rule.employeeCountMax) return false;
-  }
-
-  const category = String(rule.regulationCategory || '').toLowerCase();
-  if (category === 'gst' && !entity.gstin) return false;
-
-  if (rule.stateSpecific && Array.isArray(rule.applicableStates) && rule.applicableStates.length > 0) {
-    if (!entity.state || !rule.applicableStates.includes(entity.state)) {
-      return false;
-    }
-  }
-
-  const now = new Date();
-  if (rule.effectiveFrom) {
-    const effectiveFrom = new Date(rule.effectiveFrom);
-    const effectiveStart = new Date(effectiveFrom.getFullYear(), effectiveFrom.getMonth(), effectiveFrom.getDate());
-    if (now < effectiveStart) return false;
-  }
-  if (rule.effectiveUntil) {
-    const effectiveUntil = new Date(rule.effectiveUntil);
-    const effectiveEnd = new Date(
-      effectiveUntil.getFullYear(),
-      effectiveUntil.getMonth(),
-      effectiveUntil.getDate(),
-      23,
-      59,
-      59,
-      999
-    );
-    if (now > effectiveEnd) return false;
-  }
-
-  return true;
-};
-
 const shouldSkipEventRule = (rule: Rule, entity: Entity) => {
   if (rule.dueDateCalculationType !== 'event_triggered') return false;
   const triggerEvent = (rule.dueDateFormula as any)?.trigger_event;
@@ -147,12 +59,13 @@ async function syncEntity(entity: Entity, rules: Rule[]) {
   }
 
   const now = new Date();
+  const facts = entityFactsFromRecord(entity);
   const createdRuleIds: number[] = [];
   let created = 0;
 
   for (const rule of rules) {
     if (!rule.isActive || !rule.id) continue;
-    if (!isRuleApplicable(rule, entity)) continue;
+    if (!isRuleApplicable(rule, facts, now)) continue;
 
     const existingKeys = existingByRule.get(rule.id);
     if (['one_time', 'event_based'].includes(String(rule.periodicity || '').toLowerCase())) {
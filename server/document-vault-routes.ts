@@ -1,11 +1,26 @@
 import type { Express, Request, Response } from "express";
 import { db } from './db';
 import { documentVault } from '@shared/schema';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, desc, sql, isNull } from 'drizzle-orm';
 import { sessionAuthMiddleware, type AuthenticatedRequest } from './rbac-middleware';
 import { storage } from './storage';
 import { upload, uploadToStorage, validateFileSize } from './file-upload';
 import { resolveDownloadUrl } from './storage-url';
+import { triggerComplianceChange } from './compliance-event-emitter';
+import { documentSearchService, retentionEngine } from './services/documents';
+
+// Uploaded evidence can change the entity's compliance state; its text is indexed for search
+function notifyDocumentUploaded(document: { id: number; businessEntityId: number | null; documentType: string }) {
+  documentSearchService.queueDocument('vault', document.id)
+    .catch(error => console.error('Error queueing document for indexing:', error));
+
+  if (!document.businessEntityId) return;
+  triggerComplianceChange(
+    { type: 'document', entityId: document.businessEntityId, documentType: document.documentType },
+    'document_uploaded',
+    { documentId: document.id }
+  );
+}
 
 export function registerDocumentVaultRoutes(app: Express) {
 
@@ -22,14 +37,15 @@ export function registerDocumentVaultRoutes(app: Express) {
       const user = await storage.getUser(userId);
       const entityId = user?.businessEntityId;
 
-      // Get documents for user or their business entity
+      // Get documents for user or their business entity; archived ones on request
       const documents = await db.select()
         .from(documentVault)
-        .where(
+        .where(and(
           entityId
             ? eq(documentVault.businessEntityId, entityId)
-            : eq(documentVault.userId, userId)
-        )
+            : eq(documentVault.userId, userId),
+          req.query.includeArchived === 'true' ? undefined : isNull(documentVault.archivedAt)
+        ))
         .orderBy(desc(documentVault.createdAt));
 
       // Calculate isExpiringSoon for each document
@@ -137,6 +153,11 @@ export function registerDocumentVaultRoutes(app: Express) {
         return res.status(400).json({ error: 'Official documents cannot be deleted' });
       }
 
+      const hold = await retentionEngine.activeHoldFor('vault', document);
+      if (hold) {
+        return res.status(409).json({ error: `Document is under legal hold "${hold.name}" and cannot be deleted` });
+      }
+
       // Delete the document
       await db.delete(documentVault)
         .where(eq(documentVault.id, documentId));
@@ -190,6 +211,7 @@ export function registerDocumentVaultRoutes(app: Express) {
         })
         .returning();
 
+      notifyDocumentUploaded(newDocument);
       res.status(201).json(newDocument);
     } catch (error: any) {
       console.error('Error uploading document:', error);
@@ -263,6 +285,7 @@ export function registerDocumentVaultRoutes(app: Express) {
           })
           .returning();
 
+        notifyDocumentUploaded(newDocument);
         res.status(201).json(newDocument);
       } catch (error: any) {
         console.error('Error uploading document file:', error);
@@ -382,6 +405,9 @@ export function registerDocumentVaultRoutes(app: Express) {
       if (!document) return res.status(404).json({ error: 'Document not found' });
       if (document.isOfficial) return res.status(400).json({ error: 'Official documents cannot be deleted' });
 
+      const hold = await retentionEngine.activeHoldFor('vault', document);
+      if (hold) return res.status(409).json({ error: `Document is under legal hold "${hold.name}" and cannot be deleted` });
+
       await db.delete(documentVault).where(eq(documentVault.id, documentId));
       res.json({ success: true, message: 'Document deleted successfully' });
     } catch (error: any) {
@@ -18,6 +18,7 @@ import { db } from './db';
 import { eq, and, desc, asc, sql, ilike, or, inArray, gte, lte, between } from 'drizzle-orm';
 import { blueprintService } from './services/blueprint-service';
 import { complianceCalendarService } from './services/compliance-calendar-service';
+import { deadlineResolver } from './services/deadline-resolver';
 import { requireAuth, requireRole, requireMinRole } from './auth-middleware';
 import {
   serviceBlueprints,
@@ -1381,6 +1382,7 @@ router.post('/holidays', async (req: Request, res: Response) => {
       })
       .returning();
 
+    deadlineResolver.clearCache();
     res.status(201).json(calendar);
   } catch (error: any) {
     console.error('Error creating holiday calendar:', error);
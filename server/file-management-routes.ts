@@ -12,6 +12,7 @@ import { db } from './db';
 import { documentsUploads } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { generateDocumentId } from './services/id-generator';
+import { documentSearchService, retentionEngine } from './services/documents';
 import { parseIdParam } from './middleware/id-validator';
 
 const router = Router();
@@ -109,6 +110,9 @@ router.post('/service-requests/:serviceRequestId/documents', upload.array('files
           .values(insertData)
           .returning();
 
+        documentSearchService.queueDocument('upload', document.id)
+          .catch(error => console.error('Error queueing document for indexing:', error));
+
         uploadedDocuments.push({
           ...document,
           url: uploadResult.url
@@ -242,6 +246,15 @@ router.delete('/documents/:documentId', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Document not found' });
     }
 
+    const hold = await retentionEngine.activeHoldFor('upload', {
+      id: document.id,
+      category: document.doctype,
+      businessEntityId: document.entityId,
+    });
+    if (hold) {
+      return res.status(409).json({ error: `Document is under legal hold "${hold.name}" and cannot be deleted` });
+    }
+
     // Delete from storage
     try {
       await deleteFromStorage(document.path);
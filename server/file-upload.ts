@@ -232,6 +232,27 @@ export async function deleteFromStorage(filePath: string): Promise<void> {
   }
 }
 
+/**
+ * Read a stored file's contents (GCS or local)
+ * @param filePath - Path to file in storage
+ */
+export async function readFromStorage(filePath: string): Promise<Buffer> {
+  try {
+    if (isGCSConfigured && bucket) {
+      const [contents] = await bucket.file(filePath).download();
+      return contents;
+    }
+    const basePath = path.resolve(LOCAL_STORAGE_PATH);
+    const fullPath = path.resolve(basePath, filePath);
+    if (!fullPath.startsWith(basePath + path.sep)) {
+      throw new Error('Invalid file path');
+    }
+    return await fs.readFile(fullPath);
+  } catch (error: any) {
+    throw new Error(`Read failed: ${error.message}`);
+  }
+}
+
 /**
  * Get signed URL for private file access
  * @param filePath - Path to file in storage
@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import cookieParser from "cookie-parser";
 import path from "path";
+import type { IncomingMessage, ServerResponse } from "http";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { validateEnv } from "./env";
@@ -15,12 +16,16 @@ import { sanitizeRequest, globalErrorHandler, trackRequest } from "./robustness-
 import { jobManager } from "./job-lifecycle-manager";
 import { apmMiddleware } from "./monitoring";
 import './compliance-state-scheduler'; // Auto-start compliance state scheduler
-import { checkSlaBreaches } from './jobs/sla-checker';
+import { startSlaChecker } from './jobs/sla-checker';
 import { pipelineOrchestrator } from './services/pipeline/pipeline-orchestrator';
 import { registerAllHandlers } from './services/pipeline/register-handlers';
 import pipelineAdminRoutes from './pipeline-admin-routes';
 import { checkComplianceDeadlines } from './jobs/compliance-deadline-checker';
 import { checkApprovalTimeouts } from './jobs/approval-timeout-checker';
+import { sweepDocumentIndex } from './jobs/document-index-sweeper';
+import { runDocumentRetention } from './jobs/document-retention-runner';
+import { scanLeadDuplicates } from './jobs/lead-duplicate-scan';
+import { runNurtureSequences } from './jobs/nurture-runner';
 
 // Validate environment variables on startup
 const env = validateEnv();
@@ -67,8 +72,13 @@ app.use(cors({
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-CSRF-Token', 'X-Tenant-ID'],
 }));
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: false, limit: '10mb' }));
+// Webhook signatures are computed over the bytes the provider sent, so keep
+// them before parsing (and sanitizing) rewrites the body
+const keepRawBody = (req: IncomingMessage & { rawBody?: Buffer }, _res: ServerResponse, buf: Buffer) => {
+  req.rawBody = buf;
+};
+app.use(express.json({ limit: '10mb', verify: keepRawBody }));
+app.use(express.urlencoded({ extended: false, limit: '10mb', verify: keepRawBody }));
 
 // XSS input sanitization (after body parser, before routes)
 import { sanitizeInput } from './middleware/sanitize';
@@ -228,13 +238,13 @@ app.use((req, res, next) => {
   // const { platformSyncOrchestrator } = await import('./platform-sync-orchestrator');
   console.log('Platform sync orchestrator initialized');
 
-  // Initialize WebSocket middleware sync engine
+  // Initialize authenticated real-time gateway (/ws/sync)
   try {
-    const { initializeMiddlewareSync } = await import('./middleware-sync');
-    initializeMiddlewareSync(server);
-    console.log('🔌 WebSocket middleware sync engine initialized');
+    const { initializeRealtimeGateway } = await import('./realtime');
+    await initializeRealtimeGateway(server);
+    console.log('🔌 Real-time gateway initialized');
   } catch (error) {
-    console.warn('⚠️ WebSocket middleware sync initialization skipped:', (error as Error).message);
+    console.warn('⚠️ Real-time gateway initialization skipped:', (error as Error).message);
   }
 
   // API-specific 404 handler - MUST be before Vite to return JSON for missing API routes
@@ -286,7 +296,7 @@ app.use((req, res, next) => {
 
   // Register SLA checker job (every 15 minutes)
   if (process.env.NODE_ENV !== 'test') {
-    setInterval(() => checkSlaBreaches(), 15 * 60 * 1000);
+    startSlaChecker(15);
     logger.info('SLA checker job registered (every 15 minutes)');
   }
 
@@ -304,6 +314,18 @@ app.use((req, res, next) => {
 
     // Approval timeout check: every 15 minutes
     setInterval(() => checkApprovalTimeouts(), 15 * 60 * 1000);
+
+    // Document search index: queue unindexed uploads every 15 minutes
+    setInterval(() => sweepDocumentIndex(), 15 * 60 * 1000);
+
+    // Document retention: owner notices, archiving and purges, once a day
+    setInterval(() => runDocumentRetention(), 24 * 60 * 60 * 1000);
+
+    // Lead duplicate report: scan the whole lead book once a day
+    setInterval(() => scanLeadDuplicates(), 24 * 60 * 60 * 1000);
+
+    // Lead nurture: stop converted/unsubscribed leads, auto-enroll and queue due steps every 5 minutes
+    setInterval(() => runNurtureSequences(), 5 * 60 * 1000);
   }
 
   // Graceful shutdown handler
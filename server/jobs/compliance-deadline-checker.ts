@@ -1,14 +1,22 @@
 import { db } from '../db';
 import { pipelineEvents } from '@shared/pipeline-schema';
-import { and, eq, gte, lte, lt, not } from 'drizzle-orm';
+import { and, eq, lte, not } from 'drizzle-orm';
+import { startOfDay } from 'date-fns';
 import { createPipelineEvent, PIPELINE_EVENTS } from '../services/pipeline/pipeline-events';
+import { deadlineResolver, type DeadlineContext } from '../services/deadline-resolver';
+import { dueDateExtensionService, findApplicableExtensions } from '../services/due-date-extension-service';
 import { logger } from '../logger';
 
+// Stored due dates are statutory; a roll-back can bring one forward by a long weekend plus holidays
+const MAX_HOLIDAY_SHIFT_DAYS = 10;
+
 export async function checkComplianceDeadlines(): Promise<void> {
   logger.info('Running compliance deadline check');
 
   const now = new Date();
+  const today = startOfDay(now);
   const sevenDaysFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+  const candidateCutoff = new Date(sevenDaysFromNow.getTime() + MAX_HOLIDAY_SHIFT_DAYS * 24 * 60 * 60 * 1000);
 
   // Derive current fiscal year: Apr 1 → Mar 31
   const month = now.getMonth();
@@ -17,49 +25,75 @@ export async function checkComplianceDeadlines(): Promise<void> {
     ? `${year}-${String(year + 1).slice(-2)}`
     : `${year - 1}-${String(year).slice(-2)}`;
 
-  const { complianceTracking } = await import('@shared/schema');
+  const { complianceTracking, complianceRules, businessEntities } = await import('@shared/schema');
 
-  // Find records approaching deadline (within 7 days, not yet overdue)
-  const approaching = await db.select().from(complianceTracking)
+  const candidates = await db.select({
+    record: complianceTracking,
+    dueDateAdjustment: complianceRules.dueDateAdjustment,
+    ruleCode: complianceRules.ruleCode,
+    entityType: businessEntities.entityType,
+    state: businessEntities.state,
+  }).from(complianceTracking)
+    .leftJoin(complianceRules, eq(complianceTracking.complianceRuleId, complianceRules.id))
+    .leftJoin(businessEntities, eq(complianceTracking.businessEntityId, businessEntities.id))
     .where(and(
-      eq(complianceTracking.status, 'pending'),
-      lte(complianceTracking.dueDate, sevenDaysFromNow),
-      gte(complianceTracking.dueDate, now),
+      not(eq(complianceTracking.status, 'completed')),
+      not(eq(complianceTracking.status, 'overdue')),
+      lte(complianceTracking.dueDate, candidateCutoff),
     ));
 
-  for (const record of approaching) {
-    await db.update(complianceTracking)
-      .set({ status: 'approaching' as any })
-      .where(eq(complianceTracking.id, record.id));
+  const extensions = await dueDateExtensionService.getActiveExtensions();
 
-    await db.insert(pipelineEvents).values(createPipelineEvent({
-      eventType: PIPELINE_EVENTS.COMPLIANCE_DEADLINE_APPROACHING,
-      entityType: 'business_entity',
-      entityId: record.businessEntityId!,
-      payload: { ruleName: record.serviceType || record.serviceId, dueDate: record.dueDate, fiscalYear },
-    }));
-  }
+  // One holiday calendar per entity location
+  const contexts = new Map<string, DeadlineContext>();
+  let approaching = 0;
+  let overdue = 0;
 
-  // Find records past deadline
-  const overdue = await db.select().from(complianceTracking)
-    .where(and(
-      not(eq(complianceTracking.status, 'completed')),
-      not(eq(complianceTracking.status, 'overdue')),
-      lt(complianceTracking.dueDate, now),
-    ));
+  for (const { record, dueDateAdjustment, ruleCode, entityType, state } of candidates) {
+    const location = state || '';
+    if (!contexts.has(location)) {
+      contexts.set(location, await deadlineResolver.createContext({ location: state, years: [year] }));
+    }
+    const deadline = contexts.get(location)!.resolve(record.dueDate, {
+      adjustment: dueDateAdjustment,
+      extensions: ruleCode
+        ? findApplicableExtensions(extensions, { ruleCode, statutoryDueDate: record.dueDate, entityType, state })
+        : [],
+    });
+    const payload = {
+      ruleName: record.serviceType || record.serviceId,
+      dueDate: deadline.dueDate,
+      statutoryDueDate: record.dueDate,
+      extensionReference: deadline.extension?.reference || null,
+      fiscalYear,
+    };
+
+    if (deadline.dueDate < today) {
+      await db.update(complianceTracking)
+        .set({ status: 'overdue' })
+        .where(eq(complianceTracking.id, record.id));
 
-  for (const record of overdue) {
-    await db.update(complianceTracking)
-      .set({ status: 'overdue' })
-      .where(eq(complianceTracking.id, record.id));
+      await db.insert(pipelineEvents).values(createPipelineEvent({
+        eventType: PIPELINE_EVENTS.COMPLIANCE_DEADLINE_OVERDUE,
+        entityType: 'business_entity',
+        entityId: record.businessEntityId!,
+        payload,
+      }));
+      overdue++;
+    } else if (record.status === 'pending' && deadline.dueDate <= sevenDaysFromNow) {
+      await db.update(complianceTracking)
+        .set({ status: 'approaching' as any })
+        .where(eq(complianceTracking.id, record.id));
 
-    await db.insert(pipelineEvents).values(createPipelineEvent({
-      eventType: PIPELINE_EVENTS.COMPLIANCE_DEADLINE_OVERDUE,
-      entityType: 'business_entity',
-      entityId: record.businessEntityId!,
-      payload: { ruleName: record.serviceType || record.serviceId, dueDate: record.dueDate, fiscalYear },
-    }));
+      await db.insert(pipelineEvents).values(createPipelineEvent({
+        eventType: PIPELINE_EVENTS.COMPLIANCE_DEADLINE_APPROACHING,
+        entityType: 'business_entity',
+        entityId: record.businessEntityId!,
+        payload,
+      }));
+      approaching++;
+    }
   }
 
-  logger.info(`Deadline check complete: ${approaching.length} approaching, ${overdue.length} overdue`);
+  logger.info(`Deadline check complete: ${approaching} approaching, ${overdue} overdue`);
 }
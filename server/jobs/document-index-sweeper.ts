@@ -0,0 +1,14 @@
+import { documentSearchService } from '../services/documents';
+import { logger } from '../logger';
+
+// Uploads made by paths that don't queue indexing, and failed extractions due a retry
+export async function sweepDocumentIndex(): Promise<void> {
+  try {
+    const { queued } = await documentSearchService.sweep();
+    if (queued > 0) {
+      logger.info(`Document index sweep queued ${queued} document(s)`);
+    }
+  } catch (error) {
+    logger.warn('Document index sweep failed:', error);
+  }
+}
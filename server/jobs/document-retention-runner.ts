@@ -0,0 +1,11 @@
+import { retentionEngine } from '../services/documents';
+import { logger } from '../logger';
+
+// Retention notices and actions; documents under a legal hold are skipped
+export async function runDocumentRetention(): Promise<void> {
+  try {
+    await retentionEngine.run();
+  } catch (error) {
+    logger.warn('Document retention run failed:', error);
+  }
+}
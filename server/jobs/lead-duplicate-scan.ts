@@ -0,0 +1,12 @@
+import { leadDedupService } from '../services/lead-dedup-service';
+import { logger } from '../logger';
+
+// Duplicate pairs across the whole lead book; sales managers hear about new ones
+export async function scanLeadDuplicates(): Promise<void> {
+  try {
+    const result = await leadDedupService.scan();
+    logger.info(`Lead duplicate scan: ${result.scanned} leads, ${result.pairs} suspected pairs, ${result.newPairs} new`);
+  } catch (error) {
+    logger.warn('Lead duplicate scan failed:', error);
+  }
+}
@@ -0,0 +1,14 @@
+import { nurtureService } from '../services/nurture-service';
+import { logger } from '../logger';
+
+// Converted and unsubscribed leads, new leads for auto-enrolling sequences, and steps now due
+export async function runNurtureSequences(): Promise<void> {
+  try {
+    const { stopped, enrolled, queued } = await nurtureService.sweep();
+    if (stopped + enrolled + queued > 0) {
+      logger.info(`Nurture sweep: ${stopped} stopped, ${enrolled} enrolled, ${queued} queued`);
+    }
+  } catch (error) {
+    logger.warn('Nurture sweep failed:', error);
+  }
+}
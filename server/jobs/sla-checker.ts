@@ -4,12 +4,17 @@
  * Scheduled job that runs periodically to check SLA status
  * of all open service requests and escalate as needed.
  *
- * Recommended to run every 15-30 minutes via cron or job scheduler.
+ * The only scheduled SLA job; started from server/index.ts every 15 minutes.
  */
 
-import { slaService } from '../services/sla-service';
+import { slaService, type SLACheckResult } from '../services/sla-service';
 import { logger } from '../logger';
 
+let checkInterval: NodeJS.Timeout | null = null;
+let intervalMinutes: number | null = null;
+let lastCheckAt: Date | null = null;
+let lastResult: SLACheckResult | null = null;
+
 /**
  * Run SLA check for all open service requests
  * This function should be called by a job scheduler
@@ -43,12 +48,13 @@ export async function getSLASummary(): Promise<{
   atRisk: number;
   breached: number;
   onTrack: number;
+  paused: number;
 }> {
   try {
     return await slaService.getSLASummary();
   } catch (error) {
     logger.error('Failed to get SLA summary:', error);
-    return { total: 0, atRisk: 0, breached: 0, onTrack: 0 };
+    return { total: 0, atRisk: 0, breached: 0, onTrack: 0, paused: 0 };
   }
 }
 
@@ -59,12 +65,32 @@ export async function getSLASummary(): Promise<{
 export async function checkSlaBreaches(): Promise<void> {
   try {
     const result = await slaService.checkBreachesAndEscalate();
+    lastCheckAt = new Date();
+    lastResult = result;
     logger.info('SLA breach check completed', result);
   } catch (error) {
     logger.error('SLA breach check failed:', error);
   }
 }
 
+/**
+ * Register the periodic SLA check. Calling again replaces the interval.
+ */
+export function startSlaChecker(minutes: number = 15): void {
+  if (checkInterval) clearInterval(checkInterval);
+  intervalMinutes = minutes;
+  checkInterval = setInterval(() => checkSlaBreaches(), minutes * 60 * 1000);
+}
+
+export function getSlaCheckerStatus() {
+  return {
+    isRunning: !!checkInterval,
+    intervalMinutes,
+    lastCheckAt,
+    lastResult,
+  };
+}
+
 // Export for use as standalone script
 if (require.main === module) {
   runSLACheck()
@@ -30,6 +30,7 @@ const PREFIX_TO_TYPE: Record<string, IdType> = {
   'COM': ID_TYPES.COMMISSION,
   'WLT': ID_TYPES.WALLET_TXN,
   'PO': ID_TYPES.PAYOUT,
+  'JV': ID_TYPES.JOURNAL_ENTRY,
   'DOC': ID_TYPES.DOCUMENT,
   'DR': ID_TYPES.DOC_REQUEST,
   'SIG': ID_TYPES.SIGNATURE,
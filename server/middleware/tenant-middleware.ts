@@ -70,21 +70,9 @@ export async function extractTenant(
       }
     }
 
-    // 3. Check subdomain
+    // 3. Check subdomain, then 4. custom domain
     if (!tenant) {
-      const host = req.headers.host || '';
-      const subdomain = extractSubdomain(host);
-      if (subdomain && subdomain !== 'www' && subdomain !== 'api') {
-        tenant = await tenantService.getTenantBySlug(subdomain);
-      }
-    }
-
-    // 4. Check custom domain
-    if (!tenant) {
-      const host = req.headers.host || '';
-      if (host && !host.includes('localhost') && !host.includes('digicomply')) {
-        tenant = await tenantService.getTenantByDomain(host);
-      }
+      tenant = await resolveTenantFromHost(req.headers.host || '');
     }
 
     // 5. Query parameter tenant selection - REMOVED FOR SECURITY
@@ -327,6 +315,24 @@ export function logTenantContext(
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Resolve the tenant a host belongs to, by subdomain and then custom domain.
+ * Also used to record the tenant a session was signed in to.
+ */
+export async function resolveTenantFromHost(host: string): Promise<TenantInfo | null> {
+  const subdomain = extractSubdomain(host);
+  if (subdomain && subdomain !== 'www' && subdomain !== 'api') {
+    const tenant = await tenantService.getTenantBySlug(subdomain);
+    if (tenant) return tenant;
+  }
+
+  if (host && !host.includes('localhost') && !host.includes('digicomply')) {
+    return tenantService.getTenantByDomain(host);
+  }
+
+  return null;
+}
+
 /**
  * Extract subdomain from host
  */
@@ -3,39 +3,14 @@ import {
   serviceRequests,
   businessEntities,
   users,
-  notificationRules,
-  notificationOutbox,
-  notificationTemplates
+  notificationRules
 } from '@shared/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import cron from 'node-cron';
 import { EventEmitter } from 'events';
-import { sendWhatsApp, verifyWhatsAppConfig } from './services/whatsappService';
-import * as nodemailerModule from 'nodemailer';
-import { createRequire } from 'module';
-
-const require = createRequire(import.meta.url);
-
-// Handle ESM/CJS interop - nodemailer may export as default or module
-const nodemailer = (nodemailerModule as any).default || nodemailerModule;
-
-// Email transporter configuration
-const emailTransporter = nodemailer.createTransport({
-  host: process.env.SMTP_HOST || 'smtp.gmail.com',
-  port: parseInt(process.env.SMTP_PORT || '587'),
-  secure: process.env.SMTP_SECURE === 'true',
-  auth: {
-    user: process.env.SMTP_USER,
-    pass: process.env.SMTP_PASS
-  }
-});
-
-// SMS provider configuration (Twilio)
-const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID || '';
-const twilioAuthToken = process.env.TWILIO_AUTH_TOKEN || '';
-const twilioClient = twilioAccountSid.startsWith('AC') && twilioAuthToken
-  ? new (require('twilio'))(twilioAccountSid, twilioAuthToken)
-  : null;
+import { notificationDispatcher } from './services/notifications/notification-dispatcher';
+import { notificationDigestService } from './services/notifications/notification-digest-service';
+import { dedupeBucket, normalizeChannel, renderTemplate } from './services/notifications/dispatch-rules';
 
 // Enterprise Notification Engine for Universal Service Provider Platform
 export class NotificationEngine {
@@ -53,8 +28,8 @@ export class NotificationEngine {
     // Load and register all active notification rules
     await this.loadNotificationRules();
     
-    // Start the outbox processor
-    await this.startOutboxProcessor();
+    // Release deferred deliveries (quiet hours, batched frequencies)
+    await this.startDeferredDeliveryRelease();
     
     // Register event handlers
     this.registerEventHandlers();
@@ -308,226 +283,45 @@ export class NotificationEngine {
         reason: 'Please review and resubmit'
       };
 
-      // Create dedupe fingerprint
-      const dedupeFingerprint = `${rule.ruleKey}|${serviceRequest.id}|${template}|${Date.now()}`;
-
-      for (const channel of channels) {
-        // Check for existing notification in dedupe window
-        const existingNotification = await db
-          .select()
-          .from(notificationOutbox)
-          .where(
-            and(
-              eq(notificationOutbox.ruleKey, rule.ruleKey),
-              eq(notificationOutbox.serviceRequestId, serviceRequest.id),
-              eq(notificationOutbox.channel, channel),
-              sql`${notificationOutbox.createdAt} > NOW() - INTERVAL '${rule.dedupeWindowMins || 120} minutes'`
-            )
-          )
-          .limit(1);
-
-        if (existingNotification.length > 0) {
-          console.log(`⏭️ Skipping duplicate notification for ${rule.ruleKey}|${serviceRequest.id}|${channel}`);
-          continue;
-        }
+      // One key per rule, request and template inside the rule's dedupe window
+      const bucket = dedupeBucket(new Date(), rule.dedupeWindowMins || 120);
+      const result = await notificationDispatcher.dispatch({
+        type: rule.ruleKey,
+        templateKey: template,
+        channels: channels.map(normalizeChannel).filter(Boolean),
+        userId: contact?.id,
+        businessEntityId: entity?.id || serviceRequest.businessEntityId || serviceRequest.entityId || undefined,
+        data: templateVars,
+        referenceType: 'service_request',
+        referenceId: serviceRequest.id,
+        idempotencyKey: `rule-${rule.ruleKey}-${serviceRequest.id}-${template}-${bucket}`.replace(/[^\w-]/g, '_'),
+      });
 
-        // Queue the notification
-        await db.insert(notificationOutbox).values({
-          ruleKey: rule.ruleKey,
-          serviceRequestId: serviceRequest.id,
-          entityId: serviceRequest.entityId,
-          recipientEmail: contact?.email || null,
-          recipientPhone: contact?.phone || null,
-          channel,
-          templateKey: template,
-          payloadJson: JSON.stringify(templateVars),
-          dedupeFingerprint,
-          scheduledAt: new Date().toISOString(),
-          status: 'QUEUED'
-        });
-
-        console.log(`📤 Queued ${channel} notification for ${rule.ruleKey}|${serviceRequest.id}`);
-      }
+      console.log(`📤 Dispatched ${rule.ruleKey}|${serviceRequest.id} (${result.idempotencyKey})`);
     } catch (error) {
       console.error('❌ Error queueing notification:', error);
     }
   }
 
-  private async startOutboxProcessor() {
+  private async startDeferredDeliveryRelease() {
     const { jobManager } = await import('./job-lifecycle-manager.js');
 
-    // Process outbox every 30 seconds
+    // Delayed queue jobs release deferred deliveries; this sweep covers in-process mode
     jobManager.registerInterval(
-      'notification-outbox-processor',
+      'notification-deferred-release',
       async () => {
-        await this.processOutbox();
+        await notificationDispatcher.releaseDueDeliveries();
+        await notificationDigestService.sendDueDigests();
       },
-      30000, // 30 seconds
-      'Notification outbox processor - sends queued notifications via email/SMS/WhatsApp'
+      60000, // 1 minute
+      'Releases notification deliveries held for quiet hours and sends due digests'
     );
 
-    console.log('📦 Outbox processor started (30-second intervals) - managed by JobLifecycleManager');
-  }
-
-  private async processOutbox() {
-    try {
-      const queuedNotifications = await db
-        .select()
-        .from(notificationOutbox)
-        .where(eq(notificationOutbox.status, 'QUEUED'))
-        .limit(50);
-
-      for (const notification of queuedNotifications) {
-        await this.sendNotification(notification);
-      }
-    } catch (error) {
-      console.error('❌ Error processing outbox:', error);
-    }
-  }
-
-  private async sendNotification(notification: any) {
-    try {
-      // Get template
-      const template = await db
-        .select()
-        .from(notificationTemplates)
-        .where(eq(notificationTemplates.templateKey, notification.templateKey))
-        .limit(1);
-
-      if (template.length === 0) {
-        console.error(`❌ Template not found: ${notification.templateKey}`);
-        return;
-      }
-
-      const templateData = template[0];
-      const payload = JSON.parse(notification.payloadJson);
-
-      // Render template
-      const subject = this.renderTemplate(templateData.subject || '', payload);
-      const body = this.renderTemplate(templateData.body, payload);
-
-      let result;
-      switch (notification.channel) {
-        case 'EMAIL':
-          result = await this.sendEmail(notification.recipientEmail, subject, body);
-          break;
-        case 'WHATSAPP':
-          result = await this.sendWhatsApp(notification.recipientPhone, body);
-          break;
-        case 'SMS':
-          result = await this.sendSMS(notification.recipientPhone, body);
-          break;
-        default:
-          console.log(`📱 [${notification.channel}] → ${notification.recipientEmail || notification.recipientPhone} | ${body.slice(0, 100)}...`);
-          result = { success: true, providerId: 'demo' };
-      }
-
-      // Update notification status
-      await db
-        .update(notificationOutbox)
-        .set({
-          status: result.success ? 'SENT' : 'FAILED',
-          error: result.error || null,
-          updatedAt: new Date().toISOString()
-        })
-        .where(eq(notificationOutbox.id, notification.id));
-
-    } catch (error) {
-      console.error(`❌ Error sending notification ${notification.id}:`, error);
-      
-      await db
-        .update(notificationOutbox)
-        .set({
-          status: 'FAILED',
-          error: error.message,
-          updatedAt: new Date().toISOString()
-        })
-        .where(eq(notificationOutbox.id, notification.id));
-    }
+    console.log('📦 Deferred delivery release started (1-minute intervals) - managed by JobLifecycleManager');
   }
 
-  private renderTemplate(template: string, variables: any): string {
-    return template.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return variables[key] || match;
-    });
-  }
-
-  private async sendEmail(to: string, subject: string, body: string) {
-    try {
-      // Check if email is enabled
-      if (process.env.NOTIFICATION_EMAIL_ENABLED !== 'true') {
-        console.log(`📧 [EMAIL-DISABLED] → ${to} | ${subject}`);
-        return { success: true, providerId: 'disabled', message: 'Email notifications disabled' };
-      }
-
-      // Send real email via nodemailer
-      const info = await emailTransporter.sendMail({
-        from: process.env.SMTP_FROM || '"DigiComply" <noreply@digicomply.in>',
-        to,
-        subject,
-        html: body.replace(/\n/g, '<br>')
-      });
-
-      console.log(`📧 [EMAIL-SENT] → ${to} | ${subject} | MessageId: ${info.messageId}`);
-      return { success: true, providerId: info.messageId };
-    } catch (error: any) {
-      console.error(`📧 [EMAIL-ERROR] → ${to} | ${error.message}`);
-      return { success: false, error: error.message };
-    }
-  }
-
-  private async sendWhatsApp(to: string, body: string) {
-    try {
-      // Check if WhatsApp is enabled
-      if (process.env.NOTIFICATION_WHATSAPP_ENABLED !== 'true') {
-        console.log(`📱 [WHATSAPP-DISABLED] → ${to}`);
-        return { success: true, providerId: 'disabled', message: 'WhatsApp notifications disabled' };
-      }
-
-      // Use the WhatsApp service
-      const success = await sendWhatsApp({
-        to: to.startsWith('+') ? to : `+91${to}`,
-        message: body
-      });
-
-      if (success) {
-        console.log(`📱 [WHATSAPP-SENT] → ${to}`);
-        return { success: true, providerId: `wa-${Date.now()}` };
-      } else {
-        return { success: false, error: 'WhatsApp send failed' };
-      }
-    } catch (error: any) {
-      console.error(`📱 [WHATSAPP-ERROR] → ${to} | ${error.message}`);
-      return { success: false, error: error.message };
-    }
-  }
-
-  private async sendSMS(to: string, body: string) {
-    try {
-      // Check if SMS is enabled
-      if (process.env.NOTIFICATION_SMS_ENABLED !== 'true') {
-        console.log(`💬 [SMS-DISABLED] → ${to}`);
-        return { success: true, providerId: 'disabled', message: 'SMS notifications disabled' };
-      }
-
-      // Send real SMS via Twilio
-      if (!twilioClient) {
-        console.log(`💬 [SMS-NO-PROVIDER] → ${to}`);
-        return { success: false, error: 'SMS provider not configured' };
-      }
-
-      const message = await twilioClient.messages.create({
-        body: body.slice(0, 160), // SMS character limit
-        from: process.env.TWILIO_SMS_NUMBER,
-        to: to.startsWith('+') ? to : `+91${to}`
-      });
-
-      console.log(`💬 [SMS-SENT] → ${to} | SID: ${message.sid}`);
-      return { success: true, providerId: message.sid };
-    } catch (error: any) {
-      console.error(`💬 [SMS-ERROR] → ${to} | ${error.message}`);
-      return { success: false, error: error.message };
-    }
+  renderTemplate(template: string, variables: any): string {
+    return renderTemplate(template, variables || {});
   }
 
   // Public methods for triggering events
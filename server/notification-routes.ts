@@ -5,11 +5,13 @@ import {
   businessEntities,
   notificationRules,
   notificationTemplates,
-  notificationOutbox
+  notificationDeliveries
 } from '@shared/schema';
 import { eq, and, desc, sql } from 'drizzle-orm';
 import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES } from './rbac-middleware';
 import { notificationEngine } from './notification-engine';
+import { notificationDispatcher } from './services/notifications/notification-dispatcher';
+import { AppError } from './errors';
 import { ServiceSeeder } from './service-seeder';
 import { ServiceTemplateSeeder } from './service-template-seeder';
 
@@ -127,31 +129,57 @@ export function registerNotificationRoutes(app: Express) {
     }
   });
 
-  // Notification Outbox Monitoring
+  // Versioned template bodies (per channel and language)
+  app.get('/api/admin/notification-templates/:templateKey/versions', ...requireAdminAccess, async (req, res) => {
+    try {
+      res.json(await notificationDispatcher.listTemplateVersions(req.params.templateKey));
+    } catch (error) {
+      console.error('Error fetching notification template versions:', error);
+      res.status(500).json({ error: 'Failed to fetch notification template versions' });
+    }
+  });
+
+  app.post('/api/admin/notification-templates/:templateKey/versions', ...requireAdminAccess, async (req, res) => {
+    try {
+      const version = await notificationDispatcher.publishTemplateVersion(
+        req.params.templateKey,
+        req.body,
+        (req as any).user?.id
+      );
+      res.status(201).json(version);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message, details: error.details });
+      }
+      console.error('Error publishing notification template version:', error);
+      res.status(500).json({ error: 'Failed to publish notification template version' });
+    }
+  });
+
+  // Notification Delivery Monitoring
   app.get('/api/admin/notification-outbox', ...requireAdminAccess, async (req, res) => {
     try {
-      const { status, limit = 50, offset = 0 } = req.query;
-      
-      let query = db
+      const { status, channel, limit = 50, offset = 0 } = req.query;
+
+      const notifications = await db
         .select({
-          notification: notificationOutbox,
+          notification: notificationDeliveries,
           entityName: businessEntities.name
         })
-        .from(notificationOutbox)
-        .leftJoin(businessEntities, eq(notificationOutbox.entityId, businessEntities.id))
-        .orderBy(desc(notificationOutbox.createdAt))
+        .from(notificationDeliveries)
+        .leftJoin(businessEntities, eq(notificationDeliveries.businessEntityId, businessEntities.id))
+        .where(and(
+          status ? eq(notificationDeliveries.status, status as string) : undefined,
+          channel ? eq(notificationDeliveries.channel, channel as string) : undefined
+        ))
+        .orderBy(desc(notificationDeliveries.createdAt))
         .limit(parseInt(limit as string))
         .offset(parseInt(offset as string));
 
-      if (status) {
-        query = query.where(eq(notificationOutbox.status, status as string));
-      }
-
-      const notifications = await query;
       res.json(notifications);
     } catch (error) {
-      console.error('Error fetching notification outbox:', error);
-      res.status(500).json({ error: 'Failed to fetch notification outbox' });
+      console.error('Error fetching notification deliveries:', error);
+      res.status(500).json({ error: 'Failed to fetch notification deliveries' });
     }
   });
 
@@ -160,35 +188,36 @@ export function registerNotificationRoutes(app: Express) {
     try {
       const analytics = await db
         .select({
-          ruleKey: notificationOutbox.ruleKey,
-          channel: notificationOutbox.channel,
-          status: notificationOutbox.status,
-          count: sql`count(*)`
+          ruleKey: notificationDeliveries.notificationType,
+          channel: notificationDeliveries.channel,
+          status: notificationDeliveries.status,
+          count: sql<number>`count(*)::int`
         })
-        .from(notificationOutbox)
+        .from(notificationDeliveries)
         .groupBy(
-          notificationOutbox.ruleKey, 
-          notificationOutbox.channel, 
-          notificationOutbox.status
+          notificationDeliveries.notificationType,
+          notificationDeliveries.channel,
+          notificationDeliveries.status
         );
 
       // Get delivery rates
       const deliveryRates = await db
         .select({
-          channel: notificationOutbox.channel,
-          totalSent: sql`count(*)`,
-          delivered: sql`count(case when status = 'SENT' then 1 end)`,
-          failed: sql`count(case when status = 'FAILED' then 1 end)`
+          channel: notificationDeliveries.channel,
+          totalSent: sql<number>`count(*) filter (where status not in ('deferred', 'suppressed'))::int`,
+          delivered: sql<number>`count(*) filter (where status in ('delivered', 'read'))::int`,
+          bounced: sql<number>`count(*) filter (where status = 'bounced')::int`,
+          failed: sql<number>`count(*) filter (where status = 'failed')::int`
         })
-        .from(notificationOutbox)
-        .where(sql`created_at > datetime('now', '-30 days')`)
-        .groupBy(notificationOutbox.channel);
+        .from(notificationDeliveries)
+        .where(sql`${notificationDeliveries.createdAt} > NOW() - INTERVAL '30 days'`)
+        .groupBy(notificationDeliveries.channel);
 
       res.json({
         ruleAnalytics: analytics,
         deliveryRates: deliveryRates.map(rate => ({
           ...rate,
-          deliveryRate: rate.totalSent > 0 ? 
+          deliveryRate: rate.totalSent > 0 ?
             (Number(rate.delivered) / Number(rate.totalSent)) * 100 : 0
         }))
       });
@@ -238,8 +267,13 @@ export function registerNotificationRoutes(app: Express) {
   // Test Notification Templates
   app.post('/api/admin/test-template', ...requireAdminAccess, async (req, res) => {
     try {
-      const { templateKey, testData } = req.body;
-      
+      const { templateKey, testData, channel, language } = req.body;
+
+      if (channel) {
+        const preview = await notificationDispatcher.previewTemplate(templateKey, { channel, language, data: testData });
+        return res.json({ ...preview, testData });
+      }
+
       const template = await db
         .select()
         .from(notificationTemplates)
@@ -265,6 +299,9 @@ export function registerNotificationRoutes(app: Express) {
         testData
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message, details: error.details });
+      }
       console.error('Error testing template:', error);
       res.status(500).json({ error: 'Failed to test template' });
     }
@@ -332,26 +369,26 @@ export function registerNotificationRoutes(app: Express) {
         
         queuedNotifications: await db
           .select({ count: sql`count(*)` })
-          .from(notificationOutbox)
-          .where(eq(notificationOutbox.status, 'QUEUED')),
-          
+          .from(notificationDeliveries)
+          .where(sql`${notificationDeliveries.status} in ('queued', 'deferred')`),
+
         sentToday: await db
           .select({ count: sql`count(*)` })
-          .from(notificationOutbox)
+          .from(notificationDeliveries)
           .where(
             and(
-              eq(notificationOutbox.status, 'SENT'),
-              sql`date(created_at) = date('now')`
+              sql`${notificationDeliveries.status} in ('sent', 'delivered', 'read')`,
+              sql`${notificationDeliveries.createdAt}::date = CURRENT_DATE`
             )
           ),
-          
+
         failedToday: await db
           .select({ count: sql`count(*)` })
-          .from(notificationOutbox)
+          .from(notificationDeliveries)
           .where(
             and(
-              eq(notificationOutbox.status, 'FAILED'),
-              sql`date(created_at) = date('now')`
+              sql`${notificationDeliveries.status} in ('failed', 'bounced')`,
+              sql`${notificationDeliveries.createdAt}::date = CURRENT_DATE`
             )
           )
       };
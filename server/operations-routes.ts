@@ -2,6 +2,7 @@ import type { Express, Response } from "express";
 import { db } from "./db";
 import { services, serviceRequests, businessEntities, qualityReviews, documentsUploads, deliveryConfirmations, documentVault, users, notifications } from "@shared/schema";
 import { resolveDownloadUrl } from './storage-url';
+import { qcAnnotationService } from './services/qc-annotation-service';
 import { eq, sql, desc, and, inArray, isNull, or, ilike } from "drizzle-orm";
 import {
   sessionAuthMiddleware,
@@ -503,6 +504,14 @@ export function registerOperationsRoutes(app: Express) {
         return res.status(401).json({ error: 'Unauthorized' });
       }
 
+      const unresolved = await qcAnnotationService.findUnresolvedOnVaultDocument(documentId);
+      if (unresolved.length > 0) {
+        return res.status(409).json({
+          error: `${unresolved.length} annotation(s) must be resolved before approval`,
+          unresolvedAnnotations: unresolved,
+        });
+      }
+
       const [updated] = await db.update(documentVault)
         .set({
           approvalStatus: 'approved',
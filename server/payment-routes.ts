@@ -13,6 +13,8 @@ import {
   type AuthenticatedRequest
 } from './rbac-middleware';
 import { parseIdParam } from './middleware/id-validator';
+import { attributionService } from './services/attribution-service';
+import { logger } from './logger';
 
 // Client authentication middleware
 const clientAuth = [sessionAuthMiddleware, requireRole(USER_ROLES.CLIENT)] as const;
@@ -66,6 +68,22 @@ function normalizeLineItemStatus(status?: string) {
   return 'pending';
 }
 
+async function findEntityLead(entity: { contactEmail: string | null; contactPhone: string | null }, withAgent: boolean) {
+  const leadFilters = [];
+  if (entity.contactEmail) leadFilters.push(eq(leads.contactEmail, entity.contactEmail));
+  if (entity.contactPhone) leadFilters.push(eq(leads.contactPhone, entity.contactPhone));
+  if (leadFilters.length === 0) return null;
+
+  const [lead] = await db
+    .select()
+    .from(leads)
+    .where(and(withAgent ? sql`${leads.agentId} IS NOT NULL` : undefined, or(...leadFilters)))
+    .orderBy(desc(leads.createdAt))
+    .limit(1);
+
+  return lead || null;
+}
+
 async function maybeCreateCommissionForServiceRequest(serviceRequestId: number, paymentAmount?: number) {
   if (!serviceRequestId) return;
 
@@ -97,66 +115,98 @@ async function maybeCreateCommissionForServiceRequest(serviceRequestId: number,
 
   if (!entity) return;
 
-  let agentId: number | null = preferredAgentId;
-  let leadId: number | null = null;
+  const baseAmount = Number(paymentAmount ?? serviceRequest.totalAmount ?? 0);
+  if (!baseAmount || Number.isNaN(baseAmount)) return;
 
-  if (!agentId) {
-    const leadFilters = [];
-    if (entity.contactEmail) leadFilters.push(eq(leads.contactEmail, entity.contactEmail));
-    if (entity.contactPhone) leadFilters.push(eq(leads.contactPhone, entity.contactPhone));
-    if (leadFilters.length === 0) return;
+  // Split the commission among the agents the conversion's attribution credits.
+  // `commissions` is the live commission ledger (approval, disputes, payouts and
+  // tax all read it); the older `commissionRecords` table has no readers, so the
+  // splits are allocated here rather than there.
+  let leadId: number | null = serviceRequest.leadId ?? (await findEntityLead(entity, false))?.id ?? null;
+  let attributionId: number | null = null;
+  let shares: Array<{ agentId: number; weight: number | null }> = [];
 
-    const [lead] = await db
-      .select()
-      .from(leads)
-      .where(and(sql`${leads.agentId} IS NOT NULL`, or(...leadFilters)))
-      .orderBy(desc(leads.createdAt))
-      .limit(1);
-
-    if (!lead || !lead.agentId) return;
-    agentId = Number(lead.agentId);
-    leadId = lead.id;
+  if (leadId) {
+    try {
+      const attribution = await attributionService.attributeConversion({
+        leadId,
+        serviceRequestId,
+        conversionType: 'service_payment',
+        conversionValue: baseAmount,
+        agentHints: preferredAgentId
+          ? [{ agentId: preferredAgentId, occurredAt: serviceRequest.createdAt ?? new Date() }]
+          : [],
+      });
+      leadId = attribution.leadId;
+      shares = attributionService.agentShares(attribution);
+      if (shares.length > 0) attributionId = attribution.id;
+    } catch (error) {
+      logger.error(`Attribution failed for service request ${serviceRequestId}:`, error);
+    }
   }
 
-  const baseAmount = Number(paymentAmount ?? serviceRequest.totalAmount ?? 0);
-  if (!baseAmount || Number.isNaN(baseAmount)) return;
+  // No agent credited: the preferred agent, else the agent on a matching lead, earns it all
+  if (shares.length === 0) {
+    let agentId: number | null = preferredAgentId;
 
-  let commissionRate = 10;
-  const [partner] = await db
-    .select()
-    .from(agentPartners)
-    .where(eq(agentPartners.userId, agentId))
-    .limit(1);
-
-  if (partner?.commissionRate) {
-    commissionRate = Number(partner.commissionRate);
+    if (!agentId) {
+      const lead = await findEntityLead(entity, true);
+      if (!lead || !lead.agentId) return;
+      agentId = Number(lead.agentId);
+      leadId = lead.id;
+    }
+    shares = [{ agentId, weight: null }];
   }
 
-  const commissionAmount = Math.round(baseAmount * (commissionRate / 100) * 100) / 100;
   const payableOn = new Date();
   payableOn.setDate(payableOn.getDate() + 7);
 
-  await db.insert(commissions).values({
-    agentId,
-    serviceRequestId,
-    leadId: leadId || null,
-    commissionType: 'lead_conversion',
-    baseAmount: baseAmount.toFixed(2),
-    commissionRate: commissionRate.toFixed(2),
-    commissionAmount: commissionAmount.toFixed(2),
-    status: 'pending_approval',
-    payableOn,
-    notes: `Auto-generated commission for ${serviceRequest.requestId || `SR-${serviceRequest.id}`}`,
-  });
+  for (const share of shares) {
+    const agentId = share.agentId;
+    const creditedAmount = share.weight !== null
+      ? Math.round(baseAmount * share.weight * 100) / 100
+      : baseAmount;
 
-  if (partner?.id) {
-    await db
-      .update(agentPartners)
-      .set({
-        totalCommissionEarned: sql`${agentPartners.totalCommissionEarned} + ${commissionAmount}`,
-        lastActivity: new Date(),
-      })
-      .where(eq(agentPartners.id, partner.id));
+    let commissionRate = 10;
+    const [partner] = await db
+      .select()
+      .from(agentPartners)
+      .where(eq(agentPartners.userId, agentId))
+      .limit(1);
+
+    if (partner?.commissionRate) {
+      commissionRate = Number(partner.commissionRate);
+    }
+
+    const commissionAmount = Math.round(creditedAmount * (commissionRate / 100) * 100) / 100;
+    const requestRef = serviceRequest.requestId || `SR-${serviceRequest.id}`;
+
+    await db.insert(commissions).values({
+      agentId,
+      serviceRequestId,
+      leadId: leadId || null,
+      commissionType: 'lead_conversion',
+      baseAmount: creditedAmount.toFixed(2),
+      commissionRate: commissionRate.toFixed(2),
+      commissionAmount: commissionAmount.toFixed(2),
+      status: 'pending_approval',
+      payableOn,
+      attributionId,
+      attributionWeight: share.weight !== null ? share.weight.toFixed(4) : null,
+      notes: share.weight !== null && share.weight < 1
+        ? `Auto-generated commission for ${requestRef} (${Math.round(share.weight * 1000) / 10}% attributed share)`
+        : `Auto-generated commission for ${requestRef}`,
+    });
+
+    if (partner?.id) {
+      await db
+        .update(agentPartners)
+        .set({
+          totalCommissionEarned: sql`${agentPartners.totalCommissionEarned} + ${commissionAmount}`,
+          lastActivity: new Date(),
+        })
+        .where(eq(agentPartners.id, partner.id));
+    }
   }
 }
 
@@ -1192,6 +1242,37 @@ export function registerPaymentRoutes(app: Express) {
         return res.status(403).json({ error: 'You can only dispute your own commissions' });
       }
 
+      // The attribution the commission was split by, or one the agent points to
+      // (e.g. a recompute that credits them more); either must be for this conversion
+      const attributionId = req.body.attributionId ? parseInt(req.body.attributionId) : commission.attributionId;
+      let attributionEvidence = null;
+      if (attributionId) {
+        const found = await attributionService.getEvidence(attributionId).catch(() => null);
+        if (!found) {
+          return res.status(404).json({ error: 'Attribution not found' });
+        }
+        const { attribution, touchpoints } = found;
+        const sameConversion = commission.serviceRequestId
+          ? attribution.serviceRequestId === commission.serviceRequestId
+          : attribution.leadId === commission.leadId;
+        if (!sameConversion) {
+          return res.status(400).json({ error: 'Attribution is for a different conversion than this commission' });
+        }
+        attributionEvidence = {
+          type: 'attribution',
+          attributionId: attribution.id,
+          model: attribution.model,
+          splits: attribution.splits,
+          touchpoints: touchpoints.map(touch => ({
+            id: touch.id,
+            touchType: touch.touchType,
+            agentId: touch.agentId,
+            source: touch.utmSource || touch.referralCode || touch.source,
+            occurredAt: touch.occurredAt,
+          })),
+        };
+      }
+
       // Generate dispute number
       const disputeNumber = `DISP-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`;
       const now = new Date();
@@ -1216,10 +1297,13 @@ export function registerPaymentRoutes(app: Express) {
             category,
             reason,
             expectedAmount: expectedAmount || null,
-            evidence: evidence || [],
+            evidence: attributionEvidence
+              ? [...(Array.isArray(evidence) ? evidence : evidence ? [evidence] : []), attributionEvidence]
+              : evidence || [],
             disputedBy: disputedBy || 0,
             disputedAt: now,
             timeline,
+            attributionId: attributionId || null,
           })
           .returning();
 
@@ -1275,8 +1359,10 @@ export function registerPaymentRoutes(app: Express) {
           action: commissionDisputes.action,
           adjustedAmount: commissionDisputes.adjustedAmount,
           timeline: commissionDisputes.timeline,
+          attributionId: commissionDisputes.attributionId,
           commissionAmount: commissions.commissionAmount,
           commissionType: commissions.commissionType,
+          attributionWeight: commissions.attributionWeight,
           serviceRequestNumber: serviceRequests.requestId,
           serviceName: services.name,
           clientName: businessEntities.name,
@@ -2,7 +2,7 @@
 import { adminEngine } from './admin-engine';
 import { workflowEngine } from './workflow-engine';
 import { storage } from './storage';
-import { middlewareSyncEngine } from './middleware-sync';
+import { realtimeGateway } from './realtime';
 
 export interface PlatformState {
   frontend: {
@@ -107,15 +107,13 @@ export class PlatformSyncOrchestrator {
   }
 
   private async syncMiddlewareState() {
-    if (middlewareSyncEngine) {
-      // Get middleware metrics
-      this.platformState.middleware = {
-        syncConnections: middlewareSyncEngine.getActiveClientCount(),
-        eventQueue: [], // Would contain actual event queue in production
-        processingLoad: Math.random() * 100, // Simulated load
-        healthStatus: this.determineMiddlewareHealth()
-      };
-    }
+    // Get middleware metrics
+    this.platformState.middleware = {
+      syncConnections: realtimeGateway.getConnectionCount(),
+      eventQueue: [], // Would contain actual event queue in production
+      processingLoad: Math.random() * 100, // Simulated load
+      healthStatus: this.determineMiddlewareHealth()
+    };
   }
 
   private async validateFrontendBackendAlignment() {
@@ -153,19 +151,13 @@ export class PlatformSyncOrchestrator {
   private async resolveCacheMismatches(mismatches: any[]) {
     for (const mismatch of mismatches) {
       // Broadcast cache invalidation to all connected clients
-      if (middlewareSyncEngine) {
-        middlewareSyncEngine.broadcastEvent({
-          type: 'cache_invalidation',
-          payload: {
-            type: mismatch.type,
-            serviceId: mismatch.serviceId,
-            correctData: {
-              basePrice: mismatch.backendPrice
-            }
-          },
-          timestamp: new Date()
-        });
-      }
+      realtimeGateway.broadcastSyncEvent('cache_invalidation', {
+        type: mismatch.type,
+        serviceId: mismatch.serviceId,
+        correctData: {
+          basePrice: mismatch.backendPrice
+        }
+      });
     }
   }
 
@@ -267,10 +259,8 @@ export class PlatformSyncOrchestrator {
 
   private async validateUserStateConsistency(): Promise<boolean> {
     // Validate user session states across platform
-    if (middlewareSyncEngine) {
-      const activeClients = middlewareSyncEngine.getActiveClientCount();
-      this.platformState.frontend.activeUsers = activeClients;
-    }
+    const activeClients = realtimeGateway.getConnectionCount();
+    this.platformState.frontend.activeUsers = activeClients;
     
     return true;
   }
@@ -326,28 +316,16 @@ export class PlatformSyncOrchestrator {
     };
     
     // Broadcast cache optimization hints to frontend
-    if (middlewareSyncEngine) {
-      middlewareSyncEngine.broadcastEvent({
-        type: 'cache_optimization',
-        payload: cacheOptimizations,
-        timestamp: new Date()
-      });
-    }
+    realtimeGateway.broadcastSyncEvent('cache_optimization', cacheOptimizations);
   }
 
   private async broadcastStateUpdates() {
     // Broadcast comprehensive platform state to all connected clients
-    if (middlewareSyncEngine) {
-      middlewareSyncEngine.broadcastEvent({
-        type: 'platform_state_update',
-        payload: {
-          state: this.platformState,
-          timestamp: new Date(),
-          version: '1.0.0'
-        },
-        timestamp: new Date()
-      });
-    }
+    realtimeGateway.broadcastSyncEvent('platform_state_update', {
+      state: this.platformState,
+      timestamp: new Date(),
+      version: '1.0.0'
+    });
   }
 
   private setupRealTimeSync() {
@@ -389,34 +367,20 @@ export class PlatformSyncOrchestrator {
 
   private broadcastServiceUpdate(serviceId: string) {
     const service = adminEngine.getServiceConfiguration(serviceId);
-    if (service && middlewareSyncEngine) {
-      middlewareSyncEngine.broadcastEvent({
-        type: 'service_update',
-        payload: { service, timestamp: new Date() },
-        timestamp: new Date()
-      });
+    if (service) {
+      realtimeGateway.broadcastSyncEvent('service_update', { service, timestamp: new Date() });
     }
   }
 
   private broadcastWorkflowUpdate(workflowId: string) {
     const workflow = workflowEngine.getTemplate(workflowId);
-    if (workflow && middlewareSyncEngine) {
-      middlewareSyncEngine.broadcastEvent({
-        type: 'workflow_update',
-        payload: { workflow, timestamp: new Date() },
-        timestamp: new Date()
-      });
+    if (workflow) {
+      realtimeGateway.broadcastSyncEvent('workflow_update', { workflow, timestamp: new Date() });
     }
   }
 
   private broadcastUserActivityUpdate(userId: number, action: string) {
-    if (middlewareSyncEngine) {
-      middlewareSyncEngine.broadcastEvent({
-        type: 'user_activity',
-        payload: { userId, action, timestamp: new Date() },
-        timestamp: new Date()
-      });
-    }
+    realtimeGateway.broadcastSyncEvent('user_activity', { userId, action, timestamp: new Date() });
   }
 
   private handleSyncError(error: any) {
@@ -426,17 +390,11 @@ export class PlatformSyncOrchestrator {
     this.platformState.middleware.healthStatus = 'degraded';
     
     // Notify connected clients about sync issues
-    if (middlewareSyncEngine) {
-      middlewareSyncEngine.broadcastEvent({
-        type: 'sync_error',
-        payload: {
-          error: error.message,
-          timestamp: new Date(),
-          recovery: 'attempting_auto_recovery'
-        },
-        timestamp: new Date()
-      });
-    }
+    realtimeGateway.broadcastSyncEvent('sync_error', {
+      error: error.message,
+      timestamp: new Date(),
+      recovery: 'attempting_auto_recovery'
+    });
   }
 
   // Event system for internal communication
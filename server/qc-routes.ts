@@ -8,6 +8,8 @@ import {
   type AuthenticatedRequest
 } from './rbac-middleware';
 import { qcWorkflowService } from './services/qc-workflow-service';
+import { qcAnnotationService, type AnnotatedSource } from './services/qc-annotation-service';
+import { AppError } from './errors';
 
 // Middleware chains for QC routes
 const requireQCAccess = [sessionAuthMiddleware, requireMinimumRole(USER_ROLES.QC_EXECUTIVE)] as const;
@@ -589,6 +591,22 @@ export function registerQCRoutes(app: Application) {
 
       const currentUserId = req.user!.id;
 
+      // Approval waits until every annotation raised in review is resolved
+      if (status === QC_REVIEW_STATUS.APPROVED) {
+        const [review] = await db
+          .select({ serviceRequestId: qualityReviews.serviceRequestId })
+          .from(qualityReviews)
+          .where(eq(qualityReviews.id, parseInt(reviewId)))
+          .limit(1);
+        const unresolved = review ? await qcAnnotationService.findUnresolved(review.serviceRequestId) : [];
+        if (unresolved.length > 0) {
+          return res.status(409).json({
+            error: `${unresolved.length} annotation(s) must be resolved before approval`,
+            unresolvedAnnotations: unresolved
+          });
+        }
+      }
+
       // Update quality review
       await db
         .update(qualityReviews)
@@ -985,6 +1003,87 @@ export function registerQCRoutes(app: Application) {
     }
   });
 
+  // ============================================================================
+  // DOCUMENT ANNOTATIONS
+  // ============================================================================
+
+  // List annotations on a document (source=upload|vault&documentId=), a service request or a review
+  app.get('/api/qc/annotations', ...requireQCAccess, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { source, documentId, serviceRequestId, qualityReviewId, status, includeHistory } = req.query;
+
+      const annotations = await qcAnnotationService.list({
+        source: source === 'vault' ? 'vault' : 'upload',
+        documentId: documentId ? parseInt(documentId as string) : undefined,
+        serviceRequestId: serviceRequestId ? parseInt(serviceRequestId as string) : undefined,
+        qualityReviewId: qualityReviewId ? parseInt(qualityReviewId as string) : undefined,
+        status: status as string | undefined,
+      }, includeHistory === 'true');
+      res.json(annotations);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error fetching annotations:', error);
+      res.status(500).json({ error: 'Failed to fetch annotations' });
+    }
+  });
+
+  // Pin a comment, highlight or correction request to a document
+  app.post('/api/qc/annotations', ...requireQCAccess, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { source, documentId, ...input } = req.body;
+
+      const annotation = await qcAnnotationService.create({
+        ...input,
+        source: source as AnnotatedSource,
+        documentId: parseInt(documentId),
+      }, { id: req.user!.id, role: req.user!.role });
+      res.status(201).json(annotation);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error creating annotation:', error);
+      res.status(500).json({ error: 'Failed to create annotation' });
+    }
+  });
+
+  // Resolution history of an annotation
+  app.get('/api/qc/annotations/:annotationId/history', ...requireQCAccess, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const history = await qcAnnotationService.history(parseInt(req.params.annotationId));
+      res.json(history);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error fetching annotation history:', error);
+      res.status(500).json({ error: 'Failed to fetch annotation history' });
+    }
+  });
+
+  // Address, resolve, reopen or dismiss an annotation
+  app.post('/api/qc/annotations/:annotationId/:action', ...requireQCAccess, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { annotationId, action } = req.params;
+
+      const annotation = await qcAnnotationService.transition(
+        parseInt(annotationId),
+        action,
+        { id: req.user!.id, role: req.user!.role },
+        req.body?.note
+      );
+      res.json(annotation);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error updating annotation:', error);
+      res.status(500).json({ error: 'Failed to update annotation' });
+    }
+  });
+
   console.log('✅ QC routes registered');
 }
 
@@ -1021,6 +1120,9 @@ async function calculateQualityMetrics(qualityReviewId: number, serviceRequestId
     const documentQuality = totalWeight > 0 ? Math.round((passedWeight / totalWeight) * 100) : 100;
     const processAdherence = review.qualityScore || 0;
 
+    // Rework as recorded on the annotations raised in review
+    const rework = await qcAnnotationService.reworkStatistics(qualityReviewId, serviceRequestId);
+
     await db.insert(qualityMetrics).values({
       serviceRequestId,
       qualityReviewId,
@@ -1029,12 +1131,18 @@ async function calculateQualityMetrics(qualityReviewId: number, serviceRequestId
       documentQuality,
       processAdherence,
       clientCommunication: 85, // Placeholder
-      defectCount: checklist.filter(item => item.status === 'failed').length,
-      reworkCount: review.status === QC_REVIEW_STATUS.REWORK_REQUIRED ? 1 : 0,
+      defectCount: checklist.filter(item => item.status === 'failed').length + rework.correctionsRequested,
+      reworkCount: Math.max(review.status === QC_REVIEW_STATUS.REWORK_REQUIRED ? 1 : 0, rework.addressedCount),
+      annotationCount: rework.annotationCount,
+      correctionsRequested: rework.correctionsRequested,
+      annotationsReopened: rework.reopenedCount,
+      avgAnnotationResolutionMinutes: rework.avgResolutionMinutes,
       slaCompliance,
       slaVariance,
       reviewerEfficiency: qcDuration <= 30 ? 100 : Math.max(50, 100 - (qcDuration - 30) * 2),
-      firstPassSuccess: review.status === QC_REVIEW_STATUS.APPROVED,
+      firstPassSuccess: review.status === QC_REVIEW_STATUS.APPROVED
+        && rework.correctionsRequested === 0
+        && rework.reopenedCount === 0,
       performanceCategory: review.qualityScore && review.qualityScore >= QUALITY_SCORE.EXCELLENT ? 'excellent' :
                           review.qualityScore && review.qualityScore >= QUALITY_SCORE.GOOD ? 'good' :
                           review.qualityScore && review.qualityScore >= QUALITY_SCORE.SATISFACTORY ? 'average' : 'poor'
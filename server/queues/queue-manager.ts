@@ -6,7 +6,9 @@
  * - SLA escalation checks
  * - Compliance deadline processing
  * - Report generation
+ * - Template document generation (PDF/DOCX) and search indexing (OCR)
  * - Data sync operations
+ * - Lead nurture sequence steps
  */
 
 import { Queue, Worker, Job, QueueEvents } from 'bullmq';
@@ -18,7 +20,9 @@ export const QueueNames = {
   ESCALATIONS: 'escalations',
   COMPLIANCE: 'compliance',
   REPORTS: 'reports',
+  DOCUMENTS: 'documents',
   SYNC: 'sync',
+  NURTURE: 'nurture',
 } as const;
 
 type QueueName = typeof QueueNames[keyof typeof QueueNames];
@@ -127,35 +131,21 @@ function createQueue(
 }
 
 /**
- * Job processors - Now integrated with notification hub
+ * Job processors - Now integrated with notification hub and dispatcher
  */
 const processors: Record<QueueName, (job: Job) => Promise<any>> = {
-  // Notification processing - Uses notification hub
+  // Notification processing - Uses the notification dispatcher
   [QueueNames.NOTIFICATIONS]: async (job) => {
-    const { type, userId, to, channels, subject, content, data, referenceType, referenceId } = job.data;
-    logger.info(`Processing notification: ${type} to ${userId || to}`);
+    logger.info(`Processing notification job ${job.name}${job.id ? ` (${job.id})` : ''}`);
 
     try {
       // Dynamic import to avoid circular dependencies
-      const { notificationHub } = await import('../services/notifications');
+      const { notificationDispatcher } = await import('../services/notifications');
 
-      const result = await notificationHub.send({
-        userId,
-        to,
-        type,
-        channels: channels || ['in_app'],
-        subject,
-        content,
-        data,
-        referenceType,
-        referenceId,
-        immediate: true,
-        respectPreferences: true,
-      });
+      const result = await notificationDispatcher.processJob(job.data);
 
       return {
-        sent: result.allSucceeded,
-        results: result.results,
+        result,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
@@ -252,11 +242,37 @@ const processors: Record<QueueName, (job: Job) => Promise<any>> = {
           return { processed: true, action, remindersent: deadlines.rows.length };
         }
 
+        case 'apply_due_date_extensions': {
+          // Entity recalculation after a due date extension changed
+          const { dueDateExtensionService } = await import('../services/due-date-extension-service');
+          const result = await dueDateExtensionService.recalculateEntity(job.data);
+          return { processed: true, action, entityId, ...result };
+        }
+
         case 'calculate_health_score': {
           // Placeholder for health score calculation
           return { processed: true, action, entityId };
         }
 
+        case 'recalculate_entity': {
+          // Incremental state recalculation from compliance-event-emitter
+          const { stateEngine } = await import('../compliance-state-engine');
+          const { complianceEvents } = await import('../compliance-event-emitter');
+          const result = await stateEngine.calculateEntityState(entityId, {
+            domains: job.data.domains || undefined,
+            triggeredBy: 'EVENT',
+          });
+          if (!result.success) {
+            throw new Error(result.errors?.join('; ') || `Recalculation failed for entity ${entityId}`);
+          }
+          complianceEvents.emit('entity:recalculated', {
+            entityId,
+            domains: job.data.domains,
+            reasons: job.data.reasons,
+          });
+          return { processed: true, action, entityId, domains: job.data.domains || 'all' };
+        }
+
         default:
           return { processed: true, action };
       }
@@ -298,6 +314,26 @@ const processors: Record<QueueName, (job: Job) => Promise<any>> = {
     }
   },
 
+  // Documents - Template generation ('generate') and search indexing ('index')
+  [QueueNames.DOCUMENTS]: async (job) => {
+    try {
+      if (job.name === 'index') {
+        const { source, sourceId } = job.data;
+        logger.info(`Indexing ${source} document ${sourceId}`);
+        const { documentSearchService } = await import('../services/documents');
+        return await documentSearchService.indexDocument(source, sourceId);
+      }
+
+      const { generationJobId } = job.data;
+      logger.info(`Generating document for job ${generationJobId}`);
+      const { documentGenerationService } = await import('../services/documents');
+      return await documentGenerationService.processJob(generationJobId);
+    } catch (error) {
+      logger.error(`Document job ${job.name} failed:`, error);
+      throw error;
+    }
+  },
+
   // Data sync operations
   [QueueNames.SYNC]: async (job) => {
     const { source, target, operation, entityType, entityId } = job.data;
@@ -324,6 +360,18 @@ const processors: Record<QueueName, (job: Job) => Promise<any>> = {
       throw error;
     }
   },
+
+  // Lead nurture - run an enrollment's due steps
+  [QueueNames.NURTURE]: async (job) => {
+    const { enrollmentId } = job.data;
+    try {
+      const { nurtureService } = await import('../services/nurture-service');
+      return await nurtureService.runEnrollment(enrollmentId);
+    } catch (error) {
+      logger.error(`Nurture run failed for enrollment ${enrollmentId}:`, error);
+      throw error;
+    }
+  },
 };
 
 /**
@@ -343,7 +391,9 @@ export async function initializeQueues(): Promise<boolean> {
     createQueue(QueueNames.ESCALATIONS, processors[QueueNames.ESCALATIONS], 5);
     createQueue(QueueNames.COMPLIANCE, processors[QueueNames.COMPLIANCE], 5);
     createQueue(QueueNames.REPORTS, processors[QueueNames.REPORTS], 2);
+    createQueue(QueueNames.DOCUMENTS, processors[QueueNames.DOCUMENTS], 2);
     createQueue(QueueNames.SYNC, processors[QueueNames.SYNC], 3);
+    createQueue(QueueNames.NURTURE, processors[QueueNames.NURTURE], 3);
 
     logger.info('All queues initialized successfully');
     return true;
@@ -364,6 +414,7 @@ export async function addJob<T>(
     delay?: number;
     priority?: number;
     jobId?: string;
+    deduplication?: { id: string; ttl?: number };
   }
 ): Promise<string | null> {
   const queue = queues.get(queueName);
@@ -385,6 +436,7 @@ export async function addJob<T>(
       delay: options?.delay,
       priority: options?.priority,
       jobId: options?.jobId,
+      deduplication: options?.deduplication,
     });
     return job.id || null;
   } catch (error) {
@@ -0,0 +1,21 @@
+/**
+ * Real-time Module
+ *
+ * Authenticated, room-scoped WebSocket events with replay and Redis fan-out
+ */
+
+export {
+  realtimeGateway,
+  initializeRealtimeGateway,
+  publishPipelineEvent,
+  publishComplianceAlert,
+  publishStatusTransition,
+  publishMessageCreated,
+} from './realtime-gateway';
+
+export {
+  Rooms,
+  STAFF_ROOM,
+  type RealtimeEvent,
+  type RealtimeEventType,
+} from './realtime-events';
@@ -0,0 +1,321 @@
+/**
+ * Real-time Events
+ *
+ * Event shape, room naming, audience checks and the replay buffer used by the
+ * real-time gateway. Kept free of I/O so delivery rules can be tested directly.
+ *
+ * Rooms:
+ * - user:<id>              every connection of a user
+ * - role:<role>            every connection of a role
+ * - staff                  every internal (non-client, non-agent) connection
+ * - entity:<id>            clients owning the business entity, and staff
+ *                          roles that work entities once they subscribe
+ * - service_request:<id>   connections that subscribed to the request
+ *
+ * An event goes to connections in any of its rooms, and only to connections
+ * of the tenant it was published under. Service requests, entities and
+ * pipeline events are not stored per tenant, so events belong to the
+ * installation's ledger tenant; connections carry the tenant their session
+ * was signed in to, falling back to the same installation tenant.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RealtimeEventType =
+  | 'pipeline_event'
+  | 'compliance_alert'
+  | 'status_changed'
+  | 'message_created'
+  | 'sync_event';
+
+export interface RealtimeEvent {
+  id: string; // Also the replay cursor
+  type: RealtimeEventType;
+  payload: Record<string, unknown>;
+  rooms: string[];
+  tenantId?: string | null;
+  timestamp: string;
+}
+
+export type RealtimeEventInput = Omit<RealtimeEvent, 'id' | 'timestamp'>;
+
+export interface RealtimeAudience {
+  rooms: Set<string>;
+  tenantId: string | null;
+}
+
+export interface ConnectionIdentity {
+  userId: number;
+  role: string;
+  tenantId: string | null;
+  entityIds: number[];
+}
+
+// ============================================================================
+// ROOMS
+// ============================================================================
+
+export const STAFF_ROOM = 'staff';
+
+const NON_STAFF_ROLES = ['client', 'agent'];
+
+export const Rooms = {
+  user: (userId: number) => `user:${userId}`,
+  role: (role: string) => `role:${role}`,
+  entity: (entityId: number) => `entity:${entityId}`,
+  serviceRequest: (serviceRequestId: number) => `service_request:${serviceRequestId}`,
+  staff: STAFF_ROOM,
+};
+
+export function isStaffRole(role: string): boolean {
+  return !NON_STAFF_ROLES.includes(role);
+}
+
+/**
+ * Rooms a connection joins on connect
+ */
+export function roomsForConnection(identity: ConnectionIdentity): string[] {
+  const rooms = [Rooms.user(identity.userId), Rooms.role(identity.role)];
+  if (isStaffRole(identity.role)) rooms.push(STAFF_ROOM);
+  identity.entityIds.forEach((entityId) => rooms.push(Rooms.entity(entityId)));
+  return rooms;
+}
+
+export type SubscribableRoom = { kind: 'entity' | 'service_request'; id: number };
+
+// Staff roles that may subscribe to each kind of room: requests for the teams
+// delivering them, entities for the teams handling compliance and billing
+const SUBSCRIBER_ROLES: Record<SubscribableRoom['kind'], string[]> = {
+  service_request: ['super_admin', 'admin', 'ops_manager', 'ops_executive', 'qc_executive', 'customer_service'],
+  entity: ['super_admin', 'admin', 'ops_manager', 'ops_executive', 'customer_service', 'accountant'],
+};
+
+export function isSubscriberRole(role: string, kind: SubscribableRoom['kind']): boolean {
+  return SUBSCRIBER_ROLES[kind].includes(role);
+}
+
+/**
+ * Rooms a client may ask to join after connecting. The gateway still checks
+ * access to the specific entity or request.
+ */
+export function parseSubscribableRoom(room: unknown): SubscribableRoom | null {
+  if (typeof room !== 'string') return null;
+  const match = /^(entity|service_request):(\d+)$/.exec(room);
+  if (!match) return null;
+  const id = parseInt(match[2], 10);
+  return id > 0 ? { kind: match[1] as 'entity' | 'service_request', id } : null;
+}
+
+/**
+ * Stamp an event with the tenant it is published under, unless it names one
+ */
+export function scopeToTenant(input: RealtimeEventInput, tenantId: string | null): RealtimeEventInput {
+  return input.tenantId ? input : { ...input, tenantId };
+}
+
+export function isAudienceFor(event: RealtimeEvent, audience: RealtimeAudience): boolean {
+  if (event.tenantId && event.tenantId !== audience.tenantId) return false;
+  return event.rooms.some((room) => audience.rooms.has(room));
+}
+
+// ============================================================================
+// EVENT MAPPING
+// ============================================================================
+
+export interface PipelineEventRecord {
+  id: number;
+  eventType: string;
+  entityType: string;
+  entityId: number;
+  payload?: unknown;
+  previousState?: string | null;
+  newState?: string | null;
+}
+
+/**
+ * Pipeline payloads carry handler internals, so only the event envelope is
+ * sent. Request and entity rooms are added when the payload names them.
+ */
+export function pipelineEventToRealtime(event: PipelineEventRecord): RealtimeEventInput {
+  const payload = (event.payload ?? {}) as Record<string, unknown>;
+  const rooms = [STAFF_ROOM];
+
+  if (event.entityType === 'service_request') rooms.push(Rooms.serviceRequest(event.entityId));
+  if (event.entityType === 'business_entity') rooms.push(Rooms.entity(event.entityId));
+  const businessEntityId = Number(payload.businessEntityId);
+  if (event.entityType !== 'business_entity' && Number.isInteger(businessEntityId) && businessEntityId > 0) {
+    rooms.push(Rooms.entity(businessEntityId));
+  }
+
+  return {
+    type: 'pipeline_event',
+    payload: {
+      pipelineEventId: event.id,
+      eventType: event.eventType,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      previousState: event.previousState ?? null,
+      newState: event.newState ?? null,
+    },
+    rooms,
+  };
+}
+
+export interface ComplianceAlertRecord {
+  id: number;
+  entityId: number;
+  ruleId: string;
+  alertType: string;
+  severity: string;
+  title: string;
+  message: string;
+  actionRequired?: string | null;
+  triggeredAt?: Date | string | null;
+}
+
+// Alerts that ask staff to act rather than inform the client
+const REVIEW_ALERT_TYPES = ['EXTENSION_REQUEST'];
+const REVIEWER_ROLES = ['super_admin', 'admin', 'ops_manager'];
+
+export function complianceAlertToRealtime(alert: ComplianceAlertRecord): RealtimeEventInput {
+  const rooms = REVIEW_ALERT_TYPES.includes(alert.alertType)
+    ? REVIEWER_ROLES.map((role) => Rooms.role(role))
+    : [Rooms.entity(alert.entityId)];
+
+  return {
+    type: 'compliance_alert',
+    payload: {
+      alertId: alert.id,
+      entityId: alert.entityId,
+      ruleId: alert.ruleId,
+      alertType: alert.alertType,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      actionRequired: alert.actionRequired ?? null,
+      triggeredAt: alert.triggeredAt ? new Date(alert.triggeredAt).toISOString() : null,
+    },
+    rooms,
+  };
+}
+
+export interface StatusTransitionRecord {
+  serviceRequestId: number;
+  businessEntityId?: number | null;
+  fromStatus: string | null;
+  toStatus: string;
+  toStatusName?: string | null;
+  changedBy?: number | null;
+}
+
+export function statusTransitionToRealtime(transition: StatusTransitionRecord): RealtimeEventInput {
+  const rooms = [STAFF_ROOM, Rooms.serviceRequest(transition.serviceRequestId)];
+  if (transition.businessEntityId) rooms.push(Rooms.entity(transition.businessEntityId));
+
+  return {
+    type: 'status_changed',
+    payload: {
+      serviceRequestId: transition.serviceRequestId,
+      businessEntityId: transition.businessEntityId ?? null,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      toStatusName: transition.toStatusName ?? null,
+      changedBy: transition.changedBy ?? null,
+    },
+    rooms,
+  };
+}
+
+export interface MessageRecord {
+  id: number;
+  threadId: number | string;
+  senderId: number;
+  content: string | null;
+  serviceRequestId?: number | null;
+  businessEntityId?: number | null;
+  recipientIds?: number[];
+}
+
+export function messageToRealtime(message: MessageRecord): RealtimeEventInput {
+  const rooms = (message.recipientIds ?? []).map((userId) => Rooms.user(userId));
+  if (message.serviceRequestId) rooms.push(Rooms.serviceRequest(message.serviceRequestId));
+  if (message.businessEntityId) rooms.push(Rooms.entity(message.businessEntityId));
+
+  return {
+    type: 'message_created',
+    payload: {
+      messageId: message.id,
+      threadId: message.threadId,
+      senderId: message.senderId,
+      serviceRequestId: message.serviceRequestId ?? null,
+      preview: (message.content ?? '').substring(0, 100),
+    },
+    rooms: Array.from(new Set(rooms)),
+  };
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Recent events in arrival order, for reconnecting clients. Event ids are
+ * assigned by the publishing instance and shared over Redis, so a cursor
+ * issued by one instance can be resumed on another.
+ */
+export class ReplayBuffer {
+  private events: RealtimeEvent[] = [];
+
+  constructor(
+    private readonly capacity: number = 1000,
+    private readonly maxAgeMs: number = 15 * 60 * 1000
+  ) {}
+
+  add(event: RealtimeEvent, now: number = Date.now()): void {
+    this.events.push(event);
+    this.evict(now);
+  }
+
+  /**
+   * Events after the cursor the audience may see, or null when the cursor is
+   * no longer buffered and the client has to refetch instead
+   */
+  since(cursor: string, audience: RealtimeAudience, now: number = Date.now()): RealtimeEvent[] | null {
+    this.evict(now);
+    const index = this.events.findIndex((event) => event.id === cursor);
+    if (index === -1) return null;
+    return this.events.slice(index + 1).filter((event) => isAudienceFor(event, audience));
+  }
+
+  latestCursor(): string | null {
+    return this.events.length > 0 ? this.events[this.events.length - 1].id : null;
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  private evict(now: number) {
+    if (this.events.length > this.capacity) {
+      this.events = this.events.slice(-this.capacity);
+    }
+    const oldestAllowed = now - this.maxAgeMs;
+    const firstFresh = this.events.findIndex((event) => Date.parse(event.timestamp) >= oldestAllowed);
+    if (firstFresh > 0) {
+      this.events = this.events.slice(firstFresh);
+    } else if (firstFresh === -1) {
+      this.events = [];
+    }
+  }
+}
+
+/**
+ * Event ids sort by publish time within an instance and stay unique across
+ * instances
+ */
+export function createEventIdGenerator(instanceId: string): () => string {
+  let sequence = 0;
+  return () => `${Date.now().toString(36)}-${instanceId}-${(++sequence).toString(36)}`;
+}
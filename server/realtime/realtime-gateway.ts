@@ -0,0 +1,532 @@
+/**
+ * Real-time Gateway
+ *
+ * Authenticated WebSocket gateway on /ws/sync, replacing the anonymous
+ * MiddlewareSyncEngine.
+ *
+ * - Upgrades are authenticated before the handshake with the same session
+ *   token as the REST API (cookie or Bearer), falling back to an access JWT
+ * - The tenant is the one the session was signed in to, never the Host header.
+ *   Events are published under the installation's ledger tenant and only
+ *   reach connections of the same tenant
+ * - Connections join rooms for their user, role and owned entities,
+ *   and may subscribe to entity / service request rooms their role works on
+ * - Events are buffered for replay: a reconnecting client passes the last
+ *   cursor it saw (?cursor=) and receives what it missed
+ * - With Redis available, events are shared over pub/sub so every instance
+ *   delivers and buffers the same events
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import crypto from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { businessEntities, serviceRequests, users, userSessions } from '@shared/schema';
+import { logger } from '../logger';
+import { normalizeRole } from '../rbac-middleware';
+import {
+  ReplayBuffer,
+  complianceAlertToRealtime,
+  createEventIdGenerator,
+  isAudienceFor,
+  isStaffRole,
+  isSubscriberRole,
+  messageToRealtime,
+  parseSubscribableRoom,
+  pipelineEventToRealtime,
+  roomsForConnection,
+  scopeToTenant,
+  statusTransitionToRealtime,
+  STAFF_ROOM,
+  type ComplianceAlertRecord,
+  type ConnectionIdentity,
+  type MessageRecord,
+  type PipelineEventRecord,
+  type RealtimeAudience,
+  type RealtimeEvent,
+  type RealtimeEventInput,
+  type StatusTransitionRecord,
+  type SubscribableRoom,
+} from './realtime-events';
+
+const GATEWAY_PATH = '/ws/sync';
+const REDIS_CHANNEL = 'realtime:events';
+const HEARTBEAT_MS = 30000;
+const MAX_SUBSCRIPTIONS = 50;
+
+interface AuthenticatedConnection {
+  identity: ConnectionIdentity;
+  expiresAt: Date | null;
+}
+
+interface GatewayConnection extends AuthenticatedConnection {
+  id: string;
+  ws: WebSocket;
+  audience: RealtimeAudience;
+  subscriptions: Set<string>;
+  isAlive: boolean;
+}
+
+interface RemoteEnvelope {
+  origin: string;
+  event: RealtimeEvent;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  (header || '').split(';').forEach((part) => {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    }
+  });
+  return cookies;
+}
+
+/**
+ * Browsers cannot set headers on WebSocket requests, so the session cookie is
+ * the usual source; API clients can use a Bearer header. Tokens are not taken
+ * from the query string, where proxies and access logs would record them.
+ */
+function extractToken(req: IncomingMessage): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) return authHeader.slice(7);
+  return parseCookies(req.headers.cookie).sessionToken || null;
+}
+
+export class RealtimeGateway {
+  private wss: WebSocketServer | null = null;
+  private connections: Map<string, GatewayConnection> = new Map();
+  private buffer = new ReplayBuffer();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private redisPublish: ((message: string) => Promise<boolean>) | null = null;
+  private tenantId: string | null = null;
+  readonly instanceId = crypto.randomBytes(4).toString('hex');
+  private nextEventId = createEventIdGenerator(this.instanceId);
+
+  attach(server: Server) {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ noServer: true });
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.handleUpgrade(req, socket, head);
+    });
+
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_MS);
+    this.heartbeatTimer.unref?.();
+  }
+
+  /**
+   * Share events with other instances over Redis pub/sub. Without Redis the
+   * gateway keeps working for connections on this instance.
+   */
+  async attachRedisAdapter(): Promise<boolean> {
+    try {
+      const cache = await import('../cache/redis-client');
+      if (!cache.isRedisAvailable()) {
+        await cache.initializeRedis();
+      }
+
+      const subscribed = await cache.subscribeToChannel(REDIS_CHANNEL, (message) => this.handleRemoteMessage(message));
+      if (!subscribed) {
+        logger.info('Real-time gateway running without Redis - events reach this instance only');
+        return false;
+      }
+
+      this.redisPublish = (message) => cache.publishMessage(REDIS_CHANNEL, message);
+      logger.info(`Real-time gateway subscribed to ${REDIS_CHANNEL} (instance ${this.instanceId})`);
+      return true;
+    } catch (error) {
+      logger.warn('Real-time gateway Redis adapter unavailable:', (error as Error).message);
+      return false;
+    }
+  }
+
+  /**
+   * The installation's ledger tenant, which events are published under and
+   * sessions without a tenant fall back to. Retried until a tenant exists.
+   */
+  async resolveTenant(): Promise<string | null> {
+    if (this.tenantId) return this.tenantId;
+    try {
+      const { ledgerService } = await import('../services/ledger-service');
+      this.tenantId = await ledgerService.resolveTenantId();
+    } catch (error) {
+      logger.warn('Real-time gateway could not resolve the tenant:', (error as Error).message);
+    }
+    return this.tenantId;
+  }
+
+  /**
+   * Publish an event to its rooms on every instance
+   */
+  publish(input: RealtimeEventInput): RealtimeEvent {
+    const event: RealtimeEvent = {
+      ...scopeToTenant(input, this.tenantId),
+      id: this.nextEventId(),
+      timestamp: new Date().toISOString(),
+    };
+
+    this.dispatch(event);
+
+    if (this.redisPublish) {
+      this.redisPublish(JSON.stringify({ origin: this.instanceId, event } as RemoteEnvelope))
+        .catch((error) => logger.error('Failed to publish real-time event to Redis:', error));
+    }
+
+    return event;
+  }
+
+  /**
+   * Instance-local platform sync notices for staff. Not buffered and carries
+   * no cursor, since each instance produces its own.
+   */
+  broadcastSyncEvent(type: string, payload: unknown) {
+    const message = JSON.stringify({ type: 'sync_event', payload: { type, payload }, timestamp: new Date().toISOString() });
+    this.connections.forEach((connection) => {
+      if (connection.audience.rooms.has(STAFF_ROOM)) {
+        this.sendRaw(connection, message);
+      }
+    });
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  getStatus() {
+    return {
+      instanceId: this.instanceId,
+      attached: this.wss !== null,
+      connections: this.connections.size,
+      bufferedEvents: this.buffer.size,
+      latestCursor: this.buffer.latestCursor(),
+      redis: this.redisPublish !== null,
+    };
+  }
+
+  private dispatch(event: RealtimeEvent) {
+    this.buffer.add(event);
+    const message = JSON.stringify(event);
+    this.connections.forEach((connection) => {
+      if (isAudienceFor(event, connection.audience)) {
+        this.sendRaw(connection, message);
+      }
+    });
+  }
+
+  private handleRemoteMessage(raw: string) {
+    try {
+      const envelope = JSON.parse(raw) as RemoteEnvelope;
+      if (envelope.origin === this.instanceId || !envelope.event?.id) return;
+      this.dispatch(envelope.event);
+    } catch (error) {
+      logger.error('Invalid real-time event from Redis:', error);
+    }
+  }
+
+  // ==========================================================================
+  // CONNECTIONS
+  // ==========================================================================
+
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    // Other upgrade listeners (e.g. Vite HMR) own every other path
+    if (url.pathname !== GATEWAY_PATH || !this.wss) return;
+
+    this.authenticate(req)
+      .then((auth) => {
+        if (!auth) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+        this.wss!.handleUpgrade(req, socket, head, (ws) => this.onConnection(ws, auth, url.searchParams.get('cursor')));
+      })
+      .catch((error) => {
+        logger.error('Real-time gateway upgrade failed:', error);
+        socket.write('HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n');
+        socket.destroy();
+      });
+  }
+
+  private async authenticate(req: IncomingMessage): Promise<AuthenticatedConnection | null> {
+    const token = extractToken(req);
+    if (!token) return null;
+
+    let userId: number | null = null;
+    let expiresAt: Date | null = null;
+    // Access JWTs carry no tenant and fall back to the installation's
+    let tenantId: string | null = null;
+
+    const [session] = await db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.sessionToken, token))
+      .limit(1);
+
+    if (session) {
+      if (!session.isActive || session.expiresAt < new Date()) return null;
+      userId = session.userId;
+      expiresAt = session.expiresAt;
+      tenantId = session.tenantId;
+    } else {
+      const jwt = await this.verifyAccessToken(token);
+      if (!jwt) return null;
+      ({ userId, expiresAt } = jwt);
+    }
+
+    const [user] = await db
+      .select({ id: users.id, role: users.role, isActive: users.isActive })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (!user || !user.isActive) return null;
+
+    // Aliases and mixed case must not make a client or partner look like staff
+    const role = normalizeRole(user.role);
+    const entityIds = isStaffRole(role) ? [] : await this.ownedEntityIds(user.id);
+
+    return {
+      identity: {
+        userId: user.id,
+        role,
+        tenantId: tenantId ?? await this.resolveTenant(),
+        entityIds,
+      },
+      expiresAt,
+    };
+  }
+
+  private async verifyAccessToken(token: string): Promise<{ userId: number; expiresAt: Date | null } | null> {
+    try {
+      // Loaded lazily: the JWT config throws when JWT_SECRET is not set
+      const { verifyToken } = await import('../config/jwt');
+      const decoded = verifyToken(token);
+      if (!decoded || decoded.type !== 'access') return null;
+
+      const { isTokenRevoked } = await import('../middleware/auth');
+      if (await isTokenRevoked(token)) return null;
+
+      const userId = decoded.id || parseInt(decoded.userId) || 0;
+      const exp = (decoded as { exp?: number }).exp;
+      return userId ? { userId, expiresAt: exp ? new Date(exp * 1000) : null } : null;
+    } catch (error) {
+      logger.debug('Real-time gateway JWT verification unavailable:', (error as Error).message);
+      return null;
+    }
+  }
+
+  private async ownedEntityIds(userId: number): Promise<number[]> {
+    const owned = await db
+      .select({ id: businessEntities.id })
+      .from(businessEntities)
+      .where(and(eq(businessEntities.ownerId, userId), eq(businessEntities.isActive, true)));
+    return owned.map((entity: { id: number }) => entity.id);
+  }
+
+  private onConnection(ws: WebSocket, auth: AuthenticatedConnection, cursor: string | null) {
+    const connection: GatewayConnection = {
+      ...auth,
+      id: crypto.randomUUID(),
+      ws,
+      audience: { rooms: new Set(roomsForConnection(auth.identity)), tenantId: auth.identity.tenantId },
+      subscriptions: new Set(),
+      isAlive: true,
+    };
+
+    // Replay and registration happen in the same tick, so nothing published
+    // meanwhile is missed or delivered twice
+    const missed = cursor ? this.buffer.since(cursor, connection.audience) : [];
+    this.connections.set(connection.id, connection);
+
+    ws.on('pong', () => {
+      connection.isAlive = true;
+    });
+    ws.on('message', (data) => {
+      this.handleClientMessage(connection, data.toString()).catch((error) => {
+        logger.error('Real-time gateway message handling failed:', error);
+        this.send(connection, { type: 'error', payload: { message: 'Failed to handle message' } });
+      });
+    });
+    ws.on('close', () => {
+      this.connections.delete(connection.id);
+    });
+
+    this.send(connection, {
+      type: 'connected',
+      payload: {
+        connectionId: connection.id,
+        userId: auth.identity.userId,
+        role: auth.identity.role,
+        rooms: Array.from(connection.audience.rooms),
+        cursor: this.buffer.latestCursor(),
+        replayed: missed?.length ?? 0,
+        resyncRequired: missed === null,
+      },
+    });
+    missed?.forEach((event) => this.sendRaw(connection, JSON.stringify(event)));
+  }
+
+  private async handleClientMessage(connection: GatewayConnection, raw: string) {
+    let message: { type?: string; room?: unknown };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.send(connection, { type: 'error', payload: { message: 'Invalid JSON' } });
+      return;
+    }
+
+    switch (message.type) {
+      case 'ping':
+        this.send(connection, { type: 'pong' });
+        break;
+      case 'subscribe':
+        await this.subscribe(connection, message.room);
+        break;
+      case 'unsubscribe':
+        if (typeof message.room === 'string' && connection.subscriptions.delete(message.room)) {
+          connection.audience.rooms.delete(message.room);
+        }
+        this.send(connection, { type: 'unsubscribed', payload: { room: message.room } });
+        break;
+      default:
+        this.send(connection, { type: 'error', payload: { message: `Unknown message type: ${message.type}` } });
+    }
+  }
+
+  private async subscribe(connection: GatewayConnection, room: unknown) {
+    const target = parseSubscribableRoom(room);
+    if (!target) {
+      this.send(connection, { type: 'error', payload: { message: 'Only entity:<id> and service_request:<id> rooms can be subscribed', room } });
+      return;
+    }
+
+    const roomName = room as string;
+    if (connection.audience.rooms.has(roomName)) {
+      this.send(connection, { type: 'subscribed', payload: { room: roomName } });
+      return;
+    }
+
+    if (connection.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+      this.send(connection, { type: 'error', payload: { message: `At most ${MAX_SUBSCRIPTIONS} subscriptions per connection`, room } });
+      return;
+    }
+
+    if (!(await this.canAccess(connection.identity, target))) {
+      this.send(connection, { type: 'error', payload: { message: 'Access denied', room } });
+      return;
+    }
+
+    connection.subscriptions.add(roomName);
+    connection.audience.rooms.add(roomName);
+    this.send(connection, { type: 'subscribed', payload: { room: roomName } });
+  }
+
+  private async canAccess(identity: ConnectionIdentity, target: SubscribableRoom): Promise<boolean> {
+    if (isStaffRole(identity.role)) return isSubscriberRole(identity.role, target.kind);
+    if (identity.role !== 'client') return false;
+
+    if (target.kind === 'entity') {
+      return identity.entityIds.includes(target.id);
+    }
+
+    const [request] = await db
+      .select({
+        userId: serviceRequests.userId,
+        businessEntityId: serviceRequests.businessEntityId,
+        entityId: serviceRequests.entityId,
+      })
+      .from(serviceRequests)
+      .where(eq(serviceRequests.id, target.id))
+      .limit(1);
+    if (!request) return false;
+
+    const entityId = request.businessEntityId ?? request.entityId;
+    return request.userId === identity.userId || (!!entityId && identity.entityIds.includes(entityId));
+  }
+
+  /**
+   * Drop dead sockets and connections whose session has expired
+   */
+  private heartbeat() {
+    const now = new Date();
+    this.connections.forEach((connection) => {
+      if (connection.expiresAt && connection.expiresAt < now) {
+        connection.ws.close(4001, 'Session expired');
+        return;
+      }
+      if (!connection.isAlive) {
+        connection.ws.terminate();
+        return;
+      }
+      connection.isAlive = false;
+      connection.ws.ping();
+    });
+  }
+
+  private send(connection: GatewayConnection, message: { type: string; payload?: unknown }) {
+    this.sendRaw(connection, JSON.stringify({ ...message, timestamp: new Date().toISOString() }));
+  }
+
+  private sendRaw(connection: GatewayConnection, message: string) {
+    if (connection.ws.readyState === WebSocket.OPEN) {
+      connection.ws.send(message);
+    }
+  }
+}
+
+// Export singleton instance
+export const realtimeGateway = new RealtimeGateway();
+
+/**
+ * Serve the gateway on the HTTP server and connect the event sources that
+ * are not published at their call sites
+ */
+export async function initializeRealtimeGateway(server: Server): Promise<RealtimeGateway> {
+  realtimeGateway.attach(server);
+  await realtimeGateway.resolveTenant();
+
+  const { statusEventBus } = await import('../status-transition-handler');
+  statusEventBus.on('service_status_changed', (change: any) => {
+    publishStatusTransition({
+      serviceRequestId: change.serviceRequestId,
+      businessEntityId: change.businessEntityId,
+      fromStatus: change.fromStatus ?? null,
+      toStatus: change.toStatus,
+      toStatusName: change.toStatusName,
+      changedBy: change.userId,
+    });
+  });
+
+  await realtimeGateway.attachRedisAdapter();
+  return realtimeGateway;
+}
+
+// Convenience publishers. Delivery is best effort and never fails the caller.
+
+function publishSafely(build: () => RealtimeEventInput) {
+  try {
+    realtimeGateway.publish(build());
+  } catch (error) {
+    logger.error('Failed to publish real-time event:', error);
+  }
+}
+
+export function publishPipelineEvent(event: PipelineEventRecord) {
+  publishSafely(() => pipelineEventToRealtime(event));
+}
+
+export function publishComplianceAlert(alert: ComplianceAlertRecord) {
+  publishSafely(() => complianceAlertToRealtime(alert));
+}
+
+export function publishStatusTransition(transition: StatusTransitionRecord) {
+  publishSafely(() => statusTransitionToRealtime(transition));
+}
+
+export function publishMessageCreated(message: MessageRecord) {
+  publishSafely(() => messageToRealtime(message));
+}
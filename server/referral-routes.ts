@@ -4,6 +4,8 @@ import { referralCodes, referrals, walletCredits, walletTransactions, users, bus
 import { eq, and, desc } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES, type AuthenticatedRequest } from './rbac-middleware';
+import { leadDedupService } from './services/lead-dedup-service';
+import { attributionService } from './services/attribution-service';
 
 export function registerReferralRoutes(app: Express) {
 
@@ -161,15 +163,37 @@ export function registerReferralRoutes(app: Express) {
         .limit(1);
 
       if (referral) {
+        // Tie the referral to the referee's lead so the credit follows it through merges
+        const { phone, name } = req.body;
+        const matches = await leadDedupService.check({
+          clientName: name || null,
+          contactEmail: email,
+          contactPhone: phone || null,
+        });
+
+        const leadId = matches.likely[0]?.leadId ?? referral.leadId;
+
         // Update referral status
         await db
           .update(referrals)
           .set({
             status: 'registered',
             registeredAt: new Date(),
+            leadId,
           })
           .where(eq(referrals.id, referral.id));
 
+        // The referral code counts as a touch from when it was used
+        if (leadId) {
+          await attributionService.recordTouchpoint({
+            leadId,
+            touchType: 'referral_code',
+            referralCode: referral.referralCode,
+            referrerId: referral.referrerId,
+            occurredAt: referral.referredAt,
+          }).catch((error) => console.error('Referral touchpoint error:', error));
+        }
+
         return res.json({ message: 'Referral registration recorded', referral });
       }
 
@@ -5,7 +5,8 @@ import { nanoid } from "nanoid";
 import { storage } from "./storage";
 import { workflowEngine, type WorkflowCustomization } from "./workflow-engine";
 import { requireAuth } from "./auth-middleware";
-import { EnhancedSlaSystem, SlaMonitoringService } from "./enhanced-sla-system";
+import { slaService } from "./services/sla-service";
+import { getSlaCheckerStatus } from "./jobs/sla-checker";
 import { WorkflowValidator, WorkflowExecutor } from "./workflow-validator";
 import {
   createServiceRequestApiSchema,
@@ -18,8 +19,7 @@ import {
   workItemQueue,
   notifications,
   activityLogs,
-  workItemActivityLog,
-  slaExceptions
+  workItemActivityLog
 } from "@shared/schema";
 import { db } from "./db";
 import { eq, desc, and, sql, inArray, or } from "drizzle-orm";
@@ -770,9 +770,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       byReadable.forEach(req => readableMap.set(req.requestId, req));
 
       // Import state machine
-      const { isValidTransition, getValidNextStatuses } = await import('./services/service-request-state-machine');
+      const { isValidTransitionFor, getValidNextStatusesFor } = await import('./services/service-request-state-machine');
 
-      serviceRequestIds.forEach((rawId: string | number) => {
+      for (const rawId of serviceRequestIds as (string | number)[]) {
         let request = null;
         if (typeof rawId === 'number' || /^\d+$/.test(String(rawId))) {
           const numeric = parseInt(String(rawId), 10);
@@ -783,11 +783,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         if (!request) {
           missing.push(rawId);
-          return;
+          continue;
         }
 
-        const validNextStatuses = getValidNextStatuses(request.status);
-        const canTransition = isValidTransition(request.status, toStatus);
+        const validNextStatuses = await getValidNextStatusesFor(request.serviceId, request.status);
+        const canTransition = await isValidTransitionFor(request.serviceId, request.status, toStatus);
 
         results.push({
           id: request.id,
@@ -799,7 +799,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             ? null
             : `Cannot transition from '${request.status}' to '${toStatus}'. Valid: ${validNextStatuses.join(', ')}`
         });
-      });
+      }
 
       res.json({
         toStatus,
@@ -843,7 +843,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Import state machine
-      const { transitionStatus, isValidTransition, getValidNextStatuses, getProgressPercentage } = await import('./services/service-request-state-machine');
+      const { transitionStatus, isValidTransitionFor, getValidNextStatusesFor, getProgressPercentage } = await import('./services/service-request-state-machine');
 
       const fromStatus = serviceRequest.status;
 
@@ -854,13 +854,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate transition (unless forced by admin)
-      if (!force && !isValidTransition(fromStatus, toStatus)) {
+      if (!force && !(await isValidTransitionFor(serviceRequest.serviceId, fromStatus, toStatus))) {
+        const validNextStatuses = await getValidNextStatusesFor(serviceRequest.serviceId, fromStatus);
         return res.status(400).json({
           error: "Invalid status transition",
           currentStatus: fromStatus,
           requestedStatus: toStatus,
-          validNextStatuses: getValidNextStatuses(fromStatus),
-          message: `Cannot transition from '${fromStatus}' to '${toStatus}'. Valid transitions: ${getValidNextStatuses(fromStatus).join(', ')}`
+          validNextStatuses,
+          message: `Cannot transition from '${fromStatus}' to '${toStatus}'. Valid transitions: ${validNextStatuses.join(', ')}`
         });
       }
 
@@ -943,10 +944,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Service request not found" });
       }
 
-      const { getValidNextStatuses, getProgressPercentage, getRemainingSteps } = await import('./services/service-request-state-machine');
+      const { getValidNextStatusesFor, getProgressPercentage, getRemainingSteps } = await import('./services/service-request-state-machine');
 
       const currentStatus = serviceRequest.status;
-      const validTransitions = getValidNextStatuses(currentStatus);
+      const validTransitions = await getValidNextStatusesFor(serviceRequest.serviceId, currentStatus);
 
       res.json({
         serviceRequestId: serviceRequest.id,
@@ -969,10 +970,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/service-requests/workflow-diagram", sessionAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { getWorkflowDiagram, SERVICE_REQUEST_STATUSES } = await import('./services/service-request-state-machine');
+      const { workflowEngine } = await import('./services/workflow-engine');
+
+      // ?serviceKey= shows that service's published workflow instead of the built-in one
+      const serviceKey = typeof req.query.serviceKey === 'string' ? req.query.serviceKey : null;
+      const workflow = serviceKey ? await workflowEngine.getPublished(serviceKey) : null;
 
       res.json({
-        statuses: Object.values(SERVICE_REQUEST_STATUSES),
-        diagram: getWorkflowDiagram()
+        statuses: workflow ? workflow.statuses.map(status => status.code) : Object.values(SERVICE_REQUEST_STATUSES),
+        workflowVersion: workflow?.version ?? null,
+        diagram: getWorkflowDiagram(workflow)
       });
     } catch (error) {
       console.error('Error getting workflow diagram:', error);
@@ -1952,7 +1959,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/sla/metrics", ...requireOpsAccess, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const days = parseInt(req.query.days as string) || 30;
-      const metrics = await EnhancedSlaSystem.getSlaMetrics(days);
+      const metrics = await slaService.getMetrics(days);
       res.json(metrics);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -2011,44 +2018,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const missingIds = uniqueIds.filter((id) => !foundIds.has(id));
 
       const updated: Array<{ id: number; previousDeadline: string | null; newDeadline: string }> = [];
-      const now = new Date();
 
       for (const item of serviceRequestsToUpdate) {
-        const currentDeadline = item.slaDeadline ? new Date(item.slaDeadline) : now;
-        const newDeadline = new Date(currentDeadline.getTime() + parsedHours * 60 * 60 * 1000);
-
-        await db
-          .update(serviceRequests)
-          .set({
-            slaDeadline: newDeadline,
-            updatedAt: new Date()
-          })
-          .where(eq(serviceRequests.id, item.id));
-
-        await db
-          .update(workItemQueue)
-          .set({
-            slaDeadline: newDeadline,
-            dueDate: newDeadline,
-            lastActivityAt: new Date()
-          })
-          .where(eq(workItemQueue.serviceRequestId, item.id));
-
-        await db.insert(slaExceptions).values({
-          serviceRequestId: item.id,
-          requestedBy: req.user?.id || 0,
-          approvedBy: req.user?.id || null,
-          exceptionType: "manual_extension",
+        // Extensions are business hours on the request's SLA clock
+        const extension = await slaService.grantException(item.id, {
+          hours: parsedHours,
           reason: reason.trim(),
-          requestedExtensionHours: parsedHours,
-          approvedExtensionHours: parsedHours,
-          status: "approved",
-          validFrom: currentDeadline,
-          validUntil: newDeadline,
-          approvalNotes: notes || null,
-          createdAt: new Date(),
-          approvedAt: new Date()
+          grantedBy: req.user?.id ?? null,
+          notes: notes || null
         });
+        if (!extension) continue;
+        const currentDeadline = extension.previousDeadline;
+        const newDeadline = extension.newDeadline;
 
         const workItems = await db
           .select({ id: workItemQueue.id })
@@ -2124,14 +2105,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Reason is required for SLA extension" });
       }
       
-      await EnhancedSlaSystem.grantSlaException(
-        parseInt(serviceRequestId),
-        parsedHours,
-        reason.trim(),
-        req.user?.id || 0
-      );
-      
-      res.json({ success: true, message: "SLA exception granted" });
+      const result = await slaService.grantException(parseInt(serviceRequestId), {
+        hours: parsedHours,
+        reason: reason.trim(),
+        grantedBy: req.user?.id ?? null
+      });
+
+      if (!result) {
+        return res.status(404).json({ error: "Service request not found" });
+      }
+
+      res.json({ success: true, message: "SLA exception granted", ...result });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -2142,7 +2126,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { serviceRequestId } = req.params;
       const { reason } = req.body;
       
-      await EnhancedSlaSystem.pauseServiceSla(parseInt(serviceRequestId), reason);
+      if (!reason || typeof reason !== "string" || reason.trim().length === 0) {
+        return res.status(400).json({ error: "Reason is required for pausing SLA timer" });
+      }
+
+      const timer = await slaService.pauseClock(parseInt(serviceRequestId), {
+        reason: reason.trim(),
+        actorId: req.user?.id ?? null
+      });
+      if (!timer) {
+        return res.status(404).json({ error: "Service request not found" });
+      }
       res.json({ success: true, message: "SLA timer paused" });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -2154,7 +2148,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { serviceRequestId } = req.params;
       const { reason } = req.body;
       
-      await EnhancedSlaSystem.resumeServiceSla(parseInt(serviceRequestId), reason);
+      const timer = await slaService.resumeClock(parseInt(serviceRequestId), {
+        reason: typeof reason === "string" && reason.trim() ? reason.trim() : "Resumed by ops",
+        actorId: req.user?.id ?? null
+      });
+      if (!timer) {
+        return res.status(404).json({ error: "Service request not found" });
+      }
       res.json({ success: true, message: "SLA timer resumed" });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -2164,7 +2164,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/sla/status/:serviceRequestId", ...requireOpsAccess, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { serviceRequestId } = req.params;
-      const status = await EnhancedSlaSystem.getServiceTimerStatus(parseInt(serviceRequestId));
+      const status = await slaService.getClockReport(parseInt(serviceRequestId));
       
       if (!status) {
         return res.status(404).json({ error: "SLA timer not found" });
@@ -2236,8 +2236,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Master Blueprint Status Dashboard API
   app.get("/api/master-blueprint/status", async (req: Request, res: Response) => {
     try {
-      const slaMetrics = await EnhancedSlaSystem.getSlaMetrics(7); // Last 7 days
-      const monitoringStatus = await SlaMonitoringService.getMonitoringStatus();
+      const slaMetrics = await slaService.getMetrics(7); // Last 7 days
+      const monitoringStatus = getSlaCheckerStatus();
       
       const blueprintStatus = {
         currentPhase: "Phase 2: Intelligence & Automation",
@@ -2352,10 +2352,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Initialize SLA monitoring on server start
-  console.log("Initializing Enhanced SLA Monitoring System...");
-  SlaMonitoringService.startMonitoring(15); // Check every 15 minutes
-
   // Register notification and workflow management routes
   const { registerNotificationRoutes } = await import('./notification-routes');
   const { registerWorkflowRoutes } = await import('./workflow-routes');
@@ -2749,6 +2745,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/v1/financial', financeRoutes.default);
   console.log('✅ Finance Routes registered (Summary, KPIs, Invoices, Revenue, Budget Plans, Collection Metrics)');
 
+  // Register General Ledger Routes (Chart of Accounts, Journal Entries, Financial Statements)
+  const ledgerRoutes = await import('./routes/ledger-routes');
+  app.use('/api/ledger', ledgerRoutes.default);
+  app.use('/api/v2/ledger', ledgerRoutes.default);
+  console.log('✅ General Ledger Routes registered (Chart of Accounts, Journal Entries, Trial Balance, P&L, Balance Sheet)');
+
+  // Register Bank Reconciliation Routes (Statement Import, Auto-Matching, Review Queue, BRS)
+  const bankReconciliationRoutes = await import('./routes/bank-reconciliation-routes');
+  app.use('/api/bank-reconciliation', bankReconciliationRoutes.default);
+  app.use('/api/v2/bank-reconciliation', bankReconciliationRoutes.default);
+  console.log('✅ Bank Reconciliation Routes registered (Statement Import, Auto-Matching, Review Queue, BRS)');
+
+  // Register GST Routes (Tax Ledger, Vendor Bills, GSTR-1/GSTR-3B)
+  const gstRoutes = await import('./routes/gst-routes');
+  app.use('/api/gst', gstRoutes.default);
+  app.use('/api/v2/gst', gstRoutes.default);
+  console.log('✅ GST Routes registered (Tax Ledger, Vendor Bills, GSTR-1/GSTR-3B)');
+
+  // Register FX Routes (Exchange Rates, Foreign Currency Invoices, Realised FX)
+  const fxRoutes = await import('./routes/fx-routes');
+  app.use('/api/fx', fxRoutes.default);
+  app.use('/api/v2/fx', fxRoutes.default);
+  console.log('✅ FX Routes registered (Exchange Rates, Foreign Currency Invoices, Realised FX)');
+
+  // Register Due Date Extension Routes (Government extensions registry)
+  const dueDateExtensionRoutes = await import('./routes/due-date-extension-routes');
+  app.use('/api/due-date-extensions', dueDateExtensionRoutes.default);
+  app.use('/api/v2/due-date-extensions', dueDateExtensionRoutes.default);
+  console.log('✅ Due Date Extension Routes registered (Government extensions, retroactive recalculation)');
+
+  // Register Penalty Routes (Late fee and interest breakdown, what-if filing dates)
+  const penaltyRoutes = await import('./routes/penalty-routes');
+  app.use('/api/penalties', penaltyRoutes.default);
+  app.use('/api/v2/penalties', penaltyRoutes.default);
+  console.log('✅ Penalty Routes registered (Late fees, interest, what-if)');
+
+  // Register Compliance Replay Routes (Point-in-time state, diffs, engine re-runs)
+  const complianceReplayRoutes = await import('./routes/compliance-replay-routes');
+  app.use('/api/compliance-replay', complianceReplayRoutes.default);
+  app.use('/api/v2/compliance-replay', complianceReplayRoutes.default);
+  console.log('✅ Compliance Replay Routes registered (As-of state, diffs, version re-runs)');
+
+  // Register Rule Applicability Routes (Applicability expressions, rule-vs-entity tests)
+  const ruleApplicabilityRoutes = await import('./routes/rule-applicability-routes');
+  app.use('/api/compliance-rules', ruleApplicabilityRoutes.default);
+  app.use('/api/v2/compliance-rules', ruleApplicabilityRoutes.default);
+  console.log('✅ Rule Applicability Routes registered (Expression validation, test against entity)');
+
+  // Register SLA Calendar Routes (Business calendars per service, team and tenant)
+  const slaCalendarRoutes = await import('./routes/sla-calendar-routes');
+  app.use('/api/sla/calendars', slaCalendarRoutes.default);
+  app.use('/api/v2/sla/calendars', slaCalendarRoutes.default);
+  console.log('✅ SLA Calendar Routes registered (Business calendars, calendar resolution)');
+
+  // Register Notification Delivery Routes (Provider receipts, per-client delivery history)
+  const notificationDeliveryRoutes = await import('./routes/notification-delivery-routes');
+  app.use('/api/notification-deliveries', notificationDeliveryRoutes.default);
+  app.use('/api/v2/notification-deliveries', notificationDeliveryRoutes.default);
+  console.log('✅ Notification Delivery Routes registered (Delivery receipts, client delivery history)');
+
+  // Register Inbound Communication Routes (WhatsApp/SMS/email reply webhooks, ops inbox)
+  const inboundCommunicationRoutes = await import('./routes/inbound-communication-routes');
+  app.use('/api/communications', inboundCommunicationRoutes.default);
+  app.use('/api/v2/communications', inboundCommunicationRoutes.default);
+  console.log('✅ Inbound Communication Routes registered (Reply webhooks, threaded ops inbox)');
+
+  // Register Document Generation Routes (Merge templates rendered to PDF/DOCX by background jobs)
+  const documentGenerationRoutes = await import('./routes/document-generation-routes');
+  app.use('/api/document-generation', documentGenerationRoutes.default);
+  app.use('/api/v2/document-generation', documentGenerationRoutes.default);
+  console.log('✅ Document Generation Routes registered (Templates, generation jobs, versioned output)');
+
+  // Register Document Search Routes (OCR full-text index over uploads and the vault)
+  const documentSearchRoutes = await import('./routes/document-search-routes');
+  app.use('/api/document-search', documentSearchRoutes.default);
+  app.use('/api/v2/document-search', documentSearchRoutes.default);
+  console.log('✅ Document Search Routes registered (Ranked search, highlights, index maintenance)');
+
+  // Register Document Retention Routes (Policies, legal holds, schedule, destruction certificates)
+  const documentRetentionRoutes = await import('./routes/document-retention-routes');
+  app.use('/api/document-retention', documentRetentionRoutes.default);
+  app.use('/api/v2/document-retention', documentRetentionRoutes.default);
+  console.log('✅ Document Retention Routes registered (Policies, legal holds, certificates)');
+
+  // Register Lead Deduplication Routes (Duplicate checks, review queue, merges)
+  const leadDedupRoutes = await import('./routes/lead-dedup-routes');
+  app.use('/api/lead-dedup', leadDedupRoutes.default);
+  app.use('/api/v2/lead-dedup', leadDedupRoutes.default);
+  console.log('✅ Lead Deduplication Routes registered (Duplicate checks, review queue, merges)');
+
+  // Register Lead Attribution Routes (Touchpoints, attribution models, conversion splits, source ROI)
+  const attributionRoutes = await import('./routes/attribution-routes');
+  app.use('/api/attribution', attributionRoutes.default);
+  app.use('/api/v2/attribution', attributionRoutes.default);
+  console.log('✅ Lead Attribution Routes registered (Touchpoints, models, conversion splits, source ROI)');
+
+  // Register Commission Tax Routes (Agent tax profiles, payout statements, Form 16A, Form 26Q)
+  const commissionTaxRoutes = await import('./routes/commission-tax-routes');
+  app.use('/api/commission-tax', commissionTaxRoutes.default);
+  app.use('/api/v2/commission-tax', commissionTaxRoutes.default);
+  console.log('✅ Commission Tax Routes registered (Agent tax profiles, payout statements, Form 16A, Form 26Q)');
+
+  // Register Sales Planning Routes (Teams, territories, quotas, attainment, leaderboard)
+  const salesPlanningRoutes = await import('./routes/sales-planning-routes');
+  app.use('/api/sales-planning', salesPlanningRoutes.default);
+  app.use('/api/v2/sales-planning', salesPlanningRoutes.default);
+  console.log('✅ Sales Planning Routes registered (Teams, territories, quotas, attainment, leaderboard)');
+
+  // Register Lead Nurture Routes (Sequences, enrollment, unsubscribe, step metrics)
+  const nurtureRoutes = await import('./routes/nurture-routes');
+  app.use('/api/nurture', nurtureRoutes.default);
+  app.use('/api/v2/nurture', nurtureRoutes.default);
+  console.log('✅ Lead Nurture Routes registered (Sequences, enrollment, unsubscribe, step metrics)');
+
   // Register Sales Dashboard Routes (Leads, Pipeline, Team, Proposals, Metrics, Forecasts)
   const salesDashboardRoutes = await import('./routes/sales-dashboard');
   app.use('/api/sales', salesDashboardRoutes.default);
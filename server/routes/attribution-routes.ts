@@ -0,0 +1,166 @@
+/**
+ * Lead Attribution Routes
+ *
+ * Touchpoints recorded against leads, the attribution models that split
+ * conversion credit among them, each conversion's splits with the evidence
+ * behind them, and attributed source ROI. Sales executives can record and
+ * read; configuring models and recomputing are for sales managers.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { attributionService } from '../services/attribution-service';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+router.use(requireMinimumRole(USER_ROLES.SALES_EXECUTIVE));
+
+const requireSalesManager = requireMinimumRole(USER_ROLES.SALES_MANAGER);
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+function parseDate(value: unknown, label: string): Date | null {
+  if (!value) return null;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return date;
+}
+
+/**
+ * GET /api/attribution/models
+ */
+router.get('/models', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await attributionService.listModels());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch attribution models');
+  }
+});
+
+/**
+ * POST /api/attribution/models
+ * { name, model, firstTouchWeight, lastTouchWeight, lookbackDays, touchTypes, isDefault }
+ */
+router.post('/models', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await attributionService.createModel(req.body, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to create attribution model');
+  }
+});
+
+/**
+ * PATCH /api/attribution/models/:id
+ */
+router.patch('/models/:id', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await attributionService.updateModel(parseId(req.params.id, 'model id'), req.body));
+  } catch (error) {
+    handleError(res, error, 'Failed to update attribution model');
+  }
+});
+
+/**
+ * GET /api/attribution/leads/:id/touchpoints
+ */
+router.get('/leads/:id/touchpoints', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await attributionService.listTouchpoints(parseId(req.params.id, 'lead id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch lead touchpoints');
+  }
+});
+
+/**
+ * POST /api/attribution/leads/:id/touchpoints
+ * { touchType, agentId | referralCode | utmSource/utmCampaign | proposalId | source, occurredAt }
+ */
+router.post('/leads/:id/touchpoints', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const touchpoint = await attributionService.recordTouchpoint(
+      { ...req.body, leadId: parseId(req.params.id, 'lead id') },
+      req.user!.id
+    );
+    res.status(201).json(touchpoint);
+  } catch (error) {
+    handleError(res, error, 'Failed to record touchpoint');
+  }
+});
+
+/**
+ * GET /api/attribution/leads/:id/conversions?includeSuperseded=true
+ */
+router.get('/leads/:id/conversions', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await attributionService.listForLead(
+      parseId(req.params.id, 'lead id'),
+      req.query.includeSuperseded === 'true'
+    ));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch lead conversions');
+  }
+});
+
+/**
+ * GET /api/attribution/conversions/:id
+ * Splits with the touchpoints and commissions behind them
+ */
+router.get('/conversions/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await attributionService.getEvidence(parseId(req.params.id, 'attribution id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch conversion attribution');
+  }
+});
+
+/**
+ * POST /api/attribution/conversions/:id/recompute
+ * { modelId } - defaults to the model the conversion was attributed with
+ */
+router.post('/conversions/:id/recompute', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await attributionService.recompute(
+      parseId(req.params.id, 'attribution id'),
+      req.body?.modelId ? parseId(req.body.modelId, 'model id') : null,
+      req.user!.id
+    ));
+  } catch (error) {
+    handleError(res, error, 'Failed to recompute attribution');
+  }
+});
+
+/**
+ * GET /api/attribution/roi?from=&to=
+ * Attributed revenue per source and campaign against its cost
+ */
+router.get('/roi', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await attributionService.sourceRoi({
+      from: parseDate(req.query.from, 'from date'),
+      to: parseDate(req.query.to, 'to date'),
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch source ROI');
+  }
+});
+
+export default router;
@@ -24,6 +24,8 @@ import { users } from '../../shared/schema';
 import { eq, and, desc, asc, sql, gte, lte, count, or, isNull } from 'drizzle-orm';
 import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES } from '../rbac-middleware';
 import { logger } from '../logger';
+import { AppError } from '../errors';
+import { retentionEngine } from '../services/documents';
 
 const router = Router();
 
@@ -435,6 +437,7 @@ router.get('/data-requests', requireMinimumRole(USER_ROLES.ADMIN), async (req: R
       rejectionReason: dataDeletionRequests.rejectionReason,
       exportUrl: dataDeletionRequests.exportUrl,
       exportExpiresAt: dataDeletionRequests.exportExpiresAt,
+      outcome: dataDeletionRequests.outcome,
       createdAt: dataDeletionRequests.createdAt,
       requestedByName: users.name,
     })
@@ -578,6 +581,16 @@ router.post('/data-requests/:id/process', requireMinimumRole(USER_ROLES.ADMIN),
       return res.status(404).json({ error: 'Request not found' });
     }
 
+    // Erasure purges the subject's documents now, keeping any under a legal
+    // hold or statutory retention; a partly failed erasure can be re-run
+    if (request.requestType === 'erasure' && (request.status === 'verified' || request.status === 'processing')) {
+      const updated = await retentionEngine.processErasureRequest(request.id, (req as any).user.id);
+      return res.json({
+        message: updated.status === 'completed' ? 'Erasure completed' : 'Erasure partly failed; process again to retry',
+        request: updated,
+      });
+    }
+
     if (request.status !== 'verified') {
       return res.status(400).json({ error: 'Request must be verified before processing' });
     }
@@ -591,13 +604,16 @@ router.post('/data-requests/:id/process', requireMinimumRole(USER_ROLES.ADMIN),
       .returning();
 
     // In a real implementation, this would trigger a background job
-    // to actually delete/export the data based on request type
+    // to export or restrict the data based on request type
 
     res.json({
       message: 'Processing started',
       request: updated,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
     logger.error('Error processing data request:', error);
     res.status(500).json({ error: 'Failed to process data request' });
   }
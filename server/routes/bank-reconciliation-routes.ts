@@ -0,0 +1,281 @@
+/**
+ * Bank Reconciliation Routes
+ *
+ * API endpoints for bank statement reconciliation:
+ * - Bank Accounts - Registered accounts linked to the ledger
+ * - Statement Import - CSV, MT940 and CAMT.053 uploads
+ * - Review Queue - Confirm or reject ambiguous matches
+ * - Reports - Bank reconciliation statement per account
+ */
+
+import { Router, Response } from 'express';
+import multer from 'multer';
+import { sessionAuthMiddleware, requireRole, USER_ROLES } from '../rbac-middleware';
+import { extractTenant, type TenantRequest } from '../middleware/tenant-middleware';
+import { ledgerService } from '../services/ledger-service';
+import { bankReconciliationService, type MatchType } from '../services/bank-reconciliation-service';
+import type { StatementFormat } from '../services/bank-statement-parser';
+import { AppError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+// Statements are small text files; keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max
+  },
+});
+
+const STATEMENT_FORMATS: StatementFormat[] = ['csv', 'mt940', 'camt053'];
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.ACCOUNTANT));
+router.use(extractTenant);
+
+async function getLedgerTenant(req: TenantRequest, res: Response): Promise<string | null> {
+  const tenantId = await ledgerService.resolveTenantId(req.tenantId);
+  if (!tenantId) {
+    res.status(400).json({ error: 'Tenant context required' });
+    return null;
+  }
+  return tenantId;
+}
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// BANK ACCOUNTS
+// ============================================================================
+
+/**
+ * GET /api/bank-reconciliation/accounts
+ */
+router.get('/accounts', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const accounts = await bankReconciliationService.listBankAccounts(tenantId);
+    res.json({ accounts });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch bank accounts');
+  }
+});
+
+/**
+ * POST /api/bank-reconciliation/accounts
+ */
+router.post('/accounts', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const account = await bankReconciliationService.createBankAccount(tenantId, req.body);
+    res.status(201).json({ account });
+  } catch (error) {
+    handleError(res, error, 'Failed to create bank account');
+  }
+});
+
+/**
+ * GET /api/bank-reconciliation/accounts/:id/transactions?status=unreconciled
+ */
+router.get('/accounts/:id/transactions', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const { status, from, to, limit = '100', offset = '0' } = req.query;
+    const transactions = await bankReconciliationService.listTransactions(tenantId, parseInt(req.params.id), {
+      status: status === 'reconciled' || status === 'unreconciled' ? status : undefined,
+      from: from as string | undefined,
+      to: to as string | undefined,
+      limit: parseInt(limit as string),
+      offset: parseInt(offset as string),
+    });
+
+    res.json({ transactions });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch bank transactions');
+  }
+});
+
+/**
+ * POST /api/bank-reconciliation/accounts/:id/statements
+ * Upload a statement as multipart "file" or JSON { content, format?, mapping? }
+ */
+router.post('/accounts/:id/statements', upload.single('file'), async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const file = (req as any).file as Express.Multer.File | undefined;
+    const content = file ? file.buffer.toString('utf8') : req.body?.content;
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ error: 'Statement file or content is required' });
+    }
+
+    const format = req.body?.format as StatementFormat | undefined;
+    if (format && !STATEMENT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${STATEMENT_FORMATS.join(', ')}` });
+    }
+
+    let mapping = req.body?.mapping;
+    if (typeof mapping === 'string') mapping = JSON.parse(mapping);
+
+    const user = (req as any).user;
+    const result = await bankReconciliationService.importStatement(tenantId, parseInt(req.params.id), content, {
+      format,
+      mapping,
+      importedBy: user?.id,
+      dateWindowDays: req.body?.dateWindowDays ? parseInt(req.body.dateWindowDays) : undefined,
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to import bank statement');
+  }
+});
+
+/**
+ * POST /api/bank-reconciliation/accounts/:id/auto-match
+ * Re-run matching for unreconciled lines
+ */
+router.post('/accounts/:id/auto-match', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const result = await bankReconciliationService.autoReconcile(tenantId, parseInt(req.params.id), {
+      dateWindowDays: req.body?.dateWindowDays ? parseInt(req.body.dateWindowDays) : undefined,
+    });
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to run auto-matching');
+  }
+});
+
+/**
+ * GET /api/bank-reconciliation/accounts/:id/report?asOf=YYYY-MM-DD
+ * Bank reconciliation statement
+ */
+router.get('/accounts/:id/report', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const report = await bankReconciliationService.getReconciliationReport(
+      tenantId,
+      parseInt(req.params.id),
+      req.query.asOf as string | undefined
+    );
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate reconciliation report');
+  }
+});
+
+// ============================================================================
+// REVIEW QUEUE
+// ============================================================================
+
+/**
+ * GET /api/bank-reconciliation/review-queue?bankAccountId=
+ */
+router.get('/review-queue', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const bankAccountId = req.query.bankAccountId ? parseInt(req.query.bankAccountId as string) : undefined;
+    const queue = await bankReconciliationService.getReviewQueue(tenantId, bankAccountId);
+    res.json({ queue });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch review queue');
+  }
+});
+
+/**
+ * POST /api/bank-reconciliation/matches/:id/confirm
+ */
+router.post('/matches/:id/confirm', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const user = (req as any).user;
+    const transaction = await bankReconciliationService.confirmMatch(tenantId, parseInt(req.params.id), user?.id ?? null);
+    res.json({ transaction });
+  } catch (error) {
+    handleError(res, error, 'Failed to confirm match');
+  }
+});
+
+/**
+ * POST /api/bank-reconciliation/matches/:id/reject
+ */
+router.post('/matches/:id/reject', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const user = (req as any).user;
+    await bankReconciliationService.rejectMatch(tenantId, parseInt(req.params.id), user?.id ?? null);
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to reject match');
+  }
+});
+
+/**
+ * POST /api/bank-reconciliation/transactions/:id/reconcile
+ * Body: { matchType: 'payment' | 'settlement' | 'journal', matchId }
+ */
+router.post('/transactions/:id/reconcile', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const { matchType, matchId } = req.body;
+    if (!matchType || !matchId) {
+      return res.status(400).json({ error: 'matchType and matchId are required' });
+    }
+
+    const user = (req as any).user;
+    const transaction = await bankReconciliationService.reconcileManually(
+      tenantId,
+      parseInt(req.params.id),
+      matchType as MatchType,
+      parseInt(matchId),
+      user?.id ?? null
+    );
+    res.json({ transaction });
+  } catch (error) {
+    handleError(res, error, 'Failed to reconcile transaction');
+  }
+});
+
+/**
+ * POST /api/bank-reconciliation/transactions/:id/unreconcile
+ */
+router.post('/transactions/:id/unreconcile', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    await bankReconciliationService.unreconcile(tenantId, parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to unreconcile transaction');
+  }
+});
+
+export default router;
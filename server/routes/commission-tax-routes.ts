@@ -0,0 +1,156 @@
+/**
+ * Commission Tax Routes
+ *
+ * Statutory side of agent commission payouts:
+ * - Agent tax profiles - PAN, GSTIN and forward / reverse charge
+ * - Monthly payout statements (JSON or PDF download)
+ * - Form 16A data per agent and quarter, Form 26Q for the quarter
+ *
+ * Finance roles see every agent; an agent sees only their own statements
+ * and certificates.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, normalizeRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { extractTenant, type TenantRequest } from '../middleware/tenant-middleware';
+import { ledgerService } from '../services/ledger-service';
+import { commissionTaxService } from '../services/commission-tax-service';
+import { AppError, ForbiddenError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+type CommissionTaxRequest = AuthenticatedRequest & TenantRequest;
+
+const router = Router();
+
+const FINANCE_ROLES = [USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.ACCOUNTANT];
+
+router.use(sessionAuthMiddleware);
+router.use(extractTenant);
+
+const requireFinance = requireRole(...FINANCE_ROLES);
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+/**
+ * The agent id in the path, provided the caller is that agent or in finance
+ */
+function agentIdFor(req: CommissionTaxRequest): number {
+  const agentId = parseId(req.params.agentId, 'agent id');
+  const user = req.user!;
+  if (user.id !== agentId && !(FINANCE_ROLES as string[]).includes(normalizeRole(user.role))) {
+    throw new ForbiddenError('You can only view your own commission statements');
+  }
+  return agentId;
+}
+
+async function requireLedgerTenant(req: CommissionTaxRequest): Promise<string> {
+  const tenantId = await ledgerService.resolveTenantId(req.tenantId);
+  if (!tenantId) {
+    throw new ValidationError('Tenant context required');
+  }
+  return tenantId;
+}
+
+/**
+ * GET /api/commission-tax/agents/:agentId/profile
+ */
+router.get('/agents/:agentId/profile', async (req: CommissionTaxRequest, res: Response) => {
+  try {
+    const agentId = agentIdFor(req);
+    const profile = await commissionTaxService.getProfile(agentId);
+    res.json(profile ?? { agentId, legalName: null, pan: null, gstin: null, gstTreatment: 'unregistered' });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch agent tax profile');
+  }
+});
+
+/**
+ * PUT /api/commission-tax/agents/:agentId/profile
+ * { legalName, pan, gstin, gstTreatment: unregistered | forward_charge | reverse_charge }
+ */
+router.put('/agents/:agentId/profile', requireFinance, async (req: CommissionTaxRequest, res: Response) => {
+  try {
+    const profile = await commissionTaxService.upsertProfile(
+      parseId(req.params.agentId, 'agent id'),
+      {
+        legalName: req.body.legalName,
+        pan: req.body.pan,
+        gstin: req.body.gstin,
+        gstTreatment: req.body.gstTreatment,
+      },
+      req.user!.id
+    );
+    res.json(profile);
+  } catch (error) {
+    handleError(res, error, 'Failed to update agent tax profile');
+  }
+});
+
+/**
+ * GET /api/commission-tax/agents/:agentId/statements/:month?format=pdf
+ * Month is YYYY-MM
+ */
+router.get('/agents/:agentId/statements/:month', async (req: CommissionTaxRequest, res: Response) => {
+  try {
+    const agentId = agentIdFor(req);
+    const month = req.params.month;
+
+    if (req.query.format === 'pdf') {
+      const pdf = await commissionTaxService.monthlyStatementPdf(agentId, month);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename=commission-statement-${agentId}-${month}.pdf`);
+      return res.send(pdf);
+    }
+
+    res.json(await commissionTaxService.monthlyStatement(agentId, month));
+  } catch (error) {
+    handleError(res, error, 'Failed to generate payout statement');
+  }
+});
+
+/**
+ * GET /api/commission-tax/agents/:agentId/form-16a?financialYear=2025-26&quarter=1
+ */
+router.get('/agents/:agentId/form-16a', async (req: CommissionTaxRequest, res: Response) => {
+  try {
+    const agentId = agentIdFor(req);
+    const tenantId = await requireLedgerTenant(req);
+    res.json(await commissionTaxService.form16A(
+      tenantId,
+      agentId,
+      req.query.financialYear as string,
+      req.query.quarter
+    ));
+  } catch (error) {
+    handleError(res, error, 'Failed to generate Form 16A');
+  }
+});
+
+/**
+ * GET /api/commission-tax/form-26q?financialYear=2025-26&quarter=1
+ * Deductee records and challan summary for the quarterly TDS return
+ */
+router.get('/form-26q', requireFinance, async (req: CommissionTaxRequest, res: Response) => {
+  try {
+    const tenantId = await requireLedgerTenant(req);
+    res.json(await commissionTaxService.form26Q(tenantId, req.query.financialYear as string, req.query.quarter));
+  } catch (error) {
+    handleError(res, error, 'Failed to generate Form 26Q');
+  }
+});
+
+export default router;
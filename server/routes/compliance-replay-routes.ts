@@ -0,0 +1,131 @@
+/**
+ * Compliance Replay Routes
+ *
+ * Point-in-time compliance state for audits and due diligence: the state as of
+ * any date, what changed between two dates, and recorded snapshots re-run under
+ * the current engine version. Clients can only replay their own entities.
+ */
+
+import { Router, Response } from 'express';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { businessEntities } from '@shared/schema';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import {
+  complianceReplayService,
+  parseReplayDate,
+  type ReplaySource,
+} from '../services/compliance-replay-service';
+import { AppError, ValidationError, NotFoundError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(
+  USER_ROLES.SUPER_ADMIN,
+  USER_ROLES.ADMIN,
+  USER_ROLES.OPS_MANAGER,
+  USER_ROLES.ACCOUNTANT,
+  USER_ROLES.CLIENT
+));
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+/** Entity id from the path; clients must own the entity */
+async function resolveEntityId(req: AuthenticatedRequest): Promise<number> {
+  const entityId = parseInt(req.params.entityId);
+  if (!entityId) {
+    throw new ValidationError('Invalid entity id');
+  }
+
+  if (req.user?.role === USER_ROLES.CLIENT) {
+    const [entity] = await db.select({ id: businessEntities.id })
+      .from(businessEntities)
+      .where(and(eq(businessEntities.id, entityId), eq(businessEntities.ownerId, req.user.id)))
+      .limit(1);
+    if (!entity) {
+      throw new NotFoundError('Business entity');
+    }
+  }
+  return entityId;
+}
+
+function parseSource(value: unknown): ReplaySource {
+  if (value === undefined || value === '') return 'recorded';
+  if (value !== 'recorded' && value !== 'reconstructed') {
+    throw new ValidationError('source must be recorded or reconstructed');
+  }
+  return value;
+}
+
+/**
+ * GET /api/compliance-replay/entities/:entityId/history?from=2024-01-01&to=2024-03-31
+ */
+router.get('/entities/:entityId/history', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const entityId = await resolveEntityId(req);
+    const history = await complianceReplayService.listHistory(entityId, {
+      from: req.query.from ? parseReplayDate(req.query.from, 'from') : undefined,
+      to: req.query.to ? parseReplayDate(req.query.to, 'to') : undefined,
+      limit: parseInt(req.query.limit as string) || undefined,
+    });
+    res.json({ entityId, history });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch compliance history');
+  }
+});
+
+/**
+ * GET /api/compliance-replay/entities/:entityId/as-of?date=2024-03-31&source=recorded|reconstructed
+ */
+router.get('/entities/:entityId/as-of', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const entityId = await resolveEntityId(req);
+    const asOf = parseReplayDate(req.query.date, 'date');
+    const replayed = await complianceReplayService.getStateAsOf(entityId, asOf, parseSource(req.query.source));
+    res.json(replayed);
+  } catch (error) {
+    handleError(res, error, 'Failed to replay compliance state');
+  }
+});
+
+/**
+ * GET /api/compliance-replay/entities/:entityId/diff?from=2023-12-31&to=2024-03-31&source=recorded
+ */
+router.get('/entities/:entityId/diff', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const entityId = await resolveEntityId(req);
+    const diff = await complianceReplayService.diff(
+      entityId,
+      parseReplayDate(req.query.from, 'from'),
+      parseReplayDate(req.query.to, 'to'),
+      parseSource(req.query.source)
+    );
+    res.json(diff);
+  } catch (error) {
+    handleError(res, error, 'Failed to compare compliance states');
+  }
+});
+
+/**
+ * GET /api/compliance-replay/entities/:entityId/history/:historyId/rerun
+ * Recorded snapshot compared with the current engine's result for the same moment
+ */
+router.get('/entities/:entityId/history/:historyId/rerun', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const entityId = await resolveEntityId(req);
+    const diff = await complianceReplayService.rerun(entityId, parseInt(req.params.historyId));
+    res.json(diff);
+  } catch (error) {
+    handleError(res, error, 'Failed to re-run compliance snapshot');
+  }
+});
+
+export default router;
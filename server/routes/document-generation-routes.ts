@@ -0,0 +1,206 @@
+/**
+ * Document Generation Routes
+ *
+ * Merge templates and the background jobs that render them to PDF/DOCX for a
+ * business entity or service request (board resolutions, DIR-2 consents,
+ * INC-9 declarations, engagement letters).
+ *
+ * Template syntax is documented in services/documents/template-merge.ts.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { documentGenerationService } from '../services/documents';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+const requireTemplateAdmin = requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.OPS_MANAGER);
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(
+  USER_ROLES.SUPER_ADMIN,
+  USER_ROLES.ADMIN,
+  USER_ROLES.OPS_MANAGER,
+  USER_ROLES.OPS_EXECUTIVE,
+  USER_ROLES.CUSTOMER_SERVICE,
+  USER_ROLES.QC_EXECUTIVE
+));
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+function optionalId(value: unknown, label: string): number | null {
+  return value === undefined || value === null || value === '' ? null : parseId(value, label);
+}
+
+function parseVariables(value: unknown): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('variables must be an object of merge field values');
+  }
+  return value as Record<string, unknown>;
+}
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+/**
+ * GET /api/document-generation/templates?category=&documentType=&includeInactive=true
+ */
+router.get('/templates', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await documentGenerationService.listTemplates({
+      category: typeof req.query.category === 'string' ? req.query.category : undefined,
+      documentType: typeof req.query.documentType === 'string' ? req.query.documentType : undefined,
+      includeInactive: req.query.includeInactive === 'true',
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch templates');
+  }
+});
+
+router.get('/templates/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await documentGenerationService.getTemplate(parseId(req.params.id, 'template id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch template');
+  }
+});
+
+/**
+ * POST /api/document-generation/templates
+ * Body: { name, category?, documentType?, templateContent, variables?: [{ name, type, required, default? }] }
+ */
+router.post('/templates', requireTemplateAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await documentGenerationService.createTemplate(req.body || {}, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to create template');
+  }
+});
+
+/**
+ * PUT /api/document-generation/templates/:id
+ * A content change bumps the template version; earlier output keeps the version it used
+ */
+router.put('/templates/:id', requireTemplateAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await documentGenerationService.updateTemplate(parseId(req.params.id, 'template id'), req.body || {}));
+  } catch (error) {
+    handleError(res, error, 'Failed to update template');
+  }
+});
+
+/**
+ * POST /api/document-generation/templates/:id/preview
+ * Body: { serviceRequestId? | businessEntityId?, variables? }
+ * Merged HTML and the fields still missing, without rendering files
+ */
+router.post('/templates/:id/preview', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await documentGenerationService.preview({
+      templateId: parseId(req.params.id, 'template id'),
+      serviceRequestId: optionalId(req.body?.serviceRequestId, 'service request id'),
+      businessEntityId: optionalId(req.body?.businessEntityId, 'business entity id'),
+      variables: parseVariables(req.body?.variables),
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to preview template');
+  }
+});
+
+// ============================================
+// JOBS
+// ============================================
+
+/**
+ * POST /api/document-generation/jobs
+ * Body: { templateId, serviceRequestId? | businessEntityId?, variables?, formats?: ['pdf', 'docx'] }
+ */
+router.post('/jobs', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const job = await documentGenerationService.requestGeneration({
+      templateId: parseId(req.body?.templateId, 'template id'),
+      serviceRequestId: optionalId(req.body?.serviceRequestId, 'service request id'),
+      businessEntityId: optionalId(req.body?.businessEntityId, 'business entity id'),
+      variables: parseVariables(req.body?.variables),
+      formats: Array.isArray(req.body?.formats) ? req.body.formats : undefined,
+    }, req.user!.id);
+    res.status(202).json(job);
+  } catch (error) {
+    handleError(res, error, 'Failed to queue document generation');
+  }
+});
+
+/**
+ * GET /api/document-generation/jobs?status=&entityType=&entityId=&limit=
+ */
+router.get('/jobs', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await documentGenerationService.listJobs({
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+      entityType: typeof req.query.entityType === 'string' ? req.query.entityType : undefined,
+      entityId: req.query.entityId ? parseId(req.query.entityId, 'entity id') : undefined,
+      limit: req.query.limit ? parseInt(String(req.query.limit)) : undefined,
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch generation jobs');
+  }
+});
+
+router.get('/jobs/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const job = await documentGenerationService.getJob(parseId(req.params.id, 'job id'));
+    if (!job) {
+      return res.status(404).json({ error: 'Document generation job not found' });
+    }
+    res.json(job);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch generation job');
+  }
+});
+
+/**
+ * POST /api/document-generation/jobs/:id/retry
+ */
+router.post('/jobs/:id/retry', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(202).json(await documentGenerationService.retryJob(parseId(req.params.id, 'job id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to retry generation job');
+  }
+});
+
+// ============================================
+// OUTPUT
+// ============================================
+
+/**
+ * GET /api/document-generation/documents/:id
+ * Current files and earlier versions, with short-lived download links
+ */
+router.get('/documents/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await documentGenerationService.getGeneratedDocument(parseId(req.params.id, 'document id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch generated document');
+  }
+});
+
+export default router;
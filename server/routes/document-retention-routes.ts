@@ -0,0 +1,181 @@
+/**
+ * Document Retention Routes
+ *
+ * Retention policies per document category, legal holds that stop
+ * documents being destroyed, the retention schedule, and the signed
+ * certificates issued for every purge. Compliance admins only.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { retentionEngine } from '../services/documents';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN));
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+/**
+ * GET /api/document-retention/policies
+ */
+router.get('/policies', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await retentionEngine.listPolicies());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch retention policies');
+  }
+});
+
+/**
+ * POST /api/document-retention/policies
+ * A policy without documentCategory covers every category without its own
+ */
+router.post('/policies', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await retentionEngine.createPolicy(req.body));
+  } catch (error) {
+    handleError(res, error, 'Failed to create retention policy');
+  }
+});
+
+/**
+ * PATCH /api/document-retention/policies/:id
+ * Documents not yet acted on are rescheduled on the next run
+ */
+router.patch('/policies/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await retentionEngine.updatePolicy(parseId(req.params.id, 'policy id'), req.body));
+  } catch (error) {
+    handleError(res, error, 'Failed to update retention policy');
+  }
+});
+
+// ============================================================================
+// LEGAL HOLDS
+// ============================================================================
+
+/**
+ * GET /api/document-retention/holds?status=active
+ */
+router.get('/holds', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await retentionEngine.listHolds(typeof req.query.status === 'string' ? req.query.status : undefined));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch legal holds');
+  }
+});
+
+/**
+ * POST /api/document-retention/holds
+ * scopeType 'document' (documentKind + documentId), 'entity' (businessEntityId)
+ * or 'category' (documentCategory)
+ */
+router.post('/holds', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await retentionEngine.placeHold(req.body, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to place legal hold');
+  }
+});
+
+/**
+ * POST /api/document-retention/holds/:id/release
+ */
+router.post('/holds/:id/release', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await retentionEngine.releaseHold(parseId(req.params.id, 'hold id'), req.user!.id, req.body?.reason));
+  } catch (error) {
+    handleError(res, error, 'Failed to release legal hold');
+  }
+});
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+/**
+ * GET /api/document-retention/schedule?status=&dueBefore=&limit=
+ */
+router.get('/schedule', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const dueBefore = typeof req.query.dueBefore === 'string' ? new Date(req.query.dueBefore) : undefined;
+    if (dueBefore && isNaN(dueBefore.getTime())) {
+      throw new ValidationError('dueBefore must be a date');
+    }
+    res.json(await retentionEngine.listSchedule({
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+      dueBefore,
+      limit: req.query.limit ? parseInt(String(req.query.limit)) : undefined,
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch retention schedule');
+  }
+});
+
+/**
+ * POST /api/document-retention/run
+ * Run the daily retention pass now
+ */
+router.post('/run', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await retentionEngine.run());
+  } catch (error) {
+    handleError(res, error, 'Failed to run document retention');
+  }
+});
+
+// ============================================================================
+// CERTIFICATES
+// ============================================================================
+
+/**
+ * GET /api/document-retention/certificates?dataDeletionRequestId=
+ */
+router.get('/certificates', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await retentionEngine.listCertificates({
+      dataDeletionRequestId: req.query.dataDeletionRequestId
+        ? parseId(req.query.dataDeletionRequestId, 'data request id')
+        : undefined,
+      limit: req.query.limit ? parseInt(String(req.query.limit)) : undefined,
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch retention certificates');
+  }
+});
+
+/**
+ * GET /api/document-retention/certificates/:id
+ * The certificate with its signature verified and a link to the PDF
+ */
+router.get('/certificates/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await retentionEngine.getCertificate(parseId(req.params.id, 'certificate id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch retention certificate');
+  }
+});
+
+export default router;
@@ -0,0 +1,123 @@
+/**
+ * Document Search Routes
+ *
+ * Ranked full-text search over uploaded documents (service request uploads
+ * and the document vault), using text extracted by OCR and the identifiers
+ * found in it. Staff search every client; clients only their own entities.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { documentSearchService, type IndexSource } from '../services/documents';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+const STAFF_ROLES = [
+  USER_ROLES.SUPER_ADMIN,
+  USER_ROLES.ADMIN,
+  USER_ROLES.OPS_MANAGER,
+  USER_ROLES.OPS_EXECUTIVE,
+  USER_ROLES.CUSTOMER_SERVICE,
+  USER_ROLES.QC_EXECUTIVE,
+  USER_ROLES.ACCOUNTANT,
+];
+const requireStaff = requireRole(...STAFF_ROLES);
+const requireIndexAdmin = requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.OPS_MANAGER);
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(...STAFF_ROLES, USER_ROLES.CLIENT));
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function parseSource(value: unknown): IndexSource {
+  if (value !== 'upload' && value !== 'vault') {
+    throw new ValidationError('source must be upload or vault');
+  }
+  return value;
+}
+
+/**
+ * GET /api/document-search?q=2023 MOA acme&entityId=&serviceRequestId=&category=&documentType=&from=&to=&limit=&offset=
+ * Results are ranked by relevance, then document date; highlights are HTML
+ * fragments with matches in <mark>
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = await documentSearchService.resolveScope(req.user!);
+    res.json(await documentSearchService.search({
+      query: optionalString(req.query.q),
+      businessEntityId: req.query.entityId ? parseId(req.query.entityId, 'entity id') : undefined,
+      serviceRequestId: req.query.serviceRequestId ? parseId(req.query.serviceRequestId, 'service request id') : undefined,
+      category: optionalString(req.query.category),
+      documentType: optionalString(req.query.documentType),
+      from: optionalString(req.query.from),
+      to: optionalString(req.query.to),
+      limit: req.query.limit ? parseInt(String(req.query.limit)) : undefined,
+      offset: req.query.offset ? parseInt(String(req.query.offset)) : undefined,
+    }, scope));
+  } catch (error) {
+    handleError(res, error, 'Failed to search documents');
+  }
+});
+
+/**
+ * GET /api/document-search/index/stats
+ * Index rows per status (pending, indexed, failed, unsupported)
+ */
+router.get('/index/stats', requireStaff, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await documentSearchService.getIndexStats());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch index stats');
+  }
+});
+
+/**
+ * POST /api/document-search/index/:source/:id
+ * Re-extract one document, e.g. after replacing a bad scan
+ */
+router.post('/index/:source/:id', requireStaff, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const source = parseSource(req.params.source);
+    const id = parseId(req.params.id, 'document id');
+    await documentSearchService.queueDocument(source, id);
+    res.status(202).json({ queued: true, source, id });
+  } catch (error) {
+    handleError(res, error, 'Failed to queue document for indexing');
+  }
+});
+
+/**
+ * POST /api/document-search/index/sweep
+ * Queue documents that were never indexed, and failed ones due a retry
+ */
+router.post('/index/sweep', requireIndexAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = req.body?.limit ? Math.min(parseId(req.body.limit, 'limit'), 500) : undefined;
+    res.status(202).json(await documentSearchService.sweep(limit));
+  } catch (error) {
+    handleError(res, error, 'Failed to sweep document index');
+  }
+});
+
+export default router;
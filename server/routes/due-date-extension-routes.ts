@@ -0,0 +1,110 @@
+/**
+ * Due Date Extension Routes
+ *
+ * Admin registry of deadlines extended by CBDT / CBIC / MCA circular.
+ * Saving, correcting or withdrawing an extension queues a recalculation of
+ * the compliance state of every entity it covers; responses report the
+ * number of jobs queued.
+ */
+
+import { Router, Request, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES } from '../rbac-middleware';
+import { dueDateExtensionService } from '../services/due-date-extension-service';
+import { AppError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN));
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+/**
+ * GET /api/due-date-extensions?ruleCode=GST_GSTR3B_MONTHLY&includeInactive=true
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const extensions = await dueDateExtensionService.list({
+      ruleCode: req.query.ruleCode as string | undefined,
+      includeInactive: req.query.includeInactive === 'true',
+    });
+    res.json({ extensions });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch due date extensions');
+  }
+});
+
+/**
+ * GET /api/due-date-extensions/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const extension = await dueDateExtensionService.getById(parseInt(req.params.id));
+    res.json(extension);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch due date extension');
+  }
+});
+
+/**
+ * POST /api/due-date-extensions
+ * Body: { authority, ruleCodes, period, originalDueDate, extendedDueDate, circularReference,
+ *         circularDate?, circularUrl?, applicableEntityTypes?, applicableStates?, notes? }
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const result = await dueDateExtensionService.create(req.body, user?.id);
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to record due date extension');
+  }
+});
+
+/**
+ * PUT /api/due-date-extensions/:id
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const result = await dueDateExtensionService.update(parseInt(req.params.id), req.body);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to update due date extension');
+  }
+});
+
+/**
+ * DELETE /api/due-date-extensions/:id
+ * Withdraws the extension; deadlines revert to the statutory date
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const result = await dueDateExtensionService.deactivate(parseInt(req.params.id));
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to withdraw due date extension');
+  }
+});
+
+/**
+ * POST /api/due-date-extensions/:id/recalculate
+ * Re-run the recalculation, e.g. after entities were onboarded
+ */
+router.post('/:id/recalculate', async (req: Request, res: Response) => {
+  try {
+    const extension = await dueDateExtensionService.getById(parseInt(req.params.id));
+    const recalculation = await dueDateExtensionService.recalculate([extension]);
+    res.json({ extension, recalculation });
+  } catch (error) {
+    handleError(res, error, 'Failed to recalculate due date extension');
+  }
+});
+
+export default router;
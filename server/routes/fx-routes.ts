@@ -0,0 +1,218 @@
+/**
+ * FX Routes
+ *
+ * API endpoints for multi-currency invoicing:
+ * - Exchange Rates - Rate table, RBI / FBIL reference file and CSV imports
+ * - Invoices - Foreign currency invoices with a locked rate
+ * - Settlements - Receipts with realised FX gain/loss
+ * - Reports - Receivables and realised FX in transaction and base currency
+ */
+
+import { Router, Response } from 'express';
+import multer from 'multer';
+import { sessionAuthMiddleware, requireRole, USER_ROLES } from '../rbac-middleware';
+import { extractTenant, type TenantRequest } from '../middleware/tenant-middleware';
+import { ledgerService } from '../services/ledger-service';
+import { fxService, RATE_SOURCES, type RateSource } from '../services/fx-service';
+import { AppError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+// Rate files are small CSVs; keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB max
+  },
+});
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.ACCOUNTANT));
+router.use(extractTenant);
+
+async function getLedgerTenant(req: TenantRequest, res: Response): Promise<string | null> {
+  const tenantId = await ledgerService.resolveTenantId(req.tenantId);
+  if (!tenantId) {
+    res.status(400).json({ error: 'Tenant context required' });
+    return null;
+  }
+  return tenantId;
+}
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// EXCHANGE RATES
+// ============================================================================
+
+/**
+ * GET /api/fx/rates?currency=USD&fromDate=&toDate=
+ */
+router.get('/rates', async (req: TenantRequest, res: Response) => {
+  try {
+    const rates = await fxService.listRates({
+      currency: req.query.currency as string | undefined,
+      fromDate: req.query.fromDate as string | undefined,
+      toDate: req.query.toDate as string | undefined,
+      limit: req.query.limit ? Math.min(parseInt(req.query.limit as string) || 200, 1000) : undefined,
+    });
+    res.json({ rates });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch exchange rates');
+  }
+});
+
+/**
+ * GET /api/fx/rates/lookup?from=USD&to=INR&date=YYYY-MM-DD
+ * Rate applicable on a date (latest within the lookback window)
+ */
+router.get('/rates/lookup', async (req: TenantRequest, res: Response) => {
+  try {
+    if (!req.query.from) {
+      return res.status(400).json({ error: 'from is required' });
+    }
+    const rate = await fxService.getRate(
+      req.query.from as string,
+      (req.query.to as string) || undefined,
+      (req.query.date as string) || undefined,
+    );
+    res.json(rate);
+  } catch (error) {
+    handleError(res, error, 'Failed to look up exchange rate');
+  }
+});
+
+/**
+ * POST /api/fx/rates
+ * Body: { fromCurrency, toCurrency?, rate, effectiveDate }
+ */
+router.post('/rates', async (req: TenantRequest, res: Response) => {
+  try {
+    const rate = await fxService.setRate(req.body);
+    res.status(201).json({ rate });
+  } catch (error) {
+    handleError(res, error, 'Failed to save exchange rate');
+  }
+});
+
+/**
+ * POST /api/fx/rates/import
+ * Upload a rate file as multipart "file" or JSON { content, source?, toCurrency? }
+ */
+router.post('/rates/import', upload.single('file'), async (req: TenantRequest, res: Response) => {
+  try {
+    const file = (req as any).file as Express.Multer.File | undefined;
+    const content = file ? file.buffer.toString('utf8') : req.body?.content;
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ error: 'Rate file or content is required' });
+    }
+
+    const source = req.body?.source as RateSource | undefined;
+    const sources: string[] = Object.values(RATE_SOURCES);
+    if (source && !sources.includes(source)) {
+      return res.status(400).json({ error: `source must be one of: ${sources.join(', ')}` });
+    }
+
+    const result = await fxService.importRates(content, { source, toCurrency: req.body?.toCurrency });
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to import exchange rates');
+  }
+});
+
+// ============================================================================
+// INVOICES
+// ============================================================================
+
+/**
+ * POST /api/fx/invoices
+ * Body: { currency, clientName, clientCountry?, clientGstin?, clientState?, invoiceDate?, dueDate?, exchangeRate?, gstRate?, exportUnderLut?, lineItems: [{ description, hsn?, quantity?, rate }], notes? }
+ */
+router.post('/invoices', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const user = (req as any).user;
+    const invoice = await fxService.createInvoice(tenantId, req.body, user?.id ?? null);
+    res.status(201).json({ invoice });
+  } catch (error) {
+    handleError(res, error, 'Failed to create foreign currency invoice');
+  }
+});
+
+/**
+ * GET /api/fx/invoices/:id
+ */
+router.get('/invoices/:id', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const invoice = await fxService.getInvoice(tenantId, parseInt(req.params.id));
+    res.json({ invoice });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch invoice');
+  }
+});
+
+/**
+ * POST /api/fx/invoices/:id/settlements
+ * Body: { amount, receivedAt, baseAmountReceived?, settlementRate?, bankCharges?, reference? }
+ */
+router.post('/invoices/:id/settlements', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const user = (req as any).user;
+    const settlement = await fxService.recordSettlement(tenantId, parseInt(req.params.id), req.body, user?.id ?? null);
+    res.status(201).json({ settlement });
+  } catch (error) {
+    handleError(res, error, 'Failed to record settlement');
+  }
+});
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * GET /api/fx/reports/receivables?asOf=YYYY-MM-DD
+ */
+router.get('/reports/receivables', async (req: TenantRequest, res: Response) => {
+  try {
+    const report = await fxService.getReceivablesReport((req.query.asOf as string) || undefined);
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'Failed to build foreign currency receivables report');
+  }
+});
+
+/**
+ * GET /api/fx/reports/realised?fromDate=YYYY-MM-DD&toDate=YYYY-MM-DD
+ */
+router.get('/reports/realised', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const { fromDate, toDate } = req.query;
+    if (!fromDate || !toDate) {
+      return res.status(400).json({ error: 'fromDate and toDate are required' });
+    }
+    const report = await fxService.getRealisedFxReport(tenantId, fromDate as string, toDate as string);
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'Failed to build realised FX report');
+  }
+});
+
+export default router;
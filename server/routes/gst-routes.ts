@@ -0,0 +1,225 @@
+/**
+ * GST Routes
+ *
+ * API endpoints for the GST tax ledger:
+ * - Tax Ledger - Output/input rows and per-period GST position
+ * - Vendor Bills - Purchase invoices that feed input tax credit
+ * - Returns - GSTR-1 / GSTR-3B drafts (GSTN offline-tool JSON) and filing via the GSP
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES } from '../rbac-middleware';
+import { extractTenant, type TenantRequest } from '../middleware/tenant-middleware';
+import { ledgerService } from '../services/ledger-service';
+import { gstLedgerService, GST_TRANSACTION_TYPES } from '../services/gst-ledger-service';
+import { parseReturnPeriod, type GstTransactionType } from '../services/gst-return-builder';
+import { AppError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+const RETURN_TYPES = ['gstr1', 'gstr3b'] as const;
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.ACCOUNTANT));
+router.use(extractTenant);
+
+async function getLedgerTenant(req: TenantRequest, res: Response): Promise<string | null> {
+  const tenantId = await ledgerService.resolveTenantId(req.tenantId);
+  if (!tenantId) {
+    res.status(400).json({ error: 'Tenant context required' });
+    return null;
+  }
+  return tenantId;
+}
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// TAX LEDGER
+// ============================================================================
+
+/**
+ * GET /api/gst/summary?months=12
+ * GST position per return period, newest first
+ */
+router.get('/summary', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const months = Math.min(Math.max(parseInt((req.query.months as string) || '12') || 12, 1), 36);
+    const periods = await gstLedgerService.getPeriodSummaries(tenantId, months);
+    res.json({ periods });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch GST summary');
+  }
+});
+
+/**
+ * GET /api/gst/transactions?period=MMYYYY&type=gst_output
+ */
+router.get('/transactions', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    if (!req.query.period) {
+      return res.status(400).json({ error: 'period is required' });
+    }
+    const { year, month } = parseReturnPeriod(req.query.period as string);
+    const type = req.query.type as string | undefined;
+    const types: string[] = Object.values(GST_TRANSACTION_TYPES);
+    if (type && !types.includes(type)) {
+      return res.status(400).json({ error: `type must be one of: ${types.join(', ')}` });
+    }
+
+    const transactions = await gstLedgerService.listTaxTransactions(tenantId, {
+      year,
+      month,
+      transactionType: type as GstTransactionType | undefined,
+    });
+    res.json({ transactions });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch tax transactions');
+  }
+});
+
+// ============================================================================
+// VENDOR BILLS
+// ============================================================================
+
+/**
+ * GET /api/gst/vendor-bills?period=MMYYYY
+ */
+router.get('/vendor-bills', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const period = req.query.period ? parseReturnPeriod(req.query.period as string) : undefined;
+    const { limit = '100', offset = '0' } = req.query;
+    const bills = await gstLedgerService.listVendorBills(tenantId, {
+      year: period?.year,
+      month: period?.month,
+      limit: parseInt(limit as string),
+      offset: parseInt(offset as string),
+    });
+    res.json({ bills });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch vendor bills');
+  }
+});
+
+/**
+ * POST /api/gst/vendor-bills
+ * Body: { billNumber, billDate, vendorName, vendorGstin?, placeOfSupply?, lines: [{ hsn, description, taxableValue, rate }], reverseCharge?, itcEligible?, expenseAccountCode? }
+ */
+router.post('/vendor-bills', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const user = (req as any).user;
+    const bill = await gstLedgerService.createVendorBill(tenantId, req.body, user?.id ?? null);
+    res.status(201).json({ bill });
+  } catch (error) {
+    handleError(res, error, 'Failed to record vendor bill');
+  }
+});
+
+/**
+ * GET /api/gst/vendor-bills/:id
+ */
+router.get('/vendor-bills/:id', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const bill = await gstLedgerService.getVendorBill(tenantId, parseInt(req.params.id));
+    res.json({ bill });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch vendor bill');
+  }
+});
+
+// ============================================================================
+// RETURNS
+// ============================================================================
+
+/**
+ * GET /api/gst/returns/gstr1?period=MMYYYY
+ * GSTR-1 draft in the GSTN offline-tool schema
+ */
+router.get('/returns/gstr1', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    if (!req.query.period) {
+      return res.status(400).json({ error: 'period is required' });
+    }
+    const payload = await gstLedgerService.generateGstr1(tenantId, req.query.period as string);
+    res.json(payload);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate GSTR-1');
+  }
+});
+
+/**
+ * GET /api/gst/returns/gstr3b?period=MMYYYY
+ * GSTR-3B draft in the GSTN offline-tool schema
+ */
+router.get('/returns/gstr3b', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    if (!req.query.period) {
+      return res.status(400).json({ error: 'period is required' });
+    }
+    const payload = await gstLedgerService.generateGstr3b(tenantId, req.query.period as string);
+    res.json(payload);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate GSTR-3B');
+  }
+});
+
+/**
+ * POST /api/gst/returns/:returnType/file
+ * Body: { period, clientId?, entityId?, credentials? }
+ */
+router.post('/returns/:returnType/file', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const returnType = req.params.returnType as typeof RETURN_TYPES[number];
+    if (!RETURN_TYPES.includes(returnType)) {
+      return res.status(400).json({ error: `returnType must be one of: ${RETURN_TYPES.join(', ')}` });
+    }
+    const { period, clientId, entityId, credentials } = req.body;
+    if (!period) {
+      return res.status(400).json({ error: 'period is required' });
+    }
+
+    const user = (req as any).user;
+    const result = await gstLedgerService.fileReturn(tenantId, returnType, {
+      period,
+      clientId: clientId ?? user?.id,
+      entityId,
+      credentials,
+    });
+    res.status(result.success ? 200 : 502).json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to file GST return');
+  }
+});
+
+export default router;
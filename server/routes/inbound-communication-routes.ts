@@ -0,0 +1,229 @@
+/**
+ * Inbound Communication Routes
+ *
+ * Webhooks for client replies on WhatsApp, SMS and email, and the ops inbox
+ * they are threaded into (communication threads on service requests and
+ * support tickets).
+ *
+ * Webhooks accept the provider's own payload or the local stub format (see
+ * inbound-message-parser.ts) and must be signed by one of:
+ * - x-inbound-signature: hex HMAC-SHA256 of the request body with INBOUND_WEBHOOK_SECRET
+ * - x-hub-signature-256: Meta's sha256=<hex> with WHATSAPP_APP_SECRET
+ * - x-twilio-signature: Twilio's request signature with TWILIO_AUTH_TOKEN
+ *
+ * Signatures are checked against the raw body kept by the parsers in
+ * server/index.ts: re-serialising the parsed JSON changes the bytes (Meta
+ * escapes non-ASCII text as \uXXXX), and input sanitizing rewrites values.
+ */
+
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { inboundCommunicationService } from '../services/inbound-communication-service';
+import { INBOUND_CHANNELS, parseInboundPayload, type InboundChannel } from '../services/inbound-message-parser';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+const INBOUND_SECRET = process.env.INBOUND_WEBHOOK_SECRET || '';
+const WHATSAPP_APP_SECRET = process.env.WHATSAPP_APP_SECRET || '';
+const WHATSAPP_VERIFY_TOKEN = process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '';
+const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN || '';
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  try {
+    return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  } catch {
+    return false;
+  }
+}
+
+type RawBodyRequest = Request & { rawBody?: Buffer };
+
+function verifyInboundSignature(req: RawBodyRequest): boolean {
+  if (!req.rawBody) return false;
+  const body = req.rawBody;
+
+  const own = req.headers['x-inbound-signature'];
+  if (INBOUND_SECRET && typeof own === 'string') {
+    return safeEqual(own, crypto.createHmac('sha256', INBOUND_SECRET).update(body).digest('hex'));
+  }
+
+  const meta = req.headers['x-hub-signature-256'];
+  if (WHATSAPP_APP_SECRET && typeof meta === 'string') {
+    return safeEqual(meta, `sha256=${crypto.createHmac('sha256', WHATSAPP_APP_SECRET).update(body).digest('hex')}`);
+  }
+
+  // Twilio: base64 HMAC-SHA1 of the full URL followed by the sorted form params
+  const twilio = req.headers['x-twilio-signature'];
+  if (TWILIO_AUTH_TOKEN && typeof twilio === 'string') {
+    const params = new URLSearchParams(body.toString('utf8'));
+    const payload = Array.from(new Set(params.keys())).sort()
+      .reduce((acc, key) => acc + params.getAll(key).map(value => key + value).join(''), '');
+    const url = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+    return safeEqual(twilio, crypto.createHmac('sha1', TWILIO_AUTH_TOKEN).update(url + payload).digest('base64'));
+  }
+
+  return false;
+}
+
+/**
+ * GET /api/communications/inbound/whatsapp
+ * Meta webhook subscription check (hub.mode, hub.verify_token, hub.challenge)
+ */
+router.get('/inbound/whatsapp', (req: Request, res: Response) => {
+  const mode = req.query['hub.mode'];
+  const token = req.query['hub.verify_token'];
+  if (mode === 'subscribe' && WHATSAPP_VERIFY_TOKEN && token === WHATSAPP_VERIFY_TOKEN) {
+    return res.status(200).send(String(req.query['hub.challenge'] || ''));
+  }
+  res.status(403).json({ error: 'Verification failed' });
+});
+
+/**
+ * POST /api/communications/inbound/:channel (whatsapp | sms | email)
+ * Client replies from the provider, or the stub format:
+ * { from, text, subject?, messageId?, inReplyTo?, attachments?: [{ fileName, mimeType, contentBase64 }] }
+ */
+router.post('/inbound/:channel', async (req: RawBodyRequest, res: Response) => {
+  const channel = req.params.channel as InboundChannel;
+  if (!INBOUND_CHANNELS.includes(channel)) {
+    return res.status(404).json({ error: `Unknown channel ${req.params.channel}` });
+  }
+  if (!verifyInboundSignature(req)) {
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    const messages = parseInboundPayload(channel, req.body);
+    const results = await inboundCommunicationService.receive(messages);
+
+    // Twilio expects TwiML; an empty response sends no auto-reply
+    if (req.headers['x-twilio-signature']) {
+      return res.type('text/xml').send('<Response></Response>');
+    }
+    // Always 200 for a signed callback so providers do not retry what we stored
+    res.json({ received: messages.length, results });
+  } catch (error) {
+    handleError(res, error, 'Failed to process inbound message');
+  }
+});
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(
+  USER_ROLES.SUPER_ADMIN,
+  USER_ROLES.ADMIN,
+  USER_ROLES.OPS_MANAGER,
+  USER_ROLES.OPS_EXECUTIVE,
+  USER_ROLES.CUSTOMER_SERVICE
+));
+
+/**
+ * GET /api/communications/inbox?status=awaiting|all&channel=&search=&limit=&offset=
+ * Threads with client replies, newest first
+ */
+router.get('/inbox', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await inboundCommunicationService.listInbox({
+      status: req.query.status === 'all' ? 'all' : 'awaiting',
+      channel: typeof req.query.channel === 'string' && req.query.channel !== 'all' ? req.query.channel : undefined,
+      search: typeof req.query.search === 'string' && req.query.search.trim() ? req.query.search.trim() : undefined,
+      limit: req.query.limit ? parseInt(String(req.query.limit)) : undefined,
+      offset: req.query.offset ? parseInt(String(req.query.offset)) : undefined,
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch inbox');
+  }
+});
+
+/**
+ * GET /api/communications/threads/:id
+ * Thread with every message, internal notes included
+ */
+router.get('/threads/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await inboundCommunicationService.getThread(parseId(req.params.id, 'thread id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch thread');
+  }
+});
+
+/**
+ * POST /api/communications/threads/:id/notes
+ * Body: { content, handled? }
+ */
+router.post('/threads/:id/notes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const note = await inboundCommunicationService.addNote(
+      parseId(req.params.id, 'thread id'),
+      req.user!.id,
+      req.body?.content,
+      { handled: req.body?.handled === true }
+    );
+    res.status(201).json(note);
+  } catch (error) {
+    handleError(res, error, 'Failed to add note');
+  }
+});
+
+/**
+ * POST /api/communications/threads/:id/reply
+ * Body: { content, channel? } - defaults to the channel the client last used
+ */
+router.post('/threads/:id/reply', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const reply = await inboundCommunicationService.reply(parseId(req.params.id, 'thread id'), req.user!.id, {
+      content: req.body?.content,
+      channel: req.body?.channel,
+    });
+    res.status(201).json(reply);
+  } catch (error) {
+    handleError(res, error, 'Failed to send reply');
+  }
+});
+
+/**
+ * POST /api/communications/threads/:id/handled
+ */
+router.post('/threads/:id/handled', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await inboundCommunicationService.markHandled(parseId(req.params.id, 'thread id'), req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to update thread');
+  }
+});
+
+/**
+ * PUT /api/communications/threads/:id/link
+ * Body: { entityType: 'service_request' | 'support_ticket', entityId }
+ */
+router.put('/threads/:id/link', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await inboundCommunicationService.linkThread(
+      parseId(req.params.id, 'thread id'),
+      req.body?.entityType,
+      req.body?.entityId
+    ));
+  } catch (error) {
+    handleError(res, error, 'Failed to link thread');
+  }
+});
+
+export default router;
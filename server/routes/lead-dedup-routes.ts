@@ -0,0 +1,133 @@
+/**
+ * Lead Deduplication Routes
+ *
+ * Duplicate checks before a lead is entered, the review queue of suspected
+ * duplicate pairs, and merging duplicates into a surviving lead. Sales
+ * executives can check; merging and the report are for sales managers.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { leadDedupService } from '../services/lead-dedup-service';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+router.use(requireMinimumRole(USER_ROLES.SALES_EXECUTIVE));
+
+const requireSalesManager = requireMinimumRole(USER_ROLES.SALES_MANAGER);
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+/**
+ * POST /api/lead-dedup/check
+ * Existing leads matching { clientName, contactPhone, contactEmail, pan, gstin }
+ */
+router.post('/check', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { clientName, contactPhone, contactEmail, directorPhone, directorEmail, pan, gstin, excludeLeadId } = req.body;
+    if (!clientName && !contactPhone && !contactEmail && !pan && !gstin) {
+      throw new ValidationError('Provide a name, phone, email, PAN or GSTIN to check');
+    }
+
+    res.json(await leadDedupService.check(
+      { clientName, contactPhone, contactEmail, directorPhone, directorEmail, pan, gstin },
+      excludeLeadId ? parseId(excludeLeadId, 'lead id') : undefined
+    ));
+  } catch (error) {
+    handleError(res, error, 'Failed to check for duplicate leads');
+  }
+});
+
+/**
+ * GET /api/lead-dedup/pairs?status=open&minScore=&leadId=&limit=
+ * Suspected duplicate pairs, highest score first
+ */
+router.get('/pairs', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await leadDedupService.listPairs({
+      status: typeof req.query.status === 'string' ? req.query.status : undefined,
+      minScore: req.query.minScore ? parseFloat(String(req.query.minScore)) : undefined,
+      leadId: req.query.leadId ? parseId(req.query.leadId, 'lead id') : undefined,
+      limit: req.query.limit ? parseInt(String(req.query.limit)) : undefined,
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch duplicate leads');
+  }
+});
+
+/**
+ * POST /api/lead-dedup/pairs/:id/dismiss
+ * Not duplicates; the pair is not reported again
+ */
+router.post('/pairs/:id/dismiss', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await leadDedupService.dismissPair(parseId(req.params.id, 'pair id'), req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to dismiss duplicate pair');
+  }
+});
+
+/**
+ * POST /api/lead-dedup/merge
+ * { survivorId, duplicateIds: number[], reason }
+ */
+router.post('/merge', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { survivorId, duplicateIds, reason } = req.body;
+    if (!Array.isArray(duplicateIds)) {
+      throw new ValidationError('duplicateIds must be an array of lead ids');
+    }
+
+    res.json(await leadDedupService.merge(
+      parseId(survivorId, 'survivor id'),
+      duplicateIds.map((id: unknown) => parseId(id, 'duplicate id')),
+      req.user!.id,
+      reason
+    ));
+  } catch (error) {
+    handleError(res, error, 'Failed to merge leads');
+  }
+});
+
+/**
+ * GET /api/lead-dedup/leads/:id/merges
+ * Merge history of a lead, as survivor or as the merged duplicate
+ */
+router.get('/leads/:id/merges', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await leadDedupService.listMerges(parseId(req.params.id, 'lead id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch lead merge history');
+  }
+});
+
+/**
+ * POST /api/lead-dedup/scan
+ * Run the periodic duplicate scan now
+ */
+router.post('/scan', requireSalesManager, async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await leadDedupService.scan());
+  } catch (error) {
+    handleError(res, error, 'Failed to scan for duplicate leads');
+  }
+});
+
+export default router;
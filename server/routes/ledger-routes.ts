@@ -0,0 +1,286 @@
+/**
+ * General Ledger Routes
+ *
+ * API endpoints for double-entry bookkeeping:
+ * - Chart of Accounts - Tenant account structure
+ * - Journal Entries - Draft, post and reverse
+ * - Financial Statements - Trial balance, P&L, balance sheet
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES } from '../rbac-middleware';
+import { extractTenant, type TenantRequest } from '../middleware/tenant-middleware';
+import { ledgerService } from '../services/ledger-service';
+import { AppError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+// Books are restricted to finance and administrators
+router.use(sessionAuthMiddleware);
+router.use(requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.ACCOUNTANT));
+router.use(extractTenant);
+
+/**
+ * Resolve the ledger tenant for the request, falling back to the default
+ * tenant on single-tenant deployments.
+ */
+async function getLedgerTenant(req: TenantRequest, res: Response): Promise<string | null> {
+  const tenantId = await ledgerService.resolveTenantId(req.tenantId);
+  if (!tenantId) {
+    res.status(400).json({ error: 'Tenant context required' });
+    return null;
+  }
+  return tenantId;
+}
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+// ============================================================================
+// CHART OF ACCOUNTS
+// ============================================================================
+
+/**
+ * GET /api/ledger/accounts
+ * List the tenant's chart of accounts
+ */
+router.get('/accounts', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const accounts = await ledgerService.listAccounts(tenantId, {
+      type: req.query.type as string | undefined,
+      includeInactive: req.query.includeInactive === 'true',
+    });
+
+    res.json({ accounts });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch chart of accounts');
+  }
+});
+
+/**
+ * POST /api/ledger/accounts/seed
+ * Seed the default Indian chart of accounts (idempotent)
+ */
+router.post('/accounts/seed', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const created = await ledgerService.seedDefaultChart(tenantId);
+    res.json({ success: true, created });
+  } catch (error) {
+    handleError(res, error, 'Failed to seed chart of accounts');
+  }
+});
+
+/**
+ * POST /api/ledger/accounts
+ * Add an account to the chart
+ */
+router.post('/accounts', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const account = await ledgerService.createAccount(tenantId, req.body);
+    res.status(201).json({ account });
+  } catch (error) {
+    handleError(res, error, 'Failed to create account');
+  }
+});
+
+/**
+ * GET /api/ledger/accounts/:id/ledger
+ * Account statement with running balance
+ */
+router.get('/accounts/:id/ledger', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const ledger = await ledgerService.getAccountLedger(tenantId, parseInt(req.params.id), {
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+    });
+
+    res.json(ledger);
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch account ledger');
+  }
+});
+
+// ============================================================================
+// JOURNAL ENTRIES
+// ============================================================================
+
+/**
+ * GET /api/ledger/journal-entries
+ * List journal entries
+ */
+router.get('/journal-entries', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const { status, referenceType, from, to, limit = '50', offset = '0' } = req.query;
+    const entries = await ledgerService.listJournalEntries(tenantId, {
+      status: status as string | undefined,
+      referenceType: referenceType as string | undefined,
+      from: from as string | undefined,
+      to: to as string | undefined,
+      limit: parseInt(limit as string),
+      offset: parseInt(offset as string),
+    });
+
+    res.json({ entries });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch journal entries');
+  }
+});
+
+/**
+ * GET /api/ledger/journal-entries/:id
+ * Get a journal entry with lines
+ */
+router.get('/journal-entries/:id', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const entry = await ledgerService.getJournalEntry(tenantId, parseInt(req.params.id));
+    res.json({ entry });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch journal entry');
+  }
+});
+
+/**
+ * POST /api/ledger/journal-entries
+ * Create a manual journal entry (draft unless post=true)
+ */
+router.post('/journal-entries', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const user = (req as any).user;
+    const { entryDate, description, lines, post } = req.body;
+
+    const entry = await ledgerService.createJournalEntry({
+      tenantId,
+      entryDate,
+      description,
+      referenceType: 'manual',
+      lines,
+      createdBy: user?.id,
+    }, { post: post === true });
+
+    res.status(201).json({ entry });
+  } catch (error) {
+    handleError(res, error, 'Failed to create journal entry');
+  }
+});
+
+/**
+ * POST /api/ledger/journal-entries/:id/post
+ * Post a draft journal entry
+ */
+router.post('/journal-entries/:id/post', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const user = (req as any).user;
+    const entry = await ledgerService.postJournalEntry(tenantId, parseInt(req.params.id), user?.id);
+    res.json({ entry });
+  } catch (error) {
+    handleError(res, error, 'Failed to post journal entry');
+  }
+});
+
+/**
+ * POST /api/ledger/journal-entries/:id/reverse
+ * Reverse a posted journal entry
+ */
+router.post('/journal-entries/:id/reverse', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const user = (req as any).user;
+    const reversal = await ledgerService.reverseJournalEntry(tenantId, parseInt(req.params.id), user?.id, {
+      reason: req.body?.reason,
+      entryDate: req.body?.entryDate,
+    });
+
+    res.status(201).json({ entry: reversal });
+  } catch (error) {
+    handleError(res, error, 'Failed to reverse journal entry');
+  }
+});
+
+// ============================================================================
+// FINANCIAL STATEMENTS
+// ============================================================================
+
+/**
+ * GET /api/ledger/reports/trial-balance?asOf=YYYY-MM-DD
+ */
+router.get('/reports/trial-balance', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const report = await ledgerService.getTrialBalance(tenantId, req.query.asOf as string | undefined);
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate trial balance');
+  }
+});
+
+/**
+ * GET /api/ledger/reports/profit-and-loss?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Defaults to the current Indian financial year (April–March)
+ */
+router.get('/reports/profit-and-loss', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const now = new Date();
+    const fyStartYear = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+    const from = (req.query.from as string) || `${fyStartYear}-04-01`;
+    const to = (req.query.to as string) || now.toISOString().split('T')[0];
+
+    const report = await ledgerService.getProfitAndLoss(tenantId, from, to);
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate profit and loss statement');
+  }
+});
+
+/**
+ * GET /api/ledger/reports/balance-sheet?asOf=YYYY-MM-DD
+ */
+router.get('/reports/balance-sheet', async (req: TenantRequest, res: Response) => {
+  try {
+    const tenantId = await getLedgerTenant(req, res);
+    if (!tenantId) return;
+
+    const report = await ledgerService.getBalanceSheet(tenantId, req.query.asOf as string | undefined);
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'Failed to generate balance sheet');
+  }
+});
+
+export default router;
@@ -16,6 +16,7 @@ import {
 import { users } from '@shared/schema';
 import { notificationHub } from '../services/notifications';
 import { authenticate } from '../middleware/auth';
+import { publishMessageCreated } from '../realtime';
 
 const router = Router();
 
@@ -391,6 +392,18 @@ router.post('/threads/:id/messages', authenticate, async (req: Request, res: Res
       ),
     });
 
+    // Muted participants still see the thread update live; the sender's other tabs too
+    const participants = await db.select({ userId: messageThreadParticipants.userId })
+      .from(messageThreadParticipants)
+      .where(eq(messageThreadParticipants.threadId, threadId));
+    publishMessageCreated({
+      id: message.id,
+      threadId,
+      senderId: userId,
+      content: message.content,
+      recipientIds: participants.map((p: { userId: number }) => p.userId),
+    });
+
     for (const participant of otherParticipants) {
       await notificationHub.send({
         userId: participant.userId,
@@ -0,0 +1,152 @@
+/**
+ * Notification Delivery Routes
+ *
+ * Per-channel delivery records written by the notification dispatcher:
+ * provider receipt callbacks (delivered, bounced, read) and the ops view of
+ * what was sent to a client and what happened to it.
+ */
+
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { notificationDispatcher, type DeliveryFilters } from '../services/notifications/notification-dispatcher';
+import { normalizeReceiptStatus } from '../services/notifications/dispatch-rules';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+const RECEIPT_SECRET = process.env.NOTIFICATION_RECEIPT_SECRET || '';
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+function optionalDate(value: unknown, label: string): Date | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${label} must be an ISO date`);
+  }
+  return date;
+}
+
+function deliveryFilters(query: Request['query']): DeliveryFilters {
+  return {
+    channel: typeof query.channel === 'string' ? query.channel : undefined,
+    status: typeof query.status === 'string' ? query.status : undefined,
+    notificationType: typeof query.type === 'string' ? query.type : undefined,
+    from: optionalDate(query.from, 'from'),
+    to: optionalDate(query.to, 'to'),
+  };
+}
+
+/**
+ * HMAC-SHA256 of the JSON body with NOTIFICATION_RECEIPT_SECRET, hex encoded
+ */
+function verifyReceiptSignature(body: unknown, signature: string | undefined): boolean {
+  if (!RECEIPT_SECRET || !signature) return false;
+  const expected = crypto.createHmac('sha256', RECEIPT_SECRET).update(JSON.stringify(body)).digest('hex');
+  try {
+    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * POST /api/notification-deliveries/receipts
+ * Provider callback: { deliveryId? | messageId?, status, reason?, timestamp? }
+ * or { events: [...] }. Signed with the x-receipt-signature header.
+ */
+router.post('/receipts', async (req: Request, res: Response) => {
+  if (!verifyReceiptSignature(req.body, req.headers['x-receipt-signature'] as string | undefined)) {
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  const events: any[] = Array.isArray(req.body?.events) ? req.body.events : [req.body];
+  const results: Array<{ deliveryId?: number; messageId?: string; outcome: string }> = [];
+
+  for (const event of events) {
+    const ref = { deliveryId: event?.deliveryId, messageId: event?.messageId };
+    const receiptEvent = normalizeReceiptStatus(event?.status);
+    if (!receiptEvent) {
+      results.push({ ...ref, outcome: 'ignored_status' });
+      continue;
+    }
+    try {
+      const { applied } = await notificationDispatcher.recordReceipt({
+        deliveryId: typeof event.deliveryId === 'number' ? event.deliveryId : undefined,
+        providerMessageId: typeof event.messageId === 'string' ? event.messageId : undefined,
+        event: receiptEvent,
+        reason: typeof event.reason === 'string' ? event.reason : null,
+        occurredAt: event.timestamp ? new Date(event.timestamp) : undefined,
+      });
+      results.push({ ...ref, outcome: applied ? receiptEvent : 'stale' });
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        return handleError(res, error, 'Failed to record notification receipt');
+      }
+      results.push({ ...ref, outcome: error.statusCode === 404 ? 'unknown_delivery' : 'invalid' });
+    }
+  }
+
+  // Always 200 for a signed callback so providers do not retry unknown ids
+  res.json({ results });
+});
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(
+  USER_ROLES.SUPER_ADMIN,
+  USER_ROLES.ADMIN,
+  USER_ROLES.OPS_MANAGER,
+  USER_ROLES.OPS_EXECUTIVE,
+  USER_ROLES.CUSTOMER_SERVICE
+));
+
+/**
+ * GET /api/notification-deliveries/clients/:businessEntityId?channel=&status=&type=&from=&to=&limit=&offset=
+ * Everything dispatched for a client, newest first, with per-channel counts
+ */
+router.get('/clients/:businessEntityId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const businessEntityId = parseId(req.params.businessEntityId, 'client id');
+    const filters = { ...deliveryFilters(req.query), businessEntityId };
+    const [deliveries, summary] = await Promise.all([
+      notificationDispatcher.listDeliveries({
+        ...filters,
+        limit: req.query.limit ? parseInt(String(req.query.limit)) : undefined,
+        offset: req.query.offset ? parseInt(String(req.query.offset)) : undefined,
+      }),
+      notificationDispatcher.summarizeDeliveries(filters),
+    ]);
+    res.json({ businessEntityId, summary, deliveries });
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch client notification deliveries');
+  }
+});
+
+/**
+ * GET /api/notification-deliveries/:id
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await notificationDispatcher.getDelivery(parseId(req.params.id, 'delivery id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch notification delivery');
+  }
+});
+
+export default router;
@@ -6,6 +6,7 @@
  * - Channel management (email, SMS, WhatsApp, push, in-app)
  * - Quiet hours configuration
  * - Notification history
+ * - Next digest preview
  */
 
 import { Router, Request, Response } from 'express';
@@ -16,6 +17,7 @@ import {
   type NotificationChannel,
   type NotificationFrequency,
 } from '../services/notification-preferences-service';
+import { notificationDigestService } from '../services/notifications/notification-digest-service';
 import { logger } from '../logger';
 
 const router = Router();
@@ -413,6 +415,22 @@ router.get('/history/list', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/notification-preferences/digest/preview
+ * Notifications held for the current user's hourly/daily/weekly digest,
+ * grouped as the next digest will send them
+ */
+router.get('/digest/preview', async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const preview = await notificationDigestService.previewNextDigest(user.id);
+    res.json(preview);
+  } catch (error) {
+    logger.error('Error building digest preview:', error);
+    res.status(500).json({ error: 'Failed to build digest preview' });
+  }
+});
+
 // ============================================================================
 // METADATA
 // ============================================================================
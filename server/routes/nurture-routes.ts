@@ -0,0 +1,156 @@
+/**
+ * Lead Nurture Routes
+ *
+ * Multi-step nurture sequences per lead segment (email, WhatsApp, a task for
+ * the rep, waits and branches), enrolling leads, and per-step conversion
+ * metrics. Sales executives can enroll and read; defining sequences is for
+ * sales managers. The unsubscribe link sent in nurture emails is public.
+ */
+
+import { Router, Request, Response } from 'express';
+import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { nurtureService } from '../services/nurture-service';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+/**
+ * GET /api/nurture/unsubscribe/:token
+ * Public: the link in every nurture email
+ */
+router.get('/unsubscribe/:token', async (req: Request, res: Response) => {
+  try {
+    const found = await nurtureService.unsubscribe(req.params.token);
+    res.status(found ? 200 : 404).type('text/plain').send(
+      found
+        ? 'You have been unsubscribed and will not receive further follow-up messages.'
+        : 'This unsubscribe link is invalid or has expired.'
+    );
+  } catch (error) {
+    logger.error('Failed to process nurture unsubscribe:', error);
+    res.status(500).type('text/plain').send('Something went wrong. Please try again later.');
+  }
+});
+
+router.use(sessionAuthMiddleware);
+router.use(requireMinimumRole(USER_ROLES.SALES_EXECUTIVE));
+
+const requireSalesManager = requireMinimumRole(USER_ROLES.SALES_MANAGER);
+
+/**
+ * GET /api/nurture/sequences
+ */
+router.get('/sequences', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await nurtureService.listSequences());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch nurture sequences');
+  }
+});
+
+/**
+ * POST /api/nurture/sequences
+ * { name, description, segment, steps, autoEnroll, isActive }
+ */
+router.post('/sequences', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await nurtureService.createSequence(req.body, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to create nurture sequence');
+  }
+});
+
+/**
+ * PATCH /api/nurture/sequences/:id
+ */
+router.patch('/sequences/:id', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await nurtureService.updateSequence(parseId(req.params.id, 'sequence id'), req.body));
+  } catch (error) {
+    handleError(res, error, 'Failed to update nurture sequence');
+  }
+});
+
+/**
+ * GET /api/nurture/sequences/:id/metrics
+ */
+router.get('/sequences/:id/metrics', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await nurtureService.metrics(parseId(req.params.id, 'sequence id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch nurture metrics');
+  }
+});
+
+/**
+ * POST /api/nurture/sequences/:id/enroll
+ * { leadIds }
+ */
+router.post('/sequences/:id/enroll', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const leadIds = req.body?.leadIds;
+    if (!Array.isArray(leadIds) || leadIds.length === 0) {
+      throw new ValidationError('leadIds must be a non-empty list');
+    }
+    res.json(await nurtureService.enroll(
+      parseId(req.params.id, 'sequence id'),
+      leadIds.map((id: unknown) => parseId(id, 'lead id')),
+      req.user!.id
+    ));
+  } catch (error) {
+    handleError(res, error, 'Failed to enroll leads');
+  }
+});
+
+/**
+ * GET /api/nurture/leads/:id/enrollments
+ */
+router.get('/leads/:id/enrollments', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await nurtureService.listForLead(parseId(req.params.id, 'lead id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch lead enrollments');
+  }
+});
+
+/**
+ * GET /api/nurture/enrollments/:id/events
+ */
+router.get('/enrollments/:id/events', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await nurtureService.listEvents(parseId(req.params.id, 'enrollment id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch enrollment history');
+  }
+});
+
+/**
+ * POST /api/nurture/enrollments/:id/stop
+ * { reason }
+ */
+router.post('/enrollments/:id/stop', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await nurtureService.stopEnrollment(parseId(req.params.id, 'enrollment id'), req.body?.reason));
+  } catch (error) {
+    handleError(res, error, 'Failed to stop enrollment');
+  }
+});
+
+export default router;
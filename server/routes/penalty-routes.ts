@@ -0,0 +1,139 @@
+/**
+ * Penalty Routes
+ *
+ * Itemised late fee and interest for tracked filings, and what-if assessments
+ * for a hypothetical filing date or tax amount. Clients can only assess their
+ * own filings.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { penaltyEngine, assessPenalty, termsFromPenaltyRule, type PenaltyWhatIfInput } from '../services/penalty-engine';
+import { db } from '../db';
+import { eq } from 'drizzle-orm';
+import { penaltyRulesMaster } from '@shared/blueprints-schema';
+import { AppError, ValidationError, NotFoundError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+
+const staffOnly = requireRole(
+  USER_ROLES.SUPER_ADMIN,
+  USER_ROLES.ADMIN,
+  USER_ROLES.OPS_MANAGER,
+  USER_ROLES.OPS_EXECUTIVE,
+  USER_ROLES.ACCOUNTANT
+);
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+/** Clients are limited to filings they own */
+function ownerScope(req: AuthenticatedRequest): { ownerId?: number } {
+  return req.user?.role === USER_ROLES.CLIENT ? { ownerId: req.user.id } : {};
+}
+
+function parseOptionalNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new ValidationError(`${field} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+function parseWhatIfInput(body: any): PenaltyWhatIfInput {
+  const incomeTax = body?.incomeTax;
+  return {
+    filedOn: body?.filedOn || undefined,
+    taxLiability: parseOptionalNumber(body?.taxLiability, 'taxLiability'),
+    income: parseOptionalNumber(body?.income, 'income'),
+    normalFee: parseOptionalNumber(body?.normalFee, 'normalFee'),
+    incomeTax: incomeTax ? {
+      assessedTax: parseOptionalNumber(incomeTax.assessedTax, 'incomeTax.assessedTax') ?? 0,
+      advanceTaxPaid: parseOptionalNumber(incomeTax.advanceTaxPaid, 'incomeTax.advanceTaxPaid'),
+      instalmentsPaid: Array.isArray(incomeTax.instalmentsPaid)
+        ? incomeTax.instalmentsPaid.map((value: unknown) => parseOptionalNumber(value, 'incomeTax.instalmentsPaid') ?? 0)
+        : undefined,
+    } : undefined,
+  };
+}
+
+/**
+ * GET /api/penalties/tracking/:id
+ * Current exposure of a tracked filing (as of today, or its completion date)
+ */
+router.get('/tracking/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const assessment = await penaltyEngine.assessTracking(parseInt(req.params.id), {}, ownerScope(req));
+    res.json(assessment);
+  } catch (error) {
+    handleError(res, error, 'Failed to calculate penalty');
+  }
+});
+
+/**
+ * POST /api/penalties/what-if
+ * Body: { trackingId, filedOn?, taxLiability?, income?, normalFee?,
+ *         incomeTax?: { assessedTax, advanceTaxPaid?, instalmentsPaid? } }
+ */
+router.post('/what-if', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const trackingId = parseInt(req.body?.trackingId);
+    if (!trackingId) {
+      throw new ValidationError('trackingId is required');
+    }
+    const assessment = await penaltyEngine.assessTracking(trackingId, parseWhatIfInput(req.body), ownerScope(req));
+    res.json(assessment);
+  } catch (error) {
+    handleError(res, error, 'Failed to calculate penalty');
+  }
+});
+
+/**
+ * POST /api/penalties/calculate
+ * Ad hoc assessment against a penalty rule, not tied to a tracked filing.
+ * Body: { penaltyRuleCode, dueDate, filedOn, taxLiability?, income?, normalFee?, incomeTax? }
+ */
+router.post('/calculate', staffOnly, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { penaltyRuleCode, dueDate } = req.body || {};
+    if (!penaltyRuleCode || !dueDate) {
+      throw new ValidationError('penaltyRuleCode and dueDate are required');
+    }
+
+    const [rule] = await db.select().from(penaltyRulesMaster)
+      .where(eq(penaltyRulesMaster.code, penaltyRuleCode))
+      .limit(1);
+    if (!rule) {
+      throw new NotFoundError('Penalty rule');
+    }
+
+    const input = parseWhatIfInput(req.body);
+    const due = new Date(dueDate);
+    const filedOn = input.filedOn ? new Date(input.filedOn) : new Date();
+    if (isNaN(due.getTime()) || isNaN(filedOn.getTime())) {
+      throw new ValidationError('dueDate and filedOn must be valid dates');
+    }
+
+    res.json(assessPenalty([termsFromPenaltyRule(rule)], {
+      dueDate: due,
+      filedOn,
+      taxLiability: input.taxLiability,
+      income: input.income,
+      normalFee: input.normalFee,
+      incomeTax: input.incomeTax,
+    }));
+  } catch (error) {
+    handleError(res, error, 'Failed to calculate penalty');
+  }
+});
+
+export default router;
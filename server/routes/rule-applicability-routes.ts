@@ -0,0 +1,106 @@
+/**
+ * Rule Applicability Routes
+ *
+ * Admin tooling for compliance rule applicability expressions: validate a draft,
+ * test a rule (saved or draft expression) against an entity, explain every rule
+ * for an entity, and save a rule's expression.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import {
+  ruleApplicabilityService,
+  validateApplicabilityExpression,
+  APPLICABILITY_FACTS,
+} from '../services/rule-applicability';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.OPS_MANAGER));
+
+const adminOnly = requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN);
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, field: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${field}`);
+  }
+  return id;
+}
+
+/**
+ * GET /api/compliance-rules/applicability/facts
+ * Facts an expression can refer to
+ */
+router.get('/applicability/facts', (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ facts: APPLICABILITY_FACTS });
+});
+
+/**
+ * POST /api/compliance-rules/applicability/validate
+ * Body: { expression }
+ */
+router.post('/applicability/validate', (req: AuthenticatedRequest, res: Response) => {
+  const errors = validateApplicabilityExpression(req.body?.expression);
+  res.json({ valid: errors.length === 0, errors });
+});
+
+/**
+ * GET /api/compliance-rules/applicability/entities/:entityId
+ * Why each active rule does or does not apply to the entity
+ */
+router.get('/applicability/entities/:entityId', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await ruleApplicabilityService.explainEntity(parseId(req.params.entityId, 'entity id'));
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to explain rule applicability');
+  }
+});
+
+/**
+ * POST /api/compliance-rules/:ruleId/applicability/test
+ * Body: { entityId, expression? } - a draft expression replaces the saved one for this test
+ */
+router.post('/:ruleId/applicability/test', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await ruleApplicabilityService.testRule(
+      parseId(req.params.ruleId, 'rule id'),
+      parseId(req.body?.entityId, 'entityId'),
+      req.body?.expression
+    );
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'Failed to test rule applicability');
+  }
+});
+
+/**
+ * PUT /api/compliance-rules/:ruleId/applicability
+ * Body: { expression } - null clears the expression
+ */
+router.put('/:ruleId/applicability', adminOnly, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.body || !('expression' in req.body)) {
+      throw new ValidationError('expression is required (null to clear)');
+    }
+    const rule = await ruleApplicabilityService.setExpression(parseId(req.params.ruleId, 'rule id'), req.body.expression);
+    logger.info(`Applicability expression for ${rule.ruleCode} updated by user ${req.user?.id}`);
+    res.json({ success: true, rule });
+  } catch (error) {
+    handleError(res, error, 'Failed to update rule applicability');
+  }
+});
+
+export default router;
@@ -124,7 +124,7 @@ router.get('/leads/:id', asyncHandler(async (req: Request, res: Response) => {
 router.post('/leads', asyncHandler(async (req: Request, res: Response) => {
   const {
     name, company, email, phone, source, notes,
-    priority, estimatedValue, serviceInterested, state, entityType
+    priority, estimatedValue, serviceInterested, state, city, industry, entityType
   } = req.body;
 
   if (!name || !phone) {
@@ -139,16 +139,16 @@ router.post('/leads', asyncHandler(async (req: Request, res: Response) => {
   const result = await pool.query(`
     INSERT INTO leads (
       lead_id, client_name, contact_email, contact_phone, lead_source,
-      notes, priority, estimated_value, service_interested, state, entity_type,
+      notes, priority, estimated_value, service_interested, state, city, industry, entity_type,
       status, lead_stage, pre_sales_executive
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'new', 'new', $12)
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 'new', 'new', $14)
     RETURNING
       id, lead_id as "leadId", client_name as name, contact_email as email,
       contact_phone as phone, lead_source as source, status, created_at as "createdAt"
   `, [
     leadId, company || name, email, phone, source || 'Website',
     notes, priority || 'medium', estimatedValue || null,
-    serviceInterested || 'General Inquiry', state, entityType,
+    serviceInterested || 'General Inquiry', state, city || null, industry || null, entityType,
     req.user?.email || 'System'
   ]);
 
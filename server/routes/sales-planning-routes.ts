@@ -0,0 +1,167 @@
+/**
+ * Sales Planning Routes
+ *
+ * Sales teams, the territories (state / city / industry) that drive lead
+ * auto-assignment, monthly and quarterly quotas per rep and team, and
+ * attainment against them with a leaderboard. Sales executives can read;
+ * defining teams, territories and quotas is for sales managers.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { territoryQuotaService } from '../services/territory-quota-service';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+router.use(requireMinimumRole(USER_ROLES.SALES_EXECUTIVE));
+
+const requireSalesManager = requireMinimumRole(USER_ROLES.SALES_MANAGER);
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown, label: string): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+/**
+ * GET /api/sales-planning/teams
+ */
+router.get('/teams', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryQuotaService.listTeams());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch sales teams');
+  }
+});
+
+/**
+ * POST /api/sales-planning/teams
+ * { name, managerId, memberIds }
+ */
+router.post('/teams', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await territoryQuotaService.saveTeam(req.body, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to create sales team');
+  }
+});
+
+/**
+ * PATCH /api/sales-planning/teams/:id
+ */
+router.patch('/teams/:id', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryQuotaService.saveTeam(req.body, req.user!.id, parseId(req.params.id, 'team id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to update sales team');
+  }
+});
+
+/**
+ * GET /api/sales-planning/territories
+ */
+router.get('/territories', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryQuotaService.listTerritories());
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch sales territories');
+  }
+});
+
+/**
+ * POST /api/sales-planning/territories
+ * { name, states, cities, industries, teamId, priority, memberIds }
+ */
+router.post('/territories', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.status(201).json(await territoryQuotaService.saveTerritory(req.body, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to create sales territory');
+  }
+});
+
+/**
+ * PATCH /api/sales-planning/territories/:id
+ * Set isActive: false to stop routing leads by the territory
+ */
+router.patch('/territories/:id', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryQuotaService.saveTerritory(req.body, req.user!.id, parseId(req.params.id, 'territory id')));
+  } catch (error) {
+    handleError(res, error, 'Failed to update sales territory');
+  }
+});
+
+/**
+ * GET /api/sales-planning/quotas?periodType=monthly|quarterly&asOf=2026-10-01
+ */
+router.get('/quotas', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryQuotaService.listQuotas(req.query.periodType, req.query.asOf));
+  } catch (error) {
+    handleError(res, error, 'Failed to fetch sales quotas');
+  }
+});
+
+/**
+ * PUT /api/sales-planning/quotas
+ * { ownerType: user | team, userId | teamId, periodType, periodStart, targetAmount, targetConversions, notes }
+ * Replaces the owner's quota for the period containing periodStart
+ */
+router.put('/quotas', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryQuotaService.setQuota(req.body, req.user!.id));
+  } catch (error) {
+    handleError(res, error, 'Failed to set sales quota');
+  }
+});
+
+/**
+ * DELETE /api/sales-planning/quotas/:id
+ */
+router.delete('/quotas/:id', requireSalesManager, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await territoryQuotaService.deleteQuota(parseId(req.params.id, 'quota id'));
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to delete sales quota');
+  }
+});
+
+/**
+ * GET /api/sales-planning/attainment?periodType=monthly|quarterly&asOf=2026-10-01
+ * Attainment per rep and per team
+ */
+router.get('/attainment', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryQuotaService.getAttainment(req.query.periodType, req.query.asOf));
+  } catch (error) {
+    handleError(res, error, 'Failed to compute quota attainment');
+  }
+});
+
+/**
+ * GET /api/sales-planning/leaderboard?periodType=monthly|quarterly
+ */
+router.get('/leaderboard', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await territoryQuotaService.getLeaderboard(req.query.periodType, req.query.asOf));
+  } catch (error) {
+    handleError(res, error, 'Failed to build sales leaderboard');
+  }
+});
+
+export default router;
@@ -0,0 +1,116 @@
+/**
+ * SLA Calendar Routes
+ *
+ * Business calendars for SLA clocks: list and maintain calendars scoped to a
+ * service, team or tenant, and preview which calendar (with holidays) applies
+ * to a scope.
+ */
+
+import { Router, Response } from 'express';
+import { sessionAuthMiddleware, requireRole, USER_ROLES, type AuthenticatedRequest } from '../rbac-middleware';
+import { slaService } from '../services/sla-service';
+import { AppError, ValidationError } from '../errors';
+import { logger } from '../logger';
+
+const router = Router();
+
+router.use(sessionAuthMiddleware);
+router.use(requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN, USER_ROLES.OPS_MANAGER));
+
+const adminOnly = requireRole(USER_ROLES.SUPER_ADMIN, USER_ROLES.ADMIN);
+
+function handleError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  logger.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+function parseId(value: unknown): number {
+  const id = parseInt(String(value));
+  if (!id || id < 1) {
+    throw new ValidationError('Invalid calendar id');
+  }
+  return id;
+}
+
+function optionalQuery(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * GET /api/sla/calendars
+ */
+router.get('/', async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ calendars: await slaService.listCalendars() });
+  } catch (error) {
+    handleError(res, error, 'Failed to list business calendars');
+  }
+});
+
+/**
+ * GET /api/sla/calendars/resolve?serviceCode=&team=&tenantId=&year=
+ * The calendar a clock for this scope would start on, with that year's holidays
+ */
+router.get('/resolve', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const year = req.query.year ? parseInt(String(req.query.year)) : new Date().getUTCFullYear();
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      throw new ValidationError('Invalid year');
+    }
+    const calendar = await slaService.previewCalendar({
+      serviceCode: optionalQuery(req.query.serviceCode),
+      team: optionalQuery(req.query.team),
+      tenantId: optionalQuery(req.query.tenantId),
+    }, year);
+    res.json({ calendar });
+  } catch (error) {
+    handleError(res, error, 'Failed to resolve business calendar');
+  }
+});
+
+/**
+ * POST /api/sla/calendars
+ * Body: { name, serviceCode?, team?, tenantId?, utcOffsetMinutes?, workdayStart?, workdayEnd?,
+ *         workingDays?, jurisdictionId?, observeHolidays? }
+ */
+router.post('/', adminOnly, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const calendar = await slaService.createCalendar(req.body, req.user?.id);
+    logger.info(`SLA business calendar ${calendar.id} created by user ${req.user?.id}`);
+    res.status(201).json({ success: true, calendar });
+  } catch (error) {
+    handleError(res, error, 'Failed to create business calendar');
+  }
+});
+
+/**
+ * PATCH /api/sla/calendars/:id
+ * Running clocks keep using the calendar; changes apply from their next calculation
+ */
+router.patch('/:id', adminOnly, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const calendar = await slaService.updateCalendar(parseId(req.params.id), req.body ?? {});
+    logger.info(`SLA business calendar ${calendar.id} updated by user ${req.user?.id}`);
+    res.json({ success: true, calendar });
+  } catch (error) {
+    handleError(res, error, 'Failed to update business calendar');
+  }
+});
+
+/**
+ * DELETE /api/sla/calendars/:id
+ * Deactivates the calendar for new clocks
+ */
+router.delete('/:id', adminOnly, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await slaService.deactivateCalendar(parseId(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, 'Failed to deactivate business calendar');
+  }
+});
+
+export default router;
@@ -5,6 +5,7 @@
  * - payment.captured: Successful payment completion
  * - payment.failed: Payment failure
  * - refund.processed: Refund completion
+ * - settlement.processed: Payout of captured funds to the bank account
  *
  * Features:
  * - HMAC SHA256 signature verification
@@ -20,6 +21,7 @@ import { eq, and } from 'drizzle-orm';
 import { webhookEvents } from '../../db/schema/webhook-events';
 import { payments } from '@shared/schema';
 import { notificationHub } from '../../services/notifications';
+import { bankReconciliationService } from '../../services/bank-reconciliation-service';
 import { logger } from '../../logger';
 
 const router = Router();
@@ -371,6 +373,44 @@ async function handleRefundProcessed(payload: RazorpayWebhookPayload): Promise<v
   }
 }
 
+/**
+ * Handle processed settlement
+ * Recorded for bank reconciliation and posted to the ledger
+ */
+async function handleSettlementProcessed(payload: RazorpayWebhookPayload): Promise<void> {
+  const settlementEntity = payload.payload.settlement?.entity;
+  if (!settlementEntity) {
+    throw new Error('Settlement entity missing in webhook payload');
+  }
+
+  logger.info('Processing settlement.processed event', {
+    category: 'webhook',
+    provider: 'razorpay',
+    settlementId: settlementEntity.id,
+    amount: settlementEntity.amount,
+    utr: settlementEntity.utr,
+  });
+
+  const settlement = await bankReconciliationService.recordSettlement({
+    provider: 'razorpay',
+    settlementId: settlementEntity.id,
+    utr: settlementEntity.utr || null,
+    amount: settlementEntity.amount / 100,
+    fees: (settlementEntity.fees || 0) / 100,
+    tax: (settlementEntity.tax || 0) / 100,
+    status: settlementEntity.status,
+    settledAt: new Date((settlementEntity.created_at || payload.created_at) * 1000),
+    payload: settlementEntity,
+  });
+
+  logger.info('Settlement recorded', {
+    category: 'webhook',
+    provider: 'razorpay',
+    settlementId: settlementEntity.id,
+    dbSettlementId: settlement.id,
+  });
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
@@ -414,6 +454,17 @@ interface RazorpayRefundEntity {
   status: string;
 }
 
+interface RazorpaySettlementEntity {
+  id: string;
+  entity: string;
+  amount: number;
+  status: string;
+  fees?: number;
+  tax?: number;
+  utr?: string;
+  created_at?: number;
+}
+
 interface RazorpayWebhookPayload {
   entity: string;
   account_id: string;
@@ -426,6 +477,9 @@ interface RazorpayWebhookPayload {
     refund?: {
       entity: RazorpayRefundEntity;
     };
+    settlement?: {
+      entity: RazorpaySettlementEntity;
+    };
   };
   created_at: number;
 }
@@ -501,6 +555,10 @@ router.post('/', async (req: Request, res: Response) => {
           await handleRefundProcessed(payload);
           break;
 
+        case 'settlement.processed':
+          await handleSettlementProcessed(payload);
+          break;
+
         default:
           logger.info('Unhandled webhook event type', {
             category: 'webhook',
@@ -0,0 +1,307 @@
+/**
+ * Lead Attribution Rules
+ *
+ * How the credit for a conversion is shared among the touchpoints that led
+ * to it. A touchpoint is a referral code used, an agent who brought or
+ * worked the lead, a campaign click (UTM) or a proposal view. Touchpoints
+ * outside the model's lookback window, after the conversion, or of a type
+ * the model ignores earn nothing; the rest share the credit:
+ *
+ * - first_touch / last_touch: all of it to the earliest / latest touch
+ * - linear: equally
+ * - position_based: first and last touch get their configured weights
+ *   (40% each by default), the touches in between share what is left
+ *
+ * A conversion with no eligible touchpoint is credited in full to the lead's
+ * recorded source. Only agent touchpoints earn commission.
+ */
+
+export type AttributionModel = 'first_touch' | 'last_touch' | 'linear' | 'position_based';
+export type TouchType = 'referral_code' | 'agent' | 'campaign' | 'proposal_view' | 'manual';
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = ['first_touch', 'last_touch', 'linear', 'position_based'];
+export const TOUCH_TYPES: TouchType[] = ['referral_code', 'agent', 'campaign', 'proposal_view', 'manual'];
+
+export interface ModelSettings {
+  model: AttributionModel;
+  firstTouchWeight: number; // position_based only
+  lastTouchWeight: number;
+  lookbackDays: number | null; // null = no limit
+  touchTypes: TouchType[] | null; // null = all
+}
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  model: 'position_based',
+  firstTouchWeight: 0.4,
+  lastTouchWeight: 0.4,
+  lookbackDays: 90,
+  touchTypes: null,
+};
+
+export interface Touchpoint {
+  id: number;
+  touchType: string;
+  agentId?: number | null;
+  referrerId?: number | null;
+  referralCode?: string | null;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+  proposalId?: number | null;
+  source?: string | null;
+  occurredAt: Date;
+}
+
+export interface AttributionSplit {
+  touchpointId: number | null; // null when credited to the lead's recorded source
+  touchType: TouchType | null;
+  source: string;
+  campaign: string | null;
+  agentId: number | null;
+  referrerId: number | null;
+  weight: number; // 0-1, four decimals; a conversion's weights add up to 1
+  value: number; // rupees, two decimals; a conversion's values add up to its value
+}
+
+export interface AgentShare {
+  agentId: number;
+  weight: number;
+  value: number;
+}
+
+export interface SourceRoi {
+  source: string;
+  conversions: number; // fractional credit
+  revenue: number;
+  cost: number;
+  roi: number | null; // (revenue - cost) / cost; null without a known cost
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Problems with a model's settings, empty when it can be used
+ */
+export function modelSettingsErrors(settings: Partial<ModelSettings>): string[] {
+  const errors: string[] = [];
+  if (!settings.model || !ATTRIBUTION_MODELS.includes(settings.model)) {
+    errors.push(`model must be one of ${ATTRIBUTION_MODELS.join(', ')}`);
+  }
+  const first = settings.firstTouchWeight ?? DEFAULT_MODEL_SETTINGS.firstTouchWeight;
+  const last = settings.lastTouchWeight ?? DEFAULT_MODEL_SETTINGS.lastTouchWeight;
+  if (first < 0 || last < 0 || first + last > 1) {
+    errors.push('firstTouchWeight and lastTouchWeight must be non-negative and add up to at most 1');
+  }
+  if (settings.lookbackDays != null && (!Number.isInteger(settings.lookbackDays) || settings.lookbackDays < 1)) {
+    errors.push('lookbackDays must be a positive whole number of days');
+  }
+  if (settings.touchTypes != null) {
+    if (!Array.isArray(settings.touchTypes) || settings.touchTypes.length === 0) {
+      errors.push('touchTypes must be a non-empty list');
+    } else {
+      const unknown = settings.touchTypes.filter(type => !TOUCH_TYPES.includes(type));
+      if (unknown.length > 0) errors.push(`Unknown touch types: ${unknown.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Share of the credit for each of `count` touches in time order
+ */
+export function attributionWeights(settings: ModelSettings, count: number): number[] {
+  if (count <= 0) return [];
+  if (count === 1) return [1];
+
+  switch (settings.model) {
+    case 'first_touch':
+      return Array.from({ length: count }, (_, i) => (i === 0 ? 1 : 0));
+    case 'last_touch':
+      return Array.from({ length: count }, (_, i) => (i === count - 1 ? 1 : 0));
+    case 'linear':
+      return Array.from({ length: count }, () => 1 / count);
+    case 'position_based': {
+      const first = settings.firstTouchWeight;
+      const last = settings.lastTouchWeight;
+      if (count === 2) {
+        // No middle to give the rest to: first and last split it in their own proportion
+        const total = first + last;
+        return total > 0 ? [first / total, last / total] : [0.5, 0.5];
+      }
+      const middle = (1 - first - last) / (count - 2);
+      return Array.from({ length: count }, (_, i) => (i === 0 ? first : i === count - 1 ? last : middle));
+    }
+  }
+}
+
+/**
+ * Touchpoints that can earn credit for a conversion at `convertedAt`, oldest first
+ */
+export function eligibleTouchpoints<T extends Touchpoint>(touchpoints: T[], convertedAt: Date, settings: ModelSettings): T[] {
+  const earliest = settings.lookbackDays != null
+    ? convertedAt.getTime() - settings.lookbackDays * DAY_MS
+    : -Infinity;
+
+  return touchpoints
+    .filter(touch => {
+      const at = touch.occurredAt.getTime();
+      if (at > convertedAt.getTime() || at < earliest) return false;
+      return !settings.touchTypes || settings.touchTypes.includes(touch.touchType as TouchType);
+    })
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime() || a.id - b.id);
+}
+
+/**
+ * The source a touch is reported under in source ROI
+ */
+export function touchSource(touch: Touchpoint): string {
+  switch (touch.touchType) {
+    case 'campaign':
+      return (touch.utmSource || 'campaign').trim().toLowerCase();
+    case 'referral_code':
+      return 'referral';
+    case 'agent':
+      return 'agent';
+    case 'proposal_view':
+      return 'proposal';
+    default:
+      return (touch.source || 'manual').trim().toLowerCase();
+  }
+}
+
+/**
+ * What makes two touchpoints the same touch, so repeats (a proposal opened
+ * twice, an agent re-assigned the same lead) are recorded once
+ */
+export function touchpointKey(touch: Omit<Touchpoint, 'id' | 'occurredAt'>): string {
+  switch (touch.touchType) {
+    case 'agent':
+      return `agent:${touch.agentId}`;
+    case 'referral_code':
+      return `referral:${(touch.referralCode || '').toUpperCase()}`;
+    case 'proposal_view':
+      return `proposal:${touch.proposalId}`;
+    case 'campaign':
+      return ['campaign', touch.utmSource, touch.utmMedium, touch.utmCampaign]
+        .map(part => (part || '').toLowerCase())
+        .join(':');
+    default:
+      return `manual:${(touch.source || '').toLowerCase()}`;
+  }
+}
+
+/**
+ * Round each share of `total` to `decimals` places, putting the rounding
+ * remainder on the largest share so the parts still add up to the total
+ */
+function apportion(total: number, weights: number[], decimals: number): number[] {
+  const scale = 10 ** decimals;
+  const units = Math.round(total * scale);
+  const parts = weights.map(weight => Math.round(weight * units));
+  const largest = weights.indexOf(Math.max(...weights));
+  parts[largest] += units - parts.reduce((sum, part) => sum + part, 0);
+  return parts.map(part => part / scale);
+}
+
+/**
+ * Credit splits for a conversion worth `value`. Touches that earn nothing
+ * under the model are left out.
+ */
+export function computeSplits(
+  touchpoints: Touchpoint[],
+  value: number,
+  convertedAt: Date,
+  settings: ModelSettings,
+  fallbackSource: string | null,
+): AttributionSplit[] {
+  const eligible = eligibleTouchpoints(touchpoints, convertedAt, settings);
+  if (eligible.length === 0) {
+    return [{
+      touchpointId: null,
+      touchType: null,
+      source: (fallbackSource || 'unknown').trim().toLowerCase(),
+      campaign: null,
+      agentId: null,
+      referrerId: null,
+      weight: 1,
+      value: Math.round(value * 100) / 100,
+    }];
+  }
+
+  const raw = attributionWeights(settings, eligible.length);
+  const credited = eligible
+    .map((touch, i) => ({ touch, weight: raw[i] }))
+    .filter(entry => entry.weight > 0);
+  const weights = apportion(1, credited.map(entry => entry.weight), 4);
+  const values = apportion(value, credited.map(entry => entry.weight), 2);
+
+  return credited.map(({ touch }, i) => ({
+    touchpointId: touch.id,
+    touchType: touch.touchType as TouchType,
+    source: touchSource(touch),
+    campaign: touch.touchType === 'campaign' ? touch.utmCampaign || null : null,
+    agentId: touch.agentId ?? null,
+    referrerId: touch.referrerId ?? null,
+    weight: weights[i],
+    value: values[i],
+  }));
+}
+
+/**
+ * Each agent's share of a conversion, largest first. An agent with several
+ * touches is credited once with their total.
+ */
+export function agentShares(splits: AttributionSplit[]): AgentShare[] {
+  const byAgent = new Map<number, AgentShare>();
+  for (const split of splits) {
+    if (!split.agentId || split.weight <= 0) continue;
+    const share = byAgent.get(split.agentId) || { agentId: split.agentId, weight: 0, value: 0 };
+    share.weight = Math.round((share.weight + split.weight) * 10000) / 10000;
+    share.value = Math.round((share.value + split.value) * 100) / 100;
+    byAgent.set(split.agentId, share);
+  }
+  return Array.from(byAgent.values()).sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Attributed conversions and revenue per source, against what each source
+ * cost (commissions, referral credits), highest revenue first
+ */
+export function sourceRoi(
+  conversions: Array<{ splits: AttributionSplit[] }>,
+  costs: Record<string, number> = {},
+  keyOf: (split: AttributionSplit) => string | null = split => split.source,
+): SourceRoi[] {
+  const bySource = new Map<string, SourceRoi>();
+  const entry = (source: string) => {
+    let row = bySource.get(source);
+    if (!row) {
+      row = { source, conversions: 0, revenue: 0, cost: 0, roi: null };
+      bySource.set(source, row);
+    }
+    return row;
+  };
+
+  for (const conversion of conversions) {
+    for (const split of conversion.splits) {
+      const key = keyOf(split);
+      if (!key) continue;
+      const row = entry(key);
+      row.conversions += split.weight;
+      row.revenue += split.value;
+    }
+  }
+  for (const [source, cost] of Object.entries(costs)) {
+    entry(source).cost += cost;
+  }
+
+  return Array.from(bySource.values())
+    .map(row => ({
+      ...row,
+      conversions: Math.round(row.conversions * 100) / 100,
+      revenue: Math.round(row.revenue * 100) / 100,
+      cost: Math.round(row.cost * 100) / 100,
+      roi: row.cost > 0 ? Math.round(((row.revenue - row.cost) / row.cost) * 100) / 100 : null,
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+}
@@ -0,0 +1,504 @@
+/**
+ * Lead Attribution Service
+ *
+ * Records the touchpoints that bring a lead towards conversion (referral
+ * codes, agents, campaign clicks, proposal views), splits the credit for
+ * each conversion among them with the configured attribution model, and
+ * reports attributed revenue per source. Commission allocation (the
+ * `commissions` ledger) and disputes refer to the stored splits, so a
+ * recompute supersedes rather than edits.
+ */
+import { db } from '../db';
+import { and, asc, desc, eq, gte, inArray, isNull, lte, ne, sql, type SQL } from 'drizzle-orm';
+import {
+  attributionModels,
+  commissions,
+  conversionAttributions,
+  leadTouchpoints,
+  leads,
+  referrals,
+  type AttributionModelRecord,
+  type ConversionAttribution,
+  type Lead,
+  type LeadTouchpoint,
+  type SalesProposal,
+} from '@shared/schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { logger } from '../logger';
+import {
+  DEFAULT_MODEL_SETTINGS,
+  TOUCH_TYPES,
+  agentShares,
+  computeSplits,
+  modelSettingsErrors,
+  sourceRoi,
+  touchpointKey,
+  type AgentShare,
+  type AttributionModel,
+  type AttributionSplit,
+  type ModelSettings,
+  type TouchType,
+} from './attribution-rules';
+
+export interface TouchpointInput {
+  leadId: number;
+  touchType: string;
+  agentId?: number | null;
+  referrerId?: number | null;
+  referralCode?: string | null;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+  utmContent?: string | null;
+  utmTerm?: string | null;
+  proposalId?: number | null;
+  source?: string | null;
+  metadata?: Record<string, unknown> | null;
+  occurredAt?: Date | string | null;
+}
+
+export interface ConversionInput {
+  leadId: number;
+  serviceRequestId?: number | null;
+  conversionType: 'service_payment' | 'external';
+  conversionValue: number;
+  convertedAt?: Date;
+  // Agents credited outside the touchpoint log (the service request's
+  // assigned agent); recorded as agent touches before splitting
+  agentHints?: Array<{ agentId: number; occurredAt: Date }>;
+  modelId?: number | null;
+  createdBy?: number | null;
+}
+
+export interface ModelInput {
+  name?: string;
+  model?: string;
+  firstTouchWeight?: number;
+  lastTouchWeight?: number;
+  lookbackDays?: number | null;
+  touchTypes?: string[] | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export interface AttributionEvidence {
+  attribution: ConversionAttribution;
+  touchpoints: LeadTouchpoint[];
+  commissions: Array<{ id: number; agentId: number; commissionAmount: string; attributionWeight: string | null; status: string }>;
+}
+
+export interface SourceRoiReport {
+  from: string | null;
+  to: string | null;
+  conversions: number;
+  bySource: ReturnType<typeof sourceRoi>;
+  byCampaign: ReturnType<typeof sourceRoi>;
+}
+
+const UTM_FIELDS = ['utmSource', 'utmMedium', 'utmCampaign', 'utmContent', 'utmTerm'] as const;
+
+function settingsOf(model: AttributionModelRecord | undefined): ModelSettings {
+  if (!model) return DEFAULT_MODEL_SETTINGS;
+  return {
+    model: model.model as AttributionModel,
+    firstTouchWeight: Number(model.firstTouchWeight ?? DEFAULT_MODEL_SETTINGS.firstTouchWeight),
+    lastTouchWeight: Number(model.lastTouchWeight ?? DEFAULT_MODEL_SETTINGS.lastTouchWeight),
+    lookbackDays: model.lookbackDays ?? null,
+    touchTypes: Array.isArray(model.touchTypes) ? model.touchTypes as TouchType[] : null,
+  };
+}
+
+function trimmed(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * UTM parameters from a request body, as utmSource/utm_source fields or a
+ * nested utm object; null when there are none
+ */
+export function utmFromBody(body: Record<string, any> | null | undefined): Partial<Record<typeof UTM_FIELDS[number], string>> | null {
+  if (!body) return null;
+  const nested = body.utm && typeof body.utm === 'object' ? body.utm : {};
+  const utm: Partial<Record<typeof UTM_FIELDS[number], string>> = {};
+  for (const field of UTM_FIELDS) {
+    const snake = field.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+    const bare = field.slice(3).toLowerCase();
+    const value = trimmed(body[field]) ?? trimmed(body[snake]) ?? trimmed(nested[field]) ?? trimmed(nested[snake]) ?? trimmed(nested[bare]);
+    if (value) utm[field] = value;
+  }
+  return utm.utmSource || utm.utmCampaign ? utm : null;
+}
+
+class AttributionService {
+  // --------------------------------------------------------------------------
+  // TOUCHPOINTS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Record a touch on a lead. A repeat of a touch already recorded (same
+   * agent, code, campaign or proposal) returns the first one instead.
+   */
+  async recordTouchpoint(input: TouchpointInput, recordedBy?: number | null): Promise<LeadTouchpoint> {
+    if (!TOUCH_TYPES.includes(input.touchType as TouchType)) {
+      throw new ValidationError(`touchType must be one of ${TOUCH_TYPES.join(', ')}`);
+    }
+    const missing = {
+      agent: !input.agentId && 'agentId',
+      referral_code: !trimmed(input.referralCode) && 'referralCode',
+      campaign: !trimmed(input.utmSource) && !trimmed(input.utmCampaign) && 'utmSource or utmCampaign',
+      proposal_view: !input.proposalId && 'proposalId',
+      manual: !trimmed(input.source) && 'source',
+    }[input.touchType as TouchType];
+    if (missing) {
+      throw new ValidationError(`A ${input.touchType} touchpoint needs ${missing}`);
+    }
+
+    const occurredAt = input.occurredAt ? new Date(input.occurredAt) : new Date();
+    if (Number.isNaN(occurredAt.getTime())) {
+      throw new ValidationError('occurredAt is not a valid date');
+    }
+
+    const lead = await this.resolveLead(input.leadId);
+    const values = {
+      leadId: lead.id,
+      touchType: input.touchType,
+      agentId: input.agentId ?? null,
+      referrerId: input.referrerId ?? null,
+      referralCode: trimmed(input.referralCode)?.toUpperCase() ?? null,
+      utmSource: trimmed(input.utmSource),
+      utmMedium: trimmed(input.utmMedium),
+      utmCampaign: trimmed(input.utmCampaign),
+      utmContent: trimmed(input.utmContent),
+      utmTerm: trimmed(input.utmTerm),
+      proposalId: input.proposalId ?? null,
+      source: trimmed(input.source),
+      metadata: input.metadata ?? null,
+      occurredAt,
+      recordedBy: recordedBy ?? null,
+    };
+
+    const key = touchpointKey(values);
+    const existing = await db.select().from(leadTouchpoints)
+      .where(and(eq(leadTouchpoints.leadId, lead.id), eq(leadTouchpoints.touchType, input.touchType)));
+    const repeat = existing.find(touch => touchpointKey(touch) === key);
+    if (repeat) return repeat;
+
+    const [touchpoint] = await db.insert(leadTouchpoints).values(values).returning();
+    return touchpoint;
+  }
+
+  /**
+   * Touches known when a lead is created: the campaign it came from and the
+   * agent who brought it. Never fails lead creation.
+   */
+  async recordLeadOrigin(
+    lead: Pick<Lead, 'id' | 'agentId' | 'createdAt'>,
+    body: Record<string, any> | null,
+    recordedBy?: number | null,
+  ): Promise<void> {
+    try {
+      const occurredAt = lead.createdAt ?? new Date();
+      const utm = utmFromBody(body);
+      if (utm) {
+        await this.recordTouchpoint({ leadId: lead.id, touchType: 'campaign', ...utm, occurredAt }, recordedBy);
+      }
+      if (lead.agentId) {
+        await this.recordTouchpoint({ leadId: lead.id, touchType: 'agent', agentId: Number(lead.agentId), occurredAt }, recordedBy);
+      }
+    } catch (error) {
+      logger.warn(`Failed to record origin touchpoints for lead ${lead.id}:`, error);
+    }
+  }
+
+  /**
+   * The first view of a proposal counts as a touch on its lead
+   */
+  async recordProposalView(proposal: Pick<SalesProposal, 'id' | 'leadId'>): Promise<void> {
+    try {
+      const [lead] = await db.select({ id: leads.id }).from(leads)
+        .where(eq(leads.leadId, proposal.leadId))
+        .limit(1);
+      if (!lead) return;
+      await this.recordTouchpoint({ leadId: lead.id, touchType: 'proposal_view', proposalId: proposal.id });
+    } catch (error) {
+      logger.warn(`Failed to record proposal view touchpoint for proposal ${proposal.id}:`, error);
+    }
+  }
+
+  async listTouchpoints(leadId: number): Promise<LeadTouchpoint[]> {
+    const lead = await this.resolveLead(leadId);
+    return db.select().from(leadTouchpoints)
+      .where(eq(leadTouchpoints.leadId, lead.id))
+      .orderBy(asc(leadTouchpoints.occurredAt), asc(leadTouchpoints.id));
+  }
+
+  // --------------------------------------------------------------------------
+  // MODELS
+  // --------------------------------------------------------------------------
+
+  async listModels(): Promise<AttributionModelRecord[]> {
+    return db.select().from(attributionModels)
+      .orderBy(desc(attributionModels.isDefault), asc(attributionModels.name));
+  }
+
+  async createModel(input: ModelInput, actorId: number): Promise<AttributionModelRecord> {
+    if (!trimmed(input.name)) throw new ValidationError('name is required');
+    const values = this.modelValues(input, DEFAULT_MODEL_SETTINGS);
+
+    return db.transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.update(attributionModels).set({ isDefault: false }).where(eq(attributionModels.isDefault, true));
+      }
+      const [model] = await tx.insert(attributionModels).values({
+        ...values,
+        name: trimmed(input.name)!,
+        isDefault: !!input.isDefault,
+        createdBy: actorId,
+      }).returning();
+      return model;
+    });
+  }
+
+  async updateModel(id: number, input: ModelInput): Promise<AttributionModelRecord> {
+    const [current] = await db.select().from(attributionModels).where(eq(attributionModels.id, id)).limit(1);
+    if (!current) throw new NotFoundError('Attribution model');
+    const values = this.modelValues(input, settingsOf(current));
+    if (input.isDefault && input.isActive === false) {
+      throw new ValidationError('The default model must be active');
+    }
+
+    return db.transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.update(attributionModels).set({ isDefault: false })
+          .where(and(eq(attributionModels.isDefault, true), ne(attributionModels.id, id)));
+      }
+      const [model] = await tx.update(attributionModels).set({
+        ...values,
+        ...(trimmed(input.name) ? { name: trimmed(input.name)! } : {}),
+        ...(input.isDefault !== undefined ? { isDefault: input.isDefault } : {}),
+        ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+        updatedAt: new Date(),
+      }).where(eq(attributionModels.id, id)).returning();
+      return model;
+    });
+  }
+
+  private modelValues(input: ModelInput, base: ModelSettings) {
+    const settings = {
+      model: (input.model ?? base.model) as AttributionModel,
+      firstTouchWeight: input.firstTouchWeight ?? base.firstTouchWeight,
+      lastTouchWeight: input.lastTouchWeight ?? base.lastTouchWeight,
+      lookbackDays: input.lookbackDays !== undefined ? input.lookbackDays : base.lookbackDays,
+      touchTypes: (input.touchTypes !== undefined ? input.touchTypes : base.touchTypes) as TouchType[] | null,
+    };
+    const errors = modelSettingsErrors(settings);
+    if (errors.length > 0) throw new ValidationError(errors.join('; '), { errors });
+
+    return {
+      model: settings.model,
+      firstTouchWeight: settings.firstTouchWeight.toFixed(3),
+      lastTouchWeight: settings.lastTouchWeight.toFixed(3),
+      lookbackDays: settings.lookbackDays,
+      touchTypes: settings.touchTypes,
+    };
+  }
+
+  /**
+   * The requested model, or the default; the built-in position-based
+   * settings when none is configured
+   */
+  private async resolveModel(modelId?: number | null): Promise<{ id: number | null; settings: ModelSettings }> {
+    const [model] = modelId
+      ? await db.select().from(attributionModels).where(eq(attributionModels.id, modelId)).limit(1)
+      : await db.select().from(attributionModels)
+        .where(and(eq(attributionModels.isDefault, true), eq(attributionModels.isActive, true)))
+        .limit(1);
+    if (modelId && !model) throw new NotFoundError('Attribution model');
+    return { id: model?.id ?? null, settings: settingsOf(model) };
+  }
+
+  // --------------------------------------------------------------------------
+  // CONVERSIONS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Split the credit for a conversion among the lead's touchpoints. Replaces
+   * (supersedes) an earlier attribution of the same conversion.
+   */
+  async attributeConversion(input: ConversionInput): Promise<ConversionAttribution> {
+    if (!(input.conversionValue >= 0)) throw new ValidationError('conversionValue must be a non-negative amount');
+    const lead = await this.resolveLead(input.leadId);
+    const convertedAt = input.convertedAt ?? new Date();
+
+    // Agents on the lead before touchpoints were recorded still earn their touch
+    const hints = [...(input.agentHints || [])];
+    if (lead.agentId) hints.unshift({ agentId: Number(lead.agentId), occurredAt: lead.createdAt ?? convertedAt });
+    for (const hint of hints) {
+      await this.recordTouchpoint({ leadId: lead.id, touchType: 'agent', agentId: hint.agentId, occurredAt: hint.occurredAt });
+    }
+
+    const touchpoints = await db.select().from(leadTouchpoints).where(eq(leadTouchpoints.leadId, lead.id));
+    const { id: modelId, settings } = await this.resolveModel(input.modelId);
+    const splits = computeSplits(touchpoints, input.conversionValue, convertedAt, settings, lead.leadSource);
+
+    const sameConversion = input.serviceRequestId
+      ? eq(conversionAttributions.serviceRequestId, input.serviceRequestId)
+      : and(
+        eq(conversionAttributions.leadId, lead.id),
+        eq(conversionAttributions.conversionType, input.conversionType),
+        isNull(conversionAttributions.serviceRequestId),
+      );
+
+    return db.transaction(async (tx) => {
+      const [attribution] = await tx.insert(conversionAttributions).values({
+        leadId: lead.id,
+        serviceRequestId: input.serviceRequestId ?? null,
+        conversionType: input.conversionType,
+        conversionValue: input.conversionValue.toFixed(2),
+        convertedAt,
+        modelId,
+        model: settings.model,
+        modelSettings: settings,
+        splits,
+        createdBy: input.createdBy ?? null,
+      }).returning();
+
+      await tx.update(conversionAttributions)
+        .set({ supersededAt: new Date(), supersededBy: attribution.id })
+        .where(and(
+          sameConversion,
+          isNull(conversionAttributions.supersededAt),
+          ne(conversionAttributions.id, attribution.id),
+        ));
+
+      return attribution;
+    });
+  }
+
+  /**
+   * Attribute the conversion again, with another model or after touchpoints
+   * were added. Commissions already allocated keep the attribution they were
+   * split by.
+   */
+  async recompute(attributionId: number, modelId: number | null, actorId: number): Promise<ConversionAttribution> {
+    const [current] = await db.select().from(conversionAttributions)
+      .where(eq(conversionAttributions.id, attributionId))
+      .limit(1);
+    if (!current) throw new NotFoundError('Conversion attribution');
+
+    return this.attributeConversion({
+      leadId: current.leadId,
+      serviceRequestId: current.serviceRequestId,
+      conversionType: current.conversionType as ConversionInput['conversionType'],
+      conversionValue: Number(current.conversionValue),
+      convertedAt: current.convertedAt,
+      modelId: modelId ?? current.modelId,
+      createdBy: actorId,
+    });
+  }
+
+  agentShares(attribution: Pick<ConversionAttribution, 'splits'>): AgentShare[] {
+    return agentShares(attribution.splits as AttributionSplit[]);
+  }
+
+  async listForLead(leadId: number, includeSuperseded = false): Promise<ConversionAttribution[]> {
+    const lead = await this.resolveLead(leadId);
+    const filters: SQL[] = [eq(conversionAttributions.leadId, lead.id)];
+    if (!includeSuperseded) filters.push(isNull(conversionAttributions.supersededAt));
+    return db.select().from(conversionAttributions)
+      .where(and(...filters))
+      .orderBy(desc(conversionAttributions.convertedAt), desc(conversionAttributions.id));
+  }
+
+  /**
+   * An attribution with the touchpoints it credited and the commissions split
+   * by it: the evidence a commission dispute refers to
+   */
+  async getEvidence(attributionId: number): Promise<AttributionEvidence> {
+    const [attribution] = await db.select().from(conversionAttributions)
+      .where(eq(conversionAttributions.id, attributionId))
+      .limit(1);
+    if (!attribution) throw new NotFoundError('Conversion attribution');
+
+    const touchpointIds = (attribution.splits as AttributionSplit[])
+      .map(split => split.touchpointId)
+      .filter((id): id is number => id !== null);
+
+    const [touchpoints, allocated] = await Promise.all([
+      touchpointIds.length > 0
+        ? db.select().from(leadTouchpoints)
+          .where(inArray(leadTouchpoints.id, touchpointIds))
+          .orderBy(asc(leadTouchpoints.occurredAt))
+        : Promise.resolve([] as LeadTouchpoint[]),
+      db.select({
+        id: commissions.id,
+        agentId: commissions.agentId,
+        commissionAmount: commissions.commissionAmount,
+        attributionWeight: commissions.attributionWeight,
+        status: commissions.status,
+      }).from(commissions).where(eq(commissions.attributionId, attributionId)),
+    ]);
+
+    return { attribution, touchpoints, commissions: allocated };
+  }
+
+  // --------------------------------------------------------------------------
+  // REPORTING
+  // --------------------------------------------------------------------------
+
+  /**
+   * Attributed conversions and revenue per source and campaign, against
+   * commissions and referral credits paid for them
+   */
+  async sourceRoi(range: { from?: Date | null; to?: Date | null } = {}): Promise<SourceRoiReport> {
+    const filters: SQL[] = [isNull(conversionAttributions.supersededAt)];
+    if (range.from) filters.push(gte(conversionAttributions.convertedAt, range.from));
+    if (range.to) filters.push(lte(conversionAttributions.convertedAt, range.to));
+
+    const attributions = await db.select({
+      id: conversionAttributions.id,
+      leadId: conversionAttributions.leadId,
+      splits: conversionAttributions.splits,
+    }).from(conversionAttributions).where(and(...filters));
+
+    const costs: Record<string, number> = {};
+    if (attributions.length > 0) {
+      const [commissionCost] = await db.select({
+        total: sql<string>`coalesce(sum(coalesce(${commissions.adjustedAmount}, ${commissions.commissionAmount})), 0)`,
+      }).from(commissions).where(and(
+        inArray(commissions.attributionId, attributions.map(row => row.id)),
+        ne(commissions.status, 'rejected'),
+      ));
+      const [referralCost] = await db.select({
+        total: sql<string>`coalesce(sum(${referrals.creditAmount}), 0)`,
+      }).from(referrals).where(and(
+        inArray(referrals.leadId, Array.from(new Set(attributions.map(row => row.leadId)))),
+        eq(referrals.isCredited, true),
+      ));
+      if (Number(commissionCost?.total) > 0) costs.agent = Number(commissionCost.total);
+      if (Number(referralCost?.total) > 0) costs.referral = Number(referralCost.total);
+    }
+
+    const conversions = attributions.map(row => ({ splits: row.splits as AttributionSplit[] }));
+    return {
+      from: range.from ? range.from.toISOString() : null,
+      to: range.to ? range.to.toISOString() : null,
+      conversions: attributions.length,
+      bySource: sourceRoi(conversions, costs),
+      byCampaign: sourceRoi(conversions, {}, split => (split.campaign ? `${split.source}/${split.campaign}` : null)),
+    };
+  }
+
+  // A merged lead's touches and conversions belong to the lead it was merged into
+  private async resolveLead(leadId: number): Promise<Lead> {
+    const [lead] = await db.select().from(leads).where(eq(leads.id, leadId)).limit(1);
+    if (!lead) throw new NotFoundError('Lead');
+    if (!lead.mergedIntoId) return lead;
+
+    const [survivor] = await db.select().from(leads).where(eq(leads.id, lead.mergedIntoId)).limit(1);
+    return survivor || lead;
+  }
+}
+
+export const attributionService = new AttributionService();
+export { AttributionService };
@@ -0,0 +1,905 @@
+/**
+ * Bank Reconciliation Service
+ *
+ * Imports bank statements into bankTransactions and reconciles them against:
+ * - Completed payments
+ * - Razorpay settlements (recorded from the settlement.processed webhook)
+ * - Journal entries posted to the bank's ledger account
+ *
+ * Matches are scored on amount, date proximity and reference similarity.
+ * Clear winners are reconciled automatically; the rest go to a review queue.
+ */
+import { db } from '../db';
+import { eq, and, asc, desc, gte, lte, inArray, isNull, sql } from 'drizzle-orm';
+import {
+  bankAccounts,
+  bankTransactions,
+  bankReconciliationMatches,
+  gatewaySettlements,
+  journalEntries,
+  journalEntryLines,
+} from '@shared/enterprise-schema';
+import { payments } from '@shared/schema';
+import { parseStatement, type StatementFormat, type CsvColumnMapping } from './bank-statement-parser';
+import { ledgerService, LEDGER_ACCOUNTS, JOURNAL_STATUS, toPaise } from './ledger-service';
+import { ValidationError, NotFoundError, ConflictError } from '../errors';
+import { logger } from '../logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MATCH_TYPES = {
+  PAYMENT: 'payment',
+  SETTLEMENT: 'settlement',
+  JOURNAL: 'journal',
+} as const;
+
+export type MatchType = typeof MATCH_TYPES[keyof typeof MATCH_TYPES];
+
+export const MATCH_STATUS = {
+  SUGGESTED: 'suggested',
+  CONFIRMED: 'confirmed',
+  REJECTED: 'rejected',
+} as const;
+
+/** Score at or above which a clear best match is reconciled without review */
+export const AUTO_MATCH_THRESHOLD = 85;
+
+/** Minimum lead the best candidate needs over the runner-up to be auto-matched */
+export const AMBIGUITY_MARGIN = 10;
+
+/** Lone candidates with an exact amount inside the window need only this score */
+export const SOLE_CANDIDATE_THRESHOLD = 75;
+
+const DEFAULT_DATE_WINDOW_DAYS = 3;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StatementLineForMatching {
+  amount: number;
+  date: string;
+  reference: string | null;
+  description: string | null;
+}
+
+export interface MatchCandidate {
+  type: MatchType;
+  id: number;
+  amount: number;
+  date: string;
+  reference: string | null;
+  label: string;
+}
+
+export interface ScoredCandidate extends MatchCandidate {
+  score: number;
+  reasons: string[];
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+function normalizeRef(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) grams.push(value.slice(i, i + 2));
+  return grams;
+}
+
+function dice(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  const counts = new Map<string, number>();
+  left.forEach((gram) => counts.set(gram, (counts.get(gram) || 0) + 1));
+  let overlap = 0;
+  right.forEach((gram) => {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * overlap) / (left.length + right.length);
+}
+
+/**
+ * Similarity (0–1) between a bank narration and a candidate reference.
+ * Bank narrations embed UTRs and payment IDs amid noise such as
+ * "NEFT/RAZORPAY/UTIBR52024011512345", so containment counts as a full match
+ * and otherwise the best fuzzy match against any narration token is used.
+ */
+export function referenceSimilarity(text: string | null | undefined, reference: string | null | undefined): number {
+  if (!text || !reference) return 0;
+  const ref = normalizeRef(reference);
+  if (ref.length < 4) return 0;
+
+  const haystack = normalizeRef(text);
+  if (haystack.includes(ref)) return 1;
+
+  let best = 0;
+  for (const token of text.split(/[^A-Za-z0-9]+/)) {
+    const normalized = normalizeRef(token);
+    if (normalized.length < 4) continue;
+    best = Math.max(best, dice(normalized, ref));
+  }
+  return best;
+}
+
+function daysBetween(a: string, b: string): number {
+  const ms = Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime());
+  return Math.round(ms / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Score a candidate against a statement line. Amount must match to the paisa
+ * and the date must fall inside the window, otherwise the candidate is dropped.
+ * Score = 50 (amount) + up to 25 (date proximity) + up to 25 (reference).
+ */
+export function scoreCandidate(
+  line: StatementLineForMatching,
+  candidate: MatchCandidate,
+  windowDays: number = DEFAULT_DATE_WINDOW_DAYS
+): ScoredCandidate | null {
+  if (toPaise(line.amount) !== toPaise(candidate.amount)) return null;
+
+  const dayGap = daysBetween(line.date, candidate.date);
+  if (dayGap > windowDays) return null;
+
+  const reasons = ['amount_exact'];
+  const dateScore = Math.round(25 * (1 - dayGap / (windowDays + 1)));
+  reasons.push(dayGap === 0 ? 'same_day' : `date_within_${dayGap}d`);
+
+  const similarity = Math.max(
+    referenceSimilarity(line.reference, candidate.reference),
+    referenceSimilarity(line.description, candidate.reference)
+  );
+  const referenceScore = Math.round(25 * similarity);
+  if (similarity === 1) reasons.push('reference_exact');
+  else if (similarity >= 0.6) reasons.push('reference_similar');
+
+  return { ...candidate, score: 50 + dateScore + referenceScore, reasons };
+}
+
+/**
+ * Decide between auto-matching and manual review for a set of scored candidates
+ */
+export function classifyCandidates(scored: ScoredCandidate[]): {
+  autoMatch: ScoredCandidate | null;
+  suggestions: ScoredCandidate[];
+} {
+  const ranked = [...scored].sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) return { autoMatch: null, suggestions: [] };
+
+  const [best, runnerUp] = ranked;
+  const clearLead = !runnerUp || best.score - runnerUp.score >= AMBIGUITY_MARGIN;
+
+  if (clearLead && best.score >= AUTO_MATCH_THRESHOLD) {
+    return { autoMatch: best, suggestions: [] };
+  }
+  if (!runnerUp && best.score >= SOLE_CANDIDATE_THRESHOLD) {
+    return { autoMatch: best, suggestions: [] };
+  }
+  return { autoMatch: null, suggestions: ranked.slice(0, 5) };
+}
+
+function toDateString(value: Date | string | null | undefined): string {
+  if (!value) return new Date().toISOString().split('T')[0];
+  if (typeof value === 'string') return value.split('T')[0];
+  return value.toISOString().split('T')[0];
+}
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// ============================================================================
+// BANK RECONCILIATION SERVICE
+// ============================================================================
+
+class BankReconciliationService {
+  /**
+   * List the tenant's bank accounts
+   */
+  async listBankAccounts(tenantId: string) {
+    return db
+      .select()
+      .from(bankAccounts)
+      .where(eq(bankAccounts.tenantId, tenantId))
+      .orderBy(asc(bankAccounts.accountName));
+  }
+
+  /**
+   * Register a bank account, linked to a ledger account (defaults to Bank Accounts)
+   */
+  async createBankAccount(tenantId: string, input: {
+    accountName: string;
+    accountNumber?: string;
+    bankName?: string;
+    ifscCode?: string;
+    branch?: string;
+    accountId?: number;
+    openingBalance?: number;
+  }) {
+    if (!input.accountName) {
+      throw new ValidationError('accountName is required');
+    }
+
+    let accountId = input.accountId ?? null;
+    if (!accountId) {
+      const bankLedger = await ledgerService.getAccountByCode(tenantId, LEDGER_ACCOUNTS.BANK);
+      accountId = bankLedger?.id ?? null;
+    }
+
+    const openingBalance = (input.openingBalance ?? 0).toFixed(2);
+    const [account] = await db
+      .insert(bankAccounts)
+      .values({
+        tenantId,
+        accountName: input.accountName,
+        accountNumber: input.accountNumber ?? null,
+        bankName: input.bankName ?? null,
+        ifscCode: input.ifscCode ?? null,
+        branch: input.branch ?? null,
+        accountId,
+        openingBalance,
+        currentBalance: openingBalance,
+      })
+      .returning();
+
+    return account;
+  }
+
+  /**
+   * List statement lines for a bank account
+   */
+  async listTransactions(tenantId: string, bankAccountId: number, filters: {
+    status?: 'reconciled' | 'unreconciled';
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+  } = {}) {
+    await this.getBankAccount(tenantId, bankAccountId);
+
+    const conditions = [eq(bankTransactions.bankAccountId, bankAccountId)];
+    if (filters.status) conditions.push(eq(bankTransactions.isReconciled, filters.status === 'reconciled'));
+    if (filters.from) conditions.push(gte(bankTransactions.transactionDate, filters.from));
+    if (filters.to) conditions.push(lte(bankTransactions.transactionDate, filters.to));
+
+    return db
+      .select()
+      .from(bankTransactions)
+      .where(and(...conditions))
+      .orderBy(desc(bankTransactions.transactionDate), desc(bankTransactions.id))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+  }
+
+  /**
+   * Import a bank statement, skipping lines already imported, then auto-match
+   */
+  async importStatement(tenantId: string, bankAccountId: number, content: string, options: {
+    format?: StatementFormat;
+    mapping?: CsvColumnMapping;
+    importedBy?: number | null;
+    dateWindowDays?: number;
+  } = {}) {
+    const account = await this.getBankAccount(tenantId, bankAccountId);
+    const statement = parseStatement(content, options.format, options.mapping);
+
+    if (statement.lines.length === 0) {
+      throw new ValidationError('No transactions found in the statement');
+    }
+
+    const importBatchId = `IMP-${Date.now()}`;
+    const inserted = await db
+      .insert(bankTransactions)
+      .values(statement.lines.map((line) => ({
+        bankAccountId,
+        transactionDate: line.transactionDate,
+        valueDate: line.valueDate,
+        description: line.description,
+        reference: line.reference ? line.reference.slice(0, 100) : null,
+        debitAmount: line.debit.toFixed(2),
+        creditAmount: line.credit.toFixed(2),
+        balance: line.balance === null ? null : line.balance.toFixed(2),
+        importBatchId,
+        fingerprint: line.fingerprint,
+      })))
+      .onConflictDoNothing()
+      .returning({ id: bankTransactions.id });
+
+    if (statement.closingBalance !== null) {
+      await db
+        .update(bankAccounts)
+        .set({ currentBalance: statement.closingBalance.toFixed(2) })
+        .where(eq(bankAccounts.id, account.id));
+    }
+
+    logger.info(`Imported ${inserted.length}/${statement.lines.length} ${statement.format} statement lines into bank account ${bankAccountId}`);
+
+    const matching = await this.autoReconcile(tenantId, bankAccountId, { dateWindowDays: options.dateWindowDays });
+
+    return {
+      importBatchId,
+      format: statement.format,
+      totalLines: statement.lines.length,
+      imported: inserted.length,
+      duplicates: statement.lines.length - inserted.length,
+      openingBalance: statement.openingBalance,
+      closingBalance: statement.closingBalance,
+      ...matching,
+    };
+  }
+
+  /**
+   * Match all unreconciled lines on a bank account
+   */
+  async autoReconcile(tenantId: string, bankAccountId: number, options: { dateWindowDays?: number } = {}) {
+    const account = await this.getBankAccount(tenantId, bankAccountId);
+    const windowDays = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+
+    const pending = await db
+      .select()
+      .from(bankTransactions)
+      .where(and(eq(bankTransactions.bankAccountId, bankAccountId), eq(bankTransactions.isReconciled, false)))
+      .orderBy(asc(bankTransactions.transactionDate), asc(bankTransactions.id));
+
+    if (pending.length === 0) {
+      return { autoMatched: 0, queuedForReview: 0, unmatched: 0 };
+    }
+
+    const from = shiftDate(pending[0].transactionDate, -windowDays);
+    const to = shiftDate(pending[pending.length - 1].transactionDate, windowDays);
+    const candidates = await this.loadCandidates(tenantId, account.accountId, from, to);
+    const claimed = await this.getClaimedCandidates(tenantId);
+
+    let autoMatched = 0;
+    let queuedForReview = 0;
+    let unmatched = 0;
+
+    for (const txn of pending) {
+      const credit = parseFloat(txn.creditAmount || '0');
+      const debit = parseFloat(txn.debitAmount || '0');
+      const isCredit = credit > 0;
+      const line: StatementLineForMatching = {
+        amount: isCredit ? credit : debit,
+        date: txn.transactionDate,
+        reference: txn.reference,
+        description: txn.description,
+      };
+
+      const pool = isCredit ? candidates.credits : candidates.debits;
+      const scored = pool
+        .filter((candidate) => !claimed.has(`${candidate.type}:${candidate.id}`))
+        .map((candidate) => scoreCandidate(line, candidate, windowDays))
+        .filter((candidate): candidate is ScoredCandidate => candidate !== null);
+
+      const { autoMatch, suggestions } = classifyCandidates(scored);
+
+      // Refresh suggestions; earlier rejections stay recorded
+      await db
+        .delete(bankReconciliationMatches)
+        .where(and(
+          eq(bankReconciliationMatches.bankTransactionId, txn.id),
+          eq(bankReconciliationMatches.status, MATCH_STATUS.SUGGESTED)
+        ));
+
+      if (autoMatch) {
+        await this.applyMatch(txn.id, autoMatch.type, autoMatch.id, autoMatch.score, autoMatch.reasons, null);
+        claimed.add(`${autoMatch.type}:${autoMatch.id}`);
+        autoMatched++;
+      } else if (suggestions.length > 0) {
+        await db
+          .insert(bankReconciliationMatches)
+          .values(suggestions.map((suggestion) => ({
+            bankTransactionId: txn.id,
+            matchType: suggestion.type,
+            matchId: suggestion.id,
+            score: suggestion.score,
+            reasons: suggestion.reasons,
+            status: MATCH_STATUS.SUGGESTED,
+          })))
+          .onConflictDoNothing();
+        queuedForReview++;
+      } else {
+        unmatched++;
+      }
+    }
+
+    logger.info(`Bank account ${bankAccountId} reconciliation: ${autoMatched} auto-matched, ${queuedForReview} for review, ${unmatched} unmatched`);
+    return { autoMatched, queuedForReview, unmatched };
+  }
+
+  /**
+   * Unreconciled lines that have suggested matches awaiting review
+   */
+  async getReviewQueue(tenantId: string, bankAccountId?: number) {
+    const conditions = [
+      eq(bankAccounts.tenantId, tenantId),
+      eq(bankTransactions.isReconciled, false),
+      eq(bankReconciliationMatches.status, MATCH_STATUS.SUGGESTED),
+    ];
+    if (bankAccountId) conditions.push(eq(bankTransactions.bankAccountId, bankAccountId));
+
+    const rows = await db
+      .select({
+        matchId: bankReconciliationMatches.id,
+        matchType: bankReconciliationMatches.matchType,
+        candidateId: bankReconciliationMatches.matchId,
+        score: bankReconciliationMatches.score,
+        reasons: bankReconciliationMatches.reasons,
+        transaction: bankTransactions,
+        bankAccountName: bankAccounts.accountName,
+      })
+      .from(bankReconciliationMatches)
+      .innerJoin(bankTransactions, eq(bankReconciliationMatches.bankTransactionId, bankTransactions.id))
+      .innerJoin(bankAccounts, eq(bankTransactions.bankAccountId, bankAccounts.id))
+      .where(and(...conditions))
+      .orderBy(asc(bankTransactions.transactionDate), desc(bankReconciliationMatches.score));
+
+    const queue = new Map<number, { transaction: typeof rows[number]['transaction']; bankAccountName: string; suggestions: any[] }>();
+    for (const row of rows) {
+      if (!queue.has(row.transaction.id)) {
+        queue.set(row.transaction.id, { transaction: row.transaction, bankAccountName: row.bankAccountName, suggestions: [] });
+      }
+      queue.get(row.transaction.id)!.suggestions.push({
+        matchId: row.matchId,
+        matchType: row.matchType,
+        candidateId: row.candidateId,
+        score: row.score,
+        reasons: row.reasons,
+      });
+    }
+    return Array.from(queue.values());
+  }
+
+  /**
+   * Confirm a suggested match from the review queue
+   */
+  async confirmMatch(tenantId: string, matchId: number, reviewedBy: number | null) {
+    const match = await this.getMatch(tenantId, matchId);
+    if (match.status !== MATCH_STATUS.SUGGESTED) {
+      throw new ConflictError(`Match is already ${match.status}`);
+    }
+
+    await this.ensureCandidateFree(tenantId, match.matchType, match.matchId);
+    await this.applyMatch(match.bankTransactionId, match.matchType as MatchType, match.matchId, match.score, match.reasons as string[], reviewedBy);
+    return this.getTransaction(tenantId, match.bankTransactionId);
+  }
+
+  /**
+   * Reject a suggested match
+   */
+  async rejectMatch(tenantId: string, matchId: number, reviewedBy: number | null) {
+    const match = await this.getMatch(tenantId, matchId);
+    if (match.status !== MATCH_STATUS.SUGGESTED) {
+      throw new ConflictError(`Match is already ${match.status}`);
+    }
+
+    await db
+      .update(bankReconciliationMatches)
+      .set({ status: MATCH_STATUS.REJECTED, reviewedBy, reviewedAt: new Date() })
+      .where(eq(bankReconciliationMatches.id, matchId));
+  }
+
+  /**
+   * Reconcile a line against a record the matcher did not suggest
+   */
+  async reconcileManually(tenantId: string, bankTransactionId: number, matchType: MatchType, candidateId: number, reviewedBy: number | null) {
+    if (!Object.values(MATCH_TYPES).includes(matchType)) {
+      throw new ValidationError(`matchType must be one of: ${Object.values(MATCH_TYPES).join(', ')}`);
+    }
+    const txn = await this.getTransaction(tenantId, bankTransactionId);
+    if (txn.isReconciled) {
+      throw new ConflictError('Bank transaction is already reconciled');
+    }
+
+    await this.ensureCandidateFree(tenantId, matchType, candidateId);
+    await this.applyMatch(bankTransactionId, matchType, candidateId, 100, ['manual'], reviewedBy);
+    return this.getTransaction(tenantId, bankTransactionId);
+  }
+
+  /**
+   * Undo a reconciliation so the line can be matched again
+   */
+  async unreconcile(tenantId: string, bankTransactionId: number) {
+    const txn = await this.getTransaction(tenantId, bankTransactionId);
+    if (!txn.isReconciled) {
+      throw new ConflictError('Bank transaction is not reconciled');
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(bankTransactions)
+        .set({ isReconciled: false, reconciledWithType: null, reconciledWithId: null, reconciledAt: null, reconciledBy: null })
+        .where(eq(bankTransactions.id, bankTransactionId));
+      await tx
+        .delete(bankReconciliationMatches)
+        .where(and(
+          eq(bankReconciliationMatches.bankTransactionId, bankTransactionId),
+          eq(bankReconciliationMatches.status, MATCH_STATUS.CONFIRMED)
+        ));
+    });
+  }
+
+  /**
+   * Bank reconciliation statement as of a date: statement vs book balance,
+   * with the unreconciled items on each side that explain the difference.
+   */
+  async getReconciliationReport(tenantId: string, bankAccountId: number, asOf?: string) {
+    const account = await this.getBankAccount(tenantId, bankAccountId);
+    const reportDate = asOf || toDateString(undefined);
+
+    const [lastLine] = await db
+      .select({ balance: bankTransactions.balance })
+      .from(bankTransactions)
+      .where(and(
+        eq(bankTransactions.bankAccountId, bankAccountId),
+        lte(bankTransactions.transactionDate, reportDate),
+        sql`${bankTransactions.balance} IS NOT NULL`
+      ))
+      .orderBy(desc(bankTransactions.transactionDate), desc(bankTransactions.id))
+      .limit(1);
+
+    const [totals] = await db
+      .select({
+        credits: sql<string>`COALESCE(SUM(${bankTransactions.creditAmount}), 0)`,
+        debits: sql<string>`COALESCE(SUM(${bankTransactions.debitAmount}), 0)`,
+        reconciled: sql<number>`COUNT(*) FILTER (WHERE ${bankTransactions.isReconciled} = true)`,
+        total: sql<number>`COUNT(*)`,
+      })
+      .from(bankTransactions)
+      .where(and(eq(bankTransactions.bankAccountId, bankAccountId), lte(bankTransactions.transactionDate, reportDate)));
+
+    const statementBalance = lastLine?.balance !== undefined && lastLine?.balance !== null
+      ? parseFloat(lastLine.balance)
+      : (toPaise(account.openingBalance) + toPaise(totals?.credits) - toPaise(totals?.debits)) / 100;
+
+    const unreconciled = await db
+      .select()
+      .from(bankTransactions)
+      .where(and(
+        eq(bankTransactions.bankAccountId, bankAccountId),
+        eq(bankTransactions.isReconciled, false),
+        lte(bankTransactions.transactionDate, reportDate)
+      ))
+      .orderBy(asc(bankTransactions.transactionDate));
+
+    const unreconciledCredits = unreconciled.filter((txn) => parseFloat(txn.creditAmount || '0') > 0);
+    const unreconciledDebits = unreconciled.filter((txn) => parseFloat(txn.debitAmount || '0') > 0);
+
+    let bookBalance: number | null = null;
+    let uncleared: Array<{ entryId: number; entryNumber: string; entryDate: string; description: string | null; debit: number; credit: number }> = [];
+
+    if (account.accountId) {
+      const ledger = await ledgerService.getAccountLedger(tenantId, account.accountId, { to: reportDate });
+      bookBalance = ledger.closingBalance;
+
+      const matched = await db
+        .select({ type: bankTransactions.reconciledWithType, id: bankTransactions.reconciledWithId })
+        .from(bankTransactions)
+        .where(and(eq(bankTransactions.bankAccountId, bankAccountId), eq(bankTransactions.isReconciled, true)));
+
+      const matchedEntryIds = new Set(
+        matched.filter((row) => row.type === MATCH_TYPES.JOURNAL).map((row) => row.id)
+      );
+
+      // Settlement postings clear when their settlement is matched
+      const settlementIds = matched
+        .filter((row) => row.type === MATCH_TYPES.SETTLEMENT && row.id !== null)
+        .map((row) => row.id as number);
+      if (settlementIds.length > 0) {
+        const settlementEntries = await db
+          .select({ id: journalEntries.id })
+          .from(journalEntries)
+          .where(and(
+            eq(journalEntries.tenantId, tenantId),
+            eq(journalEntries.referenceType, MATCH_TYPES.SETTLEMENT),
+            inArray(journalEntries.referenceId, settlementIds)
+          ));
+        settlementEntries.forEach((entry) => matchedEntryIds.add(entry.id));
+      }
+
+      uncleared = ledger.entries
+        .filter((entry) => !matchedEntryIds.has(entry.entryId))
+        .map((entry) => ({
+          entryId: entry.entryId,
+          entryNumber: entry.entryNumber,
+          entryDate: entry.entryDate,
+          description: entry.description,
+          debit: parseFloat(entry.debit || '0'),
+          credit: parseFloat(entry.credit || '0'),
+        }));
+    }
+
+    const sum = (values: number[]) => values.reduce((acc, value) => acc + toPaise(value), 0) / 100;
+
+    return {
+      bankAccount: { id: account.id, accountName: account.accountName, bankName: account.bankName, accountNumber: account.accountNumber },
+      asOf: reportDate,
+      statementBalance,
+      bookBalance,
+      difference: bookBalance === null ? null : (toPaise(statementBalance) - toPaise(bookBalance)) / 100,
+      transactionCount: Number(totals?.total || 0),
+      reconciledCount: Number(totals?.reconciled || 0),
+      unreconciledCredits: {
+        total: sum(unreconciledCredits.map((txn) => parseFloat(txn.creditAmount || '0'))),
+        items: unreconciledCredits,
+      },
+      unreconciledDebits: {
+        total: sum(unreconciledDebits.map((txn) => parseFloat(txn.debitAmount || '0'))),
+        items: unreconciledDebits,
+      },
+      unclearedBookEntries: {
+        totalDebit: sum(uncleared.map((entry) => entry.debit)),
+        totalCredit: sum(uncleared.map((entry) => entry.credit)),
+        items: uncleared,
+      },
+    };
+  }
+
+  /**
+   * Record a gateway settlement and post it to the ledger (idempotent)
+   */
+  async recordSettlement(settlement: {
+    provider?: string;
+    settlementId: string;
+    utr?: string | null;
+    amount: number;
+    fees?: number;
+    tax?: number;
+    status?: string;
+    settledAt: Date;
+    payload?: unknown;
+  }) {
+    const provider = settlement.provider || 'razorpay';
+    await db
+      .insert(gatewaySettlements)
+      .values({
+        provider,
+        settlementId: settlement.settlementId,
+        utr: settlement.utr ?? null,
+        amount: settlement.amount.toFixed(2),
+        fees: (settlement.fees ?? 0).toFixed(2),
+        tax: (settlement.tax ?? 0).toFixed(2),
+        status: settlement.status || 'processed',
+        settledAt: settlement.settledAt,
+        payload: settlement.payload as Record<string, unknown>,
+      })
+      .onConflictDoNothing();
+
+    const [record] = await db
+      .select()
+      .from(gatewaySettlements)
+      .where(and(eq(gatewaySettlements.provider, provider), eq(gatewaySettlements.settlementId, settlement.settlementId)))
+      .limit(1);
+
+    try {
+      await ledgerService.postGatewaySettlement({
+        id: record.id,
+        settlementId: record.settlementId,
+        utr: record.utr,
+        amount: parseFloat(record.amount),
+        fees: parseFloat(record.fees || '0'),
+        tax: parseFloat(record.tax || '0'),
+        settledAt: record.settledAt,
+      });
+    } catch (error) {
+      logger.error(`Failed to post settlement ${record.settlementId} to ledger:`, error);
+    }
+
+    return record;
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  private async getBankAccount(tenantId: string, bankAccountId: number) {
+    const [account] = await db
+      .select()
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.id, bankAccountId), eq(bankAccounts.tenantId, tenantId)))
+      .limit(1);
+    if (!account) throw new NotFoundError('Bank account');
+    return account;
+  }
+
+  private async getTransaction(tenantId: string, bankTransactionId: number) {
+    const [row] = await db
+      .select({ transaction: bankTransactions })
+      .from(bankTransactions)
+      .innerJoin(bankAccounts, eq(bankTransactions.bankAccountId, bankAccounts.id))
+      .where(and(eq(bankTransactions.id, bankTransactionId), eq(bankAccounts.tenantId, tenantId)))
+      .limit(1);
+    if (!row) throw new NotFoundError('Bank transaction');
+    return row.transaction;
+  }
+
+  private async getMatch(tenantId: string, matchId: number) {
+    const [row] = await db
+      .select({ match: bankReconciliationMatches })
+      .from(bankReconciliationMatches)
+      .innerJoin(bankTransactions, eq(bankReconciliationMatches.bankTransactionId, bankTransactions.id))
+      .innerJoin(bankAccounts, eq(bankTransactions.bankAccountId, bankAccounts.id))
+      .where(and(eq(bankReconciliationMatches.id, matchId), eq(bankAccounts.tenantId, tenantId)))
+      .limit(1);
+    if (!row) throw new NotFoundError('Reconciliation match');
+    return row.match;
+  }
+
+  /**
+   * Candidates already reconciled to some bank line in this tenant
+   */
+  private async getClaimedCandidates(tenantId: string): Promise<Set<string>> {
+    const rows = await db
+      .select({ type: bankTransactions.reconciledWithType, id: bankTransactions.reconciledWithId })
+      .from(bankTransactions)
+      .innerJoin(bankAccounts, eq(bankTransactions.bankAccountId, bankAccounts.id))
+      .where(and(eq(bankAccounts.tenantId, tenantId), eq(bankTransactions.isReconciled, true)));
+    return new Set(rows.map((row) => `${row.type}:${row.id}`));
+  }
+
+  private async ensureCandidateFree(tenantId: string, matchType: string, candidateId: number) {
+    const claimed = await this.getClaimedCandidates(tenantId);
+    if (claimed.has(`${matchType}:${candidateId}`)) {
+      throw new ConflictError(`${matchType} ${candidateId} is already reconciled to another bank transaction`);
+    }
+  }
+
+  private async applyMatch(
+    bankTransactionId: number,
+    matchType: MatchType,
+    candidateId: number,
+    score: number,
+    reasons: string[],
+    reviewedBy: number | null
+  ) {
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(bankTransactions)
+        .set({
+          isReconciled: true,
+          reconciledWithType: matchType,
+          reconciledWithId: candidateId,
+          reconciledAt: now,
+          reconciledBy: reviewedBy,
+        })
+        .where(and(eq(bankTransactions.id, bankTransactionId), eq(bankTransactions.isReconciled, false)))
+        .returning({ id: bankTransactions.id });
+
+      if (!updated) {
+        throw new ConflictError('Bank transaction is already reconciled');
+      }
+
+      await tx
+        .insert(bankReconciliationMatches)
+        .values({
+          bankTransactionId,
+          matchType,
+          matchId: candidateId,
+          score,
+          reasons,
+          status: MATCH_STATUS.CONFIRMED,
+          reviewedBy,
+          reviewedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: [bankReconciliationMatches.bankTransactionId, bankReconciliationMatches.matchType, bankReconciliationMatches.matchId],
+          set: { status: MATCH_STATUS.CONFIRMED, reviewedBy, reviewedAt: now },
+        });
+
+      // Remaining suggestions for this line are superseded
+      await tx
+        .update(bankReconciliationMatches)
+        .set({ status: MATCH_STATUS.REJECTED, reviewedBy, reviewedAt: now })
+        .where(and(
+          eq(bankReconciliationMatches.bankTransactionId, bankTransactionId),
+          eq(bankReconciliationMatches.status, MATCH_STATUS.SUGGESTED)
+        ));
+    });
+  }
+
+  /**
+   * Load matchable records in the date range. Credits on the statement match
+   * money in (payments, settlements, ledger debits to the bank account); debits
+   * match ledger credits to the bank account.
+   */
+  private async loadCandidates(tenantId: string, ledgerAccountId: number | null, from: string, to: string) {
+    const credits: MatchCandidate[] = [];
+    const debits: MatchCandidate[] = [];
+
+    const completedPayments = await db
+      .select()
+      .from(payments)
+      .where(and(
+        eq(payments.status, 'completed'),
+        gte(payments.completedAt, new Date(`${from}T00:00:00Z`)),
+        lte(payments.completedAt, new Date(`${to}T23:59:59Z`))
+      ));
+    for (const payment of completedPayments) {
+      credits.push({
+        type: MATCH_TYPES.PAYMENT,
+        id: payment.id,
+        amount: parseFloat(payment.amount),
+        date: toDateString(payment.completedAt),
+        reference: payment.transactionId || payment.paymentId,
+        label: `Payment ${payment.paymentId}`,
+      });
+    }
+
+    const settlements = await db
+      .select()
+      .from(gatewaySettlements)
+      .where(and(
+        gte(gatewaySettlements.settledAt, new Date(`${from}T00:00:00Z`)),
+        lte(gatewaySettlements.settledAt, new Date(`${to}T23:59:59Z`))
+      ));
+    for (const settlement of settlements) {
+      credits.push({
+        type: MATCH_TYPES.SETTLEMENT,
+        id: settlement.id,
+        amount: parseFloat(settlement.amount),
+        date: toDateString(settlement.settledAt),
+        reference: settlement.utr || settlement.settlementId,
+        label: `${settlement.provider} settlement ${settlement.settlementId}`,
+      });
+    }
+
+    if (ledgerAccountId) {
+      const lines = await db
+        .select({
+          entryId: journalEntries.id,
+          entryNumber: journalEntries.entryNumber,
+          entryDate: journalEntries.entryDate,
+          description: journalEntries.description,
+          narration: journalEntryLines.narration,
+          debit: journalEntryLines.baseDebitAmount,
+          credit: journalEntryLines.baseCreditAmount,
+        })
+        .from(journalEntryLines)
+        .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+        .where(and(
+          eq(journalEntries.tenantId, tenantId),
+          eq(journalEntryLines.accountId, ledgerAccountId),
+          eq(journalEntries.status, JOURNAL_STATUS.POSTED),
+          isNull(journalEntries.reversalOfId),
+          // Settlement postings are matched through the settlement itself
+          sql`COALESCE(${journalEntries.referenceType}, '') <> ${MATCH_TYPES.SETTLEMENT}`,
+          gte(journalEntries.entryDate, from),
+          lte(journalEntries.entryDate, to)
+        ));
+
+      for (const line of lines) {
+        const debit = parseFloat(line.debit || '0');
+        const credit = parseFloat(line.credit || '0');
+        const candidate = {
+          type: MATCH_TYPES.JOURNAL,
+          id: line.entryId,
+          date: line.entryDate,
+          reference: line.narration || line.entryNumber,
+          label: `${line.entryNumber} ${line.description || ''}`.trim(),
+        };
+        // A debit to the bank ledger is money in, seen as a credit on the statement
+        if (debit > 0) credits.push({ ...candidate, amount: debit });
+        if (credit > 0) debits.push({ ...candidate, amount: credit });
+      }
+    }
+
+    return { credits, debits };
+  }
+}
+
+export const bankReconciliationService = new BankReconciliationService();
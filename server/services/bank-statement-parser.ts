@@ -0,0 +1,444 @@
+/**
+ * Bank Statement Parser
+ *
+ * Normalises bank statements into a common line format:
+ * - CSV exports from Indian banks (header row auto-detected)
+ * - SWIFT MT940
+ * - ISO 20022 CAMT.053
+ */
+import crypto from 'crypto';
+import { parse } from 'csv-parse/sync';
+import { ValidationError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StatementFormat = 'csv' | 'mt940' | 'camt053';
+
+export interface ParsedStatementLine {
+  transactionDate: string; // YYYY-MM-DD
+  valueDate: string | null;
+  description: string;
+  reference: string | null;
+  debit: number;
+  credit: number;
+  balance: number | null;
+  fingerprint: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lines: ParsedStatementLine[];
+}
+
+/** Optional explicit CSV column names, overriding header detection */
+export interface CsvColumnMapping {
+  date?: string;
+  valueDate?: string;
+  description?: string;
+  reference?: string;
+  debit?: string;
+  credit?: string;
+  amount?: string;
+  type?: string;
+  balance?: string;
+}
+
+type RawLine = Omit<ParsedStatementLine, 'fingerprint'>;
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12',
+};
+
+// ============================================================================
+// VALUE HELPERS
+// ============================================================================
+
+/**
+ * Parse a statement date. Day-first formats are assumed for slashed dates,
+ * as issued by Indian banks.
+ */
+export function parseStatementDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+
+  match = text.match(/^(\d{1,2})[\s\-\/]([A-Za-z]{3})[A-Za-z]*[\s\-\/,]+(\d{2}|\d{4})$/);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${MONTHS[match[2].toLowerCase()]}-${match[1].padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+/** Parse an amount such as "1,23,456.78", "₹ 500" or "(250.00)" */
+export function parseStatementAmount(value: string | number | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'number') return value;
+  const text = value.trim();
+  if (!text) return 0;
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const numeric = parseFloat(text.replace(/[^0-9.]/g, ''));
+  if (isNaN(numeric)) return 0;
+  return negative ? -numeric : numeric;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Attach a stable fingerprint to each line. Identical lines within one file
+ * (same day, amount and narration with no running balance) are disambiguated
+ * by their occurrence order.
+ */
+function withFingerprints(lines: RawLine[]): ParsedStatementLine[] {
+  const occurrences = new Map<string, number>();
+  return lines.map((line) => {
+    const key = [
+      line.transactionDate,
+      line.debit.toFixed(2),
+      line.credit.toFixed(2),
+      (line.reference || '').toUpperCase(),
+      line.description.replace(/\s+/g, ' ').toUpperCase(),
+      line.balance === null ? '' : line.balance.toFixed(2),
+    ].join('|');
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+    const fingerprint = crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex');
+    return { ...line, fingerprint };
+  });
+}
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Guess the statement format from its content
+ */
+export function detectStatementFormat(content: string): StatementFormat {
+  if (/<(\w+:)?BkToCstmrStmt\b/.test(content) || /camt\.053/.test(content)) return 'camt053';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'mt940';
+  return 'csv';
+}
+
+/**
+ * Parse a statement in the given (or detected) format
+ */
+export function parseStatement(content: string, format?: StatementFormat, mapping?: CsvColumnMapping): ParsedStatement {
+  const resolved = format || detectStatementFormat(content);
+  switch (resolved) {
+    case 'mt940':
+      return parseMt940(content);
+    case 'camt053':
+      return parseCamt053(content);
+    case 'csv':
+      return parseCsvStatement(content, mapping);
+    default:
+      throw new ValidationError(`Unsupported statement format: ${resolved}`);
+  }
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const CSV_HEADER_PATTERNS: Record<keyof CsvColumnMapping, RegExp> = {
+  valueDate: /^value\s*d(a)?t(e)?$/i,
+  date: /^((txn|tran|transaction|posting|book(ing)?)\.?\s*)?date$|^date$/i,
+  description: /description|narration|particulars|remarks|details/i,
+  reference: /ref|cheque|chq|utr|instrument/i,
+  debit: /debit|withdrawal|^dr\.?$|paid\s*out/i,
+  credit: /credit|deposit|^cr\.?$|paid\s*in/i,
+  amount: /^(txn\s*|transaction\s*)?amount/i,
+  type: /^(type|dr\s*\/\s*cr|cr\s*\/\s*dr|debit\s*\/\s*credit)$/i,
+  balance: /balance/i,
+};
+
+function detectCsvColumns(header: string[]): Record<string, number> {
+  const columns: Record<string, number> = {};
+  header.forEach((name, index) => {
+    const label = name.trim();
+    for (const [field, pattern] of Object.entries(CSV_HEADER_PATTERNS)) {
+      if (columns[field] !== undefined) continue;
+      // "Value Date" must not be taken as the transaction date
+      if (field === 'date' && CSV_HEADER_PATTERNS.valueDate.test(label)) continue;
+      if (field === 'type' && columns.debit !== undefined) continue;
+      if (pattern.test(label)) {
+        columns[field] = index;
+        break;
+      }
+    }
+  });
+  return columns;
+}
+
+/**
+ * Parse a CSV statement. Bank exports often carry a preamble (account
+ * details) above the header, so the first row naming a date column and an
+ * amount column is taken as the header.
+ */
+export function parseCsvStatement(content: string, mapping?: CsvColumnMapping): ParsedStatement {
+  const rows: string[][] = parse(content, {
+    relax_column_count: true,
+    skip_empty_lines: true,
+    trim: true,
+    bom: true,
+  });
+
+  let headerIndex = -1;
+  let columns: Record<string, number> = {};
+
+  for (let i = 0; i < Math.min(rows.length, 30); i++) {
+    const header = rows[i];
+    if (mapping) {
+      const mapped: Record<string, number> = {};
+      for (const [field, name] of Object.entries(mapping)) {
+        const index = header.findIndex((cell) => cell.trim().toLowerCase() === String(name).trim().toLowerCase());
+        if (index >= 0) mapped[field] = index;
+      }
+      if (mapped.date !== undefined) {
+        headerIndex = i;
+        columns = mapped;
+        break;
+      }
+      continue;
+    }
+
+    const detected = detectCsvColumns(header);
+    const hasAmounts = detected.amount !== undefined || (detected.debit !== undefined && detected.credit !== undefined);
+    if (detected.date !== undefined && hasAmounts) {
+      headerIndex = i;
+      columns = detected;
+      break;
+    }
+  }
+
+  if (headerIndex < 0) {
+    throw new ValidationError('Could not find a header row with date and amount columns in the CSV statement');
+  }
+
+  const lines: RawLine[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const cell = (field: string) => (columns[field] !== undefined ? row[columns[field]] ?? '' : '');
+    const transactionDate = parseStatementDate(cell('date'));
+    // Footer rows (totals, "*** End of statement ***") have no parseable date
+    if (!transactionDate) continue;
+
+    let debit = 0;
+    let credit = 0;
+    if (columns.debit !== undefined || columns.credit !== undefined) {
+      debit = Math.abs(parseStatementAmount(cell('debit')));
+      credit = Math.abs(parseStatementAmount(cell('credit')));
+    } else {
+      const amount = parseStatementAmount(cell('amount'));
+      const type = cell('type').trim().toUpperCase();
+      const isDebit = type ? /^(D|DR|DEBIT|W)/.test(type) : amount < 0;
+      if (isDebit) debit = Math.abs(amount);
+      else credit = Math.abs(amount);
+    }
+    if (debit === 0 && credit === 0) continue;
+
+    const balanceText = cell('balance');
+    lines.push({
+      transactionDate,
+      valueDate: parseStatementDate(cell('valueDate')),
+      description: cell('description'),
+      reference: cell('reference') || null,
+      debit: round2(debit),
+      credit: round2(credit),
+      balance: balanceText ? round2(parseStatementAmount(balanceText.replace(/\s*(cr|dr)\.?$/i, ''))) : null,
+    });
+  }
+
+  const first = lines[0];
+  return {
+    format: 'csv',
+    openingBalance: first && first.balance !== null ? round2(first.balance - first.credit + first.debit) : null,
+    closingBalance: lines.length > 0 ? lines[lines.length - 1].balance : null,
+    lines: withFingerprints(lines),
+  };
+}
+
+// ============================================================================
+// MT940
+// ============================================================================
+
+function mt940Amount(value: string): number {
+  return parseFloat(value.replace(',', '.')) || 0;
+}
+
+function mt940Balance(field: string): number | null {
+  // e.g. C240131INR123456,78
+  const match = field.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+  const amount = mt940Amount(match[4]);
+  return match[1] === 'D' ? -amount : amount;
+}
+
+/**
+ * Parse a SWIFT MT940 customer statement
+ */
+export function parseMt940(content: string): ParsedStatement {
+  // Split into tagged fields, joining continuation lines
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const rawLine of content.replace(/\r/g, '').split('\n')) {
+    const tagged = rawLine.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) {
+      fields.push({ tag: tagged[1], value: tagged[2] });
+    } else if (fields.length > 0 && rawLine.trim() && !rawLine.startsWith('-}') && rawLine.trim() !== '-') {
+      fields[fields.length - 1].value += `\n${rawLine}`;
+    }
+  }
+
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  let running: number | null = null;
+  const lines: RawLine[] = [];
+
+  for (const field of fields) {
+    if (field.tag === '60F' || field.tag === '60M') {
+      const balance = mt940Balance(field.value);
+      if (openingBalance === null) openingBalance = balance;
+      running = balance;
+    } else if (field.tag === '62F' || field.tag === '62M') {
+      closingBalance = mt940Balance(field.value);
+    } else if (field.tag === '61') {
+      const [statementLine, supplementary] = field.value.split('\n');
+      const match = statementLine.match(/^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])([A-Z])?([\d,]+)([A-Z]\w{3})?([^/]*)(?:\/\/(.*))?$/);
+      if (!match) continue;
+
+      const year = `20${match[1]}`;
+      const valueDate = `${year}-${match[2]}-${match[3]}`;
+      let transactionDate = valueDate;
+      if (match[4]) {
+        const entryMonth = match[4].slice(0, 2);
+        // Entry date in January for a December value date belongs to the next year
+        const entryYear = entryMonth === '01' && match[2] === '12' ? String(parseInt(year) + 1) : year;
+        transactionDate = `${entryYear}-${entryMonth}-${match[4].slice(2)}`;
+      }
+
+      const mark = match[5];
+      const amount = mt940Amount(match[7]);
+      const isDebit = mark === 'D' || mark === 'RC';
+      const customerRef = (match[9] || '').trim();
+      const bankRef = (match[10] || '').trim();
+
+      if (running !== null) running = round2(running + (isDebit ? -amount : amount));
+
+      lines.push({
+        transactionDate,
+        valueDate,
+        description: (supplementary || '').trim(),
+        reference: (customerRef && customerRef !== 'NONREF' ? customerRef : bankRef) || null,
+        debit: isDebit ? round2(amount) : 0,
+        credit: isDebit ? 0 : round2(amount),
+        balance: running,
+      });
+    } else if (field.tag === '86' && lines.length > 0) {
+      const last = lines[lines.length - 1];
+      const narrative = field.value.replace(/\n/g, ' ').trim();
+      last.description = last.description ? `${last.description} ${narrative}` : narrative;
+    }
+  }
+
+  return { format: 'mt940', openingBalance, closingBalance, lines: withFingerprints(lines) };
+}
+
+// ============================================================================
+// CAMT.053
+// ============================================================================
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  const blocks: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) blocks.push(match[1]);
+  return blocks;
+}
+
+function xmlValue(xml: string, ...path: string[]): string | null {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    current = xmlBlocks(current, tag)[0];
+    if (current === undefined) return null;
+  }
+  return decodeXml(current);
+}
+
+/**
+ * Parse an ISO 20022 CAMT.053 bank-to-customer statement
+ */
+export function parseCamt053(content: string): ParsedStatement {
+  const statement = xmlBlocks(content, 'Stmt')[0];
+  if (!statement) {
+    throw new ValidationError('No <Stmt> element found in CAMT.053 statement');
+  }
+
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  for (const bal of xmlBlocks(statement, 'Bal')) {
+    const code = xmlValue(bal, 'Tp', 'CdOrPrtry', 'Cd');
+    const amount = parseStatementAmount(xmlValue(bal, 'Amt'));
+    const signed = xmlValue(bal, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+    if (code === 'OPBD' || code === 'PRCD') openingBalance = signed;
+    if (code === 'CLBD') closingBalance = signed;
+  }
+
+  let running = openingBalance;
+  const lines: RawLine[] = [];
+
+  for (const entry of xmlBlocks(statement, 'Ntry')) {
+    const amount = parseStatementAmount(xmlValue(entry, 'Amt'));
+    const isDebit = xmlValue(entry, 'CdtDbtInd') === 'DBIT';
+    const bookingDate = xmlValue(entry, 'BookgDt', 'Dt') || xmlValue(entry, 'BookgDt', 'DtTm');
+    const valueDate = xmlValue(entry, 'ValDt', 'Dt') || xmlValue(entry, 'ValDt', 'DtTm');
+    const transactionDate = parseStatementDate(bookingDate || valueDate);
+    if (!transactionDate) continue;
+
+    const reference = xmlValue(entry, 'AcctSvcrRef')
+      || xmlValue(entry, 'NtryDtls', 'TxDtls', 'Refs', 'EndToEndId')
+      || xmlValue(entry, 'NtryRef');
+    const remittance = xmlBlocks(entry, 'Ustrd').map(decodeXml).join(' ');
+    const description = [xmlValue(entry, 'AddtlNtryInf'), remittance].filter(Boolean).join(' ').trim();
+
+    if (running !== null) running = round2(running + (isDebit ? -amount : amount));
+
+    lines.push({
+      transactionDate,
+      valueDate: parseStatementDate(valueDate),
+      description,
+      reference: reference && reference !== 'NOTPROVIDED' ? reference : null,
+      debit: isDebit ? round2(amount) : 0,
+      credit: isDebit ? 0 : round2(amount),
+      balance: running,
+    });
+  }
+
+  return { format: 'camt053', openingBalance, closingBalance, lines: withFingerprints(lines) };
+}
@@ -5,10 +5,12 @@
  */
 import { db } from '../db';
 import { eq, and, desc, gte, lte, isNull, or, sql } from 'drizzle-orm';
-import { commissionRules, commissionPayouts, PAYOUT_STATUS } from '@shared/super-admin-schema';
+import { commissionRules, commissionPayouts, PAYOUT_STATUS, type CommissionPayout } from '@shared/super-admin-schema';
 import { users, serviceRequests, salesProposals } from '@shared/schema';
 import { agents } from '@shared/universal-schema';
 import { walletService } from './wallet-service';
+import { ledgerService } from './ledger-service';
+import { commissionTaxService } from './commission-tax-service';
 import { logger } from '../logger';
 
 // Types
@@ -343,6 +345,13 @@ class CommissionService {
     // Calculate commission
     const calculation = await this.calculateCommission(agentId, totalSales);
 
+    // TDS u/s 194H and GST on commission, credited at the end of the period
+    const { tax, columns } = await commissionTaxService.assess(
+      agentId,
+      { commission: calculation.baseCommission, bonus: calculation.volumeBonus },
+      periodEnd
+    );
+
     // Create payout record
     const [payout] = await db
       .insert(commissionPayouts)
@@ -353,20 +362,40 @@ class CommissionService {
         totalSales: totalSales.toString(),
         commissionAmount: calculation.baseCommission.toString(),
         bonusAmount: calculation.volumeBonus.toString(),
-        deductions: '0',
-        netAmount: calculation.totalCommission.toString(),
+        ...columns,
         status: PAYOUT_STATUS.PENDING,
       })
       .returning();
 
-    logger.info(`Generated payout for agent ${agentId}: Rs ${calculation.totalCommission}`);
+    logger.info(`Generated payout for agent ${agentId}: Rs ${calculation.totalCommission} gross, TDS Rs ${tax.tdsAmount}, net Rs ${tax.netAmount}`);
+
+    if (calculation.totalCommission > 0) {
+      await this.recordPayoutTax(payout);
+    }
 
     return {
       payoutId: payout.id,
-      amount: calculation.totalCommission,
+      amount: tax.netAmount,
     };
   }
 
+  /**
+   * Accrue a payout in the general ledger and record its TDS / GST in the
+   * tax ledger. Both are idempotent.
+   */
+  async recordPayoutTax(payout: CommissionPayout): Promise<void> {
+    try {
+      await ledgerService.postCommissionAccrual(commissionTaxService.accrualFor(payout));
+    } catch (error) {
+      logger.error(`Failed to post commission accrual for payout ${payout.id} to ledger:`, error);
+    }
+    try {
+      await commissionTaxService.recordTaxRows(payout);
+    } catch (error) {
+      logger.error(`Failed to record TDS/GST for payout ${payout.id} in tax ledger:`, error);
+    }
+  }
+
   /**
    * Process approved payout via wallet credit
    */
@@ -419,6 +448,20 @@ class CommissionService {
 
       logger.info(`Processed payout ${payoutId}: Rs ${amount} credited to agent ${payout.agentId}`);
 
+      // Idempotent; this covers payouts generated before the ledgers existed
+      await this.recordPayoutTax(payout);
+
+      try {
+        await ledgerService.postCommissionSettlement({
+          id: payout.id,
+          agentId: payout.agentId,
+          amount,
+          paymentReference: `WALLET-${walletResult.transactionId}`,
+        });
+      } catch (error) {
+        logger.error(`Failed to post commission settlement for payout ${payoutId} to ledger:`, error);
+      }
+
       return {
         success: true,
         payoutId,
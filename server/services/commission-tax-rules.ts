@@ -0,0 +1,471 @@
+/**
+ * Commission Tax Rules
+ *
+ * Statutory deductions on agent commission payouts, kept free of database
+ * access so a payout's tax can be recomputed and tested from its inputs alone:
+ *
+ * - TDS under section 194H: 5% on amounts credited before 1 Oct 2024, 2% from
+ *   then on, and 20% (section 206AA) when the agent has not furnished a PAN.
+ *   Nothing is deducted until the agent's commission for the financial year
+ *   crosses the threshold (₹15,000, ₹20,000 from FY 2025-26); the payout that
+ *   crosses it also carries the TDS on everything credited earlier in the year.
+ * - GST on commission (18%, split CGST/SGST or IGST by the agent's state):
+ *   a registered agent on forward charge invoices us and is paid the tax; under
+ *   reverse charge we self-assess it and the agent is paid commission only.
+ *   TDS is always worked out on the commission excluding GST.
+ * - Form 26Q deductee records and Form 16A certificate data from the
+ *   deductions recorded in the tax ledger.
+ */
+import { splitGst, type SupplyType } from './gst-return-builder';
+import { toPaise } from './ledger-service';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TDS_SECTION_COMMISSION = '194H';
+
+/** Rate when the deductee has no valid PAN on record (section 206AA) */
+export const NO_PAN_TDS_RATE = 20;
+
+/** Section 194H rate by the date the commission is credited, newest first */
+const COMMISSION_TDS_RATES: Array<{ from: string; rate: number }> = [
+  { from: '2024-10-01', rate: 2 },
+  { from: '0000-01-01', rate: 5 },
+];
+
+/** Section 194H annual threshold by the first year of the financial year, newest first */
+const COMMISSION_TDS_THRESHOLDS: Array<{ fromFy: number; amount: number }> = [
+  { fromFy: 2025, amount: 20000 },
+  { fromFy: 0, amount: 15000 },
+];
+
+export const COMMISSION_GST_RATE = 18;
+
+/** SAC for services of commission agents */
+export const COMMISSION_SAC = '996111';
+
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+/** What Form 26Q expects in place of a deductee PAN that was not furnished */
+export const PAN_NOT_AVAILABLE = 'PANNOTAVBL';
+
+/**
+ * Form 26Q reason codes for a deductee record
+ * - C: deducted at the higher rate because the PAN was not furnished
+ * - Y: not deducted because the year's total is still below the threshold
+ */
+export const TDS_REASON_CODES = {
+  NO_PAN: 'C',
+  BELOW_THRESHOLD: 'Y',
+} as const;
+
+export type TdsReasonCode = typeof TDS_REASON_CODES[keyof typeof TDS_REASON_CODES];
+
+export type GstTreatment = 'unregistered' | 'forward_charge' | 'reverse_charge';
+
+export const GST_TREATMENTS: GstTreatment[] = ['unregistered', 'forward_charge', 'reverse_charge'];
+
+export type TdsQuarter = 1 | 2 | 3 | 4;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CommissionTaxInput {
+  commission: number;
+  bonus: number;
+  otherDeductions?: number;
+  creditedOn: Date;
+  pan: string | null;
+  gstTreatment: GstTreatment;
+  agentStateCode: string | null; // from the agent's GSTIN
+  ourStateCode: string | null;
+  /** Commission (excluding GST) credited to the agent earlier in the same financial year */
+  fyCreditedBefore: number;
+  /** Part of fyCreditedBefore that TDS has already been worked out on */
+  fyTaxedBefore: number;
+}
+
+export interface CommissionGst {
+  treatment: GstTreatment;
+  rate: number;
+  taxableValue: number;
+  supplyType: SupplyType | null;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  /** True when the agent is paid the GST (forward charge) */
+  payableToAgent: boolean;
+}
+
+export interface CommissionTaxResult {
+  financialYear: string;
+  section: string;
+  gross: number; // commission + bonus, excluding GST
+  panAvailable: boolean;
+  threshold: number;
+  fyCreditedTotal: number; // including this payout
+  tdsRate: number;
+  tdsBase: number; // this payout plus any earlier untaxed amount once the threshold is crossed
+  tdsAmount: number;
+  reasonCode: TdsReasonCode | null;
+  gst: CommissionGst;
+  otherDeductions: number;
+  totalDeductions: number; // TDS + other deductions
+  netAmount: number; // what the agent is paid
+  depositDueDate: string;
+}
+
+/** One TDS deduction as recorded in the tax ledger */
+export interface TdsDeduction {
+  referenceId: number;
+  deducteeName: string | null;
+  pan: string | null;
+  section: string;
+  creditedOn: string; // YYYY-MM-DD
+  amountCredited: number;
+  tdsRate: number;
+  tdsAmount: number;
+}
+
+export interface DeductorProfile {
+  name: string;
+  tan: string | null;
+  pan: string | null;
+}
+
+export interface Form26QDeducteeRecord {
+  serialNumber: number;
+  referenceId: number;
+  section: string;
+  deducteeName: string | null;
+  pan: string;
+  dateOfCredit: string;
+  amountPaidOrCredited: number;
+  tdsRate: number;
+  tdsDeducted: number;
+  reasonCode: TdsReasonCode | null;
+  depositDueDate: string;
+}
+
+export interface Form26QPayload {
+  formType: '26Q';
+  financialYear: string;
+  assessmentYear: string;
+  quarter: TdsQuarter;
+  dueDate: string;
+  deductor: DeductorProfile;
+  deducteeRecords: Form26QDeducteeRecord[];
+  /** What has to be deposited by each due date, one challan per month and section */
+  challanSummary: Array<{ month: string; section: string; depositDueDate: string; records: number; tdsAmount: number }>;
+  totals: { records: number; amountPaidOrCredited: number; tdsDeducted: number };
+}
+
+export interface Form16APayload {
+  formType: '16A';
+  financialYear: string;
+  assessmentYear: string;
+  quarter: TdsQuarter;
+  issueDueDate: string;
+  deductor: DeductorProfile;
+  deductee: { name: string | null; pan: string };
+  section: string;
+  transactions: Array<{ dateOfCredit: string; amountPaidOrCredited: number; tdsRate: number; tdsDeducted: number; depositDueDate: string }>;
+  totals: { amountPaidOrCredited: number; tdsDeducted: number };
+}
+
+// ============================================================================
+// FINANCIAL YEAR
+// ============================================================================
+
+function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function fyStartYear(date: Date): number {
+  return date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+function fyLabel(startYear: number): string {
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/** Financial year (April-March) a date falls in, e.g. "2025-26" */
+export function financialYear(date: Date): string {
+  return fyLabel(fyStartYear(date));
+}
+
+/** First year of a "YYYY-YY" financial year, or null when it is not one */
+export function parseFinancialYear(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})$/.exec((value || '').trim());
+  if (!match) return null;
+  const start = parseInt(match[1]);
+  return (start + 1) % 100 === parseInt(match[2]) ? start : null;
+}
+
+/** TDS return quarter a date falls in: Q1 is April-June */
+export function tdsQuarter(date: Date): TdsQuarter {
+  return (Math.floor(((date.getMonth() + 9) % 12) / 3) + 1) as TdsQuarter;
+}
+
+/** First and last day of a quarter of a financial year, YYYY-MM-DD */
+export function quarterRange(fyStart: number, quarter: TdsQuarter): { from: string; to: string } {
+  const firstMonth = 3 + (quarter - 1) * 3; // 0-based, may run into the next calendar year
+  const from = new Date(fyStart, firstMonth, 1);
+  const to = new Date(fyStart, firstMonth + 3, 0);
+  return { from: toIsoDate(from), to: toIsoDate(to) };
+}
+
+/** TDS deducted in a month is deposited by the 7th of the next month; March's by 30 April */
+export function tdsDepositDueDate(creditedOn: Date): string {
+  if (creditedOn.getMonth() === 2) {
+    return `${creditedOn.getFullYear()}-04-30`;
+  }
+  return toIsoDate(new Date(creditedOn.getFullYear(), creditedOn.getMonth() + 1, 7));
+}
+
+/** Form 26Q is due a month after the quarter ends; Q4's on 31 May */
+export function form26QDueDate(fyStart: number, quarter: TdsQuarter): string {
+  return {
+    1: `${fyStart}-07-31`,
+    2: `${fyStart}-10-31`,
+    3: `${fyStart + 1}-01-31`,
+    4: `${fyStart + 1}-05-31`,
+  }[quarter];
+}
+
+/** Form 16A is issued within 15 days of the quarter's 26Q due date */
+export function form16AIssueDate(fyStart: number, quarter: TdsQuarter): string {
+  return {
+    1: `${fyStart}-08-15`,
+    2: `${fyStart}-11-15`,
+    3: `${fyStart + 1}-02-15`,
+    4: `${fyStart + 1}-06-15`,
+  }[quarter];
+}
+
+// ============================================================================
+// TDS AND GST
+// ============================================================================
+
+export function normalizePan(pan: string | null | undefined): string | null {
+  const value = (pan || '').trim().toUpperCase();
+  return PAN_PATTERN.test(value) ? value : null;
+}
+
+/** Section 194H rate for a commission credited on `creditedOn`, before any PAN penalty */
+export function commissionTdsRate(creditedOn: Date): number {
+  const date = toIsoDate(creditedOn);
+  return COMMISSION_TDS_RATES.find(entry => date >= entry.from)!.rate;
+}
+
+/** Section 194H threshold for the financial year `creditedOn` falls in */
+export function commissionTdsThreshold(creditedOn: Date): number {
+  const start = fyStartYear(creditedOn);
+  return COMMISSION_TDS_THRESHOLDS.find(entry => start >= entry.fromFy)!.amount;
+}
+
+function roundRupees(amount: number): number {
+  return Math.round(toPaise(amount) / 100);
+}
+
+function fromPaise(paise: number): number {
+  return paise / 100;
+}
+
+/**
+ * GST on a commission. Forward and reverse charge both need the agent's and
+ * our state; without them the commission is treated as unregistered.
+ */
+export function commissionGst(
+  taxableValue: number,
+  treatment: GstTreatment,
+  agentStateCode: string | null,
+  ourStateCode: string | null,
+): CommissionGst {
+  if (treatment === 'unregistered' || !agentStateCode || !ourStateCode || taxableValue <= 0) {
+    return {
+      treatment: 'unregistered',
+      rate: 0,
+      taxableValue,
+      supplyType: null,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      total: 0,
+      payableToAgent: false,
+    };
+  }
+
+  const split = splitGst(taxableValue, COMMISSION_GST_RATE, agentStateCode, ourStateCode);
+  return {
+    treatment,
+    rate: COMMISSION_GST_RATE,
+    taxableValue,
+    supplyType: split.supplyType,
+    cgst: split.cgst,
+    sgst: split.sgst,
+    igst: split.igst,
+    total: fromPaise(toPaise(split.cgst) + toPaise(split.sgst) + toPaise(split.igst)),
+    payableToAgent: treatment === 'forward_charge',
+  };
+}
+
+/**
+ * TDS, GST and the net amount for one commission payout
+ */
+export function computeCommissionTax(input: CommissionTaxInput): CommissionTaxResult {
+  const grossPaise = toPaise(input.commission) + toPaise(input.bonus);
+  const gross = fromPaise(grossPaise);
+  const pan = normalizePan(input.pan);
+  const threshold = commissionTdsThreshold(input.creditedOn);
+  const fyCreditedTotal = fromPaise(toPaise(input.fyCreditedBefore) + grossPaise);
+  const tdsRate = pan ? commissionTdsRate(input.creditedOn) : NO_PAN_TDS_RATE;
+
+  let tdsBase = 0;
+  let reasonCode: TdsReasonCode | null = null;
+  if (gross > 0 && fyCreditedTotal > threshold) {
+    // Crossing the threshold makes the whole year's commission liable
+    const untaxedBefore = Math.max(0, toPaise(input.fyCreditedBefore) - toPaise(input.fyTaxedBefore));
+    tdsBase = fromPaise(grossPaise + untaxedBefore);
+    if (!pan) reasonCode = TDS_REASON_CODES.NO_PAN;
+  } else if (gross > 0) {
+    reasonCode = TDS_REASON_CODES.BELOW_THRESHOLD;
+  }
+  const tdsAmount = tdsBase > 0 ? roundRupees((tdsBase * tdsRate) / 100) : 0;
+
+  const gst = commissionGst(gross, input.gstTreatment, input.agentStateCode, input.ourStateCode);
+  const otherDeductions = input.otherDeductions ?? 0;
+  const totalDeductions = fromPaise(toPaise(tdsAmount) + toPaise(otherDeductions));
+  const netAmount = fromPaise(grossPaise + (gst.payableToAgent ? toPaise(gst.total) : 0) - toPaise(totalDeductions));
+
+  return {
+    financialYear: financialYear(input.creditedOn),
+    section: TDS_SECTION_COMMISSION,
+    gross,
+    panAvailable: pan !== null,
+    threshold,
+    fyCreditedTotal,
+    tdsRate,
+    tdsBase,
+    tdsAmount,
+    reasonCode,
+    gst,
+    otherDeductions,
+    totalDeductions,
+    netAmount,
+    depositDueDate: tdsDepositDueDate(input.creditedOn),
+  };
+}
+
+// ============================================================================
+// FORM 26Q / FORM 16A
+// ============================================================================
+
+function reasonFor(deduction: TdsDeduction): TdsReasonCode | null {
+  if (deduction.tdsAmount <= 0) return TDS_REASON_CODES.BELOW_THRESHOLD;
+  return deduction.pan ? null : TDS_REASON_CODES.NO_PAN;
+}
+
+function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(part => parseInt(part));
+  return new Date(year, month - 1, day);
+}
+
+function assessmentYear(fyStart: number): string {
+  return fyLabel(fyStart + 1);
+}
+
+/**
+ * Form 26Q for one quarter: a deductee record per deduction, in date order,
+ * and the TDS to deposit per month
+ */
+export function buildForm26Q(
+  deductions: TdsDeduction[],
+  options: { fyStart: number; quarter: TdsQuarter; deductor: DeductorProfile },
+): Form26QPayload {
+  const sorted = [...deductions].sort((a, b) => a.creditedOn.localeCompare(b.creditedOn) || a.referenceId - b.referenceId);
+
+  const deducteeRecords = sorted.map((deduction, i) => ({
+    serialNumber: i + 1,
+    referenceId: deduction.referenceId,
+    section: deduction.section,
+    deducteeName: deduction.deducteeName,
+    pan: deduction.pan || PAN_NOT_AVAILABLE,
+    dateOfCredit: deduction.creditedOn,
+    amountPaidOrCredited: deduction.amountCredited,
+    tdsRate: deduction.tdsRate,
+    tdsDeducted: deduction.tdsAmount,
+    reasonCode: reasonFor(deduction),
+    depositDueDate: tdsDepositDueDate(parseIsoDate(deduction.creditedOn)),
+  }));
+
+  const challans = new Map<string, Form26QPayload['challanSummary'][number]>();
+  for (const record of deducteeRecords) {
+    if (record.tdsDeducted <= 0) continue;
+    const month = record.dateOfCredit.slice(0, 7);
+    const key = `${month}:${record.section}`;
+    const challan = challans.get(key) || {
+      month,
+      section: record.section,
+      depositDueDate: record.depositDueDate,
+      records: 0,
+      tdsAmount: 0,
+    };
+    challan.records += 1;
+    challan.tdsAmount = fromPaise(toPaise(challan.tdsAmount) + toPaise(record.tdsDeducted));
+    challans.set(key, challan);
+  }
+
+  return {
+    formType: '26Q',
+    financialYear: fyLabel(options.fyStart),
+    assessmentYear: assessmentYear(options.fyStart),
+    quarter: options.quarter,
+    dueDate: form26QDueDate(options.fyStart, options.quarter),
+    deductor: options.deductor,
+    deducteeRecords,
+    challanSummary: Array.from(challans.values()),
+    totals: {
+      records: deducteeRecords.length,
+      amountPaidOrCredited: fromPaise(deducteeRecords.reduce((sum, r) => sum + toPaise(r.amountPaidOrCredited), 0)),
+      tdsDeducted: fromPaise(deducteeRecords.reduce((sum, r) => sum + toPaise(r.tdsDeducted), 0)),
+    },
+  };
+}
+
+/**
+ * Form 16A certificate data for one deductee and quarter
+ */
+export function buildForm16A(
+  deductions: TdsDeduction[],
+  options: { fyStart: number; quarter: TdsQuarter; deductor: DeductorProfile; deductee: { name: string | null; pan: string | null } },
+): Form16APayload {
+  const transactions = [...deductions]
+    .sort((a, b) => a.creditedOn.localeCompare(b.creditedOn) || a.referenceId - b.referenceId)
+    .map(deduction => ({
+      dateOfCredit: deduction.creditedOn,
+      amountPaidOrCredited: deduction.amountCredited,
+      tdsRate: deduction.tdsRate,
+      tdsDeducted: deduction.tdsAmount,
+      depositDueDate: tdsDepositDueDate(parseIsoDate(deduction.creditedOn)),
+    }));
+
+  return {
+    formType: '16A',
+    financialYear: fyLabel(options.fyStart),
+    assessmentYear: assessmentYear(options.fyStart),
+    quarter: options.quarter,
+    issueDueDate: form16AIssueDate(options.fyStart, options.quarter),
+    deductor: options.deductor,
+    deductee: { name: options.deductee.name, pan: options.deductee.pan || PAN_NOT_AVAILABLE },
+    section: TDS_SECTION_COMMISSION,
+    transactions,
+    totals: {
+      amountPaidOrCredited: fromPaise(transactions.reduce((sum, t) => sum + toPaise(t.amountPaidOrCredited), 0)),
+      tdsDeducted: fromPaise(transactions.reduce((sum, t) => sum + toPaise(t.tdsDeducted), 0)),
+    },
+  };
+}
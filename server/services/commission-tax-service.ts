@@ -0,0 +1,628 @@
+/**
+ * Commission Tax Service
+ *
+ * Statutory side of agent commission payouts (rules in commission-tax-rules):
+ * - Agent tax profiles: PAN, GSTIN and how GST on their commission is charged
+ * - TDS u/s 194H and GST worked out when a payout is created
+ * - TDS and GST rows in the tax ledger, feeding Form 26Q and GSTR-3B
+ * - Monthly payout statements (JSON / PDF) and Form 16A data per agent
+ */
+import PDFDocument from 'pdfkit';
+import { db } from '../db';
+import { eq, and, or, gte, lte, lt, isNull, asc, sql } from 'drizzle-orm';
+import {
+  agentTaxProfiles,
+  commissionPayouts,
+  type AgentTaxProfile,
+  type CommissionPayout,
+} from '@shared/super-admin-schema';
+import { tenants, taxTransactions } from '@shared/enterprise-schema';
+import { users } from '@shared/schema';
+import { ledgerService, toPaise } from './ledger-service';
+import { gstLedgerService } from './gst-ledger-service';
+import { GSTIN_PATTERN, resolveStateCode } from './gst-return-builder';
+import {
+  COMMISSION_SAC,
+  GST_TREATMENTS,
+  TDS_SECTION_COMMISSION,
+  buildForm16A,
+  buildForm26Q,
+  computeCommissionTax,
+  financialYear,
+  normalizePan,
+  parseFinancialYear,
+  quarterRange,
+  tdsDepositDueDate,
+  type CommissionTaxResult,
+  type DeductorProfile,
+  type GstTreatment,
+  type TdsDeduction,
+  type TdsQuarter,
+} from './commission-tax-rules';
+import { ValidationError, NotFoundError } from '../errors';
+import { logger } from '../logger';
+
+const TDS_TRANSACTION_TYPE = 'tds_deducted';
+const PAYOUT_REFERENCE_TYPE = 'commission_payout';
+
+export interface AgentTaxProfileInput {
+  legalName?: string | null;
+  pan?: string | null;
+  gstin?: string | null;
+  gstTreatment?: GstTreatment;
+}
+
+export interface PayoutAmounts {
+  commission: number;
+  bonus: number;
+  otherDeductions?: number;
+}
+
+function money(value: string | null | undefined): number {
+  return parseFloat(value || '0') || 0;
+}
+
+function fromPaise(paise: number): number {
+  return paise / 100;
+}
+
+function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function formatRupees(amount: number): string {
+  return `Rs ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function payoutNumber(payoutId: number): string {
+  return `CP-${String(payoutId).padStart(6, '0')}`;
+}
+
+function parseQuarter(value: unknown): TdsQuarter {
+  const quarter = parseInt(String(value).replace(/^q/i, ''));
+  if (![1, 2, 3, 4].includes(quarter)) {
+    throw new ValidationError('quarter must be 1-4 (Q1 is April-June)');
+  }
+  return quarter as TdsQuarter;
+}
+
+function requireFinancialYear(value: unknown): number {
+  const start = parseFinancialYear(String(value || ''));
+  if (start === null) {
+    throw new ValidationError('financialYear must look like 2025-26');
+  }
+  return start;
+}
+
+class CommissionTaxService {
+  // ==========================================================================
+  // AGENT TAX PROFILES
+  // ==========================================================================
+
+  async getProfile(agentId: number): Promise<AgentTaxProfile | null> {
+    const [profile] = await db
+      .select()
+      .from(agentTaxProfiles)
+      .where(eq(agentTaxProfiles.agentId, agentId))
+      .limit(1);
+    return profile ?? null;
+  }
+
+  /**
+   * Create or update an agent's PAN / GST details. Applies to payouts created afterwards.
+   */
+  async upsertProfile(agentId: number, input: AgentTaxProfileInput, updatedBy: number): Promise<AgentTaxProfile> {
+    const [agent] = await db.select({ id: users.id }).from(users).where(eq(users.id, agentId)).limit(1);
+    if (!agent) {
+      throw new NotFoundError('Agent');
+    }
+
+    const existing = await this.getProfile(agentId);
+    const errors: string[] = [];
+
+    const rawPan = input.pan !== undefined ? input.pan : existing?.pan ?? null;
+    const pan = rawPan ? normalizePan(rawPan) : null;
+    if (rawPan && !pan) errors.push(`Invalid PAN: ${rawPan}`);
+
+    const rawGstin = input.gstin !== undefined ? input.gstin : existing?.gstin ?? null;
+    const gstin = rawGstin ? rawGstin.trim().toUpperCase() : null;
+    if (gstin && !GSTIN_PATTERN.test(gstin)) errors.push(`Invalid GSTIN: ${rawGstin}`);
+    if (gstin && pan && gstin.slice(2, 12) !== pan) errors.push('GSTIN does not belong to the PAN');
+
+    const gstTreatment = input.gstTreatment
+      ?? (input.gstin !== undefined ? (gstin ? 'forward_charge' : 'unregistered') : (existing?.gstTreatment as GstTreatment) ?? 'unregistered');
+    if (!GST_TREATMENTS.includes(gstTreatment)) {
+      errors.push(`gstTreatment must be one of ${GST_TREATMENTS.join(', ')}`);
+    } else if (gstTreatment !== 'unregistered' && !gstin) {
+      errors.push('A GSTIN is required for forward or reverse charge');
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid agent tax profile', { errors });
+    }
+
+    const values = {
+      legalName: input.legalName !== undefined ? input.legalName : existing?.legalName ?? null,
+      pan,
+      gstin,
+      gstTreatment,
+      updatedBy,
+      updatedAt: new Date(),
+    };
+
+    const [profile] = await db
+      .insert(agentTaxProfiles)
+      .values({ agentId, ...values })
+      .onConflictDoUpdate({ target: agentTaxProfiles.agentId, set: values })
+      .returning();
+
+    logger.info(`Agent ${agentId} tax profile updated by ${updatedBy} (PAN ${pan ? 'on file' : 'missing'}, GST ${gstTreatment})`);
+    return profile;
+  }
+
+  // ==========================================================================
+  // PAYOUT TAX
+  // ==========================================================================
+
+  /**
+   * Work out TDS and GST for a new payout credited on `creditedOn`, against
+   * what the agent has already been credited this financial year
+   */
+  async assess(agentId: number, amounts: PayoutAmounts, creditedOn: Date): Promise<{
+    tax: CommissionTaxResult;
+    columns: Partial<typeof commissionPayouts.$inferInsert>;
+  }> {
+    const profile = await this.getProfile(agentId);
+    const fy = financialYear(creditedOn);
+    const fyStart = parseFinancialYear(fy)!;
+
+    const [yearToDate] = await db
+      .select({
+        credited: sql<string>`COALESCE(SUM(COALESCE(${commissionPayouts.commissionAmount}, 0) + COALESCE(${commissionPayouts.bonusAmount}, 0)), 0)`,
+        taxed: sql<string>`COALESCE(SUM(COALESCE(${commissionPayouts.tdsBase}, 0)), 0)`,
+      })
+      .from(commissionPayouts)
+      .where(and(
+        eq(commissionPayouts.agentId, agentId),
+        or(
+          eq(commissionPayouts.financialYear, fy),
+          // Payouts from before deductions were tracked
+          and(
+            isNull(commissionPayouts.financialYear),
+            gte(commissionPayouts.periodEnd, new Date(fyStart, 3, 1)),
+            lt(commissionPayouts.periodEnd, new Date(fyStart + 1, 3, 1))
+          )
+        )
+      ));
+
+    const gstin = profile?.gstin ?? null;
+    const treatment: GstTreatment = gstin ? ((profile?.gstTreatment as GstTreatment) || 'forward_charge') : 'unregistered';
+
+    const tax = computeCommissionTax({
+      commission: amounts.commission,
+      bonus: amounts.bonus,
+      otherDeductions: amounts.otherDeductions,
+      creditedOn,
+      pan: profile?.pan ?? null,
+      gstTreatment: treatment,
+      agentStateCode: resolveStateCode(gstin),
+      ourStateCode: await this.getOurStateCode(),
+      fyCreditedBefore: money(yearToDate?.credited),
+      fyTaxedBefore: money(yearToDate?.taxed),
+    });
+
+    return {
+      tax,
+      columns: {
+        financialYear: tax.financialYear,
+        tdsSection: tax.section,
+        tdsRate: tax.tdsRate.toFixed(2),
+        tdsBase: tax.tdsBase.toFixed(2),
+        tdsAmount: tax.tdsAmount.toFixed(2),
+        tdsReasonCode: tax.reasonCode,
+        deducteePan: normalizePan(profile?.pan),
+        gstTreatment: tax.gst.treatment,
+        agentGstin: tax.gst.treatment === 'unregistered' ? null : gstin,
+        cgstAmount: tax.gst.cgst.toFixed(2),
+        sgstAmount: tax.gst.sgst.toFixed(2),
+        igstAmount: tax.gst.igst.toFixed(2),
+        deductions: tax.totalDeductions.toFixed(2),
+        netAmount: tax.netAmount.toFixed(2),
+      },
+    };
+  }
+
+  /**
+   * Arguments for ledgerService.postCommissionAccrual. Payouts created before
+   * deductions were tracked accrue their net amount, as they always did.
+   */
+  accrualFor(payout: CommissionPayout) {
+    if (!payout.financialYear) {
+      return { id: payout.id, agentId: payout.agentId, amount: money(payout.netAmount), periodEnd: payout.periodEnd ?? undefined };
+    }
+
+    const tds = money(payout.tdsAmount);
+    const otherDeductions = toPaise(money(payout.deductions)) - toPaise(tds);
+    const gst = payout.gstTreatment && payout.gstTreatment !== 'unregistered'
+      ? {
+        cgst: money(payout.cgstAmount),
+        sgst: money(payout.sgstAmount),
+        igst: money(payout.igstAmount),
+        reverseCharge: payout.gstTreatment === 'reverse_charge',
+      }
+      : undefined;
+
+    return {
+      id: payout.id,
+      agentId: payout.agentId,
+      amount: fromPaise(toPaise(money(payout.commissionAmount)) + toPaise(money(payout.bonusAmount)) - otherDeductions),
+      periodEnd: payout.periodEnd ?? undefined,
+      tds,
+      gst,
+    };
+  }
+
+  /**
+   * Record a payout's TDS (for 26Q) and GST on commission (input tax credit,
+   * or reverse charge) in the tax ledger. Re-recording is a no-op.
+   * Returns the number of new rows, or 0 when no tenant ledger is available.
+   */
+  async recordTaxRows(payout: CommissionPayout, options: { tenantId?: string | null } = {}): Promise<number> {
+    if (!payout.financialYear) return 0;
+
+    const tenantId = await ledgerService.resolveTenantId(options.tenantId);
+    if (!tenantId) {
+      logger.warn(`No tenant available for tax ledger; skipping commission payout ${payout.id}`);
+      return 0;
+    }
+
+    const profile = await this.getProfile(payout.agentId);
+    const [agent] = await db.select({ fullName: users.fullName }).from(users).where(eq(users.id, payout.agentId)).limit(1);
+    const counterpartyName = profile?.legalName || agent?.fullName || `Agent ${payout.agentId}`;
+
+    const creditedOn = payout.periodEnd;
+    const documentDate = toIsoDate(creditedOn);
+    const gross = fromPaise(toPaise(money(payout.commissionAmount)) + toPaise(money(payout.bonusAmount)));
+    const common = {
+      tenantId,
+      referenceType: PAYOUT_REFERENCE_TYPE,
+      referenceId: payout.id,
+      lineNumber: 1,
+      documentNumber: payoutNumber(payout.id),
+      documentDate,
+      counterpartyName,
+      periodMonth: creditedOn.getMonth() + 1,
+      periodYear: creditedOn.getFullYear(),
+    };
+
+    const rows: Array<typeof taxTransactions.$inferInsert> = [{
+      ...common,
+      transactionType: TDS_TRANSACTION_TYPE,
+      baseAmount: gross.toFixed(2),
+      taxAmount: money(payout.tdsAmount).toFixed(2),
+      documentValue: gross.toFixed(2),
+      counterpartyPan: payout.deducteePan,
+      tdsSection: payout.tdsSection || TDS_SECTION_COMMISSION,
+      taxRate: money(payout.tdsRate).toFixed(2),
+    }];
+
+    const cgst = money(payout.cgstAmount);
+    const sgst = money(payout.sgstAmount);
+    const igst = money(payout.igstAmount);
+    if (payout.gstTreatment && payout.gstTreatment !== 'unregistered' && cgst + sgst + igst > 0) {
+      const gstTotal = fromPaise(toPaise(cgst) + toPaise(sgst) + toPaise(igst));
+      const reverseCharge = payout.gstTreatment === 'reverse_charge';
+      rows.push({
+        ...common,
+        transactionType: 'gst_input',
+        baseAmount: gross.toFixed(2),
+        taxAmount: gstTotal.toFixed(2),
+        documentValue: (reverseCharge ? gross : fromPaise(toPaise(gross) + toPaise(gstTotal))).toFixed(2),
+        counterpartyGstin: payout.agentGstin,
+        counterpartyPan: payout.deducteePan,
+        placeOfSupply: await this.getOurStateCode(tenantId),
+        supplyType: igst > 0 ? 'inter' : 'intra',
+        hsnCode: COMMISSION_SAC,
+        taxRate: '18.00',
+        cgstAmount: cgst.toFixed(2),
+        sgstAmount: sgst.toFixed(2),
+        igstAmount: igst.toFixed(2),
+        reverseCharge,
+        itcEligible: true,
+      });
+    }
+
+    const inserted = await db
+      .insert(taxTransactions)
+      .values(rows)
+      .onConflictDoNothing()
+      .returning({ id: taxTransactions.id });
+
+    return inserted.length;
+  }
+
+  // ==========================================================================
+  // FORM 26Q / FORM 16A
+  // ==========================================================================
+
+  /**
+   * Form 26Q deductee records and challan summary for a quarter, from the
+   * commission TDS recorded in the tax ledger
+   */
+  async form26Q(tenantId: string, fyValue: string, quarterValue: unknown) {
+    const fyStart = requireFinancialYear(fyValue);
+    const quarter = parseQuarter(quarterValue);
+    const deductions = await this.getDeductions(tenantId, fyStart, quarter);
+
+    return buildForm26Q(deductions, { fyStart, quarter, deductor: await this.getDeductorProfile(tenantId) });
+  }
+
+  /**
+   * Form 16A certificate data for one agent and quarter
+   */
+  async form16A(tenantId: string, agentId: number, fyValue: string, quarterValue: unknown) {
+    const fyStart = requireFinancialYear(fyValue);
+    const quarter = parseQuarter(quarterValue);
+
+    const [agent] = await db.select({ fullName: users.fullName }).from(users).where(eq(users.id, agentId)).limit(1);
+    if (!agent) {
+      throw new NotFoundError('Agent');
+    }
+    const profile = await this.getProfile(agentId);
+    const deductions = await this.getDeductions(tenantId, fyStart, quarter, agentId);
+
+    return buildForm16A(deductions, {
+      fyStart,
+      quarter,
+      deductor: await this.getDeductorProfile(tenantId),
+      deductee: {
+        name: profile?.legalName || agent.fullName,
+        pan: deductions.find(deduction => deduction.pan)?.pan ?? normalizePan(profile?.pan),
+      },
+    });
+  }
+
+  // ==========================================================================
+  // PAYOUT STATEMENTS
+  // ==========================================================================
+
+  /**
+   * Payouts credited to an agent in a month (YYYY-MM) with their deductions,
+   * and the agent's financial-year-to-date totals
+   */
+  async monthlyStatement(agentId: number, month: string) {
+    const match = /^(\d{4})-(\d{2})$/.exec(month || '');
+    if (!match || parseInt(match[2]) < 1 || parseInt(match[2]) > 12) {
+      throw new ValidationError('month must be YYYY-MM');
+    }
+    const year = parseInt(match[1]);
+    const monthIndex = parseInt(match[2]) - 1;
+    const from = new Date(year, monthIndex, 1);
+    const to = new Date(year, monthIndex + 1, 1);
+
+    const [agent] = await db
+      .select({ id: users.id, fullName: users.fullName, email: users.email })
+      .from(users)
+      .where(eq(users.id, agentId))
+      .limit(1);
+    if (!agent) {
+      throw new NotFoundError('Agent');
+    }
+    const profile = await this.getProfile(agentId);
+
+    const payouts = await db
+      .select()
+      .from(commissionPayouts)
+      .where(and(
+        eq(commissionPayouts.agentId, agentId),
+        gte(commissionPayouts.periodEnd, from),
+        lt(commissionPayouts.periodEnd, to)
+      ))
+      .orderBy(asc(commissionPayouts.periodEnd), asc(commissionPayouts.id));
+
+    const lines = payouts.map(payout => {
+      const tds = money(payout.tdsAmount);
+      const cgst = money(payout.cgstAmount);
+      const sgst = money(payout.sgstAmount);
+      const igst = money(payout.igstAmount);
+      return {
+        payoutId: payout.id,
+        payoutNumber: payoutNumber(payout.id),
+        periodStart: payout.periodStart,
+        periodEnd: payout.periodEnd,
+        status: payout.status,
+        totalSales: money(payout.totalSales),
+        commission: money(payout.commissionAmount),
+        bonus: money(payout.bonusAmount),
+        gstTreatment: payout.gstTreatment || 'unregistered',
+        gst: { cgst, sgst, igst, total: fromPaise(toPaise(cgst) + toPaise(sgst) + toPaise(igst)) },
+        tdsSection: payout.tdsSection,
+        tdsRate: money(payout.tdsRate),
+        tdsAmount: tds,
+        tdsReasonCode: payout.tdsReasonCode,
+        otherDeductions: fromPaise(toPaise(money(payout.deductions)) - toPaise(tds)),
+        netAmount: money(payout.netAmount),
+        paymentReference: payout.paymentReference,
+        paidAt: payout.paidAt,
+      };
+    });
+
+    const sum = (pick: (line: typeof lines[number]) => number) =>
+      fromPaise(lines.reduce((total, line) => total + toPaise(pick(line)), 0));
+
+    const fy = financialYear(from);
+    const fyStart = parseFinancialYear(fy)!;
+    const [yearToDate] = await db
+      .select({
+        credited: sql<string>`COALESCE(SUM(COALESCE(${commissionPayouts.commissionAmount}, 0) + COALESCE(${commissionPayouts.bonusAmount}, 0)), 0)`,
+        tds: sql<string>`COALESCE(SUM(COALESCE(${commissionPayouts.tdsAmount}, 0)), 0)`,
+      })
+      .from(commissionPayouts)
+      .where(and(
+        eq(commissionPayouts.agentId, agentId),
+        gte(commissionPayouts.periodEnd, new Date(fyStart, 3, 1)),
+        lt(commissionPayouts.periodEnd, to)
+      ));
+
+    return {
+      agent: {
+        id: agent.id,
+        name: profile?.legalName || agent.fullName,
+        email: agent.email,
+        pan: profile?.pan ?? null,
+        gstin: profile?.gstin ?? null,
+        gstTreatment: profile?.gstTreatment ?? 'unregistered',
+      },
+      month,
+      financialYear: fy,
+      payouts: lines,
+      totals: {
+        commission: sum(line => line.commission),
+        bonus: sum(line => line.bonus),
+        gst: sum(line => line.gst.total),
+        tds: sum(line => line.tdsAmount),
+        otherDeductions: sum(line => line.otherDeductions),
+        netAmount: sum(line => line.netAmount),
+        tdsDepositDueDate: tdsDepositDueDate(from),
+      },
+      financialYearToDate: {
+        credited: money(yearToDate?.credited),
+        tds: money(yearToDate?.tds),
+      },
+    };
+  }
+
+  /**
+   * The monthly statement as a downloadable PDF
+   */
+  async monthlyStatementPdf(agentId: number, month: string): Promise<Buffer> {
+    const statement = await this.monthlyStatement(agentId, month);
+    const deductor = await this.getDeductorProfile(await ledgerService.resolveTenantId());
+    const [year, monthNumber] = month.split('-').map(part => parseInt(part));
+    const monthLabel = new Date(year, monthNumber - 1, 1).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const doc = new PDFDocument({ margin: 50, size: 'A4' });
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.fontSize(18).fillColor('#1e3a5f').text(deductor.name, { align: 'center' });
+      if (deductor.tan) doc.fontSize(9).fillColor('#666').text(`TAN ${deductor.tan}`, { align: 'center' });
+      doc.moveDown(0.5);
+      doc.fontSize(14).fillColor('#000').text(`Commission Payout Statement - ${monthLabel}`, { align: 'center' });
+      doc.moveDown();
+
+      doc.fontSize(10);
+      doc.text(`Agent: ${statement.agent.name || `#${statement.agent.id}`}`);
+      doc.text(`PAN: ${statement.agent.pan || 'Not furnished (TDS at 20%)'}`);
+      doc.text(`GSTIN: ${statement.agent.gstin || 'Unregistered'}${statement.agent.gstin ? ` (${statement.agent.gstTreatment.replace('_', ' ')})` : ''}`);
+      doc.text(`Financial year: ${statement.financialYear}`);
+      doc.moveDown();
+
+      if (statement.payouts.length === 0) {
+        doc.text('No commission was credited in this month.');
+      }
+
+      for (const line of statement.payouts) {
+        doc.fontSize(11).fillColor('#1e3a5f')
+          .text(`${line.payoutNumber}  ${toIsoDate(line.periodStart)} to ${toIsoDate(line.periodEnd)}  (${line.status})`);
+        doc.fontSize(10).fillColor('#000');
+        doc.text(`Commission: ${formatRupees(line.commission)}`);
+        if (line.bonus > 0) doc.text(`Volume bonus: ${formatRupees(line.bonus)}`);
+        if (line.gst.total > 0) {
+          const gstLabel = line.gstTreatment === 'reverse_charge' ? 'GST (reverse charge, paid by us)' : 'GST @ 18%';
+          doc.text(`${gstLabel}: ${formatRupees(line.gst.total)}`);
+        }
+        doc.text(`TDS u/s ${line.tdsSection || TDS_SECTION_COMMISSION} @ ${line.tdsRate}%: ${formatRupees(line.tdsAmount)}${line.tdsReasonCode === 'Y' ? ' (below annual threshold)' : ''}`);
+        if (line.otherDeductions !== 0) doc.text(`Other deductions: ${formatRupees(line.otherDeductions)}`);
+        doc.text(`Net payable: ${formatRupees(line.netAmount)}${line.paymentReference ? `  (paid, ref ${line.paymentReference})` : ''}`);
+        doc.moveDown(0.5);
+      }
+
+      doc.moveDown();
+      doc.strokeColor('#1e3a5f').lineWidth(1).moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+      doc.moveDown(0.5);
+      doc.fontSize(11).fillColor('#000');
+      doc.text(`Total commission and bonus: ${formatRupees(fromPaise(toPaise(statement.totals.commission) + toPaise(statement.totals.bonus)))}`);
+      doc.text(`Total GST: ${formatRupees(statement.totals.gst)}`);
+      doc.text(`Total TDS deducted: ${formatRupees(statement.totals.tds)}`);
+      doc.text(`Total net payable: ${formatRupees(statement.totals.netAmount)}`);
+      doc.moveDown();
+      doc.fontSize(9).fillColor('#666');
+      doc.text(`Financial year to date: commission ${formatRupees(statement.financialYearToDate.credited)}, TDS ${formatRupees(statement.financialYearToDate.tds)}.`);
+      doc.text('TDS deducted will be reflected in your Form 26AS once deposited; Form 16A is issued quarterly.');
+
+      doc.end();
+    });
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  private async getOurStateCode(tenantId?: string | null): Promise<string | null> {
+    const resolved = tenantId ?? await ledgerService.resolveTenantId();
+    if (resolved) {
+      return (await gstLedgerService.getSupplierProfile(resolved)).stateCode;
+    }
+    return resolveStateCode(process.env.COMPANY_STATE || 'Karnataka');
+  }
+
+  /**
+   * Our TAN, PAN and name: tenant settings first, then COMPANY_TAN / COMPANY_PAN / COMPANY_NAME
+   */
+  private async getDeductorProfile(tenantId: string | null): Promise<DeductorProfile> {
+    let tenant: { name: string; settings: unknown } | undefined;
+    if (tenantId) {
+      [tenant] = await db
+        .select({ name: tenants.name, settings: tenants.settings })
+        .from(tenants)
+        .where(eq(tenants.id, tenantId))
+        .limit(1);
+    }
+    const settings = (tenant?.settings || {}) as Record<string, any>;
+    return {
+      name: settings.legalName || process.env.COMPANY_NAME || tenant?.name || 'DigiComply Services Pvt Ltd',
+      tan: (settings.tan || process.env.COMPANY_TAN || '').trim().toUpperCase() || null,
+      pan: (settings.pan || process.env.COMPANY_PAN || '').trim().toUpperCase() || null,
+    };
+  }
+
+  private async getDeductions(tenantId: string, fyStart: number, quarter: TdsQuarter, agentId?: number): Promise<TdsDeduction[]> {
+    const range = quarterRange(fyStart, quarter);
+    const conditions = [
+      eq(taxTransactions.tenantId, tenantId),
+      eq(taxTransactions.transactionType, TDS_TRANSACTION_TYPE),
+      gte(taxTransactions.documentDate, range.from),
+      lte(taxTransactions.documentDate, range.to),
+    ];
+    if (agentId) {
+      conditions.push(
+        eq(taxTransactions.referenceType, PAYOUT_REFERENCE_TYPE),
+        sql`${taxTransactions.referenceId} IN (SELECT ${commissionPayouts.id} FROM ${commissionPayouts} WHERE ${commissionPayouts.agentId} = ${agentId})`
+      );
+    }
+
+    const rows = await db
+      .select()
+      .from(taxTransactions)
+      .where(and(...conditions))
+      .orderBy(asc(taxTransactions.documentDate), asc(taxTransactions.id));
+
+    return rows.map(row => ({
+      referenceId: row.referenceId ?? row.id,
+      deducteeName: row.counterpartyName,
+      pan: row.counterpartyPan,
+      section: row.tdsSection || TDS_SECTION_COMMISSION,
+      creditedOn: String(row.documentDate),
+      amountCredited: money(row.baseAmount),
+      tdsRate: money(row.taxRate),
+      tdsAmount: money(row.taxAmount),
+    }));
+  }
+}
+
+export const commissionTaxService = new CommissionTaxService();
+export { CommissionTaxService };
@@ -1,7 +1,8 @@
 /**
  * Communication Logger Service
  *
- * Logs all outbound communications (email, SMS, WhatsApp) to the client_communications table.
+ * Logs client communications (email, SMS, WhatsApp) to the client_communications table:
+ * outbound sends, and inbound replies threaded by the inbound communication service.
  * This provides a complete audit trail of all client interactions.
  *
  * Usage:
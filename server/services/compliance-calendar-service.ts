@@ -21,7 +21,6 @@ import {
   complianceCalendar,
   serviceBlueprints,
   blueprintComplianceRules,
-  holidayCalendars,
   deadlineFormulas,
   penaltyRulesMaster,
   jurisdictions,
@@ -29,20 +28,19 @@ import {
   clientServiceSubscriptions,
 } from '../../shared/blueprints-schema';
 import { users, businessEntities } from '../../shared/schema';
-import { eq, and, gte, lte, lt, gt, or, sql, desc, asc, inArray, isNull, count } from 'drizzle-orm';
+import { eq, and, gte, lte, lt, gt, or, sql, desc, asc, inArray, count } from 'drizzle-orm';
 import { logger } from '../logger';
+import { deadlineResolver } from './deadline-resolver';
 import {
   addDays,
   addMonths,
   addYears,
-  subDays,
   startOfMonth,
   endOfMonth,
   startOfQuarter,
   endOfQuarter,
   startOfYear,
   endOfYear,
-  isWeekend,
   nextMonday,
   previousFriday,
   format,
@@ -337,69 +335,21 @@ export class ComplianceCalendarService {
     adjustmentRule: 'NEXT_WORKING_DAY' | 'PREVIOUS_WORKING_DAY',
     jurisdictionId?: string
   ): Promise<Date> {
-    const year = getYear(date);
-    let adjusted = date;
-
-    // Get holidays for the year
-    const holidays = await this.getHolidaysForYear(year, jurisdictionId);
-    const holidayDates = new Set(holidays.map(h => format(parseISO(h.date), 'yyyy-MM-dd')));
-
-    const isHoliday = (d: Date) => {
-      return isWeekend(d) || holidayDates.has(format(d, 'yyyy-MM-dd'));
-    };
-
-    // Adjust until we find a working day
-    let maxIterations = 30; // Safety limit
-    while (isHoliday(adjusted) && maxIterations > 0) {
-      if (adjustmentRule === 'NEXT_WORKING_DAY') {
-        adjusted = addDays(adjusted, 1);
-      } else {
-        adjusted = subDays(adjusted, 1);
-      }
-      maxIterations--;
-    }
-
-    return adjusted;
+    return deadlineResolver.adjust(date, adjustmentRule, jurisdictionId);
   }
 
   /**
    * Get holidays for a year
    */
   async getHolidaysForYear(year: number, jurisdictionId?: string): Promise<Array<{ date: string; name: string; type: string }>> {
-    const conditions = [eq(holidayCalendars.year, year), eq(holidayCalendars.isActive, true)];
-
-    if (jurisdictionId) {
-      conditions.push(
-        or(
-          eq(holidayCalendars.jurisdictionId, jurisdictionId),
-          isNull(holidayCalendars.jurisdictionId)
-        )!
-      );
-    }
-
-    const calendars = await db
-      .select()
-      .from(holidayCalendars)
-      .where(and(...conditions));
-
-    const allHolidays: Array<{ date: string; name: string; type: string }> = [];
-    for (const cal of calendars) {
-      const holidays = cal.holidays as Array<{ date: string; name: string; type: string }>;
-      allHolidays.push(...holidays);
-    }
-
-    return allHolidays;
+    return deadlineResolver.getHolidays(year, jurisdictionId);
   }
 
   /**
    * Check if a date is a working day
    */
   async isWorkingDay(date: Date, jurisdictionId?: string): Promise<boolean> {
-    if (isWeekend(date)) return false;
-
-    const holidays = await this.getHolidaysForYear(getYear(date), jurisdictionId);
-    const dateStr = format(date, 'yyyy-MM-dd');
-    return !holidays.some(h => h.date === dateStr);
+    return deadlineResolver.isWorkingDay(date, jurisdictionId);
   }
 
   // ==========================================================================
@@ -675,7 +625,7 @@ export class ComplianceCalendarService {
 
     for (const period of periods) {
       for (const rule of rules) {
-        // Calculate deadline
+        // Statutory deadline, before holiday adjustment
         const deadline = await this.calculateDeadline({
           baseDateType: rule.baseDateType || 'PERIOD_END',
           periodEnd: format(period.periodEnd, 'yyyy-MM-dd'),
@@ -683,12 +633,12 @@ export class ComplianceCalendarService {
           fiscalYear: period.fiscalYear,
           offsetDays: rule.offsetDays || 0,
           offsetMonths: rule.offsetMonths || 0,
-          adjustmentRule: (rule.adjustmentRule as any) || 'NEXT_WORKING_DAY',
+          adjustmentRule: 'NONE',
           jurisdictionId,
         });
 
         // Apply jurisdiction overrides if any
-        let adjustedDeadline = deadline;
+        let statutoryDeadline = deadline;
         if (jurisdictionId) {
           const overrides = await db
             .select()
@@ -704,13 +654,20 @@ export class ComplianceCalendarService {
             .limit(1);
 
           if (overrides.length > 0 && overrides[0].deadlineOffsetDays) {
-            adjustedDeadline = format(
+            statutoryDeadline = format(
               addDays(parseISO(deadline), overrides[0].deadlineOffsetDays),
               'yyyy-MM-dd'
             );
           }
         }
 
+        // Holidays are applied last so an override never lands on a holiday
+        const resolved = await deadlineResolver.resolve(statutoryDeadline, {
+          adjustment: rule.adjustmentRule,
+          jurisdictionId,
+        });
+        const adjustedDeadline = format(resolved.dueDate, 'yyyy-MM-dd');
+
         entries.push({
           tenantId,
           clientId,
@@ -722,7 +679,7 @@ export class ComplianceCalendarService {
           periodStart: format(period.periodStart, 'yyyy-MM-dd'),
           periodEnd: format(period.periodEnd, 'yyyy-MM-dd'),
           fiscalYear: period.fiscalYear,
-          originalDueDate: deadline,
+          originalDueDate: statutoryDeadline,
           adjustedDueDate: adjustedDeadline,
           status: 'UPCOMING',
           autoGenerated: true,
@@ -0,0 +1,175 @@
+/**
+ * Compliance Dependency Resolver
+ *
+ * Maps a data change to the entity / domain pairs whose compliance state it can
+ * affect, so only those are recalculated:
+ * - complianceTracking row -> its entity, the domain of its rule
+ * - documentVault upload -> its entity, domains of rules that require the document
+ * - serviceRequests status -> its entity, domains of rules tracked under the service
+ * - complianceRules edit -> every entity tracking or reporting the rule, the rule's domain
+ *
+ * An empty domain list still refreshes entity-level figures (data completeness,
+ * next critical action) from the saved domain states.
+ */
+import { db } from '../db';
+import { and, eq, sql } from 'drizzle-orm';
+import { complianceRules, complianceRequiredDocuments, complianceTracking } from '@shared/schema';
+import { complianceStates } from '@shared/compliance-state-schema';
+import type { ComplianceDomain } from '@shared/compliance-state-types';
+import { mapRegulationCategoryToDomain } from '../compliance-state-engine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ComplianceChange =
+  | { type: 'tracking'; entityId: number; complianceRuleId?: number | null; serviceId?: string | null }
+  | { type: 'document'; entityId: number; documentType?: string | null }
+  | { type: 'service_request'; entityId: number; serviceId?: string | null }
+  | { type: 'rule'; ruleId: number; previousCategory?: string | null };
+
+export interface RecalculationScope {
+  entityId: number;
+  domains: ComplianceDomain[] | null; // null recalculates every domain
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Combine scopes per entity. A full recalculation absorbs any domain-scoped one.
+ */
+export function mergeScopes(scopes: RecalculationScope[]): RecalculationScope[] {
+  const merged = new Map<number, Set<ComplianceDomain> | null>();
+
+  for (const scope of scopes) {
+    if (!merged.has(scope.entityId)) {
+      merged.set(scope.entityId, scope.domains ? new Set(scope.domains) : null);
+      continue;
+    }
+    const existing = merged.get(scope.entityId);
+    if (existing === null || scope.domains === null) {
+      merged.set(scope.entityId, null);
+    } else {
+      scope.domains.forEach((domain) => existing!.add(domain));
+    }
+  }
+
+  return Array.from(merged.entries()).map(([entityId, domains]) => ({
+    entityId,
+    domains: domains ? Array.from(domains).sort() : null,
+  }));
+}
+
+function uniqueDomains(categories: Array<string | null | undefined>): ComplianceDomain[] {
+  return Array.from(new Set(categories.filter(Boolean).map((category) => mapRegulationCategoryToDomain(category)))).sort();
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class ComplianceDependencyResolver {
+  async resolve(change: ComplianceChange): Promise<RecalculationScope[]> {
+    switch (change.type) {
+      case 'tracking':
+        return [{ entityId: change.entityId, domains: await this.domainsForTracking(change) }];
+      case 'document':
+        return [{ entityId: change.entityId, domains: await this.domainsForDocument(change.documentType) }];
+      case 'service_request':
+        return [{ entityId: change.entityId, domains: await this.domainsForService(change.entityId, change.serviceId) }];
+      case 'rule':
+        return this.scopesForRule(change.ruleId, change.previousCategory);
+    }
+  }
+
+  /** Unknown rule: recalculate everything for the entity */
+  private async domainsForTracking(change: { complianceRuleId?: number | null; serviceId?: string | null }): Promise<ComplianceDomain[] | null> {
+    const condition = change.complianceRuleId
+      ? eq(complianceRules.id, change.complianceRuleId)
+      : change.serviceId
+        ? eq(complianceRules.ruleCode, change.serviceId)
+        : null;
+    if (!condition) return null;
+
+    const rules = await db.select({ regulationCategory: complianceRules.regulationCategory })
+      .from(complianceRules)
+      .where(condition);
+    return rules.length > 0 ? uniqueDomains(rules.map((rule: { regulationCategory: string }) => rule.regulationCategory)) : null;
+  }
+
+  private async domainsForDocument(documentType?: string | null): Promise<ComplianceDomain[]> {
+    if (!documentType) return [];
+
+    const rows = await db
+      .select({ regulationCategory: complianceRules.regulationCategory })
+      .from(complianceRequiredDocuments)
+      .innerJoin(complianceRules, eq(complianceRules.id, complianceRequiredDocuments.complianceRuleId))
+      .where(sql`LOWER(${complianceRequiredDocuments.documentType}) = ${documentType.trim().toLowerCase()}`);
+    return uniqueDomains(rows.map((row: { regulationCategory: string }) => row.regulationCategory));
+  }
+
+  private async domainsForService(entityId: number, serviceId?: string | null): Promise<ComplianceDomain[]> {
+    if (!serviceId) return [];
+
+    const tracked = await db
+      .select({ regulationCategory: complianceRules.regulationCategory })
+      .from(complianceTracking)
+      .innerJoin(complianceRules, eq(complianceRules.id, complianceTracking.complianceRuleId))
+      .where(and(eq(complianceTracking.businessEntityId, entityId), eq(complianceTracking.serviceId, serviceId)));
+    const byCode = await db
+      .select({ regulationCategory: complianceRules.regulationCategory })
+      .from(complianceRules)
+      .where(eq(complianceRules.ruleCode, serviceId));
+
+    return uniqueDomains([...tracked, ...byCode].map((row: { regulationCategory: string }) => row.regulationCategory));
+  }
+
+  /**
+   * Entities that track the rule or carry it in their saved state. Entities the
+   * edit newly brings into scope are picked up by the tracking sync and the
+   * nightly reconciliation.
+   */
+  private async scopesForRule(ruleId: number, previousCategory?: string | null): Promise<RecalculationScope[]> {
+    const [rule] = await db.select({
+      ruleCode: complianceRules.ruleCode,
+      regulationCategory: complianceRules.regulationCategory,
+    })
+      .from(complianceRules)
+      .where(eq(complianceRules.id, ruleId))
+      .limit(1);
+    if (!rule) return [];
+
+    const tracking = await db.selectDistinct({ entityId: complianceTracking.businessEntityId })
+      .from(complianceTracking)
+      .where(eq(complianceTracking.complianceRuleId, ruleId));
+    const reporting = await db.select({ entityId: complianceStates.entityId })
+      .from(complianceStates)
+      .where(sql`EXISTS (
+        SELECT 1 FROM json_array_elements(${complianceStates.requirementStates}) AS requirement
+        WHERE requirement->>'requirementId' = ${rule.ruleCode}
+      )`);
+
+    const entityIds = Array.from(new Set(
+      [...tracking, ...reporting]
+        .map((row: { entityId: number | null }) => row.entityId)
+        .filter((entityId): entityId is number => !!entityId)
+    ));
+    const domains = uniqueDomains([rule.regulationCategory, previousCategory]);
+    return entityIds.map((entityId) => ({ entityId, domains }));
+  }
+
+  /**
+   * Rules changed since a point in time, for edits made outside the API
+   * (seeders, SQL)
+   */
+  async rulesChangedSince(since: Date): Promise<number[]> {
+    const rows = await db.select({ id: complianceRules.id })
+      .from(complianceRules)
+      .where(sql`${complianceRules.updatedAt} > ${since}`);
+    return rows.map((row: { id: number }) => row.id);
+  }
+}
+
+export const complianceDependencyResolver = new ComplianceDependencyResolver();
@@ -15,6 +15,7 @@
 console.warn('⚠️  DEPRECATED: compliance-engine.ts - Use v2/compliance-service.ts instead');
 
 import { pool } from '../db';
+import { deadlineResolver } from './deadline-resolver';
 
 export interface ComplianceState {
   overallState: 'GREEN' | 'AMBER' | 'RED';
@@ -45,25 +46,41 @@ export interface ComplianceAction {
  */
 export async function calculateComplianceState(clientId: number): Promise<ComplianceState> {
   try {
-    // Get all pending and overdue actions
+    // Get all actions; deadlines are resolved against the holiday calendar below
     const actionsResult = await pool.query(
-      `SELECT 
-        COUNT(*) FILTER (WHERE status = 'completed') as compliant_items,
-        COUNT(*) FILTER (WHERE status != 'completed' AND due_date >= CURRENT_DATE) as pending_items,
-        COUNT(*) FILTER (WHERE status != 'completed' AND due_date < CURRENT_DATE) as overdue_items,
-        MIN(due_date) FILTER (WHERE status != 'completed') as next_deadline,
-        SUM(penalty_amount) FILTER (WHERE status != 'completed') as total_penalty
+      `SELECT status, due_date, penalty_amount
       FROM compliance_actions
       WHERE client_id = $1`,
       [clientId]
     );
 
-    const row = actionsResult.rows[0];
-    const overdueItems = parseInt(row.overdue_items) || 0;
-    const pendingItems = parseInt(row.pending_items) || 0;
-    const compliantItems = parseInt(row.compliant_items) || 0;
-    const nextDeadline = row.next_deadline ? new Date(row.next_deadline) : null;
-    const penaltyExposure = parseFloat(row.total_penalty) || 0;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const deadlines = await deadlineResolver.createContext({ years: [today.getFullYear()] });
+
+    let compliantItems = 0;
+    let pendingItems = 0;
+    let overdueItems = 0;
+    let nextDeadline: Date | null = null;
+    let penaltyExposure = 0;
+    for (const row of actionsResult.rows) {
+      if (row.status === 'completed') {
+        compliantItems++;
+        continue;
+      }
+      penaltyExposure += parseFloat(row.penalty_amount) || 0;
+      if (!row.due_date) continue;
+
+      const dueDate = deadlines.resolve(new Date(row.due_date)).dueDate;
+      if (dueDate < today) {
+        overdueItems++;
+      } else {
+        pendingItems++;
+      }
+      if (!nextDeadline || dueDate < nextDeadline) {
+        nextDeadline = dueDate;
+      }
+    }
 
     // Calculate days until next critical deadline
     let daysSafe = 365;
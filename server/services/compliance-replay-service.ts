@@ -0,0 +1,420 @@
+/**
+ * Compliance State Replay
+ *
+ * Point-in-time view of an entity's compliance state for audits and due diligence:
+ * - The state recorded in compliance_state_history as of any date
+ * - The state reconstructed for that date by the current engine
+ * - Requirement-level diffs between two dates
+ * - Re-running a recorded snapshot under the current engine version to explain
+ *   why its score changed
+ */
+import { db } from '../db';
+import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { endOfDay, format } from 'date-fns';
+import { complianceStateHistory } from '@shared/compliance-state-schema';
+import type {
+  ComplianceState,
+  ComplianceRequirementStatus,
+  DomainComplianceState,
+  EntityComplianceState,
+} from '@shared/compliance-state-types';
+import { stateEngine } from '../compliance-state-engine';
+import { ValidationError, NotFoundError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReplaySource = 'recorded' | 'reconstructed';
+
+export interface ReplayedState {
+  entityId: number;
+  asOf: string;
+  source: ReplaySource;
+  historyId: number | null;
+  recordedAt: Date | null; // When the recorded snapshot was taken
+  calculationVersion: string;
+  state: EntityComplianceState;
+}
+
+export interface RequirementSnapshot {
+  state: ComplianceState;
+  dueDate: string | null;
+  daysOverdue: number | null;
+  penaltyExposure: number;
+  lastFiled: string | null;
+  extensionReference: string | null;
+}
+
+export interface RequirementChange {
+  requirementId: string;
+  name: string;
+  domain: string;
+  change: 'ADDED' | 'REMOVED' | 'CHANGED';
+  before: RequirementSnapshot | null;
+  after: RequirementSnapshot | null;
+  reasons: string[];
+}
+
+export interface ComplianceStateDiff {
+  entityId: number;
+  before: { asOf: string; source: ReplaySource; recordedAt: Date | null; calculationVersion: string };
+  after: { asOf: string; source: ReplaySource; recordedAt: Date | null; calculationVersion: string };
+  versionChanged: boolean;
+  summary: {
+    overallState: { before: ComplianceState; after: ComplianceState };
+    riskScore: { before: number; after: number; change: number };
+    penaltyExposure: { before: number; after: number; change: number };
+    overdueItems: { before: number; after: number; change: number };
+    upcomingItems: { before: number; after: number; change: number };
+  };
+  requirements: RequirementChange[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toDateKey(value: Date | null | undefined): string | null {
+  return value ? format(value, 'yyyy-MM-dd') : null;
+}
+
+function toNumber(value: unknown): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Parse a YYYY-MM-DD replay date. A date means the end of that day, so
+ * "31 March" includes everything recorded on 31 March.
+ */
+export function parseReplayDate(value: unknown, field: string): Date {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`);
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1) {
+    throw new ValidationError(`${field} is not a valid date`);
+  }
+  if (date > new Date()) {
+    throw new ValidationError(`${field} cannot be in the future`);
+  }
+  return endOfDay(date);
+}
+
+/**
+ * Snapshots are stored as JSON; restore the dates and fill fields that older
+ * engine versions did not record
+ */
+export function reviveEntityState(snapshot: any): EntityComplianceState {
+  const domains: DomainComplianceState[] = (snapshot?.domains || []).map((domain: any) => ({
+    ...domain,
+    requirements: (domain.requirements || []).map((requirement: any): ComplianceRequirementStatus => ({
+      ...requirement,
+      dueDate: toDate(requirement.dueDate),
+      statutoryDueDate: toDate(requirement.statutoryDueDate),
+      extensionReference: requirement.extensionReference ?? null,
+      nextOccurrence: toDate(requirement.nextOccurrence),
+      lastFiled: toDate(requirement.lastFiled),
+      penaltyExposure: toNumber(requirement.penaltyExposure),
+      blockers: requirement.blockers || [],
+    })),
+  }));
+
+  return {
+    ...snapshot,
+    overallRiskScore: toNumber(snapshot?.overallRiskScore),
+    totalPenaltyExposure: toNumber(snapshot?.totalPenaltyExposure),
+    totalOverdueItems: toNumber(snapshot?.totalOverdueItems),
+    totalUpcomingItems: toNumber(snapshot?.totalUpcomingItems),
+    nextCriticalDeadline: toDate(snapshot?.nextCriticalDeadline),
+    calculatedAt: toDate(snapshot?.calculatedAt) as Date,
+    calculationVersion: snapshot?.calculationVersion || 'unknown',
+    domains,
+  };
+}
+
+function snapshotRequirement(requirement: ComplianceRequirementStatus): RequirementSnapshot {
+  return {
+    state: requirement.state,
+    dueDate: toDateKey(requirement.dueDate),
+    daysOverdue: requirement.daysOverdue,
+    penaltyExposure: requirement.penaltyExposure,
+    lastFiled: toDateKey(requirement.lastFiled),
+    extensionReference: requirement.extensionReference ?? null,
+  };
+}
+
+/**
+ * Plain-English reasons a requirement differs between two states
+ */
+export function explainRequirementChange(before: ComplianceRequirementStatus, after: ComplianceRequirementStatus): string[] {
+  const reasons: string[] = [];
+  const beforeDue = toDateKey(before.dueDate);
+  const afterDue = toDateKey(after.dueDate);
+  const beforeFiled = toDateKey(before.lastFiled);
+  const afterFiled = toDateKey(after.lastFiled);
+
+  if (afterFiled && afterFiled !== beforeFiled) {
+    reasons.push(`Filed on ${afterFiled}`);
+  }
+  if (beforeDue !== afterDue) {
+    if (after.extensionReference && after.extensionReference !== before.extensionReference) {
+      reasons.push(`Due date extended from ${beforeDue ?? 'none'} to ${afterDue ?? 'none'} by ${after.extensionReference}`);
+    } else {
+      reasons.push(`Due date moved from ${beforeDue ?? 'none'} to ${afterDue ?? 'none'}`);
+    }
+  }
+  if (before.state !== after.state) {
+    if (after.state === 'RED' && after.daysOverdue) {
+      reasons.push(`Became overdue (${after.daysOverdue} days)`);
+    } else {
+      reasons.push(`State changed from ${before.state} to ${after.state}`);
+    }
+  }
+  if (before.penaltyExposure !== after.penaltyExposure) {
+    reasons.push(`Penalty exposure changed from ₹${before.penaltyExposure} to ₹${after.penaltyExposure}`);
+  }
+  return reasons;
+}
+
+function requirementsById(state: EntityComplianceState): Map<string, ComplianceRequirementStatus> {
+  return new Map(
+    state.domains.flatMap((domain) => domain.requirements).map((requirement) => [requirement.requirementId, requirement])
+  );
+}
+
+function change(before: number, after: number) {
+  return { before, after, change: Math.round((after - before) * 100) / 100 };
+}
+
+/**
+ * Compare two entity states requirement by requirement
+ */
+export function diffEntityStates(
+  before: EntityComplianceState,
+  after: EntityComplianceState
+): Pick<ComplianceStateDiff, 'summary' | 'requirements'> {
+  const beforeRequirements = requirementsById(before);
+  const afterRequirements = requirementsById(after);
+  const requirements: RequirementChange[] = [];
+
+  for (const [requirementId, previous] of Array.from(beforeRequirements.entries())) {
+    const current = afterRequirements.get(requirementId);
+    if (!current) {
+      requirements.push({
+        requirementId,
+        name: previous.name,
+        domain: previous.domain,
+        change: 'REMOVED',
+        before: snapshotRequirement(previous),
+        after: null,
+        reasons: ['No longer applies to the entity'],
+      });
+      continue;
+    }
+
+    const reasons = explainRequirementChange(previous, current);
+    if (reasons.length > 0) {
+      requirements.push({
+        requirementId,
+        name: current.name,
+        domain: current.domain,
+        change: 'CHANGED',
+        before: snapshotRequirement(previous),
+        after: snapshotRequirement(current),
+        reasons,
+      });
+    }
+  }
+
+  for (const [requirementId, current] of Array.from(afterRequirements.entries())) {
+    if (beforeRequirements.has(requirementId)) continue;
+    requirements.push({
+      requirementId,
+      name: current.name,
+      domain: current.domain,
+      change: 'ADDED',
+      before: null,
+      after: snapshotRequirement(current),
+      reasons: ['Started to apply to the entity'],
+    });
+  }
+
+  return {
+    summary: {
+      overallState: { before: before.overallState, after: after.overallState },
+      riskScore: change(before.overallRiskScore, after.overallRiskScore),
+      penaltyExposure: change(before.totalPenaltyExposure, after.totalPenaltyExposure),
+      overdueItems: change(before.totalOverdueItems, after.totalOverdueItems),
+      upcomingItems: change(before.totalUpcomingItems, after.totalUpcomingItems),
+    },
+    requirements,
+  };
+}
+
+/**
+ * Differences between a saved state and a fresh full calculation that the
+ * passage of time does not explain: requirements appearing or disappearing,
+ * filings, and due dates that moved before they were reached. Anything else
+ * (overdue counters, accrued penalties, recurring periods rolling forward)
+ * is expected between recalculations.
+ */
+export function detectStateDrift(saved: EntityComplianceState, fresh: EntityComplianceState): RequirementChange[] {
+  const today = toDateKey(fresh.calculatedAt);
+
+  return diffEntityStates(saved, fresh).requirements.filter((requirement) => {
+    if (requirement.change !== 'CHANGED') return true;
+    const before = requirement.before!;
+    const after = requirement.after!;
+    if (before.lastFiled !== after.lastFiled) return true;
+    return before.dueDate !== after.dueDate && !!before.dueDate && !!today && before.dueDate >= today;
+  });
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class ComplianceReplayService {
+  /**
+   * Recorded history for an entity, newest first, without the full snapshots
+   */
+  async listHistory(entityId: number, options: { from?: Date; to?: Date; limit?: number } = {}) {
+    const conditions = [eq(complianceStateHistory.entityId, entityId)];
+    if (options.from) conditions.push(gte(complianceStateHistory.recordedAt, options.from));
+    if (options.to) conditions.push(lte(complianceStateHistory.recordedAt, options.to));
+
+    const rows = await db.select().from(complianceStateHistory)
+      .where(and(...conditions))
+      .orderBy(desc(complianceStateHistory.recordedAt))
+      .limit(Math.min(options.limit || 100, 500));
+
+    return rows.map((row: typeof complianceStateHistory.$inferSelect) => ({
+      id: row.id,
+      state: row.state,
+      riskScore: toNumber(row.riskScore),
+      penaltyExposure: toNumber(row.penaltyExposure),
+      overdueItems: row.overdueItems,
+      calculationVersion: (row.snapshotData as any)?.calculationVersion || 'unknown',
+      recordedAt: row.recordedAt,
+    }));
+  }
+
+  /**
+   * The last state recorded on or before a date, or null if none was
+   */
+  async getRecordedState(entityId: number, asOf: Date): Promise<ReplayedState | null> {
+    const [row] = await db.select().from(complianceStateHistory)
+      .where(and(
+        eq(complianceStateHistory.entityId, entityId),
+        lte(complianceStateHistory.recordedAt, asOf)
+      ))
+      .orderBy(desc(complianceStateHistory.recordedAt))
+      .limit(1);
+    if (!row || !row.snapshotData) return null;
+
+    return this.fromHistoryRow(row, asOf);
+  }
+
+  /**
+   * The state the current engine derives for a date from tracking history
+   * and the rules in effect then
+   */
+  async reconstructState(entityId: number, asOf: Date): Promise<ReplayedState> {
+    const result = await stateEngine.reconstructEntityState(entityId, asOf);
+    if (!result) {
+      throw new NotFoundError('Business entity');
+    }
+
+    return {
+      entityId,
+      asOf: format(asOf, 'yyyy-MM-dd'),
+      source: 'reconstructed',
+      historyId: null,
+      recordedAt: null,
+      calculationVersion: result.entityState.calculationVersion,
+      state: result.entityState,
+    };
+  }
+
+  /**
+   * State as of a date. Recorded history is preferred; dates before the first
+   * recorded snapshot fall back to a reconstruction.
+   */
+  async getStateAsOf(entityId: number, asOf: Date, source: ReplaySource = 'recorded'): Promise<ReplayedState> {
+    if (source === 'recorded') {
+      const recorded = await this.getRecordedState(entityId, asOf);
+      if (recorded) return recorded;
+    }
+    return this.reconstructState(entityId, asOf);
+  }
+
+  /**
+   * What changed between two dates
+   */
+  async diff(entityId: number, from: Date, to: Date, source: ReplaySource = 'recorded'): Promise<ComplianceStateDiff> {
+    if (from > to) {
+      throw new ValidationError('from must be on or before to');
+    }
+    const before = await this.getStateAsOf(entityId, from, source);
+    const after = await this.getStateAsOf(entityId, to, source);
+    return this.buildDiff(before, after);
+  }
+
+  /**
+   * Re-run a recorded snapshot under the current engine version. The diff
+   * separates what the engine now says about that moment from what it said then.
+   */
+  async rerun(entityId: number, historyId: number): Promise<ComplianceStateDiff> {
+    const [row] = await db.select().from(complianceStateHistory)
+      .where(and(eq(complianceStateHistory.id, historyId), eq(complianceStateHistory.entityId, entityId)))
+      .limit(1);
+    if (!row || !row.snapshotData) {
+      throw new NotFoundError('Compliance state snapshot');
+    }
+
+    const recorded = this.fromHistoryRow(row, row.recordedAt);
+    const rerun = await this.reconstructState(entityId, row.recordedAt);
+    return this.buildDiff(recorded, rerun);
+  }
+
+  private fromHistoryRow(row: typeof complianceStateHistory.$inferSelect, asOf: Date): ReplayedState {
+    const state = reviveEntityState(row.snapshotData);
+    return {
+      entityId: row.entityId,
+      asOf: format(asOf, 'yyyy-MM-dd'),
+      source: 'recorded',
+      historyId: row.id,
+      recordedAt: row.recordedAt,
+      calculationVersion: state.calculationVersion,
+      state,
+    };
+  }
+
+  private buildDiff(before: ReplayedState, after: ReplayedState): ComplianceStateDiff {
+    const describe = (replayed: ReplayedState) => ({
+      asOf: replayed.asOf,
+      source: replayed.source,
+      recordedAt: replayed.recordedAt,
+      calculationVersion: replayed.calculationVersion,
+    });
+
+    return {
+      entityId: before.entityId,
+      before: describe(before),
+      after: describe(after),
+      versionChanged: before.calculationVersion !== after.calculationVersion,
+      ...diffEntityStates(before.state, after.state),
+    };
+  }
+}
+
+export const complianceReplayService = new ComplianceReplayService();
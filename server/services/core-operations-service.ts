@@ -28,8 +28,8 @@ import {
 import { eq, and, sql } from 'drizzle-orm';
 import {
   transitionStatus,
-  isValidTransition,
-  getValidNextStatuses,
+  isValidTransitionFor,
+  getValidNextStatusesFor,
   getProgressPercentage,
   SERVICE_REQUEST_STATUSES
 } from './service-request-state-machine';
@@ -206,10 +206,11 @@ export async function transitionServiceRequestStatus(
     const fromStatus = serviceRequest.status || 'initiated';
 
     // Validate transition (unless forced by admin)
-    if (!context.force && !isValidTransition(fromStatus, toStatus)) {
+    if (!context.force && !(await isValidTransitionFor(serviceRequest.serviceId, fromStatus, toStatus))) {
+      const validNextStatuses = await getValidNextStatusesFor(serviceRequest.serviceId, fromStatus);
       return {
         success: false,
-        message: `Invalid transition from '${fromStatus}' to '${toStatus}'. Valid next statuses: ${getValidNextStatuses(fromStatus).join(', ')}`,
+        message: `Invalid transition from '${fromStatus}' to '${toStatus}'. Valid next statuses: ${validNextStatuses.join(', ')}`,
         serviceRequestId,
         previousStatus: fromStatus,
         newStatus: toStatus,
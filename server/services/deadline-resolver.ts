@@ -0,0 +1,385 @@
+/**
+ * Deadline Resolver
+ *
+ * One place that turns a statutory due date into the date a filing is actually due:
+ * - Jurisdiction holiday calendars (national calendars apply everywhere; state and
+ *   city calendars apply to entities located there)
+ * - Per-rule adjustment: roll forward, roll back or no adjustment
+ * - Government extensions, which replace the adjusted date when they are later
+ *
+ * Used by the compliance state engine, the compliance calendar, the deadline
+ * checker job and the legacy compliance engine, so every view agrees on a deadline.
+ */
+import { db } from '../db';
+import { holidayCalendars, jurisdictions } from '../../shared/blueprints-schema';
+import { eq, and, or, inArray, isNull } from 'drizzle-orm';
+import { addDays, subDays, format, getYear } from 'date-fns';
+import { resolveStateCode } from './gst-return-builder';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEADLINE_ADJUSTMENTS = {
+  ROLL_FORWARD: 'NEXT_WORKING_DAY',
+  ROLL_BACK: 'PREVIOUS_WORKING_DAY',
+  NONE: 'NONE',
+} as const;
+
+export const DEFAULT_DEADLINE_ADJUSTMENT = DEADLINE_ADJUSTMENTS.ROLL_FORWARD;
+
+const DEFAULT_WEEKEND_DAYS = [0, 6]; // Sunday, Saturday
+const MAX_SHIFT_DAYS = 30;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+const ADJUSTMENT_ALIASES: Record<string, DeadlineAdjustment> = {
+  next_working_day: 'NEXT_WORKING_DAY',
+  roll_forward: 'NEXT_WORKING_DAY',
+  forward: 'NEXT_WORKING_DAY',
+  following: 'NEXT_WORKING_DAY',
+  previous_working_day: 'PREVIOUS_WORKING_DAY',
+  roll_back: 'PREVIOUS_WORKING_DAY',
+  roll_backward: 'PREVIOUS_WORKING_DAY',
+  backward: 'PREVIOUS_WORKING_DAY',
+  preceding: 'PREVIOUS_WORKING_DAY',
+  none: 'NONE',
+  no_adjustment: 'NONE',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DeadlineAdjustment = typeof DEADLINE_ADJUSTMENTS[keyof typeof DEADLINE_ADJUSTMENTS];
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  type: string;
+}
+
+export interface WorkingCalendar {
+  holidays: Map<string, Holiday>;
+  weekendDays: number[];
+}
+
+export interface DeadlineExtension {
+  dueDate: Date | string;
+  reference?: string | null; // Circular / notification number
+}
+
+export interface DeadlineOptions {
+  adjustment?: string | null;
+  extensions?: DeadlineExtension[];
+}
+
+export interface ResolvedDeadline {
+  statutoryDueDate: Date;
+  adjustedDueDate: Date; // After holiday adjustment
+  dueDate: Date; // Effective deadline, after extensions
+  adjustment: DeadlineAdjustment;
+  skippedHolidays: Holiday[];
+  extension: DeadlineExtension | null;
+}
+
+/** Calendars for one jurisdiction preloaded for a range of years, for synchronous batch use */
+export interface DeadlineContext {
+  jurisdictionId: string | null;
+  calendar: WorkingCalendar;
+  resolve(statutoryDueDate: Date | string, options?: DeadlineOptions): ResolvedDeadline;
+}
+
+interface CalendarRow {
+  jurisdictionId: string | null;
+  holidays: unknown;
+  weekendDays: unknown;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** Parse YYYY-MM-DD as a local calendar date; Date values are truncated to the day */
+function toLocalDate(value: Date | string): Date {
+  if (value instanceof Date) {
+    return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  }
+  return toLocalDate(new Date(value));
+}
+
+/**
+ * Map the adjustment spellings used across rule sources ('NEXT_WORKING_DAY',
+ * 'roll_forward', 'no adjustment', ...) onto one of the three semantics.
+ */
+export function normalizeAdjustment(
+  value: string | null | undefined,
+  fallback: DeadlineAdjustment = DEFAULT_DEADLINE_ADJUSTMENT
+): DeadlineAdjustment {
+  if (!value) return fallback;
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return ADJUSTMENT_ALIASES[key] || fallback;
+}
+
+/**
+ * Merge calendar rows into one working calendar. Holidays are the union of all
+ * rows; weekend days come from the most specific calendar that sets them.
+ * Rows must be ordered from least to most specific.
+ */
+export function buildWorkingCalendar(rows: CalendarRow[]): WorkingCalendar {
+  const holidays = new Map<string, Holiday>();
+  let weekendDays = DEFAULT_WEEKEND_DAYS;
+
+  for (const row of rows) {
+    const entries = Array.isArray(row.holidays) ? row.holidays as Holiday[] : [];
+    for (const holiday of entries) {
+      if (holiday?.date && !holidays.has(holiday.date)) {
+        holidays.set(holiday.date, holiday);
+      }
+    }
+    if (Array.isArray(row.weekendDays)) {
+      weekendDays = row.weekendDays.map(Number).filter((day) => day >= 0 && day <= 6);
+    }
+  }
+
+  return { holidays, weekendDays };
+}
+
+export function isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+  return !calendar.weekendDays.includes(date.getDay()) && !calendar.holidays.has(toDateKey(date));
+}
+
+/**
+ * Move a date off weekends and holidays in the given direction.
+ * Returns the new date and the holidays that were skipped.
+ */
+export function shiftToWorkingDay(
+  date: Date,
+  adjustment: DeadlineAdjustment,
+  calendar: WorkingCalendar
+): { date: Date; skippedHolidays: Holiday[] } {
+  let adjusted = toLocalDate(date);
+  const skippedHolidays: Holiday[] = [];
+  if (adjustment === 'NONE') return { date: adjusted, skippedHolidays };
+
+  for (let i = 0; i < MAX_SHIFT_DAYS && !isWorkingDay(adjusted, calendar); i++) {
+    const holiday = calendar.holidays.get(toDateKey(adjusted));
+    if (holiday) skippedHolidays.push(holiday);
+    adjusted = adjustment === 'NEXT_WORKING_DAY' ? addDays(adjusted, 1) : subDays(adjusted, 1);
+  }
+  return { date: adjusted, skippedHolidays };
+}
+
+/**
+ * Apply holiday adjustment, then any government extension. Extensions are
+ * notified as a specific date and are not shifted again; an extension earlier
+ * than the adjusted deadline never shortens it.
+ */
+export function applyDeadlineRules(
+  statutoryDueDate: Date | string,
+  calendar: WorkingCalendar,
+  options: DeadlineOptions = {}
+): ResolvedDeadline {
+  const statutory = toLocalDate(statutoryDueDate);
+  const adjustment = normalizeAdjustment(options.adjustment);
+  const shifted = shiftToWorkingDay(statutory, adjustment, calendar);
+
+  let dueDate = shifted.date;
+  let extension: DeadlineExtension | null = null;
+  for (const candidate of options.extensions || []) {
+    const extended = toLocalDate(candidate.dueDate);
+    if (extended.getTime() > dueDate.getTime()) {
+      dueDate = extended;
+      extension = candidate;
+    }
+  }
+
+  return {
+    statutoryDueDate: statutory,
+    adjustedDueDate: shifted.date,
+    dueDate,
+    adjustment,
+    skippedHolidays: shifted.skippedHolidays,
+    extension,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class DeadlineResolver {
+  // Holiday calendars change a few times a year; avoid re-reading them per deadline
+  private calendarCache = new Map<string, { rows: CalendarRow[]; expiresAt: number }>();
+  private jurisdictionCache = new Map<string, { ids: string[]; expiresAt: number }>();
+
+  /**
+   * Resolve one statutory due date for a jurisdiction (id) or an entity location
+   * (state name, GST state code or jurisdiction code).
+   */
+  async resolve(
+    statutoryDueDate: Date | string,
+    options: DeadlineOptions & { jurisdictionId?: string | null; location?: string | null } = {}
+  ): Promise<ResolvedDeadline> {
+    const date = toLocalDate(statutoryDueDate);
+    const context = await this.createContext({
+      jurisdictionId: options.jurisdictionId,
+      location: options.location,
+      years: [getYear(date)],
+    });
+    return context.resolve(date, options);
+  }
+
+  /**
+   * Preload calendars so many deadlines can be resolved synchronously. The year
+   * before and after each requested year are included for shifts across year end.
+   */
+  async createContext(options: {
+    jurisdictionId?: string | null;
+    location?: string | null;
+    years: number[];
+  }): Promise<DeadlineContext> {
+    const jurisdictionId = options.jurisdictionId || (await this.findJurisdictionId(options.location));
+    const years = new Set<number>();
+    for (const year of options.years) {
+      years.add(year - 1);
+      years.add(year);
+      years.add(year + 1);
+    }
+
+    const lineage = jurisdictionId ? await this.getJurisdictionLineage(jurisdictionId) : [];
+    const rows: CalendarRow[] = [];
+    for (const year of Array.from(years).sort()) {
+      rows.push(...(await this.getCalendarRows(year, lineage)));
+    }
+    // National rows first, then from the broadest jurisdiction to the narrowest
+    rows.sort((a, b) => lineage.indexOf(a.jurisdictionId || '') - lineage.indexOf(b.jurisdictionId || ''));
+
+    const calendar = buildWorkingCalendar(rows);
+    return {
+      jurisdictionId,
+      calendar,
+      resolve: (statutoryDueDate, deadlineOptions) => applyDeadlineRules(statutoryDueDate, calendar, deadlineOptions),
+    };
+  }
+
+  /**
+   * Move a date to a working day for a jurisdiction
+   */
+  async adjust(date: Date, adjustment: string | null | undefined, jurisdictionId?: string | null): Promise<Date> {
+    const resolved = await this.resolve(date, { adjustment, jurisdictionId });
+    return resolved.adjustedDueDate;
+  }
+
+  async isWorkingDay(date: Date, jurisdictionId?: string | null): Promise<boolean> {
+    const context = await this.createContext({ jurisdictionId, years: [getYear(date)] });
+    return isWorkingDay(toLocalDate(date), context.calendar);
+  }
+
+  /**
+   * Holidays observed in a jurisdiction (including national and parent calendars) for a year
+   */
+  async getHolidays(year: number, jurisdictionId?: string | null): Promise<Holiday[]> {
+    const lineage = jurisdictionId ? await this.getJurisdictionLineage(jurisdictionId) : [];
+    const calendar = buildWorkingCalendar(await this.getCalendarRows(year, lineage));
+    return Array.from(calendar.holidays.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Find the jurisdiction for an entity location: a jurisdiction code ('IN-MH'),
+   * a GST state code or GSTIN, or a state name.
+   */
+  async findJurisdictionId(location: string | null | undefined): Promise<string | null> {
+    if (!location?.trim()) return null;
+    const value = location.trim();
+
+    const [byCode] = await db
+      .select({ id: jurisdictions.id })
+      .from(jurisdictions)
+      .where(and(eq(jurisdictions.code, value.toUpperCase()), eq(jurisdictions.isActive, true)))
+      .limit(1);
+    if (byCode) return byCode.id;
+
+    const stateCode = resolveStateCode(value);
+    if (!stateCode) return null;
+    const [byState] = await db
+      .select({ id: jurisdictions.id })
+      .from(jurisdictions)
+      .where(and(
+        eq(jurisdictions.gstStateCode, stateCode),
+        eq(jurisdictions.level, 'STATE'),
+        eq(jurisdictions.isActive, true),
+      ))
+      .limit(1);
+    return byState?.id ?? null;
+  }
+
+  /**
+   * Forget cached calendars, e.g. after a holiday calendar is edited
+   */
+  clearCache() {
+    this.calendarCache.clear();
+    this.jurisdictionCache.clear();
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  /** Jurisdiction ids from the root (country) down to the given jurisdiction */
+  private async getJurisdictionLineage(jurisdictionId: string): Promise<string[]> {
+    const cached = this.jurisdictionCache.get(jurisdictionId);
+    if (cached && cached.expiresAt > Date.now()) return cached.ids;
+
+    const [jurisdiction] = await db
+      .select({ id: jurisdictions.id, path: jurisdictions.path })
+      .from(jurisdictions)
+      .where(eq(jurisdictions.id, jurisdictionId))
+      .limit(1);
+
+    let ids = [jurisdictionId];
+    const codes: string[] = (jurisdiction?.path || '').split('/').filter(Boolean);
+    if (codes.length > 1) {
+      const ancestors = await db
+        .select({ id: jurisdictions.id, code: jurisdictions.code })
+        .from(jurisdictions)
+        .where(inArray(jurisdictions.code, codes));
+      const idByCode = new Map<string, string>(ancestors.map((row) => [row.code, row.id]));
+      ids = codes.map((code) => idByCode.get(code)).filter((id): id is string => !!id);
+      if (!ids.includes(jurisdictionId)) ids.push(jurisdictionId);
+    }
+
+    this.jurisdictionCache.set(jurisdictionId, { ids, expiresAt: Date.now() + CACHE_TTL_MS });
+    return ids;
+  }
+
+  private async getCalendarRows(year: number, lineage: string[]): Promise<CalendarRow[]> {
+    const key = `${year}|${lineage.join(',')}`;
+    const cached = this.calendarCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.rows;
+
+    const scope = lineage.length > 0
+      ? or(isNull(holidayCalendars.jurisdictionId), inArray(holidayCalendars.jurisdictionId, lineage))
+      : isNull(holidayCalendars.jurisdictionId);
+    const rows = await db
+      .select({
+        jurisdictionId: holidayCalendars.jurisdictionId,
+        holidays: holidayCalendars.holidays,
+        weekendDays: holidayCalendars.weekendDays,
+      })
+      .from(holidayCalendars)
+      .where(and(eq(holidayCalendars.year, year), eq(holidayCalendars.isActive, true), scope));
+
+    this.calendarCache.set(key, { rows, expiresAt: Date.now() + CACHE_TTL_MS });
+    return rows;
+  }
+}
+
+export const deadlineResolver = new DeadlineResolver();
@@ -0,0 +1,246 @@
+/**
+ * Document Blocks
+ *
+ * Reduces merged template HTML to the handful of structures the PDF and DOCX
+ * renderers lay out: headings, paragraphs, lists, tables, rules and page
+ * breaks, each holding runs of bold/italic/underlined text.
+ *
+ * Only the markup document templates use is understood (h1-h3, p, div, br,
+ * b/strong, i/em, u, ul/ol/li, table/tr/td/th, hr). A page break is any
+ * element with the class "page-break". Unknown tags keep their text.
+ */
+
+export type BlockAlign = 'left' | 'center' | 'right' | 'justify';
+
+export interface TextRun {
+  text: string; // "\n" for a line break
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export type DocumentBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; runs: TextRun[]; align: BlockAlign }
+  | { type: 'paragraph'; runs: TextRun[]; align: BlockAlign }
+  | { type: 'list'; ordered: boolean; items: TextRun[][] }
+  | { type: 'table'; rows: Array<Array<{ runs: TextRun[]; header: boolean }>> }
+  | { type: 'rule' }
+  | { type: 'page_break' };
+
+interface RunStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', rsquo: '’', lsquo: '‘',
+  rdquo: '”', ldquo: '“', ndash: '–', mdash: '—', hellip: '…', rupee: '₹',
+};
+
+/**
+ * Turn template HTML into layout blocks
+ */
+export function htmlToBlocks(html: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const styles: RunStyle[] = [{ bold: false, italic: false, underline: false }];
+
+  let runs: TextRun[] = [];
+  let current: { type: 'heading'; level: 1 | 2 | 3; align: BlockAlign } | { type: 'paragraph'; align: BlockAlign } | null = null;
+  let list: { ordered: boolean; items: TextRun[][] } | null = null;
+  let table: { rows: Array<Array<{ runs: TextRun[]; header: boolean }>> } | null = null;
+  let cellHeader = false;
+  let inCell = false;
+  let inItem = false;
+
+  const style = () => styles[styles.length - 1];
+  const pushStyle = (change: Partial<RunStyle>) => styles.push({ ...style(), ...change });
+  const popStyle = () => { if (styles.length > 1) styles.pop(); };
+
+  // Close whatever paragraph/heading/list item/cell is collecting runs
+  const flush = () => {
+    const cleaned = tidyRuns(runs);
+    runs = [];
+    if (inCell && table) {
+      const row = table.rows[table.rows.length - 1];
+      if (row) row.push({ runs: cleaned, header: cellHeader });
+      inCell = false;
+      return;
+    }
+    if (inItem && list) {
+      if (cleaned.length > 0) list.items.push(cleaned);
+      inItem = false;
+      return;
+    }
+    if (cleaned.length === 0) {
+      current = null;
+      return;
+    }
+    if (current?.type === 'heading') {
+      blocks.push({ type: 'heading', level: current.level, runs: cleaned, align: current.align });
+    } else {
+      blocks.push({ type: 'paragraph', runs: cleaned, align: current?.align || 'left' });
+    }
+    current = null;
+  };
+
+  for (const match of Array.from(html.matchAll(/<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+)/g))) {
+    const [, closing, rawTag, attributes = '', text] = match;
+
+    if (text !== undefined) {
+      const decoded = decodeEntities(text.replace(/\s+/g, ' '));
+      if (decoded.trim() || runs.length > 0) runs.push({ text: decoded, ...style() });
+      continue;
+    }
+    if (!rawTag) continue; // comment
+
+    const tag = rawTag.toLowerCase();
+    const isClosing = closing === '/';
+
+    if (!isClosing && /class\s*=\s*["'][^"']*\bpage-break\b/i.test(attributes)) {
+      flush();
+      blocks.push({ type: 'page_break' });
+      continue;
+    }
+
+    switch (tag) {
+      case 'b':
+      case 'strong':
+        isClosing ? popStyle() : pushStyle({ bold: true });
+        break;
+      case 'i':
+      case 'em':
+        isClosing ? popStyle() : pushStyle({ italic: true });
+        break;
+      case 'u':
+        isClosing ? popStyle() : pushStyle({ underline: true });
+        break;
+      case 'br':
+        runs.push({ text: '\n', ...style() });
+        break;
+      case 'h1':
+      case 'h2':
+      case 'h3':
+        flush();
+        if (!isClosing) current = { type: 'heading', level: parseInt(tag[1]) as 1 | 2 | 3, align: alignOf(attributes) };
+        break;
+      case 'p':
+      case 'div':
+        if (inCell || inItem) {
+          if (isClosing) runs.push({ text: '\n', ...style() });
+          break;
+        }
+        flush();
+        if (!isClosing) current = { type: 'paragraph', align: alignOf(attributes) };
+        break;
+      case 'hr':
+        flush();
+        blocks.push({ type: 'rule' });
+        break;
+      case 'ul':
+      case 'ol':
+        flush();
+        if (isClosing) {
+          if (list && list.items.length > 0) blocks.push({ type: 'list', ...list });
+          list = null;
+        } else {
+          list = { ordered: tag === 'ol', items: [] };
+        }
+        break;
+      case 'li':
+        if (!list) break;
+        if (inItem) flush();
+        if (!isClosing) {
+          runs = [];
+          inItem = true;
+        }
+        break;
+      case 'table':
+        flush();
+        if (isClosing) {
+          if (table && table.rows.some(row => row.length > 0)) {
+            blocks.push({ type: 'table', rows: table.rows.filter(row => row.length > 0) });
+          }
+          table = null;
+        } else {
+          table = { rows: [] };
+        }
+        break;
+      case 'tr':
+        if (!table) break;
+        if (inCell) flush();
+        if (!isClosing) table.rows.push([]);
+        break;
+      case 'td':
+      case 'th':
+        if (!table) break;
+        if (inCell) flush();
+        if (!isClosing) {
+          runs = [];
+          inCell = true;
+          cellHeader = tag === 'th';
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  flush();
+  if (list && list.items.length > 0) blocks.push({ type: 'list', ...list });
+  return blocks;
+}
+
+/**
+ * Plain text of a run list, for previews and search
+ */
+export function runsToText(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('');
+}
+
+function alignOf(attributes: string): BlockAlign {
+  const match = attributes.match(/text-align\s*:\s*(left|center|right|justify)/i)
+    || attributes.match(/align\s*=\s*["']?(left|center|right|justify)/i);
+  return (match?.[1].toLowerCase() as BlockAlign) || 'left';
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Trim whitespace at the edges and around line breaks, merge same-style runs
+function tidyRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && last.text !== '\n' && run.text !== '\n'
+      && last.bold === run.bold && last.italic === run.italic && last.underline === run.underline) {
+      last.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+
+  for (let i = 0; i < merged.length; i++) {
+    if (merged[i].text === '\n') continue;
+    if (i === 0 || merged[i - 1].text === '\n') merged[i].text = merged[i].text.replace(/^ +/, '');
+    if (i === merged.length - 1 || merged[i + 1].text === '\n') merged[i].text = merged[i].text.replace(/ +$/, '');
+  }
+
+  const kept = merged.filter(run => run.text !== '');
+  while (kept.length > 0 && kept[kept.length - 1].text === '\n') kept.pop();
+  while (kept.length > 0 && kept[0].text === '\n') kept.shift();
+  return kept.map(run => {
+    const clean: TextRun = { text: run.text };
+    if (run.bold) clean.bold = true;
+    if (run.italic) clean.italic = true;
+    if (run.underline) clean.underline = true;
+    return clean;
+  });
+}
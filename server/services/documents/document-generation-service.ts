@@ -0,0 +1,630 @@
+/**
+ * Document Generation Service
+ *
+ * Renders merge templates (board resolutions, DIR-2 consents, INC-9
+ * declarations, engagement letters) for a business entity or service request
+ * into PDF and/or DOCX.
+ *
+ * Requests create a document_generation_jobs row and queue it on the
+ * documents queue (run in-process without Redis). Each template and target
+ * has one ai_documents row holding the current output; regenerating archives
+ * the previous content and files into document_versions and bumps the
+ * version, the same history the AI document editor keeps.
+ */
+
+import { db } from '../../db';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+import {
+  aiDocuments,
+  businessEntities,
+  documentVersions,
+  serviceRequests,
+  services,
+  users,
+} from '@shared/schema';
+import { documentGenerationJobs, documentTemplatesV2 } from '@shared/enterprise-schema';
+import { addJob, QueueNames } from '../../queues';
+import { uploadToStorage, getSignedUrl } from '../../file-upload';
+import { generateDocumentId } from '../id-generator';
+import { notificationDispatcher } from '../notifications/notification-dispatcher';
+import { ConflictError, NotFoundError, ValidationError } from '../../errors';
+import { logger } from '../../logger';
+import { renderTemplate, validateTemplate, TemplateError, type MergeData } from './template-merge';
+import { assembleMergeData } from './merge-data';
+import { htmlToBlocks } from './document-blocks';
+import { OUTPUT_FORMATS, OUTPUT_MIME_TYPES, renderDocx, renderPdf, type OutputFormat } from './document-renderers';
+
+type DocumentTemplate = typeof documentTemplatesV2.$inferSelect;
+type GenerationJob = typeof documentGenerationJobs.$inferSelect;
+
+export type GenerationTargetType = 'service_request' | 'business_entity';
+
+export interface TemplateVariable {
+  name: string;
+  type: string; // 'text', 'date', 'number', 'list'
+  required: boolean;
+  default?: unknown;
+}
+
+export interface TemplateInput {
+  name: string;
+  category?: string | null;
+  documentType?: string | null;
+  templateContent: string;
+  variables?: TemplateVariable[];
+  isActive?: boolean;
+}
+
+export interface GenerationRequest {
+  templateId: number;
+  serviceRequestId?: number | null;
+  businessEntityId?: number | null;
+  variables?: Record<string, unknown>;
+  formats?: OutputFormat[];
+}
+
+export interface GenerationPreview {
+  html: string;
+  missingFields: string[];
+  fields: string[];
+}
+
+export interface GeneratedDocument {
+  id: number;
+  documentNumber: string;
+  title: string;
+  version: number | null;
+  pdfUrl: string | null;
+  docxUrl: string | null;
+  updatedAt: Date | null;
+  versions: Array<{ version: number; pdfUrl: string | null; docxUrl: string | null; changes: string | null; editedAt: Date | null }>;
+}
+
+const FIRM_DETAILS = {
+  name: process.env.COMPANY_NAME || 'DigiComply Services Pvt Ltd',
+  address: process.env.COMPANY_ADDRESS || '',
+  city: process.env.COMPANY_CITY || 'Bengaluru, Karnataka',
+  email: process.env.COMPANY_EMAIL || 'billing@digicomply.in',
+  phone: process.env.COMPANY_PHONE || '',
+  gstin: process.env.COMPANY_GSTIN || '',
+  website: process.env.COMPANY_WEBSITE || 'www.digicomply.in',
+};
+
+// ============================================
+// DOCUMENT GENERATION SERVICE CLASS
+// ============================================
+class DocumentGenerationService {
+  // ----- Templates -----
+
+  async listTemplates(filters: { category?: string; documentType?: string; includeInactive?: boolean } = {}): Promise<DocumentTemplate[]> {
+    const conditions: SQL[] = [];
+    if (!filters.includeInactive) conditions.push(eq(documentTemplatesV2.isActive, true));
+    if (filters.category) conditions.push(eq(documentTemplatesV2.category, filters.category));
+    if (filters.documentType) conditions.push(eq(documentTemplatesV2.documentType, filters.documentType));
+
+    return db.select()
+      .from(documentTemplatesV2)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(documentTemplatesV2.name);
+  }
+
+  async getTemplate(templateId: number): Promise<DocumentTemplate> {
+    const [template] = await db.select().from(documentTemplatesV2).where(eq(documentTemplatesV2.id, templateId));
+    if (!template) {
+      throw new NotFoundError('Document template');
+    }
+    return template;
+  }
+
+  async createTemplate(input: TemplateInput, userId: number): Promise<DocumentTemplate> {
+    const checked = this.checkTemplateInput(input);
+    const [template] = await db.insert(documentTemplatesV2).values({
+      name: checked.name,
+      category: input.category || null,
+      documentType: input.documentType || null,
+      templateType: 'html',
+      templateContent: checked.templateContent,
+      variables: checked.variables,
+      isActive: input.isActive ?? true,
+      createdBy: userId,
+    }).returning();
+    return template;
+  }
+
+  /**
+   * Update a template; a content change starts a new template version
+   */
+  async updateTemplate(templateId: number, input: Partial<TemplateInput>): Promise<DocumentTemplate> {
+    const existing = await this.getTemplate(templateId);
+    const checked = this.checkTemplateInput({
+      name: input.name ?? existing.name,
+      templateContent: input.templateContent ?? existing.templateContent,
+      variables: input.variables ?? (existing.variables as TemplateVariable[] | null) ?? undefined,
+    });
+    const contentChanged = checked.templateContent !== existing.templateContent;
+
+    const [template] = await db.update(documentTemplatesV2)
+      .set({
+        name: checked.name,
+        ...(input.category !== undefined && { category: input.category }),
+        ...(input.documentType !== undefined && { documentType: input.documentType }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+        templateContent: checked.templateContent,
+        variables: checked.variables,
+        version: contentChanged ? (existing.version || 1) + 1 : existing.version,
+        updatedAt: new Date(),
+      })
+      .where(eq(documentTemplatesV2.id, templateId))
+      .returning();
+    return template;
+  }
+
+  /**
+   * Merge a template for a target without rendering files, so ops can see
+   * which fields are still missing before queueing the job
+   */
+  async preview(request: Omit<GenerationRequest, 'formats'>): Promise<GenerationPreview> {
+    const template = await this.getTemplate(request.templateId);
+    const target = this.resolveTarget(request);
+    const data = await this.buildMergeData(target, request.variables || {}, template);
+    const merged = this.merge(template, data);
+    return { ...merged, fields: validateTemplate(template.templateContent).fields };
+  }
+
+  // ----- Jobs -----
+
+  /**
+   * Queue generation of a template for a service request or business entity
+   */
+  async requestGeneration(request: GenerationRequest, userId: number): Promise<GenerationJob> {
+    const template = await this.getTemplate(request.templateId);
+    if (!template.isActive) {
+      throw new ValidationError('Template is inactive');
+    }
+    const target = this.resolveTarget(request);
+    const formats = this.checkFormats(request.formats);
+
+    const [job] = await db.insert(documentGenerationJobs).values({
+      templateId: template.id,
+      templateVersion: template.version,
+      entityType: target.entityType,
+      entityId: target.entityId,
+      variablesData: request.variables || {},
+      outputFormats: formats,
+      status: 'pending',
+      requestedBy: userId,
+    }).returning();
+
+    await this.enqueue(job.id);
+    return (await this.getJob(job.id)) || job;
+  }
+
+  /**
+   * Queue a failed job again with the same inputs
+   */
+  async retryJob(jobId: number): Promise<GenerationJob> {
+    const [job] = await db.update(documentGenerationJobs)
+      .set({ status: 'pending', errorMessage: null, missingFields: null })
+      .where(and(eq(documentGenerationJobs.id, jobId), eq(documentGenerationJobs.status, 'failed')))
+      .returning();
+    if (!job) {
+      await this.requireJob(jobId);
+      throw new ConflictError('Only failed jobs can be retried');
+    }
+    await this.enqueue(job.id);
+    return (await this.getJob(job.id)) || job;
+  }
+
+  async getJob(jobId: number): Promise<GenerationJob | null> {
+    const [job] = await db.select().from(documentGenerationJobs).where(eq(documentGenerationJobs.id, jobId));
+    return job || null;
+  }
+
+  async listJobs(filters: { status?: string; entityType?: string; entityId?: number; limit?: number } = {}): Promise<GenerationJob[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(documentGenerationJobs.status, filters.status));
+    if (filters.entityType) conditions.push(eq(documentGenerationJobs.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(documentGenerationJobs.entityId, filters.entityId));
+
+    return db.select()
+      .from(documentGenerationJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(documentGenerationJobs.createdAt))
+      .limit(Math.min(filters.limit || 50, 200));
+  }
+
+  /**
+   * Queue worker entry point: merge, render and store one job's documents
+   */
+  async processJob(jobId: number): Promise<{ status: string; aiDocumentId?: number; version?: number }> {
+    // Claim the job so a redelivered queue message does not render it twice
+    const [job] = await db.update(documentGenerationJobs)
+      .set({ status: 'processing', startedAt: new Date() })
+      .where(and(eq(documentGenerationJobs.id, jobId), eq(documentGenerationJobs.status, 'pending')))
+      .returning();
+    if (!job) {
+      logger.info(`Document generation job ${jobId} is not pending, skipping`);
+      return { status: 'skipped' };
+    }
+
+    try {
+      const template = await this.getTemplate(job.templateId!);
+      const target = { entityType: job.entityType as GenerationTargetType, entityId: job.entityId! };
+      const data = await this.buildMergeData(target, (job.variablesData as Record<string, unknown>) || {}, template);
+      const merged = this.merge(template, data);
+
+      if (merged.missingFields.length > 0) {
+        await this.failJob(job, `Missing merge fields: ${merged.missingFields.join(', ')}`, merged.missingFields);
+        return { status: 'failed' };
+      }
+
+      const title = this.documentTitle(template, data);
+      const blocks = htmlToBlocks(merged.html);
+      const formats = this.checkFormats(job.outputFormats as OutputFormat[] | null);
+      const files: Partial<Record<OutputFormat, string>> = {};
+
+      for (const format of formats) {
+        const buffer = format === 'pdf'
+          ? await renderPdf(blocks, { title, author: FIRM_DETAILS.name })
+          : renderDocx(blocks, { title, author: FIRM_DETAILS.name });
+        const upload = await uploadToStorage({
+          buffer,
+          originalname: `${fileSlug(title)}.${format}`,
+          mimetype: OUTPUT_MIME_TYPES[format],
+          size: buffer.length,
+        } as Express.Multer.File, false, `generated/${target.entityType}/${target.entityId}`);
+        files[format] = upload.path;
+      }
+
+      const stored = await this.storeVersion(job, template, { title, html: merged.html, data, files });
+
+      await db.update(documentGenerationJobs)
+        .set({
+          status: 'completed',
+          templateVersion: template.version,
+          aiDocumentId: stored.id,
+          documentVersion: stored.version,
+          errorMessage: null,
+          missingFields: null,
+          completedAt: new Date(),
+        })
+        .where(eq(documentGenerationJobs.id, job.id));
+
+      await this.notifyRequester(job, `${title} is ready`, `Version ${stored.version} generated as ${formats.join(' and ').toUpperCase()}.`);
+      logger.info(`Generated ${title} v${stored.version} (job ${job.id})`);
+      return { status: 'completed', aiDocumentId: stored.id, version: stored.version };
+    } catch (error) {
+      // Failed jobs are retried from the jobs list once the cause is fixed
+      logger.error(`Document generation job ${job.id} failed:`, error);
+      await this.failJob(job, error instanceof Error ? error.message : String(error));
+      return { status: 'failed' };
+    }
+  }
+
+  // ----- Output -----
+
+  /**
+   * A generated document with its earlier versions, file paths signed for download
+   */
+  async getGeneratedDocument(aiDocumentId: number): Promise<GeneratedDocument> {
+    const [document] = await db.select().from(aiDocuments).where(eq(aiDocuments.id, aiDocumentId));
+    if (!document || document.generatedBy !== 'template') {
+      throw new NotFoundError('Generated document');
+    }
+    const versions = await db.select()
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, aiDocumentId))
+      .orderBy(desc(documentVersions.version));
+
+    const sign = (path: string | null) => (path ? getSignedUrl(path, 15 * 60 * 1000) : Promise.resolve(null));
+    return {
+      id: document.id,
+      documentNumber: document.documentNumber,
+      title: document.title,
+      version: document.version,
+      pdfUrl: await sign(document.pdfUrl),
+      docxUrl: await sign(document.docxUrl),
+      updatedAt: document.updatedAt,
+      versions: await Promise.all(versions.map(async (version) => ({
+        version: version.version,
+        pdfUrl: await sign(version.pdfUrl),
+        docxUrl: await sign(version.docxUrl),
+        changes: version.changes,
+        editedAt: version.editedAt,
+      }))),
+    };
+  }
+
+  // ----- Internals -----
+
+  private async enqueue(generationJobId: number) {
+    const queued = await addJob(QueueNames.DOCUMENTS, 'generate', { generationJobId }, {
+      jobId: `docgen-${generationJobId}`,
+    });
+    if (!queued) {
+      logger.warn(`Document generation job ${generationJobId} could not be queued`);
+    }
+  }
+
+  private resolveTarget(request: { serviceRequestId?: number | null; businessEntityId?: number | null }): {
+    entityType: GenerationTargetType;
+    entityId: number;
+  } {
+    if (request.serviceRequestId) return { entityType: 'service_request', entityId: request.serviceRequestId };
+    if (request.businessEntityId) return { entityType: 'business_entity', entityId: request.businessEntityId };
+    throw new ValidationError('A serviceRequestId or businessEntityId is required');
+  }
+
+  private async buildMergeData(
+    target: { entityType: GenerationTargetType; entityId: number },
+    variables: Record<string, unknown>,
+    template: DocumentTemplate
+  ): Promise<MergeData> {
+    let serviceRequest: typeof serviceRequests.$inferSelect | null = null;
+    let entityId: number | null = target.entityType === 'business_entity' ? target.entityId : null;
+
+    if (target.entityType === 'service_request') {
+      const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, target.entityId));
+      if (!request) {
+        throw new NotFoundError('Service request');
+      }
+      serviceRequest = request;
+      entityId = request.businessEntityId || request.entityId;
+    }
+
+    const [entity] = entityId
+      ? await db.select().from(businessEntities).where(eq(businessEntities.id, entityId))
+      : [];
+    if (target.entityType === 'business_entity' && !entity) {
+      throw new NotFoundError('Business entity');
+    }
+
+    const ownerId = entity?.ownerId || serviceRequest?.userId;
+    const [owner] = ownerId
+      ? await db.select({ fullName: users.fullName, email: users.email, phone: users.phone }).from(users).where(eq(users.id, ownerId))
+      : [];
+    const [service] = serviceRequest
+      ? await db.select({ name: services.name, category: services.category, description: services.description })
+        .from(services)
+        .where(eq(services.serviceId, serviceRequest.serviceId))
+      : [];
+
+    return assembleMergeData({
+      entity: entity || null,
+      owner: owner || null,
+      serviceRequest,
+      service: service || null,
+      firm: FIRM_DETAILS,
+      variables: { ...this.variableDefaults(template), ...variables },
+    });
+  }
+
+  private merge(template: DocumentTemplate, data: MergeData) {
+    try {
+      return renderTemplate(template.templateContent, data);
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new ValidationError('Template has syntax errors', { errors: error.errors });
+      }
+      throw error;
+    }
+  }
+
+  // Declared variable defaults, nested by their dotted names
+  private variableDefaults(template: DocumentTemplate): Record<string, unknown> {
+    const defaults: Record<string, unknown> = {};
+    for (const variable of (template.variables as TemplateVariable[] | null) || []) {
+      if (variable.default === undefined || variable.default === null || variable.default === '') continue;
+      const keys = variable.name.split('.');
+      let node = defaults;
+      keys.slice(0, -1).forEach((key) => {
+        if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+        node = node[key] as Record<string, unknown>;
+      });
+      node[keys[keys.length - 1]] = variable.default;
+    }
+    return defaults;
+  }
+
+  /**
+   * Put the output on the template's document for this target: the first
+   * run creates it, later runs archive the current version first
+   */
+  private async storeVersion(
+    job: GenerationJob,
+    template: DocumentTemplate,
+    output: { title: string; html: string; data: MergeData; files: Partial<Record<OutputFormat, string>> }
+  ): Promise<{ id: number; version: number }> {
+    const [previous] = await db.select({ aiDocumentId: documentGenerationJobs.aiDocumentId })
+      .from(documentGenerationJobs)
+      .where(and(
+        eq(documentGenerationJobs.templateId, job.templateId!),
+        eq(documentGenerationJobs.entityType, job.entityType!),
+        eq(documentGenerationJobs.entityId, job.entityId!),
+        eq(documentGenerationJobs.status, 'completed')
+      ))
+      .orderBy(desc(documentGenerationJobs.completedAt))
+      .limit(1);
+
+    const [existing] = previous?.aiDocumentId
+      ? await db.select().from(aiDocuments).where(eq(aiDocuments.id, previous.aiDocumentId))
+      : [];
+    const editedBy = job.requestedBy || template.createdBy || 0;
+
+    if (!existing) {
+      const serviceRequest = job.entityType === 'service_request' ? job.entityId : null;
+      const { entityId, clientId } = await this.ownerOf(job);
+      const [created] = await db.insert(aiDocuments).values({
+        documentNumber: await generateDocumentId(),
+        title: output.title,
+        documentType: template.documentType || 'letter',
+        category: template.category || 'compliance',
+        generatedBy: 'template',
+        aiModel: null,
+        content: output.html,
+        contentFormat: 'html',
+        variables: output.data,
+        serviceRequestId: serviceRequest,
+        clientId,
+        entityId,
+        status: 'draft',
+        version: 1,
+        pdfUrl: output.files.pdf || null,
+        docxUrl: output.files.docx || null,
+        createdBy: editedBy,
+      }).returning();
+      return { id: created.id, version: 1 };
+    }
+
+    const currentVersion = existing.version || 1;
+    const [producedBy] = await db.select({ id: documentGenerationJobs.id, templateVersion: documentGenerationJobs.templateVersion })
+      .from(documentGenerationJobs)
+      .where(and(
+        eq(documentGenerationJobs.aiDocumentId, existing.id),
+        eq(documentGenerationJobs.documentVersion, currentVersion)
+      ))
+      .limit(1);
+    // Documents generated before the client was recorded pick it up here
+    const clientId = existing.clientId ?? (await this.ownerOf(job)).clientId;
+
+    // The archived version and the bump land together; a lost race undoes both
+    return db.transaction(async (tx) => {
+      await tx.insert(documentVersions).values({
+        documentId: existing.id,
+        version: currentVersion,
+        content: existing.content,
+        contentFormat: existing.contentFormat,
+        pdfUrl: existing.pdfUrl,
+        docxUrl: existing.docxUrl,
+        changes: producedBy
+          ? `Generated from template "${template.name}" v${producedBy.templateVersion || 1} (job #${producedBy.id})`
+          : 'Edited before regeneration',
+        editedBy,
+      });
+
+      const [updated] = await tx.update(aiDocuments)
+        .set({
+          title: output.title,
+          clientId,
+          content: output.html,
+          variables: output.data,
+          version: currentVersion + 1,
+          pdfUrl: output.files.pdf || null,
+          docxUrl: output.files.docx || null,
+          // A regenerated document needs review and signing again
+          status: 'draft',
+          lastEditedBy: editedBy,
+          lastEditedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(aiDocuments.id, existing.id), eq(aiDocuments.version, currentVersion)))
+        .returning({ id: aiDocuments.id, version: aiDocuments.version });
+      if (!updated) {
+        throw new ConflictError(`Document ${existing.documentNumber} changed while job ${job.id} was generating it`);
+      }
+      return { id: updated.id, version: updated.version || currentVersion + 1 };
+    });
+  }
+
+  /**
+   * The entity a generated document is filed under and the client it is made
+   * out to: the entity's owner, else whoever raised the service request
+   */
+  private async ownerOf(job: GenerationJob): Promise<{ entityId: number | null; clientId: number | null }> {
+    let entityId = job.entityType === 'business_entity' ? job.entityId : null;
+    let requesterId: number | null = null;
+    if (job.entityType === 'service_request' && job.entityId) {
+      const [request] = await db.select({
+        businessEntityId: serviceRequests.businessEntityId,
+        entityId: serviceRequests.entityId,
+        userId: serviceRequests.userId,
+      })
+        .from(serviceRequests)
+        .where(eq(serviceRequests.id, job.entityId));
+      entityId = request?.businessEntityId || request?.entityId || null;
+      requesterId = request?.userId ?? null;
+    }
+
+    const [entity] = entityId
+      ? await db.select({ ownerId: businessEntities.ownerId }).from(businessEntities).where(eq(businessEntities.id, entityId))
+      : [];
+    return { entityId, clientId: entity?.ownerId || requesterId };
+  }
+
+  private documentTitle(template: DocumentTemplate, data: MergeData): string {
+    const entity = data.entity as { name?: string } | undefined;
+    return entity?.name ? `${template.name} - ${entity.name}` : template.name;
+  }
+
+  private async failJob(job: GenerationJob, message: string, missingFields: string[] | null = null) {
+    await db.update(documentGenerationJobs)
+      .set({ status: 'failed', errorMessage: message.slice(0, 2000), missingFields, completedAt: new Date() })
+      .where(eq(documentGenerationJobs.id, job.id));
+    await this.notifyRequester(job, 'Document generation failed', message.slice(0, 280));
+  }
+
+  private async notifyRequester(job: GenerationJob, subject: string, content: string) {
+    if (!job.requestedBy) return;
+    try {
+      await notificationDispatcher.dispatch({
+        type: 'document_generated',
+        userId: job.requestedBy,
+        channels: ['in_app'],
+        subject,
+        content,
+        referenceType: 'document_generation_job',
+        referenceId: job.id,
+        data: { generationJobId: job.id, entityType: job.entityType, entityId: job.entityId },
+        idempotencyKey: `docgen-${job.id}-${job.startedAt?.getTime() || 0}`,
+        respectPreferences: false,
+      });
+    } catch (error) {
+      logger.warn(`Could not notify user ${job.requestedBy} about document job ${job.id}:`, error);
+    }
+  }
+
+  private async requireJob(jobId: number): Promise<GenerationJob> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      throw new NotFoundError('Document generation job');
+    }
+    return job;
+  }
+
+  private checkFormats(formats: OutputFormat[] | null | undefined): OutputFormat[] {
+    const requested = formats && formats.length > 0 ? Array.from(new Set(formats)) : ['pdf' as OutputFormat];
+    const unknown = requested.filter(format => !OUTPUT_FORMATS.includes(format));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unsupported output format: ${unknown.join(', ')}`, { allowed: OUTPUT_FORMATS });
+    }
+    return requested;
+  }
+
+  private checkTemplateInput(input: Pick<TemplateInput, 'name' | 'templateContent' | 'variables'>) {
+    if (!input.name || !input.name.trim()) {
+      throw new ValidationError('Template name is required');
+    }
+    if (!input.templateContent || !input.templateContent.trim()) {
+      throw new ValidationError('Template content is required');
+    }
+    const validation = validateTemplate(input.templateContent);
+    if (!validation.valid) {
+      throw new ValidationError('Template has syntax errors', { errors: validation.errors });
+    }
+    const variables = Array.isArray(input.variables) ? input.variables : [];
+    for (const variable of variables) {
+      if (!variable || typeof variable.name !== 'string' || !variable.name.trim()) {
+        throw new ValidationError('Every template variable needs a name');
+      }
+    }
+    return { name: input.name.trim(), templateContent: input.templateContent, variables, fields: validation.fields };
+  }
+}
+
+function fileSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'document';
+}
+
+// Export singleton instance
+export const documentGenerationService = new DocumentGenerationService();
+export { DocumentGenerationService };
@@ -0,0 +1,367 @@
+/**
+ * Document Renderers
+ *
+ * Lays out document blocks as an A4 PDF (pdfkit) or a Word .docx. The DOCX is
+ * a minimal WordprocessingML package written directly, with formatting on
+ * the runs and paragraphs rather than in a styles part, so it opens the same
+ * in Word, LibreOffice and Google Docs and stays editable for the CS team.
+ */
+
+import PDFDocument from 'pdfkit';
+import zlib from 'zlib';
+import type { BlockAlign, DocumentBlock, TextRun } from './document-blocks';
+
+export type OutputFormat = 'pdf' | 'docx';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['pdf', 'docx'];
+
+export const OUTPUT_MIME_TYPES: Record<OutputFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+interface RenderOptions {
+  title: string;
+  author?: string;
+}
+
+// ============================================
+// PDF
+// ============================================
+
+const PDF_MARGIN = 72;
+const HEADING_SIZES = { 1: 15, 2: 13, 3: 12 } as const;
+const BODY_SIZE = 11;
+
+/**
+ * Render blocks as an A4 PDF in Times. The standard PDF fonts have no rupee
+ * glyph, so ₹ is written as "Rs.".
+ */
+export function renderPdf(blocks: DocumentBlock[], options: RenderOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PDF_MARGIN,
+      info: { Title: options.title, Author: options.author || 'DigiComply' },
+    });
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const width = doc.page.width - PDF_MARGIN * 2;
+
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'heading':
+          writeRuns(doc, block.runs.map(run => ({ ...run, bold: true })), HEADING_SIZES[block.level], block.align, width);
+          doc.moveDown(0.6);
+          break;
+
+        case 'paragraph':
+          writeRuns(doc, block.runs, BODY_SIZE, block.align, width);
+          doc.moveDown(0.6);
+          break;
+
+        case 'list':
+          block.items.forEach((item, index) => {
+            const marker = block.ordered ? `${index + 1}.` : '•';
+            const y = doc.y;
+            doc.font('Times-Roman').fontSize(BODY_SIZE).text(marker, PDF_MARGIN, y, { width: 20 });
+            doc.y = y;
+            writeRuns(doc, item, BODY_SIZE, 'left', width - 24, PDF_MARGIN + 24);
+            doc.moveDown(0.3);
+          });
+          doc.x = PDF_MARGIN;
+          doc.moveDown(0.3);
+          break;
+
+        case 'table':
+          writeTable(doc, block.rows, width);
+          doc.moveDown(0.6);
+          break;
+
+        case 'rule':
+          doc.moveTo(PDF_MARGIN, doc.y).lineTo(PDF_MARGIN + width, doc.y).lineWidth(0.5).stroke();
+          doc.moveDown(0.6);
+          break;
+
+        case 'page_break':
+          doc.addPage();
+          break;
+      }
+    }
+
+    doc.end();
+  });
+}
+
+function writeRuns(
+  doc: PDFKit.PDFDocument,
+  runs: TextRun[],
+  size: number,
+  align: BlockAlign,
+  width: number,
+  x: number = PDF_MARGIN
+) {
+  doc.fontSize(size);
+  const start = doc.y;
+  runs.forEach((run, index) => {
+    doc.font(pdfFont(run));
+    const options = { width, align, underline: !!run.underline, continued: index < runs.length - 1 };
+    const text = pdfText(run.text);
+    if (index === 0) {
+      doc.text(text, x, start, options);
+    } else {
+      doc.text(text, options);
+    }
+  });
+  doc.x = PDF_MARGIN;
+}
+
+function writeTable(doc: PDFKit.PDFDocument, rows: Array<Array<{ runs: TextRun[]; header: boolean }>>, width: number) {
+  const columns = Math.max(...rows.map(row => row.length));
+  const columnWidth = width / columns;
+  const padding = 4;
+
+  for (const row of rows) {
+    doc.fontSize(BODY_SIZE - 1);
+    const heights = row.map(cell => {
+      doc.font(cell.header ? 'Times-Bold' : 'Times-Roman');
+      return doc.heightOfString(pdfText(cellText(cell.runs)), { width: columnWidth - padding * 2 });
+    });
+    const rowHeight = Math.max(...heights, BODY_SIZE) + padding * 2;
+    if (doc.y + rowHeight > doc.page.height - PDF_MARGIN) doc.addPage();
+
+    const top = doc.y;
+    row.forEach((cell, index) => {
+      const left = PDF_MARGIN + index * columnWidth;
+      doc.lineWidth(0.5).rect(left, top, columnWidth, rowHeight).stroke();
+      doc.font(cell.header ? 'Times-Bold' : 'Times-Roman')
+        .text(pdfText(cellText(cell.runs)), left + padding, top + padding, { width: columnWidth - padding * 2 });
+    });
+    doc.x = PDF_MARGIN;
+    doc.y = top + rowHeight;
+  }
+}
+
+function pdfFont(run: TextRun): string {
+  if (run.bold && run.italic) return 'Times-BoldItalic';
+  if (run.bold) return 'Times-Bold';
+  if (run.italic) return 'Times-Italic';
+  return 'Times-Roman';
+}
+
+function pdfText(text: string): string {
+  return text.replace(/₹\s?/g, 'Rs. ');
+}
+
+function cellText(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('');
+}
+
+// ============================================
+// DOCX
+// ============================================
+
+const DOCX_HEADING_HALF_POINTS = { 1: 30, 2: 26, 3: 24 } as const;
+const DOCX_BODY_HALF_POINTS = 22;
+
+/**
+ * Render blocks as a Word document
+ */
+export function renderDocx(blocks: DocumentBlock[], options: RenderOptions): Buffer {
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return paragraphXml(block.runs.map(run => ({ ...run, bold: true })), {
+          align: block.align,
+          size: DOCX_HEADING_HALF_POINTS[block.level],
+          keepNext: true,
+        });
+      case 'paragraph':
+        return paragraphXml(block.runs, { align: block.align });
+      case 'list':
+        return block.items.map((item, index) => paragraphXml(
+          [{ text: `${block.ordered ? `${index + 1}.` : '•'}\t` }, ...item],
+          { indent: true }
+        )).join('');
+      case 'table':
+        return tableXml(block.rows);
+      case 'rule':
+        return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+      case 'page_break':
+        return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+    }
+  }).join('');
+
+  const document = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+    + `<w:body>${body}`
+    + '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>'
+    + '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>'
+    + '</w:sectPr></w:body></w:document>';
+
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const core = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" '
+    + 'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" '
+    + 'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${xmlEscape(options.title)}</dc:title>`
+    + `<dc:creator>${xmlEscape(options.author || 'DigiComply')}</dc:creator>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>`
+    + '</cp:coreProperties>';
+
+  return zipFiles([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+        + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+        + '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+        + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+        + '</Relationships>',
+    },
+    { name: 'docProps/core.xml', content: core },
+    { name: 'word/document.xml', content: document },
+  ]);
+}
+
+function paragraphXml(
+  runs: TextRun[],
+  options: { align?: BlockAlign; size?: number; keepNext?: boolean; indent?: boolean } = {}
+): string {
+  const properties = [
+    options.keepNext ? '<w:keepNext/>' : '',
+    '<w:spacing w:after="160"/>',
+    options.indent ? '<w:ind w:left="720" w:hanging="360"/>' : '',
+    options.align && options.align !== 'left' ? `<w:jc w:val="${options.align === 'justify' ? 'both' : options.align}"/>` : '',
+  ].join('');
+  return `<w:p><w:pPr>${properties}</w:pPr>${runs.map(run => runXml(run, options.size)).join('')}</w:p>`;
+}
+
+function runXml(run: TextRun, size: number = DOCX_BODY_HALF_POINTS): string {
+  const properties = [
+    '<w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/>',
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.underline ? '<w:u w:val="single"/>' : '',
+    `<w:sz w:val="${size}"/>`,
+  ].join('');
+  if (run.text === '\n') return `<w:r><w:rPr>${properties}</w:rPr><w:br/></w:r>`;
+
+  const content = run.text.split('\t')
+    .map(part => `<w:t xml:space="preserve">${xmlEscape(part)}</w:t>`)
+    .join('<w:tab/>');
+  return `<w:r><w:rPr>${properties}</w:rPr>${content}</w:r>`;
+}
+
+function tableXml(rows: Array<Array<{ runs: TextRun[]; header: boolean }>>): string {
+  const columns = Math.max(...rows.map(row => row.length));
+  const cellWidth = Math.floor(9026 / columns); // A4 text width in twentieths of a point
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`;
+
+  return '<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>'
+    + ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')
+    + '</w:tblBorders></w:tblPr>'
+    + `<w:tblGrid>${`<w:gridCol w:w="${cellWidth}"/>`.repeat(columns)}</w:tblGrid>`
+    + rows.map(row => '<w:tr>' + row.map(cell =>
+      `<w:tc><w:tcPr><w:tcW w:w="${cellWidth}" w:type="dxa"/></w:tcPr>`
+      + paragraphXml(cell.header ? cell.runs.map(run => ({ ...run, bold: true })) : cell.runs)
+      + '</w:tc>'
+    ).join('') + '</w:tr>').join('')
+    + '</w:tbl><w:p/>';
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+// ============================================
+// ZIP (deflate, no encryption or zip64)
+// ============================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zipFiles(files: Array<{ name: string; content: string }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  // 1980-01-01 00:00, the earliest DOS timestamp, keeps output reproducible
+  const dosTime = 0;
+  const dosDate = (0 << 9) | (1 << 5) | 1;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = Buffer.from(file.content, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
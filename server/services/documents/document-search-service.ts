@@ -0,0 +1,476 @@
+/**
+ * Document Search Service
+ *
+ * Keeps document_search_index filled for service request uploads (documents)
+ * and vault documents (document_vault), and answers ranked searches over it.
+ *
+ * Uploads are queued for indexing on the documents queue (run in-process
+ * without Redis); a sweep picks up anything that was never queued or whose
+ * extraction failed. Indexing reads the file from storage, extracts its text
+ * locally (see text-extraction.ts), pulls out PAN/GSTIN/CIN/DIN, amounts and
+ * dates, and stores them with the entity, category and date fields searches
+ * filter on. A file that can't be read keeps its metadata row, so it is
+ * still found by name, entity and type.
+ */
+
+import { db } from '../../db';
+import { and, desc, eq, gte, inArray, isNull, lt, lte, or, sql, type SQL } from 'drizzle-orm';
+import { businessEntities, documentsUploads, documentVault } from '@shared/schema';
+import { documentSearchIndex } from '@shared/enterprise-schema';
+import { addJob, QueueNames } from '../../queues';
+import { readFromStorage } from '../../file-upload';
+import { resolveDownloadUrl, resolveStoragePath } from '../../storage-url';
+import { USER_ROLES } from '../../rbac-middleware';
+import { ValidationError } from '../../errors';
+import { logger } from '../../logger';
+import { extractText, TextExtractionError } from './text-extraction';
+import { extractEntities, type ExtractedEntities, type IdentifierType } from './entity-extraction';
+import {
+  FRAGMENT_DELIMITER,
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  fileNameWords,
+  parseSearchQuery,
+  renderHighlights,
+  type SearchTerm,
+} from './search-query';
+
+export type IndexSource = 'upload' | 'vault';
+export type IndexStatus = 'pending' | 'indexed' | 'failed' | 'unsupported';
+
+export interface SearchScope {
+  userId: number;
+  entityIds: number[] | null; // null: every entity
+}
+
+export interface DocumentSearchParams {
+  query?: string;
+  businessEntityId?: number;
+  serviceRequestId?: number;
+  category?: string;
+  documentType?: string;
+  from?: string; // yyyy-mm-dd, on the document date
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DocumentSearchResult {
+  indexId: number;
+  source: IndexSource;
+  sourceId: number;
+  title: string | null;
+  documentType: string | null;
+  category: string | null;
+  businessEntityId: number | null;
+  entityName: string | null;
+  serviceRequestId: number | null;
+  documentDate: string | null;
+  uploadedAt: Date | null;
+  status: string | null;
+  ocrConfidence: number | null;
+  identifiers: Partial<Record<IdentifierType, string[]>>;
+  highlights: string[];
+  rank: number;
+  downloadUrl: string | null;
+}
+
+// Roles that search every client's documents; clients see their own entities
+const UNRESTRICTED_ROLES: string[] = [
+  USER_ROLES.SUPER_ADMIN,
+  USER_ROLES.ADMIN,
+  USER_ROLES.OPS_MANAGER,
+  USER_ROLES.OPS_EXECUTIVE,
+  USER_ROLES.CUSTOMER_SERVICE,
+  USER_ROLES.QC_EXECUTIVE,
+  USER_ROLES.ACCOUNTANT,
+];
+
+const MAX_ATTEMPTS = 3;
+const RETRY_AFTER_MS = 60 * 60 * 1000;
+const MAX_LIMIT = 100;
+
+const HEADLINE_OPTIONS = [
+  `StartSel=${HIGHLIGHT_START}`,
+  `StopSel=${HIGHLIGHT_STOP}`,
+  'MaxFragments=3',
+  'MaxWords=24',
+  'MinWords=8',
+  `FragmentDelimiter=${FRAGMENT_DELIMITER}`,
+].join(', ');
+
+interface SourceDocument {
+  businessEntityId: number | null;
+  serviceRequestId: number | null;
+  ownerUserId: number | null;
+  title: string;
+  documentType: string | null;
+  category: string | null;
+  tags: string[];
+  storedAt: string;
+  mimeType: string | null;
+  uploadedAt: Date | null;
+}
+
+class DocumentSearchService {
+  /**
+   * Queue a file for (re)indexing. Safe to call on every upload: repeat calls
+   * while a job is waiting collapse into one
+   */
+  async queueDocument(source: IndexSource, sourceId: number): Promise<void> {
+    const queued = await addJob(QueueNames.DOCUMENTS, 'index', { source, sourceId }, {
+      deduplication: { id: `docindex-${source}-${sourceId}` },
+    });
+    if (!queued) {
+      logger.warn(`Document ${source} ${sourceId} could not be queued for indexing`);
+    }
+  }
+
+  /**
+   * Extract and store a file's text and identifiers
+   */
+  async indexDocument(source: IndexSource, sourceId: number): Promise<{ status: IndexStatus | 'removed' }> {
+    const document = await this.loadSource(source, sourceId);
+    if (!document) {
+      return { status: 'removed' };
+    }
+
+    const indexId = await this.upsertMetadata(source, sourceId, document);
+
+    try {
+      const storagePath = resolveStoragePath(document.storedAt);
+      if (!storagePath) {
+        throw new TextExtractionError('File is held outside platform storage', 'unsupported');
+      }
+      const content = await readFromStorage(storagePath);
+      const extracted = await extractText(content, { mimeType: document.mimeType, fileName: document.title });
+      const entities = extractEntities(extracted.text);
+
+      await db.update(documentSearchIndex).set({
+        contentText: extracted.text,
+        extractedEntities: entities,
+        ocrConfidence: extracted.confidence !== null ? String(extracted.confidence) : null,
+        documentDate: entities.dates[0] || dateOnly(document.uploadedAt),
+        status: 'indexed',
+        extractionMethod: extracted.method,
+        pageCount: extracted.pages,
+        errorMessage: null,
+        attempts: sql`coalesce(${documentSearchIndex.attempts}, 0) + 1`,
+        indexedAt: new Date(),
+      }).where(eq(documentSearchIndex.id, indexId));
+
+      if (source === 'vault') {
+        await db.update(documentVault).set({
+          ocrData: { method: extracted.method, confidence: extracted.confidence, pages: extracted.pages, entities },
+        }).where(eq(documentVault.id, sourceId));
+      }
+      return { status: 'indexed' };
+    } catch (error) {
+      const status: IndexStatus = error instanceof TextExtractionError && error.reason === 'unsupported'
+        ? 'unsupported'
+        : 'failed';
+      const message = error instanceof Error ? error.message : String(error);
+      if (status === 'failed') {
+        logger.warn(`Indexing ${source} document ${sourceId} failed: ${message}`);
+      }
+
+      await db.update(documentSearchIndex).set({
+        status,
+        errorMessage: message.slice(0, 1000),
+        attempts: sql`coalesce(${documentSearchIndex.attempts}, 0) + 1`,
+        indexedAt: new Date(),
+      }).where(eq(documentSearchIndex.id, indexId));
+      return { status };
+    }
+  }
+
+  /**
+   * Queue files that were never indexed and failures due a retry
+   */
+  async sweep(limit = 50): Promise<{ queued: number }> {
+    const unindexedUploads = await db.select({ id: documentsUploads.id })
+      .from(documentsUploads)
+      .leftJoin(documentSearchIndex, eq(documentSearchIndex.documentId, documentsUploads.id))
+      .where(isNull(documentSearchIndex.id))
+      .limit(limit);
+
+    const unindexedVault = await db.select({ id: documentVault.id })
+      .from(documentVault)
+      .leftJoin(documentSearchIndex, eq(documentSearchIndex.vaultDocumentId, documentVault.id))
+      .where(isNull(documentSearchIndex.id))
+      .limit(limit);
+
+    const retries = await db.select({
+      documentId: documentSearchIndex.documentId,
+      vaultDocumentId: documentSearchIndex.vaultDocumentId,
+    })
+      .from(documentSearchIndex)
+      .where(and(
+        inArray(documentSearchIndex.status, ['failed', 'pending']),
+        lt(documentSearchIndex.attempts, MAX_ATTEMPTS),
+        lt(documentSearchIndex.indexedAt, new Date(Date.now() - RETRY_AFTER_MS))
+      ))
+      .limit(limit);
+
+    const targets: Array<[IndexSource, number]> = [
+      ...unindexedUploads.map((row): [IndexSource, number] => ['upload', row.id]),
+      ...unindexedVault.map((row): [IndexSource, number] => ['vault', row.id]),
+      ...retries.flatMap((row): Array<[IndexSource, number]> =>
+        row.documentId ? [['upload', row.documentId]] : row.vaultDocumentId ? [['vault', row.vaultDocumentId]] : []),
+    ].slice(0, limit);
+
+    for (const [source, sourceId] of targets) {
+      await this.queueDocument(source, sourceId);
+    }
+    return { queued: targets.length };
+  }
+
+  /**
+   * Which entities a user may search: staff see all, clients their own
+   */
+  async resolveScope(user: { id: number; role: string }): Promise<SearchScope> {
+    if (UNRESTRICTED_ROLES.includes(user.role)) {
+      return { userId: user.id, entityIds: null };
+    }
+    const owned = await db.select({ id: businessEntities.id })
+      .from(businessEntities)
+      .where(eq(businessEntities.ownerId, user.id));
+    return { userId: user.id, entityIds: owned.map(entity => entity.id) };
+  }
+
+  /**
+   * Ranked search with highlighted fragments, limited to the caller's scope
+   */
+  async search(params: DocumentSearchParams, scope: SearchScope): Promise<{ total: number; results: DocumentSearchResult[] }> {
+    const parsed = parseSearchQuery(params.query || '');
+    const conditions: SQL[] = [];
+
+    if (scope.entityIds) {
+      conditions.push(or(
+        scope.entityIds.length ? inArray(documentSearchIndex.businessEntityId, scope.entityIds) : sql`false`,
+        eq(documentSearchIndex.ownerUserId, scope.userId)
+      )!);
+    }
+    if (params.businessEntityId) conditions.push(eq(documentSearchIndex.businessEntityId, params.businessEntityId));
+    if (params.serviceRequestId) conditions.push(eq(documentSearchIndex.serviceRequestId, params.serviceRequestId));
+    if (params.category) conditions.push(eq(documentSearchIndex.category, params.category));
+    if (params.documentType) conditions.push(eq(documentSearchIndex.documentType, params.documentType));
+    if (params.from) conditions.push(gte(documentSearchIndex.documentDate, parseDate(params.from, 'from')));
+    if (params.to) conditions.push(lte(documentSearchIndex.documentDate, parseDate(params.to, 'to')));
+
+    const termQueries = parsed.terms.map(termQuery);
+    parsed.terms.forEach((term, index) => {
+      const matchesText = sql`${documentSearchIndex}.search_vector @@ ${termQueries[index]}`;
+      conditions.push(term.identifier
+        ? or(matchesText, sql`${documentSearchIndex.extractedEntities} @> ${JSON.stringify({ [term.identifier]: [term.text] })}::jsonb`)!
+        : matchesText);
+    });
+    // "2023 MOA": a document dated in 2023, or one that mentions the year
+    if (parsed.years.length && !params.from && !params.to) {
+      conditions.push(or(
+        sql`extract(year from ${documentSearchIndex.documentDate}) in (${sql.join(parsed.years.map(year => sql`${year}`), sql`, `)})`,
+        ...parsed.years.map(year => sql`${documentSearchIndex}.search_vector @@ to_tsquery('simple', ${String(year)})`)
+      )!);
+    }
+
+    const where = conditions.length ? and(...conditions) : undefined;
+    const rankQuery = termQueries.length ? sql.join(termQueries, sql` || `) : null;
+    const rank = rankQuery
+      ? sql<number>`ts_rank_cd(${documentSearchIndex}.search_vector, ${rankQuery}, 32)`
+      : sql<number>`0`;
+    const headline = rankQuery
+      ? sql<string | null>`ts_headline('english', ${documentSearchIndex.contentText}, ${rankQuery}, ${HEADLINE_OPTIONS})`
+      : sql<string | null>`null`;
+
+    const limit = Math.min(Math.max(params.limit || 20, 1), MAX_LIMIT);
+    const rows = await db.select({
+      index: documentSearchIndex,
+      entityName: businessEntities.name,
+      uploadPath: documentsUploads.path,
+      vaultFileUrl: documentVault.fileUrl,
+      rank,
+      headline,
+    })
+      .from(documentSearchIndex)
+      .leftJoin(businessEntities, eq(businessEntities.id, documentSearchIndex.businessEntityId))
+      .leftJoin(documentsUploads, eq(documentsUploads.id, documentSearchIndex.documentId))
+      .leftJoin(documentVault, eq(documentVault.id, documentSearchIndex.vaultDocumentId))
+      .where(where)
+      .orderBy(desc(rank), sql`${documentSearchIndex.documentDate} desc nulls last`, desc(documentSearchIndex.id))
+      .limit(limit)
+      .offset(Math.max(params.offset || 0, 0));
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(documentSearchIndex)
+      .where(where);
+
+    return {
+      total,
+      results: await Promise.all(rows.map(async ({ index, entityName, uploadPath, vaultFileUrl, rank: score, headline: fragments }) => ({
+        indexId: index.id,
+        source: index.documentId ? 'upload' as const : 'vault' as const,
+        sourceId: (index.documentId ?? index.vaultDocumentId)!,
+        title: index.title,
+        documentType: index.documentType,
+        category: index.category,
+        businessEntityId: index.businessEntityId,
+        entityName,
+        serviceRequestId: index.serviceRequestId,
+        documentDate: index.documentDate,
+        uploadedAt: index.uploadedAt,
+        status: index.status,
+        ocrConfidence: index.ocrConfidence !== null ? Number(index.ocrConfidence) : null,
+        identifiers: identifiersOf(index.extractedEntities as ExtractedEntities | null),
+        highlights: renderHighlights(fragments),
+        rank: Number(score) || 0,
+        downloadUrl: await downloadUrl(uploadPath ?? vaultFileUrl),
+      }))),
+    };
+  }
+
+  /**
+   * Index rows per status, for the admin view of how far OCR has got
+   */
+  async getIndexStats(): Promise<Record<string, number>> {
+    const rows = await db.select({
+      status: documentSearchIndex.status,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(documentSearchIndex)
+      .groupBy(documentSearchIndex.status);
+    return Object.fromEntries(rows.map(row => [row.status || 'pending', row.count]));
+  }
+
+  // ----- Internals -----
+
+  private async loadSource(source: IndexSource, sourceId: number): Promise<SourceDocument | null> {
+    if (source === 'upload') {
+      const [upload] = await db.select().from(documentsUploads).where(eq(documentsUploads.id, sourceId));
+      if (!upload) return null;
+      return {
+        businessEntityId: upload.entityId,
+        serviceRequestId: upload.serviceRequestId,
+        ownerUserId: null,
+        title: upload.filename,
+        documentType: upload.doctype,
+        category: null,
+        tags: [],
+        storedAt: upload.path,
+        mimeType: upload.mimeType,
+        uploadedAt: upload.uploadedAt || upload.createdAt,
+      };
+    }
+
+    const [document] = await db.select().from(documentVault).where(eq(documentVault.id, sourceId));
+    if (!document) return null;
+    return {
+      businessEntityId: document.businessEntityId,
+      serviceRequestId: document.serviceRequestId,
+      ownerUserId: document.userId,
+      title: document.originalFileName || document.fileName,
+      documentType: document.documentType,
+      category: document.category,
+      tags: Array.isArray(document.tags) ? document.tags.map(String) : [],
+      storedAt: document.fileUrl,
+      mimeType: document.mimeType,
+      uploadedAt: document.createdAt,
+    };
+  }
+
+  // The row searches filter on, written before extraction so a pending or
+  // unreadable file is still found by name and entity
+  private async upsertMetadata(source: IndexSource, sourceId: number, document: SourceDocument): Promise<number> {
+    let entity: { name: string; clientId: string } | undefined;
+    if (document.businessEntityId) {
+      [entity] = await db.select({ name: businessEntities.name, clientId: businessEntities.clientId })
+        .from(businessEntities)
+        .where(eq(businessEntities.id, document.businessEntityId));
+    }
+
+    const metadata = {
+      businessEntityId: entity ? document.businessEntityId : null,
+      serviceRequestId: document.serviceRequestId,
+      ownerUserId: document.ownerUserId,
+      title: document.title.slice(0, 500),
+      documentType: document.documentType,
+      category: document.category,
+      keywords: [
+        entity?.name,
+        entity?.clientId,
+        fileNameWords(document.title),
+        (document.documentType || '').replace(/_/g, ' '),
+        ...document.tags,
+      ].filter(Boolean).join(' '),
+      uploadedAt: document.uploadedAt,
+    };
+
+    const sourceColumn = source === 'upload' ? documentSearchIndex.documentId : documentSearchIndex.vaultDocumentId;
+    const [existing] = await db.select({ id: documentSearchIndex.id, documentDate: documentSearchIndex.documentDate })
+      .from(documentSearchIndex)
+      .where(eq(sourceColumn, sourceId));
+
+    if (existing) {
+      await db.update(documentSearchIndex).set({
+        ...metadata,
+        documentDate: existing.documentDate || dateOnly(document.uploadedAt),
+      }).where(eq(documentSearchIndex.id, existing.id));
+      return existing.id;
+    }
+
+    const [created] = await db.insert(documentSearchIndex).values({
+      ...metadata,
+      ...(source === 'upload' ? { documentId: sourceId } : { vaultDocumentId: sourceId }),
+      contentText: '',
+      documentDate: dateOnly(document.uploadedAt),
+      status: 'pending',
+      attempts: 0,
+    }).onConflictDoNothing().returning({ id: documentSearchIndex.id });
+    if (created) return created.id;
+
+    // Another worker created it between the select and the insert
+    const [row] = await db.select({ id: documentSearchIndex.id }).from(documentSearchIndex).where(eq(sourceColumn, sourceId));
+    return row.id;
+  }
+}
+
+// A term matches its exact word in titles and keywords, or its stem in the text
+function termQuery(term: SearchTerm): SQL {
+  if (term.identifier) {
+    return sql`plainto_tsquery('simple', ${term.text})`;
+  }
+  const prefix = `${term.text}:*`;
+  return sql`(to_tsquery('simple', ${prefix}) || to_tsquery('english', ${prefix}))`;
+}
+
+function identifiersOf(entities: ExtractedEntities | null): Partial<Record<IdentifierType, string[]>> {
+  if (!entities) return {};
+  const identifiers: Partial<Record<IdentifierType, string[]>> = {};
+  for (const type of ['pan', 'gstin', 'cin', 'llpin', 'din'] as IdentifierType[]) {
+    if (entities[type]?.length) identifiers[type] = entities[type];
+  }
+  return identifiers;
+}
+
+async function downloadUrl(storedAt: string | null): Promise<string | null> {
+  if (!storedAt) return null;
+  try {
+    return await resolveDownloadUrl(storedAt);
+  } catch (error) {
+    logger.warn(`Could not sign ${storedAt}:`, error);
+    return null;
+  }
+}
+
+function parseDate(value: string, label: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new ValidationError(`${label} must be a date (yyyy-mm-dd)`);
+  }
+  return value;
+}
+
+function dateOnly(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+export const documentSearchService = new DocumentSearchService();
+export { DocumentSearchService };
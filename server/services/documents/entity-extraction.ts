@@ -0,0 +1,153 @@
+/**
+ * Entity Extraction
+ *
+ * Pulls the identifiers ops search by out of document text: PAN, GSTIN, CIN,
+ * LLPIN, DIN, rupee amounts and dates. Text usually comes from OCR, so the
+ * patterns tolerate stray spacing and the identifiers are validated (GSTIN
+ * check digit, embedded PAN, plausible dates) rather than trusted on shape.
+ */
+
+export interface ExtractedEntities {
+  pan: string[];
+  gstin: string[];
+  cin: string[];
+  llpin: string[];
+  din: string[];
+  amounts: number[];
+  dates: string[]; // yyyy-mm-dd, in order of appearance
+}
+
+export type IdentifierType = 'pan' | 'gstin' | 'cin' | 'llpin' | 'din';
+
+// Enough for search and filters; a long ledger shouldn't bloat the index row
+const MAX_PER_TYPE = 50;
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4,
+  may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9,
+  september: 9, oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+const CIN_PATTERN = '[LU][0-9]{5}[A-Z]{2}[0-9]{4}(?:PLC|PTC|OPC|NPL|GOI|SGC|FLC|GAP|GAT|ULL|ULT|FTC)[0-9]{6}';
+
+const PATTERNS = {
+  pan: /\b([A-Z]{5}[0-9]{4}[A-Z])\b/g,
+  gstin: /\b([0-3][0-9][A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z])\b/g,
+  cin: new RegExp(`\\b(${CIN_PATTERN})\\b`, 'g'),
+  llpin: /\bLLPIN\s*(?:No\.?|Number)?\s*[:\-]?\s*([A-Z]{3}-?[0-9]{4})\b/gi,
+  din: /\bDIN\s*(?:No\.?|Number)?\s*[:\-]?\s*([0-9]{8})\b/gi,
+  amount: /(?:₹|\bRs\.?|\bINR)\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)(?:\s*(lakhs?|lacs?|crores?|cr\b))?/gi,
+  numericDate: /\b([0-3]?[0-9])[\/.\-]([01]?[0-9])[\/.\-]((?:19|20)[0-9]{2})\b/g,
+  isoDate: /\b((?:19|20)[0-9]{2})-([01][0-9])-([0-3][0-9])\b/g,
+  dayMonthYear: new RegExp(`\\b([0-3]?[0-9])(?:st|nd|rd|th)?(?:\\s+day\\s+of)?[\\s\\-]+(${MONTH_PATTERN})\\.?,?[\\s\\-]+((?:19|20)[0-9]{2})\\b`, 'gi'),
+  monthDayYear: new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+([0-3]?[0-9])(?:st|nd|rd|th)?,?\\s+((?:19|20)[0-9]{2})\\b`, 'gi'),
+};
+
+/**
+ * Identifiers, amounts and dates found in a document's text
+ */
+export function extractEntities(text: string): ExtractedEntities {
+  const upper = text.toUpperCase();
+
+  const gstin = unique(matches(upper, PATTERNS.gstin).filter(isValidGstin));
+  const cin = unique(matches(upper, PATTERNS.cin));
+  // A GSTIN embeds its holder's PAN; count that PAN once as well
+  const pan = unique([
+    ...matches(upper, PATTERNS.pan),
+    ...gstin.map(value => value.slice(2, 12)),
+  ].filter(isValidPan));
+
+  return {
+    pan,
+    gstin,
+    cin,
+    llpin: unique(matches(upper, PATTERNS.llpin).map(value => value.replace(/^([A-Z]{3})-?/, '$1-'))),
+    din: unique(matches(text, PATTERNS.din)),
+    amounts: unique(extractAmounts(text)),
+    dates: unique(extractDates(text)),
+  };
+}
+
+export function isValidPan(value: string): boolean {
+  // Fourth character is the holder type: company, person, HUF, firm, trust...
+  return /^[A-Z]{3}[ABCFGHJLPT][A-Z][0-9]{4}[A-Z]$/.test(value);
+}
+
+export function isValidGstin(value: string): boolean {
+  if (!/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(value)) return false;
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36] === value[14];
+}
+
+/**
+ * Which identifier a search term is, if any, so a search for a PAN or GSTIN
+ * can match the extracted value exactly
+ */
+export function identifierType(term: string): IdentifierType | null {
+  const value = term.toUpperCase();
+  if (isValidGstin(value)) return 'gstin';
+  if (new RegExp(`^${CIN_PATTERN}$`).test(value)) return 'cin';
+  if (isValidPan(value)) return 'pan';
+  if (/^[A-Z]{3}-[0-9]{4}$/.test(value)) return 'llpin';
+  if (/^[0-9]{8}$/.test(value)) return 'din';
+  return null;
+}
+
+function extractAmounts(text: string): number[] {
+  const amounts: number[] = [];
+  for (const match of Array.from(text.matchAll(PATTERNS.amount))) {
+    let amount = parseFloat(match[1].replace(/,/g, ''));
+    const unit = (match[2] || '').toLowerCase();
+    if (unit.startsWith('l')) amount *= 100000;
+    if (unit.startsWith('cr')) amount *= 10000000;
+    if (amount > 0 && Number.isFinite(amount)) {
+      amounts.push(Math.round(amount * 100) / 100);
+    }
+  }
+  return amounts;
+}
+
+function extractDates(text: string): string[] {
+  const found: Array<{ index: number; date: string }> = [];
+  const add = (index: number, year: number, month: number, day: number) => {
+    const date = isoDate(year, month, day);
+    if (date) found.push({ index, date });
+  };
+
+  // Numeric dates are day first, as written in India
+  for (const match of Array.from(text.matchAll(PATTERNS.numericDate))) {
+    add(match.index ?? 0, Number(match[3]), Number(match[2]), Number(match[1]));
+  }
+  for (const match of Array.from(text.matchAll(PATTERNS.isoDate))) {
+    add(match.index ?? 0, Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  for (const match of Array.from(text.matchAll(PATTERNS.dayMonthYear))) {
+    add(match.index ?? 0, Number(match[3]), MONTHS[match[2].toLowerCase()], Number(match[1]));
+  }
+  for (const match of Array.from(text.matchAll(PATTERNS.monthDayYear))) {
+    add(match.index ?? 0, Number(match[3]), MONTHS[match[1].toLowerCase()], Number(match[2]));
+  }
+
+  return found.sort((a, b) => a.index - b.index).map(entry => entry.date);
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (!month || month > 12 || !day) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null; // 31/02 and the like
+  return date.toISOString().slice(0, 10);
+}
+
+function matches(text: string, pattern: RegExp): string[] {
+  return Array.from(text.matchAll(pattern), match => match[1]);
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values)).slice(0, MAX_PER_TYPE);
+}
@@ -0,0 +1,12 @@
+/**
+ * Document Generation Module
+ *
+ * Merge templates rendered to PDF/DOCX by background jobs, the OCR
+ * full-text index over uploaded files, and retention with legal holds
+ */
+
+export { documentGenerationService, DocumentGenerationService, GenerationRequest, GenerationPreview, GeneratedDocument, TemplateInput, TemplateVariable } from './document-generation-service';
+export { renderTemplate, validateTemplate, TemplateError, MergeResult, TemplateValidation } from './template-merge';
+export { OUTPUT_FORMATS, OutputFormat } from './document-renderers';
+export { documentSearchService, DocumentSearchService, DocumentSearchParams, DocumentSearchResult, IndexSource, SearchScope } from './document-search-service';
+export { retentionEngine, RetentionEngine, RetentionPolicyInput, LegalHoldInput, RetentionRunResult, ErasureOutcome } from './retention-engine';
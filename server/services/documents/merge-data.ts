@@ -0,0 +1,147 @@
+/**
+ * Merge Data
+ *
+ * Assembles the fields document templates read from a business entity, its
+ * owner (the client profile) and a service request. Directors and
+ * shareholders come from the entity's metadata; anything supplied with the
+ * generation request is laid over the top, so ops can fill in meeting
+ * details or correct a value for one document without editing the master.
+ */
+
+import type { MergeData } from './template-merge';
+
+export interface MergeSources {
+  entity?: Record<string, any> | null;
+  owner?: { fullName?: string | null; email?: string | null; phone?: string | null } | null;
+  serviceRequest?: Record<string, any> | null;
+  service?: { name?: string | null; category?: string | null; description?: string | null } | null;
+  firm?: Record<string, string>;
+  variables?: Record<string, unknown> | null;
+  today?: Date;
+}
+
+export interface PersonRecord {
+  name: string;
+  [field: string]: unknown;
+}
+
+export const ENTITY_TYPE_LABELS: Record<string, string> = {
+  pvt_ltd: 'Private Limited Company',
+  public_ltd: 'Public Limited Company',
+  opc: 'One Person Company',
+  llp: 'Limited Liability Partnership',
+  partnership: 'Partnership Firm',
+  proprietorship: 'Sole Proprietorship',
+  section8: 'Section 8 Company',
+};
+
+/**
+ * Template fields for a document: entity, directors, shareholders, client,
+ * serviceRequest, service, firm and today, with request variables on top
+ */
+export function assembleMergeData(sources: MergeSources): MergeData {
+  const entity = sources.entity || null;
+  const metadata = (entity?.metadata && typeof entity.metadata === 'object' ? entity.metadata : {}) as Record<string, unknown>;
+  const directors = people(metadata.directors);
+  const shareholders = people(metadata.shareholders);
+  const totalShares = shareholders.reduce((sum, holder) => sum + (Number(holder.shares) || 0), 0);
+
+  const base: MergeData = {
+    today: sources.today || new Date(),
+    firm: sources.firm || {},
+    entity: entity ? {
+      name: entity.name,
+      clientId: entity.clientId,
+      entityType: entity.entityType,
+      entityTypeLabel: ENTITY_TYPE_LABELS[entity.entityType] || entity.entityType,
+      cin: entity.cin,
+      llpin: metadata.llpin,
+      gstin: entity.gstin,
+      pan: entity.pan,
+      tan: metadata.tan,
+      email: entity.contactEmail,
+      phone: entity.contactPhone,
+      address: entity.address,
+      city: entity.city,
+      state: entity.state,
+      pincode: entity.pincode,
+      fullAddress: [entity.address, entity.city, entity.state, entity.pincode].filter(Boolean).join(', ') || null,
+      incorporationDate: entity.registrationDate,
+      industry: entity.industryType,
+      authorisedCapital: metadata.authorisedCapital,
+      paidUpCapital: metadata.paidUpCapital,
+    } : {},
+    directors,
+    director: directors[0] || {},
+    signatories: directors.slice(0, 2),
+    authorisedDirectors: [],
+    shareholders: shareholders.map(holder => ({
+      ...holder,
+      percentage: holder.percentage ?? (totalShares > 0 && Number(holder.shares)
+        ? Math.round((Number(holder.shares) / totalShares) * 10000) / 100
+        : undefined),
+    })),
+    subscribers: shareholders,
+    totalShares: totalShares || undefined,
+    client: sources.owner ? {
+      name: sources.owner.fullName,
+      email: sources.owner.email,
+      phone: sources.owner.phone,
+    } : {},
+    serviceRequest: sources.serviceRequest ? {
+      requestId: sources.serviceRequest.requestId,
+      serviceId: sources.serviceRequest.serviceId,
+      status: sources.serviceRequest.status,
+      periodLabel: sources.serviceRequest.periodLabel,
+      description: sources.serviceRequest.description,
+      totalAmount: sources.serviceRequest.totalAmount,
+      dueDate: sources.serviceRequest.dueDate,
+      filingDate: sources.serviceRequest.filingDate,
+      arnNumber: sources.serviceRequest.arnNumber,
+      createdAt: sources.serviceRequest.createdAt,
+    } : {},
+    service: {
+      name: sources.service?.name || humanize(sources.serviceRequest?.serviceId),
+      category: sources.service?.category,
+      description: sources.service?.description,
+    },
+  };
+
+  return sources.variables ? deepMerge(base, sources.variables) : base;
+}
+
+/**
+ * Directors or shareholders from entity metadata: a list of records with a
+ * name, or plain names
+ */
+function people(value: unknown): PersonRecord[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((person): PersonRecord[] => {
+    if (typeof person === 'string' && person.trim()) return [{ name: person.trim() }];
+    if (person && typeof person === 'object' && typeof (person as PersonRecord).name === 'string') {
+      return [{ ...(person as PersonRecord) }];
+    }
+    return [];
+  });
+}
+
+function humanize(serviceId: unknown): string | undefined {
+  if (typeof serviceId !== 'string' || !serviceId) return undefined;
+  return serviceId.replace(/[_-]+/g, ' ').replace(/\b([a-z])/g, letter => letter.toUpperCase());
+}
+
+// Objects merge key by key; lists and values from the override replace the base
+function deepMerge(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const existing = merged[key];
+    merged[key] = isPlainObject(existing) && isPlainObject(value)
+      ? deepMerge(existing, value)
+      : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
@@ -0,0 +1,1002 @@
+/**
+ * Retention Engine
+ *
+ * Applies document_retention_policies to vault documents and AI/template
+ * documents. A daily run schedules every document that falls under a
+ * policy, tells the owner before the action, then archives it, purges it
+ * (the file, its versions and their files) or just reminds, per the policy.
+ *
+ * Legal holds block purging: a held document waits in 'held' until the hold
+ * is released, and the vault, document and upload delete endpoints refuse it too.
+ * Every purge, by policy or by a DPDP erasure request, produces a retention
+ * certificate listing what was destroyed with the SHA-256 of each file,
+ * signed with HMAC-SHA256 (RETENTION_SIGNING_KEY) and rendered as a PDF.
+ *
+ * Erasure requests purge the data principal's documents except those under
+ * a hold or a statutory retention policy; those are kept and the reason
+ * recorded on the request's outcome. A principal's documents are those of
+ * the business entities they own, plus their unfiled vault uploads and the
+ * prepared documents made out to them; which staff member created a document
+ * does not make it theirs. Service-request uploads (KYC scans and the like)
+ * are covered by erasure requests and holds, but not scheduled by policies.
+ */
+
+import crypto from 'crypto';
+import { db } from '../../db';
+import { and, desc, eq, inArray, isNull, lte, or, sql, type SQL } from 'drizzle-orm';
+import {
+  aiDocuments,
+  businessEntities,
+  documentActivityLog,
+  documentSignatories,
+  documentSignatures,
+  documentVault,
+  documentVersions,
+  documentsUploads,
+  users,
+} from '@shared/schema';
+import {
+  dataDeletionRequests,
+  documentExtractions,
+  documentGenerationJobs,
+  documentShares,
+  documentRetentionPolicies,
+  documentRetentionSchedule,
+  legalHolds,
+  retentionCertificates,
+} from '@shared/enterprise-schema';
+import { intelligentDocuments } from '@shared/blueprints-schema';
+import { deleteFromStorage, getSignedUrl, readFromStorage, uploadToStorage } from '../../file-upload';
+import { resolveStoragePath } from '../../storage-url';
+import { idGenerator, ID_TYPES } from '../id-generator';
+import { notificationDispatcher } from '../notifications/notification-dispatcher';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../../errors';
+import { logger } from '../../logger';
+import { renderPdf } from './document-renderers';
+import type { DocumentBlock } from './document-blocks';
+import {
+  DOCUMENT_KINDS,
+  HOLD_SCOPES,
+  RETENTION_ACTIONS,
+  RETENTION_CLOCKS,
+  erasureDecision,
+  findHold,
+  noticeDate,
+  retentionDueDate,
+  selectPolicy,
+  signPayload,
+  signingKeyId,
+  verifySignature,
+  type DocumentKind,
+  type RetainedDocument,
+} from './retention-rules';
+
+type RetentionPolicy = typeof documentRetentionPolicies.$inferSelect;
+type LegalHold = typeof legalHolds.$inferSelect;
+type ScheduleRow = typeof documentRetentionSchedule.$inferSelect;
+type RetentionCertificate = typeof retentionCertificates.$inferSelect;
+
+export interface RetentionPolicyInput {
+  name: string;
+  documentCategory?: string | null;
+  retentionDays: number;
+  clockStart?: string;
+  action: string;
+  notifyDaysBeforeAction?: number;
+  isStatutory?: boolean;
+  legalBasis?: string | null;
+  isActive?: boolean;
+}
+
+export interface LegalHoldInput {
+  name: string;
+  reason: string;
+  matterReference?: string | null;
+  scopeType: string;
+  documentKind?: string | null;
+  documentId?: number | null;
+  businessEntityId?: number | null;
+  documentCategory?: string | null;
+}
+
+export interface RetentionRunResult {
+  scheduled: number;
+  notified: number;
+  archived: number;
+  purged: number;
+  reminded: number;
+  held: number;
+  failed: number;
+}
+
+export interface PurgedFile {
+  path: string;
+  sha256: string | null;
+  bytes: number | null;
+  status: 'deleted' | 'missing' | 'external';
+}
+
+export interface ErasureOutcome {
+  subjectUserIds: number[];
+  purged: Array<{ kind: DocumentKind; id: number; title: string; certificateNumber: string }>;
+  retained: Array<{ kind: DocumentKind; id: number; title: string; reason: string; until?: string; holdId?: number }>;
+  failed: Array<{ kind: DocumentKind; id: number; title: string; error: string }>;
+}
+
+interface PurgeContext {
+  trigger: 'retention_policy' | 'erasure_request';
+  policy?: RetentionPolicy | null;
+  dataDeletionRequestId?: number | null;
+  issuedBy?: number | null;
+}
+
+// One stored document as the engine sees it, whichever table it lives in
+interface RetentionDocument extends RetainedDocument {
+  title: string;
+  ownerUserId: number | null;
+}
+
+const SYNC_BATCH_SIZE = 500;
+const MAX_SYNC_BATCHES = 20;
+const OPEN_STATUSES = ['scheduled', 'notified', 'held', 'failed'];
+
+const ISSUER = process.env.COMPANY_NAME || 'DigiComply Services Pvt Ltd';
+
+// ============================================
+// RETENTION ENGINE CLASS
+// ============================================
+
+class RetentionEngine {
+  // ------------------------------------------
+  // Policies
+  // ------------------------------------------
+
+  async listPolicies(): Promise<RetentionPolicy[]> {
+    return db.select().from(documentRetentionPolicies).orderBy(documentRetentionPolicies.documentCategory);
+  }
+
+  async createPolicy(input: RetentionPolicyInput): Promise<RetentionPolicy> {
+    const values = this.checkPolicy(input);
+    const [policy] = await db.insert(documentRetentionPolicies).values(values).returning();
+    await this.resetSchedule();
+    return policy;
+  }
+
+  async updatePolicy(policyId: number, input: Partial<RetentionPolicyInput>): Promise<RetentionPolicy> {
+    const [existing] = await db.select().from(documentRetentionPolicies).where(eq(documentRetentionPolicies.id, policyId));
+    if (!existing) throw new NotFoundError('Retention policy');
+
+    const values = this.checkPolicy({
+      name: input.name ?? existing.name,
+      documentCategory: input.documentCategory !== undefined ? input.documentCategory : existing.documentCategory,
+      retentionDays: input.retentionDays ?? existing.retentionDays,
+      clockStart: input.clockStart ?? existing.clockStart ?? 'uploaded',
+      action: input.action ?? existing.action,
+      notifyDaysBeforeAction: input.notifyDaysBeforeAction ?? existing.notifyDaysBeforeAction ?? 0,
+      isStatutory: input.isStatutory ?? existing.isStatutory ?? false,
+      legalBasis: input.legalBasis !== undefined ? input.legalBasis : existing.legalBasis,
+      isActive: input.isActive ?? existing.isActive ?? true,
+    });
+
+    const [policy] = await db.update(documentRetentionPolicies)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(documentRetentionPolicies.id, policyId))
+      .returning();
+    await this.resetSchedule();
+    return policy;
+  }
+
+  // ------------------------------------------
+  // Legal holds
+  // ------------------------------------------
+
+  async listHolds(status?: string): Promise<LegalHold[]> {
+    return db.select().from(legalHolds)
+      .where(status ? eq(legalHolds.status, status) : undefined)
+      .orderBy(desc(legalHolds.placedAt));
+  }
+
+  async placeHold(input: LegalHoldInput, userId: number): Promise<LegalHold> {
+    if (!input.name?.trim() || !input.reason?.trim()) {
+      throw new ValidationError('name and reason are required');
+    }
+    if (!HOLD_SCOPES.includes(input.scopeType as typeof HOLD_SCOPES[number])) {
+      throw new ValidationError(`scopeType must be one of: ${HOLD_SCOPES.join(', ')}`);
+    }
+
+    const scope = {
+      documentKind: null as string | null,
+      documentId: null as number | null,
+      businessEntityId: null as number | null,
+      documentCategory: null as string | null,
+    };
+    if (input.scopeType === 'document') {
+      if (!DOCUMENT_KINDS.includes(input.documentKind as DocumentKind) || !input.documentId) {
+        throw new ValidationError('A document hold needs documentKind (vault or ai_document) and documentId');
+      }
+      await this.loadDocument(input.documentKind as DocumentKind, input.documentId);
+      scope.documentKind = input.documentKind!;
+      scope.documentId = input.documentId;
+    } else if (input.scopeType === 'entity') {
+      if (!input.businessEntityId) throw new ValidationError('An entity hold needs businessEntityId');
+      scope.businessEntityId = input.businessEntityId;
+    } else {
+      if (!input.documentCategory?.trim()) throw new ValidationError('A category hold needs documentCategory');
+      scope.documentCategory = input.documentCategory.trim();
+    }
+
+    const [hold] = await db.insert(legalHolds).values({
+      name: input.name.trim(),
+      reason: input.reason.trim(),
+      matterReference: input.matterReference || null,
+      scopeType: input.scopeType,
+      ...scope,
+      status: 'active',
+      placedBy: userId,
+    }).returning();
+
+    logger.info(`Legal hold ${hold.id} placed (${hold.scopeType}) by user ${userId}`);
+    return hold;
+  }
+
+  async releaseHold(holdId: number, userId: number, reason: string): Promise<LegalHold> {
+    if (!reason?.trim()) throw new ValidationError('A release reason is required');
+
+    const [hold] = await db.select().from(legalHolds).where(eq(legalHolds.id, holdId));
+    if (!hold) throw new NotFoundError('Legal hold');
+    if (hold.status !== 'active') throw new ConflictError('Legal hold is already released');
+
+    const [released] = await db.update(legalHolds)
+      .set({ status: 'released', releasedBy: userId, releasedAt: new Date(), releaseReason: reason.trim() })
+      .where(eq(legalHolds.id, holdId))
+      .returning();
+
+    // Held documents are picked up again by the next run
+    await db.update(documentRetentionSchedule)
+      .set({ status: 'scheduled', heldBy: null, updatedAt: new Date() })
+      .where(and(eq(documentRetentionSchedule.heldBy, holdId), eq(documentRetentionSchedule.status, 'held')));
+
+    logger.info(`Legal hold ${holdId} released by user ${userId}`);
+    return released;
+  }
+
+  /**
+   * The active hold covering a document, for delete endpoints to refuse it
+   */
+  async activeHoldFor(kind: DocumentKind, document: { id: number; category: string | null; businessEntityId: number | null }): Promise<LegalHold | null> {
+    const holds = await db.select().from(legalHolds).where(eq(legalHolds.status, 'active'));
+    return findHold(holds, { kind, ...document });
+  }
+
+  // ------------------------------------------
+  // Schedule
+  // ------------------------------------------
+
+  async listSchedule(filters: { status?: string; dueBefore?: Date; limit?: number } = {}): Promise<ScheduleRow[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(documentRetentionSchedule.status, filters.status));
+    if (filters.dueBefore) conditions.push(lte(documentRetentionSchedule.dueAt, filters.dueBefore));
+
+    return db.select().from(documentRetentionSchedule)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(documentRetentionSchedule.dueAt)
+      .limit(Math.min(filters.limit || 100, 500));
+  }
+
+  /**
+   * Schedule new documents, send due notices and take due actions
+   */
+  async run(now: Date = new Date()): Promise<RetentionRunResult> {
+    const result: RetentionRunResult = { scheduled: 0, notified: 0, archived: 0, purged: 0, reminded: 0, held: 0, failed: 0 };
+    const policies = (await this.listPolicies()).filter(policy => policy.isActive !== false);
+    if (policies.length === 0) return result;
+
+    result.scheduled = await this.syncSchedule(policies);
+
+    const holds = await db.select().from(legalHolds).where(eq(legalHolds.status, 'active'));
+    const rows = await db.select().from(documentRetentionSchedule)
+      .where(and(
+        inArray(documentRetentionSchedule.status, OPEN_STATUSES),
+        or(lte(documentRetentionSchedule.dueAt, now), lte(documentRetentionSchedule.noticeAt, now)),
+      ))
+      .orderBy(documentRetentionSchedule.dueAt)
+      .limit(SYNC_BATCH_SIZE);
+    const policyById = new Map(policies.map(policy => [policy.id, policy]));
+
+    for (const row of rows) {
+      try {
+        const outcome = await this.advance(row, policyById.get(row.policyId ?? 0) || null, holds, now);
+        if (outcome) result[outcome]++;
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          // Deleted by its owner before the policy got to it
+          await db.update(documentRetentionSchedule)
+            .set({ status: 'completed', lastError: error.message, updatedAt: new Date() })
+            .where(eq(documentRetentionSchedule.id, row.id));
+          continue;
+        }
+        result.failed++;
+        logger.error(`Retention action for ${row.documentKind} ${row.documentId} failed:`, error);
+        await db.update(documentRetentionSchedule)
+          .set({ status: 'failed', lastError: error instanceof Error ? error.message : String(error), updatedAt: new Date() })
+          .where(eq(documentRetentionSchedule.id, row.id));
+      }
+    }
+
+    if (Object.values(result).some(count => count > 0)) {
+      logger.info(`Retention run: ${JSON.stringify(result)}`);
+    }
+    return result;
+  }
+
+  // ------------------------------------------
+  // Certificates
+  // ------------------------------------------
+
+  async listCertificates(filters: { dataDeletionRequestId?: number; limit?: number } = {}): Promise<RetentionCertificate[]> {
+    return db.select().from(retentionCertificates)
+      .where(filters.dataDeletionRequestId ? eq(retentionCertificates.dataDeletionRequestId, filters.dataDeletionRequestId) : undefined)
+      .orderBy(desc(retentionCertificates.issuedAt))
+      .limit(Math.min(filters.limit || 100, 500));
+  }
+
+  /**
+   * A certificate with its signature checked and a link to its PDF
+   */
+  async getCertificate(certificateId: number): Promise<RetentionCertificate & { signatureValid: boolean; pdfUrl: string | null }> {
+    const [certificate] = await db.select().from(retentionCertificates).where(eq(retentionCertificates.id, certificateId));
+    if (!certificate) throw new NotFoundError('Retention certificate');
+
+    return {
+      ...certificate,
+      signatureValid: verifySignature(certificate.payload, certificate.signature, this.signingKey()),
+      pdfUrl: certificate.pdfPath ? await getSignedUrl(certificate.pdfPath) : null,
+    };
+  }
+
+  // ------------------------------------------
+  // Erasure requests (DPDP)
+  // ------------------------------------------
+
+  /**
+   * Carry out a verified erasure request against the subject's documents
+   */
+  async processErasureRequest(requestId: number, userId: number): Promise<typeof dataDeletionRequests.$inferSelect> {
+    const [request] = await db.select().from(dataDeletionRequests).where(eq(dataDeletionRequests.id, requestId));
+    if (!request) throw new NotFoundError('Data request');
+    if (request.requestType !== 'erasure') throw new ValidationError('Only erasure requests purge documents');
+    if (request.status !== 'verified' && request.status !== 'processing') {
+      throw new ConflictError('Request must be verified before processing');
+    }
+
+    await db.update(dataDeletionRequests)
+      .set({ status: 'processing', processingStartedAt: request.processingStartedAt || new Date() })
+      .where(eq(dataDeletionRequests.id, requestId));
+
+    const subjects = await db.select({ id: users.id }).from(users)
+      .where(sql`lower(${users.email}) = ${request.subjectEmail.trim().toLowerCase()}`);
+    const subjectUserIds = subjects.map(subject => subject.id);
+    const outcome: ErasureOutcome = { subjectUserIds, purged: [], retained: [], failed: [] };
+
+    const now = new Date();
+    const policies = (await this.listPolicies()).filter(policy => policy.isActive !== false);
+    const holds = await db.select().from(legalHolds).where(eq(legalHolds.status, 'active'));
+    const categories = this.scopeCategories(request.scope);
+
+    for (const document of await this.documentsOwnedBy(subjectUserIds)) {
+      if (categories && !categories.includes((document.category || '').toLowerCase())) continue;
+
+      const decision = erasureDecision(document, policies, holds, now);
+      if (decision.action === 'retain') {
+        outcome.retained.push(decision.reason === 'legal_hold'
+          ? { kind: document.kind, id: document.id, title: document.title, reason: `Legal hold: ${decision.holdName}`, holdId: decision.holdId }
+          : {
+            kind: document.kind,
+            id: document.id,
+            title: document.title,
+            reason: `Statutory retention: ${policies.find(policy => policy.id === decision.policyId)?.legalBasis || 'retention policy'}`,
+            until: decision.until.toISOString().slice(0, 10),
+          });
+        continue;
+      }
+
+      try {
+        const certificate = await this.purgeDocument(document.kind, document.id, {
+          trigger: 'erasure_request',
+          policy: selectPolicy(policies, document.category),
+          dataDeletionRequestId: requestId,
+          issuedBy: userId,
+        });
+        outcome.purged.push({ kind: document.kind, id: document.id, title: document.title, certificateNumber: certificate.certificateNumber });
+      } catch (error) {
+        logger.error(`Erasure of ${document.kind} ${document.id} (request ${requestId}) failed:`, error);
+        outcome.failed.push({ kind: document.kind, id: document.id, title: document.title, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // A partly failed erasure stays in processing so it can be run again
+    const [updated] = await db.update(dataDeletionRequests)
+      .set({
+        status: outcome.failed.length > 0 ? 'processing' : 'completed',
+        completedAt: outcome.failed.length > 0 ? null : new Date(),
+        outcome,
+      })
+      .where(eq(dataDeletionRequests.id, requestId))
+      .returning();
+
+    logger.info(`Erasure request ${requestId}: ${outcome.purged.length} purged, ${outcome.retained.length} retained, ${outcome.failed.length} failed`);
+    return updated;
+  }
+
+  // ------------------------------------------
+  // Purging
+  // ------------------------------------------
+
+  /**
+   * Destroy a document, its versions and their files, and issue the signed
+   * certificate. Refuses documents under a legal hold.
+   */
+  async purgeDocument(kind: DocumentKind, documentId: number, context: PurgeContext): Promise<RetentionCertificate> {
+    const document = await this.loadDocument(kind, documentId);
+    const hold = await this.activeHoldFor(kind, document);
+    if (hold) {
+      throw new ConflictError(`Document is under legal hold "${hold.name}"`, { holdId: hold.id });
+    }
+
+    const key = this.signingKey();
+    const { fileUrls, versionsPurged } = await this.documentFiles(kind, documentId);
+
+    // Files go first and each one's fate is recorded, so a retry after a
+    // database failure finds them missing rather than leaving rows pointing
+    // at deleted files
+    const files: PurgedFile[] = [];
+    for (const fileUrl of Array.from(new Set(fileUrls))) {
+      files.push(await this.destroyFile(fileUrl));
+    }
+
+    const certificateNumber = await idGenerator.generateId(ID_TYPES.CERTIFICATE);
+    const purgedAt = new Date();
+    const payload = {
+      certificateNumber,
+      issuer: ISSUER,
+      trigger: context.trigger,
+      policy: context.policy
+        ? {
+          id: context.policy.id,
+          name: context.policy.name,
+          retentionDays: context.policy.retentionDays,
+          clockStart: context.policy.clockStart,
+          legalBasis: context.policy.legalBasis,
+        }
+        : null,
+      dataDeletionRequestId: context.dataDeletionRequestId ?? null,
+      document: {
+        kind,
+        id: documentId,
+        title: document.title,
+        category: document.category,
+        businessEntityId: document.businessEntityId,
+        uploadedAt: document.uploadedAt.toISOString(),
+      },
+      versionsPurged,
+      files,
+      purgedAt: purgedAt.toISOString(),
+    };
+
+    const certificate = await db.transaction(async (tx) => {
+      if (kind === 'vault') {
+        await tx.delete(documentVault).where(eq(documentVault.parentDocumentId, documentId));
+        await tx.delete(documentVault).where(eq(documentVault.id, documentId));
+      } else if (kind === 'upload') {
+        // Extracted fields and shares copy the upload's personal data; the
+        // search index and annotations cascade
+        await tx.delete(intelligentDocuments).where(eq(intelligentDocuments.documentId, documentId));
+        await tx.delete(documentExtractions).where(eq(documentExtractions.documentId, documentId));
+        await tx.delete(documentShares).where(eq(documentShares.documentId, documentId));
+        await tx.update(documentGenerationJobs)
+          .set({ generatedDocumentId: null })
+          .where(eq(documentGenerationJobs.generatedDocumentId, documentId));
+        await tx.delete(documentsUploads).where(eq(documentsUploads.id, documentId));
+      } else {
+        await tx.delete(documentVersions).where(eq(documentVersions.documentId, documentId));
+        await tx.delete(documentSignatories).where(eq(documentSignatories.documentId, documentId));
+        await tx.delete(documentSignatures).where(eq(documentSignatures.documentId, documentId));
+        await tx.delete(aiDocuments).where(eq(aiDocuments.id, documentId));
+        await tx.insert(documentActivityLog).values({
+          documentId,
+          userId: context.issuedBy ?? null,
+          action: 'purged',
+          details: `Purged under ${certificateNumber}`,
+        });
+      }
+
+      await tx.update(documentRetentionSchedule)
+        .set({ status: 'purged', actionTakenAt: purgedAt, lastError: null, updatedAt: purgedAt })
+        .where(and(eq(documentRetentionSchedule.documentKind, kind), eq(documentRetentionSchedule.documentId, documentId)));
+
+      const [inserted] = await tx.insert(retentionCertificates).values({
+        certificateNumber,
+        trigger: context.trigger,
+        policyId: context.policy?.id ?? null,
+        dataDeletionRequestId: context.dataDeletionRequestId ?? null,
+        documentKind: kind,
+        documentId,
+        documentTitle: document.title,
+        documentCategory: document.category,
+        businessEntityId: document.businessEntityId,
+        versionsPurged,
+        filesPurged: files,
+        payload,
+        signature: signPayload(payload, key),
+        signingKeyId: signingKeyId(key),
+        issuedBy: context.issuedBy ?? null,
+        issuedAt: purgedAt,
+      }).returning();
+      return inserted;
+    });
+
+    try {
+      const pdfPath = await this.storeCertificatePdf(certificate);
+      await db.update(retentionCertificates).set({ pdfPath }).where(eq(retentionCertificates.id, certificate.id));
+      certificate.pdfPath = pdfPath;
+    } catch (error) {
+      // The signed record is what counts; the PDF can be re-rendered from it
+      logger.error(`Rendering retention certificate ${certificateNumber} failed:`, error);
+    }
+
+    logger.info(`Purged ${kind} ${documentId} (${files.length} files, ${versionsPurged} versions) under ${certificateNumber}`);
+    return certificate;
+  }
+
+  // ------------------------------------------
+  // Internals
+  // ------------------------------------------
+
+  private checkPolicy(input: RetentionPolicyInput) {
+    if (!input.name?.trim()) throw new ValidationError('name is required');
+    if (!Number.isInteger(input.retentionDays) || input.retentionDays < 1) {
+      throw new ValidationError('retentionDays must be a positive whole number');
+    }
+    if (!RETENTION_ACTIONS.includes(input.action as typeof RETENTION_ACTIONS[number])) {
+      throw new ValidationError(`action must be one of: ${RETENTION_ACTIONS.join(', ')}`);
+    }
+    const clockStart = input.clockStart || 'uploaded';
+    if (!RETENTION_CLOCKS.includes(clockStart as typeof RETENTION_CLOCKS[number])) {
+      throw new ValidationError(`clockStart must be one of: ${RETENTION_CLOCKS.join(', ')}`);
+    }
+    const notifyDays = input.notifyDaysBeforeAction ?? 30;
+    if (!Number.isInteger(notifyDays) || notifyDays < 0) {
+      throw new ValidationError('notifyDaysBeforeAction must be zero or more days');
+    }
+
+    return {
+      name: input.name.trim(),
+      documentCategory: input.documentCategory?.trim() || null,
+      retentionDays: input.retentionDays,
+      clockStart,
+      action: input.action,
+      notifyDaysBeforeAction: notifyDays,
+      isStatutory: input.isStatutory ?? false,
+      legalBasis: input.legalBasis?.trim() || null,
+      isActive: input.isActive ?? true,
+    };
+  }
+
+  /**
+   * Forget schedule rows nothing has been done to yet, so the next run
+   * recomputes them under the changed policies
+   */
+  private async resetSchedule() {
+    await db.delete(documentRetentionSchedule)
+      .where(inArray(documentRetentionSchedule.status, OPEN_STATUSES));
+  }
+
+  /**
+   * Add schedule rows for documents a policy covers but that have none yet.
+   * Only root vault documents are scheduled; their versions go with them.
+   */
+  private async syncSchedule(policies: RetentionPolicy[]): Promise<number> {
+    const hasCatchAll = policies.some(policy => !policy.documentCategory);
+    const categories = policies
+      .map(policy => policy.documentCategory?.trim().toLowerCase())
+      .filter((category): category is string => !!category);
+
+    const unscheduled = (kind: DocumentKind, idColumn: SQL) => sql`NOT EXISTS (
+      SELECT 1 FROM ${documentRetentionSchedule}
+      WHERE ${documentRetentionSchedule.documentKind} = ${kind} AND ${documentRetentionSchedule.documentId} = ${idColumn}
+    )`;
+    const covered = (categoryColumn: SQL) => hasCatchAll
+      ? sql`TRUE`
+      : sql`lower(${categoryColumn}) IN (${sql.join(categories.map(category => sql`${category}`), sql`, `)})`;
+
+    let scheduled = 0;
+    for (let batch = 0; batch < MAX_SYNC_BATCHES; batch++) {
+      const vault = await db.select({
+        id: documentVault.id,
+        title: documentVault.originalFileName,
+        category: documentVault.category,
+        businessEntityId: documentVault.businessEntityId,
+        ownerUserId: documentVault.userId,
+        uploadedAt: documentVault.createdAt,
+      })
+        .from(documentVault)
+        .where(and(
+          isNull(documentVault.parentDocumentId),
+          unscheduled('vault', sql`${documentVault.id}`),
+          covered(sql`${documentVault.category}`),
+        ))
+        .limit(SYNC_BATCH_SIZE);
+
+      const generated = await db.select({
+        id: aiDocuments.id,
+        title: aiDocuments.title,
+        category: aiDocuments.category,
+        businessEntityId: aiDocuments.entityId,
+        ownerUserId: aiDocuments.createdBy,
+        uploadedAt: aiDocuments.createdAt,
+      })
+        .from(aiDocuments)
+        .where(and(
+          unscheduled('ai_document', sql`${aiDocuments.id}`),
+          covered(sql`${aiDocuments.category}`),
+        ))
+        .limit(SYNC_BATCH_SIZE);
+
+      const rows = [
+        ...vault.map(document => ({ kind: 'vault' as DocumentKind, ...document })),
+        ...generated.map(document => ({ kind: 'ai_document' as DocumentKind, ...document })),
+      ].flatMap(document => {
+        const policy = selectPolicy(policies, document.category);
+        if (!policy) return [];
+        const dueAt = retentionDueDate(policy, document.uploadedAt || new Date());
+        return [{
+          documentKind: document.kind,
+          documentId: document.id,
+          policyId: policy.id,
+          businessEntityId: document.businessEntityId,
+          ownerUserId: document.ownerUserId,
+          documentCategory: document.category,
+          action: policy.action,
+          dueAt,
+          noticeAt: noticeDate(policy, dueAt),
+          status: 'scheduled',
+        }];
+      });
+
+      if (rows.length > 0) {
+        await db.insert(documentRetentionSchedule).values(rows).onConflictDoNothing();
+        scheduled += rows.length;
+      }
+      if (vault.length < SYNC_BATCH_SIZE && generated.length < SYNC_BATCH_SIZE) break;
+    }
+    return scheduled;
+  }
+
+  /**
+   * Move one schedule row on: hold it, notify the owner, or act
+   */
+  private async advance(
+    row: ScheduleRow,
+    policy: RetentionPolicy | null,
+    holds: LegalHold[],
+    now: Date
+  ): Promise<keyof RetentionRunResult | null> {
+    const update = (values: Partial<typeof documentRetentionSchedule.$inferInsert>) => db.update(documentRetentionSchedule)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(documentRetentionSchedule.id, row.id));
+
+    // Holds only stand in the way of destruction; archives and reminders go ahead
+    const hold = row.action === 'delete'
+      ? findHold(holds, { kind: row.documentKind as DocumentKind, id: row.documentId, category: row.documentCategory, businessEntityId: row.businessEntityId })
+      : null;
+    if (hold) {
+      if (row.status === 'held' && row.heldBy === hold.id) return null;
+      await update({ status: 'held', heldBy: hold.id });
+      return 'held';
+    }
+
+    if (row.dueAt > now) {
+      if (row.notifiedAt) {
+        if (row.status === 'held') await update({ status: 'notified', heldBy: null });
+        return null;
+      }
+      await this.notifyOwner(row, policy);
+      await update({ status: 'notified', notifiedAt: now, heldBy: null });
+      return 'notified';
+    }
+
+    switch (row.action) {
+      case 'archive':
+        await this.archiveDocument(row.documentKind as DocumentKind, row.documentId);
+        await update({ status: 'archived', actionTakenAt: now, heldBy: null, lastError: null });
+        return 'archived';
+      case 'delete':
+        await this.purgeDocument(row.documentKind as DocumentKind, row.documentId, { trigger: 'retention_policy', policy });
+        return 'purged';
+      default:
+        await this.notifyOwner(row, policy);
+        await update({ status: 'completed', actionTakenAt: now, heldBy: null, lastError: null });
+        return 'reminded';
+    }
+  }
+
+  private async archiveDocument(kind: DocumentKind, documentId: number) {
+    if (kind === 'vault') {
+      const archivedAt = new Date();
+      await db.update(documentVault)
+        .set({ archivedAt, updatedAt: archivedAt })
+        .where(or(eq(documentVault.id, documentId), eq(documentVault.parentDocumentId, documentId)));
+    } else if (kind === 'upload') {
+      await db.update(documentsUploads)
+        .set({ status: 'archived', updatedAt: new Date() })
+        .where(eq(documentsUploads.id, documentId));
+    } else {
+      await db.update(aiDocuments)
+        .set({ status: 'archived', updatedAt: new Date() })
+        .where(eq(aiDocuments.id, documentId));
+    }
+  }
+
+  private async notifyOwner(row: ScheduleRow, policy: RetentionPolicy | null) {
+    if (!row.ownerUserId) return;
+
+    const document = await this.loadDocument(row.documentKind as DocumentKind, row.documentId).catch(() => null);
+    if (!document) return;
+
+    const dueDate = row.dueAt.toISOString().slice(0, 10);
+    const what = row.action === 'delete'
+      ? `will be permanently deleted on ${dueDate}`
+      : row.action === 'archive'
+        ? `will be archived on ${dueDate}`
+        : `reached the end of its retention period on ${dueDate}`;
+
+    try {
+      await notificationDispatcher.dispatch({
+        type: 'document_retention',
+        userId: row.ownerUserId,
+        channels: ['email', 'in_app'],
+        subject: `Document retention: ${document.title}`,
+        content: `"${document.title}" ${what} under the ${policy?.name || 'document retention'} policy. Download a copy before then if you need it.`,
+        referenceType: 'document_retention',
+        referenceId: row.id,
+        data: { documentKind: row.documentKind, documentId: row.documentId, action: row.action, dueAt: dueDate },
+        idempotencyKey: `retention-${row.id}-${row.action}-${dueDate}`,
+      });
+    } catch (error) {
+      logger.error(`Retention notice for ${row.documentKind} ${row.documentId} failed:`, error);
+    }
+  }
+
+  private async loadDocument(kind: DocumentKind, documentId: number): Promise<RetentionDocument> {
+    if (kind === 'vault') {
+      const [document] = await db.select().from(documentVault).where(eq(documentVault.id, documentId));
+      if (!document) throw new NotFoundError('Vault document');
+      return {
+        kind,
+        id: document.id,
+        title: document.originalFileName,
+        category: document.category,
+        businessEntityId: document.businessEntityId,
+        ownerUserId: document.userId,
+        uploadedAt: document.createdAt || new Date(),
+      };
+    }
+
+    if (kind === 'upload') {
+      const [document] = await db.select().from(documentsUploads).where(eq(documentsUploads.id, documentId));
+      if (!document) throw new NotFoundError('Uploaded document');
+      return this.uploadDocument(document);
+    }
+
+    const [document] = await db.select().from(aiDocuments).where(eq(aiDocuments.id, documentId));
+    if (!document) throw new NotFoundError('Document');
+    return {
+      kind,
+      id: document.id,
+      title: document.title,
+      category: document.category,
+      businessEntityId: document.entityId,
+      ownerUserId: document.createdBy,
+      uploadedAt: document.createdAt || new Date(),
+    };
+  }
+
+  /**
+   * A data principal's documents: everything filed under the business
+   * entities they own, their own vault uploads not filed under an entity, and
+   * prepared documents made out to them. Staff authorship is not ownership, so an erasure request
+   * for an employee leaves the client documents they prepared alone.
+   */
+  private async documentsOwnedBy(userIds: number[]): Promise<RetentionDocument[]> {
+    if (userIds.length === 0) return [];
+
+    const entityIds = (await db.select({ id: businessEntities.id }).from(businessEntities)
+      .where(inArray(businessEntities.ownerId, userIds)))
+      .map(entity => entity.id);
+    const hasEntities = entityIds.length > 0;
+
+    // The uploader owns a vault document only when it is not filed under an entity
+    const personalVault = and(isNull(documentVault.businessEntityId), inArray(documentVault.userId, userIds));
+    const vault = await db.select().from(documentVault)
+      .where(and(
+        isNull(documentVault.parentDocumentId),
+        hasEntities ? or(inArray(documentVault.businessEntityId, entityIds), personalVault) : personalVault,
+      ));
+    const generated = await db.select().from(aiDocuments)
+      .where(hasEntities
+        ? or(inArray(aiDocuments.entityId, entityIds), inArray(aiDocuments.clientId, userIds))
+        : inArray(aiDocuments.clientId, userIds));
+    const uploads = hasEntities
+      ? await db.select().from(documentsUploads).where(inArray(documentsUploads.entityId, entityIds))
+      : [];
+
+    return [
+      ...vault.map((document): RetentionDocument => ({
+        kind: 'vault',
+        id: document.id,
+        title: document.originalFileName,
+        category: document.category,
+        businessEntityId: document.businessEntityId,
+        ownerUserId: document.userId,
+        uploadedAt: document.createdAt || new Date(),
+      })),
+      ...generated.map((document): RetentionDocument => ({
+        kind: 'ai_document',
+        id: document.id,
+        title: document.title,
+        category: document.category,
+        businessEntityId: document.entityId,
+        ownerUserId: document.clientId,
+        uploadedAt: document.createdAt || new Date(),
+      })),
+      ...uploads.map(document => this.uploadDocument(document)),
+    ];
+  }
+
+  private uploadDocument(document: typeof documentsUploads.$inferSelect): RetentionDocument {
+    return {
+      kind: 'upload',
+      id: document.id,
+      title: document.filename,
+      category: document.doctype,
+      businessEntityId: document.entityId,
+      ownerUserId: null,
+      uploadedAt: document.uploadedAt || document.createdAt || new Date(),
+    };
+  }
+
+  /**
+   * Every stored file belonging to a document and its versions
+   */
+  private async documentFiles(kind: DocumentKind, documentId: number): Promise<{ fileUrls: string[]; versionsPurged: number }> {
+    if (kind === 'vault') {
+      const rows = await db.select({ id: documentVault.id, fileUrl: documentVault.fileUrl })
+        .from(documentVault)
+        .where(or(eq(documentVault.id, documentId), eq(documentVault.parentDocumentId, documentId)));
+      return { fileUrls: rows.map(row => row.fileUrl).filter(Boolean), versionsPurged: rows.length - 1 };
+    }
+
+    if (kind === 'upload') {
+      const [document] = await db.select({ path: documentsUploads.path }).from(documentsUploads)
+        .where(eq(documentsUploads.id, documentId));
+      return { fileUrls: document?.path ? [document.path] : [], versionsPurged: 0 };
+    }
+
+    const [document] = await db.select().from(aiDocuments).where(eq(aiDocuments.id, documentId));
+    const versions = await db.select().from(documentVersions).where(eq(documentVersions.documentId, documentId));
+    const signatures = await db.select({ signatureImageUrl: documentSignatures.signatureImageUrl })
+      .from(documentSignatures)
+      .where(eq(documentSignatures.documentId, documentId));
+
+    const fileUrls = [
+      document?.pdfUrl, document?.docxUrl, document?.originalUrl,
+      ...versions.flatMap(version => [version.pdfUrl, version.docxUrl]),
+      ...signatures.map(signature => signature.signatureImageUrl),
+    ].filter((url): url is string => !!url);
+    return { fileUrls, versionsPurged: versions.length };
+  }
+
+  private async destroyFile(fileUrl: string): Promise<PurgedFile> {
+    const path = resolveStoragePath(fileUrl);
+    if (!path) {
+      return { path: fileUrl, sha256: null, bytes: null, status: 'external' };
+    }
+
+    let contents: Buffer;
+    try {
+      contents = await readFromStorage(path);
+    } catch {
+      return { path, sha256: null, bytes: null, status: 'missing' };
+    }
+
+    await deleteFromStorage(path);
+    return {
+      path,
+      sha256: crypto.createHash('sha256').update(contents).digest('hex'),
+      bytes: contents.length,
+      status: 'deleted',
+    };
+  }
+
+  private async storeCertificatePdf(certificate: RetentionCertificate): Promise<string> {
+    const payload = certificate.payload as {
+      trigger: string;
+      policy: { name: string; retentionDays: number; legalBasis: string | null } | null;
+      dataDeletionRequestId: number | null;
+      document: { kind: string; id: number; title: string; category: string | null; uploadedAt: string };
+      files: PurgedFile[];
+      purgedAt: string;
+    };
+    const text = (value: string) => [{ text: value }];
+    const bold = (value: string) => [{ text: value, bold: true }];
+    const cell = (value: string, header = false) => ({ runs: header ? bold(value) : text(value), header });
+
+    const blocks: DocumentBlock[] = [
+      { type: 'heading', level: 1, runs: text('Certificate of Document Destruction'), align: 'center' },
+      { type: 'paragraph', runs: text(`Certificate No. ${certificate.certificateNumber}`), align: 'center' },
+      { type: 'rule' },
+      {
+        type: 'paragraph',
+        align: 'justify',
+        runs: text(`${ISSUER} certifies that the document described below, together with ${certificate.versionsPurged} earlier version(s) and the stored files listed, was permanently destroyed on ${payload.purgedAt.slice(0, 10)}.`),
+      },
+      {
+        type: 'table',
+        rows: [
+          [cell('Document', true), cell(`${payload.document.title} (${payload.document.kind} #${payload.document.id})`)],
+          [cell('Category', true), cell(payload.document.category || '-')],
+          [cell('Stored since', true), cell(payload.document.uploadedAt.slice(0, 10))],
+          [cell('Reason', true), cell(payload.trigger === 'erasure_request'
+            ? `Erasure request #${payload.dataDeletionRequestId} under the Digital Personal Data Protection Act, 2023`
+            : `Retention policy "${payload.policy?.name}" (${payload.policy?.retentionDays} days)`)],
+          [cell('Legal basis', true), cell(payload.policy?.legalBasis || '-')],
+        ],
+      },
+      { type: 'heading', level: 2, runs: text('Files destroyed'), align: 'left' },
+      {
+        type: 'table',
+        rows: [
+          [cell('File', true), cell('Size (bytes)', true), cell('SHA-256', true), cell('Status', true)],
+          ...payload.files.map(file => [
+            cell(file.path),
+            cell(file.bytes === null ? '-' : String(file.bytes)),
+            cell(file.sha256 || '-'),
+            cell(file.status),
+          ]),
+        ],
+      },
+      { type: 'heading', level: 2, runs: text('Signature'), align: 'left' },
+      {
+        type: 'paragraph',
+        align: 'left',
+        runs: text(`HMAC-SHA256 over the certificate record (key ${certificate.signingKeyId}): ${certificate.signature}`),
+      },
+    ];
+
+    const buffer = await renderPdf(blocks, { title: `Retention certificate ${certificate.certificateNumber}`, author: ISSUER });
+    const upload = await uploadToStorage({
+      buffer,
+      originalname: `${certificate.certificateNumber}.pdf`,
+      mimetype: 'application/pdf',
+      size: buffer.length,
+    } as Express.Multer.File, false, 'retention-certificates');
+    return upload.path;
+  }
+
+  private scopeCategories(scope: unknown): string[] | null {
+    const categories = (scope as { documentCategories?: unknown } | null)?.documentCategories;
+    if (!Array.isArray(categories) || categories.length === 0) return null;
+    return categories.map(category => String(category).toLowerCase());
+  }
+
+  private signingKey(): string {
+    const key = process.env.RETENTION_SIGNING_KEY || process.env.SESSION_SECRET;
+    if (!key) {
+      throw new AppError('RETENTION_SIGNING_KEY is not configured', 500, 'CONFIGURATION_ERROR');
+    }
+    return key;
+  }
+}
+
+export const retentionEngine = new RetentionEngine();
+export { RetentionEngine };
@@ -0,0 +1,194 @@
+/**
+ * Retention Rules
+ *
+ * Which retention policy governs a document, when its action falls due, which
+ * legal hold (if any) covers it, whether an erasure request may purge it, and
+ * the canonical form and HMAC signature of retention certificates.
+ *
+ * Statutory clocks such as the eight years of books of account under the
+ * Companies Act run from the end of the financial year, not the upload date:
+ * policies with clockStart 'financial_year_end' count from the 31 March
+ * after the document was uploaded.
+ */
+
+import crypto from 'crypto';
+
+export type DocumentKind = 'vault' | 'ai_document' | 'upload';
+export type RetentionAction = 'archive' | 'delete' | 'notify';
+export type RetentionClock = 'uploaded' | 'financial_year_end';
+export type HoldScope = 'document' | 'entity' | 'category';
+
+export const RETENTION_ACTIONS: RetentionAction[] = ['archive', 'delete', 'notify'];
+export const RETENTION_CLOCKS: RetentionClock[] = ['uploaded', 'financial_year_end'];
+export const HOLD_SCOPES: HoldScope[] = ['document', 'entity', 'category'];
+export const DOCUMENT_KINDS: DocumentKind[] = ['vault', 'ai_document', 'upload'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PolicyRule {
+  id: number;
+  documentCategory: string | null;
+  retentionDays: number;
+  clockStart: string | null;
+  action: string;
+  notifyDaysBeforeAction: number | null;
+  isStatutory: boolean | null;
+  isActive: boolean | null;
+}
+
+export interface HoldRule {
+  id: number;
+  name: string;
+  scopeType: string;
+  documentKind: string | null;
+  documentId: number | null;
+  businessEntityId: number | null;
+  documentCategory: string | null;
+  status: string | null;
+}
+
+export interface RetainedDocument {
+  kind: DocumentKind;
+  id: number;
+  category: string | null;
+  businessEntityId: number | null;
+  uploadedAt: Date;
+}
+
+export type ErasureDecision =
+  | { action: 'purge' }
+  | { action: 'retain'; reason: 'legal_hold'; holdId: number; holdName: string }
+  | { action: 'retain'; reason: 'statutory_retention'; policyId: number; until: Date };
+
+function sameCategory(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * The active policy for a category: one naming the category wins over the
+ * catch-all (no category); among equals the longest retention wins, so a
+ * document is never destroyed earlier than any applicable policy allows
+ */
+export function selectPolicy<T extends PolicyRule>(policies: T[], category: string | null): T | null {
+  const active = policies.filter(policy => policy.isActive !== false);
+  const specific = active.filter(policy => sameCategory(policy.documentCategory, category));
+  const candidates = specific.length > 0 ? specific : active.filter(policy => !policy.documentCategory);
+  if (candidates.length === 0) return null;
+
+  return candidates.reduce((longest, policy) => (
+    retentionDueDate(policy, new Date(0)) > retentionDueDate(longest, new Date(0)) ? policy : longest
+  ));
+}
+
+/**
+ * End of the Indian financial year (31 March) in which a date falls
+ */
+export function financialYearEnd(date: Date): Date {
+  const year = date.getUTCMonth() >= 3 ? date.getUTCFullYear() + 1 : date.getUTCFullYear();
+  return new Date(Date.UTC(year, 2, 31));
+}
+
+/**
+ * When the policy's action falls due for a document uploaded at a given time
+ */
+export function retentionDueDate(policy: Pick<PolicyRule, 'retentionDays' | 'clockStart'>, uploadedAt: Date): Date {
+  const start = policy.clockStart === 'financial_year_end' ? financialYearEnd(uploadedAt) : uploadedAt;
+  return new Date(start.getTime() + policy.retentionDays * DAY_MS);
+}
+
+/**
+ * When the owner is told about the coming action, or null for no notice
+ */
+export function noticeDate(policy: Pick<PolicyRule, 'notifyDaysBeforeAction'>, dueAt: Date): Date | null {
+  const days = policy.notifyDaysBeforeAction ?? 0;
+  return days > 0 ? new Date(dueAt.getTime() - days * DAY_MS) : null;
+}
+
+/**
+ * The first active hold covering a document, by the document itself, its
+ * business entity or its category
+ */
+export function findHold<T extends HoldRule>(
+  holds: T[],
+  document: Pick<RetainedDocument, 'kind' | 'id' | 'category' | 'businessEntityId'>
+): T | null {
+  return holds.find(hold => {
+    if (hold.status !== 'active') return false;
+    switch (hold.scopeType) {
+      case 'document':
+        return hold.documentKind === document.kind && hold.documentId === document.id;
+      case 'entity':
+        return hold.businessEntityId !== null && hold.businessEntityId === document.businessEntityId;
+      case 'category':
+        return sameCategory(hold.documentCategory, document.category);
+      default:
+        return false;
+    }
+  }) || null;
+}
+
+/**
+ * Whether an erasure request may purge a document now. Holds always win;
+ * statutory retention keeps the document until its policy's due date.
+ * Non-statutory policies don't stand in the way of the data principal.
+ */
+export function erasureDecision(
+  document: RetainedDocument,
+  policies: PolicyRule[],
+  holds: HoldRule[],
+  now: Date
+): ErasureDecision {
+  const hold = findHold(holds, document);
+  if (hold) {
+    return { action: 'retain', reason: 'legal_hold', holdId: hold.id, holdName: hold.name };
+  }
+
+  const statutory = selectPolicy(policies.filter(policy => policy.isStatutory), document.category);
+  if (statutory) {
+    const until = retentionDueDate(statutory, document.uploadedAt);
+    if (until > now) {
+      return { action: 'retain', reason: 'statutory_retention', policyId: statutory.id, until };
+    }
+  }
+
+  return { action: 'purge' };
+}
+
+/**
+ * JSON with object keys sorted at every level, so the same certificate
+ * always serialises (and signs) identically
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const entries = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+export function signPayload(payload: unknown, key: string): string {
+  return crypto.createHmac('sha256', key).update(canonicalJson(payload)).digest('hex');
+}
+
+export function verifySignature(payload: unknown, signature: string, key: string): boolean {
+  const expected = Buffer.from(signPayload(payload, key), 'hex');
+  const given = Buffer.from(signature, 'hex');
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+/**
+ * Short public identifier of a signing key, recorded on each certificate
+ */
+export function signingKeyId(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,90 @@
+/**
+ * Search Query
+ *
+ * Turns what ops type ("2023 MOA acme", "AAACA1234A gst certificate") into
+ * terms for the full-text index: identifiers are matched exactly against
+ * extracted entities, four-digit years become a document-date filter, filler
+ * words are dropped and everything else is a prefix term.
+ */
+
+import { escapeHtml } from './template-merge';
+import { identifierType, type IdentifierType } from './entity-extraction';
+
+export interface SearchTerm {
+  text: string; // lower case letters and digits, or the identifier as written
+  identifier: IdentifierType | null;
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  years: number[];
+}
+
+// Control characters can't occur in extracted text, so they mark highlights
+// safely until the fragment has been escaped
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_STOP = '\u0003';
+export const FRAGMENT_DELIMITER = '\u0004';
+
+const MAX_TERMS = 10;
+
+const FILLER_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'in', 'on', 'to', 'with', 'by', 'from',
+  'client', 'doc', 'docs', 'document', 'documents', 'file', 'files', 'copy',
+]);
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+  const years: number[] = [];
+  const seen = new Set<string>();
+  const add = (term: SearchTerm) => {
+    if (seen.has(term.text) || terms.length >= MAX_TERMS) return;
+    seen.add(term.text);
+    terms.push(term);
+  };
+
+  for (const token of query.split(/\s+/).filter(Boolean)) {
+    const trimmed = token.replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9]+$/g, '');
+    const identifier = trimmed.length >= 8 ? identifierType(trimmed) : null;
+    if (identifier) {
+      add({ text: trimmed.toUpperCase(), identifier });
+      continue;
+    }
+
+    for (const word of trimmed.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+      if (/^(19|20)[0-9]{2}$/.test(word)) {
+        if (!years.includes(Number(word))) years.push(Number(word));
+      } else if (!FILLER_WORDS.has(word)) {
+        add({ text: word, identifier: null });
+      }
+    }
+  }
+
+  return { terms, years };
+}
+
+/**
+ * Words of a file name, so "MOA_Acme-2023.pdf" is found by "moa acme"
+ */
+export function fileNameWords(fileName: string | null | undefined): string {
+  return (fileName || '')
+    .replace(/\.[a-z0-9]{2,5}$/i, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * ts_headline output as HTML: the text escaped, matches in <mark>
+ */
+export function renderHighlights(headline: string | null | undefined): string[] {
+  if (!headline) return [];
+  return headline
+    .split(FRAGMENT_DELIMITER)
+    .map(fragment => fragment.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map(fragment => escapeHtml(fragment)
+      .split(HIGHLIGHT_START).join('<mark>')
+      .split(HIGHLIGHT_STOP).join('</mark>'));
+}
@@ -0,0 +1,523 @@
+/**
+ * Template Merge Engine
+ *
+ * Merges document templates (board resolutions, DIR-2 consents, INC-9
+ * declarations, engagement letters) with entity, client and service request
+ * data. Templates are HTML with mustache-style tags:
+ *
+ *   {{entity.name}}                  escaped value
+ *   {{{clauses.custom}}}             raw HTML
+ *   {{capital | inr}}                value through a formatter (see FORMATTERS)
+ *   {{#if entity.cin}}...{{else}}...{{/if}}
+ *   {{#if entity.entityType == "llp"}}...{{/if}}   (== and != against a literal)
+ *   {{#unless directors}}...{{/unless}}
+ *   {{#each directors}}{{@number}}. {{name}} (DIN {{din}}){{else}}none{{/each}}
+ *   {{! comment }}
+ *
+ * Inside #each, names resolve against the current item first and then the
+ * enclosing scopes; @index, @number (1-based), @first, @last and @count
+ * describe the loop. Values that are missing where output is expected are
+ * reported in missingFields so a legal document never goes out with blanks.
+ */
+
+export interface TemplateValidation {
+  valid: boolean;
+  errors: string[];
+  fields: string[]; // merge field paths the template reads, in order
+}
+
+export interface MergeResult {
+  html: string;
+  missingFields: string[];
+}
+
+export type MergeData = Record<string, unknown>;
+
+export class TemplateError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Template has ${errors.length} error${errors.length === 1 ? '' : 's'}: ${errors.join('; ')}`);
+    this.name = 'TemplateError';
+  }
+}
+
+export const TEMPLATE_TIMEZONE = 'Asia/Kolkata';
+
+// ============================================
+// PARSER
+// ============================================
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string; filters: FilterCall[]; raw: boolean; line: number }
+  | { kind: 'if'; condition: Condition; negate: boolean; then: Node[]; otherwise: Node[]; line: number }
+  | { kind: 'each'; path: string; body: Node[]; otherwise: Node[]; line: number };
+
+interface FilterCall {
+  name: string;
+  args: Array<{ text: string; quoted: boolean }>;
+}
+
+interface Condition {
+  path: string;
+  operator: '==' | '!=' | null;
+  literal: string | null;
+}
+
+interface OpenBlock {
+  node: Extract<Node, { kind: 'if' | 'each' }>;
+  tag: 'if' | 'unless' | 'each';
+  inElse: boolean;
+}
+
+const TAG_PATTERN = /\{\{\{\s*([\s\S]*?)\s*\}\}\}|\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(@[a-z]+|this|[A-Za-z_][\w]*(\.[A-Za-z_][\w]*|\.\d+)*)$/;
+
+function parse(source: string): { nodes: Node[]; errors: string[]; fields: string[] } {
+  const root: Node[] = [];
+  const stack: OpenBlock[] = [];
+  const errors: string[] = [];
+  const fields: string[] = [];
+  let cursor = 0;
+
+  const target = (): Node[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    if (open.node.kind === 'if') return open.inElse ? open.node.otherwise : open.node.then;
+    return open.inElse ? open.node.otherwise : open.node.body;
+  };
+  const lineAt = (index: number) => source.slice(0, index).split('\n').length;
+  const notePath = (path: string) => {
+    if (!path.startsWith('@') && path !== 'this' && !fields.includes(path)) fields.push(path);
+  };
+
+  for (const match of Array.from(source.matchAll(TAG_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > cursor) target().push({ kind: 'text', text: source.slice(cursor, index) });
+    cursor = index + match[0].length;
+
+    const line = lineAt(index);
+    const raw = match[1] !== undefined;
+    const tag = (raw ? match[1] : match[2]).trim();
+
+    if (tag.startsWith('!')) continue;
+
+    if (!raw && tag.startsWith('#')) {
+      const [, keyword, rest = ''] = tag.match(/^#(\w+)\s*([\s\S]*)$/) || [];
+      if (keyword === 'if' || keyword === 'unless') {
+        const condition = parseCondition(rest.trim());
+        if (!condition) {
+          errors.push(`Line ${line}: invalid condition "${rest.trim()}" in {{#${keyword}}}`);
+          continue;
+        }
+        notePath(condition.path);
+        const node: Node = { kind: 'if', condition, negate: keyword === 'unless', then: [], otherwise: [], line };
+        target().push(node);
+        stack.push({ node, tag: keyword, inElse: false });
+      } else if (keyword === 'each') {
+        const path = rest.trim();
+        if (!PATH_PATTERN.test(path)) {
+          errors.push(`Line ${line}: invalid list "${path}" in {{#each}}`);
+          continue;
+        }
+        notePath(path);
+        const node: Node = { kind: 'each', path, body: [], otherwise: [], line };
+        target().push(node);
+        stack.push({ node, tag: 'each', inElse: false });
+      } else {
+        errors.push(`Line ${line}: unknown block {{#${keyword || tag.slice(1)}}}`);
+      }
+      continue;
+    }
+
+    if (!raw && tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        errors.push(`Line ${line}: {{else}} without an open block`);
+      } else {
+        open.inElse = true;
+      }
+      continue;
+    }
+
+    if (!raw && tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open) {
+        errors.push(`Line ${line}: {{/${keyword}}} without an open block`);
+      } else if (open.tag !== keyword) {
+        errors.push(`Line ${line}: {{/${keyword}}} closes {{#${open.tag}}} from line ${open.node.line}`);
+      }
+      continue;
+    }
+
+    const [pathPart, ...filterParts] = splitPipes(tag);
+    const path = pathPart.trim();
+    if (!PATH_PATTERN.test(path)) {
+      errors.push(`Line ${line}: invalid merge field "${path}"`);
+      continue;
+    }
+    notePath(path);
+    const filters: FilterCall[] = [];
+    for (const part of filterParts) {
+      const [name, ...args] = tokenizeArgs(part.trim());
+      if (!name || !(name.text in FORMATTERS)) {
+        errors.push(`Line ${line}: unknown formatter "${name?.text || part.trim()}" (expected one of ${Object.keys(FORMATTERS).join(', ')})`);
+        continue;
+      }
+      for (const arg of args) {
+        if (!arg.quoted && /^[A-Za-z_]/.test(arg.text) && PATH_PATTERN.test(arg.text)) notePath(arg.text);
+      }
+      filters.push({ name: name.text, args });
+    }
+    target().push({ kind: 'value', path, filters, raw, line });
+  }
+
+  if (cursor < source.length) target().push({ kind: 'text', text: source.slice(cursor) });
+  for (const open of stack.reverse()) {
+    errors.push(`Line ${open.node.line}: {{#${open.tag}}} is never closed`);
+  }
+  return { nodes: root, errors, fields };
+}
+
+function parseCondition(expression: string): Condition | null {
+  const comparison = expression.match(/^(\S+)\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'|(-?\d+(?:\.\d+)?|true|false))$/);
+  if (comparison) {
+    const [, path, operator, double, single, bare] = comparison;
+    if (!PATH_PATTERN.test(path)) return null;
+    return { path, operator: operator as '==' | '!=', literal: double ?? single ?? bare ?? '' };
+  }
+  return PATH_PATTERN.test(expression) ? { path: expression, operator: null, literal: null } : null;
+}
+
+function splitPipes(tag: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of tag) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function tokenizeArgs(text: string): Array<{ text: string; quoted: boolean }> {
+  const tokens: Array<{ text: string; quoted: boolean }> = [];
+  for (const match of Array.from(text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g))) {
+    tokens.push(match[3] !== undefined ? { text: match[3], quoted: false } : { text: match[1] ?? match[2], quoted: true });
+  }
+  return tokens;
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+interface Scope {
+  value: unknown;
+  loop?: { path: string; index: number; count: number };
+}
+
+/**
+ * Check a template's syntax and list the merge fields it reads
+ */
+export function validateTemplate(source: string): TemplateValidation {
+  const { errors, fields } = parse(source);
+  return { valid: errors.length === 0, errors, fields };
+}
+
+/**
+ * Merge data into a template. Throws TemplateError for syntax errors.
+ */
+export function renderTemplate(source: string, data: MergeData): MergeResult {
+  const { nodes, errors } = parse(source);
+  if (errors.length > 0) throw new TemplateError(errors);
+
+  const missing: string[] = [];
+  const html = renderNodes(nodes, [{ value: data }], missing);
+  return { html, missingFields: missing };
+}
+
+function renderNodes(nodes: Node[], scopes: Scope[], missing: string[]): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        output += node.text;
+        break;
+
+      case 'value': {
+        let value = resolvePath(node.path, scopes);
+        for (const filter of node.filters) {
+          // Unquoted arguments naming a field take its value: {{place | default entity.city}}
+          const args = filter.args.map(arg => (!arg.quoted && /^[A-Za-z_@]/.test(arg.text) && PATH_PATTERN.test(arg.text)
+            ? resolvePath(arg.text, scopes)
+            : arg.text));
+          value = FORMATTERS[filter.name](value, args);
+        }
+        if (isBlank(value)) {
+          const label = qualifiedPath(node.path, scopes);
+          if (!missing.includes(label)) missing.push(label);
+          output += `[${node.path}]`;
+        } else {
+          const text = stringify(value);
+          output += node.raw ? text : escapeHtml(text);
+        }
+        break;
+      }
+
+      case 'if': {
+        const passed = evaluate(node.condition, scopes) !== node.negate;
+        output += renderNodes(passed ? node.then : node.otherwise, scopes, missing);
+        break;
+      }
+
+      case 'each': {
+        const list = resolvePath(node.path, scopes);
+        const items = Array.isArray(list) ? list : [];
+        if (items.length === 0) {
+          output += renderNodes(node.otherwise, scopes, missing);
+          break;
+        }
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, [...scopes, { value: item, loop: { path: node.path, index, count: items.length } }], missing);
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+function evaluate(condition: Condition, scopes: Scope[]): boolean {
+  const value = resolvePath(condition.path, scopes);
+  if (condition.operator === null) return isTruthy(value);
+  const equal = String(value ?? '').toLowerCase() === String(condition.literal).toLowerCase();
+  return condition.operator === '==' ? equal : !equal;
+}
+
+function resolvePath(path: string, scopes: Scope[]): unknown {
+  const innermost = scopes[scopes.length - 1];
+
+  if (path.startsWith('@')) {
+    const loop = [...scopes].reverse().find(scope => scope.loop)?.loop;
+    if (!loop) return undefined;
+    switch (path) {
+      case '@index': return loop.index;
+      case '@number': return loop.index + 1;
+      case '@first': return loop.index === 0;
+      case '@last': return loop.index === loop.count - 1;
+      case '@count': return loop.count;
+      default: return undefined;
+    }
+  }
+  if (path === 'this') return innermost.value;
+
+  const [head, ...rest] = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i].value;
+    if (scope && typeof scope === 'object' && head in (scope as Record<string, unknown>)) {
+      return rest.reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        (scope as Record<string, unknown>)[head]
+      );
+    }
+  }
+  return undefined;
+}
+
+// Missing fields inside a loop are reported as list.N.field (N from 1)
+function qualifiedPath(path: string, scopes: Scope[]): string {
+  const loop = [...scopes].reverse().find(scope => scope.loop)?.loop;
+  if (!loop || path.startsWith('@')) return path;
+  return `${loop.path}.${loop.index + 1}.${path === 'this' ? '' : path}`.replace(/\.$/, '');
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value instanceof Date) return formatIndianDate(value);
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (value && typeof value === 'object') {
+    const named = (value as Record<string, unknown>).name;
+    return typeof named === 'string' ? named : '';
+  }
+  return String(value);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ============================================
+// FORMATTERS (Indian conventions)
+// ============================================
+
+type Formatter = (value: unknown, args: unknown[]) => unknown;
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+
+export const FORMATTERS: Record<string, Formatter> = {
+  // ₹12,34,567.00
+  inr: (value) => {
+    const amount = toNumber(value);
+    return amount === null ? value : `₹${formatIndianNumber(amount, 2)}`;
+  },
+  // 12,34,567 (or with the given decimals)
+  number: (value, [decimals]) => {
+    const amount = toNumber(value);
+    return amount === null ? value : formatIndianNumber(amount, decimals ? parseInt(String(decimals)) : undefined);
+  },
+  // Ten Thousand (share counts, tenure in years)
+  words: (value) => {
+    const amount = toNumber(value);
+    return amount === null ? value : numberInWords(amount);
+  },
+  // Rupees One Lakh Twenty Thousand and Fifty Paise Only
+  rupees: (value) => {
+    const amount = toNumber(value);
+    return amount === null ? value : rupeesInWords(amount);
+  },
+  // short 16/03/2026, long 16 March 2026, ordinal 16th day of March, 2026, month March 2026
+  date: (value, [style]) => {
+    const date = toDate(value);
+    return date ? formatIndianDate(date, (style as DateStyle) || 'short') : value;
+  },
+  // Financial year 2025-26
+  fy: (value) => {
+    const date = toDate(value);
+    return date ? financialYear(date) : value;
+  },
+  upper: (value) => (typeof value === 'string' ? value.toUpperCase() : value),
+  lower: (value) => (typeof value === 'string' ? value.toLowerCase() : value),
+  title: (value) => (typeof value === 'string'
+    ? value.toLowerCase().replace(/(^|[\s(-])([a-z])/g, (_, before: string, letter: string) => before + letter.toUpperCase())
+    : value),
+  default: (value, [fallback]) => (isBlank(value) ? fallback ?? '' : value),
+  join: (value, [separator]) => (Array.isArray(value) ? value.map(stringify).join(typeof separator === 'string' ? separator : ', ') : value),
+  count: (value) => (Array.isArray(value) ? value.length : 0),
+};
+
+export type DateStyle = 'short' | 'long' | 'ordinal' | 'month' | 'year';
+
+/**
+ * Lakh/crore digit grouping: 1234567.5 -> 12,34,567.50
+ */
+export function formatIndianNumber(amount: number, decimals?: number): string {
+  return new Intl.NumberFormat('en-IN', {
+    minimumFractionDigits: decimals ?? 0,
+    maximumFractionDigits: decimals ?? 2,
+  }).format(amount);
+}
+
+/**
+ * Dates as written in Indian corporate documents, in IST
+ */
+export function formatIndianDate(date: Date, style: DateStyle = 'short'): string {
+  const parts = istParts(date);
+  const day = String(parts.day).padStart(2, '0');
+  const month = String(parts.month + 1).padStart(2, '0');
+  switch (style) {
+    case 'long': return `${parts.day} ${MONTHS[parts.month]} ${parts.year}`;
+    case 'ordinal': return `${ordinal(parts.day)} day of ${MONTHS[parts.month]}, ${parts.year}`;
+    case 'month': return `${MONTHS[parts.month]} ${parts.year}`;
+    case 'year': return String(parts.year);
+    default: return `${day}/${month}/${parts.year}`;
+  }
+}
+
+/**
+ * Indian financial year (April-March) a date falls in: 2025-26
+ */
+export function financialYear(date: Date): string {
+  const { year, month } = istParts(date);
+  const start = month >= 3 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven',
+  'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+/**
+ * Whole number in words with lakh/crore: 1250000 -> Twelve Lakh Fifty Thousand
+ */
+export function numberInWords(value: number): string {
+  const whole = Math.floor(Math.abs(value));
+  if (whole === 0) return 'Zero';
+
+  const convert = (n: number): string => {
+    if (n < 20) return ONES[n];
+    if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? ` ${ONES[n % 10]}` : '');
+    if (n < 1000) return `${ONES[Math.floor(n / 100)]} Hundred${n % 100 ? ` ${convert(n % 100)}` : ''}`;
+    if (n < 100000) return `${convert(Math.floor(n / 1000))} Thousand${n % 1000 ? ` ${convert(n % 1000)}` : ''}`;
+    if (n < 10000000) return `${convert(Math.floor(n / 100000))} Lakh${n % 100000 ? ` ${convert(n % 100000)}` : ''}`;
+    return `${convert(Math.floor(n / 10000000))} Crore${n % 10000000 ? ` ${convert(n % 10000000)}` : ''}`;
+  };
+  return (value < 0 ? 'Minus ' : '') + convert(whole);
+}
+
+export function rupeesInWords(amount: number): string {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+  return `Rupees ${numberInWords(rupees)}${paise > 0 ? ` and ${numberInWords(paise)} Paise` : ''} Only`;
+}
+
+function ordinal(day: number): string {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st'
+    : day % 10 === 2 && day !== 12 ? 'nd'
+      : day % 10 === 3 && day !== 13 ? 'rd'
+        : 'th';
+  return `${day}${suffix}`;
+}
+
+function istParts(date: Date): { year: number; month: number; day: number } {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: TEMPLATE_TIMEZONE,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0');
+  return { year: get('year'), month: get('month') - 1, day: get('day') };
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
@@ -0,0 +1,283 @@
+/**
+ * Text Extraction
+ *
+ * Gets searchable text out of uploaded files without sending them anywhere:
+ * - PDFs with a text layer: pdftotext (poppler-utils)
+ * - Scanned PDFs: pdftoppm renders the pages, tesseract reads them
+ * - Images: tesseract
+ * - DOCX: word/document.xml straight out of the zip
+ * - Plain text and CSV: as is
+ *
+ * The binaries are looked up on PATH (override with PDFTOTEXT_PATH,
+ * PDFTOPPM_PATH, TESSERACT_PATH). OCR_LANGUAGES picks the tesseract language
+ * packs (default "eng"; "eng+hin" reads Hindi too), OCR_MAX_PAGES caps how
+ * much of a long scan is read.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { inflateRawSync } from 'zlib';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export type ExtractionMethod = 'plain' | 'pdf_text' | 'docx' | 'ocr';
+
+export interface ExtractionResult {
+  text: string;
+  method: ExtractionMethod;
+  confidence: number | null; // mean OCR word confidence, 0-100
+  pages: number | null;
+}
+
+export type ExtractionFailure = 'unsupported' | 'tool_missing' | 'failed';
+
+export class TextExtractionError extends Error {
+  constructor(message: string, public readonly reason: ExtractionFailure) {
+    super(message);
+    this.name = 'TextExtractionError';
+  }
+}
+
+const TOOLS = {
+  pdftotext: process.env.PDFTOTEXT_PATH || 'pdftotext',
+  pdftoppm: process.env.PDFTOPPM_PATH || 'pdftoppm',
+  tesseract: process.env.TESSERACT_PATH || 'tesseract',
+};
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES || 'eng';
+const OCR_MAX_PAGES = parseInt(process.env.OCR_MAX_PAGES || '20');
+const TOOL_TIMEOUT_MS = 120 * 1000;
+
+// A page with less text than this is treated as a scan
+const MIN_TEXT_PER_PAGE = 40;
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Searchable text of a file, by its MIME type (or extension when the type
+ * was not recorded)
+ */
+export async function extractText(
+  content: Buffer,
+  file: { mimeType?: string | null; fileName?: string | null }
+): Promise<ExtractionResult> {
+  const kind = fileKind(file.mimeType, file.fileName);
+
+  switch (kind) {
+    case 'text':
+      return { text: normalizeText(content.toString('utf8')), method: 'plain', confidence: null, pages: null };
+    case 'docx':
+      return { text: normalizeText(docxText(content)), method: 'docx', confidence: null, pages: null };
+    case 'pdf':
+      return withTempDir(dir => extractPdf(content, dir));
+    case 'image':
+      return withTempDir(async (dir) => {
+        const imagePath = path.join(dir, `scan${path.extname(file.fileName || '') || '.png'}`);
+        await writeFile(imagePath, content);
+        const page = await ocrImage(imagePath);
+        return { text: normalizeText(page.text), method: 'ocr', confidence: page.confidence, pages: 1 };
+      });
+    default:
+      throw new TextExtractionError(`No text extractor for ${file.mimeType || file.fileName || 'this file'}`, 'unsupported');
+  }
+}
+
+function fileKind(mimeType?: string | null, fileName?: string | null): 'text' | 'docx' | 'pdf' | 'image' | null {
+  const mime = (mimeType || '').toLowerCase();
+  const ext = path.extname(fileName || '').toLowerCase();
+  if (mime === 'application/pdf' || ext === '.pdf') return 'pdf';
+  if (mime.startsWith('image/') || ['.png', '.jpg', '.jpeg', '.tif', '.tiff', '.gif', '.bmp', '.webp'].includes(ext)) return 'image';
+  if (mime === DOCX_MIME || ext === '.docx') return 'docx';
+  if (mime.startsWith('text/') || ['.txt', '.csv'].includes(ext)) return 'text';
+  return null;
+}
+
+async function extractPdf(content: Buffer, dir: string): Promise<ExtractionResult> {
+  const pdfPath = path.join(dir, 'document.pdf');
+  await writeFile(pdfPath, content);
+
+  const layered = await run('pdftotext', ['-layout', '-enc', 'UTF-8', pdfPath, '-']);
+  const pages = layered.split('\f').filter((page, index, all) => index < all.length - 1 || page.trim());
+  if (!looksScanned(pages)) {
+    return { text: normalizeText(layered), method: 'pdf_text', confidence: null, pages: pages.length };
+  }
+
+  await run('pdftoppm', ['-r', '200', '-png', '-l', String(OCR_MAX_PAGES), pdfPath, path.join(dir, 'page')]);
+  const images = (await readdir(dir))
+    .filter(name => name.startsWith('page') && name.endsWith('.png'))
+    .sort((a, b) => pageNumber(a) - pageNumber(b));
+
+  const texts: string[] = [];
+  const confidences: number[] = [];
+  for (const image of images) {
+    const page = await ocrImage(path.join(dir, image));
+    texts.push(page.text);
+    if (page.confidence !== null) confidences.push(page.confidence);
+  }
+
+  return {
+    text: normalizeText(texts.join('\n\n')),
+    method: 'ocr',
+    confidence: confidences.length ? round(confidences.reduce((a, b) => a + b, 0) / confidences.length) : null,
+    pages: images.length,
+  };
+}
+
+/**
+ * Whether pdftotext output is too thin to be the real text - scans carry at
+ * most a page number or a stamp in their text layer
+ */
+export function looksScanned(pages: string[]): boolean {
+  if (!pages.length) return true;
+  const characters = pages.reduce((sum, page) => sum + page.replace(/\s+/g, '').length, 0);
+  return characters / pages.length < MIN_TEXT_PER_PAGE;
+}
+
+async function ocrImage(imagePath: string): Promise<{ text: string; confidence: number | null }> {
+  const tsv = await run('tesseract', [imagePath, 'stdout', '-l', OCR_LANGUAGES, 'tsv']);
+  return parseTesseractTsv(tsv);
+}
+
+/**
+ * Text and mean word confidence from tesseract's TSV output, keeping its
+ * line and paragraph breaks
+ */
+export function parseTesseractTsv(tsv: string): { text: string; confidence: number | null } {
+  const lines = tsv.split('\n');
+  const header = lines.shift()?.split('\t') || [];
+  const column = (name: string) => header.indexOf(name);
+  const [levelAt, blockAt, parAt, lineAt, confAt, textAt] =
+    ['level', 'block_num', 'par_num', 'line_num', 'conf', 'text'].map(column);
+
+  let text = '';
+  let previousParagraph = '';
+  let previousLine = '';
+  const confidences: number[] = [];
+
+  for (const row of lines) {
+    const cells = row.split('\t');
+    if (cells[levelAt] !== '5') continue; // words only
+    const word = (cells[textAt] || '').trim();
+    if (!word) continue;
+
+    const paragraph = `${cells[blockAt]}.${cells[parAt]}`;
+    const line = `${paragraph}.${cells[lineAt]}`;
+    if (text && paragraph !== previousParagraph) text += '\n\n';
+    else if (text && line !== previousLine) text += '\n';
+    else if (text) text += ' ';
+    text += word;
+    previousParagraph = paragraph;
+    previousLine = line;
+
+    const confidence = parseFloat(cells[confAt]);
+    if (confidence >= 0) confidences.push(confidence);
+  }
+
+  return {
+    text,
+    confidence: confidences.length ? round(confidences.reduce((a, b) => a + b, 0) / confidences.length) : null,
+  };
+}
+
+/**
+ * Paragraph text of a DOCX body
+ */
+export function docxText(content: Buffer): string {
+  const xml = readZipEntry(content, 'word/document.xml');
+  if (!xml) {
+    throw new TextExtractionError('DOCX has no word/document.xml', 'failed');
+  }
+  return xml.toString('utf8')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br[^>]*\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// One entry from a zip, found through the central directory
+function readZipEntry(zip: Buffer, name: string): Buffer | null {
+  const searchFrom = Math.max(0, zip.length - 65557);
+  let end = -1;
+  for (let i = zip.length - 22; i >= searchFrom; i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new TextExtractionError('Not a zip archive', 'failed');
+  }
+
+  const entries = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < entries && offset + 46 <= zip.length; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) break;
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const entryName = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return Buffer.from(data);
+      if (method === 8) return inflateRawSync(data);
+      throw new TextExtractionError(`Unsupported zip compression method ${method}`, 'failed');
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+async function run(tool: keyof typeof TOOLS, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(TOOLS[tool], args, {
+      timeout: TOOL_TIMEOUT_MS,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new TextExtractionError(`${tool} is not installed on this server`, 'tool_missing');
+    }
+    throw new TextExtractionError(`${tool} failed: ${error?.stderr?.toString().trim() || error?.message}`, 'failed');
+  }
+}
+
+async function withTempDir<T>(work: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'doc-index-'));
+  try {
+    return await work(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Collapse layout padding but keep line structure for snippets
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\f/g, '\n\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function pageNumber(fileName: string): number {
+  return parseInt(fileName.replace(/\D+/g, '')) || 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,481 @@
+/**
+ * Due Date Extension Service
+ *
+ * Registry of deadlines extended by government circular (CBDT, CBIC, MCA, ...):
+ * - Admin-managed extensions per rule code, period, entity type and state
+ * - Matching of extensions to obligations for the deadline resolver
+ * - Retroactive recalculation of compliance states when an extension changes,
+ *   reopening tracking items and withdrawing alerts the extension invalidated.
+ *   Entity recalculations run as jobs on the compliance queue.
+ */
+import { db } from '../db';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { format, startOfDay } from 'date-fns';
+import {
+  complianceDueDateExtensions,
+  complianceRules,
+  complianceTracking,
+  businessEntities,
+  type ComplianceDueDateExtension,
+} from '@shared/schema';
+import { complianceStates, complianceAlerts } from '@shared/compliance-state-schema';
+import type { ComplianceRequirementStatus } from '@shared/compliance-state-types';
+import type { DeadlineExtension } from './deadline-resolver';
+import { resolveStateCode } from './gst-return-builder';
+import { addJob, QueueNames } from '../queues';
+import { ValidationError, NotFoundError } from '../errors';
+import { logger } from '../logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const EXTENSION_AUTHORITIES = ['CBDT', 'CBIC', 'MCA', 'EPFO', 'ESIC', 'STATE', 'OTHER'] as const;
+
+export const ALERT_WITHDRAWN_REASON = 'DUE_DATE_EXTENDED';
+
+// Spellings of the same constitution used by rules, entities and circulars
+const ENTITY_TYPE_ALIASES: Record<string, string> = {
+  privatelimited: 'pvtltd',
+  privateltd: 'pvtltd',
+  pvtlimited: 'pvtltd',
+  pvtltdcompany: 'pvtltd',
+  publicltd: 'publiclimited',
+  onepersoncompany: 'opc',
+  soleproprietorship: 'proprietorship',
+  soleprop: 'proprietorship',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExtensionAuthority = typeof EXTENSION_AUTHORITIES[number];
+
+export interface DueDateExtensionInput {
+  authority: string;
+  ruleCodes: string[];
+  period: string;
+  originalDueDate: string; // YYYY-MM-DD
+  extendedDueDate: string; // YYYY-MM-DD
+  circularReference: string;
+  circularDate?: string | null;
+  circularUrl?: string | null;
+  applicableEntityTypes?: string[] | null;
+  applicableStates?: string[] | null;
+  notes?: string | null;
+}
+
+/** An obligation an extension may apply to */
+export interface ExtensionTarget {
+  ruleCode: string;
+  statutoryDueDate: Date;
+  entityType?: string | null;
+  state?: string | null;
+}
+
+export interface ExtensionRecalculationResult {
+  trackingReopened: number;
+  jobsQueued: number; // one entity recalculation per job
+  jobsFailed: number;
+}
+
+/** The extensions behind a recalculation, as the alerts they withdraw cite them */
+export type ExtensionCircular = Pick<ComplianceDueDateExtension, 'ruleCodes' | 'circularReference'>;
+
+/** Compliance queue job recalculating one entity after extensions changed */
+export interface ExtensionRecalculationJobData {
+  action: 'apply_due_date_extensions';
+  entityId: number;
+  ruleCodes: string[];
+  circulars: ExtensionCircular[];
+}
+
+type ExtensionScope = Pick<
+  ComplianceDueDateExtension,
+  'ruleCodes' | 'originalDueDate' | 'extendedDueDate' | 'circularReference' | 'applicableEntityTypes' | 'applicableStates'
+> & { isActive?: boolean | null };
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function entityTypeKey(value: string): string {
+  const key = value.toLowerCase().replace(/[^a-z]/g, '');
+  return ENTITY_TYPE_ALIASES[key] || key;
+}
+
+function stateKey(value: string): string {
+  return resolveStateCode(value) || value.trim().toLowerCase();
+}
+
+/**
+ * Whether an extension covers an entity of this type and location.
+ * Empty lists mean every entity type / all of India.
+ */
+export function extensionCoversEntity(
+  extension: ExtensionScope,
+  entity: { entityType?: string | null; state?: string | null }
+): boolean {
+  const types = extension.applicableEntityTypes || [];
+  if (types.length > 0) {
+    if (!entity.entityType) return false;
+    const key = entityTypeKey(entity.entityType);
+    if (!types.some((type) => entityTypeKey(type) === key)) return false;
+  }
+
+  const states = extension.applicableStates || [];
+  if (states.length > 0) {
+    if (!entity.state) return false;
+    const key = stateKey(entity.state);
+    if (!states.some((state) => stateKey(state) === key)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether an extension replaces this obligation's deadline: same rule, same
+ * statutory due date (calendar day) and an entity it covers.
+ */
+export function extensionApplies(extension: ExtensionScope, target: ExtensionTarget): boolean {
+  if (extension.isActive === false) return false;
+  if (!(extension.ruleCodes || []).includes(target.ruleCode)) return false;
+  if (format(extension.originalDueDate, 'yyyy-MM-dd') !== format(target.statutoryDueDate, 'yyyy-MM-dd')) return false;
+  return extensionCoversEntity(extension, target);
+}
+
+/**
+ * Extensions for one obligation, in the form the deadline resolver takes
+ */
+export function findApplicableExtensions(extensions: ExtensionScope[], target: ExtensionTarget): DeadlineExtension[] {
+  return extensions
+    .filter((extension) => extensionApplies(extension, target))
+    .map((extension) => ({ dueDate: extension.extendedDueDate, reference: extension.circularReference }));
+}
+
+/**
+ * Whether an alert raised by the state engine still matches the recalculated
+ * requirement. Mirrors the conditions under which the engine raises alerts.
+ */
+export function isAlertStillValid(alertType: string, requirement: ComplianceRequirementStatus | undefined): boolean {
+  if (!requirement) return false;
+  if (alertType === 'OVERDUE') return requirement.state === 'RED';
+  if (alertType === 'UPCOMING') return requirement.state === 'AMBER' && requirement.priority === 'critical';
+  return true;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function parseDate(value: string | null | undefined, field: string): Date {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`);
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function cleanList(values: string[] | null | undefined): string[] | null {
+  const cleaned = Array.from(new Set((values || []).map((value) => String(value).trim()).filter(Boolean)));
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class DueDateExtensionService {
+  // ==========================================================================
+  // REGISTRY
+  // ==========================================================================
+
+  async list(filters: { ruleCode?: string; includeInactive?: boolean } = {}) {
+    const rows = await db
+      .select()
+      .from(complianceDueDateExtensions)
+      .where(filters.includeInactive ? undefined : eq(complianceDueDateExtensions.isActive, true))
+      .orderBy(desc(complianceDueDateExtensions.originalDueDate), desc(complianceDueDateExtensions.id));
+
+    return filters.ruleCode
+      ? rows.filter((row: ComplianceDueDateExtension) => (row.ruleCodes || []).includes(filters.ruleCode!))
+      : rows;
+  }
+
+  /**
+   * Active extensions, for the state engine and the deadline checker
+   */
+  async getActiveExtensions(): Promise<ComplianceDueDateExtension[]> {
+    return db
+      .select()
+      .from(complianceDueDateExtensions)
+      .where(eq(complianceDueDateExtensions.isActive, true));
+  }
+
+  async getById(id: number): Promise<ComplianceDueDateExtension> {
+    const [row] = await db
+      .select()
+      .from(complianceDueDateExtensions)
+      .where(eq(complianceDueDateExtensions.id, id))
+      .limit(1);
+    if (!row) {
+      throw new NotFoundError('Due date extension');
+    }
+    return row;
+  }
+
+  /**
+   * Record an extension and recalculate every entity it affects
+   */
+  async create(input: DueDateExtensionInput, createdBy?: number) {
+    const values = await this.validate(input);
+    const [extension] = await db
+      .insert(complianceDueDateExtensions)
+      .values({ ...values, createdBy: createdBy ?? null })
+      .returning();
+
+    logger.info(`Due date extension ${extension.id} recorded (${extension.circularReference})`);
+    const recalculation = await this.recalculate([extension]);
+    return { extension, recalculation };
+  }
+
+  /**
+   * Correct an extension. Entities covered before or after the change are recalculated.
+   */
+  async update(id: number, input: DueDateExtensionInput) {
+    const previous = await this.getById(id);
+    const values = await this.validate(input);
+    const [extension] = await db
+      .update(complianceDueDateExtensions)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(complianceDueDateExtensions.id, id))
+      .returning();
+
+    const recalculation = await this.recalculate([previous, extension]);
+    return { extension, recalculation };
+  }
+
+  /**
+   * Withdraw an extension (e.g. recorded in error). Deadlines revert to the
+   * statutory date on recalculation.
+   */
+  async deactivate(id: number) {
+    const previous = await this.getById(id);
+    const [extension] = await db
+      .update(complianceDueDateExtensions)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(complianceDueDateExtensions.id, id))
+      .returning();
+
+    const recalculation = await this.recalculate([previous]);
+    return { extension, recalculation };
+  }
+
+  // ==========================================================================
+  // RECALCULATION
+  // ==========================================================================
+
+  /**
+   * Bring compliance states in line with changed extensions:
+   * 1. Reopen tracking items the deadline checker marked overdue on a date that is now extended
+   * 2. Queue a recalculation of every covered entity already tracked for the rules
+   * 3. Each job withdraws alerts for those rules that no longer match the recalculated state
+   */
+  async recalculate(extensions: ComplianceDueDateExtension[]): Promise<ExtensionRecalculationResult> {
+    const ruleCodes = Array.from(new Set(extensions.flatMap((extension) => extension.ruleCodes || [])));
+    const result: ExtensionRecalculationResult = { trackingReopened: 0, jobsQueued: 0, jobsFailed: 0 };
+    if (ruleCodes.length === 0) return result;
+
+    result.trackingReopened = await this.reopenTracking(extensions.filter((extension) => extension.isActive !== false), ruleCodes);
+
+    // The previous version of an updated extension goes in the job, so its
+    // circular is still cited on alerts it withdraws
+    const circulars = extensions.map(({ ruleCodes, circularReference }) => ({ ruleCodes, circularReference }));
+    const extensionKey = Array.from(new Set(extensions.map((extension) => extension.id))).sort((a, b) => a - b).join('-');
+
+    for (const entityId of await this.findAffectedEntities(extensions, ruleCodes)) {
+      const data: ExtensionRecalculationJobData = { action: 'apply_due_date_extensions', entityId, ruleCodes, circulars };
+      const jobId = await addJob(QueueNames.COMPLIANCE, 'apply_due_date_extensions', data, {
+        deduplication: { id: `due-date-extension-${extensionKey}-${entityId}` },
+      });
+      if (jobId) result.jobsQueued++;
+      else result.jobsFailed++;
+    }
+
+    logger.info(
+      `Due date extensions: ${result.trackingReopened} tracking items reopened, ` +
+      `${result.jobsQueued} entity recalculations queued, ${result.jobsFailed} not queued`
+    );
+    return result;
+  }
+
+  /**
+   * Compliance queue job: recalculate one entity and withdraw the alerts the
+   * extensions invalidated
+   */
+  async recalculateEntity(data: ExtensionRecalculationJobData): Promise<{ alertsWithdrawn: number }> {
+    // Loaded lazily: the state engine reads extensions through this service
+    const { stateEngine } = await import('../compliance-state-engine');
+    const calculation = await stateEngine.calculateEntityState(data.entityId);
+    if (!calculation.success) {
+      throw new Error(calculation.errors?.join('; ') || `Recalculation failed for entity ${data.entityId}`);
+    }
+
+    const requirements = new Map<string, ComplianceRequirementStatus>();
+    for (const domain of calculation.entityState.domains) {
+      for (const requirement of domain.requirements) {
+        requirements.set(requirement.requirementId, requirement);
+      }
+    }
+    const alertsWithdrawn = await this.withdrawInvalidAlerts(data.entityId, data.ruleCodes, requirements, data.circulars);
+    return { alertsWithdrawn };
+  }
+
+  private async validate(input: DueDateExtensionInput) {
+    const authority = String(input.authority || '').trim().toUpperCase();
+    if (!EXTENSION_AUTHORITIES.includes(authority as ExtensionAuthority)) {
+      throw new ValidationError(`authority must be one of: ${EXTENSION_AUTHORITIES.join(', ')}`);
+    }
+
+    const ruleCodes = cleanList(input.ruleCodes);
+    if (!ruleCodes) {
+      throw new ValidationError('At least one rule code is required');
+    }
+    const known = await db
+      .select({ ruleCode: complianceRules.ruleCode })
+      .from(complianceRules)
+      .where(inArray(complianceRules.ruleCode, ruleCodes));
+    const knownCodes = new Set(known.map((row: { ruleCode: string }) => row.ruleCode));
+    const unknown = ruleCodes.filter((code) => !knownCodes.has(code));
+    if (unknown.length > 0) {
+      throw new ValidationError('Unknown compliance rule codes', { ruleCodes: unknown });
+    }
+
+    const period = String(input.period || '').trim();
+    const circularReference = String(input.circularReference || '').trim();
+    if (!period) throw new ValidationError('period is required');
+    if (!circularReference) throw new ValidationError('circularReference is required');
+
+    const originalDueDate = parseDate(input.originalDueDate, 'originalDueDate');
+    const extendedDueDate = parseDate(input.extendedDueDate, 'extendedDueDate');
+    if (extendedDueDate <= originalDueDate) {
+      throw new ValidationError('extendedDueDate must be after originalDueDate');
+    }
+
+    return {
+      authority,
+      ruleCodes,
+      period,
+      originalDueDate,
+      extendedDueDate,
+      circularReference,
+      circularDate: input.circularDate ? parseDate(input.circularDate, 'circularDate') : null,
+      circularUrl: input.circularUrl?.trim() || null,
+      applicableEntityTypes: cleanList(input.applicableEntityTypes),
+      applicableStates: cleanList(input.applicableStates),
+      notes: input.notes?.trim() || null,
+    };
+  }
+
+  private async reopenTracking(extensions: ComplianceDueDateExtension[], ruleCodes: string[]): Promise<number> {
+    if (extensions.length === 0) return 0;
+    const today = startOfDay(new Date());
+
+    const overdue = await db
+      .select({
+        id: complianceTracking.id,
+        dueDate: complianceTracking.dueDate,
+        ruleCode: complianceRules.ruleCode,
+        entityType: businessEntities.entityType,
+        state: businessEntities.state,
+      })
+      .from(complianceTracking)
+      .innerJoin(complianceRules, eq(complianceTracking.complianceRuleId, complianceRules.id))
+      .leftJoin(businessEntities, eq(complianceTracking.businessEntityId, businessEntities.id))
+      .where(and(
+        eq(complianceTracking.status, 'overdue'),
+        inArray(complianceRules.ruleCode, ruleCodes),
+      ));
+
+    const reopenIds = overdue
+      .filter((row: typeof overdue[number]) => extensions.some((extension) =>
+        extension.extendedDueDate >= today &&
+        extensionApplies(extension, { ruleCode: row.ruleCode, statutoryDueDate: row.dueDate, entityType: row.entityType, state: row.state })
+      ))
+      .map((row: typeof overdue[number]) => row.id);
+
+    if (reopenIds.length > 0) {
+      await db.update(complianceTracking)
+        .set({ status: 'pending', updatedAt: new Date() })
+        .where(inArray(complianceTracking.id, reopenIds));
+    }
+    return reopenIds.length;
+  }
+
+  /**
+   * Entities with a calculated state that tracks any of the rules and that an
+   * extension covers
+   */
+  private async findAffectedEntities(extensions: ComplianceDueDateExtension[], ruleCodes: string[]): Promise<number[]> {
+    const requirements = sql`CASE WHEN json_typeof(${complianceStates.requirementStates}) = 'array'
+      THEN ${complianceStates.requirementStates} ELSE '[]'::json END`;
+    const states = await db
+      .select({
+        entityId: complianceStates.entityId,
+        entityType: businessEntities.entityType,
+        state: businessEntities.state,
+      })
+      .from(complianceStates)
+      .innerJoin(businessEntities, eq(complianceStates.entityId, businessEntities.id))
+      .where(and(
+        eq(businessEntities.isActive, true),
+        sql`EXISTS (
+          SELECT 1 FROM json_array_elements(${requirements}) AS requirement
+          WHERE requirement->>'requirementId' IN (${sql.join(ruleCodes.map((code) => sql`${code}`), sql`, `)})
+        )`,
+      ));
+
+    return states
+      .filter((row: typeof states[number]) => extensions.some((extension) => extensionCoversEntity(extension, row)))
+      .map((row: typeof states[number]) => row.entityId);
+  }
+
+  private async withdrawInvalidAlerts(
+    entityId: number,
+    ruleCodes: string[],
+    requirements: Map<string, ComplianceRequirementStatus>,
+    extensions: ExtensionCircular[]
+  ): Promise<number> {
+    const alerts = await db.select().from(complianceAlerts)
+      .where(and(
+        eq(complianceAlerts.entityId, entityId),
+        inArray(complianceAlerts.ruleId, ruleCodes),
+        eq(complianceAlerts.isActive, true),
+      ));
+
+    let withdrawn = 0;
+    for (const alert of alerts) {
+      if (isAlertStillValid(alert.alertType, requirements.get(alert.ruleId))) continue;
+
+      await db.update(complianceAlerts)
+        .set({
+          isActive: false,
+          expiresAt: new Date(),
+          metadata: {
+            ...(alert.metadata || {}),
+            withdrawnReason: ALERT_WITHDRAWN_REASON,
+            withdrawnAt: new Date().toISOString(),
+            circularReferences: extensions
+              .filter((extension) => (extension.ruleCodes || []).includes(alert.ruleId))
+              .map((extension) => extension.circularReference),
+          },
+        })
+        .where(eq(complianceAlerts.id, alert.id));
+      withdrawn++;
+    }
+    return withdrawn;
+  }
+}
+
+export const dueDateExtensionService = new DueDateExtensionService();
@@ -0,0 +1,164 @@
+/**
+ * Exchange Rate File Parser
+ *
+ * Normalises exchange rate files into per-day currency pairs:
+ * - Long CSV: one row per rate (Date, Currency, Rate[, To])
+ * - Wide reference-rate CSV (RBI / FBIL): one row per day, one column per currency,
+ *   e.g. "Date, USD, GBP, EURO, YEN" or "Date, INR / 1 USD, INR / 100 JPY"
+ *
+ * Rates are always returned per single unit of the foreign currency.
+ */
+import { parse } from 'csv-parse/sync';
+import { parseStatementDate } from './bank-statement-parser';
+import { ValidationError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExchangeRateFileFormat = 'long' | 'wide';
+
+export interface ParsedExchangeRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  effectiveDate: string; // YYYY-MM-DD
+}
+
+export interface ParsedExchangeRateFile {
+  format: ExchangeRateFileFormat;
+  rates: ParsedExchangeRate[];
+  skippedRows: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BASE_CURRENCY = 'INR';
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/** Currency names used as column headings in RBI / FBIL reference rate downloads */
+const CURRENCY_NAMES: Record<string, string> = {
+  usdollar: 'USD',
+  dollar: 'USD',
+  poundsterling: 'GBP',
+  pound: 'GBP',
+  euro: 'EUR',
+  japaneseyen: 'JPY',
+  yen: 'JPY',
+  uaedirham: 'AED',
+  dirham: 'AED',
+  singaporedollar: 'SGD',
+  australiandollar: 'AUD',
+  canadiandollar: 'CAD',
+  swissfranc: 'CHF',
+};
+
+/** Currencies RBI quotes per 100 units */
+const PER_HUNDRED_CURRENCIES = new Set(['JPY']);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normaliseHeader(cell: string): string {
+  return cell.trim().toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function parseRate(value: string | undefined): number | null {
+  if (!value) return null;
+  const rate = parseFloat(value.replace(/,/g, '').trim());
+  return isNaN(rate) || rate <= 0 ? null : rate;
+}
+
+/**
+ * Identify the currency (and quotation unit) of a wide-format column heading.
+ * Returns null for non-currency columns such as "Date".
+ */
+export function resolveCurrencyColumn(header: string): { currency: string; unit: number | null } | null {
+  // Names first: "YEN" would otherwise read as an ISO code
+  const codes = (header.toUpperCase().match(/\b[A-Z]{3}\b/g) || []).filter((code) => code !== BASE_CURRENCY && code !== 'PER');
+  const currency = CURRENCY_NAMES[normaliseHeader(header)] || codes[0];
+  if (!currency) return null;
+
+  const unitMatch = header.match(/\b(1|100)\b/);
+  return { currency, unit: unitMatch ? parseInt(unitMatch[1]) : null };
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Parse an exchange rate CSV in either long or wide layout.
+ * Rows without a parseable date or rate are skipped and counted.
+ */
+export function parseExchangeRateFile(content: string, options: { toCurrency?: string } = {}): ParsedExchangeRateFile {
+  const defaultTo = (options.toCurrency || BASE_CURRENCY).toUpperCase();
+  const rows: string[][] = parse(content, {
+    relax_column_count: true,
+    skip_empty_lines: true,
+    trim: true,
+    bom: true,
+  });
+
+  const headerIndex = rows.slice(0, 30).findIndex((row) => row.some((cell) => normaliseHeader(cell) === 'date'));
+  if (headerIndex < 0) {
+    throw new ValidationError('Could not find a header row with a Date column in the exchange rate file');
+  }
+
+  const header = rows[headerIndex].map(normaliseHeader);
+  const dateColumn = header.indexOf('date');
+  const currencyColumn = header.findIndex((cell) => ['currency', 'fromcurrency', 'from', 'ccy'].includes(cell));
+  const rateColumn = header.findIndex((cell) => ['rate', 'exchangerate', 'referencerate'].includes(cell));
+  const toColumn = header.findIndex((cell) => ['to', 'tocurrency'].includes(cell));
+
+  const rates: ParsedExchangeRate[] = [];
+  let skippedRows = 0;
+  const body = rows.slice(headerIndex + 1);
+
+  if (currencyColumn >= 0 && rateColumn >= 0) {
+    for (const row of body) {
+      const effectiveDate = parseStatementDate(row[dateColumn]);
+      const fromCurrency = (row[currencyColumn] || '').trim().toUpperCase();
+      const toCurrency = toColumn >= 0 && row[toColumn] ? row[toColumn].trim().toUpperCase() : defaultTo;
+      const rate = parseRate(row[rateColumn]);
+      if (!effectiveDate || !rate || !CURRENCY_CODE_PATTERN.test(fromCurrency) || !CURRENCY_CODE_PATTERN.test(toCurrency)) {
+        skippedRows++;
+        continue;
+      }
+      rates.push({ fromCurrency, toCurrency, rate, effectiveDate });
+    }
+    return { format: 'long', rates, skippedRows };
+  }
+
+  const currencyColumns = rows[headerIndex]
+    .map((cell, index) => ({ index, column: index === dateColumn ? null : resolveCurrencyColumn(cell) }))
+    .filter((entry): entry is { index: number; column: { currency: string; unit: number | null } } => entry.column !== null);
+  if (currencyColumns.length === 0) {
+    throw new ValidationError('Exchange rate file has neither Currency/Rate columns nor currency columns');
+  }
+
+  for (const row of body) {
+    const effectiveDate = parseStatementDate(row[dateColumn]);
+    if (!effectiveDate) {
+      skippedRows++;
+      continue;
+    }
+    for (const { index, column } of currencyColumns) {
+      const quoted = parseRate(row[index]);
+      if (!quoted) continue;
+      // RBI quotes yen per 100 units; an unlabelled yen column above 5 can only be that
+      const unit = column.unit ?? (PER_HUNDRED_CURRENCIES.has(column.currency) && quoted > 5 ? 100 : 1);
+      rates.push({
+        fromCurrency: column.currency,
+        toCurrency: defaultTo,
+        rate: Math.round((quoted / unit) * 1e6) / 1e6,
+        effectiveDate,
+      });
+    }
+  }
+  return { format: 'wide', rates, skippedRows };
+}
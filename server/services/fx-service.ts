@@ -0,0 +1,689 @@
+/**
+ * FX Service
+ *
+ * Multi-currency invoicing on top of exchangeRates and the pipeline invoices table:
+ * - Exchange rate table, loaded from RBI / FBIL reference files or CSV
+ * - Foreign currency invoices with the rate locked at invoice date
+ * - Settlements with realised FX gain/loss booked in the general ledger
+ * - Receivables and FX reports in both transaction and base (INR) currency
+ */
+import { db } from '../db';
+import { eq, and, asc, desc, gte, lte, ne, sql } from 'drizzle-orm';
+import { exchangeRates, foreignCurrencySettlements } from '@shared/enterprise-schema';
+import { invoices } from '@shared/pipeline-schema';
+import { ledgerService, toPaise } from './ledger-service';
+import { gstLedgerService } from './gst-ledger-service';
+import { EXPORT_PLACE_OF_SUPPLY } from './gst-return-builder';
+import {
+  BASE_CURRENCY,
+  CURRENCY_CODE_PATTERN,
+  parseExchangeRateFile,
+  type ParsedExchangeRate,
+} from './exchange-rate-parser';
+import { generateInvoiceId } from './id-generator';
+import { ValidationError, NotFoundError, ConflictError } from '../errors';
+import { logger } from '../logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const RATE_SOURCES = {
+  RBI: 'rbi',
+  CSV: 'csv',
+  MANUAL: 'manual',
+} as const;
+
+/** How far back to look for a rate when none was published on the day (weekends, bank holidays) */
+export const RATE_LOOKBACK_DAYS = 7;
+
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+const DEFAULT_SAC = '998311';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RateSource = typeof RATE_SOURCES[keyof typeof RATE_SOURCES];
+
+export interface ForeignInvoiceLineInput {
+  description: string;
+  hsn?: string | null;
+  quantity?: number;
+  rate: number; // Unit price in invoice currency
+}
+
+export interface ForeignInvoiceInput {
+  currency: string;
+  clientName: string;
+  clientGstin?: string | null;
+  clientState?: string | null;
+  clientCountry?: string | null; // Anything other than India makes the invoice an export
+  businessEntityId?: number | null;
+  invoiceDate?: string; // YYYY-MM-DD, defaults to today
+  dueDate?: string;
+  exchangeRate?: number; // Overrides the rate table, e.g. a forward contract rate
+  gstRate?: number;
+  exportUnderLut?: boolean;
+  lineItems: ForeignInvoiceLineInput[];
+  notes?: string | null;
+}
+
+export interface SettlementInput {
+  amount: number; // In invoice currency
+  receivedAt: string; // YYYY-MM-DD
+  baseAmountReceived?: number; // INR actually credited to the bank
+  settlementRate?: number; // Used when the INR amount is not given
+  bankCharges?: number; // INR deducted by the banks
+  reference?: string | null;
+}
+
+export interface RealisedFx {
+  baseAmountAtInvoiceRate: number;
+  settlementRate: number;
+  realisedGainLoss: number;
+}
+
+export interface Revaluation {
+  baseAmountAtInvoiceRate: number;
+  baseAmountAtCurrentRate: number;
+  unrealisedGainLoss: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Convert an invoice-currency amount to INR, rounded to the paisa like the ledger does */
+export function toBaseAmount(amount: number, exchangeRate: number): number {
+  return Math.round(toPaise(amount) * exchangeRate) / 100;
+}
+
+/**
+ * Realised gain (positive) or loss on a receipt: what the debtor is carried at
+ * versus what the bank credited, with bank charges treated as part of the receipt.
+ */
+export function computeRealisedFx(input: { amount: number; invoiceRate: number; baseAmountReceived: number; bankCharges?: number }): RealisedFx {
+  const baseAmountAtInvoiceRate = toBaseAmount(input.amount, input.invoiceRate);
+  const grossPaise = toPaise(input.baseAmountReceived) + toPaise(input.bankCharges ?? 0);
+  return {
+    baseAmountAtInvoiceRate,
+    settlementRate: input.amount > 0 ? Math.round((grossPaise / 100 / input.amount) * 1e6) / 1e6 : 0,
+    realisedGainLoss: (grossPaise - toPaise(baseAmountAtInvoiceRate)) / 100,
+  };
+}
+
+/** Unrealised gain (positive) or loss on an open balance at today's rate */
+export function computeRevaluation(outstanding: number, invoiceRate: number, currentRate: number): Revaluation {
+  const baseAmountAtInvoiceRate = toBaseAmount(outstanding, invoiceRate);
+  const baseAmountAtCurrentRate = toBaseAmount(outstanding, currentRate);
+  return {
+    baseAmountAtInvoiceRate,
+    baseAmountAtCurrentRate,
+    unrealisedGainLoss: (toPaise(baseAmountAtCurrentRate) - toPaise(baseAmountAtInvoiceRate)) / 100,
+  };
+}
+
+function normaliseCurrency(value: string | null | undefined, field = 'currency'): string {
+  const currency = (value || '').trim().toUpperCase();
+  if (!CURRENCY_CODE_PATTERN.test(currency)) {
+    throw new ValidationError(`${field} must be a 3-letter ISO currency code`);
+  }
+  return currency;
+}
+
+function assertDate(value: string | undefined, field: string): string {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+function shiftDate(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function isDomesticCountry(country: string | null | undefined): boolean {
+  return !country || /^(in|ind|india|bharat)$/i.test(country.trim());
+}
+
+function addCurrencyTotals<T extends Record<string, number>>(totals: Map<string, T>, currency: string, amounts: T) {
+  const existing = totals.get(currency);
+  if (!existing) {
+    totals.set(currency, { ...amounts });
+    return;
+  }
+  for (const key of Object.keys(amounts) as Array<keyof T>) {
+    existing[key] = ((toPaise(existing[key]) + toPaise(amounts[key])) / 100) as T[keyof T];
+  }
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class FxService {
+  // ==========================================================================
+  // EXCHANGE RATES
+  // ==========================================================================
+
+  /**
+   * Load an exchange rate file. Re-importing a day overwrites that day's rate.
+   */
+  async importRates(content: string, options: { source?: RateSource; toCurrency?: string } = {}) {
+    const parsed = parseExchangeRateFile(content, { toCurrency: options.toCurrency });
+    if (parsed.rates.length === 0) {
+      throw new ValidationError('No exchange rates found in the file');
+    }
+
+    const source = options.source || (parsed.format === 'wide' ? RATE_SOURCES.RBI : RATE_SOURCES.CSV);
+    await this.upsertRates(parsed.rates, source);
+
+    const dates = parsed.rates.map((rate) => rate.effectiveDate).sort();
+    return {
+      format: parsed.format,
+      imported: parsed.rates.length,
+      skippedRows: parsed.skippedRows,
+      currencies: Array.from(new Set(parsed.rates.map((rate) => rate.fromCurrency))).sort(),
+      fromDate: dates[0],
+      toDate: dates[dates.length - 1],
+    };
+  }
+
+  /**
+   * Record a single rate by hand
+   */
+  async setRate(input: { fromCurrency: string; toCurrency?: string; rate: number; effectiveDate: string }) {
+    const rate = Number(input.rate);
+    if (!(rate > 0)) {
+      throw new ValidationError('rate must be a positive number');
+    }
+    const [row] = await this.upsertRates([{
+      fromCurrency: normaliseCurrency(input.fromCurrency, 'fromCurrency'),
+      toCurrency: normaliseCurrency(input.toCurrency || BASE_CURRENCY, 'toCurrency'),
+      rate,
+      effectiveDate: assertDate(input.effectiveDate, 'effectiveDate'),
+    }], RATE_SOURCES.MANUAL);
+    return row;
+  }
+
+  async listRates(filters: { currency?: string; fromDate?: string; toDate?: string; limit?: number } = {}) {
+    const conditions = [];
+    if (filters.currency) conditions.push(eq(exchangeRates.fromCurrency, normaliseCurrency(filters.currency)));
+    if (filters.fromDate) conditions.push(gte(exchangeRates.effectiveDate, assertDate(filters.fromDate, 'fromDate')));
+    if (filters.toDate) conditions.push(lte(exchangeRates.effectiveDate, assertDate(filters.toDate, 'toDate')));
+
+    return db
+      .select()
+      .from(exchangeRates)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(exchangeRates.effectiveDate), asc(exchangeRates.fromCurrency))
+      .limit(filters.limit ?? 200);
+  }
+
+  /**
+   * Rate for converting one unit of `from` into `to` on a date. Falls back to the
+   * latest rate within RATE_LOOKBACK_DAYS, then to the inverse pair.
+   */
+  async getRate(from: string, to: string = BASE_CURRENCY, onDate: string = today()) {
+    const fromCurrency = normaliseCurrency(from, 'fromCurrency');
+    const toCurrency = normaliseCurrency(to, 'toCurrency');
+    if (fromCurrency === toCurrency) {
+      return { fromCurrency, toCurrency, rate: 1, effectiveDate: onDate, source: null };
+    }
+
+    const direct = await this.findRate(fromCurrency, toCurrency, onDate);
+    if (direct) {
+      return { fromCurrency, toCurrency, rate: parseFloat(direct.rate), effectiveDate: direct.effectiveDate, source: direct.source };
+    }
+
+    const inverse = await this.findRate(toCurrency, fromCurrency, onDate);
+    if (inverse) {
+      return {
+        fromCurrency,
+        toCurrency,
+        rate: Math.round((1 / parseFloat(inverse.rate)) * 1e6) / 1e6,
+        effectiveDate: inverse.effectiveDate,
+        source: inverse.source,
+      };
+    }
+
+    throw new NotFoundError(`Exchange rate ${fromCurrency}/${toCurrency} on or before ${onDate}`);
+  }
+
+  // ==========================================================================
+  // INVOICES
+  // ==========================================================================
+
+  /**
+   * Raise an invoice in a foreign currency. The exchange rate is locked at the
+   * invoice date; GST is computed on the INR value, as the tax invoice requires.
+   */
+  async createInvoice(tenantId: string, input: ForeignInvoiceInput, createdBy: number | null) {
+    const currency = normaliseCurrency(input.currency);
+    if (currency === BASE_CURRENCY) {
+      throw new ValidationError('Use the standard invoice flow for INR invoices');
+    }
+    if (!input.clientName?.trim()) {
+      throw new ValidationError('clientName is required');
+    }
+    if (!Array.isArray(input.lineItems) || input.lineItems.length === 0) {
+      throw new ValidationError('At least one line item is required');
+    }
+
+    const isExport = !isDomesticCountry(input.clientCountry);
+    if (input.exportUnderLut && !isExport) {
+      throw new ValidationError('exportUnderLut applies only to clients outside India');
+    }
+
+    const invoiceDate = input.invoiceDate ? assertDate(input.invoiceDate, 'invoiceDate') : today();
+    const dueDate = input.dueDate ? assertDate(input.dueDate, 'dueDate') : shiftDate(invoiceDate, DEFAULT_PAYMENT_TERMS_DAYS);
+    const locked = input.exchangeRate !== undefined
+      ? { rate: Number(input.exchangeRate), effectiveDate: invoiceDate }
+      : await this.getRate(currency, BASE_CURRENCY, invoiceDate);
+    if (!(locked.rate > 0)) {
+      throw new ValidationError('exchangeRate must be a positive number');
+    }
+
+    const gstRate = input.gstRate ?? 18;
+    const lineItems = input.lineItems.map((item) => {
+      const quantity = item.quantity ?? 1;
+      if (!(Number(item.rate) >= 0) || !(quantity > 0)) {
+        throw new ValidationError('Each line item needs a non-negative rate and a positive quantity');
+      }
+      const amount = toPaise(quantity * Number(item.rate)) / 100;
+      return {
+        description: item.description,
+        hsn: item.hsn || DEFAULT_SAC,
+        quantity,
+        rate: Number(item.rate),
+        amount,
+        baseAmount: toBaseAmount(amount, locked.rate),
+      };
+    });
+
+    const taxInput = {
+      clientGstin: input.clientGstin,
+      clientState: input.clientState,
+      placeOfSupply: isExport ? EXPORT_PLACE_OF_SUPPLY : null,
+      exportUnderLut: input.exportUnderLut,
+    };
+    const baseLines = lineItems.map((item) => ({ hsn: item.hsn, description: item.description, taxableValue: item.baseAmount, rate: gstRate }));
+    const base = await gstLedgerService.computeOutwardTax(tenantId, { ...taxInput, lines: baseLines });
+    // Invoice-currency figures use the same place of supply, so the document reads consistently
+    const { computed: foreign } = await gstLedgerService.computeOutwardTax(tenantId, {
+      ...taxInput,
+      lines: lineItems.map((item) => ({ hsn: item.hsn, description: item.description, taxableValue: item.amount, rate: gstRate })),
+    });
+
+    const subtotal = foreign.subtotal;
+    const grandTotal = foreign.total;
+    const totalTax = (toPaise(foreign.cgst) + toPaise(foreign.sgst) + toPaise(foreign.igst)) / 100;
+    const baseTotalTax = (toPaise(base.computed.cgst) + toPaise(base.computed.sgst) + toPaise(base.computed.igst)) / 100;
+
+    const [invoice] = await db.insert(invoices).values({
+      invoiceNumber: await generateInvoiceId(),
+      tenantId,
+      businessEntityId: input.businessEntityId ?? null,
+      clientName: input.clientName.trim(),
+      clientGstin: base.clientGstin,
+      clientState: input.clientState || null,
+      lineItems,
+      subtotal: subtotal.toFixed(2),
+      cgstAmount: foreign.cgst.toFixed(2),
+      sgstAmount: foreign.sgst.toFixed(2),
+      igstAmount: foreign.igst.toFixed(2),
+      totalTax: totalTax.toFixed(2),
+      grandTotal: grandTotal.toFixed(2),
+      currency,
+      exchangeRate: locked.rate.toFixed(6),
+      exchangeRateDate: locked.effectiveDate,
+      baseSubtotal: base.computed.subtotal.toFixed(2),
+      baseTotalTax: baseTotalTax.toFixed(2),
+      baseGrandTotal: base.computed.total.toFixed(2),
+      status: 'sent',
+      dueDate,
+      notes: input.notes || null,
+      createdBy,
+    }).returning();
+
+    // Ledger and tax ledger failures are logged and never block invoicing
+    try {
+      await ledgerService.postForeignInvoice({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceDate,
+        currency,
+        exchangeRate: locked.rate,
+        subtotal,
+        total: grandTotal,
+        baseCgst: base.computed.cgst,
+        baseSgst: base.computed.sgst,
+        baseIgst: base.computed.igst,
+        clientName: invoice.clientName,
+      }, { tenantId, postedBy: createdBy });
+    } catch (error) {
+      logger.error(`Failed to post foreign invoice ${invoice.invoiceNumber} to ledger:`, error);
+    }
+
+    try {
+      await gstLedgerService.recordOutwardInvoice({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceDate,
+        clientName: invoice.clientName,
+        ...taxInput,
+        lines: baseLines,
+      }, { tenantId });
+    } catch (error) {
+      logger.error(`Failed to record GST for invoice ${invoice.invoiceNumber}:`, error);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Invoice with its settlements, in both currencies
+   */
+  async getInvoice(tenantId: string, invoiceId: number) {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.tenantId, tenantId), eq(invoices.id, invoiceId)))
+      .limit(1);
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+
+    const settlements = await db
+      .select()
+      .from(foreignCurrencySettlements)
+      .where(and(eq(foreignCurrencySettlements.tenantId, tenantId), eq(foreignCurrencySettlements.invoiceId, invoiceId)))
+      .orderBy(asc(foreignCurrencySettlements.receivedAt), asc(foreignCurrencySettlements.id));
+
+    const outstanding = (toPaise(invoice.grandTotal) - toPaise(invoice.amountSettled)) / 100;
+    const realisedGainLoss = settlements.reduce((sum, row) => sum + toPaise(row.realisedGainLoss), 0) / 100;
+    return {
+      ...invoice,
+      outstanding,
+      baseOutstanding: toBaseAmount(outstanding, parseFloat(invoice.exchangeRate || '1')),
+      realisedGainLoss,
+      settlements,
+    };
+  }
+
+  // ==========================================================================
+  // SETTLEMENTS
+  // ==========================================================================
+
+  /**
+   * Record a receipt against a foreign currency invoice and book the realised FX.
+   * The INR received defaults to the amount at the settlement-date rate less bank charges.
+   */
+  async recordSettlement(tenantId: string, invoiceId: number, input: SettlementInput, createdBy: number | null) {
+    const amount = Number(input.amount);
+    if (!(amount > 0)) {
+      throw new ValidationError('amount must be a positive number');
+    }
+    const receivedAt = assertDate(input.receivedAt, 'receivedAt');
+    const bankCharges = Number(input.bankCharges ?? 0);
+    if (!(bankCharges >= 0)) {
+      throw new ValidationError('bankCharges cannot be negative');
+    }
+
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.tenantId, tenantId), eq(invoices.id, invoiceId)))
+      .limit(1);
+    if (!invoice) {
+      throw new NotFoundError('Invoice');
+    }
+    const currency = invoice.currency || BASE_CURRENCY;
+    if (currency === BASE_CURRENCY) {
+      throw new ValidationError('Invoice is in INR; record the payment through the standard receipt flow');
+    }
+    if (invoice.status === 'cancelled') {
+      throw new ValidationError('Cannot settle a cancelled invoice');
+    }
+    const outstandingPaise = toPaise(invoice.grandTotal) - toPaise(invoice.amountSettled);
+    if (toPaise(amount) > outstandingPaise) {
+      throw new ValidationError(`Amount exceeds the outstanding ${currency} ${(outstandingPaise / 100).toFixed(2)}`);
+    }
+
+    let baseAmountReceived = input.baseAmountReceived;
+    if (baseAmountReceived === undefined) {
+      const settlementRate = input.settlementRate ?? (await this.getRate(currency, BASE_CURRENCY, receivedAt)).rate;
+      baseAmountReceived = (toPaise(toBaseAmount(amount, settlementRate)) - toPaise(bankCharges)) / 100;
+    }
+    if (!(baseAmountReceived > 0)) {
+      throw new ValidationError('baseAmountReceived must be a positive number');
+    }
+
+    const invoiceRate = parseFloat(invoice.exchangeRate || '1');
+    const fx = computeRealisedFx({ amount, invoiceRate, baseAmountReceived, bankCharges });
+
+    const settlement = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(invoices)
+        .set({
+          amountSettled: sql`${invoices.amountSettled} + ${amount.toFixed(2)}`,
+          status: sql`CASE WHEN ${invoices.amountSettled} + ${amount.toFixed(2)} >= ${invoices.grandTotal} THEN 'paid' ELSE 'partially_paid' END`,
+          paidAt: sql`CASE WHEN ${invoices.amountSettled} + ${amount.toFixed(2)} >= ${invoices.grandTotal} THEN NOW() ELSE ${invoices.paidAt} END`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(invoices.id, invoiceId),
+          sql`${invoices.amountSettled} + ${amount.toFixed(2)} <= ${invoices.grandTotal}`,
+        ))
+        .returning({ id: invoices.id });
+      if (!updated) {
+        throw new ConflictError('Invoice was settled concurrently; reload and retry');
+      }
+
+      const [row] = await tx.insert(foreignCurrencySettlements).values({
+        tenantId,
+        invoiceId,
+        currency,
+        amount: amount.toFixed(2),
+        invoiceRate: invoiceRate.toFixed(6),
+        settlementRate: fx.settlementRate.toFixed(6),
+        baseAmountAtInvoiceRate: fx.baseAmountAtInvoiceRate.toFixed(2),
+        baseAmountReceived: baseAmountReceived!.toFixed(2),
+        bankCharges: bankCharges.toFixed(2),
+        realisedGainLoss: fx.realisedGainLoss.toFixed(2),
+        reference: input.reference || null,
+        receivedAt,
+        createdBy,
+      }).returning();
+      return row;
+    });
+
+    try {
+      const entry = await ledgerService.postForeignReceipt({
+        id: settlement.id,
+        invoiceNumber: invoice.invoiceNumber,
+        currency,
+        amount,
+        invoiceRate,
+        baseReceived: baseAmountReceived,
+        bankCharges,
+        receivedAt,
+        reference: input.reference,
+      }, { tenantId, postedBy: createdBy });
+      if (entry) {
+        await db
+          .update(foreignCurrencySettlements)
+          .set({ journalEntryId: entry.id })
+          .where(eq(foreignCurrencySettlements.id, settlement.id));
+        return { ...settlement, journalEntryId: entry.id };
+      }
+    } catch (error) {
+      logger.error(`Failed to post FX settlement ${settlement.id} to ledger:`, error);
+    }
+    return settlement;
+  }
+
+  // ==========================================================================
+  // REPORTS
+  // ==========================================================================
+
+  /**
+   * Open foreign currency receivables in invoice currency and INR, at the locked
+   * rate and at the rate on `asOf`, with the unrealised gain/loss between them.
+   */
+  async getReceivablesReport(asOf: string = today()) {
+    const reportDate = assertDate(asOf, 'asOf');
+    const open = await db
+      .select()
+      .from(invoices)
+      .where(and(
+        ne(invoices.currency, BASE_CURRENCY),
+        ne(invoices.status, 'cancelled'),
+        sql`${invoices.grandTotal} > COALESCE(${invoices.amountSettled}, 0)`,
+      ))
+      .orderBy(asc(invoices.dueDate));
+
+    const currentRates = new Map<string, number | null>();
+    const totals = new Map<string, { outstanding: number; baseAmountAtInvoiceRate: number; baseAmountAtCurrentRate: number; unrealisedGainLoss: number }>();
+    const rows = [];
+
+    for (const invoice of open) {
+      const currency = invoice.currency!;
+      if (!currentRates.has(currency)) {
+        try {
+          currentRates.set(currency, (await this.getRate(currency, BASE_CURRENCY, reportDate)).rate);
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) throw error;
+          currentRates.set(currency, null);
+        }
+      }
+
+      const outstanding = (toPaise(invoice.grandTotal) - toPaise(invoice.amountSettled)) / 100;
+      const invoiceRate = parseFloat(invoice.exchangeRate || '1');
+      const currentRate = currentRates.get(currency) ?? invoiceRate;
+      const revaluation = computeRevaluation(outstanding, invoiceRate, currentRate);
+
+      rows.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        clientName: invoice.clientName,
+        dueDate: invoice.dueDate,
+        currency,
+        grandTotal: parseFloat(invoice.grandTotal),
+        outstanding,
+        invoiceRate,
+        currentRate,
+        currentRateAvailable: currentRates.get(currency) !== null,
+        ...revaluation,
+      });
+      addCurrencyTotals(totals, currency, { outstanding, ...revaluation });
+    }
+
+    const byCurrency = Array.from(totals.entries()).map(([currency, amounts]) => ({
+      currency,
+      currentRate: currentRates.get(currency) ?? null,
+      ...amounts,
+    }));
+    return {
+      asOf: reportDate,
+      baseCurrency: BASE_CURRENCY,
+      invoices: rows,
+      byCurrency,
+      totalBaseAtInvoiceRate: byCurrency.reduce((sum, row) => sum + toPaise(row.baseAmountAtInvoiceRate), 0) / 100,
+      totalBaseAtCurrentRate: byCurrency.reduce((sum, row) => sum + toPaise(row.baseAmountAtCurrentRate), 0) / 100,
+      totalUnrealisedGainLoss: byCurrency.reduce((sum, row) => sum + toPaise(row.unrealisedGainLoss), 0) / 100,
+    };
+  }
+
+  /**
+   * Settlements received in a date range with realised FX, by currency
+   */
+  async getRealisedFxReport(tenantId: string, fromDate: string, toDate: string) {
+    const settlements = await db
+      .select({
+        settlement: foreignCurrencySettlements,
+        invoiceNumber: invoices.invoiceNumber,
+        clientName: invoices.clientName,
+      })
+      .from(foreignCurrencySettlements)
+      .leftJoin(invoices, eq(foreignCurrencySettlements.invoiceId, invoices.id))
+      .where(and(
+        eq(foreignCurrencySettlements.tenantId, tenantId),
+        gte(foreignCurrencySettlements.receivedAt, assertDate(fromDate, 'fromDate')),
+        lte(foreignCurrencySettlements.receivedAt, assertDate(toDate, 'toDate')),
+      ))
+      .orderBy(asc(foreignCurrencySettlements.receivedAt), asc(foreignCurrencySettlements.id));
+
+    const totals = new Map<string, { amount: number; baseAmountAtInvoiceRate: number; baseAmountReceived: number; bankCharges: number; realisedGainLoss: number }>();
+    for (const { settlement } of settlements) {
+      addCurrencyTotals(totals, settlement.currency, {
+        amount: parseFloat(settlement.amount),
+        baseAmountAtInvoiceRate: parseFloat(settlement.baseAmountAtInvoiceRate),
+        baseAmountReceived: parseFloat(settlement.baseAmountReceived),
+        bankCharges: parseFloat(settlement.bankCharges || '0'),
+        realisedGainLoss: parseFloat(settlement.realisedGainLoss),
+      });
+    }
+
+    const byCurrency = Array.from(totals.entries()).map(([currency, amounts]) => ({ currency, ...amounts }));
+    return {
+      fromDate,
+      toDate,
+      baseCurrency: BASE_CURRENCY,
+      settlements: settlements.map(({ settlement, invoiceNumber, clientName }) => ({ ...settlement, invoiceNumber, clientName })),
+      byCurrency,
+      netRealisedGainLoss: byCurrency.reduce((sum, row) => sum + toPaise(row.realisedGainLoss), 0) / 100,
+    };
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  private async upsertRates(rates: ParsedExchangeRate[], source: RateSource) {
+    // A file may carry the same pair twice for a day; the last one wins
+    const unique = new Map<string, ParsedExchangeRate>();
+    for (const rate of rates) {
+      unique.set(`${rate.fromCurrency}|${rate.toCurrency}|${rate.effectiveDate}`, rate);
+    }
+
+    return db
+      .insert(exchangeRates)
+      .values(Array.from(unique.values()).map((rate) => ({
+        fromCurrency: rate.fromCurrency,
+        toCurrency: rate.toCurrency,
+        rate: rate.rate.toFixed(6),
+        effectiveDate: rate.effectiveDate,
+        source,
+      })))
+      .onConflictDoUpdate({
+        target: [exchangeRates.fromCurrency, exchangeRates.toCurrency, exchangeRates.effectiveDate],
+        set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+      })
+      .returning();
+  }
+
+  private async findRate(fromCurrency: string, toCurrency: string, onDate: string) {
+    const [row] = await db
+      .select()
+      .from(exchangeRates)
+      .where(and(
+        eq(exchangeRates.fromCurrency, fromCurrency),
+        eq(exchangeRates.toCurrency, toCurrency),
+        lte(exchangeRates.effectiveDate, onDate),
+        gte(exchangeRates.effectiveDate, shiftDate(onDate, -RATE_LOOKBACK_DAYS)),
+      ))
+      .orderBy(desc(exchangeRates.effectiveDate))
+      .limit(1);
+    return row ?? null;
+  }
+}
+
+export const fxService = new FxService();
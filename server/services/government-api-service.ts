@@ -9,6 +9,7 @@ import { eq, and, desc, sql } from 'drizzle-orm';
 import { governmentFilings, apiAuditLogs, businessEntities } from '@shared/schema';
 import { logger } from '../logger';
 import crypto from 'crypto';
+import type { Gstr1Payload, Gstr3bPayload } from './gst-return-builder';
 
 // Types
 interface ApiCredentials {
@@ -20,14 +21,14 @@ interface ApiCredentials {
   otp?: string;
 }
 
-interface FilingRequest {
+interface FilingRequest<TData = Record<string, any>> {
   clientId: number;
   entityId?: number;
   filingType: string;
   period: string;
   assessmentYear?: string;
   financialYear?: string;
-  data: Record<string, any>;
+  data: TData;
   credentials?: ApiCredentials;
 }
 
@@ -97,8 +98,9 @@ class GovernmentApiService {
 
   /**
    * File GSTR-1 (Outward Supplies)
+   * data is GSTN offline-tool JSON, e.g. from gstLedgerService.generateGstr1()
    */
-  async fileGSTR1(request: FilingRequest): Promise<FilingResponse> {
+  async fileGSTR1(request: FilingRequest<Gstr1Payload>): Promise<FilingResponse> {
     return this.executeFilingWithRetry('gsp', 'gstr1', request, async (data, token) => {
       const payload = this.prepareGSTR1Payload(data);
       return this.callApi('gsp', '/gstr1/file', 'POST', payload, token);
@@ -107,8 +109,9 @@ class GovernmentApiService {
 
   /**
    * File GSTR-3B (Summary Return)
+   * data is GSTN offline-tool JSON, e.g. from gstLedgerService.generateGstr3b()
    */
-  async fileGSTR3B(request: FilingRequest): Promise<FilingResponse> {
+  async fileGSTR3B(request: FilingRequest<Gstr3bPayload>): Promise<FilingResponse> {
     return this.executeFilingWithRetry('gsp', 'gstr3b', request, async (data, token) => {
       const payload = this.prepareGSTR3BPayload(data);
       return this.callApi('gsp', '/gstr3b/file', 'POST', payload, token);
@@ -380,11 +383,11 @@ class GovernmentApiService {
   /**
    * Execute filing with retry logic
    */
-  private async executeFilingWithRetry(
+  private async executeFilingWithRetry<TData>(
     portalType: string,
     filingType: string,
-    request: FilingRequest,
-    executeFn: (data: Record<string, any>, token: string) => Promise<ApiCallResult>
+    request: FilingRequest<TData>,
+    executeFn: (data: TData, token: string) => Promise<ApiCallResult>
   ): Promise<FilingResponse> {
     const filingId = await this.createFilingRecord(request.clientId, request.entityId, portalType, filingType, request.period, request.assessmentYear, request.financialYear);
 
@@ -667,41 +670,30 @@ class GovernmentApiService {
   /**
    * Prepare GSTR-1 payload
    */
-  private prepareGSTR1Payload(data: Record<string, any>): any {
+  private prepareGSTR1Payload(data: Gstr1Payload): Gstr1Payload {
     return {
       gstin: data.gstin,
-      fp: data.period, // Filing period MMYYYY
-      gt: data.grossTurnover,
-      cur_gt: data.currentTurnover,
-      b2b: data.b2bInvoices || [],
-      b2cl: data.b2clInvoices || [],
-      b2cs: data.b2csSummary || [],
-      cdnr: data.creditDebitNotes || [],
-      exp: data.exports || [],
-      at: data.advanceTax || [],
-      nil: data.nilRatedSupplies || [],
-      hsn: data.hsnSummary || [],
-      doc_issue: data.documentDetails || {},
+      fp: data.fp, // Filing period MMYYYY
+      b2b: data.b2b || [],
+      b2cl: data.b2cl || [],
+      exp: data.exp || [],
+      b2cs: data.b2cs || [],
+      hsn: data.hsn || { data: [] },
     };
   }
 
   /**
    * Prepare GSTR-3B payload
    */
-  private prepareGSTR3BPayload(data: Record<string, any>): any {
+  private prepareGSTR3BPayload(data: Gstr3bPayload): Gstr3bPayload {
     return {
       gstin: data.gstin,
-      ret_period: data.period,
-      sup_details: {
-        osup_det: data.outwardSupplies,
-        osup_zero: data.zeroRatedSupplies,
-        osup_nil_exmp: data.nilExemptSupplies,
-        isup_rev: data.inwardReverseCharge,
-        osup_nongst: data.nonGstOutward,
-      },
-      itc_elg: data.itcAvailable,
-      inward_sup: data.inwardSupplies,
-      intr_ltfee: data.interestLateFee,
+      ret_period: data.ret_period, // Return period MMYYYY
+      sup_details: data.sup_details,
+      inter_sup: data.inter_sup,
+      itc_elg: data.itc_elg,
+      inward_sup: data.inward_sup,
+      intr_ltfee: data.intr_ltfee,
     };
   }
 
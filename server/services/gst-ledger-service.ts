@@ -0,0 +1,623 @@
+/**
+ * GST Ledger Service
+ *
+ * Tenant-scoped GST output/input tax ledger on top of taxConfigurations / taxTransactions:
+ * - Output rows for every persisted sales invoice
+ * - Input rows for every vendor bill (also booked in the general ledger)
+ * - CGST/SGST vs IGST split by place of supply
+ * - GSTR-1 / GSTR-3B drafts in the GSTN offline-tool schema, and filing them via the GSP
+ */
+import { db } from '../db';
+import { eq, and, asc, desc, gte, sql } from 'drizzle-orm';
+import {
+  tenants,
+  taxConfigurations,
+  taxTransactions,
+  vendorBills,
+} from '@shared/enterprise-schema';
+import { ledgerService, toPaise } from './ledger-service';
+import { governmentApiService } from './government-api-service';
+import {
+  GST_RATES,
+  GSTIN_PATTERN,
+  resolveStateCode,
+  splitGst,
+  formatReturnPeriod,
+  parseReturnPeriod,
+  gstReturnDueDates,
+  buildGstr1,
+  buildGstr3b,
+  summarizeGstRows,
+  type GstLedgerRow,
+  type GstTransactionType,
+  type Gstr1Payload,
+  type Gstr3bPayload,
+} from './gst-return-builder';
+import { ValidationError, NotFoundError, ConflictError } from '../errors';
+import { logger } from '../logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const GST_TRANSACTION_TYPES = {
+  OUTPUT: 'gst_output',
+  INPUT: 'gst_input',
+} as const;
+
+export const TAX_FILING_STATUS = {
+  PENDING: 'pending',
+  FILED: 'filed',
+  PAID: 'paid',
+} as const;
+
+const DEFAULT_SAC = '998311'; // Management consulting services
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaxableLineInput {
+  hsn?: string | null;
+  description?: string | null;
+  taxableValue: number;
+  rate: number;
+}
+
+export interface OutwardInvoiceInput {
+  invoiceId: number;
+  invoiceNumber: string;
+  invoiceDate: Date | string;
+  clientName: string;
+  clientGstin?: string | null;
+  clientState?: string | null;
+  placeOfSupply?: string | null; // Overrides the GSTIN/state lookup, e.g. '96' for exports
+  exportUnderLut?: boolean; // Zero-rated export without payment of IGST
+  lines: TaxableLineInput[];
+}
+
+export interface VendorBillInput {
+  billNumber: string;
+  billDate: string;
+  vendorName: string;
+  vendorGstin?: string | null;
+  placeOfSupply?: string | null;
+  lines: TaxableLineInput[];
+  reverseCharge?: boolean;
+  itcEligible?: boolean;
+  expenseAccountCode?: string;
+  notes?: string | null;
+}
+
+type TaxTransactionRow = typeof taxTransactions.$inferSelect;
+
+interface TaxRowDraft {
+  lineNumber: number;
+  hsnCode: string;
+  taxRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+function isGstRow(row: TaxTransactionRow): boolean {
+  return row.transactionType === GST_TRANSACTION_TYPES.OUTPUT || row.transactionType === GST_TRANSACTION_TYPES.INPUT;
+}
+
+function toLedgerRow(row: TaxTransactionRow): GstLedgerRow {
+  return {
+    transactionType: row.transactionType as GstTransactionType,
+    documentNumber: row.documentNumber || `${row.referenceType}-${row.referenceId}`,
+    documentDate: String(row.documentDate),
+    documentValue: parseFloat(row.documentValue || '0'),
+    counterpartyName: row.counterpartyName,
+    counterpartyGstin: row.counterpartyGstin,
+    placeOfSupply: row.placeOfSupply || '',
+    supplyType: row.supplyType === 'inter' ? 'inter' : 'intra',
+    hsnCode: row.hsnCode,
+    taxRate: parseFloat(row.taxRate || '0'),
+    taxableValue: parseFloat(row.baseAmount),
+    cgst: parseFloat(row.cgstAmount || '0'),
+    sgst: parseFloat(row.sgstAmount || '0'),
+    igst: parseFloat(row.igstAmount || '0'),
+    cess: parseFloat(row.cessAmount || '0'),
+    reverseCharge: row.reverseCharge === true,
+    itcEligible: row.itcEligible !== false,
+  };
+}
+
+function toIsoDate(value: Date | string): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10);
+}
+
+/**
+ * Collapse document lines into one taxable row per HSN and rate, split by place of supply.
+ * Supplies without payment of tax (exports under LUT) keep their rate with nil tax.
+ */
+function buildTaxRows(lines: TaxableLineInput[], supplierState: string, placeOfSupply: string, withoutPayment = false) {
+  const grouped = new Map<string, { hsnCode: string; taxRate: number; taxablePaise: number }>();
+  for (const line of lines) {
+    const hsnCode = (line.hsn || DEFAULT_SAC).trim();
+    const key = `${hsnCode}|${line.rate}`;
+    const bucket = grouped.get(key) || { hsnCode, taxRate: line.rate, taxablePaise: 0 };
+    bucket.taxablePaise += toPaise(line.taxableValue);
+    grouped.set(key, bucket);
+  }
+
+  const rows: TaxRowDraft[] = Array.from(grouped.values()).map((bucket, index) => {
+    const taxableValue = bucket.taxablePaise / 100;
+    const split = splitGst(taxableValue, withoutPayment ? 0 : bucket.taxRate, supplierState, placeOfSupply);
+    return {
+      lineNumber: index + 1,
+      hsnCode: bucket.hsnCode,
+      taxRate: bucket.taxRate,
+      taxableValue,
+      cgst: split.cgst,
+      sgst: split.sgst,
+      igst: split.igst,
+    };
+  });
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      subtotal: sum.subtotal + toPaise(row.taxableValue),
+      cgst: sum.cgst + toPaise(row.cgst),
+      sgst: sum.sgst + toPaise(row.sgst),
+      igst: sum.igst + toPaise(row.igst),
+    }),
+    { subtotal: 0, cgst: 0, sgst: 0, igst: 0 }
+  );
+
+  return {
+    rows,
+    supplyType: supplierState === placeOfSupply ? 'intra' as const : 'inter' as const,
+    subtotal: totals.subtotal / 100,
+    cgst: totals.cgst / 100,
+    sgst: totals.sgst / 100,
+    igst: totals.igst / 100,
+    total: (totals.subtotal + totals.cgst + totals.sgst + totals.igst) / 100,
+  };
+}
+
+function validateTaxableLines(lines: TaxableLineInput[] | undefined) {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new ValidationError('At least one line is required');
+  }
+  lines.forEach((line, index) => {
+    if (!(Number(line.taxableValue) > 0)) {
+      throw new ValidationError(`Line ${index + 1}: taxableValue must be greater than zero`);
+    }
+    if (!GST_RATES.includes(Number(line.rate))) {
+      throw new ValidationError(`Line ${index + 1}: rate must be one of ${GST_RATES.join(', ')}`);
+    }
+  });
+}
+
+// ============================================================================
+// GST LEDGER SERVICE
+// ============================================================================
+
+class GstLedgerService {
+  /**
+   * Seed GST rate configurations for a tenant (idempotent)
+   */
+  async seedTaxConfigurations(tenantId: string): Promise<number> {
+    const existing = await db
+      .select({ id: taxConfigurations.id })
+      .from(taxConfigurations)
+      .where(and(eq(taxConfigurations.tenantId, tenantId), eq(taxConfigurations.taxType, 'gst')))
+      .limit(1);
+    if (existing.length > 0) return 0;
+
+    const rows = GST_RATES.map((rate) => ({
+      tenantId,
+      taxType: 'gst',
+      taxCode: `GST${rate}`,
+      taxName: `GST @ ${rate}%`,
+      rate: rate.toFixed(2),
+      effectiveFrom: rate === 40 ? '2025-09-22' : '2017-07-01',
+    }));
+    await db.insert(taxConfigurations).values(rows);
+    logger.info(`Seeded ${rows.length} GST rate configurations for tenant ${tenantId}`);
+    return rows.length;
+  }
+
+  /**
+   * The tenant's own GSTIN and state: tenant settings first, then COMPANY_GSTIN / COMPANY_STATE
+   */
+  async getSupplierProfile(tenantId: string): Promise<{ gstin: string | null; stateCode: string | null }> {
+    const [tenant] = await db
+      .select({ settings: tenants.settings })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1);
+
+    const settings = (tenant?.settings || {}) as Record<string, any>;
+    const gstin = (settings.gstin || process.env.COMPANY_GSTIN || '').trim().toUpperCase() || null;
+    const stateCode = resolveStateCode(gstin) ?? resolveStateCode(settings.state || process.env.COMPANY_STATE || 'Karnataka');
+    return { gstin, stateCode };
+  }
+
+  /**
+   * Work out place of supply and the GST on an outward document without recording it
+   */
+  async computeOutwardTax(tenantId: string, invoice: Pick<OutwardInvoiceInput, 'clientGstin' | 'clientState' | 'placeOfSupply' | 'exportUnderLut' | 'lines'>) {
+    validateTaxableLines(invoice.lines);
+
+    const supplier = await this.getSupplierProfile(tenantId);
+    const clientGstin = invoice.clientGstin?.trim().toUpperCase() || null;
+    const placeOfSupply = resolveStateCode(invoice.placeOfSupply)
+      ?? resolveStateCode(clientGstin)
+      ?? resolveStateCode(invoice.clientState)
+      ?? supplier.stateCode;
+    if (!placeOfSupply) {
+      throw new ValidationError('Cannot determine place of supply; set the client GSTIN or state');
+    }
+
+    const computed = buildTaxRows(invoice.lines, supplier.stateCode ?? placeOfSupply, placeOfSupply, invoice.exportUnderLut === true);
+    return { clientGstin, placeOfSupply, computed };
+  }
+
+  /**
+   * Record output tax for a sales invoice. Re-recording the same invoice is a no-op.
+   * Returns the number of new ledger rows, or 0 when no tenant ledger is available.
+   */
+  async recordOutwardInvoice(invoice: OutwardInvoiceInput, options: { tenantId?: string | null } = {}): Promise<number> {
+    const tenantId = await ledgerService.resolveTenantId(options.tenantId);
+    if (!tenantId) {
+      logger.warn(`No tenant available for GST ledger; skipping invoice ${invoice.invoiceNumber}`);
+      return 0;
+    }
+
+    const { clientGstin, placeOfSupply, computed } = await this.computeOutwardTax(tenantId, invoice);
+    const documentDate = toIsoDate(invoice.invoiceDate);
+    const configIds = await this.getTaxConfigIds(tenantId);
+
+    const inserted = await db
+      .insert(taxTransactions)
+      .values(computed.rows.map((row) => ({
+        tenantId,
+        transactionType: GST_TRANSACTION_TYPES.OUTPUT,
+        taxConfigId: configIds.get(row.taxRate) ?? null,
+        baseAmount: row.taxableValue.toFixed(2),
+        taxAmount: ((toPaise(row.cgst) + toPaise(row.sgst) + toPaise(row.igst)) / 100).toFixed(2),
+        referenceType: 'invoice',
+        referenceId: invoice.invoiceId,
+        lineNumber: row.lineNumber,
+        documentNumber: invoice.invoiceNumber,
+        documentDate,
+        documentValue: computed.total.toFixed(2),
+        counterpartyName: invoice.clientName,
+        counterpartyGstin: clientGstin,
+        placeOfSupply,
+        supplyType: computed.supplyType,
+        hsnCode: row.hsnCode,
+        taxRate: row.taxRate.toFixed(2),
+        cgstAmount: row.cgst.toFixed(2),
+        sgstAmount: row.sgst.toFixed(2),
+        igstAmount: row.igst.toFixed(2),
+        periodMonth: parseInt(documentDate.slice(5, 7)),
+        periodYear: parseInt(documentDate.slice(0, 4)),
+      })))
+      .onConflictDoNothing()
+      .returning({ id: taxTransactions.id });
+
+    return inserted.length;
+  }
+
+  /**
+   * Record a vendor bill: stores the bill, writes input tax rows and books it in the general ledger
+   */
+  async createVendorBill(tenantId: string, input: VendorBillInput, createdBy?: number | null) {
+    if (!input.billNumber || !input.vendorName || !input.billDate) {
+      throw new ValidationError('billNumber, billDate and vendorName are required');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.billDate)) {
+      throw new ValidationError('billDate must be YYYY-MM-DD');
+    }
+    const vendorGstin = input.vendorGstin?.trim().toUpperCase() || null;
+    if (vendorGstin && !GSTIN_PATTERN.test(vendorGstin)) {
+      throw new ValidationError(`Invalid vendor GSTIN: ${vendorGstin}`);
+    }
+    validateTaxableLines(input.lines);
+
+    const supplier = await this.getSupplierProfile(tenantId);
+    // Inward supplies are consumed at our own location unless the bill says otherwise
+    const placeOfSupply = resolveStateCode(input.placeOfSupply) ?? supplier.stateCode;
+    if (!placeOfSupply) {
+      throw new ValidationError('Cannot determine place of supply; set placeOfSupply or COMPANY_STATE');
+    }
+    const vendorState = resolveStateCode(vendorGstin) ?? placeOfSupply;
+    const computed = buildTaxRows(input.lines, vendorState, placeOfSupply);
+    const reverseCharge = input.reverseCharge === true;
+    const itcEligible = input.itcEligible !== false;
+    const configIds = await this.getTaxConfigIds(tenantId);
+
+    const bill = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(vendorBills)
+        .values({
+          tenantId,
+          billNumber: input.billNumber,
+          billDate: input.billDate,
+          vendorName: input.vendorName,
+          vendorGstin,
+          placeOfSupply,
+          lineItems: input.lines,
+          subtotal: computed.subtotal.toFixed(2),
+          cgstAmount: computed.cgst.toFixed(2),
+          sgstAmount: computed.sgst.toFixed(2),
+          igstAmount: computed.igst.toFixed(2),
+          total: (reverseCharge ? computed.subtotal : computed.total).toFixed(2),
+          reverseCharge,
+          itcEligible,
+          notes: input.notes ?? null,
+          createdBy: createdBy ?? null,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!created) {
+        throw new ConflictError(`Bill ${input.billNumber} from ${input.vendorName} is already recorded`);
+      }
+
+      await tx.insert(taxTransactions).values(computed.rows.map((row) => ({
+        tenantId,
+        transactionType: GST_TRANSACTION_TYPES.INPUT,
+        taxConfigId: configIds.get(row.taxRate) ?? null,
+        baseAmount: row.taxableValue.toFixed(2),
+        taxAmount: ((toPaise(row.cgst) + toPaise(row.sgst) + toPaise(row.igst)) / 100).toFixed(2),
+        referenceType: 'vendor_bill',
+        referenceId: created.id,
+        lineNumber: row.lineNumber,
+        documentNumber: input.billNumber,
+        documentDate: input.billDate,
+        documentValue: created.total,
+        counterpartyName: input.vendorName,
+        counterpartyGstin: vendorGstin,
+        placeOfSupply,
+        supplyType: computed.supplyType,
+        hsnCode: row.hsnCode,
+        taxRate: row.taxRate.toFixed(2),
+        cgstAmount: row.cgst.toFixed(2),
+        sgstAmount: row.sgst.toFixed(2),
+        igstAmount: row.igst.toFixed(2),
+        reverseCharge,
+        itcEligible,
+        periodMonth: parseInt(input.billDate.slice(5, 7)),
+        periodYear: parseInt(input.billDate.slice(0, 4)),
+      })));
+
+      return created;
+    });
+
+    try {
+      await ledgerService.postVendorBill({
+        id: bill.id,
+        billNumber: bill.billNumber,
+        billDate: bill.billDate,
+        vendorName: bill.vendorName,
+        subtotal: computed.subtotal,
+        cgst: computed.cgst,
+        sgst: computed.sgst,
+        igst: computed.igst,
+        total: computed.total,
+        itcEligible,
+        reverseCharge,
+        expenseAccountCode: input.expenseAccountCode,
+      }, { tenantId, postedBy: createdBy ?? null });
+    } catch (error) {
+      logger.error(`Failed to post vendor bill ${bill.billNumber} to ledger:`, error);
+    }
+
+    return bill;
+  }
+
+  /**
+   * List vendor bills, optionally for a single return period
+   */
+  async listVendorBills(tenantId: string, filters: { year?: number; month?: number; limit?: number; offset?: number } = {}) {
+    const conditions = [eq(vendorBills.tenantId, tenantId)];
+    if (filters.year && filters.month) {
+      conditions.push(sql`EXTRACT(YEAR FROM ${vendorBills.billDate}) = ${filters.year}`);
+      conditions.push(sql`EXTRACT(MONTH FROM ${vendorBills.billDate}) = ${filters.month}`);
+    }
+
+    return db
+      .select()
+      .from(vendorBills)
+      .where(and(...conditions))
+      .orderBy(desc(vendorBills.billDate), desc(vendorBills.id))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+  }
+
+  /**
+   * Get a vendor bill with its input tax rows
+   */
+  async getVendorBill(tenantId: string, billId: number) {
+    const [bill] = await db
+      .select()
+      .from(vendorBills)
+      .where(and(eq(vendorBills.id, billId), eq(vendorBills.tenantId, tenantId)))
+      .limit(1);
+    if (!bill) throw new NotFoundError('Vendor bill');
+
+    const taxRows = await db
+      .select()
+      .from(taxTransactions)
+      .where(and(
+        eq(taxTransactions.tenantId, tenantId),
+        eq(taxTransactions.referenceType, 'vendor_bill'),
+        eq(taxTransactions.referenceId, billId)
+      ))
+      .orderBy(asc(taxTransactions.lineNumber));
+
+    return { ...bill, taxRows };
+  }
+
+  /**
+   * List raw tax ledger rows for a period
+   */
+  async listTaxTransactions(tenantId: string, filters: { year: number; month: number; transactionType?: GstTransactionType }) {
+    const conditions = [
+      eq(taxTransactions.tenantId, tenantId),
+      eq(taxTransactions.periodYear, filters.year),
+      eq(taxTransactions.periodMonth, filters.month),
+    ];
+    if (filters.transactionType) conditions.push(eq(taxTransactions.transactionType, filters.transactionType));
+
+    return db
+      .select()
+      .from(taxTransactions)
+      .where(and(...conditions))
+      .orderBy(asc(taxTransactions.documentDate), asc(taxTransactions.documentNumber), asc(taxTransactions.lineNumber));
+  }
+
+  /**
+   * GST ledger rows for a period in the shape the return builders expect
+   */
+  async getPeriodRows(tenantId: string, year: number, month: number): Promise<GstLedgerRow[]> {
+    const rows = await this.listTaxTransactions(tenantId, { year, month });
+    return rows
+      .filter(isGstRow)
+      .map(toLedgerRow);
+  }
+
+  /**
+   * Draft GSTR-1 for a period ("MMYYYY" or "YYYY-MM")
+   */
+  async generateGstr1(tenantId: string, period: string): Promise<Gstr1Payload> {
+    const { year, month } = parseReturnPeriod(period);
+    const gstin = await this.requireGstin(tenantId);
+    const rows = await this.getPeriodRows(tenantId, year, month);
+    return buildGstr1(rows, { gstin, period: formatReturnPeriod(year, month) });
+  }
+
+  /**
+   * Draft GSTR-3B for a period ("MMYYYY" or "YYYY-MM")
+   */
+  async generateGstr3b(tenantId: string, period: string): Promise<Gstr3bPayload> {
+    const { year, month } = parseReturnPeriod(period);
+    const gstin = await this.requireGstin(tenantId);
+    const rows = await this.getPeriodRows(tenantId, year, month);
+    return buildGstr3b(rows, { gstin, period: formatReturnPeriod(year, month) });
+  }
+
+  /**
+   * Per-period GST position for the most recent months, newest first
+   */
+  async getPeriodSummaries(tenantId: string, months = 12) {
+    const now = new Date();
+    const start = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+    const startKey = start.getFullYear() * 100 + start.getMonth() + 1;
+
+    const rows = await db
+      .select()
+      .from(taxTransactions)
+      .where(and(
+        eq(taxTransactions.tenantId, tenantId),
+        gte(sql`${taxTransactions.periodYear} * 100 + ${taxTransactions.periodMonth}`, startKey)
+      ));
+
+    const periods = new Map<string, { year: number; month: number; rows: GstLedgerRow[]; pending: number; filedAt: Date | null }>();
+    for (const row of rows) {
+      if (!isGstRow(row)) continue;
+      const key = formatReturnPeriod(row.periodYear!, row.periodMonth!);
+      const period = periods.get(key) || { year: row.periodYear!, month: row.periodMonth!, rows: [], pending: 0, filedAt: null };
+      if (row.filingStatus === TAX_FILING_STATUS.PENDING) period.pending++;
+      if (row.filedAt && (!period.filedAt || row.filedAt > period.filedAt)) period.filedAt = row.filedAt;
+      period.rows.push(toLedgerRow(row));
+      periods.set(key, period);
+    }
+
+    return Array.from(periods.entries())
+      .sort(([, a], [, b]) => (b.year * 100 + b.month) - (a.year * 100 + a.month))
+      .map(([period, data]) => ({
+        period,
+        year: data.year,
+        month: data.month,
+        dueDates: gstReturnDueDates(data.year, data.month),
+        filingStatus: data.pending > 0 ? TAX_FILING_STATUS.PENDING : TAX_FILING_STATUS.FILED,
+        filedAt: data.pending > 0 ? null : data.filedAt,
+        ...summarizeGstRows(data.rows),
+      }));
+  }
+
+  /**
+   * Generate a return from the ledger and file it through the GSP.
+   * A successful GSTR-3B marks the period's rows as filed.
+   */
+  async fileReturn(tenantId: string, returnType: 'gstr1' | 'gstr3b', request: {
+    period: string;
+    clientId: number;
+    entityId?: number;
+    credentials?: Record<string, string>;
+  }) {
+    const { year, month } = parseReturnPeriod(request.period);
+    const period = formatReturnPeriod(year, month);
+    const filing = {
+      clientId: request.clientId,
+      entityId: request.entityId,
+      filingType: returnType,
+      period,
+      credentials: request.credentials,
+    };
+
+    const result = returnType === 'gstr1'
+      ? await governmentApiService.fileGSTR1({ ...filing, data: await this.generateGstr1(tenantId, period) })
+      : await governmentApiService.fileGSTR3B({ ...filing, data: await this.generateGstr3b(tenantId, period) });
+
+    if (result.success && returnType === 'gstr3b') {
+      await this.markPeriodFiled(tenantId, year, month);
+    }
+    return result;
+  }
+
+  /**
+   * Mark all GST rows of a period as filed
+   */
+  async markPeriodFiled(tenantId: string, year: number, month: number): Promise<number> {
+    const updated = await db
+      .update(taxTransactions)
+      .set({ filingStatus: TAX_FILING_STATUS.FILED, filedAt: new Date() })
+      .where(and(
+        eq(taxTransactions.tenantId, tenantId),
+        eq(taxTransactions.periodYear, year),
+        eq(taxTransactions.periodMonth, month),
+        eq(taxTransactions.filingStatus, TAX_FILING_STATUS.PENDING),
+        sql`${taxTransactions.transactionType} IN (${GST_TRANSACTION_TYPES.OUTPUT}, ${GST_TRANSACTION_TYPES.INPUT})`
+      ))
+      .returning({ id: taxTransactions.id });
+    return updated.length;
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  private async requireGstin(tenantId: string): Promise<string> {
+    const { gstin } = await this.getSupplierProfile(tenantId);
+    if (!gstin) {
+      throw new ValidationError('Tenant GSTIN is not configured; set tenant settings.gstin or COMPANY_GSTIN');
+    }
+    return gstin;
+  }
+
+  /** Map of GST rate → tax configuration id, seeding the defaults on first use */
+  private async getTaxConfigIds(tenantId: string): Promise<Map<number, number>> {
+    await this.seedTaxConfigurations(tenantId);
+    const configs = await db
+      .select({ id: taxConfigurations.id, rate: taxConfigurations.rate })
+      .from(taxConfigurations)
+      .where(and(
+        eq(taxConfigurations.tenantId, tenantId),
+        eq(taxConfigurations.taxType, 'gst'),
+        eq(taxConfigurations.isActive, true)
+      ));
+    return new Map(configs.map((config) => [parseFloat(config.rate), config.id]));
+  }
+}
+
+export const gstLedgerService = new GstLedgerService();
@@ -0,0 +1,629 @@
+/**
+ * GST Return Builder
+ *
+ * Pure helpers behind the GST tax ledger:
+ * - GST state codes and place-of-supply resolution
+ * - CGST/SGST vs IGST split of a taxable value
+ * - GSTR-1 and GSTR-3B JSON in the GSTN offline-tool schema
+ *
+ * Kept free of database access so returns can be rebuilt and tested from
+ * ledger rows alone.
+ */
+import { toPaise } from './ledger-service';
+import { ValidationError } from '../errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** GST state codes as used in GSTINs and the "pos" field of returns */
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '96': 'Other Countries',
+  '97': 'Other Territory',
+};
+
+const STATE_NAME_ALIASES: Record<string, string> = {
+  jk: '01',
+  jammukashmir: '01',
+  uttaranchal: '05',
+  newdelhi: '07',
+  nctofdelhi: '07',
+  orissa: '21',
+  damananddiu: '26',
+  dadraandnagarhaveli: '26',
+  pondicherry: '34',
+  andamanandnicobar: '35',
+};
+
+/** Place of supply for exports of services */
+export const EXPORT_PLACE_OF_SUPPLY = '96';
+
+/** Inter-state B2C invoices above this value are reported invoice-wise (B2CL) */
+export const B2CL_INVOICE_THRESHOLD = 100000;
+
+/** GST slabs a document line may be taxed at */
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28, 40];
+
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z0-9]{10}[0-9A-Z]Z[0-9A-Z]$/;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GstTransactionType = 'gst_output' | 'gst_input';
+export type SupplyType = 'intra' | 'inter';
+
+/** One line of the tax ledger (a document's taxable value at one HSN and rate) */
+export interface GstLedgerRow {
+  transactionType: GstTransactionType;
+  documentNumber: string;
+  documentDate: string; // YYYY-MM-DD
+  documentValue: number;
+  counterpartyName: string | null;
+  counterpartyGstin: string | null;
+  placeOfSupply: string;
+  supplyType: SupplyType;
+  hsnCode: string | null;
+  taxRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  reverseCharge: boolean;
+  itcEligible: boolean;
+}
+
+export interface GstSplit {
+  supplyType: SupplyType;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface GstItemDetail {
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1Payload {
+  gstin: string;
+  fp: string; // MMYYYY
+  b2b: {
+    ctin: string;
+    inv: {
+      inum: string;
+      idt: string; // DD-MM-YYYY
+      val: number;
+      pos: string;
+      rchrg: 'Y' | 'N';
+      inv_typ: 'R';
+      itms: { num: number; itm_det: GstItemDetail }[];
+    }[];
+  }[];
+  b2cl: {
+    pos: string;
+    inv: {
+      inum: string;
+      idt: string;
+      val: number;
+      itms: { num: number; itm_det: Omit<GstItemDetail, 'camt' | 'samt'> }[];
+    }[];
+  }[];
+  exp: {
+    exp_typ: 'WPAY' | 'WOPAY'; // With / without payment of IGST (LUT)
+    inv: {
+      inum: string;
+      idt: string;
+      val: number;
+      itms: { txval: number; rt: number; iamt: number; csamt: number }[];
+    }[];
+  }[];
+  b2cs: {
+    sply_ty: 'INTRA' | 'INTER';
+    pos: string;
+    typ: 'OE';
+    rt: number;
+    txval: number;
+    iamt: number;
+    camt: number;
+    samt: number;
+    csamt: number;
+  }[];
+  hsn: {
+    data: {
+      num: number;
+      hsn_sc: string;
+      uqc: string;
+      qty: number;
+      rt: number;
+      txval: number;
+      iamt: number;
+      camt: number;
+      samt: number;
+      csamt: number;
+    }[];
+  };
+}
+
+export interface GstTaxAmounts {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr3bItcRow {
+  ty: string;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr3bPayload {
+  gstin: string;
+  ret_period: string; // MMYYYY
+  sup_details: {
+    osup_det: GstTaxAmounts;
+    osup_zero: { txval: number; iamt: number; csamt: number };
+    osup_nil_exmp: { txval: number };
+    isup_rev: GstTaxAmounts;
+    osup_nongst: { txval: number };
+  };
+  inter_sup: {
+    unreg_details: { pos: string; txval: number; iamt: number }[];
+    comp_details: { pos: string; txval: number; iamt: number }[];
+    uin_details: { pos: string; txval: number; iamt: number }[];
+  };
+  itc_elg: {
+    itc_avl: Gstr3bItcRow[];
+    itc_rev: Gstr3bItcRow[];
+    itc_net: Omit<Gstr3bItcRow, 'ty'>;
+    itc_inelg: Gstr3bItcRow[];
+  };
+  inward_sup: {
+    isup_details: { ty: 'GST' | 'NONGST'; inter: number; intra: number }[];
+  };
+  intr_ltfee: {
+    intr_details: Omit<Gstr3bItcRow, 'ty'>;
+  };
+}
+
+export interface GstPeriodSummary {
+  taxableOutward: number;
+  outputTax: number;
+  inputTaxCredit: number;
+  ineligibleCredit: number;
+  reverseChargeTax: number;
+  netPayable: number;
+  creditCarriedForward: number;
+}
+
+// ============================================================================
+// PLACE OF SUPPLY
+// ============================================================================
+
+/**
+ * Resolve a GSTIN, two-digit state code or state name to a GST state code.
+ */
+export function resolveStateCode(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim().toUpperCase();
+
+  if (/^[0-9]{2}[A-Z0-9]{13}$/.test(trimmed)) {
+    return GST_STATE_CODES[trimmed.slice(0, 2)] ? trimmed.slice(0, 2) : null;
+  }
+  if (/^[0-9]{1,2}$/.test(trimmed)) {
+    const code = trimmed.padStart(2, '0');
+    return GST_STATE_CODES[code] ? code : null;
+  }
+
+  const key = trimmed.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+  if (STATE_NAME_ALIASES[key]) return STATE_NAME_ALIASES[key];
+  for (const [code, name] of Object.entries(GST_STATE_CODES)) {
+    if (name.toLowerCase().replace(/[^a-z]/g, '') === key) return code;
+  }
+  return null;
+}
+
+/**
+ * Split the tax on a taxable value: CGST + SGST when supplier and place of
+ * supply are in the same state, IGST otherwise. Each half is rounded on its own,
+ * as printed on a tax invoice.
+ */
+export function splitGst(taxableValue: number, rate: number, supplierState: string, placeOfSupply: string): GstSplit {
+  const taxablePaise = toPaise(taxableValue);
+  if (supplierState === placeOfSupply) {
+    const half = Math.round((taxablePaise * rate) / 200);
+    return { supplyType: 'intra', cgst: half / 100, sgst: half / 100, igst: 0 };
+  }
+  return { supplyType: 'inter', cgst: 0, sgst: 0, igst: Math.round((taxablePaise * rate) / 100) / 100 };
+}
+
+// ============================================================================
+// RETURN PERIODS
+// ============================================================================
+
+/** Format a return period the way GSTN expects it (MMYYYY) */
+export function formatReturnPeriod(year: number, month: number): string {
+  return `${String(month).padStart(2, '0')}${year}`;
+}
+
+/** Parse "MMYYYY" or "YYYY-MM" into a year and month */
+export function parseReturnPeriod(period: string): { year: number; month: number } {
+  const value = (period || '').trim();
+  let match = /^(\d{2})(\d{4})$/.exec(value);
+  let year: number;
+  let month: number;
+  if (match) {
+    month = parseInt(match[1]);
+    year = parseInt(match[2]);
+  } else if ((match = /^(\d{4})-(\d{2})$/.exec(value))) {
+    year = parseInt(match[1]);
+    month = parseInt(match[2]);
+  } else {
+    throw new ValidationError('Return period must be MMYYYY or YYYY-MM');
+  }
+  if (month < 1 || month > 12) {
+    throw new ValidationError('Return period month must be between 01 and 12');
+  }
+  return { year, month };
+}
+
+/** Statutory due dates for a monthly filer: GSTR-1 on the 11th and GSTR-3B on the 20th of the next month */
+export function gstReturnDueDates(year: number, month: number): { gstr1: string; gstr3b: string } {
+  const dueYear = month === 12 ? year + 1 : year;
+  const dueMonth = String(month === 12 ? 1 : month + 1).padStart(2, '0');
+  return { gstr1: `${dueYear}-${dueMonth}-11`, gstr3b: `${dueYear}-${dueMonth}-20` };
+}
+
+function toGstnDate(isoDate: string): string {
+  const [year, month, day] = isoDate.slice(0, 10).split('-');
+  return `${day}-${month}-${year}`;
+}
+
+// ============================================================================
+// GSTR-1
+// ============================================================================
+
+interface PaiseTotals {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+function emptyTotals(): PaiseTotals {
+  return { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+}
+
+function addRow(totals: PaiseTotals, row: GstLedgerRow): PaiseTotals {
+  totals.txval += toPaise(row.taxableValue);
+  totals.iamt += toPaise(row.igst);
+  totals.camt += toPaise(row.cgst);
+  totals.samt += toPaise(row.sgst);
+  totals.csamt += toPaise(row.cess);
+  return totals;
+}
+
+function toRupees(totals: PaiseTotals): GstTaxAmounts {
+  return {
+    txval: totals.txval / 100,
+    iamt: totals.iamt / 100,
+    camt: totals.camt / 100,
+    samt: totals.samt / 100,
+    csamt: totals.csamt / 100,
+  };
+}
+
+/** Group a document's rows into GSTN items, one per tax rate */
+function buildItems(rows: GstLedgerRow[]): { num: number; itm_det: GstItemDetail }[] {
+  const byRate = new Map<number, PaiseTotals>();
+  for (const row of rows) {
+    byRate.set(row.taxRate, addRow(byRate.get(row.taxRate) || emptyTotals(), row));
+  }
+  return Array.from(byRate.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([rt, totals], index) => ({ num: index + 1, itm_det: { rt, ...toRupees(totals) } }));
+}
+
+function groupByDocument(rows: GstLedgerRow[]): Map<string, GstLedgerRow[]> {
+  const documents = new Map<string, GstLedgerRow[]>();
+  for (const row of rows) {
+    const list = documents.get(row.documentNumber) || [];
+    list.push(row);
+    documents.set(row.documentNumber, list);
+  }
+  return documents;
+}
+
+/**
+ * Build GSTR-1 from the period's outward rows:
+ * - B2B: invoices to registered recipients, grouped by recipient GSTIN
+ * - B2CL: large inter-state invoices to unregistered recipients
+ * - EXP: exports, with or without payment of IGST
+ * - B2CS: all other B2C supplies, summarised by supply type, place of supply and rate
+ * - HSN: summary by HSN/SAC and rate
+ */
+export function buildGstr1(rows: GstLedgerRow[], options: { gstin: string; period: string }): Gstr1Payload {
+  const outward = rows.filter((row) => row.transactionType === 'gst_output');
+  const b2b = new Map<string, Gstr1Payload['b2b'][number]['inv']>();
+  const b2cl = new Map<string, Gstr1Payload['b2cl'][number]['inv']>();
+  const exp = new Map<'WPAY' | 'WOPAY', Gstr1Payload['exp'][number]['inv']>();
+  const b2cs = new Map<string, { sply_ty: 'INTRA' | 'INTER'; pos: string; rt: number; totals: PaiseTotals }>();
+
+  for (const [documentNumber, lines] of Array.from(groupByDocument(outward).entries())) {
+    const head = lines[0];
+    const items = buildItems(lines);
+
+    if (head.placeOfSupply === EXPORT_PLACE_OF_SUPPLY) {
+      const expTyp = lines.some((line) => line.igst > 0) ? 'WPAY' : 'WOPAY';
+      const invoices = exp.get(expTyp) || [];
+      invoices.push({
+        inum: documentNumber,
+        idt: toGstnDate(head.documentDate),
+        val: head.documentValue,
+        itms: items.map(({ itm_det }) => ({ txval: itm_det.txval, rt: itm_det.rt, iamt: itm_det.iamt, csamt: itm_det.csamt })),
+      });
+      exp.set(expTyp, invoices);
+      continue;
+    }
+
+    if (head.counterpartyGstin) {
+      const invoices = b2b.get(head.counterpartyGstin) || [];
+      invoices.push({
+        inum: documentNumber,
+        idt: toGstnDate(head.documentDate),
+        val: head.documentValue,
+        pos: head.placeOfSupply,
+        rchrg: head.reverseCharge ? 'Y' : 'N',
+        inv_typ: 'R',
+        itms: items,
+      });
+      b2b.set(head.counterpartyGstin, invoices);
+      continue;
+    }
+
+    if (head.supplyType === 'inter' && head.documentValue > B2CL_INVOICE_THRESHOLD) {
+      const invoices = b2cl.get(head.placeOfSupply) || [];
+      invoices.push({
+        inum: documentNumber,
+        idt: toGstnDate(head.documentDate),
+        val: head.documentValue,
+        itms: items.map(({ num, itm_det }) => ({
+          num,
+          itm_det: { txval: itm_det.txval, rt: itm_det.rt, iamt: itm_det.iamt, csamt: itm_det.csamt },
+        })),
+      });
+      b2cl.set(head.placeOfSupply, invoices);
+      continue;
+    }
+
+    for (const line of lines) {
+      const splyTy = line.supplyType === 'inter' ? 'INTER' : 'INTRA';
+      const key = `${splyTy}|${line.placeOfSupply}|${line.taxRate}`;
+      const bucket = b2cs.get(key) || { sply_ty: splyTy, pos: line.placeOfSupply, rt: line.taxRate, totals: emptyTotals() };
+      addRow(bucket.totals, line);
+      b2cs.set(key, bucket);
+    }
+  }
+
+  const hsn = new Map<string, { hsn: string; rt: number; totals: PaiseTotals }>();
+  for (const row of outward) {
+    const code = row.hsnCode || 'NA';
+    const key = `${code}|${row.taxRate}`;
+    const bucket = hsn.get(key) || { hsn: code, rt: row.taxRate, totals: emptyTotals() };
+    addRow(bucket.totals, row);
+    hsn.set(key, bucket);
+  }
+
+  return {
+    gstin: options.gstin,
+    fp: options.period,
+    b2b: Array.from(b2b.entries()).map(([ctin, inv]) => ({ ctin, inv })),
+    b2cl: Array.from(b2cl.entries()).map(([pos, inv]) => ({ pos, inv })),
+    exp: Array.from(exp.entries()).map(([exp_typ, inv]) => ({ exp_typ, inv })),
+    b2cs: Array.from(b2cs.values()).map(({ sply_ty, pos, rt, totals }) => ({
+      sply_ty,
+      pos,
+      typ: 'OE' as const,
+      rt,
+      ...toRupees(totals),
+    })),
+    hsn: {
+      data: Array.from(hsn.values()).map(({ hsn: code, rt, totals }, index) => ({
+        num: index + 1,
+        hsn_sc: code,
+        uqc: 'NA', // Services carry no unit quantity
+        qty: 0,
+        rt,
+        ...toRupees(totals),
+      })),
+    },
+  };
+}
+
+// ============================================================================
+// GSTR-3B
+// ============================================================================
+
+function taxOnly(totals: PaiseTotals = emptyTotals()): Omit<Gstr3bItcRow, 'ty'> {
+  const { iamt, camt, samt, csamt } = toRupees(totals);
+  return { iamt, camt, samt, csamt };
+}
+
+function itcRow(ty: string, totals?: PaiseTotals): Gstr3bItcRow {
+  return { ty, ...taxOnly(totals) };
+}
+
+/**
+ * Build GSTR-3B from the period's outward and inward rows.
+ * Eligible credit on forward-charge bills is reported under "All other ITC";
+ * reverse-charge bills are reported both as inward supplies liable to reverse
+ * charge and as ITC on them.
+ */
+export function buildGstr3b(rows: GstLedgerRow[], options: { gstin: string; period: string }): Gstr3bPayload {
+  const taxableOutward = emptyTotals();
+  const zeroRated = emptyTotals();
+  const nilOutward = emptyTotals();
+  const reverseCharge = emptyTotals();
+  const itcOther = emptyTotals();
+  const itcReverseCharge = emptyTotals();
+  const ineligible = emptyTotals();
+  const exemptInward = { inter: 0, intra: 0 };
+  const unregistered = new Map<string, PaiseTotals>();
+
+  for (const row of rows) {
+    if (row.transactionType === 'gst_output') {
+      if (row.placeOfSupply === EXPORT_PLACE_OF_SUPPLY) {
+        addRow(zeroRated, row);
+        continue;
+      }
+      if (row.taxRate === 0) {
+        addRow(nilOutward, row);
+        continue;
+      }
+      addRow(taxableOutward, row);
+      if (!row.counterpartyGstin && row.supplyType === 'inter') {
+        unregistered.set(row.placeOfSupply, addRow(unregistered.get(row.placeOfSupply) || emptyTotals(), row));
+      }
+      continue;
+    }
+
+    if (row.taxRate === 0) {
+      exemptInward[row.supplyType] += toPaise(row.taxableValue);
+      continue;
+    }
+    if (row.reverseCharge) addRow(reverseCharge, row);
+    if (!row.itcEligible) addRow(ineligible, row);
+    else if (row.reverseCharge) addRow(itcReverseCharge, row);
+    else addRow(itcOther, row);
+  }
+
+  const net = emptyTotals();
+  for (const totals of [itcOther, itcReverseCharge]) {
+    net.iamt += totals.iamt;
+    net.camt += totals.camt;
+    net.samt += totals.samt;
+    net.csamt += totals.csamt;
+  }
+
+  return {
+    gstin: options.gstin,
+    ret_period: options.period,
+    sup_details: {
+      osup_det: toRupees(taxableOutward),
+      osup_zero: { txval: zeroRated.txval / 100, iamt: zeroRated.iamt / 100, csamt: zeroRated.csamt / 100 },
+      osup_nil_exmp: { txval: nilOutward.txval / 100 },
+      isup_rev: toRupees(reverseCharge),
+      osup_nongst: { txval: 0 },
+    },
+    inter_sup: {
+      unreg_details: Array.from(unregistered.entries()).map(([pos, totals]) => ({
+        pos,
+        txval: totals.txval / 100,
+        iamt: totals.iamt / 100,
+      })),
+      comp_details: [],
+      uin_details: [],
+    },
+    itc_elg: {
+      itc_avl: [
+        itcRow('IMPG'),
+        itcRow('IMPS'),
+        itcRow('ISRC', itcReverseCharge),
+        itcRow('ISD'),
+        itcRow('OTH', itcOther),
+      ],
+      itc_rev: [itcRow('RUL'), itcRow('OTH')],
+      itc_net: taxOnly(net),
+      itc_inelg: [itcRow('RUL', ineligible), itcRow('OTH')],
+    },
+    inward_sup: {
+      isup_details: [
+        { ty: 'GST', inter: exemptInward.inter / 100, intra: exemptInward.intra / 100 },
+        { ty: 'NONGST', inter: 0, intra: 0 },
+      ],
+    },
+    intr_ltfee: {
+      intr_details: taxOnly(),
+    },
+  };
+}
+
+/**
+ * Net GST position for a period. Tax on reverse-charge supplies must be paid
+ * in cash, so only forward-charge output tax is set off against credit.
+ */
+export function summarizeGstRows(rows: GstLedgerRow[]): GstPeriodSummary {
+  let taxableOutward = 0;
+  let outputTax = 0;
+  let inputTaxCredit = 0;
+  let ineligibleCredit = 0;
+  let reverseChargeTax = 0;
+
+  for (const row of rows) {
+    const tax = toPaise(row.cgst) + toPaise(row.sgst) + toPaise(row.igst) + toPaise(row.cess);
+    if (row.transactionType === 'gst_output') {
+      taxableOutward += toPaise(row.taxableValue);
+      outputTax += tax;
+      continue;
+    }
+    if (row.reverseCharge) reverseChargeTax += tax;
+    if (row.itcEligible) inputTaxCredit += tax;
+    else ineligibleCredit += tax;
+  }
+
+  return {
+    taxableOutward: taxableOutward / 100,
+    outputTax: outputTax / 100,
+    inputTaxCredit: inputTaxCredit / 100,
+    ineligibleCredit: ineligibleCredit / 100,
+    reverseChargeTax: reverseChargeTax / 100,
+    netPayable: (reverseChargeTax + Math.max(0, outputTax - inputTaxCredit)) / 100,
+    creditCarriedForward: Math.max(0, inputTaxCredit - outputTax) / 100,
+  };
+}
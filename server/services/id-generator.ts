@@ -158,6 +158,13 @@ const ID_CONFIGS: Record<IdType, IdConfig> = {
     sequenceLength: 5,
     description: 'Payout'
   },
+  [ID_TYPES.JOURNAL_ENTRY]: {
+    prefix: 'JV',
+    includeYear: true,
+    includeMonth: true,
+    sequenceLength: 5,
+    description: 'Journal Voucher'
+  },
 
   // Documents (year-based)
   [ID_TYPES.DOCUMENT]: {
@@ -0,0 +1,770 @@
+/**
+ * Inbound Communication Service
+ *
+ * Threads client replies (WhatsApp, SMS, email) onto the service request or
+ * support ticket they are about, and backs the ops inbox.
+ *
+ * A reply is matched, in order, by:
+ * 1. A reference token in the subject or text (SR2600001, TKT26000001)
+ * 2. The outbound message it answers (WhatsApp context id, email In-Reply-To),
+ *    via thread messages and notification delivery records
+ * 3. The sender's open thread from the last two weeks
+ * 4. Otherwise a contact thread for the sender, which ops can link later
+ *
+ * Attachments are stored and filed in the document vault when the sender is
+ * the client the request or ticket belongs to; from anyone else they stay on
+ * the thread for ops to review.
+ */
+
+import crypto from 'crypto';
+import { db } from '../db';
+import { and, desc, eq, ilike, inArray, isNotNull, or, sql, type SQL } from 'drizzle-orm';
+import {
+  businessEntities,
+  documentVault,
+  notificationDeliveries,
+  serviceRequests,
+  supportTickets,
+  users,
+} from '@shared/schema';
+import { communicationThreads, threadMessages } from '@shared/enterprise-schema';
+import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE, uploadToStorage } from '../file-upload';
+import { logCommunication } from './communication-logger';
+import { notificationDispatcher } from './notifications/notification-dispatcher';
+import { documentSearchService } from './documents';
+import { nurtureService } from './nurture-service';
+import { NotFoundError, ValidationError } from '../errors';
+import { logger } from '../logger';
+import {
+  INBOUND_CHANNELS,
+  detectReplyIntent,
+  extractReferenceTokens,
+  phoneMatchKey,
+  type InboundAttachment,
+  type InboundChannel,
+  type InboundMessage,
+  type ReplyIntent,
+} from './inbound-message-parser';
+
+// ============================================
+// TYPES
+// ============================================
+type CommunicationThread = typeof communicationThreads.$inferSelect;
+type ThreadMessage = typeof threadMessages.$inferSelect;
+
+export type ThreadEntityType = 'service_request' | 'support_ticket' | 'contact';
+export type MatchSource = 'reference_token' | 'reply_to' | 'recent_thread' | 'sender' | 'unmatched';
+
+export interface InboundResult {
+  channel: InboundChannel;
+  externalId: string | null;
+  threadId: number | null;
+  messageId: number | null;
+  duplicate: boolean;
+  matchedBy: MatchSource | null;
+  entityType: ThreadEntityType | null;
+  entityId: number | null;
+  intent: ReplyIntent | null;
+  attachmentsStored: number;
+  attachmentsSkipped: string[];
+}
+
+export interface StoredAttachment {
+  name: string;
+  url: string;
+  size: number;
+  type: string;
+  documentVaultId: number | null;
+}
+
+export interface InboxFilters {
+  status?: 'awaiting' | 'all';
+  channel?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface Sender {
+  id: number;
+  fullName: string | null;
+  businessEntityId: number | null;
+}
+
+// What a thread is about, with the people to involve
+interface ThreadTarget {
+  entityType: ThreadEntityType;
+  entityId: number;
+  label: string;
+  businessEntityId: number | null;
+  serviceRequestId: number | null;
+  clientUserId: number | null;
+  assigneeId: number | null;
+}
+
+const RECENT_THREAD_DAYS = 14;
+const VAULT_DOCUMENT_TYPE = 'client_reply_attachment';
+
+// ============================================
+// INBOUND COMMUNICATION SERVICE CLASS
+// ============================================
+class InboundCommunicationService {
+  /**
+   * Thread each parsed message. One failing message does not stop the rest.
+   */
+  async receive(messages: InboundMessage[]): Promise<InboundResult[]> {
+    const results: InboundResult[] = [];
+    for (const message of messages) {
+      try {
+        results.push(await this.receiveOne(message));
+      } catch (error) {
+        logger.error(`Inbound ${message.channel} message ${message.externalId || ''} from ${message.from} failed:`, error);
+        results.push(this.result(message, { duplicate: false }));
+      }
+    }
+    return results;
+  }
+
+  async receiveOne(message: InboundMessage): Promise<InboundResult> {
+    if (message.externalId && await this.findByExternalId(message.channel, message.externalId)) {
+      return this.result(message, { duplicate: true });
+    }
+
+    const sender = await this.findSender(message);
+    const { thread, target, matchedBy } = await this.resolveThread(message, sender);
+    const verifiedSender = !!sender && (
+      target.entityType === 'contact'
+        ? target.clientUserId === sender.id
+        : target.clientUserId === sender.id || (!!sender.businessEntityId && sender.businessEntityId === target.businessEntityId)
+    );
+
+    const { stored, skipped } = await this.storeAttachments(message, verifiedSender ? target : null);
+    const intent = detectReplyIntent(message.text, stored.length);
+
+    const [created] = await db.insert(threadMessages).values({
+      threadId: thread.id,
+      senderId: sender?.id || null,
+      messageType: stored.length > 0 && !message.text ? 'attachment' : 'text',
+      content: message.text || null,
+      attachments: stored.length > 0 ? stored : null,
+      isInternal: false,
+      channel: message.channel,
+      direction: 'inbound',
+      senderAddress: message.from,
+      externalMessageId: message.externalId,
+      metadata: {
+        intent,
+        matchedBy,
+        verifiedSender,
+        senderName: message.fromName,
+        subject: message.subject,
+        replyTo: message.replyToMessageId,
+        skippedAttachments: skipped.length > 0 ? skipped : undefined,
+      },
+      createdAt: message.receivedAt,
+    }).onConflictDoNothing().returning();
+
+    // A provider retry raced us past the lookup above
+    if (!created) {
+      return this.result(message, { duplicate: true });
+    }
+
+    await db.update(communicationThreads)
+      .set({
+        lastMessageAt: message.receivedAt,
+        lastInboundAt: message.receivedAt,
+        messageCount: sql`coalesce(${communicationThreads.messageCount}, 0) + 1`,
+        awaitingResponse: true,
+        isClosed: false,
+        closedAt: null,
+      })
+      .where(eq(communicationThreads.id, thread.id));
+
+    await logCommunication({
+      clientId: target.clientUserId || sender?.id,
+      businessEntityId: target.businessEntityId || undefined,
+      serviceRequestId: target.serviceRequestId || undefined,
+      recipientEmail: message.channel === 'email' ? message.from : undefined,
+      recipientPhone: message.channel === 'email' ? undefined : message.from,
+      type: message.channel,
+      direction: 'inbound',
+      subject: message.subject || undefined,
+      summary: message.text || `${stored.length} attachment(s)`,
+      fullContent: message.text,
+      purpose: 'service_discussion',
+      metadata: { threadId: thread.id, threadMessageId: created.id, intent },
+    });
+
+    await this.notifyAssignee(target, created, message, intent);
+
+    // Replies steer nurture branches; STOP ends the sender's sequences
+    await nurtureService.recordReply(message.channel, message.from, intent);
+
+    return {
+      ...this.result(message, { duplicate: false }),
+      threadId: thread.id,
+      messageId: created.id,
+      matchedBy,
+      entityType: target.entityType,
+      entityId: target.entityId,
+      intent,
+      attachmentsStored: stored.length,
+      attachmentsSkipped: skipped,
+    };
+  }
+
+  // ============================================
+  // OPS INBOX
+  // ============================================
+
+  /**
+   * Threads with client replies, newest activity first, each with its
+   * latest message
+   */
+  async listInbox(filters: InboxFilters = {}) {
+    const conditions: SQL[] = [isNotNull(communicationThreads.lastInboundAt)];
+    if (filters.status !== 'all') {
+      conditions.push(eq(communicationThreads.awaitingResponse, true));
+    }
+    if (filters.channel && INBOUND_CHANNELS.includes(filters.channel as InboundChannel)) {
+      conditions.push(inArray(
+        communicationThreads.id,
+        db.select({ id: threadMessages.threadId }).from(threadMessages).where(eq(threadMessages.channel, filters.channel))
+      ));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(ilike(communicationThreads.subject, pattern), ilike(communicationThreads.contactAddress, pattern))!);
+    }
+
+    const limit = Math.min(filters.limit || 50, 200);
+    const [threads, [totals]] = await Promise.all([
+      db.select()
+        .from(communicationThreads)
+        .where(and(...conditions))
+        .orderBy(desc(communicationThreads.lastMessageAt))
+        .limit(limit)
+        .offset(filters.offset || 0),
+      db.select({
+        total: sql<number>`count(*)::int`,
+        awaiting: sql<number>`count(*) filter (where ${communicationThreads.awaitingResponse})::int`,
+      })
+        .from(communicationThreads)
+        .where(isNotNull(communicationThreads.lastInboundAt)),
+    ]);
+
+    const ids = threads.map(thread => thread.id);
+    const recent = ids.length > 0
+      ? await db.select().from(threadMessages).where(inArray(threadMessages.threadId, ids)).orderBy(desc(threadMessages.createdAt))
+      : [];
+    const latest = new Map<number, ThreadMessage>();
+    for (const message of recent) {
+      if (!latest.has(message.threadId)) latest.set(message.threadId, message);
+    }
+    const entityNames = await this.entityNames(threads.map(thread => thread.businessEntityId));
+
+    return {
+      threads: threads.map(thread => ({
+        ...thread,
+        businessEntityName: thread.businessEntityId ? entityNames.get(thread.businessEntityId) || null : null,
+        lastMessage: latest.get(thread.id) || null,
+      })),
+      counts: { total: Number(totals?.total || 0), awaiting: Number(totals?.awaiting || 0) },
+    };
+  }
+
+  async getThread(threadId: number) {
+    const thread = await this.loadThread(threadId);
+    const [messages, entityNames] = await Promise.all([
+      db.select().from(threadMessages).where(eq(threadMessages.threadId, threadId)).orderBy(threadMessages.createdAt),
+      this.entityNames([thread.businessEntityId]),
+    ]);
+    return {
+      ...thread,
+      businessEntityName: thread.businessEntityId ? entityNames.get(thread.businessEntityId) || null : null,
+      messages,
+    };
+  }
+
+  /**
+   * Internal note on a thread, never shown to the client
+   */
+  async addNote(threadId: number, authorId: number, content: unknown, options: { handled?: boolean } = {}): Promise<ThreadMessage> {
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new ValidationError('Note content is required');
+    }
+    await this.loadThread(threadId);
+
+    const [note] = await db.insert(threadMessages).values({
+      threadId,
+      senderId: authorId,
+      messageType: 'text',
+      content: content.trim(),
+      isInternal: true,
+      direction: 'internal',
+    }).returning();
+
+    await db.update(communicationThreads)
+      .set({
+        messageCount: sql`coalesce(${communicationThreads.messageCount}, 0) + 1`,
+        lastMessageAt: new Date(),
+        ...(options.handled ? { awaitingResponse: false } : {}),
+      })
+      .where(eq(communicationThreads.id, threadId));
+    return note;
+  }
+
+  /**
+   * Ops have dealt with the client's reply; it leaves the awaiting queue
+   */
+  async markHandled(threadId: number, userId: number): Promise<CommunicationThread> {
+    await this.loadThread(threadId);
+    await db.insert(threadMessages).values({
+      threadId,
+      senderId: userId,
+      messageType: 'system',
+      content: 'Marked as handled',
+      isInternal: true,
+      direction: 'internal',
+    });
+    const [updated] = await db.update(communicationThreads)
+      .set({ awaitingResponse: false })
+      .where(eq(communicationThreads.id, threadId))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Answer the client on the channel they last wrote from (or the one given),
+   * through the notification dispatcher. The provider message id is kept so
+   * their next reply threads back here.
+   */
+  async reply(threadId: number, authorId: number, input: { content: unknown; channel?: unknown }) {
+    if (typeof input.content !== 'string' || !input.content.trim()) {
+      throw new ValidationError('Reply content is required');
+    }
+    const thread = await this.loadThread(threadId);
+
+    const inbound = await db.select()
+      .from(threadMessages)
+      .where(and(eq(threadMessages.threadId, threadId), eq(threadMessages.direction, 'inbound')))
+      .orderBy(desc(threadMessages.createdAt));
+    const channel = (input.channel || inbound[0]?.channel) as InboundChannel | undefined;
+    if (!channel || !INBOUND_CHANNELS.includes(channel)) {
+      throw new ValidationError(`channel must be one of ${INBOUND_CHANNELS.join(', ')}`);
+    }
+    const address = inbound.find(message => message.channel === channel)?.senderAddress;
+    if (!address) {
+      throw new ValidationError(`The client has not written from ${channel} on this thread`);
+    }
+
+    const content = input.content.trim();
+    const result = await notificationDispatcher.deliver({
+      type: 'client_reply',
+      to: address,
+      channels: [channel],
+      subject: `Re: ${thread.subject || 'Your message'}`,
+      content,
+      referenceType: thread.entityType === 'contact' ? undefined : thread.entityType,
+      referenceId: thread.entityType === 'contact' ? undefined : thread.entityId,
+      idempotencyKey: `thread-reply-${threadId}-${crypto.createHash('sha256').update(`${authorId}|${content}|${Date.now()}`).digest('hex').slice(0, 16)}`,
+      respectPreferences: false, // an answer to the client's own message
+    });
+    const delivery = result.deliveries[0] || null;
+
+    const [message] = await db.insert(threadMessages).values({
+      threadId,
+      senderId: authorId,
+      messageType: 'text',
+      content,
+      isInternal: false,
+      channel,
+      direction: 'outbound',
+      senderAddress: address,
+      externalMessageId: delivery?.providerMessageId || null,
+      metadata: { deliveryId: delivery?.deliveryId || null, status: delivery?.status || 'failed', error: delivery?.error || null },
+    }).returning();
+
+    await db.update(communicationThreads)
+      .set({
+        messageCount: sql`coalesce(${communicationThreads.messageCount}, 0) + 1`,
+        lastMessageAt: new Date(),
+        awaitingResponse: false,
+      })
+      .where(eq(communicationThreads.id, threadId));
+
+    return { message, delivery };
+  }
+
+  /**
+   * Attach a contact thread (or a mis-threaded one) to a request or ticket
+   */
+  async linkThread(threadId: number, entityType: unknown, entityId: unknown): Promise<CommunicationThread> {
+    if (entityType !== 'service_request' && entityType !== 'support_ticket') {
+      throw new ValidationError('entityType must be service_request or support_ticket');
+    }
+    const id = Number(entityId);
+    if (!Number.isInteger(id) || id < 1) {
+      throw new ValidationError('entityId must be a positive integer');
+    }
+    await this.loadThread(threadId);
+
+    const target = await this.targetFor(entityType, id);
+    if (!target) {
+      throw new NotFoundError(entityType === 'service_request' ? 'Service request' : 'Support ticket');
+    }
+    const [updated] = await db.update(communicationThreads)
+      .set({
+        entityType: target.entityType,
+        entityId: target.entityId,
+        subject: target.label,
+        businessEntityId: target.businessEntityId,
+        participantIds: [target.clientUserId, target.assigneeId].filter((v): v is number => !!v),
+      })
+      .where(eq(communicationThreads.id, threadId))
+      .returning();
+    return updated;
+  }
+
+  // ============================================
+  // MATCHING
+  // ============================================
+
+  private async findSender(message: InboundMessage): Promise<Sender | null> {
+    const columns = { id: users.id, fullName: users.fullName, businessEntityId: users.businessEntityId };
+    if (message.channel === 'email') {
+      const [user] = await db.select(columns).from(users).where(sql`lower(${users.email}) = ${message.from}`).limit(1);
+      return user || null;
+    }
+    const key = phoneMatchKey(message.from);
+    if (!key) return null;
+    const [user] = await db.select(columns)
+      .from(users)
+      .where(sql`right(regexp_replace(coalesce(${users.phone}, ''), '[^0-9]', '', 'g'), 10) = ${key}`)
+      .limit(1);
+    return user || null;
+  }
+
+  private async resolveThread(
+    message: InboundMessage,
+    sender: Sender | null
+  ): Promise<{ thread: CommunicationThread; target: ThreadTarget; matchedBy: MatchSource }> {
+    // 1. Reference tokens
+    const tokens = extractReferenceTokens(message.subject, message.text);
+    if (tokens.serviceRequestIds.length > 0) {
+      const rows = await db.select({ id: serviceRequests.id, requestId: serviceRequests.requestId })
+        .from(serviceRequests)
+        .where(inArray(serviceRequests.requestId, tokens.serviceRequestIds));
+      const match = tokens.serviceRequestIds.map(token => rows.find(row => row.requestId === token)).find(Boolean);
+      const target = match ? await this.targetFor('service_request', match.id) : null;
+      if (target) return { thread: await this.findOrCreateThread(target, message), target, matchedBy: 'reference_token' };
+    }
+    if (tokens.ticketNumbers.length > 0) {
+      const rows = await db.select({ id: supportTickets.id, ticketNumber: supportTickets.ticketNumber })
+        .from(supportTickets)
+        .where(inArray(supportTickets.ticketNumber, tokens.ticketNumbers));
+      const match = tokens.ticketNumbers.map(token => rows.find(row => row.ticketNumber === token)).find(Boolean);
+      const target = match ? await this.targetFor('support_ticket', match.id) : null;
+      if (target) return { thread: await this.findOrCreateThread(target, message), target, matchedBy: 'reference_token' };
+    }
+
+    // 2. The outbound message being answered
+    const answered = [message.replyToMessageId, ...message.references].filter((id): id is string => !!id);
+    if (answered.length > 0) {
+      const [outbound] = await db.select({ threadId: threadMessages.threadId })
+        .from(threadMessages)
+        .where(and(inArray(threadMessages.externalMessageId, answered), eq(threadMessages.direction, 'outbound')))
+        .limit(1);
+      const thread = outbound ? await this.loadThread(outbound.threadId).catch(() => null) : null;
+      const target = thread ? await this.targetForThread(thread) : null;
+      if (thread && target) return { thread, target, matchedBy: 'reply_to' };
+
+      const [delivery] = await db.select({ referenceType: notificationDeliveries.referenceType, referenceId: notificationDeliveries.referenceId })
+        .from(notificationDeliveries)
+        .where(and(
+          inArray(notificationDeliveries.providerMessageId, answered),
+          inArray(notificationDeliveries.referenceType, ['service_request', 'support_ticket'])
+        ))
+        .limit(1);
+      const deliveryTarget = delivery?.referenceId
+        ? await this.targetFor(delivery.referenceType as 'service_request' | 'support_ticket', delivery.referenceId)
+        : null;
+      if (deliveryTarget) {
+        return { thread: await this.findOrCreateThread(deliveryTarget, message), target: deliveryTarget, matchedBy: 'reply_to' };
+      }
+    }
+
+    // 3. The sender's open conversation
+    const since = new Date(Date.now() - RECENT_THREAD_DAYS * 24 * 60 * 60 * 1000);
+    const [recent] = await db.select()
+      .from(communicationThreads)
+      .where(and(
+        eq(communicationThreads.contactAddress, message.from),
+        eq(communicationThreads.isClosed, false),
+        sql`${communicationThreads.lastMessageAt} >= ${since}`
+      ))
+      .orderBy(desc(communicationThreads.lastMessageAt))
+      .limit(1);
+    const recentTarget = recent ? await this.targetForThread(recent) : null;
+    if (recent && recentTarget) return { thread: recent, target: recentTarget, matchedBy: 'recent_thread' };
+
+    // 4. A contact thread for whoever wrote
+    const target: ThreadTarget = {
+      entityType: 'contact',
+      entityId: sender?.id || 0,
+      label: sender?.fullName || message.fromName || message.from,
+      businessEntityId: sender?.businessEntityId || null,
+      serviceRequestId: null,
+      clientUserId: sender?.id || null,
+      assigneeId: null,
+    };
+    return { thread: await this.findOrCreateThread(target, message), target, matchedBy: sender ? 'sender' : 'unmatched' };
+  }
+
+  private async targetFor(entityType: 'service_request' | 'support_ticket', id: number): Promise<ThreadTarget | null> {
+    if (entityType === 'service_request') {
+      const [sr] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, id));
+      if (!sr) return null;
+      return {
+        entityType,
+        entityId: sr.id,
+        label: [sr.requestId || `SR #${sr.id}`, sr.serviceType || sr.serviceId].filter(Boolean).join(' · '),
+        businessEntityId: sr.businessEntityId || sr.entityId || null,
+        serviceRequestId: sr.id,
+        clientUserId: sr.userId || null,
+        assigneeId: sr.assignedTeamMember || null,
+      };
+    }
+
+    const [ticket] = await db.select().from(supportTickets).where(eq(supportTickets.id, id));
+    if (!ticket) return null;
+    return {
+      entityType,
+      entityId: ticket.id,
+      label: `${ticket.ticketNumber} · ${ticket.subject}`,
+      businessEntityId: ticket.businessEntityId || null,
+      serviceRequestId: ticket.serviceRequestId || null,
+      clientUserId: ticket.clientId,
+      assigneeId: ticket.assignedTo || null,
+    };
+  }
+
+  private async targetForThread(thread: CommunicationThread): Promise<ThreadTarget | null> {
+    if (thread.entityType === 'service_request' || thread.entityType === 'support_ticket') {
+      return this.targetFor(thread.entityType, thread.entityId);
+    }
+    return {
+      entityType: 'contact',
+      entityId: thread.entityId,
+      label: thread.subject || thread.contactAddress || 'Unknown sender',
+      businessEntityId: thread.businessEntityId,
+      serviceRequestId: null,
+      clientUserId: thread.entityId || null,
+      assigneeId: null,
+    };
+  }
+
+  private async findOrCreateThread(target: ThreadTarget, message: InboundMessage): Promise<CommunicationThread> {
+    const [existing] = await db.select()
+      .from(communicationThreads)
+      .where(and(
+        eq(communicationThreads.entityType, target.entityType),
+        eq(communicationThreads.entityId, target.entityId),
+        eq(communicationThreads.isClosed, false),
+        ...(target.entityType === 'contact' ? [eq(communicationThreads.contactAddress, message.from)] : [])
+      ))
+      .orderBy(desc(communicationThreads.id))
+      .limit(1);
+    if (existing) return existing;
+
+    const [created] = await db.insert(communicationThreads).values({
+      entityType: target.entityType,
+      entityId: target.entityId,
+      subject: target.label,
+      participantIds: [target.clientUserId, target.assigneeId].filter((v): v is number => !!v),
+      businessEntityId: target.businessEntityId,
+      contactAddress: message.from,
+      messageCount: 0,
+    }).returning();
+    return created;
+  }
+
+  // ============================================
+  // ATTACHMENTS
+  // ============================================
+
+  /**
+   * Store each attachment; file it in the vault when the client is known
+   */
+  private async storeAttachments(
+    message: InboundMessage,
+    vaultTarget: ThreadTarget | null
+  ): Promise<{ stored: StoredAttachment[]; skipped: string[] }> {
+    const stored: StoredAttachment[] = [];
+    const skipped: string[] = [];
+
+    for (const attachment of message.attachments) {
+      if (!(attachment.mimeType in ALLOWED_FILE_TYPES)) {
+        skipped.push(`${attachment.fileName}: file type ${attachment.mimeType} is not accepted`);
+        continue;
+      }
+      try {
+        const buffer = await this.fetchAttachment(attachment);
+        if (buffer.length > MAX_FILE_SIZE) {
+          skipped.push(`${attachment.fileName}: larger than ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+          continue;
+        }
+
+        const file = {
+          buffer,
+          originalname: attachment.fileName,
+          mimetype: attachment.mimeType,
+          size: buffer.length,
+        } as Express.Multer.File;
+        const upload = await uploadToStorage(file, false, `inbound/${message.channel}`);
+
+        let documentVaultId: number | null = null;
+        if (vaultTarget?.clientUserId) {
+          const [document] = await db.insert(documentVault).values({
+            userId: vaultTarget.clientUserId,
+            businessEntityId: vaultTarget.businessEntityId,
+            serviceRequestId: vaultTarget.serviceRequestId,
+            documentType: VAULT_DOCUMENT_TYPE,
+            category: 'general',
+            fileName: upload.filename,
+            originalFileName: attachment.fileName,
+            fileSize: buffer.length,
+            mimeType: attachment.mimeType,
+            fileUrl: upload.path,
+            tags: ['inbound', message.channel],
+            accessLevel: 'private',
+            approvalStatus: 'pending',
+          }).returning();
+          documentVaultId = document.id;
+          documentSearchService.queueDocument('vault', document.id)
+            .catch(error => logger.warn(`Inbound attachment ${document.id} could not be queued for indexing:`, error));
+        }
+
+        stored.push({ name: attachment.fileName, url: upload.path, size: buffer.length, type: attachment.mimeType, documentVaultId });
+      } catch (error) {
+        logger.warn(`Inbound attachment ${attachment.fileName} could not be stored:`, error);
+        skipped.push(`${attachment.fileName}: ${error instanceof Error ? error.message : 'download failed'}`);
+      }
+    }
+    return { stored, skipped };
+  }
+
+  private async fetchAttachment(attachment: InboundAttachment): Promise<Buffer> {
+    if (attachment.contentBase64) {
+      return Buffer.from(attachment.contentBase64, 'base64');
+    }
+
+    if (attachment.mediaId) {
+      const token = process.env.WHATSAPP_ACCESS_TOKEN;
+      if (!token) throw new Error('WhatsApp media cannot be fetched without WHATSAPP_ACCESS_TOKEN');
+      const meta = await fetch(`https://graph.facebook.com/v18.0/${encodeURIComponent(attachment.mediaId)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!meta.ok) throw new Error(`media lookup returned ${meta.status}`);
+      const { url } = await meta.json() as { url?: string };
+      if (!url) throw new Error('media has no download url');
+      return this.download(url, { Authorization: `Bearer ${token}` });
+    }
+
+    if (attachment.url) {
+      const url = new URL(attachment.url);
+      if (url.protocol !== 'https:' && process.env.NODE_ENV === 'production') {
+        throw new Error('attachment url must use https');
+      }
+      const headers: Record<string, string> = {};
+      if (url.hostname.endsWith('twilio.com') && process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN) {
+        const credentials = Buffer.from(`${process.env.TWILIO_ACCOUNT_SID}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64');
+        headers.Authorization = `Basic ${credentials}`;
+      }
+      return this.download(url.toString(), headers);
+    }
+
+    throw new Error('attachment has no content');
+  }
+
+  private async download(url: string, headers: Record<string, string>): Promise<Buffer> {
+    const response = await fetch(url, { headers });
+    if (!response.ok) throw new Error(`download returned ${response.status}`);
+    const length = Number(response.headers.get('content-length') || 0);
+    if (length > MAX_FILE_SIZE) throw new Error(`larger than ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  /**
+   * In-app alert to whoever owns the request or ticket
+   */
+  private async notifyAssignee(target: ThreadTarget, message: ThreadMessage, inbound: InboundMessage, intent: ReplyIntent | null) {
+    if (!target.assigneeId) return;
+    try {
+      await notificationDispatcher.dispatch({
+        type: 'client_reply',
+        userId: target.assigneeId,
+        channels: ['in_app'],
+        priority: 'high',
+        subject: `Client replied on ${target.label}${intent ? ` (${intent.replace(/_/g, ' ')})` : ''}`,
+        content: inbound.text.slice(0, 280) || `${inbound.attachments.length} attachment(s) received`,
+        referenceType: target.entityType,
+        referenceId: target.entityId,
+        data: { threadId: message.threadId, threadMessageId: message.id, channel: inbound.channel },
+        idempotencyKey: `inbound-reply-${message.id}`,
+        respectPreferences: false,
+      });
+    } catch (error) {
+      logger.warn(`Could not notify user ${target.assigneeId} of inbound reply ${message.id}:`, error);
+    }
+  }
+
+  private async findByExternalId(channel: InboundChannel, externalId: string): Promise<boolean> {
+    const [existing] = await db.select({ id: threadMessages.id })
+      .from(threadMessages)
+      .where(and(eq(threadMessages.channel, channel), eq(threadMessages.externalMessageId, externalId)))
+      .limit(1);
+    return !!existing;
+  }
+
+  private async loadThread(threadId: number): Promise<CommunicationThread> {
+    const [thread] = await db.select().from(communicationThreads).where(eq(communicationThreads.id, threadId));
+    if (!thread) {
+      throw new NotFoundError('Communication thread');
+    }
+    return thread;
+  }
+
+  private async entityNames(ids: Array<number | null>): Promise<Map<number, string>> {
+    const unique = Array.from(new Set(ids.filter((id): id is number => !!id)));
+    if (unique.length === 0) return new Map();
+    const rows = await db.select({ id: businessEntities.id, name: businessEntities.name })
+      .from(businessEntities)
+      .where(inArray(businessEntities.id, unique));
+    return new Map(rows.map(row => [row.id, row.name]));
+  }
+
+  private result(message: InboundMessage, fields: { duplicate: boolean }): InboundResult {
+    return {
+      channel: message.channel,
+      externalId: message.externalId,
+      threadId: null,
+      messageId: null,
+      duplicate: fields.duplicate,
+      matchedBy: null,
+      entityType: null,
+      entityId: null,
+      intent: null,
+      attachmentsStored: 0,
+      attachmentsSkipped: [],
+    };
+  }
+}
+
+// Export singleton instance
+export const inboundCommunicationService = new InboundCommunicationService();
+export { InboundCommunicationService };
@@ -0,0 +1,358 @@
+/**
+ * Inbound Message Parser
+ *
+ * Normalizes client replies arriving on the inbound webhooks into one shape,
+ * whatever the provider:
+ * - WhatsApp: Meta Cloud API (entry[].changes[].value.messages[]) or Twilio
+ * - SMS: Twilio (MessageSid, From, Body, MediaUrlN)
+ * - Email: Postmark-style JSON (From, Subject, TextBody, Attachments[])
+ *
+ * Every endpoint also accepts the local stub format, which is what tests and
+ * local development post:
+ *   { from, to?, name?, subject?, text, messageId?, inReplyTo?, references?,
+ *     timestamp?, attachments?: [{ fileName, mimeType, contentBase64? | url? }] }
+ * or { messages: [...] } for several at once.
+ *
+ * Also finds the reference tokens (SR2600001, TKT26000001) a reply is about
+ * and what the client is telling us ("uploaded", "paid", ...).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+export type InboundChannel = 'whatsapp' | 'sms' | 'email';
+
+export type ReplyIntent =
+  | 'documents_uploaded'
+  | 'payment_made'
+  | 'callback_requested'
+  | 'opt_out'
+  | 'acknowledged';
+
+export interface InboundAttachment {
+  fileName: string;
+  mimeType: string;
+  size: number | null;
+  contentBase64: string | null;
+  url: string | null;
+  mediaId: string | null; // WhatsApp Cloud media, fetched from the Graph API
+}
+
+export interface InboundMessage {
+  channel: InboundChannel;
+  externalId: string | null; // provider message id, used to drop retries
+  from: string; // phone (digits, with country code) or lower-cased email
+  fromName: string | null;
+  to: string | null;
+  subject: string | null;
+  text: string;
+  receivedAt: Date;
+  replyToMessageId: string | null; // our outbound message being answered
+  references: string[]; // earlier message ids in an email conversation
+  attachments: InboundAttachment[];
+}
+
+export interface ReferenceTokens {
+  serviceRequestIds: string[];
+  ticketNumbers: string[];
+}
+
+export const INBOUND_CHANNELS: InboundChannel[] = ['whatsapp', 'sms', 'email'];
+
+const SERVICE_REQUEST_TOKEN = /\bSR\d{5,}\b/gi;
+const TICKET_TOKEN = /\b(?:TKT\d{6,}|T\d{5})\b/gi;
+
+const INTENT_PATTERNS: Array<[ReplyIntent, RegExp]> = [
+  ['opt_out', /^\s*(stop|unsubscribe|stop all)\s*[.!]*\s*$/i],
+  ['documents_uploaded', /\b(uploaded|upload(ed)? (is )?done|(sent|shared|attached) (the )?(docs?|documents?|files?))\b/i],
+  ['payment_made', /\b(paid|payment (is )?(done|made|completed|sent)|transferred)\b/i],
+  ['callback_requested', /\b(call me|call back|callback|please call)\b/i],
+  ['acknowledged', /^\s*(ok|okay|noted|done|thanks|thank you|received|sure)\b/i],
+];
+
+// ============================================
+// PROVIDER PAYLOADS
+// ============================================
+
+/**
+ * Messages in a webhook body for a channel. Status callbacks and other
+ * non-message events yield nothing.
+ */
+export function parseInboundPayload(channel: InboundChannel, body: any, now: Date = new Date()): InboundMessage[] {
+  if (!body || typeof body !== 'object') return [];
+
+  if (Array.isArray(body.messages) && !body.object) {
+    return body.messages.flatMap((message: any) => parseStubMessage(channel, message, now));
+  }
+  if (channel === 'whatsapp' && body.object === 'whatsapp_business_account') {
+    return parseMetaWhatsApp(body, now);
+  }
+  if (typeof body.MessageSid === 'string' || typeof body.SmsMessageSid === 'string') {
+    return parseTwilio(channel, body, now);
+  }
+  if (channel === 'email' && (body.From || body.TextBody || body.HtmlBody)) {
+    return parsePostmarkEmail(body, now);
+  }
+  return parseStubMessage(channel, body, now);
+}
+
+function parseStubMessage(channel: InboundChannel, message: any, now: Date): InboundMessage[] {
+  const from = normalizeAddress(channel, message?.from);
+  if (!from) return [];
+
+  const text = typeof message.text === 'string' ? message.text : '';
+  const attachments = Array.isArray(message.attachments)
+    ? message.attachments.map((a: any) => attachment(a?.fileName, a?.mimeType, {
+      size: typeof a?.size === 'number' ? a.size : null,
+      contentBase64: typeof a?.contentBase64 === 'string' ? a.contentBase64 : null,
+      url: typeof a?.url === 'string' ? a.url : null,
+    }))
+    : [];
+
+  return [{
+    channel,
+    externalId: stringOrNull(message.messageId),
+    from,
+    fromName: stringOrNull(message.name),
+    to: stringOrNull(message.to),
+    subject: stringOrNull(message.subject),
+    text: channel === 'email' ? stripQuotedReply(text) : text.trim(),
+    receivedAt: parseTimestamp(message.timestamp) || now,
+    replyToMessageId: stringOrNull(message.inReplyTo),
+    references: Array.isArray(message.references) ? message.references.filter((r: unknown) => typeof r === 'string') : [],
+    attachments,
+  }];
+}
+
+function parseMetaWhatsApp(body: any, now: Date): InboundMessage[] {
+  const messages: InboundMessage[] = [];
+  for (const entry of body.entry || []) {
+    for (const change of entry?.changes || []) {
+      const value = change?.value || {};
+      const names = new Map<string, string>(
+        (value.contacts || []).map((c: any) => [String(c?.wa_id), c?.profile?.name])
+      );
+
+      for (const message of value.messages || []) {
+        const from = normalizeAddress('whatsapp', message?.from);
+        if (!from) continue;
+
+        const media = message[message.type];
+        const hasMedia = ['image', 'document', 'audio', 'video'].includes(message.type) && media?.id;
+        const text = message.type === 'text' ? message.text?.body
+          : message.type === 'button' ? message.button?.text
+            : message.type === 'interactive' ? (message.interactive?.button_reply?.title || message.interactive?.list_reply?.title)
+              : media?.caption;
+
+        messages.push({
+          channel: 'whatsapp',
+          externalId: stringOrNull(message.id),
+          from,
+          fromName: names.get(String(message.from)) || null,
+          to: stringOrNull(value.metadata?.display_phone_number),
+          subject: null,
+          text: typeof text === 'string' ? text.trim() : '',
+          receivedAt: parseTimestamp(message.timestamp) || now,
+          replyToMessageId: stringOrNull(message.context?.id),
+          references: [],
+          attachments: hasMedia
+            ? [attachment(media.filename || `${message.type}-${media.id}`, media.mime_type, { mediaId: String(media.id) })]
+            : [],
+        });
+      }
+    }
+  }
+  return messages;
+}
+
+function parseTwilio(channel: InboundChannel, body: any, now: Date): InboundMessage[] {
+  const from = normalizeAddress(channel, body.From);
+  if (!from) return [];
+
+  const attachments: InboundAttachment[] = [];
+  const mediaCount = parseInt(body.NumMedia || '0') || 0;
+  for (let i = 0; i < mediaCount; i++) {
+    const url = body[`MediaUrl${i}`];
+    if (typeof url !== 'string') continue;
+    const mimeType = body[`MediaContentType${i}`];
+    attachments.push(attachment(`attachment-${i + 1}${extensionFor(mimeType)}`, mimeType, { url }));
+  }
+
+  return [{
+    channel,
+    externalId: stringOrNull(body.MessageSid || body.SmsMessageSid),
+    from,
+    fromName: stringOrNull(body.ProfileName),
+    to: stringOrNull(body.To),
+    subject: null,
+    text: typeof body.Body === 'string' ? body.Body.trim() : '',
+    receivedAt: now,
+    replyToMessageId: stringOrNull(body.OriginalRepliedMessageSid),
+    references: [],
+    attachments,
+  }];
+}
+
+function parsePostmarkEmail(body: any, now: Date): InboundMessage[] {
+  const from = normalizeAddress('email', body.FromFull?.Email || body.From);
+  if (!from) return [];
+
+  const headers = new Map<string, string>(
+    (Array.isArray(body.Headers) ? body.Headers : []).map((h: any) => [String(h?.Name).toLowerCase(), String(h?.Value)])
+  );
+  const text = typeof body.StrippedTextReply === 'string' && body.StrippedTextReply.trim()
+    ? body.StrippedTextReply
+    : stripQuotedReply(typeof body.TextBody === 'string' ? body.TextBody : stripHtml(body.HtmlBody || ''));
+
+  return [{
+    channel: 'email',
+    externalId: stringOrNull(body.MessageID),
+    from,
+    fromName: stringOrNull(body.FromName || body.FromFull?.Name),
+    to: stringOrNull(body.OriginalRecipient || body.To),
+    subject: stringOrNull(body.Subject),
+    text: text.trim(),
+    receivedAt: parseTimestamp(body.Date) || now,
+    replyToMessageId: messageIds(headers.get('in-reply-to'))[0] || null,
+    references: messageIds(headers.get('references')),
+    attachments: (Array.isArray(body.Attachments) ? body.Attachments : []).map((a: any) =>
+      attachment(a?.Name, a?.ContentType, {
+        size: typeof a?.ContentLength === 'number' ? a.ContentLength : null,
+        contentBase64: typeof a?.Content === 'string' ? a.Content : null,
+      })
+    ),
+  }];
+}
+
+// ============================================
+// CONTENT
+// ============================================
+
+/**
+ * Service request ids and ticket numbers mentioned in a reply, upper-cased
+ * and in order of appearance
+ */
+export function extractReferenceTokens(...texts: Array<string | null | undefined>): ReferenceTokens {
+  const joined = texts.filter(Boolean).join('\n');
+  const unique = (matches: RegExpMatchArray | null) =>
+    Array.from(new Set((matches || []).map(token => token.toUpperCase())));
+  return {
+    serviceRequestIds: unique(joined.match(SERVICE_REQUEST_TOKEN)),
+    ticketNumbers: unique(joined.match(TICKET_TOKEN)),
+  };
+}
+
+/**
+ * What a short reply is telling us, if anything recognisable. Attachments
+ * on their own count as documents uploaded.
+ */
+export function detectReplyIntent(text: string, attachmentCount: number = 0): ReplyIntent | null {
+  const firstLine = text.split('\n').find(line => line.trim()) || '';
+  for (const [intent, pattern] of INTENT_PATTERNS) {
+    if (pattern.test(intent === 'acknowledged' || intent === 'opt_out' ? firstLine : text)) {
+      return intent;
+    }
+  }
+  return attachmentCount > 0 ? 'documents_uploaded' : null;
+}
+
+/**
+ * The new part of an email reply: drops quoted lines and everything from the
+ * "On ... wrote:" / "Original Message" marker down
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+  for (const line of lines) {
+    if (/^\s*On\b.*\bwrote:\s*$/i.test(line)) break;
+    if (/^\s*-{2,}\s*(Original Message|Forwarded message)\s*-{2,}/i.test(line)) break;
+    if (/^\s*From:\s.+/i.test(line) && kept.length > 0 && kept[kept.length - 1].trim() === '') break;
+    if (/^\s*>/.test(line)) continue;
+    kept.push(line);
+  }
+  return kept.join('\n').trim();
+}
+
+/**
+ * Phone numbers become digits with a country code (91 assumed for 10-digit
+ * Indian numbers); emails are lower-cased with any display name removed
+ */
+export function normalizeAddress(channel: InboundChannel, value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  if (channel === 'email') {
+    const match = value.match(/<([^>]+)>/);
+    const email = (match ? match[1] : value).trim().toLowerCase();
+    return /^[^\s@]+@[^\s@]+$/.test(email) ? email : null;
+  }
+
+  let digits = value.replace(/^whatsapp:/i, '').replace(/\D/g, '');
+  if (digits.length === 10) digits = `91${digits}`;
+  return digits.length >= 8 ? digits : null;
+}
+
+/**
+ * Last ten digits, for matching a sender against the differently formatted
+ * phone numbers stored on users and businesses
+ */
+export function phoneMatchKey(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function attachment(
+  fileName: unknown,
+  mimeType: unknown,
+  source: Partial<Pick<InboundAttachment, 'size' | 'contentBase64' | 'url' | 'mediaId'>>
+): InboundAttachment {
+  const type = typeof mimeType === 'string' && mimeType ? mimeType.split(';')[0].trim() : 'application/octet-stream';
+  return {
+    fileName: typeof fileName === 'string' && fileName.trim() ? fileName.trim() : `attachment${extensionFor(type)}`,
+    mimeType: type,
+    size: source.size ?? null,
+    contentBase64: source.contentBase64 ?? null,
+    url: source.url ?? null,
+    mediaId: source.mediaId ?? null,
+  };
+}
+
+function extensionFor(mimeType: unknown): string {
+  const extensions: Record<string, string> = {
+    'application/pdf': '.pdf',
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/gif': '.gif',
+  };
+  return typeof mimeType === 'string' ? extensions[mimeType] || '' : '';
+}
+
+function messageIds(header: string | undefined): string[] {
+  return (header || '').match(/<[^>]+>/g)?.map(id => id.slice(1, -1)) || [];
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+    const seconds = Number(value);
+    return new Date(seconds > 1e12 ? seconds : seconds * 1000);
+  }
+  if (typeof value === 'string' && value) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div)\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ');
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
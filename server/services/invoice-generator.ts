@@ -8,6 +8,10 @@
 import { db } from '../db';
 import { payments, serviceRequests, businessEntities, users } from '@shared/schema';
 import { eq } from 'drizzle-orm';
+import { ledgerService } from './ledger-service';
+import { gstLedgerService } from './gst-ledger-service';
+import { GST_RATES } from './gst-return-builder';
+import { logger } from '../logger';
 
 // Company details from environment variables with sensible fallbacks
 const COMPANY_INFO = {
@@ -586,7 +590,11 @@ export async function persistInvoice(data: InvoiceData, createdBy: number): Prom
     createdBy,
   }).onConflictDoNothing().returning();
 
-  if (result.length > 0) return result[0].id;
+  if (result.length > 0) {
+    await postInvoiceToLedger(data, result[0].id, createdBy);
+    await recordInvoiceGst(data, result[0].id);
+    return result[0].id;
+  }
 
   // If conflict (already exists), look up the existing record
   const [existing] = await db.select({ id: invoices.id }).from(invoices)
@@ -594,6 +602,69 @@ export async function persistInvoice(data: InvoiceData, createdBy: number): Prom
   return existing.id;
 }
 
+/**
+ * Book a newly persisted invoice (and its receipt, if already paid) in the general ledger.
+ * Ledger failures are logged and never block invoicing.
+ */
+async function postInvoiceToLedger(data: InvoiceData, invoiceId: number, createdBy: number): Promise<void> {
+  try {
+    await ledgerService.postInvoice({
+      id: invoiceId,
+      invoiceNumber: data.invoiceNumber,
+      invoiceDate: data.invoiceDate,
+      subtotal: data.subtotal,
+      cgst: data.cgst,
+      sgst: data.sgst,
+      igst: data.igst,
+      total: data.total,
+      clientName: data.client.companyName,
+    }, { postedBy: createdBy || null });
+
+    if (data.payment.paymentStatus === 'completed') {
+      await ledgerService.postPaymentReceipt({
+        gatewayPaymentId: data.payment.transactionId || `PAY-${data.payment.id}`,
+        amount: data.total,
+        reference: data.payment.transactionId || `PAY-${data.payment.id}`,
+        referenceId: data.payment.id,
+        receivedAt: data.payment.paidAt || data.invoiceDate,
+      }, { postedBy: createdBy || null });
+    }
+  } catch (error) {
+    logger.error(`Failed to post invoice ${data.invoiceNumber} to ledger:`, error);
+  }
+}
+
+/**
+ * Write GST output rows for a newly persisted invoice.
+ * Tax ledger failures are logged and never block invoicing.
+ */
+async function recordInvoiceGst(data: InvoiceData, invoiceId: number): Promise<void> {
+  try {
+    const tax = data.cgst + data.sgst + data.igst;
+    const effectiveRate = data.subtotal > 0 ? (tax / data.subtotal) * 100 : 0;
+    const rate = GST_RATES.reduce((closest, slab) =>
+      Math.abs(slab - effectiveRate) < Math.abs(closest - effectiveRate) ? slab : closest
+    );
+
+    await gstLedgerService.recordOutwardInvoice({
+      invoiceId,
+      invoiceNumber: data.invoiceNumber,
+      invoiceDate: data.invoiceDate,
+      clientName: data.client.companyName,
+      clientGstin: data.client.gstin,
+      clientState: data.client.state,
+      lines: data.lineItems.map((item) => ({
+        hsn: item.hsn,
+        description: item.description,
+        taxableValue: item.amount,
+        rate,
+      })),
+    });
+  } catch (error) {
+    logger.error(`Failed to record GST for invoice ${data.invoiceNumber}:`, error);
+  }
+}
+
 // Helper functions
 function formatDate(date: Date | string): string {
   const d = new Date(date);
@@ -1,12 +1,15 @@
 /**
  * Lead Assignment Service
  *
- * Handles intelligent lead assignment with skill matching and workload balancing
+ * Handles intelligent lead assignment with skill matching and workload balancing.
+ * When the lead falls in a sales territory, only the reps covering it are
+ * considered, unless none of them is available.
  */
 import { db } from '../db';
 import { eq, and, desc, sql, inArray, isNull, or } from 'drizzle-orm';
 import { users, leads, operationsTeam } from '@shared/schema';
 import { logger } from '../logger';
+import { territoryQuotaService } from './territory-quota-service';
 
 // Types
 interface AssignmentCandidate {
@@ -26,6 +29,8 @@ interface AssignmentResult {
   assignedTo?: number;
   assignedToName?: string;
   matchScore?: number;
+  territoryId?: number;
+  territoryName?: string;
   reason?: string;
 }
 
@@ -72,11 +77,22 @@ class LeadAssignmentService {
       }
 
       // Get available sales executives
-      const candidates = await this.getAvailableCandidates(
+      let candidates = await this.getAvailableCandidates(
         options?.serviceCategory || lead.serviceInterested || undefined,
         rules
       );
 
+      // Narrow to the lead's territory when any of its reps is available
+      const territoryMatch = await territoryQuotaService.territoryFor(lead);
+      if (territoryMatch) {
+        const covering = candidates.filter((c) => territoryMatch.memberIds.includes(c.userId));
+        if (covering.length > 0) {
+          candidates = covering;
+        } else {
+          logger.info(`No available rep in territory ${territoryMatch.territory.name} for lead ${lead.leadId}; assigning from all executives`);
+        }
+      }
+
       if (candidates.length === 0) {
         return { success: false, reason: 'No available executives found' };
       }
@@ -111,13 +127,17 @@ class LeadAssignmentService {
       // Update workload
       await this.incrementWorkload(bestCandidate.userId);
 
-      logger.info(`Lead ${lead.leadId} auto-assigned to ${bestCandidate.fullName} (score: ${bestCandidate.matchScore})`);
+      const territory = territoryMatch?.memberIds.includes(bestCandidate.userId) ? territoryMatch.territory : undefined;
+
+      logger.info(`Lead ${lead.leadId} auto-assigned to ${bestCandidate.fullName} (score: ${bestCandidate.matchScore}${territory ? `, territory: ${territory.name}` : ''})`);
 
       return {
         success: true,
         assignedTo: bestCandidate.userId,
         assignedToName: bestCandidate.fullName,
         matchScore: bestCandidate.matchScore,
+        territoryId: territory?.id,
+        territoryName: territory?.name,
       };
 
     } catch (error: any) {
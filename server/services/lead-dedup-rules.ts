@@ -0,0 +1,395 @@
+/**
+ * Lead Deduplication Rules
+ *
+ * How two leads are compared: phones and emails are normalised before
+ * matching, PAN and GSTIN match outright (a GSTIN carries its PAN), a shared
+ * corporate email domain counts for a little and company names are compared
+ * after their legal suffixes are dropped. Each matching signal has a weight;
+ * the pair's score is the chance that at least one of them is right.
+ *
+ * Also how a duplicate is folded into the lead that survives it.
+ */
+
+export type DuplicateSignal = 'gstin' | 'pan' | 'phone' | 'email' | 'company_name' | 'email_domain';
+
+export interface DedupLead {
+  id?: number;
+  clientName: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  directorEmail?: string | null;
+  directorPhone?: string | null;
+  pan?: string | null;
+  gstin?: string | null;
+}
+
+export interface DuplicateReason {
+  signal: DuplicateSignal;
+  detail: string;
+  weight: number;
+}
+
+export interface DuplicateScore {
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicatePair extends DuplicateScore {
+  leadId: number;
+  duplicateLeadId: number;
+}
+
+// 'likely' blocks a create unless overridden; 'possible' is flagged for review
+export const DUPLICATE_THRESHOLDS = { likely: 0.85, possible: 0.6 };
+
+const SIGNAL_WEIGHTS: Record<Exclude<DuplicateSignal, 'company_name'>, number> = {
+  gstin: 0.99,
+  pan: 0.97,
+  phone: 0.9,
+  email: 0.9,
+  email_domain: 0.35,
+};
+
+// Names at or above this similarity count, from 0.5 up to 0.8 for an exact match
+const NAME_SIMILARITY_FLOOR = 0.8;
+
+// Blocks larger than this (a shared domain, a common first word) are skipped in scans
+const MAX_BLOCK_SIZE = 500;
+
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.in', 'ymail.com', 'rediffmail.com',
+  'hotmail.com', 'outlook.com', 'live.com', 'msn.com', 'icloud.com', 'me.com',
+  'aol.com', 'protonmail.com', 'proton.me', 'zoho.com', 'zohomail.in',
+]);
+
+const LEGAL_SUFFIXES = new Set([
+  'private', 'pvt', 'pvtltd', 'limited', 'ltd', 'llp', 'opc', 'inc', 'co', 'company',
+  'corp', 'corporation', 'the', 'ms', 'firm', 'enterprises',
+]);
+
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][0-9A-Z]{3}$/;
+
+/**
+ * The ten-digit subscriber number, without +91, a trunk 0 or formatting
+ */
+export function normalizePhone(raw: string | null | undefined): string | null {
+  const digits = (raw || '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+/**
+ * Lowercased, and for Gmail without dots or +tags in the mailbox
+ */
+export function normalizeEmail(raw: string | null | undefined): string | null {
+  const email = (raw || '').trim().toLowerCase();
+  const at = email.lastIndexOf('@');
+  if (at < 1 || at === email.length - 1) return null;
+
+  let local = email.slice(0, at);
+  const domain = email.slice(at + 1);
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    local = local.split('+')[0].replace(/\./g, '');
+    return `${local}@gmail.com`;
+  }
+  return `${local}@${domain}`;
+}
+
+/**
+ * The domain of a company email; null for free mail, where it says nothing
+ */
+export function corporateDomain(email: string | null | undefined): string | null {
+  const normalized = normalizeEmail(email);
+  if (!normalized) return null;
+  const domain = normalized.slice(normalized.lastIndexOf('@') + 1);
+  return FREE_MAIL_DOMAINS.has(domain) ? null : domain;
+}
+
+export function normalizePan(raw: string | null | undefined): string | null {
+  const pan = (raw || '').replace(/\s/g, '').toUpperCase();
+  return PAN_PATTERN.test(pan) ? pan : null;
+}
+
+export function normalizeGstin(raw: string | null | undefined): string | null {
+  const gstin = (raw || '').replace(/\s/g, '').toUpperCase();
+  return GSTIN_PATTERN.test(gstin) ? gstin : null;
+}
+
+/**
+ * Lowercased words of a company name without punctuation or legal suffixes
+ */
+export function normalizeCompanyName(raw: string | null | undefined): string {
+  return (raw || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/m\/s\.?/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !LEGAL_SUFFIXES.has(word))
+    .join(' ');
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    grams.push(compact.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalised names, 0-1
+ */
+export function companyNameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeCompanyName(a);
+  const right = normalizeCompanyName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftGrams.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+  let shared = 0;
+  rightGrams.forEach(gram => {
+    const available = counts.get(gram) || 0;
+    if (available > 0) {
+      shared++;
+      counts.set(gram, available - 1);
+    }
+  });
+  return (2 * shared) / (leftGrams.length + rightGrams.length);
+}
+
+interface Fingerprint {
+  phones: string[];
+  emails: string[];
+  domains: string[];
+  pans: string[];
+  gstins: string[];
+}
+
+function fingerprint(lead: DedupLead): Fingerprint {
+  const present = (values: Array<string | null>) => Array.from(new Set(values.filter((value): value is string => !!value)));
+  const gstin = normalizeGstin(lead.gstin);
+  return {
+    phones: present([normalizePhone(lead.contactPhone), normalizePhone(lead.directorPhone)]),
+    emails: present([normalizeEmail(lead.contactEmail), normalizeEmail(lead.directorEmail)]),
+    domains: present([corporateDomain(lead.contactEmail), corporateDomain(lead.directorEmail)]),
+    pans: present([normalizePan(lead.pan), gstin ? gstin.slice(2, 12) : null]),
+    gstins: present([gstin]),
+  };
+}
+
+const shared = (a: string[], b: string[]) => a.find(value => b.includes(value));
+
+/**
+ * How likely two leads are the same prospect, with the signals that matched
+ */
+export function scoreDuplicate(a: DedupLead, b: DedupLead): DuplicateScore {
+  const left = fingerprint(a);
+  const right = fingerprint(b);
+  const reasons: DuplicateReason[] = [];
+
+  const gstin = shared(left.gstins, right.gstins);
+  const pan = shared(left.pans, right.pans);
+  if (gstin) {
+    reasons.push({ signal: 'gstin', detail: gstin, weight: SIGNAL_WEIGHTS.gstin });
+  } else if (pan) {
+    reasons.push({ signal: 'pan', detail: pan, weight: SIGNAL_WEIGHTS.pan });
+  }
+
+  const phone = shared(left.phones, right.phones);
+  if (phone) reasons.push({ signal: 'phone', detail: phone, weight: SIGNAL_WEIGHTS.phone });
+
+  const email = shared(left.emails, right.emails);
+  if (email) {
+    reasons.push({ signal: 'email', detail: email, weight: SIGNAL_WEIGHTS.email });
+  } else {
+    const domain = shared(left.domains, right.domains);
+    if (domain) reasons.push({ signal: 'email_domain', detail: domain, weight: SIGNAL_WEIGHTS.email_domain });
+  }
+
+  const similarity = companyNameSimilarity(a.clientName, b.clientName);
+  if (similarity >= NAME_SIMILARITY_FLOOR) {
+    const weight = 0.5 + ((similarity - NAME_SIMILARITY_FLOOR) / (1 - NAME_SIMILARITY_FLOOR)) * 0.3;
+    reasons.push({
+      signal: 'company_name',
+      detail: `${Math.round(similarity * 100)}% similar`,
+      weight: Math.round(weight * 1000) / 1000,
+    });
+  }
+
+  const miss = reasons.reduce((product, reason) => product * (1 - reason.weight), 1);
+  return { score: Math.round((1 - miss) * 1000) / 1000, reasons };
+}
+
+export function classifyScore(score: number): 'likely' | 'possible' | null {
+  if (score >= DUPLICATE_THRESHOLDS.likely) return 'likely';
+  if (score >= DUPLICATE_THRESHOLDS.possible) return 'possible';
+  return null;
+}
+
+/**
+ * Candidates that score as at least possible duplicates, best first
+ */
+export function rankDuplicates<T extends DedupLead>(lead: DedupLead, candidates: T[]): Array<{ lead: T } & DuplicateScore> {
+  return candidates
+    .filter(candidate => candidate.id === undefined || candidate.id !== lead.id)
+    .map(candidate => ({ lead: candidate, ...scoreDuplicate(lead, candidate) }))
+    .filter(match => match.score >= DUPLICATE_THRESHOLDS.possible)
+    .sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Keys that any likely pair shares at least one of, so a scan only
+ * compares leads within the same block
+ */
+export function blockingKeys(lead: DedupLead): string[] {
+  const print = fingerprint(lead);
+  const name = normalizeCompanyName(lead.clientName);
+  const keys = [
+    ...print.phones.map(phone => `phone:${phone}`),
+    ...print.emails.map(email => `email:${email}`),
+    ...print.pans.map(pan => `pan:${pan}`),
+    ...print.domains.map(domain => `domain:${domain}`),
+  ];
+  if (name) keys.push(`name:${name.replace(/ /g, '').slice(0, 5)}`);
+  return keys;
+}
+
+/**
+ * Every possible duplicate pair among the leads, lower id first
+ */
+export function findDuplicatePairs(leads: Array<DedupLead & { id: number }>): DuplicatePair[] {
+  const blocks = new Map<string, Array<DedupLead & { id: number }>>();
+  for (const lead of leads) {
+    for (const key of blockingKeys(lead)) {
+      const block = blocks.get(key);
+      if (block) {
+        block.push(lead);
+      } else {
+        blocks.set(key, [lead]);
+      }
+    }
+  }
+
+  const pairs = new Map<string, DuplicatePair>();
+  Array.from(blocks.values()).forEach(block => {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) return;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [low, high] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const key = `${low.id}:${high.id}`;
+        if (low.id === high.id || pairs.has(key)) continue;
+
+        const result = scoreDuplicate(low, high);
+        if (result.score >= DUPLICATE_THRESHOLDS.possible) {
+          pairs.set(key, { leadId: low.id, duplicateLeadId: high.id, ...result });
+        }
+      }
+    }
+  });
+
+  return Array.from(pairs.values()).sort((x, y) => y.score - x.score);
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+export interface MergeableLead {
+  id: number;
+  leadId: string;
+  contactEmail: string | null;
+  directorName: string | null;
+  directorEmail: string | null;
+  directorPhone: string | null;
+  state: string | null;
+  entityType: string | null;
+  pan: string | null;
+  gstin: string | null;
+  agentId: number | null;
+  assignedTo: number | null;
+  requiredServices: unknown;
+  estimatedValue: string | null;
+  lastContactDate: Date | null;
+  nextFollowupDate: Date | null;
+  notes: string | null;
+  interactionHistory: unknown;
+}
+
+// Survivor fields that are filled from the duplicate when the survivor has none
+const FILLABLE_FIELDS = [
+  'contactEmail', 'directorName', 'directorEmail', 'directorPhone', 'state',
+  'entityType', 'pan', 'gstin', 'agentId', 'assignedTo',
+] as const;
+
+type HistoryEntry = Record<string, unknown> & { date?: string };
+
+/**
+ * Survivor updates that take in what the duplicate knew: empty fields
+ * filled, services and interaction history combined, the later contact
+ * and the sooner follow-up kept. Returns the fields taken for the audit trail.
+ */
+export function mergeLeadFields(
+  survivor: MergeableLead,
+  duplicate: MergeableLead,
+  mergedAt: Date
+): { updates: Partial<MergeableLead>; fieldsTaken: string[] } {
+  const updates: Partial<MergeableLead> = {};
+  const fieldsTaken: string[] = [];
+
+  for (const field of FILLABLE_FIELDS) {
+    if ((survivor[field] === null || survivor[field] === '') && duplicate[field] !== null && duplicate[field] !== '') {
+      (updates as Record<string, unknown>)[field] = duplicate[field];
+      fieldsTaken.push(field);
+    }
+  }
+
+  const services = (value: unknown) => (Array.isArray(value) ? value as unknown[] : []);
+  const combinedServices = Array.from(new Set([...services(survivor.requiredServices), ...services(duplicate.requiredServices)]));
+  if (combinedServices.length > services(survivor.requiredServices).length) {
+    updates.requiredServices = combinedServices;
+    fieldsTaken.push('requiredServices');
+  }
+
+  const survivorValue = survivor.estimatedValue ? parseFloat(survivor.estimatedValue) : 0;
+  const duplicateValue = duplicate.estimatedValue ? parseFloat(duplicate.estimatedValue) : 0;
+  if (duplicateValue > survivorValue) {
+    updates.estimatedValue = duplicate.estimatedValue;
+    fieldsTaken.push('estimatedValue');
+  }
+
+  if (duplicate.lastContactDate && (!survivor.lastContactDate || duplicate.lastContactDate > survivor.lastContactDate)) {
+    updates.lastContactDate = duplicate.lastContactDate;
+    fieldsTaken.push('lastContactDate');
+  }
+  if (duplicate.nextFollowupDate && duplicate.nextFollowupDate > mergedAt
+      && (!survivor.nextFollowupDate || survivor.nextFollowupDate < mergedAt || duplicate.nextFollowupDate < survivor.nextFollowupDate)) {
+    updates.nextFollowupDate = duplicate.nextFollowupDate;
+    fieldsTaken.push('nextFollowupDate');
+  }
+
+  if (duplicate.notes?.trim()) {
+    updates.notes = [survivor.notes, `[From ${duplicate.leadId}] ${duplicate.notes.trim()}`].filter(Boolean).join('\n');
+    fieldsTaken.push('notes');
+  }
+
+  const history = (value: unknown) => (Array.isArray(value) ? value as HistoryEntry[] : []);
+  updates.interactionHistory = [
+    ...history(survivor.interactionHistory),
+    ...history(duplicate.interactionHistory).map(entry => ({ ...entry, mergedFrom: duplicate.leadId })),
+  ]
+    .sort((x, y) => new Date(x.date || 0).getTime() - new Date(y.date || 0).getTime())
+    .concat({
+      date: mergedAt.toISOString(),
+      type: 'merged',
+      notes: `Merged duplicate lead ${duplicate.leadId}`,
+    });
+
+  return { updates, fieldsTaken };
+}
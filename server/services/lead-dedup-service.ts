@@ -0,0 +1,424 @@
+/**
+ * Lead Deduplication Service
+ *
+ * Finds leads that are likely the same prospect when they are created or
+ * imported, records suspected pairs for review, merges duplicates into a
+ * surviving lead with everything attached to them, and scans the whole
+ * book periodically for pairs the create-time checks missed.
+ */
+import { db } from '../db';
+import { and, desc, eq, gte, inArray, isNull, or, sql, type SQL } from 'drizzle-orm';
+import {
+  auditLogs,
+  businessEntities,
+  commissionRecords,
+  commissions,
+  conversionAttributions,
+  leadAutomation,
+  leadDuplicatePairs,
+  leadMerges,
+  leadTouchpoints,
+  leads,
+  notifications,
+  payments,
+  referrals,
+  salesProposals,
+  serviceRequests,
+  users,
+  type Lead,
+  type LeadDuplicatePair,
+  type LeadMerge,
+} from '@shared/schema';
+import { leadScores } from '@shared/enterprise-schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { logger } from '../logger';
+import {
+  DUPLICATE_THRESHOLDS,
+  classifyScore,
+  corporateDomain,
+  findDuplicatePairs,
+  mergeLeadFields,
+  normalizeCompanyName,
+  normalizeEmail,
+  normalizeGstin,
+  normalizePan,
+  normalizePhone,
+  rankDuplicates,
+  type DedupLead,
+  type DuplicateReason,
+} from './lead-dedup-rules';
+
+export type DetectionSource = 'create' | 'import' | 'agent_portal' | 'referral' | 'scan';
+
+export interface DuplicateMatch {
+  leadId: number;
+  leadCode: string;
+  clientName: string;
+  contactPhone: string;
+  contactEmail: string | null;
+  assignedTo: number | null;
+  agentId: number | null;
+  stage: string | null;
+  score: number;
+  confidence: 'likely' | 'possible';
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateCheck {
+  likely: DuplicateMatch[];
+  possible: DuplicateMatch[];
+}
+
+export interface MergeResult {
+  survivor: Lead;
+  merges: LeadMerge[];
+}
+
+// Candidates fetched per check before scoring
+const CANDIDATE_LIMIT = 200;
+
+const phoneDigits = (column: typeof leads.contactPhone | typeof leads.directorPhone) =>
+  sql<string>`right(regexp_replace(coalesce(${column}, ''), '[^0-9]', '', 'g'), 10)`;
+
+class LeadDedupService {
+  /**
+   * Existing leads that look like the same prospect, split into likely
+   * duplicates (which should not be created again) and possible ones
+   */
+  async check(candidate: DedupLead, excludeLeadId?: number): Promise<DuplicateCheck> {
+    const conditions = this.candidateConditions(candidate);
+    if (conditions.length === 0) return { likely: [], possible: [] };
+
+    const pool = await db.select().from(leads)
+      .where(and(isNull(leads.mergedIntoId), or(...conditions)))
+      .limit(CANDIDATE_LIMIT);
+
+    const matches = rankDuplicates(candidate, pool.filter(lead => lead.id !== excludeLeadId))
+      .map(match => this.toMatch(match.lead, match.score, match.reasons));
+    return {
+      likely: matches.filter(match => match.confidence === 'likely'),
+      possible: matches.filter(match => match.confidence === 'possible'),
+    };
+  }
+
+  /**
+   * Record suspected duplicates of a lead that was created anyway
+   */
+  async recordMatches(leadId: number, matches: DuplicateMatch[], detectedBy: DetectionSource): Promise<void> {
+    if (matches.length === 0) return;
+    try {
+      await db.insert(leadDuplicatePairs)
+        .values(matches.map(match => ({
+          leadId: Math.min(leadId, match.leadId),
+          duplicateLeadId: Math.max(leadId, match.leadId),
+          score: String(match.score),
+          reasons: match.reasons,
+          detectedBy,
+        })))
+        .onConflictDoNothing();
+    } catch (error) {
+      logger.warn(`Failed to record duplicate candidates for lead ${leadId}:`, error);
+    }
+  }
+
+  async listPairs(filters: { status?: string; minScore?: number; leadId?: number; limit?: number } = {}) {
+    const conditions: SQL[] = [eq(leadDuplicatePairs.status, filters.status || 'open')];
+    if (filters.minScore) conditions.push(gte(leadDuplicatePairs.score, String(filters.minScore)));
+    if (filters.leadId) {
+      conditions.push(or(
+        eq(leadDuplicatePairs.leadId, filters.leadId),
+        eq(leadDuplicatePairs.duplicateLeadId, filters.leadId),
+      )!);
+    }
+
+    const pairs = await db.select().from(leadDuplicatePairs)
+      .where(and(...conditions))
+      .orderBy(desc(leadDuplicatePairs.score), desc(leadDuplicatePairs.detectedAt))
+      .limit(Math.min(filters.limit || 100, 500));
+    if (pairs.length === 0) return [];
+
+    const ids = Array.from(new Set(pairs.flatMap(pair => [pair.leadId, pair.duplicateLeadId])));
+    const summaries = await db.select({
+      id: leads.id,
+      leadId: leads.leadId,
+      clientName: leads.clientName,
+      contactPhone: leads.contactPhone,
+      contactEmail: leads.contactEmail,
+      leadSource: leads.leadSource,
+      assignedTo: leads.assignedTo,
+      agentId: leads.agentId,
+      status: leads.status,
+      createdAt: leads.createdAt,
+    }).from(leads).where(inArray(leads.id, ids));
+    const byId = new Map(summaries.map(summary => [summary.id, summary]));
+
+    return pairs.map(pair => ({
+      ...pair,
+      lead: byId.get(pair.leadId) ?? null,
+      duplicateLead: byId.get(pair.duplicateLeadId) ?? null,
+    }));
+  }
+
+  async dismissPair(pairId: number, actorId: number): Promise<LeadDuplicatePair> {
+    const [pair] = await db.select().from(leadDuplicatePairs).where(eq(leadDuplicatePairs.id, pairId));
+    if (!pair) throw new NotFoundError('Duplicate pair');
+    if (pair.status !== 'open') {
+      throw new ConflictError(`Duplicate pair is already ${pair.status}`);
+    }
+
+    const [updated] = await db.update(leadDuplicatePairs)
+      .set({ status: 'dismissed', resolvedBy: actorId, resolvedAt: new Date() })
+      .where(eq(leadDuplicatePairs.id, pairId))
+      .returning();
+    return updated;
+  }
+
+  async listMerges(leadId: number): Promise<LeadMerge[]> {
+    return db.select().from(leadMerges)
+      .where(or(eq(leadMerges.survivorLeadId, leadId), eq(leadMerges.mergedLeadId, leadId)))
+      .orderBy(desc(leadMerges.createdAt));
+  }
+
+  /**
+   * Fold duplicates into the surviving lead. Activities, proposals,
+   * commission attribution, referral credit and everything else pointing at
+   * a duplicate moves to the survivor; the duplicate stays, marked merged,
+   * with a snapshot in the merge log.
+   */
+  async merge(survivorId: number, duplicateIds: number[], actorId: number, reason?: string | null): Promise<MergeResult> {
+    const ids = Array.from(new Set(duplicateIds));
+    if (ids.length === 0) throw new ValidationError('Choose at least one duplicate to merge');
+    if (ids.includes(survivorId)) throw new ValidationError('A lead cannot be merged into itself');
+
+    const found = await db.select().from(leads).where(inArray(leads.id, [survivorId, ...ids]));
+    const survivor = found.find(lead => lead.id === survivorId);
+    if (!survivor) throw new NotFoundError('Surviving lead');
+    if (survivor.mergedIntoId) {
+      throw new ConflictError(`Lead ${survivor.leadId} was itself merged into another lead`, { mergedIntoId: survivor.mergedIntoId });
+    }
+    const missing = ids.filter(id => !found.some(lead => lead.id === id));
+    if (missing.length > 0) throw new NotFoundError(`Lead ${missing.join(', ')}`);
+    const alreadyMerged = found.filter(lead => ids.includes(lead.id) && lead.mergedIntoId);
+    if (alreadyMerged.length > 0) {
+      throw new ConflictError('Some leads are already merged', { leadIds: alreadyMerged.map(lead => lead.id) });
+    }
+
+    const merges: LeadMerge[] = [];
+    let current = survivor;
+    for (const duplicate of found.filter(lead => ids.includes(lead.id))) {
+      const result = await this.mergeOne(current, duplicate, actorId, reason);
+      current = result.survivor;
+      merges.push(result.merge);
+    }
+
+    logger.info(`Merged ${ids.length} duplicate lead(s) into ${survivor.leadId}`);
+    return { survivor: current, merges };
+  }
+
+  /**
+   * Scan every unmerged lead for duplicates and report new pairs to sales managers
+   */
+  async scan(): Promise<{ scanned: number; pairs: number; newPairs: number }> {
+    const pool = await db.select({
+      id: leads.id,
+      clientName: leads.clientName,
+      contactEmail: leads.contactEmail,
+      contactPhone: leads.contactPhone,
+      directorEmail: leads.directorEmail,
+      directorPhone: leads.directorPhone,
+      pan: leads.pan,
+      gstin: leads.gstin,
+    }).from(leads).where(isNull(leads.mergedIntoId));
+
+    const pairs = findDuplicatePairs(pool);
+    let newPairs = 0;
+    for (let i = 0; i < pairs.length; i += 200) {
+      const batch = pairs.slice(i, i + 200);
+      const inserted = await db.insert(leadDuplicatePairs)
+        .values(batch.map(pair => ({
+          leadId: pair.leadId,
+          duplicateLeadId: pair.duplicateLeadId,
+          score: String(pair.score),
+          reasons: pair.reasons,
+          detectedBy: 'scan',
+        })))
+        .onConflictDoUpdate({
+          target: [leadDuplicatePairs.leadId, leadDuplicatePairs.duplicateLeadId],
+          set: { score: sql`excluded.score`, reasons: sql`excluded.reasons` },
+          setWhere: eq(leadDuplicatePairs.status, 'open'),
+        })
+        // xmax is 0 only on rows this statement inserted rather than updated
+        .returning({ inserted: sql<boolean>`(xmax = 0)` });
+      newPairs += inserted.filter(row => row.inserted).length;
+    }
+
+    if (newPairs > 0) await this.notifySalesManagers(newPairs);
+    return { scanned: pool.length, pairs: pairs.length, newPairs };
+  }
+
+  private async mergeOne(survivor: Lead, duplicate: Lead, actorId: number, reason?: string | null) {
+    const now = new Date();
+    const { updates, fieldsTaken } = mergeLeadFields(survivor, duplicate, now);
+
+    return db.transaction(async (tx) => {
+      const moved: Record<string, number> = {};
+      const count = async (table: string, rows: Promise<unknown[]>) => {
+        const length = (await rows).length;
+        if (length > 0) moved[table] = length;
+      };
+
+      await count('service_requests', tx.update(serviceRequests).set({ leadId: survivor.id })
+        .where(eq(serviceRequests.leadId, duplicate.id)).returning({ id: serviceRequests.id }));
+      await count('business_entities', tx.update(businessEntities).set({ leadId: survivor.id })
+        .where(eq(businessEntities.leadId, duplicate.id)).returning({ id: businessEntities.id }));
+      await count('users', tx.update(users).set({ leadId: survivor.id })
+        .where(eq(users.leadId, duplicate.id)).returning({ id: users.id }));
+      await count('payments', tx.update(payments).set({ leadId: survivor.id })
+        .where(eq(payments.leadId, duplicate.id)).returning({ id: payments.id }));
+      await count('commissions', tx.update(commissions).set({ leadId: survivor.id })
+        .where(eq(commissions.leadId, duplicate.id)).returning({ id: commissions.id }));
+      await count('commission_records', tx.update(commissionRecords).set({ leadId: survivor.id })
+        .where(eq(commissionRecords.leadId, duplicate.id)).returning({ id: commissionRecords.id }));
+      await count('referrals', tx.update(referrals).set({ leadId: survivor.id })
+        .where(eq(referrals.leadId, duplicate.id)).returning({ id: referrals.id }));
+      await count('lead_automation', tx.update(leadAutomation).set({ leadId: survivor.id })
+        .where(eq(leadAutomation.leadId, duplicate.id)).returning({ id: leadAutomation.id }));
+      await count('lead_scores', tx.update(leadScores).set({ leadId: survivor.id })
+        .where(eq(leadScores.leadId, duplicate.id)).returning({ id: leadScores.id }));
+      await count('lead_touchpoints', tx.update(leadTouchpoints).set({ leadId: survivor.id })
+        .where(eq(leadTouchpoints.leadId, duplicate.id)).returning({ id: leadTouchpoints.id }));
+      await count('conversion_attributions', tx.update(conversionAttributions).set({ leadId: survivor.id })
+        .where(eq(conversionAttributions.leadId, duplicate.id)).returning({ id: conversionAttributions.id }));
+      // Proposals reference the lead by its L-number
+      await count('sales_proposals', tx.update(salesProposals).set({ leadId: survivor.leadId })
+        .where(eq(salesProposals.leadId, duplicate.leadId)).returning({ id: salesProposals.id }));
+      // Leads merged into the duplicate earlier now point at the survivor
+      await count('leads', tx.update(leads).set({ mergedIntoId: survivor.id })
+        .where(eq(leads.mergedIntoId, duplicate.id)).returning({ id: leads.id }));
+
+      const [updatedSurvivor] = await tx.update(leads)
+        .set({ ...updates, updatedAt: now })
+        .where(eq(leads.id, survivor.id))
+        .returning();
+
+      await tx.update(leads)
+        .set({ mergedIntoId: survivor.id, mergedAt: now, status: 'merged', updatedAt: now })
+        .where(eq(leads.id, duplicate.id));
+
+      await tx.update(leadDuplicatePairs)
+        .set({ status: 'merged', resolvedBy: actorId, resolvedAt: now })
+        .where(and(
+          eq(leadDuplicatePairs.status, 'open'),
+          or(eq(leadDuplicatePairs.leadId, duplicate.id), eq(leadDuplicatePairs.duplicateLeadId, duplicate.id)),
+        ));
+
+      const [merge] = await tx.insert(leadMerges).values({
+        survivorLeadId: survivor.id,
+        mergedLeadId: duplicate.id,
+        mergedLeadSnapshot: duplicate,
+        fieldsTaken,
+        recordsMoved: moved,
+        reason: reason?.trim() || null,
+        mergedBy: actorId,
+      }).returning();
+
+      await tx.insert(auditLogs).values({
+        userId: actorId,
+        action: 'merge',
+        entityType: 'lead',
+        entityId: String(survivor.id),
+        oldValue: { mergedLeadId: duplicate.id, mergedLead: duplicate.leadId },
+        newValue: { fieldsTaken, recordsMoved: moved },
+      });
+
+      return { survivor: updatedSurvivor, merge };
+    });
+  }
+
+  private candidateConditions(candidate: DedupLead): SQL[] {
+    const conditions: SQL[] = [];
+
+    const phones = [normalizePhone(candidate.contactPhone), normalizePhone(candidate.directorPhone)]
+      .filter((phone): phone is string => !!phone);
+    if (phones.length > 0) {
+      conditions.push(inArray(phoneDigits(leads.contactPhone), phones));
+      conditions.push(inArray(phoneDigits(leads.directorPhone), phones));
+    }
+
+    const emails = [candidate.contactEmail, candidate.directorEmail]
+      .map(email => email?.trim().toLowerCase())
+      .filter((email): email is string => !!email && email.includes('@'));
+    for (const email of emails) {
+      conditions.push(sql`lower(${leads.contactEmail}) = ${email}`);
+      conditions.push(sql`lower(${leads.directorEmail}) = ${email}`);
+      // Gmail variants (dots, +tags) share the normalised mailbox's first characters
+      const normalized = normalizeEmail(email);
+      if (normalized?.endsWith('@gmail.com')) {
+        conditions.push(sql`lower(${leads.contactEmail}) like ${normalized.slice(0, 3) + '%@gmail.com'}`);
+      }
+    }
+
+    const domains = [corporateDomain(candidate.contactEmail), corporateDomain(candidate.directorEmail)]
+      .filter((domain): domain is string => !!domain);
+    for (const domain of Array.from(new Set(domains))) {
+      conditions.push(sql`lower(${leads.contactEmail}) like ${'%@' + domain}`);
+    }
+
+    const gstin = normalizeGstin(candidate.gstin);
+    const pan = normalizePan(candidate.pan) || (gstin ? gstin.slice(2, 12) : null);
+    if (pan) {
+      conditions.push(eq(leads.pan, pan));
+      conditions.push(sql`upper(${leads.gstin}) like ${'%' + pan + '%'}`);
+    }
+
+    const words = normalizeCompanyName(candidate.clientName).split(' ').filter(word => word.length >= 3);
+    if (words.length > 0) {
+      const longest = words.reduce((a, b) => (b.length > a.length ? b : a));
+      conditions.push(sql`lower(${leads.clientName}) like ${'%' + longest + '%'}`);
+    }
+
+    return conditions;
+  }
+
+  private toMatch(lead: Lead, score: number, reasons: DuplicateReason[]): DuplicateMatch {
+    return {
+      leadId: lead.id,
+      leadCode: lead.leadId,
+      clientName: lead.clientName,
+      contactPhone: lead.contactPhone,
+      contactEmail: lead.contactEmail,
+      assignedTo: lead.assignedTo,
+      agentId: lead.agentId,
+      stage: lead.status,
+      score,
+      confidence: classifyScore(score) === 'likely' ? 'likely' : 'possible',
+      reasons,
+    };
+  }
+
+  private async notifySalesManagers(newPairs: number) {
+    try {
+      const managers = await db.select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.role, 'sales_manager'), eq(users.isActive, true)));
+
+      if (managers.length === 0) return;
+      await db.insert(notifications).values(managers.map(manager => ({
+        userId: manager.id,
+        title: 'Duplicate leads found',
+        message: `${newPairs} new suspected duplicate lead pair(s) need review.`,
+        type: 'lead_duplicates',
+        category: 'system',
+        priority: 'normal',
+        actionUrl: '/crm/duplicates',
+        actionText: 'Review Duplicates',
+        metadata: { newPairs, threshold: DUPLICATE_THRESHOLDS.possible },
+      })));
+    } catch (error) {
+      logger.error('Error notifying sales managers of duplicate leads:', error);
+    }
+  }
+}
+
+export const leadDedupService = new LeadDedupService();
+export { LeadDedupService };
@@ -0,0 +1,1227 @@
+/**
+ * Ledger Service
+ *
+ * Double-entry general ledger on top of chartOfAccounts / journalEntries / journalEntryLines:
+ * - Tenant-scoped chart of accounts seeded with an Indian default chart
+ * - Draft → posted → reversed journal lifecycle with debit = credit enforcement
+ * - Automatic posting of invoices, payment receipts and commission payouts
+ * - Trial balance, profit & loss and balance sheet
+ */
+import { db } from '../db';
+import { eq, and, asc, desc, gte, lte, inArray, sql } from 'drizzle-orm';
+import {
+  tenants,
+  chartOfAccounts,
+  journalEntries,
+  journalEntryLines,
+} from '@shared/enterprise-schema';
+import { idGenerator, ID_TYPES } from './id-generator';
+import { ValidationError, NotFoundError, ConflictError } from '../errors';
+import { logger } from '../logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ACCOUNT_TYPES = {
+  ASSET: 'asset',
+  LIABILITY: 'liability',
+  EQUITY: 'equity',
+  REVENUE: 'revenue',
+  EXPENSE: 'expense',
+} as const;
+
+export type AccountType = typeof ACCOUNT_TYPES[keyof typeof ACCOUNT_TYPES];
+
+export const JOURNAL_STATUS = {
+  DRAFT: 'draft',
+  POSTED: 'posted',
+  REVERSED: 'reversed',
+} as const;
+
+/**
+ * Account codes the platform posts to automatically.
+ * Tenants may rename these accounts but must keep the codes.
+ */
+export const LEDGER_ACCOUNTS = {
+  CASH: '1010',
+  BANK: '1020',
+  GATEWAY_CLEARING: '1030',
+  SUNDRY_DEBTORS: '1100',
+  INPUT_CGST: '1210',
+  INPUT_SGST: '1220',
+  INPUT_IGST: '1230',
+  TDS_RECEIVABLE: '1300',
+  SUNDRY_CREDITORS: '2100',
+  OUTPUT_CGST: '2210',
+  OUTPUT_SGST: '2220',
+  OUTPUT_IGST: '2230',
+  TDS_PAYABLE: '2300',
+  COMMISSION_PAYABLE: '2400',
+  AGENT_WALLET_PAYABLE: '2500',
+  SHARE_CAPITAL: '3100',
+  RESERVES_AND_SURPLUS: '3200',
+  PROFESSIONAL_FEES: '4100',
+  OTHER_INCOME: '4200',
+  FOREX_GAIN_LOSS: '4300',
+  COMMISSION_EXPENSE: '5100',
+  BANK_CHARGES: '5200',
+  GENERAL_EXPENSES: '5900',
+} as const;
+
+export interface DefaultAccount {
+  code: string;
+  name: string;
+  type: AccountType;
+  parentCode?: string;
+  description?: string;
+}
+
+/**
+ * Default chart of accounts for an Indian professional services firm
+ * (Schedule III groupings). Group accounts are listed before their children.
+ */
+export const DEFAULT_CHART_OF_ACCOUNTS: DefaultAccount[] = [
+  // Assets
+  { code: '1000', name: 'Current Assets', type: 'asset' },
+  { code: LEDGER_ACCOUNTS.CASH, name: 'Cash in Hand', type: 'asset', parentCode: '1000' },
+  { code: LEDGER_ACCOUNTS.BANK, name: 'Bank Accounts', type: 'asset', parentCode: '1000' },
+  { code: LEDGER_ACCOUNTS.GATEWAY_CLEARING, name: 'Payment Gateway Clearing', type: 'asset', parentCode: '1000', description: 'Captured gateway payments awaiting settlement' },
+  { code: LEDGER_ACCOUNTS.SUNDRY_DEBTORS, name: 'Sundry Debtors', type: 'asset', parentCode: '1000' },
+  { code: '1200', name: 'GST Input Credit', type: 'asset', parentCode: '1000' },
+  { code: LEDGER_ACCOUNTS.INPUT_CGST, name: 'Input CGST', type: 'asset', parentCode: '1200' },
+  { code: LEDGER_ACCOUNTS.INPUT_SGST, name: 'Input SGST', type: 'asset', parentCode: '1200' },
+  { code: LEDGER_ACCOUNTS.INPUT_IGST, name: 'Input IGST', type: 'asset', parentCode: '1200' },
+  { code: LEDGER_ACCOUNTS.TDS_RECEIVABLE, name: 'TDS Receivable', type: 'asset', parentCode: '1000' },
+  { code: '1400', name: 'Advances & Prepaid Expenses', type: 'asset', parentCode: '1000' },
+  { code: '1500', name: 'Fixed Assets', type: 'asset' },
+
+  // Liabilities
+  { code: '2000', name: 'Current Liabilities', type: 'liability' },
+  { code: LEDGER_ACCOUNTS.SUNDRY_CREDITORS, name: 'Sundry Creditors', type: 'liability', parentCode: '2000' },
+  { code: '2200', name: 'GST Output Liability', type: 'liability', parentCode: '2000' },
+  { code: LEDGER_ACCOUNTS.OUTPUT_CGST, name: 'Output CGST', type: 'liability', parentCode: '2200' },
+  { code: LEDGER_ACCOUNTS.OUTPUT_SGST, name: 'Output SGST', type: 'liability', parentCode: '2200' },
+  { code: LEDGER_ACCOUNTS.OUTPUT_IGST, name: 'Output IGST', type: 'liability', parentCode: '2200' },
+  { code: LEDGER_ACCOUNTS.TDS_PAYABLE, name: 'TDS Payable', type: 'liability', parentCode: '2000' },
+  { code: LEDGER_ACCOUNTS.COMMISSION_PAYABLE, name: 'Commission Payable', type: 'liability', parentCode: '2000' },
+  { code: LEDGER_ACCOUNTS.AGENT_WALLET_PAYABLE, name: 'Agent Wallet Balances', type: 'liability', parentCode: '2000' },
+
+  // Equity
+  { code: '3000', name: "Shareholders' Funds", type: 'equity' },
+  { code: LEDGER_ACCOUNTS.SHARE_CAPITAL, name: 'Share Capital', type: 'equity', parentCode: '3000' },
+  { code: LEDGER_ACCOUNTS.RESERVES_AND_SURPLUS, name: 'Reserves & Surplus', type: 'equity', parentCode: '3000' },
+
+  // Revenue
+  { code: '4000', name: 'Revenue from Operations', type: 'revenue' },
+  { code: LEDGER_ACCOUNTS.PROFESSIONAL_FEES, name: 'Professional Fees', type: 'revenue', parentCode: '4000' },
+  { code: LEDGER_ACCOUNTS.OTHER_INCOME, name: 'Other Income', type: 'revenue', parentCode: '4000' },
+  { code: LEDGER_ACCOUNTS.FOREX_GAIN_LOSS, name: 'Foreign Exchange Gain / (Loss)', type: 'revenue', parentCode: '4000', description: 'Realised exchange differences on foreign currency invoices' },
+
+  // Expenses
+  { code: '5000', name: 'Operating Expenses', type: 'expense' },
+  { code: LEDGER_ACCOUNTS.COMMISSION_EXPENSE, name: 'Commission to Agents', type: 'expense', parentCode: '5000' },
+  { code: LEDGER_ACCOUNTS.BANK_CHARGES, name: 'Bank & Gateway Charges', type: 'expense', parentCode: '5000' },
+  { code: '5300', name: 'Salaries & Wages', type: 'expense', parentCode: '5000' },
+  { code: '5400', name: 'Rent', type: 'expense', parentCode: '5000' },
+  { code: LEDGER_ACCOUNTS.GENERAL_EXPENSES, name: 'General & Administrative Expenses', type: 'expense', parentCode: '5000' },
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface JournalLineInput {
+  accountId?: number;
+  accountCode?: string;
+  debit?: number;
+  credit?: number;
+  currency?: string;
+  exchangeRate?: number;
+  narration?: string;
+}
+
+export interface JournalEntryInput {
+  tenantId: string;
+  entryDate?: Date | string;
+  description?: string;
+  referenceType?: string;
+  referenceId?: number | null;
+  sourceRef?: string;
+  lines: JournalLineInput[];
+  createdBy?: number | null;
+}
+
+export interface AccountTotalsRow {
+  accountId: number;
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  accounts: Array<AccountTotalsRow & { closingDebit: number; closingCredit: number }>;
+  totalDebit: number;
+  totalCredit: number;
+  isBalanced: boolean;
+}
+
+export interface StatementLine {
+  accountId: number;
+  accountCode: string;
+  accountName: string;
+  amount: number;
+}
+
+export interface ProfitAndLoss {
+  revenue: StatementLine[];
+  expenses: StatementLine[];
+  totalRevenue: number;
+  totalExpenses: number;
+  netProfit: number;
+}
+
+export interface BalanceSheet {
+  assets: StatementLine[];
+  liabilities: StatementLine[];
+  equity: StatementLine[];
+  currentPeriodEarnings: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+  isBalanced: boolean;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/** Convert a rupee amount to integer paise so sums never drift */
+export function toPaise(amount: number | string | null | undefined): number {
+  const value = typeof amount === 'string' ? parseFloat(amount) : (amount ?? 0);
+  return Math.round((isNaN(value) ? 0 : value) * 100);
+}
+
+function fromPaise(paise: number): number {
+  return paise / 100;
+}
+
+function baseAmountPaise(amount: number | undefined, exchangeRate: number | undefined): number {
+  return Math.round(toPaise(amount) * (exchangeRate ?? 1));
+}
+
+/**
+ * Validate journal lines: at least two lines, each line strictly one-sided and
+ * non-negative, and total debits equal total credits in base currency.
+ */
+export function validateJournalLines(lines: JournalLineInput[]): { totalDebit: number; totalCredit: number } {
+  if (!Array.isArray(lines) || lines.length < 2) {
+    throw new ValidationError('A journal entry needs at least two lines');
+  }
+
+  let debitPaise = 0;
+  let creditPaise = 0;
+
+  lines.forEach((line, index) => {
+    if (!line.accountId && !line.accountCode) {
+      throw new ValidationError(`Line ${index + 1}: account is required`);
+    }
+
+    const debit = toPaise(line.debit);
+    const credit = toPaise(line.credit);
+
+    if (debit < 0 || credit < 0) {
+      throw new ValidationError(`Line ${index + 1}: amounts cannot be negative`);
+    }
+    if (debit > 0 && credit > 0) {
+      throw new ValidationError(`Line ${index + 1}: a line cannot carry both a debit and a credit`);
+    }
+    if (debit === 0 && credit === 0) {
+      throw new ValidationError(`Line ${index + 1}: debit or credit amount is required`);
+    }
+    if (line.exchangeRate !== undefined && !(line.exchangeRate > 0)) {
+      throw new ValidationError(`Line ${index + 1}: exchange rate must be positive`);
+    }
+
+    debitPaise += baseAmountPaise(line.debit, line.exchangeRate);
+    creditPaise += baseAmountPaise(line.credit, line.exchangeRate);
+  });
+
+  if (debitPaise !== creditPaise) {
+    throw new ValidationError('Total debits must equal total credits', {
+      totalDebit: fromPaise(debitPaise),
+      totalCredit: fromPaise(creditPaise),
+    });
+  }
+
+  return { totalDebit: fromPaise(debitPaise), totalCredit: fromPaise(creditPaise) };
+}
+
+/** Build a trial balance from per-account debit/credit totals */
+export function buildTrialBalance(rows: AccountTotalsRow[]): TrialBalance {
+  let debitPaise = 0;
+  let creditPaise = 0;
+
+  const accounts = rows.map((row) => {
+    const net = toPaise(row.debit) - toPaise(row.credit);
+    const closingDebit = net > 0 ? net : 0;
+    const closingCredit = net < 0 ? -net : 0;
+    debitPaise += closingDebit;
+    creditPaise += closingCredit;
+    return { ...row, closingDebit: fromPaise(closingDebit), closingCredit: fromPaise(closingCredit) };
+  });
+
+  return {
+    accounts,
+    totalDebit: fromPaise(debitPaise),
+    totalCredit: fromPaise(creditPaise),
+    isBalanced: debitPaise === creditPaise,
+  };
+}
+
+/** Natural-side balance: debit-normal for assets/expenses, credit-normal otherwise */
+function naturalBalancePaise(row: AccountTotalsRow): number {
+  const net = toPaise(row.debit) - toPaise(row.credit);
+  return row.accountType === ACCOUNT_TYPES.ASSET || row.accountType === ACCOUNT_TYPES.EXPENSE ? net : -net;
+}
+
+function statementSection(rows: AccountTotalsRow[], type: AccountType): { lines: StatementLine[]; totalPaise: number } {
+  let totalPaise = 0;
+  const lines = rows
+    .filter((row) => row.accountType === type)
+    .map((row) => {
+      const balance = naturalBalancePaise(row);
+      totalPaise += balance;
+      return { accountId: row.accountId, accountCode: row.accountCode, accountName: row.accountName, amount: fromPaise(balance) };
+    })
+    .filter((line) => line.amount !== 0);
+  return { lines, totalPaise };
+}
+
+/** Build a profit & loss statement from per-account totals for a period */
+export function buildProfitAndLoss(rows: AccountTotalsRow[]): ProfitAndLoss {
+  const revenue = statementSection(rows, ACCOUNT_TYPES.REVENUE);
+  const expenses = statementSection(rows, ACCOUNT_TYPES.EXPENSE);
+
+  return {
+    revenue: revenue.lines,
+    expenses: expenses.lines,
+    totalRevenue: fromPaise(revenue.totalPaise),
+    totalExpenses: fromPaise(expenses.totalPaise),
+    netProfit: fromPaise(revenue.totalPaise - expenses.totalPaise),
+  };
+}
+
+/**
+ * Build a balance sheet from cumulative per-account totals.
+ * Unclosed revenue and expense balances are carried as current period earnings.
+ */
+export function buildBalanceSheet(rows: AccountTotalsRow[]): BalanceSheet {
+  const assets = statementSection(rows, ACCOUNT_TYPES.ASSET);
+  const liabilities = statementSection(rows, ACCOUNT_TYPES.LIABILITY);
+  const equity = statementSection(rows, ACCOUNT_TYPES.EQUITY);
+  const pnl = buildProfitAndLoss(rows);
+  const earningsPaise = toPaise(pnl.netProfit);
+
+  return {
+    assets: assets.lines,
+    liabilities: liabilities.lines,
+    equity: equity.lines,
+    currentPeriodEarnings: fromPaise(earningsPaise),
+    totalAssets: fromPaise(assets.totalPaise),
+    totalLiabilities: fromPaise(liabilities.totalPaise),
+    totalEquity: fromPaise(equity.totalPaise + earningsPaise),
+    isBalanced: assets.totalPaise === liabilities.totalPaise + equity.totalPaise + earningsPaise,
+  };
+}
+
+function toDateString(date: Date | string | undefined): string {
+  if (!date) return new Date().toISOString().split('T')[0];
+  if (typeof date === 'string') return date.split('T')[0];
+  return date.toISOString().split('T')[0];
+}
+
+// ============================================================================
+// LEDGER SERVICE
+// ============================================================================
+
+class LedgerService {
+  private seededTenants = new Set<string>();
+
+  /**
+   * Resolve the tenant whose books a posting belongs to.
+   * Falls back to DEFAULT_TENANT_ID, then the oldest active tenant, for
+   * single-tenant deployments where source records carry no tenant.
+   */
+  async resolveTenantId(tenantId?: string | null): Promise<string | null> {
+    if (tenantId) return tenantId;
+    if (process.env.DEFAULT_TENANT_ID) return process.env.DEFAULT_TENANT_ID;
+
+    const [tenant] = await db
+      .select({ id: tenants.id })
+      .from(tenants)
+      .where(eq(tenants.status, 'active'))
+      .orderBy(asc(tenants.createdAt))
+      .limit(1);
+
+    return tenant?.id ?? null;
+  }
+
+  /**
+   * Seed the default chart of accounts for a tenant (idempotent)
+   */
+  async seedDefaultChart(tenantId: string): Promise<number> {
+    const inserted = await db
+      .insert(chartOfAccounts)
+      .values(DEFAULT_CHART_OF_ACCOUNTS.map((account) => ({
+        tenantId,
+        accountCode: account.code,
+        accountName: account.name,
+        accountType: account.type,
+        description: account.description ?? null,
+      })))
+      .onConflictDoNothing()
+      .returning({ id: chartOfAccounts.id });
+
+    // Link children to their group accounts
+    const codeToId = await this.getAccountCodeMap(tenantId);
+    for (const account of DEFAULT_CHART_OF_ACCOUNTS) {
+      if (!account.parentCode) continue;
+      const id = codeToId.get(account.code);
+      const parentId = codeToId.get(account.parentCode);
+      if (!id || !parentId) continue;
+      await db
+        .update(chartOfAccounts)
+        .set({ parentAccountId: parentId })
+        .where(and(eq(chartOfAccounts.id, id), sql`${chartOfAccounts.parentAccountId} IS NULL`));
+    }
+
+    this.seededTenants.add(tenantId);
+    if (inserted.length > 0) {
+      logger.info(`Seeded ${inserted.length} ledger accounts for tenant ${tenantId}`);
+    }
+    return inserted.length;
+  }
+
+  /**
+   * List accounts in the tenant's chart
+   */
+  async listAccounts(tenantId: string, options: { type?: string; includeInactive?: boolean } = {}) {
+    const conditions = [eq(chartOfAccounts.tenantId, tenantId)];
+    if (options.type) conditions.push(eq(chartOfAccounts.accountType, options.type));
+    if (!options.includeInactive) conditions.push(eq(chartOfAccounts.isActive, true));
+
+    return db
+      .select()
+      .from(chartOfAccounts)
+      .where(and(...conditions))
+      .orderBy(asc(chartOfAccounts.accountCode));
+  }
+
+  /**
+   * Look up an account by code, seeding the default chart on first use
+   */
+  async getAccountByCode(tenantId: string, accountCode: string) {
+    if (!this.seededTenants.has(tenantId)) {
+      await this.seedDefaultChart(tenantId);
+    }
+
+    const [account] = await db
+      .select()
+      .from(chartOfAccounts)
+      .where(and(eq(chartOfAccounts.tenantId, tenantId), eq(chartOfAccounts.accountCode, accountCode)))
+      .limit(1);
+
+    return account ?? null;
+  }
+
+  /**
+   * Add an account to the tenant's chart
+   */
+  async createAccount(tenantId: string, input: {
+    accountCode: string;
+    accountName: string;
+    accountType: string;
+    parentAccountId?: number | null;
+    description?: string | null;
+    currency?: string;
+  }) {
+    if (!input.accountCode || !input.accountName) {
+      throw new ValidationError('accountCode and accountName are required');
+    }
+    if (!Object.values(ACCOUNT_TYPES).includes(input.accountType as AccountType)) {
+      throw new ValidationError(`accountType must be one of: ${Object.values(ACCOUNT_TYPES).join(', ')}`);
+    }
+
+    if (input.parentAccountId) {
+      const [parent] = await db
+        .select({ id: chartOfAccounts.id, accountType: chartOfAccounts.accountType })
+        .from(chartOfAccounts)
+        .where(and(eq(chartOfAccounts.id, input.parentAccountId), eq(chartOfAccounts.tenantId, tenantId)))
+        .limit(1);
+      if (!parent) throw new NotFoundError('Parent account');
+      if (parent.accountType !== input.accountType) {
+        throw new ValidationError('Parent account must be of the same account type');
+      }
+    }
+
+    const existing = await this.getAccountCodeMap(tenantId);
+    if (existing.has(input.accountCode)) {
+      throw new ConflictError(`Account code ${input.accountCode} already exists`);
+    }
+
+    const [account] = await db
+      .insert(chartOfAccounts)
+      .values({
+        tenantId,
+        accountCode: input.accountCode,
+        accountName: input.accountName,
+        accountType: input.accountType,
+        parentAccountId: input.parentAccountId ?? null,
+        description: input.description ?? null,
+        currency: input.currency || 'INR',
+      })
+      .returning();
+
+    return account;
+  }
+
+  /**
+   * Create a journal entry in draft status (or posted immediately when post = true)
+   */
+  async createJournalEntry(input: JournalEntryInput, options: { post?: boolean } = {}) {
+    const totals = validateJournalLines(input.lines);
+    const accountIds = await this.resolveLineAccounts(input.tenantId, input.lines);
+    const entryNumber = await idGenerator.generateId(ID_TYPES.JOURNAL_ENTRY);
+    const now = new Date();
+
+    return db.transaction(async (tx) => {
+      const [entry] = await tx
+        .insert(journalEntries)
+        .values({
+          tenantId: input.tenantId,
+          entryNumber,
+          entryDate: toDateString(input.entryDate),
+          description: input.description ?? null,
+          referenceType: input.referenceType || 'manual',
+          referenceId: input.referenceId ?? null,
+          sourceRef: input.sourceRef ?? null,
+          status: options.post ? JOURNAL_STATUS.POSTED : JOURNAL_STATUS.DRAFT,
+          totalDebit: totals.totalDebit.toFixed(2),
+          totalCredit: totals.totalCredit.toFixed(2),
+          createdBy: input.createdBy ?? null,
+          postedBy: options.post ? input.createdBy ?? null : null,
+          postedAt: options.post ? now : null,
+        })
+        .returning();
+
+      await tx.insert(journalEntryLines).values(input.lines.map((line, index) => ({
+        journalEntryId: entry.id,
+        accountId: accountIds[index],
+        debitAmount: fromPaise(toPaise(line.debit)).toFixed(2),
+        creditAmount: fromPaise(toPaise(line.credit)).toFixed(2),
+        currency: line.currency || 'INR',
+        exchangeRate: String(line.exchangeRate ?? 1),
+        baseDebitAmount: fromPaise(baseAmountPaise(line.debit, line.exchangeRate)).toFixed(2),
+        baseCreditAmount: fromPaise(baseAmountPaise(line.credit, line.exchangeRate)).toFixed(2),
+        narration: line.narration ?? null,
+      })));
+
+      return entry;
+    });
+  }
+
+  /**
+   * Post a draft journal entry
+   */
+  async postJournalEntry(tenantId: string, entryId: number, postedBy?: number | null) {
+    const entry = await this.getJournalEntry(tenantId, entryId);
+    if (entry.status !== JOURNAL_STATUS.DRAFT) {
+      throw new ConflictError(`Only draft entries can be posted. Current status: ${entry.status}`);
+    }
+
+    // Re-check balance against what is actually stored
+    validateJournalLines(entry.lines.map((line) => ({
+      accountId: line.accountId,
+      debit: parseFloat(line.baseDebitAmount || '0'),
+      credit: parseFloat(line.baseCreditAmount || '0'),
+    })));
+
+    const [posted] = await db
+      .update(journalEntries)
+      .set({ status: JOURNAL_STATUS.POSTED, postedBy: postedBy ?? null, postedAt: new Date() })
+      .where(and(eq(journalEntries.id, entryId), eq(journalEntries.status, JOURNAL_STATUS.DRAFT)))
+      .returning();
+
+    if (!posted) {
+      throw new ConflictError('Journal entry was modified concurrently');
+    }
+    return posted;
+  }
+
+  /**
+   * Reverse a posted entry by posting its mirror image.
+   * The original is marked reversed; both remain in the books so they net to zero.
+   */
+  async reverseJournalEntry(
+    tenantId: string,
+    entryId: number,
+    reversedBy?: number | null,
+    options: { reason?: string; entryDate?: Date | string } = {}
+  ) {
+    const entry = await this.getJournalEntry(tenantId, entryId);
+    if (entry.status !== JOURNAL_STATUS.POSTED) {
+      throw new ConflictError(`Only posted entries can be reversed. Current status: ${entry.status}`);
+    }
+    if (entry.reversalOfId) {
+      throw new ConflictError('A reversing entry cannot itself be reversed; post a new entry instead');
+    }
+
+    const entryNumber = await idGenerator.generateId(ID_TYPES.JOURNAL_ENTRY);
+    const now = new Date();
+
+    return db.transaction(async (tx) => {
+      const [reversal] = await tx
+        .insert(journalEntries)
+        .values({
+          tenantId,
+          entryNumber,
+          entryDate: toDateString(options.entryDate),
+          description: `Reversal of ${entry.entryNumber}${options.reason ? `: ${options.reason}` : ''}`,
+          referenceType: entry.referenceType,
+          referenceId: entry.referenceId,
+          sourceRef: `reversal:${entry.id}`,
+          status: JOURNAL_STATUS.POSTED,
+          totalDebit: entry.totalCredit,
+          totalCredit: entry.totalDebit,
+          reversalOfId: entry.id,
+          createdBy: reversedBy ?? null,
+          postedBy: reversedBy ?? null,
+          postedAt: now,
+        })
+        .returning();
+
+      await tx.insert(journalEntryLines).values(entry.lines.map((line) => ({
+        journalEntryId: reversal.id,
+        accountId: line.accountId,
+        debitAmount: line.creditAmount,
+        creditAmount: line.debitAmount,
+        currency: line.currency,
+        exchangeRate: line.exchangeRate,
+        baseDebitAmount: line.baseCreditAmount,
+        baseCreditAmount: line.baseDebitAmount,
+        narration: line.narration,
+      })));
+
+      const [updated] = await tx
+        .update(journalEntries)
+        .set({ status: JOURNAL_STATUS.REVERSED, reversedBy: reversedBy ?? null, reversedAt: now })
+        .where(and(eq(journalEntries.id, entry.id), eq(journalEntries.status, JOURNAL_STATUS.POSTED)))
+        .returning({ id: journalEntries.id });
+
+      if (!updated) {
+        throw new ConflictError('Journal entry was modified concurrently');
+      }
+
+      return reversal;
+    });
+  }
+
+  /**
+   * Get a journal entry with its lines
+   */
+  async getJournalEntry(tenantId: string, entryId: number) {
+    const [entry] = await db
+      .select()
+      .from(journalEntries)
+      .where(and(eq(journalEntries.id, entryId), eq(journalEntries.tenantId, tenantId)))
+      .limit(1);
+
+    if (!entry) throw new NotFoundError('Journal entry');
+
+    const lines = await db
+      .select({
+        id: journalEntryLines.id,
+        accountId: journalEntryLines.accountId,
+        accountCode: chartOfAccounts.accountCode,
+        accountName: chartOfAccounts.accountName,
+        debitAmount: journalEntryLines.debitAmount,
+        creditAmount: journalEntryLines.creditAmount,
+        currency: journalEntryLines.currency,
+        exchangeRate: journalEntryLines.exchangeRate,
+        baseDebitAmount: journalEntryLines.baseDebitAmount,
+        baseCreditAmount: journalEntryLines.baseCreditAmount,
+        narration: journalEntryLines.narration,
+      })
+      .from(journalEntryLines)
+      .innerJoin(chartOfAccounts, eq(journalEntryLines.accountId, chartOfAccounts.id))
+      .where(eq(journalEntryLines.journalEntryId, entryId))
+      .orderBy(asc(journalEntryLines.id));
+
+    return { ...entry, lines };
+  }
+
+  /**
+   * List journal entries with optional filters
+   */
+  async listJournalEntries(tenantId: string, filters: {
+    status?: string;
+    referenceType?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+  } = {}) {
+    const conditions = [eq(journalEntries.tenantId, tenantId)];
+    if (filters.status) conditions.push(eq(journalEntries.status, filters.status));
+    if (filters.referenceType) conditions.push(eq(journalEntries.referenceType, filters.referenceType));
+    if (filters.from) conditions.push(gte(journalEntries.entryDate, filters.from));
+    if (filters.to) conditions.push(lte(journalEntries.entryDate, filters.to));
+
+    return db
+      .select()
+      .from(journalEntries)
+      .where(and(...conditions))
+      .orderBy(desc(journalEntries.entryDate), desc(journalEntries.id))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+  }
+
+  /**
+   * Account ledger with running balance (debit-positive)
+   */
+  async getAccountLedger(tenantId: string, accountId: number, range: { from?: string; to?: string } = {}) {
+    const [account] = await db
+      .select()
+      .from(chartOfAccounts)
+      .where(and(eq(chartOfAccounts.id, accountId), eq(chartOfAccounts.tenantId, tenantId)))
+      .limit(1);
+    if (!account) throw new NotFoundError('Account');
+
+    const bookedStatuses = [JOURNAL_STATUS.POSTED, JOURNAL_STATUS.REVERSED];
+    let openingPaise = 0;
+
+    if (range.from) {
+      const [opening] = await db
+        .select({
+          debit: sql<string>`COALESCE(SUM(${journalEntryLines.baseDebitAmount}), 0)`,
+          credit: sql<string>`COALESCE(SUM(${journalEntryLines.baseCreditAmount}), 0)`,
+        })
+        .from(journalEntryLines)
+        .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+        .where(and(
+          eq(journalEntryLines.accountId, accountId),
+          eq(journalEntries.tenantId, tenantId),
+          inArray(journalEntries.status, bookedStatuses),
+          sql`${journalEntries.entryDate} < ${range.from}`
+        ));
+      openingPaise = toPaise(opening?.debit) - toPaise(opening?.credit);
+    }
+
+    const conditions = [
+      eq(journalEntryLines.accountId, accountId),
+      eq(journalEntries.tenantId, tenantId),
+      inArray(journalEntries.status, bookedStatuses),
+    ];
+    if (range.from) conditions.push(gte(journalEntries.entryDate, range.from));
+    if (range.to) conditions.push(lte(journalEntries.entryDate, range.to));
+
+    const rows = await db
+      .select({
+        entryId: journalEntries.id,
+        entryNumber: journalEntries.entryNumber,
+        entryDate: journalEntries.entryDate,
+        description: journalEntries.description,
+        narration: journalEntryLines.narration,
+        debit: journalEntryLines.baseDebitAmount,
+        credit: journalEntryLines.baseCreditAmount,
+        currency: journalEntryLines.currency,
+        exchangeRate: journalEntryLines.exchangeRate,
+        transactionDebit: journalEntryLines.debitAmount,
+        transactionCredit: journalEntryLines.creditAmount,
+      })
+      .from(journalEntryLines)
+      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+      .where(and(...conditions))
+      .orderBy(asc(journalEntries.entryDate), asc(journalEntries.id));
+
+    let runningPaise = openingPaise;
+    // Movement per foreign currency in that currency, alongside the INR balance
+    const currencyPaise = new Map<string, number>();
+    const entries = rows.map((row) => {
+      runningPaise += toPaise(row.debit) - toPaise(row.credit);
+      if (row.currency && row.currency !== 'INR') {
+        currencyPaise.set(
+          row.currency,
+          (currencyPaise.get(row.currency) || 0) + toPaise(row.transactionDebit) - toPaise(row.transactionCredit)
+        );
+      }
+      return { ...row, balance: fromPaise(runningPaise) };
+    });
+
+    return {
+      account,
+      openingBalance: fromPaise(openingPaise),
+      closingBalance: fromPaise(runningPaise),
+      currencyMovements: Array.from(currencyPaise.entries()).map(([currency, paise]) => ({
+        currency,
+        net: fromPaise(paise),
+      })),
+      entries,
+    };
+  }
+
+  // ==========================================================================
+  // FINANCIAL STATEMENTS
+  // ==========================================================================
+
+  /**
+   * Trial balance as of a date
+   */
+  async getTrialBalance(tenantId: string, asOf?: string): Promise<TrialBalance & { asOf: string }> {
+    const rows = await this.getAccountTotals(tenantId, { to: asOf });
+    return { asOf: asOf || toDateString(undefined), ...buildTrialBalance(rows) };
+  }
+
+  /**
+   * Profit & loss for a period
+   */
+  async getProfitAndLoss(tenantId: string, from: string, to: string): Promise<ProfitAndLoss & { from: string; to: string }> {
+    const rows = await this.getAccountTotals(tenantId, { from, to });
+    return { from, to, ...buildProfitAndLoss(rows) };
+  }
+
+  /**
+   * Balance sheet as of a date
+   */
+  async getBalanceSheet(tenantId: string, asOf?: string): Promise<BalanceSheet & { asOf: string }> {
+    const rows = await this.getAccountTotals(tenantId, { to: asOf });
+    return { asOf: asOf || toDateString(undefined), ...buildBalanceSheet(rows) };
+  }
+
+  // ==========================================================================
+  // AUTOMATIC POSTINGS
+  // ==========================================================================
+
+  /**
+   * Post a sales invoice: Dr Sundry Debtors, Cr Professional Fees and output GST
+   */
+  async postInvoice(invoice: {
+    id: number;
+    invoiceNumber: string;
+    invoiceDate?: Date | string;
+    subtotal: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    total: number;
+    clientName?: string | null;
+  }, options: { tenantId?: string | null; postedBy?: number | null } = {}) {
+    const lines: JournalLineInput[] = [
+      { accountCode: LEDGER_ACCOUNTS.SUNDRY_DEBTORS, debit: invoice.total, narration: invoice.clientName || undefined },
+      { accountCode: LEDGER_ACCOUNTS.PROFESSIONAL_FEES, credit: invoice.subtotal },
+    ];
+    if (invoice.cgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_CGST, credit: invoice.cgst });
+    if (invoice.sgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_SGST, credit: invoice.sgst });
+    if (invoice.igst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_IGST, credit: invoice.igst });
+
+    return this.postFromSource({
+      tenantId: options.tenantId,
+      sourceRef: `invoice:${invoice.id}`,
+      referenceType: 'invoice',
+      referenceId: invoice.id,
+      entryDate: invoice.invoiceDate,
+      description: `Sales invoice ${invoice.invoiceNumber}`,
+      createdBy: options.postedBy,
+      lines,
+    });
+  }
+
+  /**
+   * Post a foreign currency sales invoice at its locked rate. GST is booked in INR;
+   * the paise left over from converting each side separately go to exchange differences.
+   */
+  async postForeignInvoice(invoice: {
+    id: number;
+    invoiceNumber: string;
+    invoiceDate?: Date | string;
+    currency: string;
+    exchangeRate: number;
+    subtotal: number;
+    total: number;
+    baseCgst: number;
+    baseSgst: number;
+    baseIgst: number;
+    clientName?: string | null;
+  }, options: { tenantId?: string | null; postedBy?: number | null } = {}) {
+    const fx = { currency: invoice.currency, exchangeRate: invoice.exchangeRate };
+    const lines: JournalLineInput[] = [
+      { accountCode: LEDGER_ACCOUNTS.SUNDRY_DEBTORS, debit: invoice.total, ...fx, narration: invoice.clientName || undefined },
+      { accountCode: LEDGER_ACCOUNTS.PROFESSIONAL_FEES, credit: invoice.subtotal, ...fx },
+    ];
+    if (invoice.baseCgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_CGST, credit: invoice.baseCgst });
+    if (invoice.baseSgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_SGST, credit: invoice.baseSgst });
+    if (invoice.baseIgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_IGST, credit: invoice.baseIgst });
+
+    const roundingPaise = baseAmountPaise(invoice.total, invoice.exchangeRate)
+      - baseAmountPaise(invoice.subtotal, invoice.exchangeRate)
+      - toPaise(invoice.baseCgst) - toPaise(invoice.baseSgst) - toPaise(invoice.baseIgst);
+    if (roundingPaise > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.FOREX_GAIN_LOSS, credit: fromPaise(roundingPaise) });
+    if (roundingPaise < 0) lines.push({ accountCode: LEDGER_ACCOUNTS.FOREX_GAIN_LOSS, debit: fromPaise(-roundingPaise) });
+
+    return this.postFromSource({
+      tenantId: options.tenantId,
+      sourceRef: `invoice:${invoice.id}`,
+      referenceType: 'invoice',
+      referenceId: invoice.id,
+      entryDate: invoice.invoiceDate,
+      description: `Sales invoice ${invoice.invoiceNumber} (${invoice.currency} @ ${invoice.exchangeRate})`,
+      createdBy: options.postedBy,
+      lines,
+    });
+  }
+
+  /**
+   * Post a foreign currency receipt: Dr Bank (INR credited) and bank charges,
+   * Cr Sundry Debtors at the invoice rate, difference to realised exchange gain/loss
+   */
+  async postForeignReceipt(receipt: {
+    id: number;
+    invoiceNumber: string;
+    currency: string;
+    amount: number;
+    invoiceRate: number;
+    baseReceived: number;
+    bankCharges?: number;
+    receivedAt?: Date | string;
+    reference?: string | null;
+  }, options: { tenantId?: string | null; postedBy?: number | null } = {}) {
+    const bankCharges = receipt.bankCharges ?? 0;
+    const gainPaise = toPaise(receipt.baseReceived) + toPaise(bankCharges)
+      - baseAmountPaise(receipt.amount, receipt.invoiceRate);
+
+    const lines: JournalLineInput[] = [
+      { accountCode: LEDGER_ACCOUNTS.BANK, debit: receipt.baseReceived, narration: receipt.reference || undefined },
+    ];
+    if (bankCharges > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.BANK_CHARGES, debit: bankCharges });
+    if (gainPaise < 0) lines.push({ accountCode: LEDGER_ACCOUNTS.FOREX_GAIN_LOSS, debit: fromPaise(-gainPaise) });
+    lines.push({
+      accountCode: LEDGER_ACCOUNTS.SUNDRY_DEBTORS,
+      credit: receipt.amount,
+      currency: receipt.currency,
+      exchangeRate: receipt.invoiceRate,
+    });
+    if (gainPaise > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.FOREX_GAIN_LOSS, credit: fromPaise(gainPaise) });
+
+    return this.postFromSource({
+      tenantId: options.tenantId,
+      sourceRef: `fx_receipt:${receipt.id}`,
+      referenceType: 'fx_settlement',
+      referenceId: receipt.id,
+      entryDate: receipt.receivedAt,
+      description: `${receipt.currency} ${receipt.amount} received against ${receipt.invoiceNumber}`,
+      createdBy: options.postedBy,
+      lines,
+    });
+  }
+
+  /**
+   * Post a customer receipt: Dr gateway clearing (or bank), Cr Sundry Debtors.
+   * Keyed on the gateway's payment id, so the webhook and invoicing paths
+   * that both see a payment book it once.
+   */
+  async postPaymentReceipt(payment: {
+    gatewayPaymentId: string;
+    amount: number;
+    reference: string;
+    referenceId?: number | null;
+    receivedAt?: Date | string;
+    viaGateway?: boolean;
+  }, options: { tenantId?: string | null; postedBy?: number | null } = {}) {
+    return this.postFromSource({
+      tenantId: options.tenantId,
+      sourceRef: `payment_receipt:${payment.gatewayPaymentId}`,
+      referenceType: 'payment',
+      referenceId: payment.referenceId ?? null,
+      entryDate: payment.receivedAt,
+      description: `Payment received ${payment.reference}`,
+      createdBy: options.postedBy,
+      lines: [
+        {
+          accountCode: payment.viaGateway === false ? LEDGER_ACCOUNTS.BANK : LEDGER_ACCOUNTS.GATEWAY_CLEARING,
+          debit: payment.amount,
+          narration: payment.reference,
+        },
+        { accountCode: LEDGER_ACCOUNTS.SUNDRY_DEBTORS, credit: payment.amount },
+      ],
+    });
+  }
+
+  /**
+   * Accrue a commission payout: Dr Commission Expense and input GST, Cr Commission Payable (net of TDS),
+   * TDS Payable and, under reverse charge, output GST
+   */
+  async postCommissionAccrual(payout: {
+    id: number;
+    agentId: number;
+    amount: number;
+    periodEnd?: Date | string;
+    tds?: number;
+    gst?: { cgst: number; sgst: number; igst: number; reverseCharge: boolean };
+  }, options: { tenantId?: string | null; postedBy?: number | null } = {}) {
+    const tds = payout.tds ?? 0;
+    const gst = payout.gst;
+    const gstTotal = gst ? fromPaise(toPaise(gst.cgst) + toPaise(gst.sgst) + toPaise(gst.igst)) : 0;
+    // Forward-charge GST is owed to the agent; reverse-charge GST is self-assessed
+    const payable = fromPaise(toPaise(payout.amount) + (gst && !gst.reverseCharge ? toPaise(gstTotal) : 0) - toPaise(tds));
+
+    const lines: JournalLineInput[] = [{ accountCode: LEDGER_ACCOUNTS.COMMISSION_EXPENSE, debit: payout.amount }];
+    if (gst) {
+      if (gst.cgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.INPUT_CGST, debit: gst.cgst });
+      if (gst.sgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.INPUT_SGST, debit: gst.sgst });
+      if (gst.igst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.INPUT_IGST, debit: gst.igst });
+    }
+    if (payable > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.COMMISSION_PAYABLE, credit: payable });
+    if (tds > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.TDS_PAYABLE, credit: tds, narration: 'TDS u/s 194H' });
+    if (gst?.reverseCharge) {
+      if (gst.cgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_CGST, credit: gst.cgst });
+      if (gst.sgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_SGST, credit: gst.sgst });
+      if (gst.igst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_IGST, credit: gst.igst });
+    }
+
+    return this.postFromSource({
+      tenantId: options.tenantId,
+      sourceRef: `commission_payout:${payout.id}`,
+      referenceType: 'commission_payout',
+      referenceId: payout.id,
+      entryDate: payout.periodEnd,
+      description: `Commission accrued for agent ${payout.agentId} (payout #${payout.id})`,
+      createdBy: options.postedBy,
+      lines,
+    });
+  }
+
+  /**
+   * Settle a commission payout to the agent wallet: Dr Commission Payable, Cr Agent Wallet Balances
+   */
+  async postCommissionSettlement(payout: {
+    id: number;
+    agentId: number;
+    amount: number;
+    paymentReference?: string | null;
+  }, options: { tenantId?: string | null; postedBy?: number | null } = {}) {
+    return this.postFromSource({
+      tenantId: options.tenantId,
+      sourceRef: `commission_settlement:${payout.id}`,
+      referenceType: 'commission_payout',
+      referenceId: payout.id,
+      description: `Commission payout #${payout.id} credited to agent ${payout.agentId} wallet`,
+      createdBy: options.postedBy,
+      lines: [
+        { accountCode: LEDGER_ACCOUNTS.COMMISSION_PAYABLE, debit: payout.amount },
+        {
+          accountCode: LEDGER_ACCOUNTS.AGENT_WALLET_PAYABLE,
+          credit: payout.amount,
+          narration: payout.paymentReference || undefined,
+        },
+      ],
+    });
+  }
+
+  /**
+   * Post a gateway settlement: Dr Bank (net), Dr gateway fees and GST on fees, Cr Gateway Clearing (gross)
+   */
+  async postGatewaySettlement(settlement: {
+    id: number;
+    settlementId: string;
+    utr?: string | null;
+    amount: number;
+    fees: number;
+    tax: number;
+    settledAt?: Date | string;
+  }, options: { tenantId?: string | null } = {}) {
+    const feesExTax = Math.max(0, fromPaise(toPaise(settlement.fees) - toPaise(settlement.tax)));
+    const gross = fromPaise(toPaise(settlement.amount) + toPaise(settlement.fees));
+
+    const lines: JournalLineInput[] = [
+      { accountCode: LEDGER_ACCOUNTS.BANK, debit: settlement.amount, narration: settlement.utr || undefined },
+    ];
+    if (feesExTax > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.BANK_CHARGES, debit: feesExTax });
+    if (settlement.tax > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.INPUT_IGST, debit: settlement.tax });
+    lines.push({ accountCode: LEDGER_ACCOUNTS.GATEWAY_CLEARING, credit: gross });
+
+    return this.postFromSource({
+      tenantId: options.tenantId,
+      sourceRef: `settlement:${settlement.settlementId}`,
+      referenceType: 'settlement',
+      referenceId: settlement.id,
+      entryDate: settlement.settledAt,
+      description: `Gateway settlement ${settlement.settlementId}${settlement.utr ? ` (UTR ${settlement.utr})` : ''}`,
+      lines,
+    });
+  }
+
+  /**
+   * Post a vendor bill: Dr expense and input GST (expensed when ITC is blocked), Cr Sundry Creditors
+   */
+  async postVendorBill(bill: {
+    id: number;
+    billNumber: string;
+    billDate?: Date | string;
+    vendorName: string;
+    subtotal: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    total: number;
+    itcEligible?: boolean;
+    reverseCharge?: boolean;
+    expenseAccountCode?: string;
+  }, options: { tenantId?: string | null; postedBy?: number | null } = {}) {
+    const expenseCode = bill.expenseAccountCode || LEDGER_ACCOUNTS.GENERAL_EXPENSES;
+    const claimsCredit = bill.itcEligible !== false;
+    const expense = claimsCredit
+      ? bill.subtotal
+      : fromPaise(toPaise(bill.subtotal) + toPaise(bill.cgst) + toPaise(bill.sgst) + toPaise(bill.igst));
+
+    const lines: JournalLineInput[] = [{ accountCode: expenseCode, debit: expense }];
+    if (claimsCredit) {
+      if (bill.cgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.INPUT_CGST, debit: bill.cgst });
+      if (bill.sgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.INPUT_SGST, debit: bill.sgst });
+      if (bill.igst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.INPUT_IGST, debit: bill.igst });
+    }
+    if (bill.reverseCharge) {
+      // Tax under reverse charge is self-assessed, not owed to the vendor
+      lines.push({ accountCode: LEDGER_ACCOUNTS.SUNDRY_CREDITORS, credit: bill.subtotal, narration: bill.vendorName });
+      if (bill.cgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_CGST, credit: bill.cgst });
+      if (bill.sgst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_SGST, credit: bill.sgst });
+      if (bill.igst > 0) lines.push({ accountCode: LEDGER_ACCOUNTS.OUTPUT_IGST, credit: bill.igst });
+    } else {
+      lines.push({ accountCode: LEDGER_ACCOUNTS.SUNDRY_CREDITORS, credit: bill.total, narration: bill.vendorName });
+    }
+
+    return this.postFromSource({
+      tenantId: options.tenantId,
+      sourceRef: `vendor_bill:${bill.id}`,
+      referenceType: 'vendor_bill',
+      referenceId: bill.id,
+      entryDate: bill.billDate,
+      description: `Purchase bill ${bill.billNumber} from ${bill.vendorName}`,
+      createdBy: options.postedBy,
+      lines,
+    });
+  }
+
+  // ==========================================================================
+  // PRIVATE METHODS
+  // ==========================================================================
+
+  /**
+   * Create and post an entry for a source document exactly once.
+   * Returns the existing entry when the source was already posted, or null
+   * when no tenant ledger is available.
+   */
+  private async postFromSource(input: Omit<JournalEntryInput, 'tenantId'> & { tenantId?: string | null; sourceRef: string }) {
+    const tenantId = await this.resolveTenantId(input.tenantId);
+    if (!tenantId) {
+      logger.warn(`Skipping ledger posting for ${input.sourceRef}: no tenant ledger configured`);
+      return null;
+    }
+
+    const existing = await this.findBySourceRef(tenantId, input.sourceRef);
+    if (existing) return existing;
+
+    if (!this.seededTenants.has(tenantId)) {
+      await this.seedDefaultChart(tenantId);
+    }
+
+    try {
+      return await this.createJournalEntry({ ...input, tenantId }, { post: true });
+    } catch (error: any) {
+      // Lost a race with a concurrent posting of the same source
+      if (error?.code === '23505') {
+        return this.findBySourceRef(tenantId, input.sourceRef);
+      }
+      throw error;
+    }
+  }
+
+  private async findBySourceRef(tenantId: string, sourceRef: string) {
+    const [entry] = await db
+      .select()
+      .from(journalEntries)
+      .where(and(eq(journalEntries.tenantId, tenantId), eq(journalEntries.sourceRef, sourceRef)))
+      .limit(1);
+    return entry ?? null;
+  }
+
+  private async getAccountCodeMap(tenantId: string): Promise<Map<string, number>> {
+    const accounts = await db
+      .select({ id: chartOfAccounts.id, accountCode: chartOfAccounts.accountCode })
+      .from(chartOfAccounts)
+      .where(eq(chartOfAccounts.tenantId, tenantId));
+    return new Map(accounts.map((account) => [account.accountCode, account.id]));
+  }
+
+  /**
+   * Map each line to an active account belonging to the tenant
+   */
+  private async resolveLineAccounts(tenantId: string, lines: JournalLineInput[]): Promise<number[]> {
+    const accounts = await db
+      .select({ id: chartOfAccounts.id, accountCode: chartOfAccounts.accountCode, isActive: chartOfAccounts.isActive })
+      .from(chartOfAccounts)
+      .where(eq(chartOfAccounts.tenantId, tenantId));
+
+    const byId = new Map(accounts.map((account) => [account.id, account]));
+    const byCode = new Map(accounts.map((account) => [account.accountCode, account]));
+
+    return lines.map((line, index) => {
+      const account = line.accountId ? byId.get(line.accountId) : byCode.get(line.accountCode!);
+      if (!account) {
+        throw new ValidationError(`Line ${index + 1}: account ${line.accountId ?? line.accountCode} not found in chart of accounts`);
+      }
+      if (account.isActive === false) {
+        throw new ValidationError(`Line ${index + 1}: account ${account.accountCode} is inactive`);
+      }
+      return account.id;
+    });
+  }
+
+  /**
+   * Per-account base-currency totals over posted (and later reversed) entries
+   */
+  private async getAccountTotals(tenantId: string, range: { from?: string; to?: string }): Promise<AccountTotalsRow[]> {
+    const conditions = [
+      eq(journalEntries.tenantId, tenantId),
+      inArray(journalEntries.status, [JOURNAL_STATUS.POSTED, JOURNAL_STATUS.REVERSED]),
+    ];
+    if (range.from) conditions.push(gte(journalEntries.entryDate, range.from));
+    if (range.to) conditions.push(lte(journalEntries.entryDate, range.to));
+
+    const rows = await db
+      .select({
+        accountId: chartOfAccounts.id,
+        accountCode: chartOfAccounts.accountCode,
+        accountName: chartOfAccounts.accountName,
+        accountType: chartOfAccounts.accountType,
+        debit: sql<string>`COALESCE(SUM(${journalEntryLines.baseDebitAmount}), 0)`,
+        credit: sql<string>`COALESCE(SUM(${journalEntryLines.baseCreditAmount}), 0)`,
+      })
+      .from(journalEntryLines)
+      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+      .innerJoin(chartOfAccounts, eq(journalEntryLines.accountId, chartOfAccounts.id))
+      .where(and(...conditions))
+      .groupBy(chartOfAccounts.id, chartOfAccounts.accountCode, chartOfAccounts.accountName, chartOfAccounts.accountType)
+      .orderBy(asc(chartOfAccounts.accountCode));
+
+    return rows.map((row) => ({
+      ...row,
+      debit: parseFloat(row.debit),
+      credit: parseFloat(row.credit),
+    }));
+  }
+}
+
+export const ledgerService = new LedgerService();
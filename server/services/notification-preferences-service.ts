@@ -16,10 +16,11 @@
  */
 
 import { db } from '../db';
-import { notificationPreferences, notificationQueue } from '../../shared/enterprise-schema';
-import { users } from '../../shared/schema';
-import { eq, and, or, isNull, lte, gte, sql, desc } from 'drizzle-orm';
+import { notificationPreferences } from '../../shared/enterprise-schema';
+import type { NotificationDelivery } from '../../shared/schema';
+import { eq, and } from 'drizzle-orm';
 import { logger } from '../logger';
+import { enabledChannels, planChannels } from './notifications/dispatch-rules';
 
 // ============================================================================
 // TYPES
@@ -44,34 +45,16 @@ export interface NotificationPreference {
 }
 
 export interface NotificationRequest {
-  tenantId?: string;
   userId: number;
   notificationType: string;
   subject?: string;
   content: string;
   priority?: NotificationPriority;
-  templateId?: number;
   templateData?: Record<string, any>;
-  scheduledFor?: Date;
   channels?: NotificationChannel[];
   metadata?: Record<string, any>;
 }
 
-export interface QueuedNotification {
-  id: number;
-  userId: number;
-  notificationType: string;
-  channel: NotificationChannel;
-  subject?: string;
-  content: string;
-  priority: NotificationPriority;
-  status: string;
-  scheduledFor?: Date;
-  sentAt?: Date;
-  deliveredAt?: Date;
-  errorMessage?: string;
-}
-
 // ============================================================================
 // NOTIFICATION TYPES
 // ============================================================================
@@ -319,6 +302,14 @@ class NotificationPreferencesService {
     }
   }
 
+  /**
+   * Stored preference for a type, or the defaults when the user never set one
+   */
+  async getEffectivePreference(userId: number, notificationType: string): Promise<NotificationPreference> {
+    const pref = await this.getPreference(userId, notificationType);
+    return pref || { ...DEFAULT_PREFERENCES, userId, notificationType } as NotificationPreference;
+  }
+
   /**
    * Get effective channels for a notification
    * Considers user preferences, quiet hours, and frequency settings
@@ -329,274 +320,39 @@ class NotificationPreferencesService {
     priority: NotificationPriority = 'normal'
   ): Promise<NotificationChannel[]> {
     try {
-      let pref = await this.getPreference(userId, notificationType);
-
-      // If no specific preference, use default
-      if (!pref) {
-        pref = {
-          ...DEFAULT_PREFERENCES,
-          userId,
-          notificationType,
-        } as NotificationPreference;
-      }
+      const pref = await this.getEffectivePreference(userId, notificationType);
 
-      const channels: NotificationChannel[] = [];
-
-      // Check each channel
-      if (pref.emailEnabled) channels.push('email');
-      if (pref.smsEnabled) channels.push('sms');
-      if (pref.whatsappEnabled) channels.push('whatsapp');
-      if (pref.pushEnabled) channels.push('push');
-      if (pref.inAppEnabled) channels.push('in_app');
-
-      // If quiet hours are set and it's not urgent, check if we're in quiet hours
-      if (pref.quietHoursStart && pref.quietHoursEnd && priority !== 'urgent') {
-        const inQuietHours = this.isInQuietHours(
-          pref.quietHoursStart,
-          pref.quietHoursEnd,
-          pref.quietHoursTimezone
-        );
-
-        if (inQuietHours) {
-          // During quiet hours, only allow in-app notifications
-          return channels.filter(c => c === 'in_app');
-        }
-      }
-
-      // For urgent notifications, override and enable all configured channels
-      if (priority === 'urgent') {
-        const user = await this.getUserContactInfo(userId);
-        if (user.email && !channels.includes('email')) channels.push('email');
-        if (user.phone && !channels.includes('sms')) channels.push('sms');
-      }
-
-      return channels;
+      // Channels the dispatcher would send right now (held-back ones excluded)
+      return planChannels(enabledChannels(pref), pref, priority, new Date())
+        .filter(decision => decision.action === 'send')
+        .map(decision => decision.channel);
     } catch (error) {
       logger.error('Error getting enabled channels:', error);
       return ['in_app']; // Fallback to in-app only
     }
   }
 
-  /**
-   * Check if current time is within quiet hours
-   */
-  private isInQuietHours(start: string, end: string, timezone: string): boolean {
-    try {
-      const now = new Date();
-
-      // Parse time strings (format: "HH:MM")
-      const [startHour, startMin] = start.split(':').map(Number);
-      const [endHour, endMin] = end.split(':').map(Number);
-
-      // Get current time in the user's timezone
-      const formatter = new Intl.DateTimeFormat('en-US', {
-        hour: 'numeric',
-        minute: 'numeric',
-        hour12: false,
-        timeZone: timezone,
-      });
-
-      const parts = formatter.formatToParts(now);
-      const currentHour = parseInt(parts.find(p => p.type === 'hour')?.value || '0');
-      const currentMin = parseInt(parts.find(p => p.type === 'minute')?.value || '0');
-
-      const currentMinutes = currentHour * 60 + currentMin;
-      const startMinutes = startHour * 60 + startMin;
-      const endMinutes = endHour * 60 + endMin;
-
-      // Handle overnight quiet hours (e.g., 22:00 to 07:00)
-      if (startMinutes > endMinutes) {
-        return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
-      }
-
-      return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-    } catch {
-      return false;
-    }
-  }
-
-  /**
-   * Get user contact info for notifications
-   */
-  private async getUserContactInfo(userId: number): Promise<{ email?: string; phone?: string }> {
-    try {
-      const [user] = await db.select({
-        email: users.email,
-        phone: users.phone,
-      })
-        .from(users)
-        .where(eq(users.id, userId));
-
-      return {
-        email: user?.email || undefined,
-        phone: user?.phone || undefined,
-      };
-    } catch {
-      return {};
-    }
-  }
-
   /**
    * Queue a notification based on user preferences
+   * Delivery goes through the notification dispatcher; returns its idempotency key.
    */
-  async queueNotification(request: NotificationRequest): Promise<number[]> {
-    try {
-      const enabledChannels = request.channels ||
-        await this.getEnabledChannels(request.userId, request.notificationType, request.priority);
-
-      const queuedIds: number[] = [];
-
-      for (const channel of enabledChannels) {
-        const [queued] = await db.insert(notificationQueue).values({
-          tenantId: request.tenantId || null,
-          userId: request.userId,
-          notificationType: request.notificationType,
-          channel,
-          subject: request.subject || null,
-          content: request.content,
-          templateId: request.templateId || null,
-          templateData: request.templateData || null,
-          priority: request.priority || 'normal',
-          status: 'pending',
-          scheduledFor: request.scheduledFor || null,
-          maxRetries: 3,
-          createdAt: new Date(),
-        }).returning();
-
-        queuedIds.push(queued.id);
-      }
-
-      logger.info(`Queued ${queuedIds.length} notifications for user ${request.userId}`);
-      return queuedIds;
-    } catch (error) {
-      logger.error('Error queueing notification:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Get pending notifications for processing
-   */
-  async getPendingNotifications(batchSize: number = 50): Promise<QueuedNotification[]> {
-    try {
-      const now = new Date();
-
-      const pending = await db.select()
-        .from(notificationQueue)
-        .where(
-          and(
-            eq(notificationQueue.status, 'pending'),
-            or(
-              isNull(notificationQueue.scheduledFor),
-              lte(notificationQueue.scheduledFor, now)
-            )
-          )
-        )
-        .orderBy(
-          sql`CASE priority WHEN 'urgent' THEN 1 WHEN 'high' THEN 2 WHEN 'normal' THEN 3 ELSE 4 END`,
-          notificationQueue.createdAt
-        )
-        .limit(batchSize);
-
-      return pending.map(n => ({
-        id: n.id,
-        userId: n.userId!,
-        notificationType: n.notificationType,
-        channel: n.channel as NotificationChannel,
-        subject: n.subject || undefined,
-        content: n.content,
-        priority: (n.priority as NotificationPriority) || 'normal',
-        status: n.status || 'pending',
-        scheduledFor: n.scheduledFor || undefined,
-        sentAt: n.sentAt || undefined,
-        deliveredAt: n.deliveredAt || undefined,
-        errorMessage: n.errorMessage || undefined,
-      }));
-    } catch (error) {
-      logger.error('Error getting pending notifications:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Mark notification as sent
-   */
-  async markAsSent(notificationId: number, externalId?: string): Promise<void> {
-    try {
-      await db.update(notificationQueue)
-        .set({
-          status: 'sent',
-          sentAt: new Date(),
-          externalId: externalId || null,
-        })
-        .where(eq(notificationQueue.id, notificationId));
-    } catch (error) {
-      logger.error('Error marking notification as sent:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Mark notification as delivered
-   */
-  async markAsDelivered(notificationId: number): Promise<void> {
-    try {
-      await db.update(notificationQueue)
-        .set({
-          status: 'delivered',
-          deliveredAt: new Date(),
-        })
-        .where(eq(notificationQueue.id, notificationId));
-    } catch (error) {
-      logger.error('Error marking notification as delivered:', error);
-      throw error;
-    }
+  async queueNotification(request: NotificationRequest): Promise<string> {
+    const { notificationDispatcher } = await import('./notifications/notification-dispatcher');
+    const result = await notificationDispatcher.dispatch({
+      type: request.notificationType,
+      userId: request.userId,
+      channels: request.channels,
+      subject: request.subject,
+      content: request.content,
+      data: { ...request.templateData, ...request.metadata },
+      priority: request.priority,
+    });
+    logger.info(`Dispatched ${request.notificationType} notification for user ${request.userId}`);
+    return result.idempotencyKey;
   }
 
   /**
-   * Mark notification as failed
-   */
-  async markAsFailed(notificationId: number, errorMessage: string): Promise<void> {
-    try {
-      const [notification] = await db.select()
-        .from(notificationQueue)
-        .where(eq(notificationQueue.id, notificationId));
-
-      if (!notification) return;
-
-      const retryCount = (notification.retryCount || 0) + 1;
-      const maxRetries = notification.maxRetries || 3;
-
-      if (retryCount < maxRetries) {
-        // Schedule retry with exponential backoff
-        const delayMs = Math.pow(2, retryCount) * 1000;
-        const scheduledFor = new Date(Date.now() + delayMs);
-
-        await db.update(notificationQueue)
-          .set({
-            status: 'pending',
-            retryCount,
-            errorMessage,
-            scheduledFor,
-          })
-          .where(eq(notificationQueue.id, notificationId));
-      } else {
-        await db.update(notificationQueue)
-          .set({
-            status: 'failed',
-            retryCount,
-            errorMessage,
-          })
-          .where(eq(notificationQueue.id, notificationId));
-      }
-    } catch (error) {
-      logger.error('Error marking notification as failed:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Get notification history for a user
+   * Get notification history for a user (one entry per channel delivery)
    */
   async getNotificationHistory(
     userId: number,
@@ -606,45 +362,9 @@ class NotificationPreferencesService {
       limit?: number;
       offset?: number;
     } = {}
-  ): Promise<QueuedNotification[]> {
-    try {
-      const { channel, status, limit = 50, offset = 0 } = options;
-
-      const conditions = [eq(notificationQueue.userId, userId)];
-
-      if (channel) {
-        conditions.push(eq(notificationQueue.channel, channel));
-      }
-
-      if (status) {
-        conditions.push(eq(notificationQueue.status, status));
-      }
-
-      const notifications = await db.select()
-        .from(notificationQueue)
-        .where(and(...conditions))
-        .orderBy(desc(notificationQueue.createdAt))
-        .limit(limit)
-        .offset(offset);
-
-      return notifications.map(n => ({
-        id: n.id,
-        userId: n.userId!,
-        notificationType: n.notificationType,
-        channel: n.channel as NotificationChannel,
-        subject: n.subject || undefined,
-        content: n.content,
-        priority: (n.priority as NotificationPriority) || 'normal',
-        status: n.status || 'pending',
-        scheduledFor: n.scheduledFor || undefined,
-        sentAt: n.sentAt || undefined,
-        deliveredAt: n.deliveredAt || undefined,
-        errorMessage: n.errorMessage || undefined,
-      }));
-    } catch (error) {
-      logger.error('Error getting notification history:', error);
-      throw error;
-    }
+  ): Promise<NotificationDelivery[]> {
+    const { notificationDispatcher } = await import('./notifications/notification-dispatcher');
+    return notificationDispatcher.listDeliveries({ userId, ...options });
   }
 
   /**
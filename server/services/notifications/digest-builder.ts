@@ -0,0 +1,241 @@
+/**
+ * Notification Digest Builder
+ *
+ * Pure formatting for notification digests: the email and WhatsApp
+ * notifications held for a user's hourly/daily/weekly frequency, grouped by
+ * the business they concern and ordered by urgency, with a deep link back to
+ * the portal for each item.
+ */
+
+import type { DispatchPriority } from './dispatch-rules';
+
+// ============================================
+// TYPES
+// ============================================
+export interface DigestItem {
+  deliveryId: number;
+  notificationType: string;
+  priority: string | null;
+  frequency: string | null; // the batch frequency the item was held for
+  subject: string | null;
+  body: string | null;
+  businessEntityId: number | null;
+  referenceType: string | null;
+  referenceId: number | null;
+  link?: string | null; // portal deep link carried in the notification data
+  createdAt: Date;
+}
+
+export interface DigestEntry {
+  deliveryId: number;
+  priority: DispatchPriority;
+  title: string;
+  summary: string | null;
+  link: string;
+  createdAt: Date;
+}
+
+export interface DigestGroup {
+  businessEntityId: number | null;
+  entityName: string;
+  counts: Record<DispatchPriority, number>;
+  entries: DigestEntry[];
+}
+
+export interface Digest {
+  frequency: 'hourly' | 'daily' | 'weekly';
+  total: number;
+  counts: Record<DispatchPriority, number>;
+  groups: DigestGroup[];
+}
+
+const PRIORITY_ORDER: DispatchPriority[] = ['urgent', 'high', 'normal', 'low'];
+const FREQUENCY_ORDER: Digest['frequency'][] = ['hourly', 'daily', 'weekly'];
+const GENERAL_GROUP = 'General';
+const SUMMARY_LENGTH = 160;
+
+// ============================================
+// BUILDING
+// ============================================
+
+/**
+ * Group held notifications by business, most urgent group first (notifications
+ * not tied to a business last), and within a group by urgency then age.
+ * The digest is labelled with the widest frequency among its items.
+ */
+export function buildDigest(
+  items: DigestItem[],
+  options: { entityNames?: Record<number, string>; baseUrl?: string } = {}
+): Digest {
+  const baseUrl = (options.baseUrl || '').replace(/\/+$/, '');
+  const groups = new Map<string, DigestGroup>();
+
+  for (const item of items) {
+    const groupKey = item.businessEntityId ? String(item.businessEntityId) : 'general';
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = {
+        businessEntityId: item.businessEntityId,
+        entityName: (item.businessEntityId && options.entityNames?.[item.businessEntityId])
+          || (item.businessEntityId ? `Business #${item.businessEntityId}` : GENERAL_GROUP),
+        counts: emptyCounts(),
+        entries: [],
+      };
+      groups.set(groupKey, group);
+    }
+
+    const priority = normalizePriority(item.priority);
+    const title = item.subject?.trim() || humanizeType(item.notificationType);
+    const summary = item.body ? summarize(item.body) : null;
+    group.counts[priority]++;
+    group.entries.push({
+      deliveryId: item.deliveryId,
+      priority,
+      title,
+      summary: summary && summary !== title ? summary : null,
+      link: deepLink(item, baseUrl),
+      createdAt: item.createdAt,
+    });
+  }
+
+  const ordered = Array.from(groups.values());
+  for (const group of ordered) {
+    group.entries.sort((a, b) =>
+      priorityRank(a.priority) - priorityRank(b.priority) || a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+  ordered.sort((a, b) => {
+    if (!a.businessEntityId !== !b.businessEntityId) return a.businessEntityId ? -1 : 1;
+    return priorityRank(a.entries[0].priority) - priorityRank(b.entries[0].priority)
+      || a.entityName.localeCompare(b.entityName);
+  });
+
+  const counts = emptyCounts();
+  for (const group of ordered) {
+    for (const priority of PRIORITY_ORDER) counts[priority] += group.counts[priority];
+  }
+
+  const frequency = items.reduce<Digest['frequency']>((widest, item) => {
+    const rank = FREQUENCY_ORDER.indexOf(item.frequency as Digest['frequency']);
+    return rank > FREQUENCY_ORDER.indexOf(widest) ? FREQUENCY_ORDER[rank] : widest;
+  }, 'hourly');
+
+  return { frequency, total: items.length, counts, groups: ordered };
+}
+
+/**
+ * Where a digest item opens in the portal: the link the notification carried,
+ * else the page for what it references, else the notification center
+ */
+export function deepLink(
+  item: Pick<DigestItem, 'link' | 'referenceType' | 'referenceId'>,
+  baseUrl: string = ''
+): string {
+  const base = baseUrl.replace(/\/+$/, '');
+  if (item.link) {
+    return /^https?:\/\//.test(item.link) ? item.link : `${base}/${item.link.replace(/^\/+/, '')}`;
+  }
+
+  const type = (item.referenceType || '').toLowerCase();
+  if (type === 'service_request' && item.referenceId) return `${base}/service-request/${item.referenceId}`;
+  if (type.includes('compliance')) return `${base}/compliance-calendar`;
+  if (type.includes('document')) return `${base}/documents`;
+  return `${base}/notifications`;
+}
+
+/**
+ * Plain-text summary of a notification body, cut at a word boundary
+ */
+export function summarize(body: string, maxLength: number = SUMMARY_LENGTH): string {
+  const text = body
+    .replace(/<(br|\/p|\/div|\/li)\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+export function digestSubject(digest: Digest): string {
+  const label = digest.frequency.charAt(0).toUpperCase() + digest.frequency.slice(1);
+  const updates = `${digest.total} update${digest.total === 1 ? '' : 's'}`;
+  const businesses = digest.groups.filter(g => g.businessEntityId).length;
+  return businesses > 1
+    ? `${label} digest: ${updates} across ${businesses} businesses`
+    : `${label} digest: ${updates}`;
+}
+
+/**
+ * HTML fragment for the email body (the email channel wraps it in the
+ * branded layout)
+ */
+export function renderDigestHtml(digest: Digest): string {
+  const sections = digest.groups.map(group => {
+    const entries = group.entries.map(entry => `
+      <li style="margin-bottom: 12px;">
+        ${entry.priority === 'high' || entry.priority === 'urgent'
+          ? '<span style="color: #b91c1c; font-weight: bold;">[High priority]</span> '
+          : ''}<strong>${escapeHtml(entry.title)}</strong>
+        ${entry.summary ? `<br><span style="color: #4b5563;">${escapeHtml(entry.summary)}</span>` : ''}
+        <br><a href="${escapeHtml(entry.link)}">View details</a>
+      </li>`).join('');
+
+    return `
+    <h3 style="margin: 24px 0 8px;">${escapeHtml(group.entityName)} (${group.entries.length})</h3>
+    <ul style="padding-left: 20px;">${entries}
+    </ul>`;
+  }).join('');
+
+  return `<p>Here is your ${digest.frequency} summary of ${digest.total} notification${digest.total === 1 ? '' : 's'}.</p>${sections}`;
+}
+
+/**
+ * Plain-text digest for WhatsApp, using its *bold* markup
+ */
+export function renderDigestText(digest: Digest): string {
+  const lines = [`Your ${digest.frequency} DigiComply summary: ${digest.total} update${digest.total === 1 ? '' : 's'}`];
+  for (const group of digest.groups) {
+    lines.push('', `*${group.entityName}* (${group.entries.length})`);
+    for (const entry of group.entries) {
+      const flag = entry.priority === 'high' || entry.priority === 'urgent' ? '[High] ' : '';
+      lines.push(`• ${flag}${entry.title} - ${entry.link}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function emptyCounts(): Record<DispatchPriority, number> {
+  return { urgent: 0, high: 0, normal: 0, low: 0 };
+}
+
+function normalizePriority(value: string | null): DispatchPriority {
+  return PRIORITY_ORDER.includes(value as DispatchPriority) ? value as DispatchPriority : 'normal';
+}
+
+function priorityRank(priority: DispatchPriority): number {
+  return PRIORITY_ORDER.indexOf(priority);
+}
+
+function humanizeType(type: string): string {
+  const words = type.replace(/[._-]+/g, ' ').trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Notification';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,398 @@
+/**
+ * Notification Dispatch Rules
+ *
+ * Pure decisions used by the notification dispatcher:
+ * - which channels to send now, hold back or suppress for a recipient
+ * - which template version renders a channel/language
+ * - idempotency keys for deduplicating dispatches
+ * - how provider receipts move a delivery's status
+ */
+
+import crypto from 'crypto';
+
+// ============================================
+// TYPES
+// ============================================
+export type DispatchChannel = 'email' | 'sms' | 'whatsapp' | 'push' | 'in_app';
+export type DispatchFrequency = 'immediate' | 'hourly' | 'daily' | 'weekly';
+export type DispatchPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type DeliveryStatus =
+  | 'queued'
+  | 'deferred'
+  | 'batched'
+  | 'sent'
+  | 'delivered'
+  | 'read'
+  | 'bounced'
+  | 'failed'
+  | 'suppressed';
+
+export type ReceiptEvent = 'sent' | 'delivered' | 'read' | 'bounced' | 'failed';
+
+export interface ChannelPreference {
+  emailEnabled: boolean;
+  smsEnabled: boolean;
+  whatsappEnabled: boolean;
+  pushEnabled: boolean;
+  inAppEnabled: boolean;
+  frequency: DispatchFrequency;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  quietHoursTimezone?: string | null;
+}
+
+export type ChannelDecision =
+  | { channel: DispatchChannel; action: 'send' }
+  | { channel: DispatchChannel; action: 'defer'; until: Date; reason: 'quiet_hours' | 'frequency' }
+  | { channel: DispatchChannel; action: 'suppress'; reason: 'opted_out' };
+
+export interface TemplateCandidate {
+  templateKey: string;
+  version: number;
+  channel: string;
+  language: string;
+  subject: string | null;
+  body: string;
+  isActive: boolean | null;
+}
+
+export const DISPATCH_CHANNELS: DispatchChannel[] = ['email', 'sms', 'whatsapp', 'push', 'in_app'];
+export const DEFAULT_LANGUAGE = 'en';
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+// Channels whose frequency-held notifications go out as one digest; the rest
+// are released one by one when their batch window opens
+export const DIGEST_CHANNELS: DispatchChannel[] = ['email', 'whatsapp'];
+
+// Local hour at which daily and weekly (Monday) batches are released
+export const BATCH_RELEASE_HOUR = 9;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// ============================================
+// CHANNELS AND PREFERENCES
+// ============================================
+
+/**
+ * Map channel names from any of the older paths (EMAIL, INAPP, in-app) onto dispatcher channels
+ */
+export function normalizeChannel(value: unknown): DispatchChannel | null {
+  if (typeof value !== 'string') return null;
+  const channel = value.trim().toLowerCase().replace(/[-\s]/g, '_');
+  if (channel === 'inapp') return 'in_app';
+  return (DISPATCH_CHANNELS as string[]).includes(channel) ? (channel as DispatchChannel) : null;
+}
+
+export function enabledChannels(preference: ChannelPreference): DispatchChannel[] {
+  return DISPATCH_CHANNELS.filter(channel => isChannelEnabled(preference, channel));
+}
+
+function isChannelEnabled(preference: ChannelPreference, channel: DispatchChannel): boolean {
+  switch (channel) {
+    case 'email': return preference.emailEnabled;
+    case 'sms': return preference.smsEnabled;
+    case 'whatsapp': return preference.whatsappEnabled;
+    case 'push': return preference.pushEnabled;
+    case 'in_app': return preference.inAppEnabled;
+  }
+}
+
+/**
+ * Decide per channel whether to send now, hold until later or drop.
+ *
+ * Urgent notifications ignore preferences entirely. Otherwise opted-out
+ * channels are suppressed; in-app always lands in the feed straight away.
+ * Other channels wait out quiet hours, and low/normal priority notifications
+ * are held for the recipient's hourly/daily/weekly batch.
+ */
+export function planChannels(
+  channels: DispatchChannel[],
+  preference: ChannelPreference | null,
+  priority: DispatchPriority,
+  now: Date
+): ChannelDecision[] {
+  const unique = Array.from(new Set(channels));
+  if (!preference || priority === 'urgent') {
+    return unique.map(channel => ({ channel, action: 'send' as const }));
+  }
+
+  const timeZone = preference.quietHoursTimezone || DEFAULT_TIMEZONE;
+  const quietUntil = quietHoursEnd(now, preference.quietHoursStart, preference.quietHoursEnd, timeZone);
+  const batchUntil = priority === 'high' ? null : nextFrequencyWindow(now, preference.frequency, timeZone);
+
+  return unique.map((channel): ChannelDecision => {
+    if (!isChannelEnabled(preference, channel)) {
+      return { channel, action: 'suppress', reason: 'opted_out' };
+    }
+    if (channel === 'in_app') {
+      return { channel, action: 'send' };
+    }
+    if (batchUntil && (!quietUntil || batchUntil >= quietUntil)) {
+      return { channel, action: 'defer', until: batchUntil, reason: 'frequency' };
+    }
+    if (quietUntil) {
+      return { channel, action: 'defer', until: quietUntil, reason: 'quiet_hours' };
+    }
+    return { channel, action: 'send' };
+  });
+}
+
+// ============================================
+// QUIET HOURS AND BATCH WINDOWS
+// ============================================
+
+/**
+ * Minutes since midnight for 'HH:MM' or 'HH:MM:SS'
+ */
+export function parseClockTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function localClock(now: Date, timeZone: string): { minutes: number; weekday: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    return localClock(now, DEFAULT_TIMEZONE);
+  }
+  const value = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(value('weekday'));
+  return {
+    minutes: (Number(value('hour')) % 24) * 60 + Number(value('minute')),
+    weekday,
+  };
+}
+
+function minutesFromNow(now: Date, minutes: number): Date {
+  const startOfMinute = now.getTime() - (now.getTime() % 60000);
+  return new Date(startOfMinute + minutes * 60000);
+}
+
+export function isWithinQuietHours(
+  now: Date,
+  start: string | null | undefined,
+  end: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE
+): boolean {
+  return quietHoursEnd(now, start, end, timeZone) !== null;
+}
+
+/**
+ * When the current quiet period ends, or null when it is not quiet now.
+ * Overnight periods (22:00 to 07:00) wrap past midnight.
+ */
+export function quietHoursEnd(
+  now: Date,
+  start: string | null | undefined,
+  end: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date | null {
+  const startMinutes = parseClockTime(start);
+  const endMinutes = parseClockTime(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return null;
+
+  const { minutes } = localClock(now, timeZone);
+  const quiet = startMinutes < endMinutes
+    ? minutes >= startMinutes && minutes < endMinutes
+    : minutes >= startMinutes || minutes < endMinutes;
+  if (!quiet) return null;
+
+  return minutesFromNow(now, (endMinutes - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY);
+}
+
+/**
+ * Next release of an hourly/daily/weekly batch in the recipient's time zone;
+ * null for immediate delivery
+ */
+export function nextFrequencyWindow(
+  now: Date,
+  frequency: DispatchFrequency | string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date | null {
+  const { minutes, weekday } = localClock(now, timeZone);
+  const release = BATCH_RELEASE_HOUR * 60;
+
+  switch (frequency) {
+    case 'hourly':
+      return minutesFromNow(now, 60 - (minutes % 60));
+    case 'daily':
+      return minutesFromNow(now, (release - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY);
+    case 'weekly': {
+      let days = (1 - weekday + 7) % 7;
+      if (days === 0 && minutes >= release) days = 7;
+      return minutesFromNow(now, days * MINUTES_PER_DAY + release - minutes);
+    }
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+function languageFallbacks(language: string | null | undefined): string[] {
+  const requested = (language || DEFAULT_LANGUAGE).toLowerCase();
+  return Array.from(new Set([requested, requested.split('-')[0], DEFAULT_LANGUAGE]));
+}
+
+/**
+ * Latest active version of a template for a channel, trying the requested
+ * language, then its base language (hi-IN -> hi), then English
+ */
+export function selectTemplate(
+  candidates: TemplateCandidate[],
+  query: { templateKey: string; channel: DispatchChannel; language?: string | null }
+): TemplateCandidate | null {
+  const usable = candidates.filter(c =>
+    c.templateKey === query.templateKey &&
+    c.isActive !== false &&
+    normalizeChannel(c.channel) === query.channel
+  );
+
+  for (const language of languageFallbacks(query.language)) {
+    const matches = usable.filter(c => c.language.toLowerCase() === language);
+    if (matches.length > 0) {
+      return matches.reduce((latest, c) => (c.version > latest.version ? c : latest));
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace {{name}} and {{nested.path}} placeholders; unknown ones stay visible
+ */
+export function renderTemplate(template: string, variables: Record<string, any> = {}): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, path: string) => {
+    const value = path.split('.').reduce<any>(
+      (current, key) => (current === null || current === undefined ? undefined : current[key]),
+      variables
+    );
+    return value === null || value === undefined ? match : String(value);
+  });
+}
+
+export function templateVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g), m => m[1]);
+  return Array.from(new Set(names));
+}
+
+// ============================================
+// IDEMPOTENCY
+// ============================================
+
+/**
+ * Key identifying one recipient of a dispatch
+ */
+export function recipientKey(recipient: { userId?: number | null; email?: string | null; phone?: string | null }): string | null {
+  if (recipient.userId) return `user-${recipient.userId}`;
+  if (recipient.email) return `email-${recipient.email.trim().toLowerCase()}`;
+  if (recipient.phone) return `phone-${recipient.phone.replace(/\D/g, '')}`;
+  return null;
+}
+
+/**
+ * Index of the dedupe window containing `now`; identical dispatches inside
+ * one window share a key
+ */
+export function dedupeBucket(now: Date, windowMinutes: number): number {
+  return Math.floor(now.getTime() / (Math.max(1, windowMinutes) * 60000));
+}
+
+/**
+ * Derive an idempotency key when the caller did not supply one. Safe for
+ * BullMQ job ids (no colons).
+ */
+export function dispatchIdempotencyKey(parts: {
+  type: string;
+  templateKey?: string | null;
+  referenceType?: string | null;
+  referenceId?: number | null;
+  recipients: string[];
+  content?: string | null;
+  bucket: number;
+}): string {
+  const hash = crypto.createHash('sha256')
+    .update(JSON.stringify([
+      parts.type,
+      parts.templateKey || null,
+      parts.referenceType || null,
+      parts.referenceId ?? null,
+      [...parts.recipients].sort(),
+      parts.content || null,
+      parts.bucket,
+    ]))
+    .digest('hex')
+    .slice(0, 32);
+  return `ntf-${parts.type.replace(/[^\w-]/g, '_')}-${hash}`;
+}
+
+// ============================================
+// DELIVERY RECEIPTS
+// ============================================
+
+const PROGRESS_RANK: Partial<Record<DeliveryStatus, number>> = {
+  queued: 0,
+  deferred: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+/**
+ * Status a delivery moves to when a receipt arrives, or null when the receipt
+ * is stale (delivered after read) or the delivery already ended
+ */
+export function applyReceiptEvent(current: DeliveryStatus, event: ReceiptEvent): DeliveryStatus | null {
+  const rank = PROGRESS_RANK[current];
+  if (rank === undefined) return null;
+
+  switch (event) {
+    case 'failed':
+    case 'bounced':
+      return rank <= 1 ? event : null;
+    default:
+      return PROGRESS_RANK[event]! > rank ? event : null;
+  }
+}
+
+const PROVIDER_STATUSES: Record<string, ReceiptEvent> = {
+  accepted: 'sent',
+  sent: 'sent',
+  processed: 'sent',
+  delivered: 'delivered',
+  delivery: 'delivered',
+  read: 'read',
+  open: 'read',
+  opened: 'read',
+  bounce: 'bounced',
+  bounced: 'bounced',
+  undelivered: 'bounced',
+  dropped: 'bounced',
+  blocked: 'bounced',
+  failed: 'failed',
+  error: 'failed',
+  rejected: 'failed',
+};
+
+/**
+ * Map provider status names (Twilio, WhatsApp Cloud API, SendGrid-style
+ * email events) onto receipt events
+ */
+export function normalizeReceiptStatus(value: unknown): ReceiptEvent | null {
+  if (typeof value !== 'string') return null;
+  return PROVIDER_STATUSES[value.trim().toLowerCase()] || null;
+}
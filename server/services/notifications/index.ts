@@ -10,3 +10,5 @@ export { EmailService, EmailPayload } from './channels/email.service';
 export { SMSService, SMSPayload } from './channels/sms.service';
 export { WhatsAppService, WhatsAppPayload } from './channels/whatsapp.service';
 export { PushService, PushPayload } from './channels/push.service';
+export { notificationDispatcher, NotificationDispatcher, DispatchRequest, DispatchResult, DeliveryOutcome } from './notification-dispatcher';
+export { notificationDigestService, NotificationDigestService, DigestPreview } from './notification-digest-service';
@@ -0,0 +1,206 @@
+/**
+ * Notification Digest Service
+ *
+ * Sends the email and WhatsApp notifications held for a user's hourly, daily
+ * or weekly frequency as one summary per channel. The dispatcher queues a
+ * digest job for the user's batch window; the engine's release sweep covers
+ * in-process mode and lost jobs.
+ *
+ * Held deliveries are claimed atomically (deferred -> batched) so a digest job
+ * and the sweep never send the same notification twice, then linked to the
+ * digest delivery that carried them.
+ */
+
+import crypto from 'crypto';
+import { db } from '../../db';
+import { and, eq, inArray, isNotNull, lte } from 'drizzle-orm';
+import { businessEntities, notificationDeliveries, type NotificationDelivery } from '@shared/schema';
+import { notificationDispatcher, type DeliveryOutcome, type DispatchResult } from './notification-dispatcher';
+import { DIGEST_CHANNELS, type DispatchChannel } from './dispatch-rules';
+import {
+  buildDigest,
+  digestSubject,
+  renderDigestHtml,
+  renderDigestText,
+  type Digest,
+  type DigestItem,
+} from './digest-builder';
+import { logger } from '../../logger';
+
+export const DIGEST_NOTIFICATION_TYPE = 'notification_digest';
+
+export interface DigestPreview {
+  nextDigestAt: Date | null;
+  channels: DispatchChannel[];
+  subject: string | null;
+  digest: Digest | null;
+  heldForLater: number; // held for a later window (e.g. weekly types)
+}
+
+const PORTAL_BASE_URL = process.env.FRONTEND_URL || process.env.APP_URL || '';
+
+// ============================================
+// NOTIFICATION DIGEST SERVICE CLASS
+// ============================================
+class NotificationDigestService {
+  /**
+   * Send the digest of every user with held notifications that are due
+   */
+  async sendDueDigests(now: Date = new Date(), limit: number = 100): Promise<number> {
+    const due = await db.selectDistinct({ userId: notificationDeliveries.userId })
+      .from(notificationDeliveries)
+      .where(and(
+        eq(notificationDeliveries.status, 'deferred'),
+        isNotNull(notificationDeliveries.batchFrequency),
+        isNotNull(notificationDeliveries.userId),
+        lte(notificationDeliveries.scheduledFor, now)
+      ))
+      .limit(limit);
+
+    let sent = 0;
+    for (const { userId } of due) {
+      try {
+        if (userId && await this.sendDigest(userId, now)) sent++;
+      } catch (error) {
+        logger.error(`Notification digest for user ${userId} failed:`, error);
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Claim a user's due held notifications and send one digest per channel.
+   * Returns null when nothing was due (another worker got there first).
+   */
+  async sendDigest(userId: number, now: Date = new Date()): Promise<DispatchResult | null> {
+    const claimed = await db.update(notificationDeliveries)
+      .set({ status: 'batched', updatedAt: now })
+      .where(and(
+        eq(notificationDeliveries.userId, userId),
+        eq(notificationDeliveries.status, 'deferred'),
+        isNotNull(notificationDeliveries.batchFrequency),
+        lte(notificationDeliveries.scheduledFor, now)
+      ))
+      .returning();
+    if (claimed.length === 0) return null;
+
+    const idempotencyKey = `ntf-digest-${userId}-${crypto.createHash('sha256')
+      .update(claimed.map(row => row.id).sort((a, b) => a - b).join(','))
+      .digest('hex')
+      .slice(0, 32)}`;
+    const entityNames = await this.entityNames(claimed);
+    const deliveries: DeliveryOutcome[] = [];
+
+    for (const channel of DIGEST_CHANNELS) {
+      const rows = claimed.filter(row => row.channel === channel);
+      if (rows.length === 0) continue;
+
+      const digest = buildDigest(rows.map(row => this.toDigestItem(row)), { entityNames, baseUrl: PORTAL_BASE_URL });
+      const result = await notificationDispatcher.deliver({
+        type: DIGEST_NOTIFICATION_TYPE,
+        userId,
+        channels: [channel],
+        templateKey: DIGEST_NOTIFICATION_TYPE,
+        subject: digestSubject(digest),
+        content: channel === 'email' ? renderDigestHtml(digest) : renderDigestText(digest),
+        priority: 'normal',
+        idempotencyKey,
+        respectPreferences: false, // already held for the user's window
+      });
+
+      const outcome = result.deliveries[0];
+      const sent = outcome?.status === 'sent' || outcome?.status === 'delivered';
+      await db.update(notificationDeliveries)
+        .set({
+          digestDeliveryId: outcome?.deliveryId || null,
+          // Keep the content of items whose digest failed so ops can resend them
+          ...(sent ? { pendingPayload: null, sentAt: now } : { statusReason: 'digest_failed' }),
+          updatedAt: new Date(),
+        })
+        .where(inArray(notificationDeliveries.id, rows.map(row => row.id)));
+
+      if (outcome) deliveries.push(outcome);
+    }
+
+    logger.info(`Sent ${digestLabel(claimed)} digest of ${claimed.length} held deliveries to user ${userId}`);
+    return { idempotencyKey, deliveries };
+  }
+
+  /**
+   * What the user's next digest would contain if it went out now
+   */
+  async previewNextDigest(userId: number): Promise<DigestPreview> {
+    const held = await db.select()
+      .from(notificationDeliveries)
+      .where(and(
+        eq(notificationDeliveries.userId, userId),
+        eq(notificationDeliveries.status, 'deferred'),
+        isNotNull(notificationDeliveries.batchFrequency)
+      ))
+      .orderBy(notificationDeliveries.scheduledFor);
+
+    if (held.length === 0) {
+      return { nextDigestAt: null, channels: [], subject: null, digest: null, heldForLater: 0 };
+    }
+
+    const nextDigestAt = held[0].scheduledFor;
+    const next = held.filter(row => !nextDigestAt || !row.scheduledFor || row.scheduledFor <= nextDigestAt);
+
+    // The same notification held on email and WhatsApp appears once
+    const unique = new Map<string, NotificationDelivery>();
+    for (const row of next) {
+      const key = `${row.idempotencyKey}|${row.recipientKey}`;
+      if (!unique.has(key)) unique.set(key, row);
+    }
+
+    const digest = buildDigest(
+      Array.from(unique.values()).map(row => this.toDigestItem(row)),
+      { entityNames: await this.entityNames(next), baseUrl: PORTAL_BASE_URL }
+    );
+    return {
+      nextDigestAt,
+      channels: DIGEST_CHANNELS.filter(channel => next.some(row => row.channel === channel)),
+      subject: digestSubject(digest),
+      digest,
+      heldForLater: held.length - next.length,
+    };
+  }
+
+  private toDigestItem(row: NotificationDelivery): DigestItem {
+    const message = row.pendingPayload as { body?: string | null; data?: Record<string, any> } | null;
+    return {
+      deliveryId: row.id,
+      notificationType: row.notificationType,
+      priority: row.priority,
+      frequency: row.batchFrequency,
+      subject: row.subject,
+      body: message?.body || null,
+      businessEntityId: row.businessEntityId,
+      referenceType: row.referenceType,
+      referenceId: row.referenceId,
+      link: typeof message?.data?.portalDeepLink === 'string' ? message.data.portalDeepLink : null,
+      createdAt: row.createdAt || new Date(),
+    };
+  }
+
+  private async entityNames(rows: NotificationDelivery[]): Promise<Record<number, string>> {
+    const ids = Array.from(new Set(
+      rows.map(row => row.businessEntityId).filter((id): id is number => typeof id === 'number')
+    ));
+    if (ids.length === 0) return {};
+
+    const entities = await db.select({ id: businessEntities.id, name: businessEntities.name })
+      .from(businessEntities)
+      .where(inArray(businessEntities.id, ids));
+    return Object.fromEntries(entities.map(entity => [entity.id, entity.name]));
+  }
+}
+
+function digestLabel(rows: NotificationDelivery[]): string {
+  const frequencies = Array.from(new Set(rows.map(row => row.batchFrequency).filter(Boolean)));
+  return frequencies.join('/') || 'batched';
+}
+
+// Export singleton instance
+export const notificationDigestService = new NotificationDigestService();
+export { NotificationDigestService };
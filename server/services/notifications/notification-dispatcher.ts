@@ -0,0 +1,911 @@
+/**
+ * Notification Dispatcher
+ *
+ * The single path every notification takes. A dispatch is queued on the
+ * NOTIFICATIONS queue under its idempotency key; the worker then:
+ * 1. Resolves recipients (users, roles, a client's owner, raw addresses)
+ * 2. Applies each user's notification preferences (opt-outs, quiet hours, frequency)
+ * 3. Renders the latest template version for the channel and language
+ * 4. Claims one delivery row per recipient and channel (duplicates insert nothing)
+ * 5. Sends, holds for later, or suppresses, recording the outcome on the row
+ *
+ * Email and WhatsApp held for a user's hourly/daily/weekly frequency are not
+ * released one by one; the digest service sends them together.
+ *
+ * Provider receipts (delivered, bounced, read) update the same rows, which ops
+ * query per client.
+ */
+
+import { db } from '../../db';
+import { and, desc, eq, gte, inArray, isNull, lte, sql, type SQL } from 'drizzle-orm';
+import {
+  businessEntities,
+  notificationDeliveries,
+  notificationTemplateVersions,
+  notificationTemplates,
+  serviceRequests,
+  users,
+  type NotificationDelivery,
+  type NotificationTemplateVersion,
+} from '@shared/schema';
+import { notifications } from '../../db/schema/notifications';
+import { EmailService } from './channels/email.service';
+import { SMSService } from './channels/sms.service';
+import { WhatsAppService } from './channels/whatsapp.service';
+import { PushService } from './channels/push.service';
+import type { NotificationResult } from './notification-hub';
+import { addJob, QueueNames } from '../../queues';
+import { notificationPreferencesService } from '../notification-preferences-service';
+import { NotFoundError, ValidationError } from '../../errors';
+import { logger } from '../../logger';
+import {
+  DEFAULT_LANGUAGE,
+  DIGEST_CHANNELS,
+  DISPATCH_CHANNELS,
+  applyReceiptEvent,
+  dedupeBucket,
+  dispatchIdempotencyKey,
+  enabledChannels,
+  normalizeChannel,
+  planChannels,
+  recipientKey,
+  renderTemplate,
+  selectTemplate,
+  templateVariables,
+  type ChannelDecision,
+  type DeliveryStatus,
+  type DispatchChannel,
+  type DispatchFrequency,
+  type DispatchPriority,
+  type ReceiptEvent,
+  type TemplateCandidate,
+} from './dispatch-rules';
+
+// ============================================
+// TYPES
+// ============================================
+export interface DispatchRecipient {
+  userId?: number | null;
+  email?: string | null;
+  phone?: string | null;
+  name?: string | null;
+  language?: string | null;
+  businessEntityId?: number | null;
+}
+
+export interface DispatchRequest {
+  type: string;
+  channels?: string[]; // defaults to the channels each user has enabled
+
+  // Recipients (any combination)
+  userId?: number;
+  userIds?: number[];
+  roles?: string[];
+  businessEntityId?: number; // the client; its owner is notified when no one else is named
+  to?: string; // raw email or phone
+  recipients?: DispatchRecipient[];
+
+  // Content: a template, or subject/content rendered with data
+  templateKey?: string;
+  language?: string;
+  subject?: string;
+  content?: string;
+  data?: Record<string, any>;
+
+  priority?: DispatchPriority;
+  referenceType?: string;
+  referenceId?: number;
+
+  idempotencyKey?: string;
+  dedupeWindowMinutes?: number; // for derived keys (default 60)
+  respectPreferences?: boolean; // default true; OTPs and security alerts pass false
+}
+
+export interface DeliveryOutcome {
+  deliveryId: number | null;
+  channel: DispatchChannel;
+  recipientKey: string;
+  status: DeliveryStatus;
+  duplicate: boolean;
+  providerMessageId?: string | null;
+  notificationId?: number | null;
+  scheduledFor?: Date | null;
+  error?: string | null;
+}
+
+export interface DispatchResult {
+  idempotencyKey: string;
+  jobId?: string | null;
+  deliveries: DeliveryOutcome[];
+}
+
+export interface DeliveryFilters {
+  businessEntityId?: number;
+  userId?: number;
+  channel?: string;
+  status?: string;
+  notificationType?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+interface ResolvedRecipient {
+  key: string;
+  userId: number | null;
+  email: string | null;
+  phone: string | null;
+  name: string | null;
+  language: string | null;
+  businessEntityId: number | null;
+}
+
+// What a channel needs to send; kept on deferred deliveries until release
+interface RenderedMessage {
+  subject: string | null;
+  body: string | null;
+  templateKey: string | null;
+  templateVersion: number | null;
+  language: string;
+  providerTemplateId: string | null; // built-in channel template when no stored version applies
+  data: Record<string, any>;
+}
+
+type DispatchJob =
+  | { kind: 'dispatch'; request: DispatchRequest }
+  | { kind: 'deliver_deferred'; deliveryId: number }
+  | { kind: 'digest'; userId: number };
+
+const DEFAULT_DEDUPE_WINDOW_MINUTES = 60;
+
+const RECEIPT_TIMESTAMPS: Record<ReceiptEvent, 'sentAt' | 'deliveredAt' | 'readAt' | 'bouncedAt' | 'failedAt'> = {
+  sent: 'sentAt',
+  delivered: 'deliveredAt',
+  read: 'readAt',
+  bounced: 'bouncedAt',
+  failed: 'failedAt',
+};
+
+const DEFAULT_SUBJECTS: Record<string, string> = {
+  otp: 'Your Verification Code',
+  welcome: 'Welcome to DigiComply',
+  status_update: 'Service Status Update',
+  reminder: 'Reminder',
+  alert: 'Important Alert',
+  payment: 'Payment Notification',
+  compliance: 'Compliance Update',
+};
+
+// ============================================
+// NOTIFICATION DISPATCHER CLASS
+// ============================================
+class NotificationDispatcher {
+  private emailService = new EmailService();
+  private smsService = new SMSService();
+  private whatsappService = new WhatsAppService();
+  private pushService = new PushService();
+
+  /**
+   * Queue a notification. Re-dispatching the same key is a no-op.
+   */
+  async dispatch(request: DispatchRequest): Promise<DispatchResult> {
+    const idempotencyKey = this.idempotencyKeyFor(request);
+    const jobId = await addJob<DispatchJob>(
+      QueueNames.NOTIFICATIONS,
+      'dispatch',
+      { kind: 'dispatch', request: { ...request, idempotencyKey } },
+      { jobId: idempotencyKey }
+    );
+    return { idempotencyKey, jobId, deliveries: [] };
+  }
+
+  /**
+   * Run the pipeline in-process and report what happened per channel
+   */
+  async deliver(request: DispatchRequest): Promise<DispatchResult> {
+    if (!request.type) {
+      throw new ValidationError('Notification type is required');
+    }
+    const idempotencyKey = this.idempotencyKeyFor(request);
+    const now = new Date();
+    const priority = request.priority || 'normal';
+    const recipients = await this.resolveRecipients(request);
+    const templates = request.templateKey ? await this.loadTemplateCandidates(request.templateKey) : [];
+
+    if (recipients.length === 0) {
+      logger.warn(`Notification ${request.type} (${idempotencyKey}) has no recipients`);
+    }
+
+    const deliveries: DeliveryOutcome[] = [];
+    for (const recipient of recipients) {
+      const preference = recipient.userId && request.respectPreferences !== false
+        ? await notificationPreferencesService.getEffectivePreference(recipient.userId, request.type)
+        : null;
+
+      const requested = request.channels
+        ? request.channels.map(normalizeChannel).filter((c): c is DispatchChannel => c !== null)
+        : preference ? enabledChannels(preference) : this.reachableChannels(recipient);
+
+      for (const decision of planChannels(requested, preference, priority, now)) {
+        const language = recipient.language || request.language || DEFAULT_LANGUAGE;
+        const message = this.renderMessage(templates, request, decision.channel, language, recipient);
+        deliveries.push(await this.deliverToChannel(
+          idempotencyKey, request, recipient, decision, message, preference?.frequency || null
+        ));
+      }
+    }
+
+    return { idempotencyKey, deliveries };
+  }
+
+  /**
+   * NOTIFICATIONS queue processor. Jobs queued before the dispatcher carried
+   * the request fields at the top level; those are treated as a dispatch.
+   */
+  async processJob(data: DispatchJob | DispatchRequest): Promise<DispatchResult | DeliveryOutcome | null> {
+    if ('kind' in data && data.kind === 'deliver_deferred') {
+      return this.releaseDelivery(data.deliveryId);
+    }
+    if ('kind' in data && data.kind === 'digest') {
+      const { notificationDigestService } = await import('./notification-digest-service');
+      return notificationDigestService.sendDigest(data.userId);
+    }
+    if ('kind' in data && data.kind === 'dispatch') {
+      return this.deliver(data.request);
+    }
+    return this.deliver(data as DispatchRequest);
+  }
+
+  /**
+   * Send deferred deliveries whose time has come. The delayed queue job
+   * normally does this; the sweep covers in-process mode and lost jobs.
+   */
+  async releaseDueDeliveries(limit: number = 100): Promise<number> {
+    const due = await db.select({ id: notificationDeliveries.id })
+      .from(notificationDeliveries)
+      .where(and(
+        eq(notificationDeliveries.status, 'deferred'),
+        isNull(notificationDeliveries.batchFrequency),
+        lte(notificationDeliveries.scheduledFor, new Date())
+      ))
+      .orderBy(notificationDeliveries.scheduledFor)
+      .limit(limit);
+
+    let released = 0;
+    for (const { id } of due) {
+      if (await this.releaseDelivery(id)) released++;
+    }
+    return released;
+  }
+
+  /**
+   * Send one deferred delivery if it is due and nobody else has claimed it.
+   * Deliveries held for a digest are left to the digest service.
+   */
+  async releaseDelivery(deliveryId: number): Promise<DeliveryOutcome | null> {
+    const [claimed] = await db.update(notificationDeliveries)
+      .set({ status: 'queued', updatedAt: new Date() })
+      .where(and(
+        eq(notificationDeliveries.id, deliveryId),
+        eq(notificationDeliveries.status, 'deferred'),
+        isNull(notificationDeliveries.batchFrequency),
+        lte(notificationDeliveries.scheduledFor, new Date())
+      ))
+      .returning();
+    if (!claimed) return null;
+
+    const message = claimed.pendingPayload as RenderedMessage | null;
+    if (!message) {
+      return this.finish(claimed, { channel: claimed.channel as DispatchChannel, success: false, error: 'Deferred content missing' });
+    }
+
+    const recipient: ResolvedRecipient = {
+      key: claimed.recipientKey,
+      userId: claimed.userId,
+      email: claimed.channel === 'email' ? claimed.recipientAddress : null,
+      phone: claimed.channel === 'email' ? null : claimed.recipientAddress,
+      name: message.data.userName || null,
+      language: claimed.language,
+      businessEntityId: claimed.businessEntityId,
+    };
+    return this.sendAndRecord(claimed, recipient, message);
+  }
+
+  // ============================================
+  // RECEIPTS
+  // ============================================
+
+  /**
+   * Apply a provider receipt to a delivery found by id or provider message id.
+   * Stale receipts (delivered after read) are acknowledged but change nothing.
+   */
+  async recordReceipt(receipt: {
+    deliveryId?: number;
+    providerMessageId?: string;
+    event: ReceiptEvent;
+    reason?: string | null;
+    occurredAt?: Date;
+  }): Promise<{ delivery: NotificationDelivery; applied: boolean }> {
+    const condition = receipt.deliveryId
+      ? eq(notificationDeliveries.id, receipt.deliveryId)
+      : receipt.providerMessageId
+        ? eq(notificationDeliveries.providerMessageId, receipt.providerMessageId)
+        : null;
+    if (!condition) {
+      throw new ValidationError('A delivery id or provider message id is required');
+    }
+
+    const [delivery] = await db.select().from(notificationDeliveries).where(condition).limit(1);
+    if (!delivery) {
+      throw new NotFoundError('Notification delivery');
+    }
+
+    const next = applyReceiptEvent(delivery.status as DeliveryStatus, receipt.event);
+    if (!next) {
+      return { delivery, applied: false };
+    }
+
+    const [updated] = await db.update(notificationDeliveries)
+      .set({
+        status: next,
+        [RECEIPT_TIMESTAMPS[receipt.event]]: receipt.occurredAt || new Date(),
+        ...(receipt.reason ? { statusReason: receipt.reason } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(notificationDeliveries.id, delivery.id))
+      .returning();
+    return { delivery: updated, applied: true };
+  }
+
+  /**
+   * Read receipts for in-app feed items (all of a user's when no ids are given)
+   */
+  async markInAppRead(userId: number, notificationIds?: number[]): Promise<void> {
+    const conditions: SQL[] = [
+      eq(notificationDeliveries.userId, userId),
+      eq(notificationDeliveries.channel, 'in_app'),
+      eq(notificationDeliveries.status, 'delivered'),
+    ];
+    if (notificationIds) {
+      if (notificationIds.length === 0) return;
+      conditions.push(inArray(notificationDeliveries.notificationId, notificationIds));
+    }
+    await db.update(notificationDeliveries)
+      .set({ status: 'read', readAt: new Date(), updatedAt: new Date() })
+      .where(and(...conditions));
+  }
+
+  // ============================================
+  // QUERIES
+  // ============================================
+
+  async listDeliveries(filters: DeliveryFilters = {}): Promise<NotificationDelivery[]> {
+    return db.select()
+      .from(notificationDeliveries)
+      .where(and(...this.filterConditions(filters)))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(Math.min(filters.limit || 50, 500))
+      .offset(filters.offset || 0);
+  }
+
+  /**
+   * Counts per channel and status, e.g. for a client's delivery health
+   */
+  async summarizeDeliveries(filters: DeliveryFilters = {}) {
+    const rows = await db.select({
+      channel: notificationDeliveries.channel,
+      status: notificationDeliveries.status,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(notificationDeliveries)
+      .where(and(...this.filterConditions(filters)))
+      .groupBy(notificationDeliveries.channel, notificationDeliveries.status);
+
+    const byChannel: Record<string, Record<string, number>> = {};
+    for (const row of rows) {
+      byChannel[row.channel] = { ...byChannel[row.channel], [row.status]: Number(row.count) };
+    }
+    return {
+      total: rows.reduce((sum, row) => sum + Number(row.count), 0),
+      byChannel,
+    };
+  }
+
+  async getDelivery(id: number): Promise<NotificationDelivery> {
+    const [delivery] = await db.select().from(notificationDeliveries).where(eq(notificationDeliveries.id, id));
+    if (!delivery) {
+      throw new NotFoundError('Notification delivery');
+    }
+    return delivery;
+  }
+
+  private filterConditions(filters: DeliveryFilters): SQL[] {
+    const conditions: SQL[] = [];
+    if (filters.businessEntityId) conditions.push(eq(notificationDeliveries.businessEntityId, filters.businessEntityId));
+    if (filters.userId) conditions.push(eq(notificationDeliveries.userId, filters.userId));
+    if (filters.channel) conditions.push(eq(notificationDeliveries.channel, filters.channel));
+    if (filters.status) conditions.push(eq(notificationDeliveries.status, filters.status));
+    if (filters.notificationType) conditions.push(eq(notificationDeliveries.notificationType, filters.notificationType));
+    if (filters.from) conditions.push(gte(notificationDeliveries.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(notificationDeliveries.createdAt, filters.to));
+    return conditions;
+  }
+
+  // ============================================
+  // TEMPLATES
+  // ============================================
+
+  async listTemplateVersions(templateKey: string): Promise<NotificationTemplateVersion[]> {
+    return db.select()
+      .from(notificationTemplateVersions)
+      .where(eq(notificationTemplateVersions.templateKey, templateKey))
+      .orderBy(notificationTemplateVersions.channel, notificationTemplateVersions.language, desc(notificationTemplateVersions.version));
+  }
+
+  /**
+   * Add the next version of a template for one channel and language
+   */
+  async publishTemplateVersion(
+    templateKey: string,
+    input: { channel: unknown; language?: unknown; subject?: unknown; body: unknown },
+    createdBy?: number
+  ): Promise<NotificationTemplateVersion> {
+    const channel = normalizeChannel(input.channel);
+    const errors: string[] = [];
+    if (!channel) errors.push(`channel: must be one of ${DISPATCH_CHANNELS.join(', ')}`);
+    if (typeof input.body !== 'string' || !input.body.trim()) errors.push('body: is required');
+    if (input.subject !== undefined && input.subject !== null && typeof input.subject !== 'string') {
+      errors.push('subject: must be a string');
+    }
+    if (input.language !== undefined && (typeof input.language !== 'string' || !/^[a-z]{2}(-[A-Za-z]{2})?$/.test(input.language))) {
+      errors.push('language: must be a language code such as en or hi-IN');
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid template version', { errors });
+    }
+
+    const language = ((input.language as string | undefined) || DEFAULT_LANGUAGE).toLowerCase();
+    const subject = (input.subject as string | undefined) || null;
+    const body = input.body as string;
+
+    return db.transaction(async (tx) => {
+      const [latest] = await tx.select({ version: sql<number>`max(${notificationTemplateVersions.version})` })
+        .from(notificationTemplateVersions)
+        .where(and(
+          eq(notificationTemplateVersions.templateKey, templateKey),
+          eq(notificationTemplateVersions.channel, channel!),
+          eq(notificationTemplateVersions.language, language)
+        ));
+
+      const [created] = await tx.insert(notificationTemplateVersions).values({
+        templateKey,
+        version: Number(latest?.version || 0) + 1,
+        channel: channel!,
+        language,
+        subject,
+        body,
+        variables: templateVariables(`${subject || ''} ${body}`),
+        isActive: true,
+        createdBy: createdBy || null,
+      }).returning();
+      return created;
+    });
+  }
+
+  /**
+   * Render what a recipient would get on a channel, without sending
+   */
+  async previewTemplate(templateKey: string, options: { channel: unknown; language?: string; data?: Record<string, any> }) {
+    const channel = normalizeChannel(options.channel);
+    if (!channel) {
+      throw new ValidationError(`channel must be one of ${DISPATCH_CHANNELS.join(', ')}`);
+    }
+    const template = selectTemplate(await this.loadTemplateCandidates(templateKey), {
+      templateKey,
+      channel,
+      language: options.language,
+    });
+    if (!template) {
+      throw new NotFoundError(`Template ${templateKey} for ${channel}`);
+    }
+    const data = options.data || {};
+    return {
+      templateKey,
+      channel,
+      version: template.version,
+      language: template.language,
+      renderedSubject: template.subject ? renderTemplate(template.subject, data) : null,
+      renderedBody: renderTemplate(template.body, data),
+      missingVariables: templateVariables(`${template.subject || ''} ${template.body}`)
+        .filter(name => renderTemplate(`{{${name}}}`, data) === `{{${name}}}`),
+    };
+  }
+
+  private async loadTemplateCandidates(templateKey: string): Promise<TemplateCandidate[]> {
+    const [versions, legacy] = await Promise.all([
+      db.select().from(notificationTemplateVersions).where(eq(notificationTemplateVersions.templateKey, templateKey)),
+      db.select().from(notificationTemplates).where(eq(notificationTemplates.templateKey, templateKey)),
+    ]);
+
+    return [
+      ...versions.map((v): TemplateCandidate => ({
+        templateKey: v.templateKey,
+        version: v.version,
+        channel: v.channel,
+        language: v.language,
+        subject: v.subject,
+        body: v.body,
+        isActive: v.isActive,
+      })),
+      ...legacy.map((t): TemplateCandidate => ({
+        templateKey: t.templateKey,
+        version: 0,
+        channel: t.channel,
+        language: DEFAULT_LANGUAGE,
+        subject: t.subject,
+        body: t.body,
+        isActive: t.isActive,
+      })),
+    ];
+  }
+
+  private renderMessage(
+    templates: TemplateCandidate[],
+    request: DispatchRequest,
+    channel: DispatchChannel,
+    language: string,
+    recipient: ResolvedRecipient
+  ): RenderedMessage {
+    const data = { ...request.data, userName: recipient.name || undefined, content: request.content };
+    const template = request.templateKey
+      ? selectTemplate(templates, { templateKey: request.templateKey, channel, language })
+      : null;
+
+    if (template) {
+      return {
+        subject: template.subject ? renderTemplate(template.subject, data) : null,
+        body: renderTemplate(template.body, data),
+        templateKey: template.templateKey,
+        templateVersion: template.version,
+        language: template.language,
+        providerTemplateId: null,
+        data,
+      };
+    }
+
+    return {
+      subject: request.subject ? renderTemplate(request.subject, data) : null,
+      body: request.content ? renderTemplate(request.content, data) : null,
+      templateKey: request.templateKey || null,
+      templateVersion: null,
+      language,
+      providerTemplateId: request.templateKey || null,
+      data,
+    };
+  }
+
+  // ============================================
+  // RECIPIENTS
+  // ============================================
+
+  private async resolveRecipients(request: DispatchRequest): Promise<ResolvedRecipient[]> {
+    const businessEntityId = request.businessEntityId || await this.clientForReference(request);
+    const resolved = new Map<string, ResolvedRecipient>();
+    const add = (recipient: Omit<ResolvedRecipient, 'key'>) => {
+      const key = recipientKey(recipient);
+      if (key && !resolved.has(key)) {
+        resolved.set(key, { ...recipient, key });
+      }
+    };
+
+    const directEmail = request.to?.includes('@') ? request.to : null;
+    const directPhone = request.to && !request.to.includes('@') ? request.to : null;
+
+    const userIds = Array.from(new Set(
+      [request.userId, ...(request.userIds || [])].filter((id): id is number => typeof id === 'number' && id > 0)
+    ));
+    const userRows = [
+      ...(userIds.length > 0 ? await this.selectUsers(inArray(users.id, userIds)) : []),
+      ...(request.roles && request.roles.length > 0
+        ? await this.selectUsers(and(inArray(users.role, request.roles), eq(users.isActive, true))!)
+        : []),
+    ];
+
+    for (const user of userRows) {
+      const isAddressee = request.userId === user.id;
+      add({
+        userId: user.id,
+        email: (isAddressee && directEmail) || user.email,
+        phone: (isAddressee && directPhone) || user.phone,
+        name: user.fullName || user.username,
+        language: null,
+        businessEntityId: businessEntityId || user.businessEntityId,
+      });
+    }
+
+    for (const recipient of request.recipients || []) {
+      add({
+        userId: recipient.userId || null,
+        email: recipient.email || null,
+        phone: recipient.phone || null,
+        name: recipient.name || null,
+        language: recipient.language || null,
+        businessEntityId: recipient.businessEntityId || businessEntityId,
+      });
+    }
+
+    if (request.to && !(request.userId && resolved.has(`user-${request.userId}`))) {
+      add({ userId: null, email: directEmail, phone: directPhone, name: null, language: null, businessEntityId });
+    }
+
+    // A client with nobody named: notify its owner, or its contact details
+    if (resolved.size === 0 && request.businessEntityId) {
+      const [entity] = await db.select().from(businessEntities).where(eq(businessEntities.id, request.businessEntityId));
+      if (entity) {
+        const [owner] = await this.selectUsers(eq(users.id, entity.ownerId));
+        add({
+          userId: owner?.id || null,
+          email: owner?.email || entity.contactEmail,
+          phone: owner?.phone || entity.contactPhone,
+          name: owner?.fullName || entity.name,
+          language: null,
+          businessEntityId: entity.id,
+        });
+      }
+    }
+
+    return Array.from(resolved.values());
+  }
+
+  private selectUsers(condition: SQL) {
+    return db.select({
+      id: users.id,
+      email: users.email,
+      phone: users.phone,
+      fullName: users.fullName,
+      username: users.username,
+      businessEntityId: users.businessEntityId,
+    }).from(users).where(condition);
+  }
+
+  private async clientForReference(request: DispatchRequest): Promise<number | null> {
+    if (request.referenceType !== 'service_request' || !request.referenceId) return null;
+    const [sr] = await db.select({ businessEntityId: serviceRequests.businessEntityId, entityId: serviceRequests.entityId })
+      .from(serviceRequests)
+      .where(eq(serviceRequests.id, request.referenceId));
+    return sr?.businessEntityId || sr?.entityId || null;
+  }
+
+  private reachableChannels(recipient: ResolvedRecipient): DispatchChannel[] {
+    if (recipient.userId) return ['in_app'];
+    const channels: DispatchChannel[] = [];
+    if (recipient.email) channels.push('email');
+    if (recipient.phone) channels.push('sms');
+    return channels;
+  }
+
+  private idempotencyKeyFor(request: DispatchRequest): string {
+    if (request.idempotencyKey) return request.idempotencyKey;
+    return dispatchIdempotencyKey({
+      type: request.type,
+      templateKey: request.templateKey,
+      referenceType: request.referenceType,
+      referenceId: request.referenceId,
+      recipients: [
+        ...[request.userId, ...(request.userIds || [])].filter(Boolean).map(id => `user-${id}`),
+        ...(request.roles || []).map(role => `role-${role}`),
+        ...(request.businessEntityId ? [`client-${request.businessEntityId}`] : []),
+        ...(request.to ? [`to-${request.to}`] : []),
+        ...(request.recipients || []).map(r => recipientKey(r) || ''),
+      ],
+      content: [request.subject, request.content, request.data ? JSON.stringify(request.data) : null].join('|'),
+      bucket: dedupeBucket(new Date(), request.dedupeWindowMinutes || DEFAULT_DEDUPE_WINDOW_MINUTES),
+    });
+  }
+
+  // ============================================
+  // DELIVERY
+  // ============================================
+
+  private async deliverToChannel(
+    idempotencyKey: string,
+    request: DispatchRequest,
+    recipient: ResolvedRecipient,
+    decision: ChannelDecision,
+    message: RenderedMessage,
+    frequency: DispatchFrequency | null
+  ): Promise<DeliveryOutcome> {
+    const { channel } = decision;
+    const status: DeliveryStatus = decision.action === 'send' ? 'queued'
+      : decision.action === 'defer' ? 'deferred'
+        : 'suppressed';
+    const batchFrequency = decision.action === 'defer' && decision.reason === 'frequency'
+      && recipient.userId && DIGEST_CHANNELS.includes(channel)
+      ? frequency
+      : null;
+
+    const [claimed] = await db.insert(notificationDeliveries).values({
+      idempotencyKey,
+      recipientKey: recipient.key,
+      channel,
+      notificationType: request.type,
+      priority: request.priority || 'normal',
+      userId: recipient.userId,
+      businessEntityId: recipient.businessEntityId,
+      recipientAddress: channel === 'email' ? recipient.email : ['sms', 'whatsapp'].includes(channel) ? recipient.phone : null,
+      templateKey: message.templateKey,
+      templateVersion: message.templateVersion,
+      language: message.language,
+      subject: message.subject,
+      referenceType: request.referenceType || null,
+      referenceId: request.referenceId || null,
+      status,
+      statusReason: decision.action === 'send' ? null : decision.reason,
+      scheduledFor: decision.action === 'defer' ? decision.until : null,
+      pendingPayload: decision.action === 'defer' ? message : null,
+      batchFrequency,
+    }).onConflictDoNothing().returning();
+
+    if (!claimed) {
+      const [existing] = await db.select()
+        .from(notificationDeliveries)
+        .where(and(
+          eq(notificationDeliveries.idempotencyKey, idempotencyKey),
+          eq(notificationDeliveries.recipientKey, recipient.key),
+          eq(notificationDeliveries.channel, channel)
+        ));
+      return this.outcome(existing, true);
+    }
+
+    if (decision.action === 'defer' && batchFrequency) {
+      // One job per user and window; whichever runs first sends the whole digest
+      await addJob<DispatchJob>(
+        QueueNames.NOTIFICATIONS,
+        'digest',
+        { kind: 'digest', userId: recipient.userId! },
+        { delay: Math.max(0, decision.until.getTime() - Date.now()), jobId: `ntf-digest-${recipient.userId}-${decision.until.getTime()}` }
+      );
+      return this.outcome(claimed, false);
+    }
+    if (decision.action === 'defer') {
+      await addJob<DispatchJob>(
+        QueueNames.NOTIFICATIONS,
+        'deliver-deferred',
+        { kind: 'deliver_deferred', deliveryId: claimed.id },
+        { delay: Math.max(0, decision.until.getTime() - Date.now()), jobId: `ntf-delivery-${claimed.id}` }
+      );
+      return this.outcome(claimed, false);
+    }
+    if (decision.action === 'suppress') {
+      return this.outcome(claimed, false);
+    }
+
+    return this.sendAndRecord(claimed, recipient, message);
+  }
+
+  private async sendAndRecord(
+    delivery: NotificationDelivery,
+    recipient: ResolvedRecipient,
+    message: RenderedMessage
+  ): Promise<DeliveryOutcome> {
+    const channel = delivery.channel as DispatchChannel;
+    let result: NotificationResult & { notificationId?: number };
+    try {
+      result = await this.sendToChannel(channel, delivery, recipient, message);
+    } catch (error) {
+      result = { channel, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    return this.finish(delivery, result);
+  }
+
+  private async finish(
+    delivery: NotificationDelivery,
+    result: NotificationResult & { notificationId?: number }
+  ): Promise<DeliveryOutcome> {
+    const now = new Date();
+    const status: DeliveryStatus = !result.success ? 'failed' : delivery.channel === 'in_app' ? 'delivered' : 'sent';
+
+    const [updated] = await db.update(notificationDeliveries)
+      .set({
+        status,
+        statusReason: result.success ? null : result.error || 'Send failed',
+        providerMessageId: result.messageId || null,
+        notificationId: result.notificationId || null,
+        pendingPayload: null,
+        sentAt: result.success ? now : null,
+        deliveredAt: status === 'delivered' ? now : null,
+        failedAt: result.success ? null : now,
+        updatedAt: now,
+      })
+      .where(eq(notificationDeliveries.id, delivery.id))
+      .returning();
+
+    if (!result.success) {
+      logger.warn(`Notification delivery ${delivery.id} (${delivery.channel}) failed: ${result.error}`);
+    }
+    return this.outcome(updated, false);
+  }
+
+  private async sendToChannel(
+    channel: DispatchChannel,
+    delivery: NotificationDelivery,
+    recipient: ResolvedRecipient,
+    message: RenderedMessage
+  ): Promise<NotificationResult & { notificationId?: number }> {
+    const subject = message.subject || DEFAULT_SUBJECTS[delivery.notificationType] || 'DigiComply Notification';
+
+    switch (channel) {
+      case 'email':
+        if (!recipient.email) throw new Error('Email address required');
+        return this.emailService.send({
+          to: recipient.email,
+          subject,
+          ...(message.templateVersion !== null && message.body
+            ? { html: message.body.replace(/\n/g, '<br>') }
+            : { templateId: message.providerTemplateId || undefined, data: message.data }),
+        });
+
+      case 'sms':
+        if (!recipient.phone) throw new Error('Phone number required');
+        return this.smsService.send({
+          to: recipient.phone,
+          message: message.body || undefined,
+          templateId: message.providerTemplateId || undefined,
+          data: message.data,
+        });
+
+      case 'whatsapp':
+        if (!recipient.phone) throw new Error('Phone number required');
+        return this.whatsappService.send({
+          to: recipient.phone,
+          templateId: message.templateKey || 'default',
+          data: { ...message.data, body: message.body },
+        });
+
+      case 'push':
+        if (!recipient.userId) throw new Error('User ID required for push');
+        return this.pushService.send({
+          userId: recipient.userId,
+          title: subject,
+          body: message.body || '',
+          data: message.data,
+        });
+
+      case 'in_app': {
+        if (!recipient.userId) throw new Error('User ID required for in-app');
+        const [feedItem] = await db.insert(notifications).values({
+          userId: recipient.userId,
+          type: delivery.notificationType,
+          channel: 'in_app',
+          status: 'delivered',
+          subject: message.subject,
+          content: message.body,
+          payload: message.data,
+          referenceType: delivery.referenceType,
+          referenceId: delivery.referenceId,
+          deliveredAt: new Date(),
+        }).returning();
+        return { channel: 'in_app', success: true, notificationId: feedItem.id };
+      }
+    }
+  }
+
+  private outcome(delivery: NotificationDelivery, duplicate: boolean): DeliveryOutcome {
+    return {
+      deliveryId: delivery.id,
+      channel: delivery.channel as DispatchChannel,
+      recipientKey: delivery.recipientKey,
+      status: delivery.status as DeliveryStatus,
+      duplicate,
+      providerMessageId: delivery.providerMessageId,
+      notificationId: delivery.notificationId,
+      scheduledFor: delivery.scheduledFor,
+      error: delivery.status === 'failed' ? delivery.statusReason : null,
+    };
+  }
+}
+
+// Export singleton instance
+export const notificationDispatcher = new NotificationDispatcher();
+export { NotificationDispatcher };
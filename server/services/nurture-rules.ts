@@ -0,0 +1,392 @@
+/**
+ * Nurture Sequence Rules
+ *
+ * The shape of a nurture sequence and how an enrollment moves through it,
+ * kept free of database and channel access.
+ *
+ * A sequence is a list of steps, each with a key. Steps run in list order
+ * unless a step names its `next` step; a branch step picks `then` or `else`
+ * from what has happened since the lead was enrolled. A wait step pauses the
+ * enrollment for a number of days. The enrollment completes after the last
+ * step, or when a step's next is 'end'.
+ *
+ * Enrollments stop early when the lead converts or unsubscribes.
+ */
+
+export type NurtureStepType = 'email' | 'whatsapp' | 'task' | 'wait' | 'branch';
+export type BranchCondition = 'proposal_viewed' | 'reply_received' | 'stage_changed';
+export type EnrollmentStatus = 'active' | 'completed' | 'converted' | 'unsubscribed' | 'stopped';
+export type StepOutcome = 'sent' | 'failed' | 'skipped' | 'task_created' | 'waited' | 'branch_then' | 'branch_else';
+export type FollowUpObjective = 'schedule_call' | 'send_proposal' | 'close_deal' | 're_engage';
+
+export const STEP_TYPES: NurtureStepType[] = ['email', 'whatsapp', 'task', 'wait', 'branch'];
+export const BRANCH_CONDITIONS: BranchCondition[] = ['proposal_viewed', 'reply_received', 'stage_changed'];
+export const FOLLOW_UP_OBJECTIVES: FollowUpObjective[] = ['schedule_call', 'send_proposal', 'close_deal', 're_engage'];
+export const END_OF_SEQUENCE = 'end';
+
+const MAX_STEPS = 50;
+const MAX_WAIT_DAYS = 365;
+const STEP_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+interface BaseStep {
+  key: string;
+  type: NurtureStepType;
+  next?: string; // defaults to the following step
+}
+
+export interface EmailStep extends BaseStep {
+  type: 'email';
+  subject?: string;
+  body?: string;
+  aiObjective?: FollowUpObjective; // draft the email with the sales assistant instead
+}
+
+export interface WhatsAppStep extends BaseStep {
+  type: 'whatsapp';
+  message: string;
+}
+
+export interface TaskStep extends BaseStep {
+  type: 'task';
+  title: string;
+  description?: string;
+  dueInDays?: number;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+}
+
+export interface WaitStep extends BaseStep {
+  type: 'wait';
+  days: number;
+}
+
+export interface BranchStep extends BaseStep {
+  type: 'branch';
+  condition: BranchCondition;
+  stage?: string; // stage_changed: only a move to this stage counts
+  then: string;
+  else: string;
+}
+
+export type NurtureStep = EmailStep | WhatsAppStep | TaskStep | WaitStep | BranchStep;
+
+/**
+ * Which leads a sequence is for; an empty or missing list matches any value
+ */
+export interface SegmentCriteria {
+  sources?: string[];
+  services?: string[];
+  states?: string[];
+  stages?: string[];
+  priorities?: string[];
+  entityTypes?: string[];
+  minValue?: number;
+}
+
+export interface LeadState {
+  status?: string | null;
+  leadStage?: string | null;
+  convertedAt?: Date | null;
+  mergedIntoId?: number | null;
+  nurtureOptedOutAt?: Date | null;
+}
+
+export interface EnrollmentSignals {
+  proposalViewedAt?: string | null;
+  repliedAt?: string | null;
+}
+
+export interface StepEventRecord {
+  enrollmentId: number;
+  stepKey: string;
+  outcome: StepOutcome;
+  occurredAt: Date;
+}
+
+export interface EnrollmentRecord {
+  id: number;
+  status: EnrollmentStatus;
+}
+
+export interface StepMetrics {
+  key: string;
+  type: NurtureStepType;
+  reached: number; // enrollments that ran the step
+  sent: number;
+  failed: number;
+  skipped: number;
+  branchThen: number;
+  branchElse: number;
+  converted: number; // of those reaching the step, how many converted
+  conversionRate: number | null; // percent
+  lastTouchConversions: number; // converted with this as the last step run
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isNonEmpty(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isPositiveDays(value: unknown, max = MAX_WAIT_DAYS): boolean {
+  return typeof value === 'number' && value > 0 && value <= max;
+}
+
+/**
+ * Problems with a sequence's steps, empty when it can be saved. Besides each
+ * step's own fields, every referenced step must exist and the sequence must
+ * not loop without a wait in the loop.
+ */
+export function stepErrors(steps: unknown): string[] {
+  if (!Array.isArray(steps) || steps.length === 0) return ['steps must be a non-empty list'];
+  if (steps.length > MAX_STEPS) return [`a sequence can have at most ${MAX_STEPS} steps`];
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  steps.forEach((step: any, i: number) => {
+    const label = `step ${i + 1}`;
+    if (!step || typeof step !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof step.key !== 'string' || !STEP_KEY_PATTERN.test(step.key) || step.key === END_OF_SEQUENCE) {
+      errors.push(`${label} needs a key of lower-case letters, digits, _ or -`);
+    } else if (keys.has(step.key)) {
+      errors.push(`${label} repeats key ${step.key}`);
+    } else {
+      keys.add(step.key);
+    }
+
+    switch (step.type) {
+      case 'email':
+        if (!step.aiObjective && (!isNonEmpty(step.subject) || !isNonEmpty(step.body))) {
+          errors.push(`${label} needs a subject and body, or an aiObjective`);
+        }
+        if (step.aiObjective && !FOLLOW_UP_OBJECTIVES.includes(step.aiObjective)) {
+          errors.push(`${label} aiObjective must be one of: ${FOLLOW_UP_OBJECTIVES.join(', ')}`);
+        }
+        break;
+      case 'whatsapp':
+        if (!isNonEmpty(step.message)) errors.push(`${label} needs a message`);
+        break;
+      case 'task':
+        if (!isNonEmpty(step.title)) errors.push(`${label} needs a title`);
+        if (step.dueInDays != null && !isPositiveDays(step.dueInDays, 90)) errors.push(`${label} dueInDays must be 1-90`);
+        break;
+      case 'wait':
+        if (!isPositiveDays(step.days)) errors.push(`${label} days must be more than 0 and at most ${MAX_WAIT_DAYS}`);
+        break;
+      case 'branch':
+        if (!BRANCH_CONDITIONS.includes(step.condition)) {
+          errors.push(`${label} condition must be one of: ${BRANCH_CONDITIONS.join(', ')}`);
+        }
+        if (!isNonEmpty(step.then) || !isNonEmpty(step.else)) errors.push(`${label} needs then and else steps`);
+        break;
+      default:
+        errors.push(`${label} type must be one of: ${STEP_TYPES.join(', ')}`);
+    }
+  });
+  if (errors.length > 0) return errors;
+
+  const typed = steps as NurtureStep[];
+  for (const step of typed) {
+    for (const target of targetsOf(step)) {
+      if (target !== END_OF_SEQUENCE && !keys.has(target)) {
+        errors.push(`step ${step.key} points to unknown step ${target}`);
+      }
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  const loop = loopWithoutWait(typed);
+  if (loop) errors.push(`steps ${loop.join(' -> ')} loop without a wait`);
+  return errors;
+}
+
+/**
+ * Key of the step after `step`, or null at the end of the sequence
+ */
+function followingKey(steps: NurtureStep[], step: NurtureStep): string | null {
+  if (step.next) return step.next === END_OF_SEQUENCE ? null : step.next;
+  const index = steps.findIndex(s => s.key === step.key);
+  return steps[index + 1]?.key ?? null;
+}
+
+function targetsOf(step: NurtureStep): string[] {
+  if (step.type === 'branch') return [step.then, step.else];
+  return step.next ? [step.next] : [];
+}
+
+function loopWithoutWait(steps: NurtureStep[]): string[] | null {
+  const byKey = new Map(steps.map(step => [step.key, step]));
+  const successors = (step: NurtureStep): string[] => {
+    if (step.type === 'branch') return [step.then, step.else].filter(key => key !== END_OF_SEQUENCE);
+    const next = followingKey(steps, step);
+    return next ? [next] : [];
+  };
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+  const visit = (key: string): string[] | null => {
+    const step = byKey.get(key);
+    if (!step || step.type === 'wait' || state.get(key) === 'done') return null;
+    if (state.get(key) === 'visiting') return [...path.slice(path.indexOf(key)), key];
+    state.set(key, 'visiting');
+    path.push(key);
+    for (const next of successors(step)) {
+      const loop = visit(next);
+      if (loop) return loop;
+    }
+    path.pop();
+    state.set(key, 'done');
+    return null;
+  };
+
+  for (const step of steps) {
+    const loop = visit(step.key);
+    if (loop) return loop;
+  }
+  return null;
+}
+
+// ============================================================================
+// SEGMENTS
+// ============================================================================
+
+function normalize(value: string | null | undefined): string {
+  return (value || '').trim().toLowerCase();
+}
+
+export type SegmentField = 'leadSource' | 'serviceInterested' | 'state' | 'priority' | 'entityType' | 'leadStage' | 'status';
+
+export interface SegmentFilters {
+  // the lead matches a filter when any of its fields equals one of the values
+  lists: Array<{ fields: SegmentField[]; values: string[] }>;
+  minValue: number | null;
+}
+
+const SEGMENT_FIELDS: Array<[keyof Omit<SegmentCriteria, 'minValue'>, SegmentField[]]> = [
+  ['sources', ['leadSource']],
+  ['services', ['serviceInterested']],
+  ['states', ['state']],
+  ['priorities', ['priority']],
+  ['entityTypes', ['entityType']],
+  ['stages', ['leadStage', 'status']],
+];
+
+/**
+ * A segment as filters on lead fields, compared trimmed and lower-cased, for
+ * the service to put in the lead query. Empty lists are dropped.
+ */
+export function segmentFilters(segment: SegmentCriteria | null | undefined): SegmentFilters {
+  const lists = SEGMENT_FIELDS.flatMap(([key, fields]) => {
+    const values = Array.from(new Set((segment?.[key] || []).map(normalize).filter(Boolean)));
+    return values.length > 0 ? [{ fields, values }] : [];
+  });
+  return { lists, minValue: segment?.minValue ?? null };
+}
+
+// ============================================================================
+// RUNNING AN ENROLLMENT
+// ============================================================================
+
+export function stageOf(lead: LeadState): string {
+  return normalize(lead.leadStage || lead.status || 'new');
+}
+
+/**
+ * Why an enrollment should stop before its next step, or null to carry on
+ */
+export function stopReason(lead: LeadState): Extract<EnrollmentStatus, 'converted' | 'unsubscribed' | 'stopped'> | null {
+  if (lead.convertedAt || normalize(lead.status) === 'converted' || normalize(lead.leadStage) === 'converted') {
+    return 'converted';
+  }
+  if (lead.nurtureOptedOutAt) return 'unsubscribed';
+  if (lead.mergedIntoId) return 'stopped';
+  return null;
+}
+
+/**
+ * Whether a branch step's condition holds for the enrollment
+ */
+export function branchHolds(
+  step: BranchStep,
+  facts: { signals: EnrollmentSignals; stageAtEnrollment: string | null; currentStage: string }
+): boolean {
+  switch (step.condition) {
+    case 'proposal_viewed':
+      return !!facts.signals.proposalViewedAt;
+    case 'reply_received':
+      return !!facts.signals.repliedAt;
+    case 'stage_changed':
+      if (step.stage) return facts.currentStage === normalize(step.stage);
+      return facts.currentStage !== normalize(facts.stageAtEnrollment || 'new');
+  }
+}
+
+/**
+ * Key of the step to run after `step`; for a branch, `branchResult` picks
+ * then or else. Null when the sequence is finished.
+ */
+export function nextStepKey(steps: NurtureStep[], step: NurtureStep, branchResult?: boolean): string | null {
+  if (step.type === 'branch') {
+    const target = branchResult ? step.then : step.else;
+    return target === END_OF_SEQUENCE ? null : target;
+  }
+  return followingKey(steps, step);
+}
+
+/**
+ * Fill {{placeholders}} in step content; unknown placeholders become empty
+ */
+export function renderTemplate(text: string, variables: Record<string, string | null | undefined>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => variables[name] ?? '');
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/**
+ * Per-step reach, delivery and conversion. An enrollment counts once per
+ * step however many times a loop brought it back there.
+ */
+export function stepMetrics(
+  steps: NurtureStep[],
+  events: StepEventRecord[],
+  enrollments: EnrollmentRecord[]
+): StepMetrics[] {
+  const converted = new Set(enrollments.filter(e => e.status === 'converted').map(e => e.id));
+
+  const lastStep = new Map<number, StepEventRecord>();
+  for (const event of events) {
+    const last = lastStep.get(event.enrollmentId);
+    if (event.outcome !== 'waited' && (!last || event.occurredAt >= last.occurredAt)) {
+      lastStep.set(event.enrollmentId, event);
+    }
+  }
+
+  return steps.map(step => {
+    const stepEvents = events.filter(event => event.stepKey === step.key);
+    const reachedBy = new Set(stepEvents.map(event => event.enrollmentId));
+    const count = (outcome: StepOutcome) =>
+      new Set(stepEvents.filter(event => event.outcome === outcome).map(event => event.enrollmentId)).size;
+    const convertedHere = Array.from(reachedBy).filter(id => converted.has(id)).length;
+
+    return {
+      key: step.key,
+      type: step.type,
+      reached: reachedBy.size,
+      sent: count('sent') + count('task_created'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      branchThen: count('branch_then'),
+      branchElse: count('branch_else'),
+      converted: convertedHere,
+      conversionRate: reachedBy.size > 0 ? Math.round((convertedHere / reachedBy.size) * 1000) / 10 : null,
+      lastTouchConversions: Array.from(converted).filter(id => lastStep.get(id)?.stepKey === step.key).length,
+    };
+  });
+}
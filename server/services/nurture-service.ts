@@ -0,0 +1,761 @@
+/**
+ * Lead Nurture Service
+ *
+ * Runs multi-step nurture sequences (rules in nurture-rules) against leads:
+ * - Sequences per lead segment, with manual or automatic enrollment
+ * - Enrollments advanced on the nurture queue: email, WhatsApp, a task for
+ *   the rep, waits, and branches on proposal views, replies and stage moves
+ * - Automatic stop on conversion or unsubscribe
+ * - Per-step reach and conversion metrics
+ *
+ * Each run claims the enrollment by pushing its next run out by a lease, so a
+ * job that fires twice, or a sweep racing a delayed job, runs a step once.
+ * The sweep also covers jobs that were lost, or ran early on the in-process
+ * fallback used without Redis.
+ */
+import crypto from 'crypto';
+import { db } from '../db';
+import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, lte, or, sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import {
+  leads,
+  nurtureEnrollments,
+  nurtureSequences,
+  nurtureStepEvents,
+  taskItems,
+  users,
+  type Lead,
+  type NurtureEnrollment,
+  type NurtureSequence,
+  type SalesProposal,
+} from '@shared/schema';
+import { addJob, QueueNames } from '../queues';
+import { sendEmail } from './emailService';
+import { sendWhatsApp } from './whatsappService';
+import { logEmail, logWhatsApp } from './communication-logger';
+import { phoneMatchKey, type InboundChannel, type ReplyIntent } from './inbound-message-parser';
+import { NotFoundError, ValidationError } from '../errors';
+import { logger } from '../logger';
+import {
+  branchHolds,
+  nextStepKey,
+  renderTemplate,
+  segmentFilters,
+  stageOf,
+  stepErrors,
+  stepMetrics,
+  stopReason,
+  type EnrollmentSignals,
+  type EnrollmentStatus,
+  type NurtureStep,
+  type SegmentField,
+  type SegmentCriteria,
+  type StepMetrics,
+  type StepOutcome,
+} from './nurture-rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a run holds its enrollment before another run may take it over
+const RUN_LEASE_MS = 10 * 60 * 1000;
+
+// Steps run back to back before handing over to a fresh job
+const MAX_STEPS_PER_RUN = 20;
+
+const SWEEP_LIMIT = 200;
+
+const STOP_REASONS: Record<'converted' | 'unsubscribed' | 'stopped', string> = {
+  converted: 'Lead converted',
+  unsubscribed: 'Lead unsubscribed',
+  stopped: 'Lead merged into another lead',
+};
+
+const SEGMENT_LIST_KEYS = ['sources', 'services', 'states', 'stages', 'priorities', 'entityTypes'] as const;
+
+const PORTAL_BASE_URL = process.env.APP_URL || 'http://localhost:5000';
+
+const SEGMENT_COLUMNS: Record<SegmentField, AnyPgColumn> = {
+  leadSource: leads.leadSource,
+  serviceInterested: leads.serviceInterested,
+  state: leads.state,
+  priority: leads.priority,
+  entityType: leads.entityType,
+  leadStage: leads.leadStage,
+  status: leads.status,
+};
+
+export interface SequenceInput {
+  name?: string;
+  description?: string | null;
+  segment?: SegmentCriteria | null;
+  steps?: unknown;
+  autoEnroll?: boolean;
+  isActive?: boolean;
+}
+
+export interface EnrollResult {
+  enrolled: number[];
+  skipped: Array<{ leadId: number; reason: string }>;
+}
+
+export interface RunResult {
+  enrollmentId: number;
+  status: EnrollmentStatus | 'not_due';
+  stepsRun: number;
+}
+
+export interface SequenceMetrics {
+  sequence: NurtureSequence;
+  enrollments: Record<EnrollmentStatus, number> & { total: number };
+  conversionRate: number | null;
+  steps: StepMetrics[];
+}
+
+interface StepResult {
+  outcome: StepOutcome;
+  detail?: string;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Leads in a segment, as a query condition
+ */
+function segmentCondition(segment: SegmentCriteria | null): SQL | undefined {
+  const { lists, minValue } = segmentFilters(segment);
+  const conditions: SQL[] = lists.map(({ fields, values }) => or(...fields.map(field =>
+    sql`lower(trim(${SEGMENT_COLUMNS[field]})) IN (${sql.join(values.map(value => sql`${value}`), sql`, `)})`
+  ))!);
+  if (minValue != null) {
+    conditions.push(sql`coalesce(${leads.estimatedValue}, 0) >= ${minValue}`);
+  }
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+function segmentOf(value: unknown): SegmentCriteria | null {
+  if (value == null) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('segment must be an object');
+  }
+  const input = value as Record<string, unknown>;
+  const segment: SegmentCriteria = {};
+  for (const key of SEGMENT_LIST_KEYS) {
+    const list = input[key];
+    if (list == null) continue;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      throw new ValidationError(`segment.${key} must be a list of names`);
+    }
+    if (list.length > 0) segment[key] = list as string[];
+  }
+  if (input.minValue != null) {
+    const minValue = Number(input.minValue);
+    if (!isFinite(minValue) || minValue < 0) {
+      throw new ValidationError('segment.minValue must be a positive amount');
+    }
+    segment.minValue = minValue;
+  }
+  return Object.keys(segment).length > 0 ? segment : null;
+}
+
+class NurtureService {
+  // --------------------------------------------------------------------------
+  // SEQUENCES
+  // --------------------------------------------------------------------------
+
+  async listSequences(): Promise<Array<NurtureSequence & { enrollments: Record<string, number> }>> {
+    const sequences = await db.select().from(nurtureSequences).orderBy(asc(nurtureSequences.name));
+    const counts = await db
+      .select({
+        sequenceId: nurtureEnrollments.sequenceId,
+        status: nurtureEnrollments.status,
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(nurtureEnrollments)
+      .groupBy(nurtureEnrollments.sequenceId, nurtureEnrollments.status);
+
+    return sequences.map(sequence => ({
+      ...sequence,
+      enrollments: Object.fromEntries(
+        counts.filter(row => row.sequenceId === sequence.id).map(row => [row.status, Number(row.count)])
+      ),
+    }));
+  }
+
+  async getSequence(sequenceId: number): Promise<NurtureSequence> {
+    const [sequence] = await db.select().from(nurtureSequences)
+      .where(eq(nurtureSequences.id, sequenceId))
+      .limit(1);
+    if (!sequence) throw new NotFoundError('Nurture sequence');
+    return sequence;
+  }
+
+  async createSequence(input: SequenceInput, createdBy: number): Promise<NurtureSequence> {
+    if (!input.name || !input.name.trim()) {
+      throw new ValidationError('name is required');
+    }
+    const errors = stepErrors(input.steps);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid nurture steps', { errors });
+    }
+
+    const [sequence] = await db.insert(nurtureSequences).values({
+      name: input.name.trim(),
+      description: input.description ?? null,
+      segment: segmentOf(input.segment),
+      steps: input.steps as NurtureStep[],
+      autoEnroll: input.autoEnroll ?? false,
+      autoEnrollSince: input.autoEnroll ? new Date() : null,
+      isActive: input.isActive ?? true,
+      createdBy,
+    }).returning();
+
+    logger.info(`Nurture sequence ${sequence.name} created by user ${createdBy}`);
+    return sequence;
+  }
+
+  /**
+   * Update a sequence. Active enrollments carry on from their current step
+   * key; one whose step was removed stops at its next run. Deactivating
+   * stops every active enrollment.
+   */
+  async updateSequence(sequenceId: number, input: SequenceInput): Promise<NurtureSequence> {
+    const existing = await this.getSequence(sequenceId);
+
+    if (input.name !== undefined && (!input.name || !input.name.trim())) {
+      throw new ValidationError('name cannot be empty');
+    }
+    if (input.steps !== undefined) {
+      const errors = stepErrors(input.steps);
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid nurture steps', { errors });
+      }
+    }
+
+    const turningOnAutoEnroll = input.autoEnroll === true && !existing.autoEnroll;
+    const [sequence] = await db.update(nurtureSequences)
+      .set({
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.segment !== undefined && { segment: segmentOf(input.segment) }),
+        ...(input.steps !== undefined && { steps: input.steps as NurtureStep[] }),
+        ...(input.autoEnroll !== undefined && { autoEnroll: input.autoEnroll }),
+        ...(turningOnAutoEnroll && { autoEnrollSince: new Date() }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+        updatedAt: new Date(),
+      })
+      .where(eq(nurtureSequences.id, sequenceId))
+      .returning();
+
+    if (input.isActive === false && existing.isActive) {
+      await this.finishWhere(
+        and(eq(nurtureEnrollments.sequenceId, sequenceId), eq(nurtureEnrollments.status, 'active')),
+        'stopped',
+        'Sequence deactivated'
+      );
+    }
+    return sequence;
+  }
+
+  // --------------------------------------------------------------------------
+  // ENROLLMENTS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Enroll leads in a sequence. Leads already through it, converted, merged
+   * or unsubscribed are skipped.
+   */
+  async enroll(sequenceId: number, leadIds: number[], enrolledBy: number | null): Promise<EnrollResult> {
+    const sequence = await this.getSequence(sequenceId);
+    if (!sequence.isActive) {
+      throw new ValidationError('Sequence is not active');
+    }
+    const steps = sequence.steps as NurtureStep[];
+    const result: EnrollResult = { enrolled: [], skipped: [] };
+    if (leadIds.length === 0) return result;
+
+    const found = await db.select().from(leads).where(inArray(leads.id, leadIds));
+    const byId = new Map(found.map(lead => [lead.id, lead]));
+
+    for (const leadId of Array.from(new Set(leadIds))) {
+      const lead = byId.get(leadId);
+      if (!lead) {
+        result.skipped.push({ leadId, reason: 'Lead not found' });
+        continue;
+      }
+      const stop = stopReason(lead);
+      if (stop) {
+        result.skipped.push({ leadId, reason: `Lead is ${stop}` });
+        continue;
+      }
+
+      const now = new Date();
+      const [enrollment] = await db.insert(nurtureEnrollments).values({
+        sequenceId,
+        leadId,
+        status: 'active',
+        currentStepKey: steps[0].key,
+        nextRunAt: now,
+        stageAtEnrollment: stageOf(lead),
+        signals: {},
+        unsubscribeToken: crypto.randomBytes(24).toString('hex'),
+        enrolledBy,
+        enrolledAt: now,
+      }).onConflictDoNothing().returning();
+
+      if (!enrollment) {
+        result.skipped.push({ leadId, reason: 'Already enrolled' });
+        continue;
+      }
+      result.enrolled.push(leadId);
+      await this.queueRun(enrollment);
+    }
+
+    if (result.enrolled.length > 0) {
+      logger.info(`Enrolled ${result.enrolled.length} lead(s) in nurture sequence ${sequence.name}`);
+    }
+    return result;
+  }
+
+  async listForLead(leadId: number) {
+    return db
+      .select({
+        enrollment: nurtureEnrollments,
+        sequenceName: nurtureSequences.name,
+      })
+      .from(nurtureEnrollments)
+      .innerJoin(nurtureSequences, eq(nurtureSequences.id, nurtureEnrollments.sequenceId))
+      .where(eq(nurtureEnrollments.leadId, leadId))
+      .orderBy(desc(nurtureEnrollments.enrolledAt));
+  }
+
+  async listEvents(enrollmentId: number) {
+    return db.select().from(nurtureStepEvents)
+      .where(eq(nurtureStepEvents.enrollmentId, enrollmentId))
+      .orderBy(asc(nurtureStepEvents.occurredAt), asc(nurtureStepEvents.id));
+  }
+
+  async stopEnrollment(enrollmentId: number, reason: string): Promise<NurtureEnrollment> {
+    const [enrollment] = await db.select().from(nurtureEnrollments)
+      .where(eq(nurtureEnrollments.id, enrollmentId))
+      .limit(1);
+    if (!enrollment) throw new NotFoundError('Nurture enrollment');
+    if (enrollment.status !== 'active') {
+      throw new ValidationError(`Enrollment is already ${enrollment.status}`);
+    }
+    const [stopped] = await this.finishWhere(eq(nurtureEnrollments.id, enrollmentId), 'stopped', reason || 'Stopped manually');
+    return stopped ?? enrollment;
+  }
+
+  // --------------------------------------------------------------------------
+  // SIGNALS AND STOP CONDITIONS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Unsubscribe link in nurture emails. Opts the lead out of every sequence.
+   */
+  async unsubscribe(token: string): Promise<boolean> {
+    const [enrollment] = await db.select({ leadId: nurtureEnrollments.leadId })
+      .from(nurtureEnrollments)
+      .where(eq(nurtureEnrollments.unsubscribeToken, token))
+      .limit(1);
+    if (!enrollment) return false;
+    await this.optOut([enrollment.leadId]);
+    return true;
+  }
+
+  /**
+   * A proposal was opened; branches on proposal_viewed take the then path
+   */
+  async recordProposalView(proposal: Pick<SalesProposal, 'id' | 'leadId'>): Promise<void> {
+    try {
+      const [lead] = await db.select({ id: leads.id }).from(leads)
+        .where(eq(leads.leadId, proposal.leadId))
+        .limit(1);
+      if (lead) await this.recordSignal([lead.id], 'proposalViewedAt');
+    } catch (error) {
+      logger.warn(`Failed to record proposal view for nurture, proposal ${proposal.id}:`, error);
+    }
+  }
+
+  /**
+   * An inbound message from a lead's email or phone: a reply for branching,
+   * or an opt-out ("STOP") that ends their sequences
+   */
+  async recordReply(channel: InboundChannel, from: string, intent: ReplyIntent | null): Promise<void> {
+    try {
+      const phoneKey = channel === 'email' ? null : phoneMatchKey(from);
+      const matchOn = channel === 'email'
+        ? sql`LOWER(${leads.contactEmail}) = ${from.toLowerCase()}`
+        : phoneKey
+          ? sql`RIGHT(REGEXP_REPLACE(${leads.contactPhone}, '\\D', '', 'g'), 10) = ${phoneKey}`
+          : null;
+      if (!matchOn) return;
+
+      const matched = await db.select({ id: leads.id }).from(leads).where(matchOn).limit(20);
+      const leadIds = matched.map(lead => lead.id);
+      if (leadIds.length === 0) return;
+
+      if (intent === 'opt_out') {
+        await this.optOut(leadIds);
+      } else {
+        await this.recordSignal(leadIds, 'repliedAt');
+      }
+    } catch (error) {
+      logger.warn(`Failed to record ${channel} reply from ${from} for nurture:`, error);
+    }
+  }
+
+  private async recordSignal(leadIds: number[], signal: keyof EnrollmentSignals): Promise<void> {
+    const value = JSON.stringify({ [signal]: new Date().toISOString() });
+    await db.update(nurtureEnrollments)
+      .set({
+        signals: sql`(COALESCE(${nurtureEnrollments.signals}::jsonb, '{}'::jsonb) || ${value}::jsonb)::json`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        inArray(nurtureEnrollments.leadId, leadIds),
+        eq(nurtureEnrollments.status, 'active'),
+        sql`${nurtureEnrollments.signals}->>${signal} IS NULL`,
+      ));
+  }
+
+  private async optOut(leadIds: number[]): Promise<void> {
+    await db.update(leads)
+      .set({ nurtureOptedOutAt: new Date() })
+      .where(and(inArray(leads.id, leadIds), isNull(leads.nurtureOptedOutAt)));
+    const stopped = await this.finishWhere(
+      and(inArray(nurtureEnrollments.leadId, leadIds), eq(nurtureEnrollments.status, 'active')),
+      'unsubscribed',
+      STOP_REASONS.unsubscribed
+    );
+    logger.info(`Lead(s) ${leadIds.join(', ')} unsubscribed from nurture; ${stopped.length} enrollment(s) stopped`);
+  }
+
+  private async finishWhere(
+    where: SQL | undefined,
+    status: Exclude<EnrollmentStatus, 'active'>,
+    reason: string
+  ): Promise<NurtureEnrollment[]> {
+    return db.update(nurtureEnrollments)
+      .set({
+        status,
+        stopReason: status === 'completed' ? null : reason,
+        nextRunAt: null,
+        finishedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(where)
+      .returning();
+  }
+
+  // --------------------------------------------------------------------------
+  // RUNNING
+  // --------------------------------------------------------------------------
+
+  /**
+   * Periodic sweep: stop enrollments of converted and opted-out leads, enroll
+   * new leads into auto-enrolling sequences, and queue enrollments that are due
+   */
+  async sweep(): Promise<{ stopped: number; enrolled: number; queued: number }> {
+    const convertedLeads = db.select({ id: leads.id }).from(leads)
+      .where(or(
+        isNotNull(leads.convertedAt),
+        eq(leads.status, 'converted'),
+        eq(leads.leadStage, 'converted'),
+      ));
+    const converted = await this.finishWhere(
+      and(eq(nurtureEnrollments.status, 'active'), inArray(nurtureEnrollments.leadId, convertedLeads)),
+      'converted',
+      STOP_REASONS.converted
+    );
+
+    const optedOutLeads = db.select({ id: leads.id }).from(leads).where(isNotNull(leads.nurtureOptedOutAt));
+    const unsubscribed = await this.finishWhere(
+      and(eq(nurtureEnrollments.status, 'active'), inArray(nurtureEnrollments.leadId, optedOutLeads)),
+      'unsubscribed',
+      STOP_REASONS.unsubscribed
+    );
+
+    let enrolled = 0;
+    const autoSequences = await db.select().from(nurtureSequences)
+      .where(and(eq(nurtureSequences.isActive, true), eq(nurtureSequences.autoEnroll, true)));
+    for (const sequence of autoSequences) {
+      enrolled += await this.autoEnroll(sequence);
+    }
+
+    const due = await db.select().from(nurtureEnrollments)
+      .where(and(eq(nurtureEnrollments.status, 'active'), lte(nurtureEnrollments.nextRunAt, new Date())))
+      .orderBy(asc(nurtureEnrollments.nextRunAt))
+      .limit(SWEEP_LIMIT);
+    for (const enrollment of due) {
+      await this.queueRun(enrollment);
+    }
+
+    return { stopped: converted.length + unsubscribed.length, enrolled, queued: due.length };
+  }
+
+  /**
+   * Run an enrollment's due steps, up to the next wait or the end
+   */
+  async runEnrollment(enrollmentId: number): Promise<RunResult> {
+    const now = new Date();
+    const [enrollment] = await db.update(nurtureEnrollments)
+      .set({ nextRunAt: new Date(now.getTime() + RUN_LEASE_MS), updatedAt: now })
+      .where(and(
+        eq(nurtureEnrollments.id, enrollmentId),
+        eq(nurtureEnrollments.status, 'active'),
+        lte(nurtureEnrollments.nextRunAt, now),
+      ))
+      .returning();
+    if (!enrollment) return { enrollmentId, status: 'not_due', stepsRun: 0 };
+
+    const finish = async (status: Exclude<EnrollmentStatus, 'active'>, reason: string, stepsRun: number): Promise<RunResult> => {
+      await this.finishWhere(eq(nurtureEnrollments.id, enrollmentId), status, reason);
+      return { enrollmentId, status, stepsRun };
+    };
+
+    const [sequence] = await db.select().from(nurtureSequences)
+      .where(eq(nurtureSequences.id, enrollment.sequenceId))
+      .limit(1);
+    if (!sequence?.isActive) return finish('stopped', 'Sequence deactivated', 0);
+
+    const [lead] = await db.select().from(leads).where(eq(leads.id, enrollment.leadId)).limit(1);
+    if (!lead) return finish('stopped', 'Lead deleted', 0);
+
+    const steps = sequence.steps as NurtureStep[];
+    let key = enrollment.currentStepKey;
+    let stepsRun = 0;
+
+    while (stepsRun < MAX_STEPS_PER_RUN) {
+      const stop = stopReason(lead);
+      if (stop) return finish(stop, STOP_REASONS[stop], stepsRun);
+      if (!key) return finish('completed', 'Sequence completed', stepsRun);
+
+      const step = steps.find(s => s.key === key);
+      if (!step) return finish('stopped', `Step ${key} is no longer in the sequence`, stepsRun);
+      stepsRun++;
+
+      if (step.type === 'wait') {
+        const nextRunAt = new Date(Date.now() + step.days * DAY_MS);
+        await this.recordEvent(enrollment, step, { outcome: 'waited', detail: `${step.days} day(s)` });
+        const [waiting] = await db.update(nurtureEnrollments)
+          .set({ currentStepKey: nextStepKey(steps, step), nextRunAt, updatedAt: new Date() })
+          .where(eq(nurtureEnrollments.id, enrollmentId))
+          .returning();
+        await this.queueRun(waiting);
+        return { enrollmentId, status: 'active', stepsRun };
+      }
+
+      if (step.type === 'branch') {
+        const holds = branchHolds(step, {
+          signals: (enrollment.signals || {}) as EnrollmentSignals,
+          stageAtEnrollment: enrollment.stageAtEnrollment,
+          currentStage: stageOf(lead),
+        });
+        await this.recordEvent(enrollment, step, { outcome: holds ? 'branch_then' : 'branch_else', detail: step.condition });
+        key = nextStepKey(steps, step, holds);
+        continue;
+      }
+
+      let result: StepResult;
+      try {
+        result = await this.runAction(step, lead, enrollment, sequence);
+      } catch (error: any) {
+        logger.error(`Nurture step ${step.key} failed for enrollment ${enrollmentId}:`, error);
+        result = { outcome: 'failed', detail: error?.message || 'Step failed' };
+      }
+      await this.recordEvent(enrollment, step, result);
+      key = nextStepKey(steps, step);
+    }
+
+    // A long run of steps without a wait: carry on in a fresh job
+    const [continuing] = await db.update(nurtureEnrollments)
+      .set({ currentStepKey: key, nextRunAt: new Date(), updatedAt: new Date() })
+      .where(eq(nurtureEnrollments.id, enrollmentId))
+      .returning();
+    await this.queueRun(continuing);
+    return { enrollmentId, status: 'active', stepsRun };
+  }
+
+  private async runAction(
+    step: Exclude<NurtureStep, { type: 'wait' | 'branch' }>,
+    lead: Lead,
+    enrollment: NurtureEnrollment,
+    sequence: NurtureSequence
+  ): Promise<StepResult> {
+    const variables = await this.variablesFor(lead);
+
+    switch (step.type) {
+      case 'email': {
+        if (!lead.contactEmail) return { outcome: 'skipped', detail: 'No email address' };
+
+        let subject = renderTemplate(step.subject || '', variables);
+        let body = renderTemplate(step.body || '', variables);
+        if (step.aiObjective) {
+          const { salesAIAgent } = await import('./ai');
+          const draft = await salesAIAgent.generateFollowUpEmail(
+            {
+              id: lead.id,
+              companyName: lead.clientName,
+              contactName: lead.directorName || undefined,
+              email: lead.contactEmail,
+              phone: lead.contactPhone,
+              entityType: lead.entityType || undefined,
+              state: lead.state || undefined,
+              source: lead.leadSource,
+              currentStage: stageOf(lead),
+              interactions: [],
+            },
+            { previousInteraction: body || `Nurture sequence: ${sequence.name}`, objective: step.aiObjective }
+          );
+          subject = subject || draft.subject;
+          body = `${draft.body}\n\n${draft.callToAction}`;
+        }
+
+        const unsubscribeUrl = `${PORTAL_BASE_URL}/api/nurture/unsubscribe/${enrollment.unsubscribeToken}`;
+        const sent = await sendEmail({
+          to: lead.contactEmail,
+          subject,
+          text: `${body}\n\nUnsubscribe: ${unsubscribeUrl}`,
+          html: `${escapeHtml(body).replace(/\n/g, '<br>')}<p style="font-size:12px;color:#888"><a href="${unsubscribeUrl}">Unsubscribe</a></p>`,
+        });
+        if (!sent) return { outcome: 'failed', detail: 'Email not sent' };
+        await logEmail({ to: lead.contactEmail, subject, body, purpose: 'follow_up', templateId: `nurture:${sequence.id}:${step.key}` });
+        return { outcome: 'sent' };
+      }
+
+      case 'whatsapp': {
+        const message = `${renderTemplate(step.message, variables)}\n\nReply STOP to unsubscribe.`;
+        const sent = await sendWhatsApp({ to: lead.contactPhone, message });
+        if (!sent) return { outcome: 'failed', detail: 'WhatsApp not sent' };
+        await logWhatsApp({ to: lead.contactPhone, message, purpose: 'follow_up', templateName: `nurture:${sequence.id}:${step.key}` });
+        return { outcome: 'sent' };
+      }
+
+      case 'task': {
+        const initiatorId = enrollment.enrolledBy ?? sequence.createdBy ?? lead.assignedTo;
+        if (!initiatorId) return { outcome: 'skipped', detail: 'No rep to assign the task to' };
+
+        const [task] = await db.insert(taskItems).values({
+          taskNumber: `TASK-${Date.now()}-${lead.id}`,
+          title: renderTemplate(step.title, variables),
+          description: step.description ? renderTemplate(step.description, variables) : null,
+          taskType: 'reminder',
+          initiatorId,
+          assigneeId: lead.assignedTo,
+          assigneeRole: lead.assignedTo ? null : 'sales_manager',
+          priority: step.priority || 'medium',
+          dueDate: new Date(Date.now() + (step.dueInDays ?? 1) * DAY_MS),
+          metadata: { leadId: lead.id, nurtureEnrollmentId: enrollment.id, nurtureStep: step.key },
+        }).returning({ id: taskItems.id, taskNumber: taskItems.taskNumber });
+        return { outcome: 'task_created', detail: task.taskNumber };
+      }
+    }
+  }
+
+  private async variablesFor(lead: Lead): Promise<Record<string, string | null>> {
+    const [rep] = lead.assignedTo
+      ? await db.select({ fullName: users.fullName }).from(users).where(eq(users.id, lead.assignedTo)).limit(1)
+      : [];
+    const contactName = lead.directorName || lead.clientName;
+    return {
+      name: contactName,
+      firstName: contactName.split(/\s+/)[0],
+      company: lead.clientName,
+      service: lead.serviceInterested,
+      state: lead.state,
+      city: lead.city,
+      leadId: lead.leadId,
+      repName: rep?.fullName ?? null,
+    };
+  }
+
+  private async recordEvent(enrollment: NurtureEnrollment, step: NurtureStep, result: StepResult): Promise<void> {
+    await db.insert(nurtureStepEvents).values({
+      enrollmentId: enrollment.id,
+      sequenceId: enrollment.sequenceId,
+      stepKey: step.key,
+      stepType: step.type,
+      outcome: result.outcome,
+      detail: result.detail ?? null,
+    });
+  }
+
+  private async queueRun(enrollment: Pick<NurtureEnrollment, 'id' | 'nextRunAt'>): Promise<void> {
+    if (!enrollment.nextRunAt) return;
+    await addJob(QueueNames.NURTURE, 'run', { enrollmentId: enrollment.id }, {
+      delay: Math.max(0, enrollment.nextRunAt.getTime() - Date.now()),
+      jobId: `nurture-${enrollment.id}-${enrollment.nextRunAt.getTime()}`,
+    });
+  }
+
+  /**
+   * Enroll leads created since auto-enrollment was switched on that fall in
+   * the sequence's segment. The segment and the stop conditions are in the
+   * query, so every lead it returns is enrolled and the next sweep moves on.
+   */
+  private async autoEnroll(sequence: NurtureSequence): Promise<number> {
+    const candidates = await db.select({ id: leads.id }).from(leads)
+      .leftJoin(nurtureEnrollments, and(
+        eq(nurtureEnrollments.leadId, leads.id),
+        eq(nurtureEnrollments.sequenceId, sequence.id),
+      ))
+      .where(and(
+        isNull(nurtureEnrollments.id),
+        gte(leads.createdAt, sequence.autoEnrollSince ?? sequence.createdAt ?? new Date()),
+        isNull(leads.mergedIntoId),
+        isNull(leads.nurtureOptedOutAt),
+        isNull(leads.convertedAt),
+        sql`lower(trim(coalesce(${leads.status}, ''))) <> 'converted'`,
+        sql`lower(trim(coalesce(${leads.leadStage}, ''))) <> 'converted'`,
+        segmentCondition(sequence.segment as SegmentCriteria | null),
+      ))
+      .orderBy(asc(leads.createdAt), asc(leads.id))
+      .limit(SWEEP_LIMIT);
+    if (candidates.length === 0) return 0;
+
+    const { enrolled } = await this.enroll(sequence.id, candidates.map(lead => lead.id), null);
+    return enrolled.length;
+  }
+
+  // --------------------------------------------------------------------------
+  // METRICS
+  // --------------------------------------------------------------------------
+
+  async metrics(sequenceId: number): Promise<SequenceMetrics> {
+    const sequence = await this.getSequence(sequenceId);
+    const [enrollments, events] = await Promise.all([
+      db.select({ id: nurtureEnrollments.id, status: nurtureEnrollments.status })
+        .from(nurtureEnrollments)
+        .where(eq(nurtureEnrollments.sequenceId, sequenceId)),
+      db.select({
+        enrollmentId: nurtureStepEvents.enrollmentId,
+        stepKey: nurtureStepEvents.stepKey,
+        outcome: nurtureStepEvents.outcome,
+        occurredAt: nurtureStepEvents.occurredAt,
+      })
+        .from(nurtureStepEvents)
+        .where(eq(nurtureStepEvents.sequenceId, sequenceId)),
+    ]);
+
+    const typedEnrollments = enrollments.map(e => ({ id: e.id, status: e.status as EnrollmentStatus }));
+    const byStatus = { active: 0, completed: 0, converted: 0, unsubscribed: 0, stopped: 0 };
+    for (const enrollment of typedEnrollments) byStatus[enrollment.status]++;
+
+    return {
+      sequence,
+      enrollments: { ...byStatus, total: enrollments.length },
+      conversionRate: enrollments.length > 0 ? Math.round((byStatus.converted / enrollments.length) * 1000) / 10 : null,
+      steps: stepMetrics(
+        sequence.steps as NurtureStep[],
+        events.map(e => ({ ...e, outcome: e.outcome as StepOutcome, occurredAt: e.occurredAt ?? new Date(0) })),
+        typedEnrollments
+      ),
+    };
+  }
+}
+
+export const nurtureService = new NurtureService();
+export { NurtureService };
@@ -7,6 +7,7 @@ import Razorpay from 'razorpay';
 import crypto from 'crypto';
 import { pool } from '../config/database';
 import { logger, paymentLogger } from '../config/logger';
+import { ledgerService } from './ledger-service';
 
 // Initialize Razorpay
 const razorpay = process.env.RAZORPAY_ENABLED === 'true' && process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET
@@ -277,6 +278,10 @@ export async function saveTransaction(data: {
       ]
     );
 
+    if (data.status === 'success' && data.amount > 0) {
+      await postReceiptToLedger(data.razorpayPaymentId || data.transactionId, data.amount);
+    }
+
     return result.rows[0].id;
   } catch (error) {
     logger.error('Failed to save transaction:', error);
@@ -292,18 +297,40 @@ export async function updateTransactionStatus(
   status: string
 ): Promise<void> {
   try {
-    await pool.query(
-      'UPDATE transactions SET status = $1, transaction_date = CURRENT_TIMESTAMP WHERE id = $2',
+    const result = await pool.query(
+      `UPDATE transactions SET status = $1, transaction_date = CURRENT_TIMESTAMP WHERE id = $2
+       RETURNING amount, transaction_id, razorpay_payment_id`,
       [status, transactionId]
     );
 
     paymentLogger.info('Transaction status updated:', { transactionId, status });
+
+    const row = result.rows[0];
+    if (status === 'success' && row && parseFloat(row.amount) > 0) {
+      await postReceiptToLedger(row.razorpay_payment_id || row.transaction_id, parseFloat(row.amount));
+    }
   } catch (error) {
     logger.error('Failed to update transaction status:', error);
     throw error;
   }
 }
 
+/**
+ * Book a successful gateway payment in the general ledger.
+ * Keyed on the gateway payment ID, so repeat webhooks and the payment's invoice post it only once.
+ */
+async function postReceiptToLedger(gatewayPaymentId: string, amount: number): Promise<void> {
+  try {
+    await ledgerService.postPaymentReceipt({
+      gatewayPaymentId,
+      amount,
+      reference: gatewayPaymentId,
+    });
+  } catch (error) {
+    logger.error('Failed to post payment receipt to ledger:', error);
+  }
+}
+
 /**
  * Verify payment service configuration
  */
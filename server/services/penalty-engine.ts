@@ -0,0 +1,700 @@
+/**
+ * Penalty Engine
+ *
+ * Late fees and interest for a filing made (or still open) after its due date,
+ * evaluated from penalty_rules_master and compliance_penalty_definitions:
+ * - Per-day late fees with caps (GST Section 47, TDS Section 234E)
+ * - Interest on tax due, per day (GST Section 50) or per month or part (EPF, ESI)
+ * - Delay slabs (MCA additional fees, Section 234F)
+ * - Income Tax Act interest under sections 234A, 234B and 234C
+ * - What-if assessments of a tracked filing for any filing date
+ */
+import { db } from '../db';
+import { eq, and, inArray } from 'drizzle-orm';
+import { differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import {
+  complianceRules,
+  compliancePenaltyDefinitions,
+  complianceTracking,
+  businessEntities,
+  type ComplianceTracking,
+  type CompliancePenaltyDefinition,
+} from '@shared/schema';
+import { penaltyRulesMaster } from '@shared/blueprints-schema';
+import type {
+  PenaltyRuleTerms,
+  PenaltyComponent,
+  PenaltyComponentType,
+  PenaltyInterestMethod,
+  PenaltySlab,
+} from '@shared/compliance-state-types';
+import { deadlineResolver, type DeadlineContext } from './deadline-resolver';
+import { dueDateExtensionService, findApplicableExtensions } from './due-date-extension-service';
+import { ValidationError, NotFoundError } from '../errors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const INTEREST_METHODS: PenaltyInterestMethod[] = [
+  'DAILY',
+  'MONTH_OR_PART',
+  'SECTION_234A',
+  'SECTION_234B',
+  'SECTION_234C',
+  'DAMAGES',
+];
+
+/** Section 234C: cumulative share of tax due by each instalment date */
+const SECTION_234C_INSTALMENTS = [
+  { label: '15 June', required: 0.15, safeHarbour: 0.12, months: 3 },
+  { label: '15 September', required: 0.45, safeHarbour: 0.36, months: 3 },
+  { label: '15 December', required: 0.75, months: 3 },
+  { label: '15 March', required: 1, months: 1 },
+];
+
+/** Section 208: no advance tax (so no 234B/234C) below this liability */
+const ADVANCE_TAX_MINIMUM = 10000;
+/** Section 234B applies when advance tax paid is below this share of assessed tax */
+const ADVANCE_TAX_THRESHOLD = 0.9;
+
+/** EPF Section 14B damages (% p.a.) by length of delay */
+const DAMAGES_BANDS = [
+  { underDays: 60, rate: 5 },
+  { underDays: 120, rate: 10 },
+  { underDays: 180, rate: 15 },
+  { underDays: Infinity, rate: 25 },
+];
+
+const DEFINITION_COMPONENTS: Record<string, PenaltyComponentType> = {
+  late_fee: 'LATE_FEE',
+  interest: 'INTEREST',
+  additional_penalty: 'ADDITIONAL_FEE',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IncomeTaxInterestInput {
+  assessedTax: number; // Tax on returned income less TDS / TCS
+  advanceTaxPaid?: number; // Advance tax paid during the financial year
+  instalmentsPaid?: number[]; // Cumulative advance tax paid by 15 Jun, 15 Sep, 15 Dec and 15 Mar
+}
+
+export interface PenaltyContext {
+  dueDate: Date; // Effective due date, after holidays and extensions
+  filedOn: Date; // Filing date, or the as-of date for a filing still open
+  taxLiability?: number | null; // Tax payable with the filing
+  income?: number | null; // For income-based fee slabs
+  normalFee?: number | null; // For fees charged as a multiple of the normal fee
+  incomeTax?: IncomeTaxInterestInput | null;
+}
+
+export interface PenaltyAssessment {
+  dueDate: string;
+  filedOn: string;
+  daysLate: number;
+  taxLiability: number | null;
+  components: PenaltyComponent[];
+  lateFee: number;
+  interest: number;
+  additionalFee: number;
+  total: number;
+  notes: string[]; // Terms that could not be evaluated
+}
+
+export interface TrackingPenaltyAssessment extends PenaltyAssessment {
+  trackingId: number;
+  ruleCode: string | null;
+  statutoryDueDate: string;
+  extensionReference: string | null;
+}
+
+export interface PenaltyWhatIfInput {
+  filedOn?: string; // YYYY-MM-DD; defaults to the completion date or today
+  taxLiability?: number | null;
+  income?: number | null;
+  normalFee?: number | null;
+  incomeTax?: IncomeTaxInterestInput | null;
+}
+
+type Evaluation = { amount: number; basis: string } | { note: string };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Income Tax Rule 119A: interest is computed on amounts rounded down to ₹100 */
+function floorToHundred(value: number): number {
+  return Math.max(0, Math.floor(value / 100) * 100);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function rupees(value: number): string {
+  return `₹${roundAmount(value).toLocaleString('en-IN')}`;
+}
+
+function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function parseDate(value: string, field: string): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`);
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function daysLate(dueDate: Date, filedOn: Date): number {
+  return Math.max(0, differenceInCalendarDays(filedOn, dueDate));
+}
+
+/**
+ * Months of delay where a part of a month counts as a full month,
+ * as in sections 234A/234B and most "per month or part thereof" interest
+ */
+export function monthsOrPart(from: Date, to: Date): number {
+  if (differenceInCalendarDays(to, from) <= 0) return 0;
+  const months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  return to.getDate() > from.getDate() ? months + 1 : months;
+}
+
+// ============================================================================
+// INCOME TAX INTEREST
+// ============================================================================
+
+/**
+ * Section 234B: 1% per month or part on the advance tax shortfall, from
+ * 1 April of the assessment year to the date the return is filed
+ */
+export function calculateInterest234B(
+  input: IncomeTaxInterestInput,
+  dueDate: Date,
+  filedOn: Date,
+  monthlyRate = 1
+): { amount: number; shortfall: number; months: number } {
+  const advanceTaxPaid = input.advanceTaxPaid || 0;
+  if (input.assessedTax < ADVANCE_TAX_MINIMUM || advanceTaxPaid >= input.assessedTax * ADVANCE_TAX_THRESHOLD) {
+    return { amount: 0, shortfall: 0, months: 0 };
+  }
+
+  const assessmentYear = dueDate.getMonth() >= 3 ? dueDate.getFullYear() : dueDate.getFullYear() - 1;
+  const financialYearEnd = new Date(assessmentYear, 2, 31);
+  const shortfall = floorToHundred(input.assessedTax - advanceTaxPaid);
+  const months = monthsOrPart(financialYearEnd, filedOn);
+  return { amount: Math.round((shortfall * monthlyRate * months) / 100), shortfall, months };
+}
+
+/**
+ * Section 234C: 1% per month on the shortfall against each advance tax
+ * instalment — three months for the first three, one month for the last
+ */
+export function calculateInterest234C(
+  input: IncomeTaxInterestInput,
+  monthlyRate = 1
+): { amount: number; instalments: Array<{ label: string; shortfall: number; amount: number }> } {
+  const instalments: Array<{ label: string; shortfall: number; amount: number }> = [];
+  if (input.assessedTax < ADVANCE_TAX_MINIMUM) return { amount: 0, instalments };
+
+  const paid = input.instalmentsPaid || [];
+  SECTION_234C_INSTALMENTS.forEach((instalment, index) => {
+    const paidByDate = paid[index] || 0;
+    if (instalment.safeHarbour !== undefined && paidByDate >= input.assessedTax * instalment.safeHarbour) return;
+
+    const shortfall = floorToHundred(input.assessedTax * instalment.required - paidByDate);
+    if (shortfall <= 0) return;
+    instalments.push({
+      label: instalment.label,
+      shortfall,
+      amount: Math.round((shortfall * monthlyRate * instalment.months) / 100),
+    });
+  });
+
+  return { amount: instalments.reduce((sum, line) => sum + line.amount, 0), instalments };
+}
+
+// ============================================================================
+// RULE NORMALISATION
+// ============================================================================
+
+function normalizeSlab(raw: any): PenaltySlab {
+  const type = String(raw?.type || '').toUpperCase();
+  return {
+    fromDays: toNumber(raw?.fromDays ?? raw?.from_days),
+    toDays: toNumber(raw?.toDays ?? raw?.to_days),
+    amountPerDay: toNumber(raw?.amountPerDay ?? raw?.amount_per_day ?? (type === 'PER_DAY' ? raw?.amount_or_rate : undefined)),
+    amount: toNumber(raw?.amount ?? raw?.fee ?? (type === 'FIXED' ? raw?.amount_or_rate : undefined)),
+    multiplier: toNumber(raw?.multiplier),
+    rate: toNumber(raw?.rate),
+    incomeUpto: toNumber(raw?.incomeUpto ?? raw?.income_upto),
+    incomeAbove: toNumber(raw?.incomeAbove ?? raw?.income_above),
+  };
+}
+
+/**
+ * Terms of a penalty_rules_master row. The interest method comes from
+ * conditions.method (e.g. { "method": "SECTION_234A" }); plain interest is per day.
+ */
+export function termsFromPenaltyRule(row: typeof penaltyRulesMaster.$inferSelect): PenaltyRuleTerms {
+  const conditions = (row.conditions || {}) as Record<string, any>;
+  const method = String(conditions.method || '').toUpperCase() as PenaltyInterestMethod;
+  const isInterest = row.penaltyType === 'INTEREST' || row.penaltyType === 'COMPOUND';
+
+  return {
+    code: row.code,
+    name: row.name,
+    component: isInterest ? 'INTEREST' : row.category === 'ROC' ? 'ADDITIONAL_FEE' : 'LATE_FEE',
+    penaltyType: row.penaltyType as PenaltyRuleTerms['penaltyType'],
+    interestMethod: INTEREST_METHODS.includes(method) ? method : 'DAILY',
+    flatAmount: toNumber(row.flatAmount),
+    dailyAmount: toNumber(row.dailyAmount),
+    interestRateAnnual: toNumber(row.interestRateAnnual),
+    compoundingFrequency: (row.compoundingFrequency || undefined) as PenaltyRuleTerms['compoundingFrequency'],
+    slabs: Array.isArray(row.slabs) && row.slabs.length > 0 ? row.slabs.map(normalizeSlab) : undefined,
+    maxPenalty: toNumber(row.maxPenalty),
+    maxDays: row.maxPenaltyDays || undefined,
+    minPenalty: toNumber(row.minPenalty),
+    legalReference: row.legalSection,
+  };
+}
+
+/**
+ * Terms of a compliance_penalty_definitions row, whose calculation_formula is
+ * keyed by calculation_type (per_day_rate, fixed_amount, annual_rate, monthly_rate, slabs)
+ */
+export function termsFromPenaltyDefinition(row: CompliancePenaltyDefinition, ruleCode: string): PenaltyRuleTerms | null {
+  const formula = (row.calculationFormula || {}) as Record<string, any>;
+  const base = {
+    code: `${ruleCode}:${row.penaltyType}`,
+    name: row.notes || `${ruleCode} ${row.penaltyType.replace(/_/g, ' ')}`,
+    component: DEFINITION_COMPONENTS[row.penaltyType] || 'LATE_FEE',
+    maxPenalty: toNumber(row.maxPenalty) ?? toNumber(formula.max_amount),
+    minPenalty: toNumber(row.minPenalty),
+    graceDays: row.gracePeriodDays || 0,
+    legalReference: row.legalReference,
+  };
+
+  switch (row.calculationType) {
+    case 'per_day':
+      return {
+        ...base,
+        penaltyType: 'DAILY',
+        dailyAmount: toNumber(formula.per_day_rate) ?? 0,
+        maxPenaltyIsTax: !!formula.max_is_tds_amount,
+      };
+    case 'fixed_amount':
+      return {
+        ...base,
+        penaltyType: 'FLAT',
+        flatAmount: toNumber(formula.fixed_amount ?? formula.amount ?? formula.base_amount) ?? 0,
+      };
+    case 'percentage_per_month': {
+      if (Array.isArray(formula.damage_rate_range)) {
+        const [low, high] = formula.damage_rate_range.map(Number);
+        return { ...base, penaltyType: 'INTEREST', interestMethod: 'DAMAGES', interestRateRange: [low, high] };
+      }
+      if (formula.monthly_rate !== undefined) {
+        return {
+          ...base,
+          penaltyType: 'INTEREST',
+          interestMethod: /234A/.test(row.legalReference || '') ? 'SECTION_234A' : 'MONTH_OR_PART',
+          interestRateAnnual: Number(formula.monthly_rate) * 12,
+        };
+      }
+      const annualRate = toNumber(formula.annual_rate);
+      if (annualRate === undefined) return null;
+      return formula.compounding
+        ? { ...base, penaltyType: 'COMPOUND', interestRateAnnual: annualRate, compoundingFrequency: 'MONTHLY' }
+        : { ...base, penaltyType: 'INTEREST', interestMethod: 'DAILY', interestRateAnnual: annualRate };
+    }
+    case 'slab_based':
+      return {
+        ...base,
+        penaltyType: 'SLAB',
+        slabs: Array.isArray(formula.slabs) ? formula.slabs.map(normalizeSlab) : [],
+      };
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function evaluateSlabs(terms: PenaltyRuleTerms, context: PenaltyContext, days: number): Evaluation {
+  const slabs = terms.slabs || [];
+
+  if (slabs.some((slab) => slab.incomeUpto !== undefined || slab.incomeAbove !== undefined)) {
+    if (context.income === null || context.income === undefined) {
+      const highest = Math.max(0, ...slabs.map((slab) => slab.amount || 0));
+      return { amount: highest, basis: `${rupees(highest)} fee (income not known, higher slab assumed)` };
+    }
+    const income = context.income;
+    const slab = slabs.find((candidate) =>
+      (candidate.incomeUpto === undefined || income <= candidate.incomeUpto) &&
+      (candidate.incomeAbove === undefined || income > candidate.incomeAbove)
+    );
+    return { amount: slab?.amount || 0, basis: `Fee for income of ${rupees(income)}` };
+  }
+
+  const sorted = [...slabs].sort((a, b) => (a.fromDays ?? 1) - (b.fromDays ?? 1));
+  const current = sorted.filter((slab) => days >= (slab.fromDays ?? 1)).pop();
+  if (!current) return { amount: 0, basis: `No fee for a delay of ${days} days` };
+
+  if (current.multiplier !== undefined) {
+    if (!context.normalFee) return { note: `${terms.name || terms.code}: normal filing fee not known` };
+    return {
+      amount: context.normalFee * current.multiplier,
+      basis: `${current.multiplier} × normal fee of ${rupees(context.normalFee)} for a delay of ${days} days`,
+    };
+  }
+  if (current.amount !== undefined && !current.amountPerDay && current.rate === undefined) {
+    return { amount: current.amount, basis: `Fixed fee for a delay of ${days} days` };
+  }
+
+  // Per-day and rate slabs accumulate over every slab the delay runs through
+  let amount = 0;
+  const parts: string[] = [];
+  for (const slab of sorted) {
+    const start = slab.fromDays ?? 1;
+    const end = Math.min(slab.toDays ?? Infinity, days);
+    if (end < start) continue;
+    const slabDays = end - start + 1;
+
+    if (slab.amountPerDay) {
+      amount += slab.amountPerDay * slabDays;
+      parts.push(`${rupees(slab.amountPerDay)} × ${slabDays} days`);
+    } else if (slab.rate) {
+      if (!context.taxLiability) return { note: `${terms.name || terms.code}: tax liability not known` };
+      amount += (context.taxLiability * slab.rate * slabDays) / 36500;
+      parts.push(`${slab.rate}% p.a. × ${slabDays} days`);
+    }
+  }
+  return { amount, basis: parts.join(' + ') || `No fee for a delay of ${days} days` };
+}
+
+function evaluateInterest(terms: PenaltyRuleTerms, context: PenaltyContext, days: number): Evaluation {
+  const method = terms.interestMethod || 'DAILY';
+  const rate = terms.interestRateAnnual ?? 12;
+  const label = terms.name || terms.code;
+
+  if (method === 'SECTION_234B' || method === 'SECTION_234C') {
+    if (!context.incomeTax) return { note: `${label}: assessed tax and advance tax paid not provided` };
+    if (method === 'SECTION_234B') {
+      const result = calculateInterest234B(context.incomeTax, context.dueDate, context.filedOn, rate / 12);
+      return { amount: result.amount, basis: `${rate / 12}% × ${result.months} months on shortfall of ${rupees(result.shortfall)}` };
+    }
+    const result = calculateInterest234C(context.incomeTax, rate / 12);
+    return {
+      amount: result.amount,
+      basis: result.instalments.map((line) => `${line.label}: ${rupees(line.shortfall)} short`).join('; ') || 'Instalments paid on time',
+    };
+  }
+
+  const tax = context.taxLiability;
+  if (!tax) return { note: `${label}: tax liability not known` };
+
+  switch (method) {
+    case 'SECTION_234A':
+    case 'MONTH_OR_PART': {
+      const months = monthsOrPart(context.dueDate, context.filedOn);
+      const base = method === 'SECTION_234A' ? floorToHundred(tax) : tax;
+      const amount = (base * rate * months) / 1200;
+      return {
+        amount: method === 'SECTION_234A' ? Math.round(amount) : amount,
+        basis: `${rate / 12}% per month × ${months} months on ${rupees(base)}`,
+      };
+    }
+    case 'DAMAGES': {
+      const [low, high] = terms.interestRateRange || [5, 25];
+      const band = DAMAGES_BANDS.find((candidate) => days < candidate.underDays)!;
+      const damagesRate = Math.min(Math.max(band.rate, low), high);
+      return {
+        amount: (tax * damagesRate * days) / 36500,
+        basis: `${damagesRate}% p.a. damages × ${days} days on ${rupees(tax)}`,
+      };
+    }
+    default:
+      return {
+        amount: (tax * rate * days) / 36500,
+        basis: `${rate}% p.a. × ${days} days on ${rupees(tax)}`,
+      };
+  }
+}
+
+function evaluateCompound(terms: PenaltyRuleTerms, context: PenaltyContext, days: number): Evaluation {
+  const tax = context.taxLiability;
+  if (!tax) return { note: `${terms.name || terms.code}: tax liability not known` };
+
+  const rate = (terms.interestRateAnnual ?? 0) / 100;
+  const frequency = terms.compoundingFrequency || 'MONTHLY';
+  const [periodsPerYear, periods] =
+    frequency === 'DAILY' ? [365, days] :
+    frequency === 'QUARTERLY' ? [4, Math.floor(days / 90)] :
+    [12, Math.floor(days / 30)];
+
+  return {
+    amount: tax * (Math.pow(1 + rate / periodsPerYear, periods) - 1),
+    basis: `${terms.interestRateAnnual}% p.a. compounded ${frequency.toLowerCase()} for ${days} days on ${rupees(tax)}`,
+  };
+}
+
+/**
+ * Evaluate one set of terms. Returns null when it does not apply (not late),
+ * or a note when it needs data that was not provided.
+ */
+export function evaluatePenaltyTerms(terms: PenaltyRuleTerms, context: PenaltyContext): PenaltyComponent | { note: string } | null {
+  // 234C depends on instalment dates, not on when the return is filed
+  const lateDays = terms.interestMethod === 'SECTION_234C' ? 0 : daysLate(context.dueDate, context.filedOn);
+  if (terms.interestMethod !== 'SECTION_234C' && lateDays <= (terms.graceDays || 0)) return null;
+  const days = terms.maxDays ? Math.min(lateDays, terms.maxDays) : lateDays;
+
+  let evaluation: Evaluation;
+  switch (terms.penaltyType) {
+    case 'FLAT':
+      evaluation = { amount: terms.flatAmount || 0, basis: 'Fixed late fee' };
+      break;
+    case 'DAILY':
+      evaluation = { amount: (terms.dailyAmount || 0) * days, basis: `${rupees(terms.dailyAmount || 0)} per day × ${days} days` };
+      break;
+    case 'SLAB':
+      evaluation = evaluateSlabs(terms, context, days);
+      break;
+    case 'INTEREST':
+      evaluation = evaluateInterest(terms, context, days);
+      break;
+    case 'COMPOUND':
+      evaluation = evaluateCompound(terms, context, days);
+      break;
+    case 'MIXED': {
+      const fee = (terms.flatAmount || 0) + (terms.dailyAmount || 0) * days;
+      const interest = context.taxLiability && terms.interestRateAnnual
+        ? (context.taxLiability * terms.interestRateAnnual * days) / 36500
+        : 0;
+      evaluation = { amount: fee + interest, basis: `Late fee ${rupees(fee)} + interest ${rupees(interest)}` };
+      break;
+    }
+    default:
+      evaluation = { note: `${terms.code}: unsupported penalty type ${terms.penaltyType}` };
+  }
+  if ('note' in evaluation) return evaluation;
+
+  let amount = evaluation.amount;
+  let basis = evaluation.basis;
+  if (terms.maxPenaltyIsTax && context.taxLiability !== null && context.taxLiability !== undefined && amount > context.taxLiability) {
+    amount = context.taxLiability;
+    basis += ` (capped at the tax amount of ${rupees(context.taxLiability)})`;
+  }
+  if (terms.maxPenalty !== undefined && amount > terms.maxPenalty) {
+    amount = terms.maxPenalty;
+    basis += ` (capped at ${rupees(terms.maxPenalty)})`;
+  }
+  if (terms.minPenalty !== undefined && amount > 0 && amount < terms.minPenalty) {
+    amount = terms.minPenalty;
+    basis += ` (minimum ${rupees(terms.minPenalty)})`;
+  }
+
+  return {
+    code: terms.code,
+    name: terms.name || terms.code,
+    component: terms.component,
+    amount: roundAmount(amount),
+    basis,
+    legalReference: terms.legalReference || null,
+  };
+}
+
+/**
+ * Itemised late fees and interest for a filing under the given terms
+ */
+export function assessPenalty(terms: PenaltyRuleTerms[], context: PenaltyContext): PenaltyAssessment {
+  const components: PenaltyComponent[] = [];
+  const notes: string[] = [];
+
+  for (const term of terms) {
+    const result = evaluatePenaltyTerms(term, context);
+    if (!result) continue;
+    if ('note' in result) {
+      notes.push(result.note);
+    } else if (result.amount > 0) {
+      components.push(result);
+    }
+  }
+
+  const sum = (type: PenaltyComponentType) =>
+    roundAmount(components.filter((line) => line.component === type).reduce((total, line) => total + line.amount, 0));
+  const lateFee = sum('LATE_FEE');
+  const interest = sum('INTEREST');
+  const additionalFee = sum('ADDITIONAL_FEE');
+
+  return {
+    dueDate: toDateKey(context.dueDate),
+    filedOn: toDateKey(context.filedOn),
+    daysLate: daysLate(context.dueDate, context.filedOn),
+    taxLiability: context.taxLiability ?? null,
+    components,
+    lateFee,
+    interest,
+    additionalFee,
+    total: roundAmount(lateFee + interest + additionalFee),
+    notes,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class PenaltyEngine {
+  /**
+   * Penalty terms per rule code. The penalty_rules_master rule linked from the
+   * compliance rule comes first; penalty definitions fill in components it does
+   * not cover (e.g. interest alongside a master late fee).
+   */
+  async loadTerms(rules: Array<{ id: number; ruleCode: string; penaltyRuleCode?: string | null }>): Promise<Map<string, PenaltyRuleTerms[]>> {
+    const termsByRule = new Map<string, PenaltyRuleTerms[]>();
+    if (rules.length === 0) return termsByRule;
+
+    const masterCodes = Array.from(new Set(rules.map((rule) => rule.penaltyRuleCode).filter(Boolean))) as string[];
+    const masterRows = masterCodes.length > 0
+      ? await db.select().from(penaltyRulesMaster)
+          .where(and(inArray(penaltyRulesMaster.code, masterCodes), eq(penaltyRulesMaster.isActive, true)))
+      : [];
+    const masterByCode = new Map<string, PenaltyRuleTerms>(
+      masterRows.map((row: typeof penaltyRulesMaster.$inferSelect): [string, PenaltyRuleTerms] => [row.code, termsFromPenaltyRule(row)])
+    );
+
+    const definitions: CompliancePenaltyDefinition[] = await db.select().from(compliancePenaltyDefinitions)
+      .where(inArray(compliancePenaltyDefinitions.complianceRuleId, rules.map((rule) => rule.id)));
+
+    for (const rule of rules) {
+      const terms: PenaltyRuleTerms[] = [];
+      const master = rule.penaltyRuleCode ? masterByCode.get(rule.penaltyRuleCode) : undefined;
+      if (master) terms.push(master);
+
+      for (const definition of definitions.filter((row) => row.complianceRuleId === rule.id)) {
+        const converted = termsFromPenaltyDefinition(definition, rule.ruleCode);
+        if (converted && !terms.some((term) => term.component === converted.component)) {
+          terms.push(converted);
+        }
+      }
+      if (terms.length > 0) termsByRule.set(rule.ruleCode, terms);
+    }
+    return termsByRule;
+  }
+
+  /**
+   * Penalty for one tracked filing, as of today or on a hypothetical filing date.
+   * Pass ownerId to restrict the lookup to a client's own filings.
+   */
+  async assessTracking(trackingId: number, input: PenaltyWhatIfInput = {}, options: { ownerId?: number } = {}): Promise<TrackingPenaltyAssessment> {
+    const [item] = await db.select().from(complianceTracking)
+      .where(eq(complianceTracking.id, trackingId))
+      .limit(1);
+    if (!item || (options.ownerId !== undefined && item.userId !== options.ownerId)) {
+      throw new NotFoundError('Compliance item');
+    }
+    if (input.taxLiability !== undefined && input.taxLiability !== null && !(Number(input.taxLiability) >= 0)) {
+      throw new ValidationError('taxLiability must be a non-negative number');
+    }
+
+    const [assessment] = await this.assessItems([item], input);
+    return assessment;
+  }
+
+  /**
+   * Current penalty exposure of tracked filings, keyed by tracking id.
+   * Filings with no penalty terms are left out.
+   */
+  async assessTrackingItems(items: ComplianceTracking[]): Promise<Map<number, TrackingPenaltyAssessment>> {
+    const assessments = await this.assessItems(items, {});
+    return new Map(assessments.map((assessment) => [assessment.trackingId, assessment]));
+  }
+
+  private async assessItems(items: ComplianceTracking[], input: PenaltyWhatIfInput): Promise<TrackingPenaltyAssessment[]> {
+    const ruleIds = Array.from(new Set(items.map((item) => item.complianceRuleId).filter(Boolean))) as number[];
+    if (ruleIds.length === 0) return [];
+
+    const rules = await db
+      .select({
+        id: complianceRules.id,
+        ruleCode: complianceRules.ruleCode,
+        penaltyRuleCode: complianceRules.penaltyRuleCode,
+        dueDateAdjustment: complianceRules.dueDateAdjustment,
+      })
+      .from(complianceRules)
+      .where(inArray(complianceRules.id, ruleIds));
+    const rulesById = new Map<number, typeof rules[number]>(rules.map((rule: typeof rules[number]) => [rule.id, rule]));
+    const termsByRule = await this.loadTerms(rules);
+
+    const entityIds = Array.from(new Set(items.map((item) => item.businessEntityId).filter(Boolean))) as number[];
+    const entities = entityIds.length > 0
+      ? await db
+          .select({ id: businessEntities.id, entityType: businessEntities.entityType, state: businessEntities.state })
+          .from(businessEntities)
+          .where(inArray(businessEntities.id, entityIds))
+      : [];
+    const entitiesById = new Map<number, typeof entities[number]>(entities.map((entity: typeof entities[number]) => [entity.id, entity]));
+
+    const extensions = await dueDateExtensionService.getActiveExtensions();
+    const contexts = new Map<string, DeadlineContext>();
+    const today = startOfDay(new Date());
+    const filedOverride = input.filedOn ? parseDate(input.filedOn, 'filedOn') : null;
+
+    const assessments: TrackingPenaltyAssessment[] = [];
+    for (const item of items) {
+      const rule = item.complianceRuleId ? rulesById.get(item.complianceRuleId) : undefined;
+      const terms = rule ? termsByRule.get(rule.ruleCode) : undefined;
+      if (!rule || !terms) continue;
+
+      const entity = item.businessEntityId ? entitiesById.get(item.businessEntityId) : undefined;
+      const location = entity?.state || '';
+      if (!contexts.has(location)) {
+        contexts.set(location, await deadlineResolver.createContext({ location: entity?.state, years: [item.dueDate.getFullYear()] }));
+      }
+      const deadline = contexts.get(location)!.resolve(item.dueDate, {
+        adjustment: rule.dueDateAdjustment,
+        extensions: findApplicableExtensions(extensions, {
+          ruleCode: rule.ruleCode,
+          statutoryDueDate: item.dueDate,
+          entityType: entity?.entityType,
+          state: entity?.state,
+        }),
+      });
+
+      const filedOn = filedOverride
+        || (item.status === 'completed' && item.lastCompleted ? startOfDay(item.lastCompleted) : today);
+      const taxLiability = input.taxLiability ?? toNumber(item.taxLiability) ?? null;
+
+      assessments.push({
+        ...assessPenalty(terms, {
+          dueDate: deadline.dueDate,
+          filedOn,
+          taxLiability,
+          income: input.income,
+          normalFee: input.normalFee,
+          incomeTax: input.incomeTax,
+        }),
+        trackingId: item.id,
+        ruleCode: rule.ruleCode,
+        statutoryDueDate: toDateKey(deadline.statutoryDueDate),
+        extensionReference: deadline.extension?.reference || null,
+      });
+    }
+    return assessments;
+  }
+}
+
+export const penaltyEngine = new PenaltyEngine();
@@ -111,12 +111,21 @@ export class PipelineOrchestrator {
   }
 
   async pollAndProcess(): Promise<number> {
-    return await db.transaction(async (tx) => {
-      return await this._processWithinTransaction(tx);
+    const completed: PipelineEvent[] = [];
+    const processedCount = await db.transaction(async (tx) => {
+      return await this._processWithinTransaction(tx, completed);
     });
+
+    // Only announce events once their processing has committed
+    if (completed.length > 0) {
+      const { publishPipelineEvent } = await import('../../realtime');
+      completed.forEach((event) => publishPipelineEvent(event));
+    }
+
+    return processedCount;
   }
 
-  private async _processWithinTransaction(tx: typeof db): Promise<number> {
+  private async _processWithinTransaction(tx: typeof db, completed: PipelineEvent[] = []): Promise<number> {
     const unprocessedEvents = await tx
       .select()
       .from(pipelineEvents)
@@ -198,6 +207,7 @@ export class PipelineOrchestrator {
           processedAt: new Date(),
           handlerResults: { handlers: [{ name: 'manual-notify', status: 'completed', completedAt: new Date().toISOString() }] } as any,
         }).where(eq(pipelineEvents.id, event.id));
+        completed.push(event);
         processedCount++;
         continue;
       }
@@ -216,6 +226,7 @@ export class PipelineOrchestrator {
           await tx.insert(pipelineEvents).values(buffered as NewPipelineEvent);
         }
 
+        completed.push(event);
         processedCount++;
       } catch (error) {
         await tx.update(pipelineEvents).set({
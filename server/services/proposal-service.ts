@@ -6,6 +6,8 @@ import PDFDocument from 'pdfkit';
 import { storage } from '../storage';
 import { logger } from '../logger';
 import { EmailService } from './notifications/channels/email.service';
+import { attributionService } from './attribution-service';
+import { nurtureService } from './nurture-service';
 
 const emailService = new EmailService();
 
@@ -345,6 +347,9 @@ class ProposalService {
         });
       }
 
+      await attributionService.recordProposalView(proposal);
+      await nurtureService.recordProposalView(proposal);
+
       logger.info(`Proposal ${proposalId} viewed`);
     } catch (error) {
       logger.error('Track proposal view error:', error);
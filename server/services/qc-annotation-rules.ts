@@ -0,0 +1,133 @@
+/**
+ * QC Annotation Rules
+ *
+ * How a QC annotation moves between states, where on a page it may be
+ * pinned, and the rework statistics its history yields for quality_metrics.
+ *
+ * The reviewer raises an annotation (open); whoever does the rework marks it
+ * addressed; the reviewer then resolves it or reopens it. A reviewer may
+ * also resolve an open annotation directly (it was a note, not a defect) or
+ * dismiss it as won't fix. Open and addressed annotations block QC approval.
+ */
+
+export type AnnotationType = 'comment' | 'highlight' | 'correction' | 'stamp' | 'drawing';
+export type AnnotationSeverity = 'minor' | 'major' | 'critical';
+export type AnnotationStatus = 'open' | 'addressed' | 'resolved' | 'wont_fix';
+export type AnnotationAction = 'address' | 'resolve' | 'reopen' | 'dismiss';
+
+export const ANNOTATION_TYPES: AnnotationType[] = ['comment', 'highlight', 'correction', 'stamp', 'drawing'];
+export const ANNOTATION_SEVERITIES: AnnotationSeverity[] = ['minor', 'major', 'critical'];
+export const ANNOTATION_ACTIONS: AnnotationAction[] = ['address', 'resolve', 'reopen', 'dismiss'];
+export const UNRESOLVED_STATUSES: AnnotationStatus[] = ['open', 'addressed'];
+
+// Actions only the reviewer side takes; addressing is the rework side's
+export const REVIEWER_ACTIONS: AnnotationAction[] = ['resolve', 'reopen', 'dismiss'];
+
+const TRANSITIONS: Record<AnnotationStatus, Partial<Record<AnnotationAction, AnnotationStatus>>> = {
+  open: { address: 'addressed', resolve: 'resolved', dismiss: 'wont_fix' },
+  addressed: { resolve: 'resolved', reopen: 'open', dismiss: 'wont_fix' },
+  resolved: { reopen: 'open' },
+  wont_fix: { reopen: 'open' },
+};
+
+export interface AnnotationPosition {
+  page: number;
+  x: number; // left edge, 0-1 of page width
+  y: number; // top edge, 0-1 of page height
+  width: number;
+  height: number;
+}
+
+/**
+ * The status an action leads to, or null when it isn't allowed from here
+ */
+export function nextStatus(current: string | null, action: AnnotationAction): AnnotationStatus | null {
+  const from = (current || 'open') as AnnotationStatus;
+  return TRANSITIONS[from]?.[action] ?? null;
+}
+
+export function isUnresolved(status: string | null): boolean {
+  return UNRESOLVED_STATUSES.includes((status || 'open') as AnnotationStatus);
+}
+
+/**
+ * A pin or region on a page, as fractions of the page so it survives zoom.
+ * A point (no width/height) becomes a zero-size region. Returns an error
+ * message instead when the position can't be placed on the page.
+ */
+export function parsePosition(input: unknown): AnnotationPosition | string {
+  if (!input || typeof input !== 'object') return 'position must be an object';
+  const raw = input as Record<string, unknown>;
+
+  const page = Number(raw.page ?? 1);
+  if (!Number.isInteger(page) || page < 1) return 'position.page must be a page number from 1';
+
+  const fields = { x: raw.x, y: raw.y, width: raw.width ?? 0, height: raw.height ?? 0 };
+  const values: Record<string, number> = {};
+  for (const [name, value] of Object.entries(fields)) {
+    const number = Number(value);
+    if (value === undefined || value === null || !Number.isFinite(number) || number < 0 || number > 1) {
+      return `position.${name} must be between 0 and 1`;
+    }
+    values[name] = Math.round(number * 10000) / 10000;
+  }
+
+  if (values.x + values.width > 1.0001 || values.y + values.height > 1.0001) {
+    return 'position must lie within the page';
+  }
+  return { page, x: values.x, y: values.y, width: values.width, height: values.height };
+}
+
+export interface AnnotationHistory {
+  annotationType: string;
+  severity: string | null;
+  status: string | null;
+  createdAt: Date | null;
+  events: Array<{ action: string; createdAt: Date | null }>;
+}
+
+export interface ReworkStatistics {
+  annotationCount: number;
+  correctionsRequested: number;
+  criticalCount: number;
+  unresolvedCount: number;
+  addressedCount: number; // rework rounds: each time a fix was handed back
+  reopenedCount: number; // fixes sent back as not good enough
+  avgResolutionMinutes: number | null; // raised to finally resolved
+}
+
+/**
+ * Rework statistics for the annotations raised in a review
+ */
+export function reworkStatistics(annotations: AnnotationHistory[]): ReworkStatistics {
+  const resolutionMinutes: number[] = [];
+  let addressedCount = 0;
+  let reopenedCount = 0;
+
+  for (const annotation of annotations) {
+    addressedCount += annotation.events.filter(event => event.action === 'address').length;
+    reopenedCount += annotation.events.filter(event => event.action === 'reopen').length;
+
+    if (annotation.status === 'resolved' && annotation.createdAt) {
+      const resolvedAt = annotation.events
+        .filter(event => event.action === 'resolve' && event.createdAt)
+        .map(event => event.createdAt!.getTime())
+        .sort((a, b) => b - a)[0];
+      if (resolvedAt) {
+        resolutionMinutes.push(Math.max(0, (resolvedAt - annotation.createdAt.getTime()) / 60000));
+      }
+    }
+  }
+
+  return {
+    annotationCount: annotations.length,
+    correctionsRequested: annotations.filter(annotation => annotation.annotationType === 'correction').length,
+    criticalCount: annotations.filter(annotation => annotation.severity === 'critical').length,
+    unresolvedCount: annotations.filter(annotation => isUnresolved(annotation.status)).length,
+    addressedCount,
+    reopenedCount,
+    avgResolutionMinutes: resolutionMinutes.length > 0
+      ? Math.round(resolutionMinutes.reduce((sum, minutes) => sum + minutes, 0) / resolutionMinutes.length)
+      : null,
+  };
+}
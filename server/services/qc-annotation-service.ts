@@ -0,0 +1,337 @@
+/**
+ * QC Annotation Service
+ *
+ * Comments, highlights and correction requests pinned to pages of a
+ * service request's uploads or vault documents during QC review, with a
+ * resolution history per annotation. Unresolved annotations block QC
+ * approval; the history feeds the rework figures in quality_metrics.
+ */
+import { db } from '../db';
+import { and, asc, desc, eq, inArray, type SQL } from 'drizzle-orm';
+import {
+  documentsUploads,
+  documentVault,
+  notifications,
+  qualityReviews,
+  serviceRequests,
+} from '@shared/schema';
+import { documentAnnotationEvents, documentAnnotations } from '@shared/enterprise-schema';
+import { USER_ROLES, getRoleLevel, normalizeRole } from '../rbac-middleware';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { logger } from '../logger';
+import {
+  ANNOTATION_ACTIONS,
+  ANNOTATION_SEVERITIES,
+  ANNOTATION_TYPES,
+  REVIEWER_ACTIONS,
+  UNRESOLVED_STATUSES,
+  nextStatus,
+  parsePosition,
+  reworkStatistics,
+  type AnnotationAction,
+  type ReworkStatistics,
+} from './qc-annotation-rules';
+
+type Annotation = typeof documentAnnotations.$inferSelect;
+type AnnotationEvent = typeof documentAnnotationEvents.$inferSelect;
+
+export type AnnotatedSource = 'upload' | 'vault';
+
+export interface AnnotationInput {
+  source: AnnotatedSource;
+  documentId: number;
+  qualityReviewId?: number | null;
+  annotationType: string;
+  severity?: string;
+  content?: string | null;
+  highlightedText?: string | null;
+  requestedChange?: string | null;
+  position?: unknown;
+  color?: string | null;
+}
+
+export interface AnnotationFilters {
+  source?: AnnotatedSource;
+  documentId?: number;
+  serviceRequestId?: number;
+  qualityReviewId?: number;
+  status?: string;
+}
+
+interface Actor {
+  id: number;
+  role: string;
+}
+
+// Besides the reviewer who raised it, managers may resolve or reopen
+const REVIEW_OVERRIDE_LEVEL = getRoleLevel(USER_ROLES.OPS_MANAGER);
+
+class QCAnnotationService {
+  async list(filters: AnnotationFilters, includeHistory = false): Promise<Array<Annotation & { history?: AnnotationEvent[] }>> {
+    const conditions: SQL[] = [];
+    if (filters.documentId) {
+      conditions.push(filters.source === 'vault'
+        ? eq(documentAnnotations.vaultDocumentId, filters.documentId)
+        : eq(documentAnnotations.documentId, filters.documentId));
+    }
+    if (filters.serviceRequestId) conditions.push(eq(documentAnnotations.serviceRequestId, filters.serviceRequestId));
+    if (filters.qualityReviewId) conditions.push(eq(documentAnnotations.qualityReviewId, filters.qualityReviewId));
+    if (filters.status) conditions.push(eq(documentAnnotations.status, filters.status));
+    if (conditions.length === 0) {
+      throw new ValidationError('Filter by document, service request or review');
+    }
+
+    const annotations = await db.select().from(documentAnnotations)
+      .where(and(...conditions))
+      .orderBy(asc(documentAnnotations.createdAt));
+    if (!includeHistory || annotations.length === 0) return annotations;
+
+    const events = await this.eventsFor(annotations.map(annotation => annotation.id));
+    return annotations.map(annotation => ({
+      ...annotation,
+      history: events.filter(event => event.annotationId === annotation.id),
+    }));
+  }
+
+  async history(annotationId: number): Promise<AnnotationEvent[]> {
+    await this.requireAnnotation(annotationId);
+    return this.eventsFor([annotationId]);
+  }
+
+  async create(input: AnnotationInput, actor: Actor): Promise<Annotation> {
+    if (!ANNOTATION_TYPES.includes(input.annotationType as typeof ANNOTATION_TYPES[number])) {
+      throw new ValidationError(`annotationType must be one of: ${ANNOTATION_TYPES.join(', ')}`);
+    }
+    const severity = input.severity || 'minor';
+    if (!ANNOTATION_SEVERITIES.includes(severity as typeof ANNOTATION_SEVERITIES[number])) {
+      throw new ValidationError(`severity must be one of: ${ANNOTATION_SEVERITIES.join(', ')}`);
+    }
+    if (input.annotationType === 'correction' && !input.requestedChange?.trim() && !input.content?.trim()) {
+      throw new ValidationError('A correction needs the change requested');
+    }
+    if (input.annotationType === 'highlight' && !input.highlightedText?.trim() && !input.position) {
+      throw new ValidationError('A highlight needs the highlighted text or its position');
+    }
+    if (input.annotationType === 'comment' && !input.content?.trim()) {
+      throw new ValidationError('A comment needs content');
+    }
+
+    let position = null;
+    if (input.position !== undefined && input.position !== null) {
+      const parsed = parsePosition(input.position);
+      if (typeof parsed === 'string') throw new ValidationError(parsed);
+      position = parsed;
+    }
+
+    const target = await this.resolveDocument(input.source, input.documentId);
+    const qualityReviewId = input.qualityReviewId ?? await this.latestReviewId(target.serviceRequestId);
+
+    const annotation = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(documentAnnotations).values({
+        documentId: input.source === 'upload' ? input.documentId : null,
+        vaultDocumentId: input.source === 'vault' ? input.documentId : null,
+        serviceRequestId: target.serviceRequestId,
+        qualityReviewId,
+        userId: actor.id,
+        annotationType: input.annotationType,
+        severity,
+        content: input.content?.trim() || null,
+        highlightedText: input.highlightedText?.trim() || null,
+        requestedChange: input.requestedChange?.trim() || null,
+        position,
+        color: input.color || null,
+        status: 'open',
+      }).returning();
+
+      await tx.insert(documentAnnotationEvents).values({
+        annotationId: created.id,
+        action: 'created',
+        fromStatus: null,
+        toStatus: 'open',
+        userId: actor.id,
+        note: created.content,
+      });
+      return created;
+    });
+
+    if (input.annotationType === 'correction' && target.serviceRequestId) {
+      await this.notifyAssignee(target.serviceRequestId, annotation, target.title);
+    }
+    return annotation;
+  }
+
+  /**
+   * Address, resolve, reopen or dismiss an annotation
+   */
+  async transition(annotationId: number, action: string, actor: Actor, note?: string | null): Promise<Annotation> {
+    if (!ANNOTATION_ACTIONS.includes(action as AnnotationAction)) {
+      throw new ValidationError(`action must be one of: ${ANNOTATION_ACTIONS.join(', ')}`);
+    }
+    const annotation = await this.requireAnnotation(annotationId);
+
+    const toStatus = nextStatus(annotation.status, action as AnnotationAction);
+    if (!toStatus) {
+      throw new ConflictError(`Cannot ${action} an annotation that is ${annotation.status}`);
+    }
+    if (REVIEWER_ACTIONS.includes(action as AnnotationAction) && !this.canReview(annotation, actor)) {
+      throw new ForbiddenError('Only the reviewer who raised this annotation or a manager can do that');
+    }
+    if ((action === 'reopen' || action === 'dismiss') && !note?.trim()) {
+      throw new ValidationError(`A note is required to ${action} an annotation`);
+    }
+
+    const now = new Date();
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(documentAnnotations)
+        .set({
+          status: toStatus,
+          isResolved: toStatus === 'resolved' || toStatus === 'wont_fix',
+          ...(action === 'address' && { addressedBy: actor.id, addressedAt: now }),
+          ...(toStatus === 'resolved' || toStatus === 'wont_fix'
+            ? { resolvedBy: actor.id, resolvedAt: now }
+            : { resolvedBy: null, resolvedAt: null }),
+          updatedAt: now,
+        })
+        .where(eq(documentAnnotations.id, annotationId))
+        .returning();
+
+      await tx.insert(documentAnnotationEvents).values({
+        annotationId,
+        action,
+        fromStatus: annotation.status,
+        toStatus,
+        userId: actor.id,
+        note: note?.trim() || null,
+      });
+      return updated;
+    });
+  }
+
+  /**
+   * Unresolved annotations on a service request's documents (at most 50)
+   */
+  async findUnresolved(serviceRequestId: number): Promise<Array<Pick<Annotation, 'id' | 'annotationType' | 'severity' | 'status'>>> {
+    return db.select({
+      id: documentAnnotations.id,
+      annotationType: documentAnnotations.annotationType,
+      severity: documentAnnotations.severity,
+      status: documentAnnotations.status,
+    })
+      .from(documentAnnotations)
+      .where(and(
+        eq(documentAnnotations.serviceRequestId, serviceRequestId),
+        inArray(documentAnnotations.status, UNRESOLVED_STATUSES),
+      ))
+      .limit(50);
+  }
+
+  /**
+   * Unresolved annotations on one vault document (at most 50)
+   */
+  async findUnresolvedOnVaultDocument(vaultDocumentId: number): Promise<Array<Pick<Annotation, 'id' | 'status'>>> {
+    return db.select({ id: documentAnnotations.id, status: documentAnnotations.status })
+      .from(documentAnnotations)
+      .where(and(
+        eq(documentAnnotations.vaultDocumentId, vaultDocumentId),
+        inArray(documentAnnotations.status, UNRESOLVED_STATUSES),
+      ))
+      .limit(50);
+  }
+
+  /**
+   * Rework figures from the annotations raised in a review, or on the
+   * service request when they weren't tied to one
+   */
+  async reworkStatistics(qualityReviewId: number, serviceRequestId: number): Promise<ReworkStatistics> {
+    const byReview = await db.select().from(documentAnnotations)
+      .where(eq(documentAnnotations.qualityReviewId, qualityReviewId));
+    const annotations = byReview.length > 0
+      ? byReview
+      : await db.select().from(documentAnnotations).where(eq(documentAnnotations.serviceRequestId, serviceRequestId));
+
+    const events = annotations.length > 0 ? await this.eventsFor(annotations.map(annotation => annotation.id)) : [];
+    return reworkStatistics(annotations.map(annotation => ({
+      annotationType: annotation.annotationType,
+      severity: annotation.severity,
+      status: annotation.status,
+      createdAt: annotation.createdAt,
+      events: events.filter(event => event.annotationId === annotation.id),
+    })));
+  }
+
+  private canReview(annotation: Annotation, actor: Actor): boolean {
+    if (annotation.userId === actor.id) return true;
+    return getRoleLevel(normalizeRole(actor.role)) >= REVIEW_OVERRIDE_LEVEL;
+  }
+
+  private async eventsFor(annotationIds: number[]): Promise<AnnotationEvent[]> {
+    return db.select().from(documentAnnotationEvents)
+      .where(inArray(documentAnnotationEvents.annotationId, annotationIds))
+      .orderBy(asc(documentAnnotationEvents.createdAt), asc(documentAnnotationEvents.id));
+  }
+
+  private async requireAnnotation(annotationId: number): Promise<Annotation> {
+    const [annotation] = await db.select().from(documentAnnotations).where(eq(documentAnnotations.id, annotationId));
+    if (!annotation) throw new NotFoundError('Annotation');
+    return annotation;
+  }
+
+  private async resolveDocument(source: AnnotatedSource, documentId: number): Promise<{ serviceRequestId: number | null; title: string }> {
+    if (source === 'vault') {
+      const [document] = await db.select({
+        serviceRequestId: documentVault.serviceRequestId,
+        title: documentVault.originalFileName,
+      }).from(documentVault).where(eq(documentVault.id, documentId));
+      if (!document) throw new NotFoundError('Vault document');
+      return document;
+    }
+    if (source !== 'upload') {
+      throw new ValidationError('source must be upload or vault');
+    }
+
+    const [document] = await db.select({
+      serviceRequestId: documentsUploads.serviceRequestId,
+      title: documentsUploads.filename,
+    }).from(documentsUploads).where(eq(documentsUploads.id, documentId));
+    if (!document) throw new NotFoundError('Document');
+    return document;
+  }
+
+  private async latestReviewId(serviceRequestId: number | null): Promise<number | null> {
+    if (!serviceRequestId) return null;
+    const [review] = await db.select({ id: qualityReviews.id })
+      .from(qualityReviews)
+      .where(eq(qualityReviews.serviceRequestId, serviceRequestId))
+      .orderBy(desc(qualityReviews.id))
+      .limit(1);
+    return review?.id ?? null;
+  }
+
+  private async notifyAssignee(serviceRequestId: number, annotation: Annotation, documentTitle: string) {
+    try {
+      const [sr] = await db
+        .select({ assignedTeamMember: serviceRequests.assignedTeamMember })
+        .from(serviceRequests)
+        .where(eq(serviceRequests.id, serviceRequestId))
+        .limit(1);
+      if (!sr?.assignedTeamMember) return;
+
+      await db.insert(notifications).values({
+        userId: sr.assignedTeamMember,
+        title: 'QC: Correction requested',
+        message: `${documentTitle}: ${annotation.requestedChange || annotation.content}`,
+        type: 'qc_annotation',
+        category: 'service',
+        priority: annotation.severity === 'critical' ? 'high' : 'normal',
+        actionUrl: `/ops/service-requests/${serviceRequestId}`,
+        actionText: 'View Details',
+        metadata: { annotationId: annotation.id, serviceRequestId },
+      });
+    } catch (error) {
+      logger.error('Error notifying assignee of QC correction:', error);
+    }
+  }
+}
+
+export const qcAnnotationService = new QCAnnotationService();
+export { QCAnnotationService };
@@ -19,6 +19,7 @@ import {
 } from '@shared/schema';
 import { logger } from '../logger';
 import { transitionStatus } from './service-request-state-machine';
+import { qcAnnotationService } from './qc-annotation-service';
 
 // Types
 interface ChecklistItem {
@@ -373,6 +374,16 @@ class QCWorkflowService {
         };
       }
 
+      if (decision === 'approved') {
+        const unresolved = await qcAnnotationService.findUnresolved(review.serviceRequestId);
+        if (unresolved.length > 0) {
+          return {
+            success: false,
+            error: `Cannot approve: ${unresolved.length} annotation(s) are still unresolved`,
+          };
+        }
+      }
+
       // Map decision to status
       const statusMap: Record<string, string> = {
         approved: QC_REVIEW_STATUS.APPROVED,
@@ -0,0 +1,636 @@
+/**
+ * Rule Applicability
+ *
+ * Decides whether a compliance rule applies to an entity, and explains why:
+ * - Column criteria on compliance_rules (entity types, turnover and employee
+ *   thresholds, registration implied by the category, states, effective window)
+ * - An optional declarative expression (compliance_rules.applicability_expression)
+ *   over entity facts, for criteria the columns cannot state: listed or unlisted,
+ *   foreign investment, combinations with any/not
+ *
+ * Expression syntax (JSON):
+ *   { "all": [expr, ...] }        every sub-expression holds
+ *   { "any": [expr, ...] }        at least one holds
+ *   { "not": expr }               the sub-expression does not hold
+ *   { "fact": "employeeCount", "op": "gte", "value": 20 }
+ *
+ * Unknown facts (no turnover on record) fail every comparison except
+ * { "op": "exists", "value": false }.
+ *
+ * Used by the state engine and the tracking sync so both agree on applicability.
+ */
+import { db } from '../db';
+import { eq } from 'drizzle-orm';
+import { businessEntities, complianceRules } from '@shared/schema';
+import type { StateCalculationInput } from '@shared/compliance-state-types';
+import { ValidationError, NotFoundError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ApplicabilityFact =
+  | 'entityType'
+  | 'turnover'
+  | 'employeeCount'
+  | 'state'
+  | 'hasGST'
+  | 'hasPF'
+  | 'hasESI'
+  | 'isListed'
+  | 'hasForeignInvestment';
+
+export type ApplicabilityOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'not_in' | 'exists';
+
+export type ApplicabilityExpression =
+  | { all: ApplicabilityExpression[] }
+  | { any: ApplicabilityExpression[] }
+  | { not: ApplicabilityExpression }
+  | { fact: ApplicabilityFact; op: ApplicabilityOperator; value?: unknown };
+
+export interface EntityFacts {
+  entityType: string; // normalized, see normalizeEntityType
+  turnover: number | null;
+  employeeCount: number | null;
+  state: string | null;
+  hasGST: boolean;
+  hasPF: boolean;
+  hasESI: boolean;
+  isListed: boolean;
+  hasForeignInvestment: boolean;
+}
+
+export interface ExpressionTrace {
+  expression: string;
+  passed: boolean;
+  children?: ExpressionTrace[];
+}
+
+export type ApplicabilityCheckType =
+  | 'entity_type'
+  | 'turnover'
+  | 'employee_count'
+  | 'registration'
+  | 'state'
+  | 'effective_window'
+  | 'expression';
+
+export interface ApplicabilityCheck {
+  check: ApplicabilityCheckType;
+  passed: boolean;
+  detail: string;
+  trace?: ExpressionTrace;
+}
+
+export interface ApplicabilityExplanation {
+  ruleCode: string;
+  applicable: boolean;
+  checks: ApplicabilityCheck[];
+}
+
+/** compliance_rules columns that decide applicability */
+export interface ApplicabilityRuleFields {
+  ruleCode: string;
+  regulationCategory?: string | null;
+  applicableEntityTypes?: unknown;
+  turnoverThresholdMin?: string | null;
+  turnoverThresholdMax?: string | null;
+  employeeCountMin?: number | null;
+  employeeCountMax?: number | null;
+  stateSpecific?: boolean | null;
+  applicableStates?: unknown;
+  effectiveFrom?: Date | string | null;
+  effectiveUntil?: Date | string | null;
+  applicabilityExpression?: unknown;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+type FactType = 'string' | 'number' | 'boolean';
+
+export const APPLICABILITY_FACTS: Record<ApplicabilityFact, { type: FactType; description: string }> = {
+  entityType: { type: 'string', description: 'Entity type (pvt_ltd, public_limited, opc, llp, partnership, sole_prop)' },
+  turnover: { type: 'number', description: 'Annual turnover in rupees' },
+  employeeCount: { type: 'number', description: 'Number of employees' },
+  state: { type: 'string', description: 'State of the registered office' },
+  hasGST: { type: 'boolean', description: 'Registered under GST (has a GSTIN)' },
+  hasPF: { type: 'boolean', description: 'Covered by EPF (20 or more employees)' },
+  hasESI: { type: 'boolean', description: 'Covered by ESI (10 or more employees)' },
+  isListed: { type: 'boolean', description: 'Securities listed on a recognised stock exchange' },
+  hasForeignInvestment: { type: 'boolean', description: 'Has foreign direct investment or overseas investment' },
+};
+
+const OPERATORS_BY_TYPE: Record<FactType, ApplicabilityOperator[]> = {
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'exists'],
+  string: ['eq', 'neq', 'in', 'not_in', 'exists'],
+  boolean: ['eq', 'neq', 'exists'],
+};
+
+const OPERATOR_SYMBOLS: Record<ApplicabilityOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  in: 'in',
+  not_in: 'not in',
+  exists: 'exists',
+};
+
+const MAX_EXPRESSION_DEPTH = 10;
+
+const PF_EMPLOYEE_THRESHOLD = 20;
+const ESI_EMPLOYEE_THRESHOLD = 10;
+
+// ============================================================================
+// FACTS
+// ============================================================================
+
+export function normalizeEntityType(entityType?: string | null): string {
+  if (!entityType) return '';
+  const normalized = entityType.toLowerCase().replace(/[^a-z]/g, '');
+  switch (normalized) {
+    case 'privatelimited':
+    case 'privateltd':
+    case 'pvtlimited':
+    case 'pvtltd':
+    case 'pvtltdcompany':
+      return 'pvt_ltd';
+    case 'publiclimited':
+    case 'publicltd':
+      return 'public_limited';
+    case 'opc':
+    case 'onepersoncompany':
+      return 'opc';
+    case 'llp':
+      return 'llp';
+    case 'proprietorship':
+    case 'soleproprietorship':
+    case 'soleprop':
+      return 'sole_prop';
+    case 'partnership':
+      return 'partnership';
+    default:
+      return entityType.toLowerCase();
+  }
+}
+
+export function entityFactsFromRecord(entity: {
+  entityType?: string | null;
+  annualTurnover?: string | null;
+  employeeCount?: number | null;
+  state?: string | null;
+  gstin?: string | null;
+  isListed?: boolean | null;
+  hasForeignInvestment?: boolean | null;
+}): EntityFacts {
+  const employeeCount = entity.employeeCount ?? null;
+  return {
+    entityType: normalizeEntityType(entity.entityType || 'pvt_ltd'),
+    turnover: entity.annualTurnover ? parseFloat(entity.annualTurnover) : null,
+    employeeCount,
+    state: entity.state || null,
+    hasGST: !!entity.gstin,
+    hasPF: employeeCount !== null && employeeCount >= PF_EMPLOYEE_THRESHOLD,
+    hasESI: employeeCount !== null && employeeCount >= ESI_EMPLOYEE_THRESHOLD,
+    isListed: !!entity.isListed,
+    hasForeignInvestment: !!entity.hasForeignInvestment,
+  };
+}
+
+export function entityFactsFromInput(input: StateCalculationInput): EntityFacts {
+  return {
+    entityType: normalizeEntityType(input.entityType),
+    turnover: input.turnover,
+    employeeCount: input.employeeCount,
+    state: input.state,
+    hasGST: input.hasGST,
+    hasPF: input.hasPF,
+    hasESI: input.hasESI,
+    isListed: input.isListed,
+    hasForeignInvestment: input.hasForeignInvestment,
+  };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateValue(type: FactType, value: unknown): boolean {
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  if (type === 'string') return typeof value === 'string' && value.trim().length > 0;
+  return typeof value === 'boolean';
+}
+
+function validateNode(node: unknown, path: string, depth: number, errors: string[]): void {
+  if (depth > MAX_EXPRESSION_DEPTH) {
+    errors.push(`${path}: nested deeper than ${MAX_EXPRESSION_DEPTH} levels`);
+    return;
+  }
+  if (!isPlainObject(node)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  const keys = Object.keys(node);
+  const combinator = keys.filter((key) => ['all', 'any', 'not', 'fact'].includes(key));
+  if (combinator.length !== 1) {
+    errors.push(`${path}: must have exactly one of all, any, not or fact`);
+    return;
+  }
+
+  if (combinator[0] === 'all' || combinator[0] === 'any') {
+    const key = combinator[0];
+    const unknownKeys = keys.filter((k) => k !== key);
+    if (unknownKeys.length > 0) errors.push(`${path}: unknown keys ${unknownKeys.join(', ')}`);
+    const children = node[key];
+    if (!Array.isArray(children) || children.length === 0) {
+      errors.push(`${path}.${key}: must be a non-empty array`);
+      return;
+    }
+    children.forEach((child, index) => validateNode(child, `${path}.${key}[${index}]`, depth + 1, errors));
+    return;
+  }
+
+  if (combinator[0] === 'not') {
+    const unknownKeys = keys.filter((k) => k !== 'not');
+    if (unknownKeys.length > 0) errors.push(`${path}: unknown keys ${unknownKeys.join(', ')}`);
+    validateNode(node.not, `${path}.not`, depth + 1, errors);
+    return;
+  }
+
+  const unknownKeys = keys.filter((k) => !['fact', 'op', 'value'].includes(k));
+  if (unknownKeys.length > 0) errors.push(`${path}: unknown keys ${unknownKeys.join(', ')}`);
+
+  const fact = node.fact as ApplicabilityFact;
+  const definition = typeof fact === 'string' ? APPLICABILITY_FACTS[fact] : undefined;
+  if (!definition) {
+    errors.push(`${path}.fact: unknown fact ${JSON.stringify(node.fact)} (expected one of ${Object.keys(APPLICABILITY_FACTS).join(', ')})`);
+    return;
+  }
+
+  const op = node.op as ApplicabilityOperator;
+  if (!OPERATORS_BY_TYPE[definition.type].includes(op)) {
+    errors.push(`${path}.op: ${JSON.stringify(node.op)} is not valid for ${fact} (expected one of ${OPERATORS_BY_TYPE[definition.type].join(', ')})`);
+    return;
+  }
+
+  if (op === 'exists') {
+    if (node.value !== undefined && typeof node.value !== 'boolean') {
+      errors.push(`${path}.value: must be true or false for exists`);
+    }
+    return;
+  }
+
+  if (op === 'in' || op === 'not_in') {
+    if (!Array.isArray(node.value) || node.value.length === 0) {
+      errors.push(`${path}.value: must be a non-empty array for ${op}`);
+    } else if (!node.value.every((item) => validateValue(definition.type, item))) {
+      errors.push(`${path}.value: every item must be a ${definition.type}`);
+    }
+    return;
+  }
+
+  if (!validateValue(definition.type, node.value)) {
+    errors.push(`${path}.value: must be a ${definition.type}`);
+  }
+}
+
+/**
+ * Problems with an applicability expression; empty when it is valid
+ */
+export function validateApplicabilityExpression(expression: unknown): string[] {
+  const errors: string[] = [];
+  validateNode(expression, 'expression', 1, errors);
+  return errors;
+}
+
+export function assertValidApplicabilityExpression(expression: unknown): asserts expression is ApplicabilityExpression {
+  const errors = validateApplicabilityExpression(expression);
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid applicability expression', { errors });
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function normalizeFactValue(fact: ApplicabilityFact, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  if (fact === 'entityType') return normalizeEntityType(value);
+  return value.trim().toLowerCase();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'unknown';
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  return String(value);
+}
+
+function compare(op: ApplicabilityOperator, actual: unknown, expected: unknown): boolean {
+  switch (op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return (actual as number) > (expected as number);
+    case 'gte':
+      return (actual as number) >= (expected as number);
+    case 'lt':
+      return (actual as number) < (expected as number);
+    case 'lte':
+      return (actual as number) <= (expected as number);
+    case 'in':
+      return (expected as unknown[]).includes(actual);
+    case 'not_in':
+      return !(expected as unknown[]).includes(actual);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a validated expression, recording each step
+ */
+export function evaluateApplicabilityExpression(expression: ApplicabilityExpression, facts: EntityFacts): ExpressionTrace {
+  if ('all' in expression) {
+    const children = expression.all.map((child) => evaluateApplicabilityExpression(child, facts));
+    return { expression: 'all of', passed: children.every((child) => child.passed), children };
+  }
+  if ('any' in expression) {
+    const children = expression.any.map((child) => evaluateApplicabilityExpression(child, facts));
+    return { expression: 'any of', passed: children.some((child) => child.passed), children };
+  }
+  if ('not' in expression) {
+    const child = evaluateApplicabilityExpression(expression.not, facts);
+    return { expression: 'not', passed: !child.passed, children: [child] };
+  }
+
+  const raw = facts[expression.fact];
+  const known = raw !== null && raw !== undefined && raw !== '';
+
+  if (expression.op === 'exists') {
+    const wanted = expression.value !== false;
+    return {
+      expression: `${expression.fact} (${formatValue(raw)}) ${wanted ? 'is known' : 'is unknown'}`,
+      passed: known === wanted,
+    };
+  }
+
+  const actual = normalizeFactValue(expression.fact, raw);
+  const expected = Array.isArray(expression.value)
+    ? expression.value.map((value) => normalizeFactValue(expression.fact, value))
+    : normalizeFactValue(expression.fact, expression.value);
+
+  return {
+    expression: `${expression.fact} (${formatValue(raw)}) ${OPERATOR_SYMBOLS[expression.op]} ${formatValue(expression.value)}`,
+    passed: known && compare(expression.op, actual, expected),
+  };
+}
+
+// ============================================================================
+// RULE APPLICABILITY
+// ============================================================================
+
+function dayStart(value: Date | string): Date {
+  const date = new Date(value);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function dayEnd(value: Date | string): Date {
+  const date = new Date(value);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+/**
+ * Every criterion the rule sets, evaluated against the entity. The rule applies
+ * when all of them pass; a rule without criteria applies to every entity.
+ */
+export function explainRuleApplicability(
+  rule: ApplicabilityRuleFields,
+  facts: EntityFacts,
+  now: Date = new Date()
+): ApplicabilityExplanation {
+  const checks: ApplicabilityCheck[] = [];
+
+  const applicableTypes = (Array.isArray(rule.applicableEntityTypes)
+    ? rule.applicableEntityTypes
+    : [rule.applicableEntityTypes])
+    .filter(Boolean)
+    .map((value: string) => normalizeEntityType(value));
+  if (applicableTypes.length > 0) {
+    const passed = applicableTypes.includes(facts.entityType);
+    checks.push({
+      check: 'entity_type',
+      passed,
+      detail: `Entity type ${facts.entityType || 'unknown'} ${passed ? 'is' : 'is not'} one of ${applicableTypes.join(', ')}`,
+    });
+  }
+
+  // Thresholds only exclude entities whose figure is on record
+  const turnoverMin = rule.turnoverThresholdMin ? parseFloat(rule.turnoverThresholdMin) : null;
+  const turnoverMax = rule.turnoverThresholdMax ? parseFloat(rule.turnoverThresholdMax) : null;
+  if (turnoverMin !== null || turnoverMax !== null) {
+    const range = [
+      turnoverMin !== null ? `at least ₹${turnoverMin}` : null,
+      turnoverMax !== null ? `at most ₹${turnoverMax}` : null,
+    ].filter(Boolean).join(' and ');
+    if (facts.turnover === null) {
+      checks.push({ check: 'turnover', passed: true, detail: `Turnover not on record; rule requires ${range}` });
+    } else {
+      const passed = (turnoverMin === null || facts.turnover >= turnoverMin)
+        && (turnoverMax === null || facts.turnover <= turnoverMax);
+      checks.push({ check: 'turnover', passed, detail: `Turnover ₹${facts.turnover}; rule requires ${range}` });
+    }
+  }
+
+  const employeeMin = rule.employeeCountMin || null;
+  const employeeMax = rule.employeeCountMax || null;
+  if (employeeMin !== null || employeeMax !== null) {
+    const range = [
+      employeeMin !== null ? `at least ${employeeMin}` : null,
+      employeeMax !== null ? `at most ${employeeMax}` : null,
+    ].filter(Boolean).join(' and ');
+    if (facts.employeeCount === null) {
+      checks.push({ check: 'employee_count', passed: true, detail: `Employee count not on record; rule requires ${range}` });
+    } else {
+      const passed = (employeeMin === null || facts.employeeCount >= employeeMin)
+        && (employeeMax === null || facts.employeeCount <= employeeMax);
+      checks.push({ check: 'employee_count', passed, detail: `${facts.employeeCount} employees; rule requires ${range}` });
+    }
+  }
+
+  const category = String(rule.regulationCategory || '').toLowerCase();
+  if (category === 'gst') {
+    checks.push({
+      check: 'registration',
+      passed: facts.hasGST,
+      detail: facts.hasGST ? 'Entity is registered under GST' : 'GST rules need a GSTIN and the entity has none',
+    });
+  } else if (category === 'pf_esi') {
+    const passed = facts.hasPF || facts.hasESI;
+    checks.push({
+      check: 'registration',
+      passed,
+      detail: passed
+        ? `Entity is covered by ${[facts.hasPF ? 'EPF' : null, facts.hasESI ? 'ESI' : null].filter(Boolean).join(' and ')}`
+        : `PF/ESI rules need at least ${ESI_EMPLOYEE_THRESHOLD} employees`,
+    });
+  }
+
+  if (rule.stateSpecific && Array.isArray(rule.applicableStates) && rule.applicableStates.length > 0) {
+    const passed = !!facts.state && rule.applicableStates.includes(facts.state);
+    checks.push({
+      check: 'state',
+      passed,
+      detail: `State ${facts.state || 'not on record'} ${passed ? 'is' : 'is not'} one of ${rule.applicableStates.join(', ')}`,
+    });
+  }
+
+  if (rule.effectiveFrom || rule.effectiveUntil) {
+    const startsLater = rule.effectiveFrom ? now < dayStart(rule.effectiveFrom) : false;
+    const ended = rule.effectiveUntil ? now > dayEnd(rule.effectiveUntil) : false;
+    const from = rule.effectiveFrom ? dayStart(rule.effectiveFrom).toDateString() : 'the start';
+    const until = rule.effectiveUntil ? dayStart(rule.effectiveUntil).toDateString() : 'further notice';
+    checks.push({
+      check: 'effective_window',
+      passed: !startsLater && !ended,
+      detail: startsLater
+        ? `Rule takes effect on ${from}`
+        : ended
+          ? `Rule stopped applying after ${until}`
+          : `Rule is in effect from ${from} until ${until}`,
+    });
+  }
+
+  if (rule.applicabilityExpression !== null && rule.applicabilityExpression !== undefined) {
+    const errors = validateApplicabilityExpression(rule.applicabilityExpression);
+    if (errors.length > 0) {
+      // A broken expression must not silently widen or narrow the rule
+      checks.push({ check: 'expression', passed: false, detail: `Invalid applicability expression: ${errors.join('; ')}` });
+    } else {
+      const trace = evaluateApplicabilityExpression(rule.applicabilityExpression as ApplicabilityExpression, facts);
+      checks.push({
+        check: 'expression',
+        passed: trace.passed,
+        detail: trace.passed ? 'Applicability expression holds' : 'Applicability expression does not hold',
+        trace,
+      });
+    }
+  }
+
+  return {
+    ruleCode: rule.ruleCode,
+    applicable: checks.every((check) => check.passed),
+    checks,
+  };
+}
+
+export function isRuleApplicable(rule: ApplicabilityRuleFields, facts: EntityFacts, now: Date = new Date()): boolean {
+  return explainRuleApplicability(rule, facts, now).applicable;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class RuleApplicabilityService {
+  private async loadRule(ruleId: number) {
+    const [rule] = await db.select().from(complianceRules).where(eq(complianceRules.id, ruleId)).limit(1);
+    if (!rule) {
+      throw new NotFoundError('Compliance rule');
+    }
+    return rule;
+  }
+
+  private async loadFacts(entityId: number): Promise<{ entityName: string; facts: EntityFacts }> {
+    const [entity] = await db.select().from(businessEntities).where(eq(businessEntities.id, entityId)).limit(1);
+    if (!entity) {
+      throw new NotFoundError('Business entity');
+    }
+    return { entityName: entity.name, facts: entityFactsFromRecord(entity) };
+  }
+
+  /**
+   * Test a rule against an entity, optionally with a draft expression in place
+   * of the saved one
+   */
+  async testRule(ruleId: number, entityId: number, draftExpression?: unknown) {
+    if (draftExpression !== undefined && draftExpression !== null) {
+      assertValidApplicabilityExpression(draftExpression);
+    }
+
+    const rule = await this.loadRule(ruleId);
+    const { entityName, facts } = await this.loadFacts(entityId);
+    const usingDraft = draftExpression !== undefined;
+    const explanation = explainRuleApplicability(
+      usingDraft ? { ...rule, applicabilityExpression: draftExpression } : rule,
+      facts
+    );
+
+    return {
+      ruleId,
+      entityId,
+      entityName,
+      facts,
+      usingDraftExpression: usingDraft,
+      expression: usingDraft ? draftExpression : rule.applicabilityExpression,
+      ...explanation,
+    };
+  }
+
+  /**
+   * Why each active rule does or does not apply to an entity
+   */
+  async explainEntity(entityId: number) {
+    const { entityName, facts } = await this.loadFacts(entityId);
+    const rules = await db.select().from(complianceRules).where(eq(complianceRules.isActive, true));
+    const now = new Date();
+
+    const explanations = rules.map((rule: typeof complianceRules.$inferSelect) => ({
+      ruleId: rule.id,
+      complianceName: rule.complianceName,
+      ...explainRuleApplicability(rule, facts, now),
+    }));
+
+    return {
+      entityId,
+      entityName,
+      facts,
+      applicableCount: explanations.filter((explanation) => explanation.applicable).length,
+      rules: explanations,
+    };
+  }
+
+  /**
+   * Save (or clear, with null) a rule's applicability expression; entities
+   * tracking the rule are recalculated
+   */
+  async setExpression(ruleId: number, expression: unknown) {
+    if (expression !== null) {
+      assertValidApplicabilityExpression(expression);
+    }
+    await this.loadRule(ruleId);
+
+    const [updated] = await db.update(complianceRules)
+      .set({ applicabilityExpression: expression, updatedAt: new Date() })
+      .where(eq(complianceRules.id, ruleId))
+      .returning();
+
+    // Lazy: the event emitter depends on the state engine, which depends on this module
+    const { triggerComplianceChange } = await import('../compliance-event-emitter');
+    triggerComplianceChange({ type: 'rule', ruleId }, 'rule_changed');
+    return updated;
+  }
+}
+
+export const ruleApplicabilityService = new RuleApplicabilityService();
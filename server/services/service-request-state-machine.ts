@@ -4,12 +4,22 @@
  * Enforces valid status transitions and workflow rules for service requests.
  * This is CRITICAL for ensuring proper workflow execution and preventing
  * invalid state changes that could corrupt data or bypass required steps.
+ *
+ * Services with a published workflow (see workflow-engine) use its statuses,
+ * transitions, roles, guards and side-effects; the rest use the built-in
+ * graph below.
  */
 
 import { db } from '../db';
 import { serviceRequests, users } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { logger } from '../logger';
+import { triggerComplianceChange } from '../compliance-event-emitter';
+import { publishStatusTransition } from '../realtime';
+import { syncSlaClock } from './sla-service';
+import { workflowEngine } from './workflow-engine';
+import { qcAnnotationService } from './qc-annotation-service';
+import { nextStatuses, type WorkflowDefinition } from './workflow-definition';
 
 // Valid service request statuses
 export const SERVICE_REQUEST_STATUSES = {
@@ -251,6 +261,14 @@ const TRANSITION_CONDITIONS: Record<string, TransitionCondition[]> = {
                context?.performedBy?.role === 'admin';
       },
       errorMessage: 'QC approval must be performed by QC personnel'
+    },
+    {
+      check: async (sr) => {
+        // Open annotations on the delivery documents block approval
+        const unresolved = await qcAnnotationService.findUnresolved(sr.id);
+        return unresolved.length === 0;
+      },
+      errorMessage: 'All QC annotations must be resolved before approval'
     }
   ],
 
@@ -314,6 +332,22 @@ export function getValidNextStatuses(currentStatus: string): string[] {
   return VALID_TRANSITIONS[currentStatus] || [];
 }
 
+/**
+ * Valid next statuses for a request of this service, using its published workflow if any
+ */
+export async function getValidNextStatusesFor(serviceKey: string, currentStatus: string): Promise<string[]> {
+  const workflow = await workflowEngine.getPublished(serviceKey);
+  return workflow ? nextStatuses(workflow, currentStatus) : getValidNextStatuses(currentStatus);
+}
+
+/**
+ * Validate a transition for a request of this service, using its published workflow if any
+ */
+export async function isValidTransitionFor(serviceKey: string, fromStatus: string, toStatus: string): Promise<boolean> {
+  const workflow = await workflowEngine.getPublished(serviceKey);
+  return workflow ? nextStatuses(workflow, fromStatus).includes(toStatus) : isValidTransition(fromStatus, toStatus);
+}
+
 /**
  * Perform a validated status transition
  */
@@ -343,33 +377,50 @@ export async function transitionStatus(
     }
 
     const fromStatus = serviceRequest.status;
-
-    // Check if transition is valid (unless force override)
-    if (!context.force && !isValidTransition(fromStatus, toStatus)) {
-      return {
-        success: false,
-        previousStatus: fromStatus,
-        newStatus: toStatus,
-        message: `Invalid transition: ${fromStatus} -> ${toStatus}. Valid transitions: ${getValidNextStatuses(fromStatus).join(', ')}`,
-        timestamp
-      };
-    }
-
-    // Check transition conditions
-    const conditionKey = `${fromStatus}->${toStatus}`;
-    const conditions = TRANSITION_CONDITIONS[conditionKey] || [];
-
-    for (const condition of conditions) {
-      const passed = await condition.check(serviceRequest, context);
-      if (!passed && !context.force) {
+    const workflow = await workflowEngine.getPublished(serviceRequest.serviceId);
+
+    if (workflow) {
+      // Edge, role and guards from the service's published workflow (unless force override)
+      if (!context.force) {
+        const check = await workflowEngine.checkTransition(workflow, serviceRequest, toStatus, context.performedBy);
+        if (!check.allowed) {
+          return {
+            success: false,
+            previousStatus: fromStatus,
+            newStatus: toStatus,
+            message: check.errors.join('; '),
+            timestamp
+          };
+        }
+      }
+    } else {
+      // Check if transition is valid (unless force override)
+      if (!context.force && !isValidTransition(fromStatus, toStatus)) {
         return {
           success: false,
           previousStatus: fromStatus,
           newStatus: toStatus,
-          message: condition.errorMessage,
+          message: `Invalid transition: ${fromStatus} -> ${toStatus}. Valid transitions: ${getValidNextStatuses(fromStatus).join(', ')}`,
           timestamp
         };
       }
+
+      // Check transition conditions
+      const conditionKey = `${fromStatus}->${toStatus}`;
+      const conditions = TRANSITION_CONDITIONS[conditionKey] || [];
+
+      for (const condition of conditions) {
+        const passed = await condition.check(serviceRequest, context);
+        if (!passed && !context.force) {
+          return {
+            success: false,
+            previousStatus: fromStatus,
+            newStatus: toStatus,
+            message: condition.errorMessage,
+            timestamp
+          };
+        }
+      }
     }
 
     // Perform the transition
@@ -380,6 +431,7 @@ export async function transitionStatus(
         lastStatusChangeAt: new Date(),
         lastStatusChangeBy: context.performedBy.id,
         statusChangeReason: context.reason || null,
+        workflowVersion: workflow?.version ?? serviceRequest.workflowVersion,
         updatedAt: new Date()
       })
       .where(eq(serviceRequests.id, serviceRequestId));
@@ -387,6 +439,30 @@ export async function transitionStatus(
     // Log the transition (in production, log to audit table)
     logger.info(`[STATE MACHINE] Service Request ${serviceRequestId}: ${fromStatus} -> ${toStatus} by ${context.performedBy.username}`);
 
+    const complianceEntityId = serviceRequest.businessEntityId ?? serviceRequest.entityId;
+    if (complianceEntityId) {
+      triggerComplianceChange(
+        { type: 'service_request', entityId: complianceEntityId, serviceId: serviceRequest.serviceId },
+        toStatus === 'completed' ? 'service_completed' : 'service_status_changed',
+        { serviceRequestId, fromStatus, toStatus }
+      );
+    }
+
+    publishStatusTransition({
+      serviceRequestId,
+      businessEntityId: complianceEntityId,
+      fromStatus,
+      toStatus,
+      changedBy: context.performedBy.id,
+    });
+
+    // Client-waiting statuses pause the SLA clock
+    syncSlaClock(serviceRequestId, toStatus, context.performedBy.id);
+
+    if (workflow) {
+      await workflowEngine.runSideEffects(workflow, serviceRequest, fromStatus, toStatus, context.performedBy.id);
+    }
+
     return {
       success: true,
       previousStatus: fromStatus,
@@ -411,7 +487,18 @@ export async function transitionStatus(
 /**
  * Get status workflow diagram data (for UI visualization)
  */
-export function getWorkflowDiagram() {
+export function getWorkflowDiagram(workflow?: WorkflowDefinition | null) {
+  if (workflow) {
+    return {
+      nodes: workflow.statuses.map(status => ({
+        id: status.code,
+        label: status.name,
+        type: status.isTerminal ? 'terminal' : status.code === workflow.initialStatus ? 'initial' : 'active'
+      })),
+      edges: workflow.transitions.map(transition => ({ from: transition.from, to: transition.to }))
+    };
+  }
+
   const nodes = Object.values(SERVICE_REQUEST_STATUSES).map(status => ({
     id: status,
     label: status.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
@@ -0,0 +1,367 @@
+/**
+ * SLA Business Calendars
+ *
+ * Business-time arithmetic for SLA clocks. A calendar is working hours on
+ * working days at a fixed UTC offset, minus holidays. Arithmetic is done on
+ * UTC milliseconds shifted by the offset, so results never depend on the
+ * server's time zone.
+ *
+ * A clock runs from its start time for a number of business hours. Pauses are
+ * kept as intervals; the business time inside them is added back to the
+ * deadline and not counted as elapsed.
+ *
+ * Kept free of I/O; the SLA service loads calendars, holidays and timers.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BusinessCalendar {
+  id: number | null;
+  name: string;
+  utcOffsetMinutes: number;
+  workdayStartMinutes: number; // Minutes after local midnight
+  workdayEndMinutes: number;
+  workingDays: number[]; // Sunday=0
+  holidays: Set<string>; // YYYY-MM-DD in the calendar's local time
+}
+
+export interface BusinessCalendarRecord {
+  id: number;
+  name: string;
+  utcOffsetMinutes: number | null;
+  workdayStart: string | null; // HH:MM
+  workdayEnd: string | null;
+  workingDays: unknown;
+}
+
+export interface CalendarScope {
+  serviceCode?: string | null;
+  team?: string | null;
+  tenantId?: string | null;
+}
+
+export interface ScopedCalendarRecord {
+  serviceCode: string | null;
+  team: string | null;
+  tenantId: string | null;
+}
+
+export type SlaPauseSource = 'status' | 'manual';
+
+export interface SlaPauseInterval {
+  source: SlaPauseSource;
+  status: string | null; // Request status that paused the clock
+  reason: string;
+  pausedAt: string;
+  resumedAt: string | null;
+  resumeReason: string | null;
+  businessMinutes: number | null; // Set when the pause ends
+  exceptionId: number | null; // Matching slaExceptions row
+}
+
+export interface SlaClockInput {
+  startTime: Date;
+  standardHours: number;
+  totalPausedMinutes: number; // Business minutes of pauses that have ended
+  pausedAt: Date | null;
+  completedAt?: Date | null;
+}
+
+export interface SlaClock {
+  elapsedHours: number;
+  remainingHours: number;
+  pausedHours: number;
+  deadline: Date;
+  isPaused: boolean;
+  isBreached: boolean;
+  percentageUsed: number;
+}
+
+export type SlaClockState = 'on_track' | 'warning' | 'at_risk' | 'breached' | 'paused' | 'completed';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+// Days searched for working time before giving up on a calendar
+const MAX_SEARCH_DAYS = 3660;
+
+const WARNING_PERCENT = 80;
+const AT_RISK_PERCENT = 90;
+
+/** Mon-Fri 09:00-18:00 IST, used when no calendar is configured */
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  id: null,
+  name: 'Default (Mon-Fri 09:00-18:00 IST)',
+  utcOffsetMinutes: 330,
+  workdayStartMinutes: 9 * 60,
+  workdayEndMinutes: 18 * 60,
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: new Set(),
+};
+
+/**
+ * Request statuses in which the request waits on the client. The clock is
+ * paused on entry and resumed on exit.
+ */
+export const SLA_PAUSE_STATUSES = ['documents_pending', 'awaiting_client_confirmation', 'on_hold'];
+
+/** Statuses that stop the clock for good */
+export const SLA_CLOSED_STATUSES = ['completed', 'cancelled', 'delivered'];
+
+// ============================================================================
+// CALENDARS
+// ============================================================================
+
+/** Parse HH:MM into minutes after midnight; 24:00 is allowed as an end time */
+export function parseTimeOfDay(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = /^(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function parseWorkingDays(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null;
+  const days = value.map(Number);
+  if (days.length === 0 || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) return null;
+  return Array.from(new Set(days)).sort();
+}
+
+/**
+ * Check a calendar definition. With `partial`, only the fields present are
+ * checked (for updates). Returns one message per problem.
+ */
+export function validateBusinessCalendarInput(input: unknown, partial: boolean = false): string[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return ['calendar: must be an object'];
+  const value = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const has = (key: string) => value[key] !== undefined;
+
+  if (has('name') || !partial) {
+    if (typeof value.name !== 'string' || !value.name.trim()) errors.push('name: is required');
+  }
+  if (has('utcOffsetMinutes')) {
+    const offset = value.utcOffsetMinutes;
+    if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < -720 || offset > 840) {
+      errors.push('utcOffsetMinutes: must be a whole number of minutes between -720 and 840');
+    }
+  }
+  if (has('workdayStart') && parseTimeOfDay(value.workdayStart) === null) {
+    errors.push('workdayStart: must be HH:MM');
+  }
+  if (has('workdayEnd') && parseTimeOfDay(value.workdayEnd) === null) {
+    errors.push('workdayEnd: must be HH:MM');
+  }
+  const start = parseTimeOfDay(value.workdayStart);
+  const end = parseTimeOfDay(value.workdayEnd);
+  if (start !== null && end !== null && end <= start) {
+    errors.push('workdayEnd: must be after workdayStart');
+  }
+  if (has('workingDays') && parseWorkingDays(value.workingDays) === null) {
+    errors.push('workingDays: must be a non-empty array of weekdays 0 (Sunday) to 6');
+  }
+  for (const key of ['serviceCode', 'team', 'tenantId', 'jurisdictionId']) {
+    if (has(key) && value[key] !== null && (typeof value[key] !== 'string' || !(value[key] as string).trim())) {
+      errors.push(`${key}: must be a non-empty string or null`);
+    }
+  }
+  if (has('observeHolidays') && typeof value.observeHolidays !== 'boolean') {
+    errors.push('observeHolidays: must be a boolean');
+  }
+  return errors;
+}
+
+export function calendarFromRecord(record: BusinessCalendarRecord, holidayDates: Iterable<string> = []): BusinessCalendar {
+  const start = parseTimeOfDay(record.workdayStart) ?? DEFAULT_BUSINESS_CALENDAR.workdayStartMinutes;
+  const end = parseTimeOfDay(record.workdayEnd) ?? DEFAULT_BUSINESS_CALENDAR.workdayEndMinutes;
+  const valid = end > start;
+
+  return {
+    id: record.id,
+    name: record.name,
+    utcOffsetMinutes: record.utcOffsetMinutes ?? DEFAULT_BUSINESS_CALENDAR.utcOffsetMinutes,
+    workdayStartMinutes: valid ? start : DEFAULT_BUSINESS_CALENDAR.workdayStartMinutes,
+    workdayEndMinutes: valid ? end : DEFAULT_BUSINESS_CALENDAR.workdayEndMinutes,
+    workingDays: parseWorkingDays(record.workingDays) ?? DEFAULT_BUSINESS_CALENDAR.workingDays,
+    holidays: new Set(holidayDates),
+  };
+}
+
+/**
+ * Pick the calendar for a scope. A calendar scoped to a service, team or
+ * tenant only matches that service, team or tenant; among matches the service
+ * scope outranks the team scope, which outranks the tenant scope. Ties go to
+ * the first record.
+ */
+export function selectCalendarRecord<T extends ScopedCalendarRecord>(records: T[], scope: CalendarScope): T | null {
+  let best: T | null = null;
+  let bestScore = -1;
+
+  for (const record of records) {
+    if (record.serviceCode && record.serviceCode !== scope.serviceCode) continue;
+    if (record.team && record.team !== scope.team) continue;
+    if (record.tenantId && record.tenantId !== scope.tenantId) continue;
+
+    const score = (record.serviceCode ? 4 : 0) + (record.team ? 2 : 0) + (record.tenantId ? 1 : 0);
+    if (score > bestScore) {
+      best = record;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// BUSINESS TIME
+// ============================================================================
+
+function toLocalDay(localMs: number) {
+  const msInDay = ((localMs % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY;
+  const dayStart = localMs - msInDay;
+  return { msInDay, dayStart };
+}
+
+function isBusinessDay(dayStart: number, calendar: BusinessCalendar): boolean {
+  const date = new Date(dayStart);
+  return calendar.workingDays.includes(date.getUTCDay()) && !calendar.holidays.has(date.toISOString().slice(0, 10));
+}
+
+/**
+ * Add business hours to a moment. Time outside working hours, on non-working
+ * days and on holidays is skipped.
+ */
+export function addBusinessHours(start: Date, hours: number, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): Date {
+  const offsetMs = calendar.utcOffsetMinutes * MS_PER_MINUTE;
+  const openMs = calendar.workdayStartMinutes * MS_PER_MINUTE;
+  const closeMs = calendar.workdayEndMinutes * MS_PER_MINUTE;
+
+  let localMs = start.getTime() + offsetMs;
+  let remainingMs = hours * MS_PER_HOUR;
+  let steps = 0;
+
+  while (remainingMs > 0) {
+    if (++steps > MAX_SEARCH_DAYS * 3) {
+      throw new Error(`Business calendar "${calendar.name}" has no working time`);
+    }
+    const { msInDay, dayStart } = toLocalDay(localMs);
+
+    if (!isBusinessDay(dayStart, calendar) || msInDay >= closeMs) {
+      localMs = dayStart + MS_PER_DAY + openMs;
+      continue;
+    }
+    if (msInDay < openMs) {
+      localMs = dayStart + openMs;
+      continue;
+    }
+
+    const availableMs = closeMs - msInDay;
+    if (remainingMs <= availableMs) {
+      localMs += remainingMs;
+      remainingMs = 0;
+    } else {
+      remainingMs -= availableMs;
+      localMs = dayStart + MS_PER_DAY + openMs;
+    }
+  }
+
+  return new Date(localMs - offsetMs);
+}
+
+/**
+ * Business hours between two moments
+ */
+export function businessHoursBetween(start: Date, end: Date, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): number {
+  if (end.getTime() <= start.getTime()) return 0;
+
+  const offsetMs = calendar.utcOffsetMinutes * MS_PER_MINUTE;
+  const openMs = calendar.workdayStartMinutes * MS_PER_MINUTE;
+  const closeMs = calendar.workdayEndMinutes * MS_PER_MINUTE;
+  const startLocal = start.getTime() + offsetMs;
+  const endLocal = end.getTime() + offsetMs;
+
+  let totalMs = 0;
+  for (let dayStart = toLocalDay(startLocal).dayStart; dayStart < endLocal; dayStart += MS_PER_DAY) {
+    if (!isBusinessDay(dayStart, calendar)) continue;
+    const from = Math.max(startLocal, dayStart + openMs);
+    const to = Math.min(endLocal, dayStart + closeMs);
+    if (to > from) totalMs += to - from;
+  }
+  return totalMs / MS_PER_HOUR;
+}
+
+// ============================================================================
+// CLOCKS
+// ============================================================================
+
+/**
+ * Pause intervals stored on a timer. Free-text entries written before
+ * intervals were recorded are dropped; their time is already in the timer's
+ * paused minutes.
+ */
+export function normalizePauseIntervals(raw: unknown): SlaPauseInterval[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((entry): entry is Record<string, unknown> =>
+      !!entry && typeof entry === 'object' && typeof (entry as Record<string, unknown>).pausedAt === 'string')
+    .map((entry) => ({
+      source: entry.source === 'status' ? 'status' : 'manual',
+      status: typeof entry.status === 'string' ? entry.status : null,
+      reason: typeof entry.reason === 'string' ? entry.reason : '',
+      pausedAt: entry.pausedAt as string,
+      resumedAt: typeof entry.resumedAt === 'string' ? entry.resumedAt : null,
+      resumeReason: typeof entry.resumeReason === 'string' ? entry.resumeReason : null,
+      businessMinutes: typeof entry.businessMinutes === 'number' ? entry.businessMinutes : null,
+      exceptionId: typeof entry.exceptionId === 'number' ? entry.exceptionId : null,
+    }));
+}
+
+export function findOpenPause(intervals: SlaPauseInterval[]): SlaPauseInterval | null {
+  for (let i = intervals.length - 1; i >= 0; i--) {
+    if (!intervals[i].resumedAt) return intervals[i];
+  }
+  return null;
+}
+
+/**
+ * Clock position at `now`, or at completion for a completed clock. A clock
+ * that breached stays breached even if it is paused afterwards.
+ */
+export function computeSlaClock(input: SlaClockInput, calendar: BusinessCalendar, now: Date = new Date()): SlaClock {
+  const end = input.completedAt ?? now;
+  const openPauseHours = input.pausedAt && !input.completedAt ? businessHoursBetween(input.pausedAt, end, calendar) : 0;
+  const pausedHours = (input.totalPausedMinutes || 0) / 60 + openPauseHours;
+  const elapsedHours = Math.max(0, businessHoursBetween(input.startTime, end, calendar) - pausedHours);
+
+  return {
+    elapsedHours,
+    remainingHours: Math.max(0, input.standardHours - elapsedHours),
+    pausedHours,
+    deadline: addBusinessHours(input.startTime, input.standardHours + pausedHours, calendar),
+    isPaused: !!input.pausedAt && !input.completedAt,
+    isBreached: elapsedHours >= input.standardHours,
+    percentageUsed: input.standardHours > 0 ? Math.min(100, Math.round((elapsedHours / input.standardHours) * 100)) : 100,
+  };
+}
+
+export function clockState(clock: SlaClock, completed: boolean = false): SlaClockState {
+  if (completed) return 'completed';
+  if (clock.isBreached) return 'breached';
+  if (clock.isPaused) return 'paused';
+  if (clock.percentageUsed >= AT_RISK_PERCENT) return 'at_risk';
+  if (clock.percentageUsed >= WARNING_PERCENT) return 'warning';
+  return 'on_track';
+}
@@ -1,16 +1,58 @@
 /**
  * SLA Service
  *
- * Comprehensive SLA management service for service requests.
- * Handles SLA configuration, deadline calculation with business hours,
- * breach detection, and escalation management.
+ * The SLA engine for service requests. Handles SLA configuration, business
+ * calendars, the per-request clock (with pause/resume), breach detection and
+ * escalation management.
+ *
+ * Clocks:
+ * - One slaTimers row per request, started from the request's creation time
+ *   on the business calendar that applies to its service, team and tenant
+ * - Paused while the request waits on the client (SLA_PAUSE_STATUSES) and
+ *   resumed when it leaves those statuses; ops can also pause manually
+ * - Every pause interval is kept on the timer and as an slaExceptions row,
+ *   with the business time it added to the deadline
+ * - The request's slaDeadline follows the clock
  */
 
 import { db } from '../db';
-import { serviceRequests, slaSettings, activityLogs } from '@shared/schema';
-import { eq, and, sql, lt, notInArray } from 'drizzle-orm';
+import {
+  serviceRequests,
+  slaSettings,
+  activityLogs,
+  slaTimers,
+  slaExceptions,
+  slaBusinessCalendars,
+  users,
+  workItemQueue,
+  type SlaTimer,
+  type SlaBusinessCalendar,
+} from '@shared/schema';
+import { eq, and, sql, notInArray, desc, gte, asc } from 'drizzle-orm';
 import { notificationHub } from './notifications';
 import { logger } from '../logger';
+import { NotFoundError, ValidationError } from '../errors';
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  SLA_CLOSED_STATUSES,
+  SLA_PAUSE_STATUSES,
+  addBusinessHours,
+  businessHoursBetween,
+  calendarFromRecord,
+  clockState,
+  computeSlaClock,
+  findOpenPause,
+  formatTimeOfDay,
+  normalizePauseIntervals,
+  selectCalendarRecord,
+  validateBusinessCalendarInput,
+  type BusinessCalendar,
+  type CalendarScope,
+  type SlaClock,
+  type SlaClockInput,
+  type SlaPauseInterval,
+  type SlaPauseSource,
+} from './sla-calendar';
 
 // ============================================
 // TYPES
@@ -36,6 +78,8 @@ export interface SLAStatus {
   escalationLevel: number;
   deadline: Date;
   percentageUsed: number;
+  isPaused: boolean;
+  pausedHours: number;
 }
 
 export interface SLACheckResult {
@@ -45,6 +89,52 @@ export interface SLACheckResult {
   errors: number;
 }
 
+export interface BusinessCalendarInput {
+  name?: string;
+  serviceCode?: string | null;
+  team?: string | null;
+  tenantId?: string | null;
+  utcOffsetMinutes?: number;
+  workdayStart?: string;
+  workdayEnd?: string;
+  workingDays?: number[];
+  jurisdictionId?: string | null;
+  observeHolidays?: boolean;
+}
+
+export interface ClockChangeOptions {
+  reason: string;
+  actorId?: number | null;
+  at?: Date;
+}
+
+export interface SlaClockReport {
+  serviceRequestId: number;
+  state: string;
+  calendar: ReturnType<typeof describeCalendar>;
+  timer: {
+    id: number;
+    startTime: Date;
+    standardHours: number;
+    totalPausedMinutes: number;
+    pausedAt: Date | null;
+    completedAt: Date | null;
+    breachedAt: Date | null;
+    escalationLevel: string | null;
+  };
+  clock: SlaClock;
+  pauses: SlaPauseInterval[];
+  exceptions: Array<typeof slaExceptions.$inferSelect>;
+}
+
+type ServiceRequestRow = typeof serviceRequests.$inferSelect;
+
+interface LoadedClock {
+  request: ServiceRequestRow;
+  timer: SlaTimer;
+  calendar: BusinessCalendar;
+}
+
 // Priority multipliers for SLA calculation
 const PRIORITY_MULTIPLIERS: Record<string, number> = {
   urgent: 0.25,
@@ -64,24 +154,40 @@ const DEFAULT_SLA_CONFIG: SLAConfig = {
   ]
 };
 
-// Business hours configuration (Mon-Fri, 9 AM - 6 PM IST)
-const BUSINESS_HOURS = {
-  start: 9,  // 9 AM
-  end: 18,   // 6 PM
-  workDays: [1, 2, 3, 4, 5] // Monday to Friday
-};
+// Calendars change rarely; avoid re-reading them for every request in a check
+const CALENDAR_CACHE_TTL_MS = 10 * 60 * 1000;
 
-// IST timezone constants for environment-agnostic business hour calculations
-const IST_OFFSET_MS = 330 * 60 * 1000; // UTC + 5:30 (330 minutes)
-const MS_PER_HOUR = 60 * 60 * 1000;
-const MS_PER_MINUTE = 60 * 1000;
-const MS_PER_DAY = 24 * MS_PER_HOUR;
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function yearsSpanned(from: Date, to: Date): number[] {
+  const years: number[] = [];
+  for (let year = from.getUTCFullYear(); year <= to.getUTCFullYear() + 1; year++) {
+    years.push(year);
+  }
+  return years;
+}
+
+function describeCalendar(calendar: BusinessCalendar) {
+  return {
+    id: calendar.id,
+    name: calendar.name,
+    utcOffsetMinutes: calendar.utcOffsetMinutes,
+    workdayStart: formatTimeOfDay(calendar.workdayStartMinutes),
+    workdayEnd: formatTimeOfDay(calendar.workdayEndMinutes),
+    workingDays: calendar.workingDays,
+    holidays: Array.from(calendar.holidays).sort(),
+  };
+}
 
 // ============================================
 // SLA SERVICE CLASS
 // ============================================
 
 class SLAService {
+  private calendarCache: { records: SlaBusinessCalendar[]; expiresAt: number } | null = null;
+
   /**
    * Get SLA configuration for a specific service
    */
@@ -121,7 +227,7 @@ class SLAService {
   }
 
   /**
-   * Calculate SLA deadline considering priority and business hours
+   * Calculate SLA deadline considering priority and the service's business calendar
    */
   async calculateDeadline(
     serviceId: string,
@@ -131,162 +237,580 @@ class SLAService {
     const config = await this.getSLAConfig(serviceId);
     const multiplier = PRIORITY_MULTIPLIERS[priority.toLowerCase()] || 1.0;
     const adjustedHours = config.resolutionHours * multiplier;
+    const calendar = await this.resolveCalendar({ serviceCode: serviceId }, yearsSpanned(createdAt, createdAt));
 
-    // Calculate deadline using business hours
-    return this.addBusinessHours(createdAt, adjustedHours);
+    return this.addBusinessHours(createdAt, adjustedHours, calendar);
   }
 
   /**
-   * Add business hours to a date, using IST (UTC+05:30) millisecond arithmetic.
-   * Environment-agnostic: never uses getHours/setHours/getDay which depend on local TZ.
-   * Only counts hours during business days (Mon-Fri) and business hours (9 AM - 6 PM IST).
+   * Add business hours to a date. Without a calendar, Mon-Fri 9 AM - 6 PM IST
+   * without holidays is used.
    */
-  addBusinessHours(startDate: Date, hours: number): Date {
-    let istMs = startDate.getTime() + IST_OFFSET_MS;
-    let remaining = hours;
-    const BUSINESS_START = 9;
-    const BUSINESS_END = 18;
-
-    while (remaining > 0) {
-      const msInDay = ((istMs % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY;
-      const hour = Math.floor(msInDay / MS_PER_HOUR);
-      const minute = Math.floor((msInDay % MS_PER_HOUR) / MS_PER_MINUTE);
-      const dayOfWeek = new Date(istMs).getUTCDay();
-      const dayStart = istMs - msInDay;
-
-      // Skip weekends
-      if (dayOfWeek === 0) { istMs = dayStart + MS_PER_DAY + BUSINESS_START * MS_PER_HOUR; continue; }
-      if (dayOfWeek === 6) { istMs = dayStart + 2 * MS_PER_DAY + BUSINESS_START * MS_PER_HOUR; continue; }
-
-      // Before business hours -> snap to start
-      if (hour < BUSINESS_START) { istMs = dayStart + BUSINESS_START * MS_PER_HOUR; continue; }
-
-      // After business hours -> snap to next day start
-      if (hour >= BUSINESS_END) { istMs = dayStart + MS_PER_DAY + BUSINESS_START * MS_PER_HOUR; continue; }
-
-      const availableMs = (BUSINESS_END * MS_PER_HOUR) - (hour * MS_PER_HOUR + minute * MS_PER_MINUTE);
-      const remainingMs = remaining * MS_PER_HOUR;
-
-      if (remainingMs <= availableMs) {
-        istMs += remainingMs;
-        remaining = 0;
-      } else {
-        remaining -= availableMs / MS_PER_HOUR;
-        istMs = dayStart + MS_PER_DAY + BUSINESS_START * MS_PER_HOUR;
-      }
-    }
-
-    return new Date(istMs - IST_OFFSET_MS);
+  addBusinessHours(startDate: Date, hours: number, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): Date {
+    return addBusinessHours(startDate, hours, calendar);
   }
 
   /**
-   * Calculate business hours between two dates
+   * Calculate business hours between two dates, rounded to 1 decimal
    */
-  calculateBusinessHours(start: Date, end: Date): number {
-    if (end <= start) return 0;
-
-    let totalHours = 0;
-    const current = new Date(start);
-
-    while (current < end) {
-      const dayOfWeek = current.getDay();
-
-      // Only count business days
-      if (BUSINESS_HOURS.workDays.includes(dayOfWeek)) {
-        const currentHour = current.getHours();
-
-        // Calculate hours in this day
-        if (currentHour >= BUSINESS_HOURS.start && currentHour < BUSINESS_HOURS.end) {
-          const endOfDay = new Date(current);
-          endOfDay.setHours(BUSINESS_HOURS.end, 0, 0, 0);
-
-          const dayEnd = end < endOfDay ? end : endOfDay;
-          const hoursInDay = (dayEnd.getTime() - current.getTime()) / (1000 * 60 * 60);
-          totalHours += Math.max(0, hoursInDay);
-
-          // Move to next day's start
-          current.setDate(current.getDate() + 1);
-          current.setHours(BUSINESS_HOURS.start, 0, 0, 0);
-        } else if (currentHour < BUSINESS_HOURS.start) {
-          // Move to business hours start
-          current.setHours(BUSINESS_HOURS.start, 0, 0, 0);
-        } else {
-          // After business hours, move to next day
-          current.setDate(current.getDate() + 1);
-          current.setHours(BUSINESS_HOURS.start, 0, 0, 0);
-        }
-      } else {
-        // Weekend - move to next business day
-        const daysUntilMonday = dayOfWeek === 0 ? 1 : 8 - dayOfWeek;
-        current.setDate(current.getDate() + daysUntilMonday);
-        current.setHours(BUSINESS_HOURS.start, 0, 0, 0);
-      }
+  calculateBusinessHours(start: Date, end: Date, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): number {
+    return round1(businessHoursBetween(start, end, calendar));
+  }
+
+  // ============================================
+  // BUSINESS CALENDARS
+  // ============================================
+
+  async listCalendars(): Promise<SlaBusinessCalendar[]> {
+    return db.select().from(slaBusinessCalendars).orderBy(asc(slaBusinessCalendars.id));
+  }
+
+  async createCalendar(input: BusinessCalendarInput, createdBy?: number): Promise<SlaBusinessCalendar> {
+    const errors = validateBusinessCalendarInput(input);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid business calendar', { errors });
     }
 
-    return Math.round(totalHours * 10) / 10; // Round to 1 decimal
+    const [calendar] = await db
+      .insert(slaBusinessCalendars)
+      .values({
+        ...this.pickCalendarFields(input),
+        name: input.name!.trim(),
+        createdBy: createdBy ?? null,
+      })
+      .returning();
+
+    this.calendarCache = null;
+    logger.info('SLA business calendar created', { calendarId: calendar.id, name: calendar.name });
+    return calendar;
+  }
+
+  async updateCalendar(id: number, input: BusinessCalendarInput): Promise<SlaBusinessCalendar> {
+    const [existing] = await db
+      .select()
+      .from(slaBusinessCalendars)
+      .where(eq(slaBusinessCalendars.id, id))
+      .limit(1);
+    if (!existing) throw new NotFoundError('Business calendar');
+
+    // Check the fields sent, then the calendar they produce (e.g. start before end)
+    const errors = validateBusinessCalendarInput(input, true);
+    if (errors.length === 0) {
+      errors.push(...validateBusinessCalendarInput({ ...existing, ...this.pickCalendarFields(input) }, true));
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid business calendar', { errors });
+    }
+
+    const [calendar] = await db
+      .update(slaBusinessCalendars)
+      .set({ ...this.pickCalendarFields(input), updatedAt: new Date() })
+      .where(eq(slaBusinessCalendars.id, id))
+      .returning();
+
+    this.calendarCache = null;
+    return calendar;
   }
 
   /**
-   * Get SLA status for a service request
+   * Stop a calendar applying to new clocks. Running clocks keep the calendar
+   * they started on.
    */
-  async getStatus(requestId: number): Promise<SLAStatus | null> {
+  async deactivateCalendar(id: number): Promise<void> {
+    const [calendar] = await db
+      .update(slaBusinessCalendars)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(slaBusinessCalendars.id, id))
+      .returning({ id: slaBusinessCalendars.id });
+    if (!calendar) throw new NotFoundError('Business calendar');
+    this.calendarCache = null;
+  }
+
+  /**
+   * The calendar, with holidays for the given years, that applies to a scope
+   */
+  async resolveCalendar(scope: CalendarScope, years: number[] = yearsSpanned(new Date(), new Date())): Promise<BusinessCalendar> {
+    const record = selectCalendarRecord(await this.getActiveCalendarRecords(), scope);
+    return this.buildCalendar(record, years);
+  }
+
+  async previewCalendar(scope: CalendarScope, year: number = new Date().getUTCFullYear()) {
+    return describeCalendar(await this.resolveCalendar(scope, [year]));
+  }
+
+  private pickCalendarFields(input: BusinessCalendarInput) {
+    const fields: Partial<typeof slaBusinessCalendars.$inferInsert> = {};
+    if (input.name !== undefined) fields.name = input.name.trim();
+    if (input.serviceCode !== undefined) fields.serviceCode = input.serviceCode;
+    if (input.team !== undefined) fields.team = input.team;
+    if (input.tenantId !== undefined) fields.tenantId = input.tenantId;
+    if (input.utcOffsetMinutes !== undefined) fields.utcOffsetMinutes = input.utcOffsetMinutes;
+    if (input.workdayStart !== undefined) fields.workdayStart = input.workdayStart;
+    if (input.workdayEnd !== undefined) fields.workdayEnd = input.workdayEnd;
+    if (input.workingDays !== undefined) fields.workingDays = input.workingDays;
+    if (input.jurisdictionId !== undefined) fields.jurisdictionId = input.jurisdictionId;
+    if (input.observeHolidays !== undefined) fields.observeHolidays = input.observeHolidays;
+    return fields;
+  }
+
+  private async getActiveCalendarRecords(): Promise<SlaBusinessCalendar[]> {
+    if (this.calendarCache && this.calendarCache.expiresAt > Date.now()) {
+      return this.calendarCache.records;
+    }
     try {
-      const [request] = await db
+      const records = await db
         .select()
-        .from(serviceRequests)
-        .where(eq(serviceRequests.id, requestId))
-        .limit(1);
+        .from(slaBusinessCalendars)
+        .where(eq(slaBusinessCalendars.isActive, true))
+        .orderBy(asc(slaBusinessCalendars.id));
+      this.calendarCache = { records, expiresAt: Date.now() + CALENDAR_CACHE_TTL_MS };
+      return records;
+    } catch (error) {
+      logger.error('Error loading SLA business calendars, using default:', error);
+      return [];
+    }
+  }
 
-      if (!request) {
-        logger.warn('Service request not found for SLA status', { requestId });
-        return null;
-      }
+  private async getCalendarById(calendarId: number | null, years: number[]): Promise<BusinessCalendar> {
+    if (!calendarId) return this.buildCalendar(null, years);
+    const cached = this.calendarCache?.records.find((record) => record.id === calendarId);
+    if (cached) return this.buildCalendar(cached, years);
+
+    // Inactive calendars still drive the clocks that started on them
+    const [record] = await db
+      .select()
+      .from(slaBusinessCalendars)
+      .where(eq(slaBusinessCalendars.id, calendarId))
+      .limit(1);
+    return this.buildCalendar(record ?? null, years);
+  }
+
+  private async buildCalendar(record: SlaBusinessCalendar | null, years: number[]): Promise<BusinessCalendar> {
+    if (!record) return DEFAULT_BUSINESS_CALENDAR;
+    if (record.observeHolidays === false) return calendarFromRecord(record);
+
+    try {
+      const { deadlineResolver } = await import('./deadline-resolver');
+      const context = await deadlineResolver.createContext({ jurisdictionId: record.jurisdictionId, years });
+      return calendarFromRecord(record, context.calendar.holidays.keys());
+    } catch (error) {
+      logger.error('Error loading holidays for SLA calendar:', { calendarId: record.id, error });
+      return calendarFromRecord(record);
+    }
+  }
+
+  // ============================================
+  // CLOCKS
+  // ============================================
+
+  private clockInput(timer: SlaTimer): SlaClockInput {
+    return {
+      startTime: timer.startTime,
+      standardHours: timer.standardHours,
+      totalPausedMinutes: timer.totalPausedMinutes || 0,
+      pausedAt: timer.pausedAt,
+      completedAt: timer.completedAt,
+    };
+  }
 
-      const now = new Date();
-      const createdAt = new Date(request.createdAt || now);
-      const deadline = request.slaDeadline ? new Date(request.slaDeadline) : await this.calculateDeadline(
-        request.serviceId,
-        request.priority || 'medium',
-        createdAt
-      );
+  private timerStatus(clock: SlaClock): string {
+    if (clock.isPaused) return 'paused';
+    return clock.isBreached ? 'breached' : 'active';
+  }
 
-      // Get SLA config for escalation levels
+  private async getLatestTimer(serviceRequestId: number): Promise<SlaTimer | null> {
+    const [timer] = await db
+      .select()
+      .from(slaTimers)
+      .where(eq(slaTimers.serviceRequestId, serviceRequestId))
+      .orderBy(desc(slaTimers.id))
+      .limit(1);
+    return timer ?? null;
+  }
+
+  /**
+   * Load a request's clock, starting it if it has none. A new clock adopts a
+   * deadline already set on the request; otherwise the service's resolution
+   * hours adjusted for priority apply.
+   */
+  private async loadClock(serviceRequestId: number): Promise<LoadedClock | null> {
+    const [request] = await db
+      .select()
+      .from(serviceRequests)
+      .where(eq(serviceRequests.id, serviceRequestId))
+      .limit(1);
+    if (!request) return null;
+
+    const now = new Date();
+    const existing = await this.getLatestTimer(serviceRequestId);
+    if (existing) {
+      const calendar = await this.getCalendarById(existing.calendarId, yearsSpanned(existing.startTime, now));
+      return { request, timer: existing, calendar };
+    }
+
+    const startTime = request.createdAt ? new Date(request.createdAt) : now;
+    let team: string | null = null;
+    if (request.assignedTeamMember) {
+      const [assignee] = await db
+        .select({ department: users.department })
+        .from(users)
+        .where(eq(users.id, request.assignedTeamMember))
+        .limit(1);
+      team = assignee?.department ?? null;
+    }
+
+    const record = selectCalendarRecord(await this.getActiveCalendarRecords(), { serviceCode: request.serviceId, team });
+    const calendar = await this.buildCalendar(record, yearsSpanned(startTime, now));
+
+    let standardHours: number;
+    if (request.slaDeadline) {
+      standardHours = Math.max(1, Math.ceil(businessHoursBetween(startTime, new Date(request.slaDeadline), calendar)));
+    } else {
       const config = await this.getSLAConfig(request.serviceId);
+      const multiplier = PRIORITY_MULTIPLIERS[request.priority?.toLowerCase() || 'medium'] || 1.0;
+      standardHours = Math.ceil(config.resolutionHours * multiplier);
+    }
 
-      // Calculate hours elapsed and remaining
-      const hoursElapsed = this.calculateBusinessHours(createdAt, now);
-      const hoursRemaining = this.calculateBusinessHours(now, deadline);
-      const totalSlaHours = config.resolutionHours * (PRIORITY_MULTIPLIERS[request.priority?.toLowerCase() || 'medium'] || 1.0);
-      const percentageUsed = Math.min(100, Math.round((hoursElapsed / totalSlaHours) * 100));
+    const [timer] = await db
+      .insert(slaTimers)
+      .values({
+        serviceRequestId,
+        serviceCode: request.serviceId,
+        standardHours,
+        startTime,
+        totalPausedMinutes: 0,
+        pauseReasons: [],
+        status: 'active',
+        calendarId: record?.id ?? null,
+        isActive: true,
+      })
+      .returning();
+
+    if (!request.slaDeadline) {
+      await this.saveDeadline(serviceRequestId, computeSlaClock(this.clockInput(timer), calendar, now).deadline);
+    }
 
-      // Determine breach status
-      const isBreached = now > deadline;
-      const breachType = isBreached ? 'resolution' : undefined;
+    logger.info('SLA clock started', { serviceRequestId, standardHours, calendar: calendar.name });
+    return { request, timer, calendar };
+  }
 
-      // Determine escalation level based on percentage used
-      // Handle case where escalationLevel field might not exist
-      let escalationLevel = (request as any).escalationLevel || 0;
+  /**
+   * Keep the request and its work items on the clock's deadline
+   */
+  private async saveDeadline(serviceRequestId: number, deadline: Date): Promise<void> {
+    await db
+      .update(serviceRequests)
+      .set({ slaDeadline: deadline, updatedAt: new Date() })
+      .where(eq(serviceRequests.id, serviceRequestId));
+
+    await db
+      .update(workItemQueue)
+      .set({ slaDeadline: deadline, dueDate: deadline, lastActivityAt: new Date() })
+      .where(eq(workItemQueue.serviceRequestId, serviceRequestId));
+  }
 
-      if (!isBreached) {
-        for (const level of config.escalationLevels) {
-          if (hoursElapsed >= level.afterHours) {
-            escalationLevel = Math.max(escalationLevel, level.level);
-          }
+  /**
+   * Pause a request's clock. Opens a pause interval on the timer and an
+   * slaExceptions row that is closed when the clock resumes.
+   */
+  async pauseClock(
+    serviceRequestId: number,
+    options: ClockChangeOptions & { source?: SlaPauseSource; status?: string | null }
+  ): Promise<SlaTimer | null> {
+    const loaded = await this.loadClock(serviceRequestId);
+    if (!loaded) return null;
+    const { timer } = loaded;
+    if (timer.completedAt || timer.pausedAt) return timer;
+
+    const now = options.at ?? new Date();
+    const source = options.source ?? 'manual';
+    const [exception] = await db
+      .insert(slaExceptions)
+      .values({
+        serviceRequestId,
+        requestedBy: options.actorId ?? 0,
+        approvedBy: options.actorId ?? null,
+        exceptionType: source === 'status' ? 'client_delay' : 'manual_pause',
+        reason: options.reason,
+        requestedExtensionHours: 0,
+        approvedExtensionHours: 0,
+        status: 'approved',
+        validFrom: now,
+        validUntil: null,
+        approvalNotes: options.status ? `Clock paused while request is ${options.status}` : null,
+        createdAt: now,
+        approvedAt: now,
+      })
+      .returning({ id: slaExceptions.id });
+
+    const intervals = normalizePauseIntervals(timer.pauseReasons);
+    intervals.push({
+      source,
+      status: options.status ?? null,
+      reason: options.reason,
+      pausedAt: now.toISOString(),
+      resumedAt: null,
+      resumeReason: null,
+      businessMinutes: null,
+      exceptionId: exception?.id ?? null,
+    });
+
+    const [updated] = await db
+      .update(slaTimers)
+      .set({ pausedAt: now, pauseReasons: intervals, status: 'paused', updatedAt: now })
+      .where(eq(slaTimers.id, timer.id))
+      .returning();
+
+    logger.info('SLA clock paused', { serviceRequestId, source, status: options.status, reason: options.reason });
+    return updated;
+  }
+
+  /**
+   * Resume a paused clock. The business time spent paused is recorded on the
+   * interval and its slaExceptions row, and added to the deadline.
+   */
+  async resumeClock(serviceRequestId: number, options: ClockChangeOptions): Promise<SlaTimer | null> {
+    const loaded = await this.loadClock(serviceRequestId);
+    if (!loaded) return null;
+    const { timer, calendar } = loaded;
+    if (!timer.pausedAt) return timer;
+
+    const now = options.at ?? new Date();
+    const minutes = Math.round(businessHoursBetween(timer.pausedAt, now, calendar) * 60);
+    const intervals = normalizePauseIntervals(timer.pauseReasons);
+    const open = findOpenPause(intervals);
+    if (open) {
+      open.resumedAt = now.toISOString();
+      open.resumeReason = options.reason;
+      open.businessMinutes = minutes;
+    }
+
+    if (open?.exceptionId) {
+      await db
+        .update(slaExceptions)
+        .set({
+          validUntil: now,
+          pausedBusinessMinutes: minutes,
+          requestedExtensionHours: Math.ceil(minutes / 60),
+          approvedExtensionHours: Math.ceil(minutes / 60),
+        })
+        .where(eq(slaExceptions.id, open.exceptionId));
+    }
+
+    const totalPausedMinutes = (timer.totalPausedMinutes || 0) + minutes;
+    const clock = computeSlaClock({ ...this.clockInput(timer), totalPausedMinutes, pausedAt: null }, calendar, now);
+
+    const [updated] = await db
+      .update(slaTimers)
+      .set({
+        pausedAt: null,
+        totalPausedMinutes,
+        pauseReasons: intervals,
+        status: this.timerStatus(clock),
+        updatedAt: now,
+      })
+      .where(eq(slaTimers.id, timer.id))
+      .returning();
+
+    await this.saveDeadline(serviceRequestId, clock.deadline);
+
+    logger.info('SLA clock resumed', { serviceRequestId, pausedBusinessMinutes: minutes, deadline: clock.deadline });
+    return updated;
+  }
+
+  /**
+   * Stop a clock for good when the request is completed, delivered or cancelled
+   */
+  async completeClock(serviceRequestId: number, status: string, at: Date = new Date()): Promise<SlaTimer | null> {
+    let timer = await this.getLatestTimer(serviceRequestId);
+    if (!timer || timer.completedAt) return timer;
+
+    if (timer.pausedAt) {
+      timer = await this.resumeClock(serviceRequestId, { reason: `Request ${status}`, at });
+      if (!timer) return null;
+    }
+
+    const [updated] = await db
+      .update(slaTimers)
+      .set({
+        completedAt: at,
+        status: status === 'cancelled' ? 'cancelled' : 'completed',
+        isActive: false,
+        updatedAt: at,
+      })
+      .where(eq(slaTimers.id, timer.id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Bring a clock in line with the request's status: pause on entering a
+   * client-waiting status, resume on leaving it, stop when the request closes.
+   * Manual pauses are left for ops to resume.
+   */
+  async syncClockWithStatus(serviceRequestId: number, status: string, actorId?: number | null): Promise<void> {
+    if (SLA_CLOSED_STATUSES.includes(status)) {
+      await this.completeClock(serviceRequestId, status);
+      return;
+    }
+
+    const loaded = await this.loadClock(serviceRequestId);
+    if (!loaded || loaded.timer.completedAt) return;
+    const { timer } = loaded;
+    const open = timer.pausedAt ? findOpenPause(normalizePauseIntervals(timer.pauseReasons)) : null;
+    const pausedByStatus = !!timer.pausedAt && open?.source === 'status';
+
+    if (SLA_PAUSE_STATUSES.includes(status)) {
+      if (timer.pausedAt && (!pausedByStatus || open?.status === status)) return;
+      if (pausedByStatus) {
+        await this.resumeClock(serviceRequestId, { reason: `Moved to ${status}`, actorId });
+      }
+      await this.pauseClock(serviceRequestId, {
+        source: 'status',
+        status,
+        reason: `Waiting on client (${status})`,
+        actorId,
+      });
+    } else if (pausedByStatus) {
+      await this.resumeClock(serviceRequestId, { reason: `Moved to ${status}`, actorId });
+    }
+  }
+
+  /**
+   * Extend a request's SLA by business hours (rounded up to whole hours)
+   */
+  async grantException(
+    serviceRequestId: number,
+    options: { hours: number; reason: string; grantedBy?: number | null; notes?: string | null }
+  ): Promise<{ previousDeadline: Date; newDeadline: Date } | null> {
+    const loaded = await this.loadClock(serviceRequestId);
+    if (!loaded) return null;
+    const { timer, calendar } = loaded;
+
+    const now = new Date();
+    const extensionHours = Math.ceil(options.hours);
+    const before = computeSlaClock(this.clockInput(timer), calendar, now);
+    const standardHours = timer.standardHours + extensionHours;
+    const after = computeSlaClock({ ...this.clockInput(timer), standardHours }, calendar, now);
+
+    await db
+      .update(slaTimers)
+      .set({
+        standardHours,
+        status: timer.completedAt ? timer.status : this.timerStatus(after),
+        updatedAt: now,
+      })
+      .where(eq(slaTimers.id, timer.id));
+
+    await db.insert(slaExceptions).values({
+      serviceRequestId,
+      requestedBy: options.grantedBy ?? 0,
+      approvedBy: options.grantedBy ?? null,
+      exceptionType: 'manual_extension',
+      reason: options.reason,
+      requestedExtensionHours: extensionHours,
+      approvedExtensionHours: extensionHours,
+      status: 'approved',
+      validFrom: before.deadline,
+      validUntil: after.deadline,
+      approvalNotes: options.notes ?? options.reason,
+      createdAt: now,
+      approvedAt: now,
+    });
+
+    await this.saveDeadline(serviceRequestId, after.deadline);
+
+    logger.info('SLA exception granted', { serviceRequestId, extensionHours, newDeadline: after.deadline });
+    return { previousDeadline: before.deadline, newDeadline: after.deadline };
+  }
+
+  /**
+   * Everything behind a request's SLA position: calendar, pause intervals and
+   * exceptions, for breach reviews
+   */
+  async getClockReport(serviceRequestId: number): Promise<SlaClockReport | null> {
+    const loaded = await this.loadClock(serviceRequestId);
+    if (!loaded) return null;
+    const { timer, calendar } = loaded;
+
+    const clock = computeSlaClock(this.clockInput(timer), calendar);
+    const exceptions = await db
+      .select()
+      .from(slaExceptions)
+      .where(eq(slaExceptions.serviceRequestId, serviceRequestId))
+      .orderBy(asc(slaExceptions.id));
+
+    return {
+      serviceRequestId,
+      state: clockState(clock, !!timer.completedAt),
+      calendar: describeCalendar(calendar),
+      timer: {
+        id: timer.id,
+        startTime: timer.startTime,
+        standardHours: timer.standardHours,
+        totalPausedMinutes: timer.totalPausedMinutes || 0,
+        pausedAt: timer.pausedAt,
+        completedAt: timer.completedAt,
+        breachedAt: timer.breachedAt,
+        escalationLevel: timer.escalationLevel,
+      },
+      clock,
+      pauses: normalizePauseIntervals(timer.pauseReasons),
+      exceptions,
+    };
+  }
+
+  // ============================================
+  // STATUS, BREACHES AND ESCALATION
+  // ============================================
+
+  private async evaluate(requestId: number): Promise<(LoadedClock & { status: SLAStatus }) | null> {
+    const loaded = await this.loadClock(requestId);
+    if (!loaded) return null;
+    const { timer, calendar } = loaded;
+
+    const clock = computeSlaClock(this.clockInput(timer), calendar);
+    const levels = this.buildEscalationLevels(timer.standardHours);
+
+    let escalationLevel = parseInt(timer.escalationLevel || '0', 10) || 0;
+    if (clock.isBreached) {
+      // If breached, set to maximum escalation level
+      escalationLevel = levels.length;
+    } else {
+      for (const level of levels) {
+        if (clock.elapsedHours >= level.afterHours) {
+          escalationLevel = Math.max(escalationLevel, level.level);
         }
-      } else {
-        // If breached, set to maximum escalation level
-        escalationLevel = config.escalationLevels.length;
       }
+    }
 
-      return {
-        isBreached,
-        breachType,
-        hoursRemaining: Math.max(0, hoursRemaining),
-        hoursElapsed,
+    return {
+      ...loaded,
+      status: {
+        isBreached: clock.isBreached,
+        breachType: clock.isBreached ? 'resolution' : undefined,
+        hoursRemaining: round1(clock.remainingHours),
+        hoursElapsed: round1(clock.elapsedHours),
         escalationLevel,
-        deadline,
-        percentageUsed
-      };
+        deadline: clock.deadline,
+        percentageUsed: clock.percentageUsed,
+        isPaused: clock.isPaused,
+        pausedHours: round1(clock.pausedHours),
+      },
+    };
+  }
+
+  /**
+   * Get SLA status for a service request
+   */
+  async getStatus(requestId: number): Promise<SLAStatus | null> {
+    try {
+      const evaluated = await this.evaluate(requestId);
+      if (!evaluated) {
+        logger.warn('Service request not found for SLA status', { requestId });
+        return null;
+      }
+      return evaluated.status;
     } catch (error) {
       logger.error('Error getting SLA status:', { requestId, error });
       return null;
@@ -310,7 +834,7 @@ class SLAService {
         .select()
         .from(serviceRequests)
         .where(
-          notInArray(serviceRequests.status, ['completed', 'cancelled', 'delivered'])
+          notInArray(serviceRequests.status, SLA_CLOSED_STATUSES)
         );
 
       result.checked = openRequests.length;
@@ -318,21 +842,30 @@ class SLAService {
 
       for (const request of openRequests) {
         try {
-          const status = await this.getStatus(request.id);
+          // Picks up status changes made outside the transition services
+          await this.syncClockWithStatus(request.id, request.status);
 
-          if (!status) continue;
+          const evaluated = await this.evaluate(request.id);
+          if (!evaluated) continue;
+          const { timer, status } = evaluated;
 
-          // Check for breach
+          // Check for breach; each clock is reported once
           if (status.isBreached) {
             result.breached++;
-            await this.handleBreach(request.id, status);
+            if (!timer.breachedAt) {
+              await this.handleBreach(request.id, status, timer);
+            }
+          } else if (timer.status !== (status.isPaused ? 'paused' : 'active')) {
+            await db
+              .update(slaTimers)
+              .set({ status: status.isPaused ? 'paused' : 'active', updatedAt: new Date() })
+              .where(eq(slaTimers.id, timer.id));
           }
 
           // Check for escalation
-          const currentLevel = (request as any).escalationLevel || 0;
+          const currentLevel = parseInt(timer.escalationLevel || '0', 10) || 0;
           if (status.escalationLevel > currentLevel) {
-            const config = await this.getSLAConfig(request.serviceId);
-            const escalationConfig = config.escalationLevels.find(
+            const escalationConfig = this.buildEscalationLevels(timer.standardHours).find(
               e => e.level === status.escalationLevel
             );
 
@@ -362,8 +895,13 @@ class SLAService {
   /**
    * Handle SLA breach
    */
-  private async handleBreach(requestId: number, status: SLAStatus): Promise<void> {
+  private async handleBreach(requestId: number, status: SLAStatus, timer: SlaTimer): Promise<void> {
     try {
+      await db
+        .update(slaTimers)
+        .set({ breachedAt: new Date(), status: status.isPaused ? 'paused' : 'breached', updatedAt: new Date() })
+        .where(eq(slaTimers.id, timer.id));
+
       // Log breach in activity
       await db.insert(activityLogs).values({
         userId: 0, // System
@@ -373,6 +911,8 @@ class SLAService {
         details: JSON.stringify({
           breachType: status.breachType,
           hoursElapsed: status.hoursElapsed,
+          pausedHours: status.pausedHours,
+          standardHours: timer.standardHours,
           deadline: status.deadline
         }),
         createdAt: new Date()
@@ -393,12 +933,13 @@ class SLAService {
         channels: ['email', 'in_app'],
         priority: 'urgent',
         subject: `SLA Breach Alert: Service Request #${request.requestId || requestId}`,
-        content: `Service request has breached its SLA deadline. ${status.hoursElapsed.toFixed(1)} hours elapsed, deadline was ${status.deadline.toISOString()}.`,
+        content: `Service request has breached its SLA deadline. ${status.hoursElapsed.toFixed(1)} business hours elapsed (${status.pausedHours.toFixed(1)} paused), deadline was ${status.deadline.toISOString()}.`,
         data: {
           requestId,
           serviceRequestId: request.requestId,
           serviceId: request.serviceId,
           hoursElapsed: status.hoursElapsed,
+          pausedHours: status.pausedHours,
           deadline: status.deadline.toISOString(),
           breachType: status.breachType
         },
@@ -437,19 +978,15 @@ class SLAService {
         return false;
       }
 
-      // Update escalation level on the request
-      // BUG: The serviceRequests table (shared/schema.ts) does NOT have an
-      // escalationLevel column. This .set() only updates updatedAt, meaning
-      // escalation level is never persisted. To fix properly, add an
-      // "escalation_level" integer column to the serviceRequests table schema,
-      // run a migration, then uncomment the escalationLevel line below.
+      // Escalation level lives on the request's clock
       await db
-        .update(serviceRequests)
+        .update(slaTimers)
         .set({
-          // escalationLevel: level, // TODO: uncomment after adding column to serviceRequests schema
+          escalationLevel: String(level),
+          lastEscalationAt: new Date(),
           updatedAt: new Date()
         })
-        .where(eq(serviceRequests.id, requestId));
+        .where(and(eq(slaTimers.serviceRequestId, requestId), eq(slaTimers.isActive, true)));
 
       // Log escalation activity
       await db.insert(activityLogs).values({
@@ -511,18 +1048,20 @@ class SLAService {
     atRisk: number;
     breached: number;
     onTrack: number;
+    paused: number;
   }> {
     try {
       const openRequests = await db
         .select()
         .from(serviceRequests)
         .where(
-          notInArray(serviceRequests.status, ['completed', 'cancelled', 'delivered'])
+          notInArray(serviceRequests.status, SLA_CLOSED_STATUSES)
         );
 
       let atRisk = 0;
       let breached = 0;
       let onTrack = 0;
+      let paused = 0;
 
       for (const request of openRequests) {
         const status = await this.getStatus(request.id);
@@ -530,6 +1069,8 @@ class SLAService {
 
         if (status.isBreached) {
           breached++;
+        } else if (status.isPaused) {
+          paused++;
         } else if (status.percentageUsed >= 75) {
           atRisk++;
         } else {
@@ -541,11 +1082,91 @@ class SLAService {
         total: openRequests.length,
         atRisk,
         breached,
-        onTrack
+        onTrack,
+        paused
       };
     } catch (error) {
       logger.error('Error getting SLA summary:', error);
-      return { total: 0, atRisk: 0, breached: 0, onTrack: 0 };
+      return { total: 0, atRisk: 0, breached: 0, onTrack: 0, paused: 0 };
+    }
+  }
+
+  /**
+   * On-time delivery for clocks completed in the last `days` days, measured in
+   * business hours net of pauses
+   */
+  async getMetrics(days: number = 30) {
+    const metrics = {
+      totalServices: 0,
+      onTimeDeliveries: 0,
+      slaBreaches: 0,
+      averageCompletionHours: 0,
+      compliancePercentage: 100,
+      activeTimers: 0,
+      serviceTypeBreakdown: {} as Record<string, {
+        total: number;
+        onTime: number;
+        totalHours: number;
+        avgHours: number;
+        complianceRate: number;
+      }>
+    };
+
+    try {
+      const fromDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const completed = await db
+        .select()
+        .from(slaTimers)
+        .where(and(eq(slaTimers.status, 'completed'), gte(slaTimers.completedAt, fromDate)));
+
+      const [active] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(slaTimers)
+        .where(eq(slaTimers.isActive, true));
+      metrics.activeTimers = active?.count ?? 0;
+
+      const calendars = new Map<string, BusinessCalendar>();
+      let totalHours = 0;
+
+      for (const timer of completed) {
+        const key = `${timer.calendarId ?? 'default'}|${timer.startTime.getUTCFullYear()}`;
+        let calendar = calendars.get(key);
+        if (!calendar) {
+          calendar = await this.getCalendarById(timer.calendarId, yearsSpanned(timer.startTime, timer.completedAt ?? new Date()));
+          calendars.set(key, calendar);
+        }
+
+        const clock = computeSlaClock(this.clockInput(timer), calendar);
+        const onTime = !clock.isBreached;
+        totalHours += clock.elapsedHours;
+        metrics.totalServices++;
+        if (onTime) {
+          metrics.onTimeDeliveries++;
+        } else {
+          metrics.slaBreaches++;
+        }
+
+        const breakdown = metrics.serviceTypeBreakdown[timer.serviceCode] ??= {
+          total: 0, onTime: 0, totalHours: 0, avgHours: 0, complianceRate: 100
+        };
+        breakdown.total++;
+        breakdown.totalHours += clock.elapsedHours;
+        if (onTime) breakdown.onTime++;
+      }
+
+      metrics.averageCompletionHours = metrics.totalServices > 0 ? round1(totalHours / metrics.totalServices) : 0;
+      metrics.compliancePercentage = metrics.totalServices > 0
+        ? (metrics.onTimeDeliveries / metrics.totalServices) * 100
+        : 100;
+      Object.values(metrics.serviceTypeBreakdown).forEach((breakdown) => {
+        breakdown.avgHours = breakdown.total > 0 ? round1(breakdown.totalHours / breakdown.total) : 0;
+        breakdown.complianceRate = breakdown.total > 0 ? (breakdown.onTime / breakdown.total) * 100 : 100;
+      });
+
+      return metrics;
+    } catch (error) {
+      logger.error('Error calculating SLA metrics:', error);
+      return metrics;
     }
   }
 }
@@ -553,5 +1174,15 @@ class SLAService {
 // Export singleton instance
 export const slaService = new SLAService();
 
+/**
+ * Update a request's clock after a status change. Never throws, so a clock
+ * problem cannot fail the transition.
+ */
+export function syncSlaClock(serviceRequestId: number, status: string, actorId?: number | null): void {
+  slaService.syncClockWithStatus(serviceRequestId, status, actorId).catch((error) => {
+    logger.error('Error updating SLA clock after status change:', { serviceRequestId, status, error });
+  });
+}
+
 // Export class for testing
 export { SLAService };
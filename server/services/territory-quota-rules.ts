@@ -0,0 +1,282 @@
+/**
+ * Territory and Quota Rules
+ *
+ * Which territory a lead falls in, the quota periods reps and teams are
+ * measured over, and how attainment, the leaderboard and forecast versus
+ * quota are worked out. Kept free of database access.
+ *
+ * A territory lists the states, cities and industries it covers; an empty
+ * list covers all of them. A lead is in a territory when it matches every
+ * list the territory sets. When several match, the most specific one (most
+ * lists set) wins, then the highest priority.
+ *
+ * Quota periods are calendar months and quarters; quarters are labelled by
+ * the Indian financial year (Q1 is April-June).
+ */
+
+export type QuotaPeriodType = 'monthly' | 'quarterly';
+export type QuotaOwnerType = 'user' | 'team';
+export type AttainmentStatus = 'achieved' | 'on_track' | 'at_risk' | 'behind' | 'no_quota';
+
+export const QUOTA_PERIOD_TYPES: QuotaPeriodType[] = ['monthly', 'quarterly'];
+export const QUOTA_OWNER_TYPES: QuotaOwnerType[] = ['user', 'team'];
+
+/** Pace (share of the target earned vs share of the period elapsed) below which a quota is at risk / behind */
+const ON_TRACK_PACE = 1;
+const AT_RISK_PACE = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TerritoryDefinition {
+  id: number;
+  name: string;
+  states: string[] | null;
+  cities: string[] | null;
+  industries: string[] | null;
+  priority: number | null;
+}
+
+export interface LeadPlacement {
+  state?: string | null;
+  city?: string | null;
+  industry?: string | null;
+}
+
+export interface QuotaPeriod {
+  periodType: QuotaPeriodType;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  label: string;
+}
+
+export interface Attainment {
+  target: number | null;
+  actual: number;
+  conversions: number;
+  targetConversions: number | null;
+  attainmentPct: number | null;
+  remaining: number | null;
+  projected: number; // actual at the current run rate to the end of the period
+  status: AttainmentStatus;
+}
+
+export interface LeaderboardEntry extends Attainment {
+  userId: number;
+  name: string;
+  teamName: string | null;
+  rank: number;
+}
+
+export interface ForecastVsQuota {
+  quota: number | null;
+  closed: number;
+  weightedPipeline: number;
+  forecast: number; // closed + weighted pipeline
+  forecastPct: number | null;
+  gap: number | null; // quota not covered by the forecast
+  coverage: number | null; // weighted pipeline / quota still to close
+}
+
+// ============================================================================
+// TERRITORIES
+// ============================================================================
+
+function normalizeToken(value: string | null | undefined): string {
+  return (value || '').trim().toLowerCase().replace(/&/g, 'and').replace(/\s+/g, ' ');
+}
+
+function listOf(values: string[] | null | undefined): string[] {
+  return (values || []).map(normalizeToken).filter(Boolean);
+}
+
+/**
+ * How many of the territory's lists the lead matches, or null when it falls outside it
+ */
+export function territorySpecificity(territory: TerritoryDefinition, lead: LeadPlacement): number | null {
+  let specificity = 0;
+  const dimensions: Array<[string[] | null, string | null | undefined]> = [
+    [territory.states, lead.state],
+    [territory.cities, lead.city],
+    [territory.industries, lead.industry],
+  ];
+  for (const [values, leadValue] of dimensions) {
+    const covered = listOf(values);
+    if (covered.length === 0) continue;
+    if (!covered.includes(normalizeToken(leadValue))) return null;
+    specificity++;
+  }
+  return specificity;
+}
+
+/**
+ * Territories a lead falls in, best match first
+ */
+export function matchTerritories<T extends TerritoryDefinition>(lead: LeadPlacement, territories: T[]): T[] {
+  return territories
+    .map(territory => ({ territory, specificity: territorySpecificity(territory, lead) }))
+    .filter((entry): entry is { territory: T; specificity: number } => entry.specificity !== null)
+    .sort((a, b) =>
+      b.specificity - a.specificity
+      || (b.territory.priority ?? 0) - (a.territory.priority ?? 0)
+      || a.territory.id - b.territory.id)
+    .map(entry => entry.territory);
+}
+
+/**
+ * Problems with a territory definition, empty when it can be saved. An
+ * update may leave the name out to keep it.
+ */
+export function territoryErrors(input: Partial<TerritoryDefinition>, isUpdate = false): string[] {
+  const errors: string[] = [];
+  if ((!isUpdate || input.name !== undefined) && (!input.name || !input.name.trim())) errors.push('name is required');
+  for (const key of ['states', 'cities', 'industries'] as const) {
+    const values = input[key];
+    if (values != null && (!Array.isArray(values) || values.some(value => typeof value !== 'string' || !value.trim()))) {
+      errors.push(`${key} must be a list of names`);
+    }
+  }
+  if (input.priority != null && !Number.isInteger(input.priority)) {
+    errors.push('priority must be a whole number');
+  }
+  return errors;
+}
+
+// ============================================================================
+// QUOTA PERIODS
+// ============================================================================
+
+function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(part => parseInt(part));
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * The month or quarter `date` falls in
+ */
+export function quotaPeriod(periodType: QuotaPeriodType, date: Date): QuotaPeriod {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+
+  if (periodType === 'monthly') {
+    return {
+      periodType,
+      start: toIsoDate(new Date(year, month, 1)),
+      end: toIsoDate(new Date(year, month + 1, 0)),
+      label: new Date(year, month, 1).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' }),
+    };
+  }
+
+  const firstMonth = month - (month % 3);
+  const fyStart = month >= 3 ? year : year - 1;
+  const fyQuarter = ((firstMonth + 9) % 12) / 3 + 1;
+  return {
+    periodType,
+    start: toIsoDate(new Date(year, firstMonth, 1)),
+    end: toIsoDate(new Date(year, firstMonth + 3, 0)),
+    label: `Q${fyQuarter} FY${fyStart}-${String((fyStart + 1) % 100).padStart(2, '0')}`,
+  };
+}
+
+/**
+ * Share of the period that has passed by `asOf`, counting `asOf` itself
+ */
+export function elapsedFraction(period: Pick<QuotaPeriod, 'start' | 'end'>, asOf: Date): number {
+  const start = parseIsoDate(period.start).getTime();
+  const end = parseIsoDate(period.end).getTime() + DAY_MS;
+  const now = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate()).getTime() + DAY_MS;
+  if (now <= start) return 0;
+  if (now >= end) return 1;
+  return (now - start) / (end - start);
+}
+
+// ============================================================================
+// ATTAINMENT
+// ============================================================================
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Attainment against a quota, with a run-rate projection and a status that
+ * compares how much of the target is earned with how much of the period is gone
+ */
+export function computeAttainment(input: {
+  target: number | null;
+  actual: number;
+  conversions?: number;
+  targetConversions?: number | null;
+  elapsed: number;
+}): Attainment {
+  const actual = round2(input.actual);
+  const projected = input.elapsed > 0 ? round2(actual / input.elapsed) : actual;
+  const base = {
+    target: input.target,
+    actual,
+    conversions: input.conversions ?? 0,
+    targetConversions: input.targetConversions ?? null,
+    projected,
+  };
+
+  if (!input.target || input.target <= 0) {
+    return { ...base, target: null, attainmentPct: null, remaining: null, status: 'no_quota' };
+  }
+
+  const share = actual / input.target;
+  let status: AttainmentStatus;
+  if (share >= 1) {
+    status = 'achieved';
+  } else {
+    const pace = input.elapsed > 0 ? share / input.elapsed : 1;
+    status = pace >= ON_TRACK_PACE ? 'on_track' : pace >= AT_RISK_PACE ? 'at_risk' : 'behind';
+  }
+
+  return {
+    ...base,
+    attainmentPct: Math.round(share * 1000) / 10,
+    remaining: round2(Math.max(0, input.target - actual)),
+    status,
+  };
+}
+
+/**
+ * Reps ranked by attainment, then revenue; reps without a quota rank after those with one
+ */
+export function buildLeaderboard(
+  entries: Array<Omit<LeaderboardEntry, 'rank'>>,
+): LeaderboardEntry[] {
+  return [...entries]
+    .sort((a, b) => {
+      if ((a.attainmentPct === null) !== (b.attainmentPct === null)) return a.attainmentPct === null ? 1 : -1;
+      return (b.attainmentPct ?? 0) - (a.attainmentPct ?? 0) || b.actual - a.actual || a.userId - b.userId;
+    })
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
+
+/**
+ * Closed revenue plus the weighted open pipeline against the quota
+ */
+export function forecastAgainstQuota(input: { quota: number | null; closed: number; weightedPipeline: number }): ForecastVsQuota {
+  const closed = round2(input.closed);
+  const weightedPipeline = round2(input.weightedPipeline);
+  const forecast = round2(closed + weightedPipeline);
+
+  if (!input.quota || input.quota <= 0) {
+    return { quota: null, closed, weightedPipeline, forecast, forecastPct: null, gap: null, coverage: null };
+  }
+
+  const toClose = input.quota - closed;
+  return {
+    quota: input.quota,
+    closed,
+    weightedPipeline,
+    forecast,
+    forecastPct: Math.round((forecast / input.quota) * 1000) / 10,
+    gap: round2(Math.max(0, input.quota - forecast)),
+    coverage: toClose > 0 ? round2(weightedPipeline / toClose) : null,
+  };
+}
@@ -0,0 +1,558 @@
+/**
+ * Territory and Quota Service
+ *
+ * Sales teams, the territories that route new leads to the reps covering
+ * them, and monthly / quarterly revenue quotas per rep and team (rules in
+ * territory-quota-rules). Attainment counts the revenue of service requests
+ * converted from a rep's leads, i.e. paid for; the leaderboard and forecast
+ * versus quota are built from it.
+ */
+import { db } from '../db';
+import { and, asc, eq, gte, inArray, lt, notInArray, or, sql } from 'drizzle-orm';
+import {
+  leads,
+  payments,
+  PAYMENT_STATUS,
+  salesQuotas,
+  salesTeamMembers,
+  salesTeams,
+  salesTerritories,
+  salesTerritoryMembers,
+  serviceRequests,
+  users,
+  type Lead,
+  type SalesQuota,
+  type SalesTeam,
+  type SalesTerritory,
+} from '@shared/schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { logger } from '../logger';
+import {
+  QUOTA_OWNER_TYPES,
+  QUOTA_PERIOD_TYPES,
+  buildLeaderboard,
+  computeAttainment,
+  elapsedFraction,
+  forecastAgainstQuota,
+  matchTerritories,
+  quotaPeriod,
+  territoryErrors,
+  type Attainment,
+  type ForecastVsQuota,
+  type LeaderboardEntry,
+  type QuotaOwnerType,
+  type QuotaPeriod,
+  type QuotaPeriodType,
+} from './territory-quota-rules';
+
+const SALES_ROLES = ['sales_executive', 'sales_manager'];
+
+// A service request converts once a payment for it completes; requests that
+// failed or were cancelled afterwards do not count
+const UNCONVERTED_STATUSES = ['failed', 'cancelled'];
+
+export interface TeamInput {
+  name?: string;
+  managerId?: number | null;
+  memberIds?: number[];
+  isActive?: boolean;
+}
+
+export interface TerritoryInput {
+  name?: string;
+  states?: string[] | null;
+  cities?: string[] | null;
+  industries?: string[] | null;
+  teamId?: number | null;
+  priority?: number | null;
+  memberIds?: number[];
+  isActive?: boolean;
+}
+
+export interface QuotaInput {
+  ownerType?: string;
+  userId?: number | null;
+  teamId?: number | null;
+  periodType?: string;
+  periodStart?: string; // any date in the period
+  targetAmount?: number | string;
+  targetConversions?: number | null;
+  notes?: string | null;
+}
+
+export interface TerritoryMatch {
+  territory: SalesTerritory;
+  memberIds: number[];
+}
+
+export interface RepAttainment extends Attainment {
+  userId: number;
+  name: string;
+  teamId: number | null;
+  teamName: string | null;
+}
+
+export interface TeamAttainment extends Attainment {
+  teamId: number;
+  name: string;
+  members: number;
+}
+
+export interface AttainmentReport {
+  period: QuotaPeriod;
+  elapsed: number;
+  reps: RepAttainment[];
+  teams: TeamAttainment[];
+}
+
+export interface QuotaForecast {
+  period: QuotaPeriod;
+  overall: ForecastVsQuota;
+  byRep: Array<ForecastVsQuota & { userId: number; name: string }>;
+}
+
+function money(value: string | null | undefined): number {
+  return parseFloat(value || '0') || 0;
+}
+
+function localDate(isoDate: string, addDays = 0): Date {
+  const [year, month, day] = isoDate.split('-').map(part => parseInt(part));
+  return new Date(year, month - 1, day + addDays);
+}
+
+function parsePeriodType(value: unknown): QuotaPeriodType {
+  const periodType = (value || 'monthly') as QuotaPeriodType;
+  if (!QUOTA_PERIOD_TYPES.includes(periodType)) {
+    throw new ValidationError(`periodType must be one of: ${QUOTA_PERIOD_TYPES.join(', ')}`);
+  }
+  return periodType;
+}
+
+function parseAsOf(value: unknown): Date {
+  if (!value) return new Date();
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new ValidationError('Invalid date');
+  }
+  return date;
+}
+
+function cleanList(values: string[] | null | undefined): string[] | null {
+  if (!values) return null;
+  const cleaned = Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+/**
+ * City and industry for territory matching; older leads carry them only in
+ * the geo-tag and enrichment data
+ */
+function placementOf(lead: Lead) {
+  const location = (lead.leadLocation || {}) as Record<string, unknown>;
+  const enrichment = (lead.enrichmentData || {}) as Record<string, unknown>;
+  return {
+    state: lead.state,
+    city: lead.city || (typeof location.city === 'string' ? location.city : null),
+    industry: lead.industry || (typeof enrichment.industry === 'string' ? enrichment.industry : null),
+  };
+}
+
+class TerritoryQuotaService {
+  // --------------------------------------------------------------------------
+  // TEAMS
+  // --------------------------------------------------------------------------
+
+  async listTeams(): Promise<Array<SalesTeam & { members: Array<{ userId: number; name: string }> }>> {
+    const teams = await db.select().from(salesTeams).orderBy(asc(salesTeams.name));
+    const members = await db
+      .select({ teamId: salesTeamMembers.teamId, userId: salesTeamMembers.userId, name: users.fullName })
+      .from(salesTeamMembers)
+      .innerJoin(users, eq(users.id, salesTeamMembers.userId));
+
+    return teams.map(team => ({
+      ...team,
+      members: members
+        .filter(member => member.teamId === team.id)
+        .map(member => ({ userId: member.userId, name: member.name || `User ${member.userId}` })),
+    }));
+  }
+
+  /**
+   * Create a team, or update it when `teamId` is given. `memberIds` replaces
+   * the membership; a rep joining moves out of any other team.
+   */
+  async saveTeam(input: TeamInput, savedBy: number, teamId?: number): Promise<SalesTeam> {
+    if (!teamId && (!input.name || !input.name.trim())) {
+      throw new ValidationError('name is required');
+    }
+
+    const values = {
+      ...(input.name !== undefined && { name: input.name.trim() }),
+      ...(input.managerId !== undefined && { managerId: input.managerId }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    };
+
+    const team = await db.transaction(async (tx) => {
+      let saved: SalesTeam | undefined;
+      if (teamId) {
+        [saved] = await tx.update(salesTeams)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(salesTeams.id, teamId))
+          .returning();
+        if (!saved) throw new NotFoundError('Sales team');
+      } else {
+        [saved] = await tx.insert(salesTeams)
+          .values({ name: input.name!.trim(), ...values, createdBy: savedBy })
+          .returning();
+      }
+
+      if (input.memberIds) {
+        const memberIds = Array.from(new Set(input.memberIds));
+        await tx.delete(salesTeamMembers).where(eq(salesTeamMembers.teamId, saved.id));
+        if (memberIds.length > 0) {
+          await tx.delete(salesTeamMembers).where(inArray(salesTeamMembers.userId, memberIds));
+          await tx.insert(salesTeamMembers).values(memberIds.map(userId => ({ teamId: saved!.id, userId })));
+        }
+      }
+      return saved;
+    });
+
+    logger.info(`Sales team ${team.name} saved by user ${savedBy}`);
+    return team;
+  }
+
+  // --------------------------------------------------------------------------
+  // TERRITORIES
+  // --------------------------------------------------------------------------
+
+  async listTerritories(): Promise<Array<SalesTerritory & { memberIds: number[] }>> {
+    const territories = await db.select().from(salesTerritories)
+      .orderBy(asc(salesTerritories.name));
+    const members = await db.select().from(salesTerritoryMembers);
+
+    return territories.map(territory => ({
+      ...territory,
+      memberIds: members.filter(member => member.territoryId === territory.id).map(member => member.userId),
+    }));
+  }
+
+  /**
+   * Create a territory, or update it when `territoryId` is given. `memberIds`
+   * replaces the reps assigned directly; reps of the territory's team cover
+   * it as well.
+   */
+  async saveTerritory(input: TerritoryInput, savedBy: number, territoryId?: number): Promise<SalesTerritory> {
+    const errors = territoryErrors({
+      name: input.name,
+      states: input.states,
+      cities: input.cities,
+      industries: input.industries,
+      priority: input.priority,
+    }, Boolean(territoryId));
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid territory', { errors });
+    }
+
+    const values = {
+      ...(input.name !== undefined && { name: input.name.trim() }),
+      ...(input.states !== undefined && { states: cleanList(input.states) }),
+      ...(input.cities !== undefined && { cities: cleanList(input.cities) }),
+      ...(input.industries !== undefined && { industries: cleanList(input.industries) }),
+      ...(input.teamId !== undefined && { teamId: input.teamId }),
+      ...(input.priority !== undefined && { priority: input.priority ?? 0 }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    };
+
+    const territory = await db.transaction(async (tx) => {
+      let saved: SalesTerritory | undefined;
+      if (territoryId) {
+        [saved] = await tx.update(salesTerritories)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(salesTerritories.id, territoryId))
+          .returning();
+        if (!saved) throw new NotFoundError('Sales territory');
+      } else {
+        [saved] = await tx.insert(salesTerritories)
+          .values({ name: input.name!.trim(), ...values, createdBy: savedBy })
+          .returning();
+      }
+
+      if (input.memberIds) {
+        await tx.delete(salesTerritoryMembers).where(eq(salesTerritoryMembers.territoryId, saved.id));
+        const memberIds = Array.from(new Set(input.memberIds));
+        if (memberIds.length > 0) {
+          await tx.insert(salesTerritoryMembers).values(memberIds.map(userId => ({ territoryId: saved!.id, userId })));
+        }
+      }
+      return saved;
+    });
+
+    logger.info(`Sales territory ${territory.name} saved by user ${savedBy}`);
+    return territory;
+  }
+
+  /**
+   * The territory a lead falls in and the reps covering it, or null when no
+   * active territory covers the lead
+   */
+  async territoryFor(lead: Lead): Promise<TerritoryMatch | null> {
+    const territories = await db.select().from(salesTerritories)
+      .where(eq(salesTerritories.isActive, true));
+    if (territories.length === 0) return null;
+
+    const [territory] = matchTerritories(placementOf(lead), territories);
+    if (!territory) return null;
+
+    const direct = await db.select({ userId: salesTerritoryMembers.userId })
+      .from(salesTerritoryMembers)
+      .where(eq(salesTerritoryMembers.territoryId, territory.id));
+    const team = territory.teamId
+      ? await db.select({ userId: salesTeamMembers.userId })
+        .from(salesTeamMembers)
+        .where(eq(salesTeamMembers.teamId, territory.teamId))
+      : [];
+
+    return {
+      territory,
+      memberIds: Array.from(new Set([...direct, ...team].map(member => member.userId))),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // QUOTAS
+  // --------------------------------------------------------------------------
+
+  async listQuotas(periodTypeInput: unknown, asOfInput?: unknown): Promise<{ period: QuotaPeriod; quotas: SalesQuota[] }> {
+    const period = quotaPeriod(parsePeriodType(periodTypeInput), parseAsOf(asOfInput));
+    const quotas = await this.quotasFor(period);
+    return { period, quotas };
+  }
+
+  /**
+   * Set the quota of a rep or team for the period containing `periodStart`,
+   * replacing any quota already set for it
+   */
+  async setQuota(input: QuotaInput, setBy: number): Promise<SalesQuota> {
+    const ownerType = input.ownerType as QuotaOwnerType;
+    if (!QUOTA_OWNER_TYPES.includes(ownerType)) {
+      throw new ValidationError(`ownerType must be one of: ${QUOTA_OWNER_TYPES.join(', ')}`);
+    }
+    const ownerId = ownerType === 'user' ? input.userId : input.teamId;
+    if (!ownerId) {
+      throw new ValidationError(ownerType === 'user' ? 'userId is required' : 'teamId is required');
+    }
+    const targetAmount = Number(input.targetAmount);
+    if (!isFinite(targetAmount) || targetAmount <= 0) {
+      throw new ValidationError('targetAmount must be a positive amount');
+    }
+    if (input.targetConversions != null && (!Number.isInteger(input.targetConversions) || input.targetConversions < 0)) {
+      throw new ValidationError('targetConversions must be a whole number');
+    }
+
+    const period = quotaPeriod(parsePeriodType(input.periodType), parseAsOf(input.periodStart));
+    const owner = ownerType === 'user'
+      ? { userId: ownerId, teamId: null }
+      : { userId: null, teamId: ownerId };
+    const values = {
+      targetAmount: targetAmount.toFixed(2),
+      targetConversions: input.targetConversions ?? null,
+      notes: input.notes ?? null,
+    };
+
+    const [existing] = await db.select().from(salesQuotas)
+      .where(and(
+        eq(salesQuotas.ownerType, ownerType),
+        ownerType === 'user' ? eq(salesQuotas.userId, ownerId) : eq(salesQuotas.teamId, ownerId),
+        eq(salesQuotas.periodType, period.periodType),
+        eq(salesQuotas.periodStart, period.start),
+      ))
+      .limit(1);
+
+    if (existing) {
+      const [updated] = await db.update(salesQuotas)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(salesQuotas.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db.insert(salesQuotas)
+      .values({
+        ownerType,
+        ...owner,
+        periodType: period.periodType,
+        periodStart: period.start,
+        periodEnd: period.end,
+        ...values,
+        createdBy: setBy,
+      })
+      .returning();
+
+    logger.info(`${period.label} ${ownerType} quota set for ${ownerId} by user ${setBy}`);
+    return created;
+  }
+
+  async deleteQuota(quotaId: number): Promise<void> {
+    const [deleted] = await db.delete(salesQuotas)
+      .where(eq(salesQuotas.id, quotaId))
+      .returning({ id: salesQuotas.id });
+    if (!deleted) throw new NotFoundError('Sales quota');
+  }
+
+  // --------------------------------------------------------------------------
+  // ATTAINMENT
+  // --------------------------------------------------------------------------
+
+  /**
+   * Revenue and conversions per rep: paid service requests raised in the
+   * period from leads assigned to them. Unpaid requests (initiated, awaiting
+   * payment, on hold) are pipeline, not attainment.
+   */
+  async revenueByRep(period: Pick<QuotaPeriod, 'start' | 'end'>): Promise<Map<number, { revenue: number; conversions: number }>> {
+    const rows = await db
+      .select({
+        userId: leads.assignedTo,
+        revenue: sql<string>`COALESCE(SUM(${serviceRequests.totalAmount}), 0)`,
+        conversions: sql<number>`COUNT(DISTINCT ${leads.id})::int`,
+      })
+      .from(serviceRequests)
+      .innerJoin(leads, eq(leads.id, serviceRequests.leadId))
+      .where(and(
+        gte(serviceRequests.createdAt, localDate(period.start)),
+        lt(serviceRequests.createdAt, localDate(period.end, 1)),
+        notInArray(serviceRequests.status, UNCONVERTED_STATUSES),
+        sql`EXISTS (
+          SELECT 1 FROM ${payments}
+          WHERE ${payments.serviceRequestId} = ${serviceRequests.id}
+            AND ${payments.status} = ${PAYMENT_STATUS.COMPLETED}
+        )`,
+      ))
+      .groupBy(leads.assignedTo);
+
+    const revenue = new Map<number, { revenue: number; conversions: number }>();
+    for (const row of rows) {
+      if (row.userId) revenue.set(row.userId, { revenue: money(row.revenue), conversions: Number(row.conversions) });
+    }
+    return revenue;
+  }
+
+  async getAttainment(periodTypeInput: unknown, asOfInput?: unknown): Promise<AttainmentReport> {
+    const asOf = parseAsOf(asOfInput);
+    const period = quotaPeriod(parsePeriodType(periodTypeInput), asOf);
+    const elapsed = elapsedFraction(period, asOf);
+
+    const [quotas, revenue, teams, memberships] = await Promise.all([
+      this.quotasFor(period),
+      this.revenueByRep(period),
+      db.select().from(salesTeams).where(eq(salesTeams.isActive, true)),
+      db.select().from(salesTeamMembers),
+    ]);
+
+    const teamOf = new Map(memberships.map(member => [member.userId, member.teamId]));
+    const teamName = new Map(teams.map(team => [team.id, team.name]));
+    const repQuota = new Map(quotas.filter(q => q.ownerType === 'user').map(q => [q.userId!, q]));
+    const teamQuota = new Map(quotas.filter(q => q.ownerType === 'team').map(q => [q.teamId!, q]));
+
+    // Every active rep, and anyone else with a quota or revenue this period
+    const repIds = new Set<number>([...Array.from(repQuota.keys()), ...Array.from(revenue.keys())]);
+    const reps = await db.select({ id: users.id, fullName: users.fullName, role: users.role, isActive: users.isActive })
+      .from(users)
+      .where(or(
+        and(eq(users.isActive, true), inArray(users.role, SALES_ROLES)),
+        repIds.size > 0 ? inArray(users.id, Array.from(repIds)) : sql`false`,
+      ));
+
+    const repAttainment: RepAttainment[] = reps.map(rep => {
+      const quota = repQuota.get(rep.id);
+      const earned = revenue.get(rep.id);
+      const teamId = teamOf.get(rep.id) ?? null;
+      return {
+        userId: rep.id,
+        name: rep.fullName || `User ${rep.id}`,
+        teamId,
+        teamName: teamId ? teamName.get(teamId) ?? null : null,
+        ...computeAttainment({
+          target: quota ? money(quota.targetAmount) : null,
+          actual: earned?.revenue ?? 0,
+          conversions: earned?.conversions ?? 0,
+          targetConversions: quota?.targetConversions ?? null,
+          elapsed,
+        }),
+      };
+    });
+
+    const teamAttainment: TeamAttainment[] = teams.map(team => {
+      const memberIds = memberships.filter(member => member.teamId === team.id).map(member => member.userId);
+      const quota = teamQuota.get(team.id);
+      return {
+        teamId: team.id,
+        name: team.name,
+        members: memberIds.length,
+        ...computeAttainment({
+          target: quota ? money(quota.targetAmount) : null,
+          actual: memberIds.reduce((sum, id) => sum + (revenue.get(id)?.revenue ?? 0), 0),
+          conversions: memberIds.reduce((sum, id) => sum + (revenue.get(id)?.conversions ?? 0), 0),
+          targetConversions: quota?.targetConversions ?? null,
+          elapsed,
+        }),
+      };
+    });
+
+    return { period, elapsed, reps: repAttainment, teams: teamAttainment };
+  }
+
+  async getLeaderboard(periodTypeInput: unknown, asOfInput?: unknown): Promise<{ period: QuotaPeriod; entries: LeaderboardEntry[] }> {
+    const report = await this.getAttainment(periodTypeInput, asOfInput);
+    return {
+      period: report.period,
+      entries: buildLeaderboard(report.reps.map(({ teamId, ...rep }) => rep)),
+    };
+  }
+
+  /**
+   * Closed revenue plus weighted pipeline against quota, overall and per rep.
+   * The overall quota is the team quotas plus the quotas of reps whose team
+   * has none, so a rep's target is not counted twice. Unassigned pipeline
+   * (keyed 0 in `weightedByRep`) counts towards the overall forecast only.
+   */
+  async forecastVsQuota(
+    periodTypeInput: unknown,
+    weightedByRep: Map<number, number>,
+    asOfInput?: unknown
+  ): Promise<QuotaForecast> {
+    const report = await this.getAttainment(periodTypeInput, asOfInput);
+
+    const teamsWithQuota = new Set(report.teams.filter(team => team.target !== null).map(team => team.teamId));
+    const overallQuota = report.teams.reduce((sum, team) => sum + (team.target ?? 0), 0)
+      + report.reps
+        .filter(rep => rep.teamId === null || !teamsWithQuota.has(rep.teamId))
+        .reduce((sum, rep) => sum + (rep.target ?? 0), 0);
+
+    const byRep = report.reps.map(rep => ({
+      userId: rep.userId,
+      name: rep.name,
+      ...forecastAgainstQuota({ quota: rep.target, closed: rep.actual, weightedPipeline: weightedByRep.get(rep.userId) ?? 0 }),
+    }));
+
+    return {
+      period: report.period,
+      overall: forecastAgainstQuota({
+        quota: overallQuota || null,
+        closed: report.reps.reduce((sum, rep) => sum + rep.actual, 0),
+        weightedPipeline: Array.from(weightedByRep.values()).reduce((sum, value) => sum + value, 0),
+      }),
+      byRep,
+    };
+  }
+
+  private async quotasFor(period: QuotaPeriod): Promise<SalesQuota[]> {
+    return db.select().from(salesQuotas)
+      .where(and(
+        eq(salesQuotas.periodType, period.periodType),
+        eq(salesQuotas.periodStart, period.start),
+      ));
+  }
+}
+
+export const territoryQuotaService = new TerritoryQuotaService();
+export { TerritoryQuotaService };
@@ -0,0 +1,493 @@
+/**
+ * Service Workflow Definitions
+ *
+ * Compiles the per-service statuses and transition rules admins maintain in
+ * service_workflow_statuses / status_transition_rules into a workflow graph,
+ * and checks the graph before it is published: every status reachable from
+ * the initial status, every status able to reach a terminal one, terminal
+ * statuses closed.
+ *
+ * Also plans how open requests move when a new version is published.
+ *
+ * Kept free of I/O; the workflow engine loads rows, evaluates guards and runs
+ * side-effects.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WorkflowGuard = 'documents_uploaded' | 'documents_verified' | 'payment_received' | 'qc_approved';
+
+export interface WorkflowTaskEffect {
+  title: string;
+  description: string | null;
+  assigneeRole: string | null;
+  dueInHours: number | null;
+}
+
+export type WorkflowNotificationRecipient = 'client' | 'assignee';
+
+export interface WorkflowNotificationEffect {
+  recipient: WorkflowNotificationRecipient;
+  title: string | null;
+  message: string;
+}
+
+export interface WorkflowStatusDefinition {
+  code: string;
+  name: string;
+  description: string | null;
+  isTerminal: boolean;
+  displayOrder: number;
+  slaHours: number | null;
+  triggerTasks: boolean;
+  triggerNotification: boolean;
+  defaultAssigneeRole: string | null;
+  clientVisible: boolean;
+  clientStatusLabel: string | null;
+  clientMessage: string | null;
+}
+
+export interface WorkflowTransitionDefinition {
+  from: string;
+  to: string;
+  name: string;
+  allowedRoles: string[] | null; // null = any role that can reach the endpoint
+  requiresApproval: boolean;
+  guards: WorkflowGuard[];
+  validationMessage: string | null;
+  tasks: WorkflowTaskEffect[];
+  notifications: WorkflowNotificationEffect[];
+  webhookUrl: string | null;
+}
+
+export interface WorkflowDefinition {
+  serviceKey: string;
+  version: number | null; // null while the definition is a draft
+  initialStatus: string | null;
+  statuses: WorkflowStatusDefinition[];
+  transitions: WorkflowTransitionDefinition[];
+}
+
+export interface WorkflowValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface WorkflowStatusRow {
+  statusCode: string;
+  statusName: string;
+  statusDescription?: string | null;
+  isTerminal: boolean | null;
+  displayOrder: number | null;
+  slaHours?: number | null;
+  triggerTasks?: boolean | null;
+  triggerNotification?: boolean | null;
+  defaultAssigneeRole?: string | null;
+  clientVisible?: boolean | null;
+  clientStatusLabel?: string | null;
+  clientMessage?: string | null;
+}
+
+export interface WorkflowTransitionRow {
+  id?: number;
+  fromStatusCode: string;
+  toStatusCode: string;
+  transitionName: string;
+  allowedRoles?: unknown;
+  requiresApproval?: boolean | null;
+  conditionsJson?: unknown;
+  validationMessage?: string | null;
+  onTransitionTasks?: unknown;
+  onTransitionNotifications?: unknown;
+  onTransitionWebhook?: string | null;
+}
+
+export interface MigrationRequest {
+  id: number;
+  status: string;
+}
+
+export interface WorkflowMigrationPlan {
+  moves: { serviceRequestId: number; from: string; to: string }[];
+  unchanged: number[]; // Status exists in the new version; only the version pin moves
+  closed: number[]; // Finished requests stay on the version they finished under
+  unmapped: { status: string; serviceRequestIds: number[] }[];
+  mappingErrors: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const WORKFLOW_GUARDS: Record<WorkflowGuard, string> = {
+  documents_uploaded: 'All required documents must be uploaded',
+  documents_verified: 'All required documents must be uploaded and verified',
+  payment_received: 'Payment must be received before this step',
+  qc_approved: 'The latest QC review must be approved with no unresolved annotations',
+};
+
+// Statuses that end a request under any workflow, including the built-in one
+export const ALWAYS_CLOSED_STATUSES = ['completed', 'cancelled'];
+
+// Roles that may take any transition the endpoint lets them reach
+const UNRESTRICTED_ROLES = ['super_admin'];
+
+// ============================================================================
+// COMPILATION
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseGuards(conditions: unknown, label: string, errors: string[]): WorkflowGuard[] {
+  if (conditions === null || conditions === undefined) return [];
+
+  // Either ["payment_received"] or { guards: ["payment_received"] }
+  const list = Array.isArray(conditions)
+    ? conditions
+    : isPlainObject(conditions) && conditions.guards !== undefined
+      ? conditions.guards
+      : isPlainObject(conditions) && Object.keys(conditions).length === 0
+        ? []
+        : undefined;
+
+  if (!Array.isArray(list)) {
+    errors.push(`${label}: conditions must be a list of guards or { guards: [...] }`);
+    return [];
+  }
+
+  const guards: WorkflowGuard[] = [];
+  for (const guard of list) {
+    if (typeof guard !== 'string' || !(guard in WORKFLOW_GUARDS)) {
+      errors.push(`${label}: unknown guard ${JSON.stringify(guard)} (expected one of ${Object.keys(WORKFLOW_GUARDS).join(', ')})`);
+    } else if (!guards.includes(guard as WorkflowGuard)) {
+      guards.push(guard as WorkflowGuard);
+    }
+  }
+  return guards;
+}
+
+function parseRoles(value: unknown, label: string, errors: string[]): string[] | null {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value) || value.length === 0 || value.some(role => typeof role !== 'string' || !role.trim())) {
+    errors.push(`${label}: allowedRoles must be a non-empty list of role names or null`);
+    return null;
+  }
+  return Array.from(new Set(value.map((role: string) => role.trim())));
+}
+
+function parseTasks(value: unknown, label: string, errors: string[]): WorkflowTaskEffect[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${label}: onTransitionTasks must be a list`);
+    return [];
+  }
+
+  const tasks: WorkflowTaskEffect[] = [];
+  value.forEach((task: unknown, index: number) => {
+    const title = isPlainObject(task) ? optionalString(task.title) : null;
+    if (!isPlainObject(task) || !title) {
+      errors.push(`${label}: onTransitionTasks[${index}] needs a title`);
+      return;
+    }
+    const dueInHours = task.dueInHours ?? null;
+    if (dueInHours !== null && (typeof dueInHours !== 'number' || !(dueInHours > 0))) {
+      errors.push(`${label}: onTransitionTasks[${index}].dueInHours must be a positive number`);
+      return;
+    }
+    tasks.push({
+      title,
+      description: optionalString(task.description),
+      assigneeRole: optionalString(task.assigneeRole),
+      dueInHours: dueInHours as number | null,
+    });
+  });
+  return tasks;
+}
+
+function parseNotifications(value: unknown, label: string, errors: string[]): WorkflowNotificationEffect[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${label}: onTransitionNotifications must be a list`);
+    return [];
+  }
+
+  const notifications: WorkflowNotificationEffect[] = [];
+  value.forEach((notification: unknown, index: number) => {
+    const message = isPlainObject(notification) ? optionalString(notification.message) : null;
+    const recipient = isPlainObject(notification) ? notification.recipient ?? 'client' : null;
+    if (!isPlainObject(notification) || !message) {
+      errors.push(`${label}: onTransitionNotifications[${index}] needs a message`);
+      return;
+    }
+    if (recipient !== 'client' && recipient !== 'assignee') {
+      errors.push(`${label}: onTransitionNotifications[${index}].recipient must be client or assignee`);
+      return;
+    }
+    notifications.push({ recipient, title: optionalString(notification.title), message });
+  });
+  return notifications;
+}
+
+function parseWebhook(value: unknown, label: string, errors: string[]): string | null {
+  const url = optionalString(value);
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw new Error('protocol');
+    return url;
+  } catch {
+    errors.push(`${label}: onTransitionWebhook must be an http(s) URL`);
+    return null;
+  }
+}
+
+/**
+ * Build a workflow definition from active status and transition rows.
+ * Rows the engine cannot act on are reported in `errors` and left out.
+ */
+export function buildWorkflowDefinition(
+  serviceKey: string,
+  statusRows: WorkflowStatusRow[],
+  transitionRows: WorkflowTransitionRow[]
+): { definition: WorkflowDefinition; errors: string[] } {
+  const errors: string[] = [];
+
+  const statuses: WorkflowStatusDefinition[] = [];
+  for (const row of statusRows) {
+    if (statuses.some(status => status.code === row.statusCode)) {
+      errors.push(`Status ${row.statusCode} is defined more than once`);
+      continue;
+    }
+    statuses.push({
+      code: row.statusCode,
+      name: row.statusName,
+      description: row.statusDescription ?? null,
+      isTerminal: row.isTerminal === true,
+      displayOrder: row.displayOrder ?? 0,
+      slaHours: row.slaHours ?? null,
+      triggerTasks: row.triggerTasks !== false,
+      triggerNotification: row.triggerNotification !== false,
+      defaultAssigneeRole: row.defaultAssigneeRole ?? null,
+      clientVisible: row.clientVisible !== false,
+      clientStatusLabel: row.clientStatusLabel ?? null,
+      clientMessage: row.clientMessage ?? null,
+    });
+  }
+  statuses.sort((a, b) => a.displayOrder - b.displayOrder || a.code.localeCompare(b.code));
+
+  const transitions: WorkflowTransitionDefinition[] = [];
+  for (const row of transitionRows) {
+    const label = `Transition ${row.fromStatusCode} -> ${row.toStatusCode}`;
+    if (transitions.some(t => t.from === row.fromStatusCode && t.to === row.toStatusCode)) {
+      errors.push(`${label} is defined more than once`);
+      continue;
+    }
+    transitions.push({
+      from: row.fromStatusCode,
+      to: row.toStatusCode,
+      name: row.transitionName,
+      allowedRoles: parseRoles(row.allowedRoles, label, errors),
+      requiresApproval: row.requiresApproval === true,
+      guards: parseGuards(row.conditionsJson, label, errors),
+      validationMessage: row.validationMessage ?? null,
+      tasks: parseTasks(row.onTransitionTasks, label, errors),
+      notifications: parseNotifications(row.onTransitionNotifications, label, errors),
+      webhookUrl: parseWebhook(row.onTransitionWebhook, label, errors),
+    });
+  }
+
+  const initial = statuses.find(status => !status.isTerminal);
+
+  return {
+    definition: { serviceKey, version: null, initialStatus: initial?.code ?? null, statuses, transitions },
+    errors,
+  };
+}
+
+// ============================================================================
+// GRAPH VALIDATION
+// ============================================================================
+
+function reachableFrom(start: string, edges: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of edges.get(current) || []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Check that the workflow can run: every status is reachable from the initial
+ * status and every status can still reach a terminal one.
+ */
+export function validateWorkflowDefinition(definition: WorkflowDefinition): WorkflowValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const codes = new Set(definition.statuses.map(status => status.code));
+  const terminal = new Set(definition.statuses.filter(status => status.isTerminal).map(status => status.code));
+
+  if (definition.statuses.length === 0) {
+    return { valid: false, errors: ['Workflow has no statuses'], warnings };
+  }
+  if (!definition.initialStatus) {
+    errors.push('Workflow needs a non-terminal status to start in');
+  }
+  if (terminal.size === 0) {
+    errors.push('Workflow needs at least one terminal status');
+  }
+
+  const forward = new Map<string, string[]>();
+  const backward = new Map<string, string[]>();
+  for (const transition of definition.transitions) {
+    const label = `Transition ${transition.from} -> ${transition.to}`;
+    if (!codes.has(transition.from)) {
+      errors.push(`${label} starts from unknown status ${transition.from}`);
+      continue;
+    }
+    if (!codes.has(transition.to)) {
+      errors.push(`${label} leads to unknown status ${transition.to}`);
+      continue;
+    }
+    if (transition.from === transition.to) {
+      errors.push(`${label} does not change the status`);
+      continue;
+    }
+    if (terminal.has(transition.from)) {
+      errors.push(`${label} leaves terminal status ${transition.from}`);
+      continue;
+    }
+    forward.set(transition.from, [...(forward.get(transition.from) || []), transition.to]);
+    backward.set(transition.to, [...(backward.get(transition.to) || []), transition.from]);
+
+    if (transition.requiresApproval && transition.allowedRoles === null) {
+      warnings.push(`${label} requires approval but any role may take it`);
+    }
+  }
+
+  if (definition.initialStatus) {
+    const reachable = reachableFrom(definition.initialStatus, forward);
+    const unreachable = definition.statuses.filter(status => !reachable.has(status.code)).map(status => status.code);
+    if (unreachable.length > 0) {
+      errors.push(`Statuses not reachable from ${definition.initialStatus}: ${unreachable.join(', ')}`);
+    }
+  }
+
+  if (terminal.size > 0) {
+    const canFinish = new Set<string>();
+    terminal.forEach(code => reachableFrom(code, backward).forEach(from => canFinish.add(from)));
+    const stuck = definition.statuses.filter(status => !canFinish.has(status.code)).map(status => status.code);
+    if (stuck.length > 0) {
+      errors.push(`Statuses that can never reach a terminal status: ${stuck.join(', ')}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Build and validate in one step; row errors make the workflow invalid
+ */
+export function compileWorkflow(
+  serviceKey: string,
+  statusRows: WorkflowStatusRow[],
+  transitionRows: WorkflowTransitionRow[]
+): { definition: WorkflowDefinition; validation: WorkflowValidation } {
+  const { definition, errors } = buildWorkflowDefinition(serviceKey, statusRows, transitionRows);
+  const graph = validateWorkflowDefinition(definition);
+  const allErrors = [...errors, ...graph.errors];
+  return {
+    definition,
+    validation: { valid: allErrors.length === 0, errors: allErrors, warnings: graph.warnings },
+  };
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+export function findTransition(definition: WorkflowDefinition, from: string, to: string): WorkflowTransitionDefinition | null {
+  return definition.transitions.find(t => t.from === from && t.to === to) || null;
+}
+
+export function nextStatuses(definition: WorkflowDefinition, from: string): string[] {
+  return definition.transitions.filter(t => t.from === from).map(t => t.to);
+}
+
+export function findStatus(definition: WorkflowDefinition, code: string): WorkflowStatusDefinition | null {
+  return definition.statuses.find(status => status.code === code) || null;
+}
+
+export function isRoleAllowed(transition: WorkflowTransitionDefinition, role: string | null | undefined): boolean {
+  if (!transition.allowedRoles) return true;
+  if (!role) return false;
+  return UNRESTRICTED_ROLES.includes(role) || transition.allowedRoles.includes(role);
+}
+
+/**
+ * Whether two definitions would behave the same (version numbers ignored)
+ */
+export function sameWorkflow(a: WorkflowDefinition, b: WorkflowDefinition): boolean {
+  const strip = (definition: WorkflowDefinition) => JSON.stringify({ ...definition, version: null });
+  return strip(a) === strip(b);
+}
+
+// ============================================================================
+// VERSION MIGRATION
+// ============================================================================
+
+/**
+ * Decide where each request of the service ends up under a new version.
+ * Requests in a status the new version still defines keep it; the others
+ * need an entry in `statusMapping` that names a status of the new version.
+ */
+export function planWorkflowMigration(
+  requests: MigrationRequest[],
+  previous: WorkflowDefinition | null,
+  next: WorkflowDefinition,
+  statusMapping: Record<string, string> = {}
+): WorkflowMigrationPlan {
+  const plan: WorkflowMigrationPlan = { moves: [], unchanged: [], closed: [], unmapped: [], mappingErrors: [] };
+  const nextCodes = new Set(next.statuses.map(status => status.code));
+  const closedCodes = new Set([
+    ...ALWAYS_CLOSED_STATUSES,
+    ...(previous?.statuses.filter(status => status.isTerminal).map(status => status.code) || []),
+  ]);
+
+  for (const [from, to] of Object.entries(statusMapping)) {
+    if (!nextCodes.has(to)) {
+      plan.mappingErrors.push(`statusMapping.${from}: ${to} is not a status of the new workflow`);
+    }
+  }
+
+  const unmapped = new Map<string, number[]>();
+  for (const request of requests) {
+    if (closedCodes.has(request.status)) {
+      plan.closed.push(request.id);
+    } else if (nextCodes.has(request.status)) {
+      plan.unchanged.push(request.id);
+    } else if (statusMapping[request.status] && nextCodes.has(statusMapping[request.status])) {
+      plan.moves.push({ serviceRequestId: request.id, from: request.status, to: statusMapping[request.status] });
+    } else {
+      unmapped.set(request.status, [...(unmapped.get(request.status) || []), request.id]);
+    }
+  }
+
+  plan.unmapped = Array.from(unmapped.entries()).map(([status, serviceRequestIds]) => ({ status, serviceRequestIds }));
+  return plan;
+}
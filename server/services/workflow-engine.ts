@@ -0,0 +1,445 @@
+/**
+ * Service Workflow Engine
+ *
+ * Runs the per-service workflows admins configure in status management.
+ * The statuses and transition rules tables are the draft; publishing
+ * validates the graph, stores a numbered snapshot and moves the service's
+ * open requests onto it. The state machine checks transitions, roles and
+ * guards against the latest published version and runs its side-effects.
+ *
+ * Services with nothing published keep the state machine's built-in workflow.
+ */
+
+import { db } from '../db';
+import {
+  serviceRequests,
+  serviceWorkflowStatuses,
+  statusTransitionRules,
+  statusTransitionHistory,
+  serviceWorkflowVersions,
+  payments,
+  qualityReviews,
+  taskItems,
+  notifications,
+  type ServiceRequest,
+  type ServiceWorkflowVersion,
+} from '@shared/schema';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import { logger } from '../logger';
+import { ValidationError, ConflictError } from '../errors';
+import { checkDocumentsUploaded, checkDocumentsVerified } from './document-verification-service';
+import { syncSlaClock } from './sla-service';
+import { qcAnnotationService } from './qc-annotation-service';
+import {
+  compileWorkflow,
+  findStatus,
+  findTransition,
+  isRoleAllowed,
+  nextStatuses,
+  planWorkflowMigration,
+  sameWorkflow,
+  WORKFLOW_GUARDS,
+  type WorkflowDefinition,
+  type WorkflowGuard,
+  type WorkflowMigrationPlan,
+  type WorkflowTransitionDefinition,
+  type WorkflowValidation,
+} from './workflow-definition';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface WorkflowActor {
+  id: number;
+  role: string;
+}
+
+export interface WorkflowTransitionCheck {
+  allowed: boolean;
+  transition: WorkflowTransitionDefinition | null;
+  errors: string[];
+}
+
+export interface PublishWorkflowInput {
+  statusMapping?: Record<string, string>;
+  notes?: string;
+  dryRun?: boolean;
+}
+
+export interface PublishWorkflowResult {
+  serviceKey: string;
+  version: number;
+  dryRun: boolean;
+  validation: WorkflowValidation;
+  migration: {
+    moved: WorkflowMigrationPlan['moves'];
+    unchanged: number;
+    closed: number;
+  };
+}
+
+class WorkflowEngine {
+  private publishedCache = new Map<string, { definition: WorkflowDefinition | null; loadedAt: number }>();
+
+  // ============================================================================
+  // DEFINITIONS
+  // ============================================================================
+
+  /**
+   * Compile the draft (the live status and transition tables) for a service
+   */
+  async getDraft(serviceKey: string): Promise<{ definition: WorkflowDefinition; validation: WorkflowValidation }> {
+    const [statusRows, transitionRows] = await Promise.all([
+      db.select()
+        .from(serviceWorkflowStatuses)
+        .where(and(
+          eq(serviceWorkflowStatuses.serviceKey, serviceKey),
+          eq(serviceWorkflowStatuses.isActive, true)
+        ))
+        .orderBy(asc(serviceWorkflowStatuses.displayOrder)),
+      db.select()
+        .from(statusTransitionRules)
+        .where(and(
+          eq(statusTransitionRules.serviceKey, serviceKey),
+          eq(statusTransitionRules.isActive, true)
+        ))
+        .orderBy(asc(statusTransitionRules.displayOrder)),
+    ]);
+
+    return compileWorkflow(serviceKey, statusRows, transitionRows);
+  }
+
+  /**
+   * Latest published version for a service, or null when it runs the built-in workflow
+   */
+  async getPublished(serviceKey: string): Promise<WorkflowDefinition | null> {
+    const cached = this.publishedCache.get(serviceKey);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.definition;
+    }
+
+    const [row] = await db.select()
+      .from(serviceWorkflowVersions)
+      .where(eq(serviceWorkflowVersions.serviceKey, serviceKey))
+      .orderBy(desc(serviceWorkflowVersions.version))
+      .limit(1);
+
+    const definition = row ? this.definitionFromRow(row) : null;
+    this.publishedCache.set(serviceKey, { definition, loadedAt: Date.now() });
+    return definition;
+  }
+
+  async listVersions(serviceKey: string) {
+    const rows = await db.select()
+      .from(serviceWorkflowVersions)
+      .where(eq(serviceWorkflowVersions.serviceKey, serviceKey))
+      .orderBy(desc(serviceWorkflowVersions.version));
+
+    return rows.map(row => ({
+      version: row.version,
+      publishedBy: row.publishedBy,
+      publishedAt: row.publishedAt,
+      notes: row.notes,
+      statusMapping: row.statusMapping,
+      migrationSummary: row.migrationSummary,
+      definition: this.definitionFromRow(row),
+    }));
+  }
+
+  private definitionFromRow(row: ServiceWorkflowVersion): WorkflowDefinition {
+    return { ...(row.definition as WorkflowDefinition), version: row.version };
+  }
+
+  // ============================================================================
+  // TRANSITIONS
+  // ============================================================================
+
+  /**
+   * Check a transition against a published workflow: the edge must exist,
+   * the actor's role must be allowed and every guard must pass
+   */
+  async checkTransition(
+    definition: WorkflowDefinition,
+    serviceRequest: ServiceRequest,
+    toStatus: string,
+    actor: WorkflowActor
+  ): Promise<WorkflowTransitionCheck> {
+    const fromStatus = serviceRequest.status;
+    const transition = findTransition(definition, fromStatus, toStatus);
+
+    if (!transition) {
+      const valid = nextStatuses(definition, fromStatus);
+      return {
+        allowed: false,
+        transition: null,
+        errors: [`Invalid transition: ${fromStatus} -> ${toStatus}. Valid transitions: ${valid.join(', ') || 'none'}`],
+      };
+    }
+
+    if (!isRoleAllowed(transition, actor.role)) {
+      return {
+        allowed: false,
+        transition,
+        errors: [`Role "${actor.role}" may not perform "${transition.name}" (allowed: ${transition.allowedRoles!.join(', ')})`],
+      };
+    }
+
+    const errors: string[] = [];
+    for (const guard of transition.guards) {
+      if (!(await this.evaluateGuard(guard, serviceRequest))) {
+        errors.push(transition.validationMessage || WORKFLOW_GUARDS[guard]);
+      }
+    }
+
+    return { allowed: errors.length === 0, transition, errors: Array.from(new Set(errors)) };
+  }
+
+  private async evaluateGuard(guard: WorkflowGuard, serviceRequest: ServiceRequest): Promise<boolean> {
+    switch (guard) {
+      case 'documents_uploaded':
+        return (await checkDocumentsUploaded(serviceRequest.id)).isComplete;
+
+      case 'documents_verified':
+        return (await checkDocumentsVerified(serviceRequest.id)).isVerified;
+
+      case 'payment_received': {
+        const [payment] = await db.select({ id: payments.id })
+          .from(payments)
+          .where(and(
+            eq(payments.serviceRequestId, serviceRequest.id),
+            eq(payments.status, 'completed')
+          ))
+          .limit(1);
+        return !!payment;
+      }
+
+      case 'qc_approved': {
+        const [review] = await db.select({ status: qualityReviews.status })
+          .from(qualityReviews)
+          .where(eq(qualityReviews.serviceRequestId, serviceRequest.id))
+          .orderBy(desc(qualityReviews.id))
+          .limit(1);
+        if (review?.status !== 'approved') return false;
+        const unresolved = await qcAnnotationService.findUnresolved(serviceRequest.id);
+        return unresolved.length === 0;
+      }
+    }
+  }
+
+  /**
+   * Tasks, notifications and webhooks for a transition that has been applied.
+   * Failures are logged; the status change stands.
+   */
+  async runSideEffects(
+    definition: WorkflowDefinition,
+    serviceRequest: ServiceRequest,
+    fromStatus: string,
+    toStatus: string,
+    actorId: number
+  ): Promise<void> {
+    const status = findStatus(definition, toStatus);
+    const transition = findTransition(definition, fromStatus, toStatus);
+
+    try {
+      if (status?.triggerTasks) {
+        await this.createTask(serviceRequest, actorId, {
+          title: `${status.name}: ${serviceRequest.serviceId}`,
+          description: status.description || `Process service request at ${status.name} stage`,
+          assigneeRole: status.defaultAssigneeRole,
+          dueInHours: status.slaHours,
+        });
+      }
+      for (const task of transition?.tasks || []) {
+        await this.createTask(serviceRequest, actorId, task);
+      }
+
+      if (status?.triggerNotification && status.clientVisible && serviceRequest.userId) {
+        await this.notify(serviceRequest.userId, serviceRequest.id, toStatus,
+          `Service Update: ${status.clientStatusLabel || status.name}`,
+          status.clientMessage || `Your service request status has been updated to: ${status.name}`);
+      }
+      for (const notification of transition?.notifications || []) {
+        const userId = notification.recipient === 'client' ? serviceRequest.userId : serviceRequest.assignedTeamMember;
+        if (userId) {
+          await this.notify(userId, serviceRequest.id, toStatus,
+            notification.title || `Service Update: ${status?.name || toStatus}`, notification.message);
+        }
+      }
+    } catch (error) {
+      logger.error(`Workflow side-effects failed for service request ${serviceRequest.id}:`, error);
+    }
+
+    if (transition?.webhookUrl) {
+      this.callWebhook(transition.webhookUrl, {
+        event: 'service_request.status_changed',
+        serviceRequestId: serviceRequest.id,
+        serviceKey: definition.serviceKey,
+        workflowVersion: definition.version,
+        fromStatus,
+        toStatus,
+        transition: transition.name,
+        changedBy: actorId,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  private async createTask(
+    serviceRequest: ServiceRequest,
+    actorId: number,
+    task: { title: string; description: string | null; assigneeRole: string | null; dueInHours: number | null }
+  ): Promise<void> {
+    await db.insert(taskItems).values({
+      taskNumber: `TASK-${Date.now()}-${serviceRequest.id}`,
+      title: task.title,
+      description: task.description,
+      taskType: 'service_related',
+      initiatorId: actorId,
+      assigneeRole: task.assigneeRole || 'ops_executive',
+      status: 'pending',
+      priority: serviceRequest.priority || 'medium',
+      serviceRequestId: serviceRequest.id,
+      businessEntityId: serviceRequest.businessEntityId,
+      dueDate: task.dueInHours ? new Date(Date.now() + task.dueInHours * 60 * 60 * 1000) : null,
+    });
+  }
+
+  private async notify(userId: number, serviceRequestId: number, status: string, title: string, message: string): Promise<void> {
+    await db.insert(notifications).values({
+      userId,
+      title,
+      message,
+      type: 'status_change',
+      category: 'service',
+      priority: 'normal',
+      actionUrl: `/service-requests/${serviceRequestId}`,
+      actionText: 'View Details',
+      metadata: { serviceRequestId, newStatus: status },
+    });
+  }
+
+  private callWebhook(url: string, payload: Record<string, unknown>): void {
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+      .then(response => {
+        if (!response.ok) {
+          logger.warn(`Workflow webhook ${url} returned ${response.status}`);
+        }
+      })
+      .catch(error => logger.warn(`Workflow webhook ${url} failed: ${error.message}`));
+  }
+
+  // ============================================================================
+  // PUBLISHING
+  // ============================================================================
+
+  /**
+   * Publish the draft as the next version and move the service's open requests
+   * onto it. Requests in statuses the new version drops need a statusMapping
+   * entry; with `dryRun` nothing is written.
+   */
+  async publish(serviceKey: string, input: PublishWorkflowInput, publishedBy: number): Promise<PublishWorkflowResult> {
+    const statusMapping = input.statusMapping || {};
+    if (typeof statusMapping !== 'object' || Array.isArray(statusMapping) ||
+        Object.values(statusMapping).some(value => typeof value !== 'string')) {
+      throw new ValidationError('statusMapping must map old status codes to new status codes');
+    }
+
+    const { definition, validation } = await this.getDraft(serviceKey);
+    if (!validation.valid) {
+      throw new ValidationError('Workflow definition is invalid', { errors: validation.errors, warnings: validation.warnings });
+    }
+
+    const [latest] = await db.select()
+      .from(serviceWorkflowVersions)
+      .where(eq(serviceWorkflowVersions.serviceKey, serviceKey))
+      .orderBy(desc(serviceWorkflowVersions.version))
+      .limit(1);
+    const previous = latest ? this.definitionFromRow(latest) : null;
+
+    if (previous && sameWorkflow(previous, definition)) {
+      throw new ConflictError(`Workflow is unchanged since version ${previous.version}`);
+    }
+
+    const requests = await db.select({ id: serviceRequests.id, status: serviceRequests.status })
+      .from(serviceRequests)
+      .where(eq(serviceRequests.serviceId, serviceKey));
+
+    const plan = planWorkflowMigration(requests, previous, definition, statusMapping);
+    if (plan.mappingErrors.length > 0 || plan.unmapped.length > 0) {
+      throw new ValidationError('Open requests are in statuses the new workflow does not define', {
+        errors: plan.mappingErrors,
+        unmapped: plan.unmapped.map(entry => ({ status: entry.status, count: entry.serviceRequestIds.length, serviceRequestIds: entry.serviceRequestIds })),
+      });
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+    const result: PublishWorkflowResult = {
+      serviceKey,
+      version,
+      dryRun: input.dryRun === true,
+      validation,
+      migration: { moved: plan.moves, unchanged: plan.unchanged.length, closed: plan.closed.length },
+    };
+    if (input.dryRun) {
+      return result;
+    }
+
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      await tx.insert(serviceWorkflowVersions).values({
+        serviceKey,
+        version,
+        definition: { ...definition, version },
+        statusMapping,
+        migrationSummary: result.migration,
+        notes: input.notes || null,
+        publishedBy,
+      });
+
+      if (plan.unchanged.length > 0) {
+        await tx.update(serviceRequests)
+          .set({ workflowVersion: version, updatedAt: now })
+          .where(inArray(serviceRequests.id, plan.unchanged));
+      }
+
+      for (const move of plan.moves) {
+        const toStatus = findStatus(definition, move.to)!;
+        await tx.update(serviceRequests)
+          .set({ status: move.to, currentMilestone: toStatus.name, workflowVersion: version, updatedAt: now })
+          .where(eq(serviceRequests.id, move.serviceRequestId));
+
+        await tx.insert(statusTransitionHistory).values({
+          serviceRequestId: move.serviceRequestId,
+          serviceKey,
+          fromStatusCode: move.from,
+          toStatusCode: move.to,
+          fromStatusName: findStatus(previous ?? definition, move.from)?.name || move.from,
+          toStatusName: toStatus.name,
+          changedBy: publishedBy,
+          changedByName: 'System',
+          changedByRole: 'system',
+          transitionReason: `Workflow version ${version} published`,
+          isAutomatic: true,
+          triggerSource: 'workflow_migration',
+        });
+      }
+    });
+
+    this.publishedCache.delete(serviceKey);
+    logger.info(`Workflow ${serviceKey} v${version} published by user ${publishedBy}: ${plan.moves.length} moved, ${plan.unchanged.length} re-pinned`);
+
+    for (const move of plan.moves) {
+      syncSlaClock(move.serviceRequestId, move.to, publishedBy);
+    }
+
+    return result;
+  }
+}
+
+export const workflowEngine = new WorkflowEngine();
+export { WorkflowEngine };
@@ -14,6 +14,9 @@ import {
 } from '@shared/schema';
 import { eq, and, desc, asc, count, sql, inArray } from 'drizzle-orm';
 import { sessionAuthMiddleware, requireMinimumRole, USER_ROLES } from './rbac-middleware';
+import { workflowEngine } from './services/workflow-engine';
+import { executeStatusTransition, getAvailableTransitions } from './status-transition-handler';
+import { AppError } from './errors';
 
 const router = Router();
 
@@ -585,6 +588,31 @@ router.post('/service-requests/:requestId/transition', async (req: Request, res:
     const serviceKey = serviceRequest.serviceId;
     const fromStatusCode = serviceRequest.status;
 
+    // Published workflows run through the transition handler (roles, guards, side-effects)
+    if (await workflowEngine.getPublished(serviceKey)) {
+      const result = await executeStatusTransition({
+        serviceRequestId: serviceRequest.id,
+        toStatusCode,
+        userId,
+        reason,
+        notes
+      });
+      if (!result.success) {
+        return res.status(400).json({
+          error: result.error || 'Invalid status transition',
+          from: fromStatusCode,
+          to: toStatusCode
+        });
+      }
+      return res.json({
+        success: true,
+        previousStatus: result.previousStatus,
+        newStatus: result.newStatus,
+        historyId: result.historyId,
+        message: `Status changed from "${result.previousStatus}" to "${result.newStatus}"`
+      });
+    }
+
     // Check if transition is valid
     const [transitionRule] = await db.select()
       .from(statusTransitionRules)
@@ -738,6 +766,16 @@ router.get('/service-requests/:requestId/available-transitions', async (req: Req
     const serviceKey = serviceRequest.serviceId;
     const currentStatus = serviceRequest.status;
 
+    const workflow = await workflowEngine.getPublished(serviceKey);
+    if (workflow) {
+      return res.json({
+        currentStatus,
+        transitions: await getAvailableTransitions(serviceRequest.id),
+        isDefault: false,
+        workflowVersion: workflow.version
+      });
+    }
+
     // Get custom transitions
     let transitions = await db.select()
       .from(statusTransitionRules)
@@ -771,6 +809,66 @@ router.get('/service-requests/:requestId/available-transitions', async (req: Req
   }
 });
 
+// ============================================================================
+// WORKFLOW VERSIONS
+// The statuses and transitions above are the draft; publishing makes them the
+// workflow the state machine runs for the service
+// ============================================================================
+
+function handleWorkflowError(res: Response, error: unknown, message: string) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ error: error.message, details: error.details });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ error: message });
+}
+
+// Draft compiled from the tables, its validation, and the published version
+router.get('/services/:serviceKey/workflow', async (req: Request, res: Response) => {
+  try {
+    const { serviceKey } = req.params;
+    const [draft, published] = await Promise.all([
+      workflowEngine.getDraft(serviceKey),
+      workflowEngine.getPublished(serviceKey)
+    ]);
+
+    res.json({
+      serviceKey,
+      draft: draft.definition,
+      validation: draft.validation,
+      published
+    });
+  } catch (error) {
+    handleWorkflowError(res, error, 'Failed to load workflow');
+  }
+});
+
+// Published versions, newest first
+router.get('/services/:serviceKey/workflow/versions', async (req: Request, res: Response) => {
+  try {
+    res.json({ versions: await workflowEngine.listVersions(req.params.serviceKey) });
+  } catch (error) {
+    handleWorkflowError(res, error, 'Failed to list workflow versions');
+  }
+});
+
+// Publish the draft as a new version and migrate the service's open requests
+// Body: { statusMapping?: { oldStatus: newStatus }, notes?, dryRun? }
+router.post('/services/:serviceKey/workflow/publish', requireMinimumRole(USER_ROLES.ADMIN), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const result = await workflowEngine.publish(req.params.serviceKey, {
+      statusMapping: req.body?.statusMapping,
+      notes: req.body?.notes,
+      dryRun: req.body?.dryRun === true
+    }, userId);
+
+    res.status(result.dryRun ? 200 : 201).json(result);
+  } catch (error) {
+    handleWorkflowError(res, error, 'Failed to publish workflow');
+  }
+});
+
 // ============================================================================
 // BULK OPERATIONS
 // ============================================================================
@@ -11,6 +11,10 @@ import {
 } from '@shared/schema';
 import { eq, and, desc, asc } from 'drizzle-orm';
 import { EventEmitter } from 'events';
+import { triggerComplianceChange } from './compliance-event-emitter';
+import { syncSlaClock } from './services/sla-service';
+import { workflowEngine } from './services/workflow-engine';
+import type { WorkflowDefinition } from './services/workflow-definition';
 
 // ============================================================================
 // STATUS TRANSITION HANDLER
@@ -75,12 +79,10 @@ class StatusTransitionHandler {
       const fromStatusCode = serviceRequest.status;
 
       // 2. Validate transition is allowed
-      const validationResult = await this.validateTransition(
-        serviceKey,
-        fromStatusCode,
-        toStatusCode,
-        userId
-      );
+      const workflow = await workflowEngine.getPublished(serviceKey);
+      const validationResult = workflow
+        ? await this.validateWorkflowTransition(workflow, serviceRequest, toStatusCode, userId)
+        : await this.validateTransition(serviceKey, fromStatusCode, toStatusCode, userId);
 
       if (!validationResult.valid) {
         return { success: false, error: validationResult.error };
@@ -165,14 +167,19 @@ class StatusTransitionHandler {
       ];
 
       await db.update(serviceRequests)
-        .set({ milestoneHistory: newHistory })
+        .set({
+          milestoneHistory: newHistory,
+          workflowVersion: workflow?.version ?? serviceRequest.workflowVersion
+        })
         .where(eq(serviceRequests.id, serviceRequestId));
 
       // 9. Emit event for notification system
+      const complianceEntityId = serviceRequest.businessEntityId ?? serviceRequest.entityId;
       this.eventBus.emit('service_status_changed', {
         type: 'status_change',
         serviceRequestId,
         serviceKey,
+        businessEntityId: complianceEntityId,
         fromStatus: fromStatusCode,
         toStatus: toStatusCode,
         fromStatusName: fromStatus?.statusName,
@@ -183,10 +190,25 @@ class StatusTransitionHandler {
         timestamp: new Date()
       });
 
+      // Compliance state of the entity's service domains may have changed
+      if (complianceEntityId) {
+        triggerComplianceChange(
+          { type: 'service_request', entityId: complianceEntityId, serviceId: serviceKey },
+          toStatusCode === 'completed' ? 'service_completed' : 'service_status_changed',
+          { serviceRequestId, fromStatus: fromStatusCode, toStatus: toStatusCode }
+        );
+      }
+
+      // Client-waiting statuses pause the SLA clock
+      syncSlaClock(serviceRequestId, toStatusCode, userId);
+
       // 10. Trigger automatic actions
       await this.executeAutomaticActions({
         serviceRequest,
+        fromStatusCode,
+        toStatusCode,
         toStatus,
+        workflow,
         userId,
         historyId: historyEntry.id
       });
@@ -265,6 +287,32 @@ class StatusTransitionHandler {
     };
   }
 
+  // Published workflows decide edges, roles and guards themselves
+  private async validateWorkflowTransition(
+    workflow: WorkflowDefinition,
+    serviceRequest: typeof serviceRequests.$inferSelect,
+    toStatusCode: string,
+    userId: number
+  ): Promise<{
+    valid: boolean;
+    error?: string;
+    transitionRule?: any;
+  }> {
+    const [user] = await db.select({ role: users.role })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    const check = await workflowEngine.checkTransition(workflow, serviceRequest, toStatusCode, {
+      id: userId,
+      role: user?.role || ''
+    });
+
+    return check.allowed
+      ? { valid: true, transitionRule: check.transition }
+      : { valid: false, error: check.errors.join('; ') };
+  }
+
   private getDefaultTransitions() {
     return [
       { fromStatusCode: 'initiated', toStatusCode: 'docs_pending' },
@@ -347,24 +395,32 @@ class StatusTransitionHandler {
 
   private async executeAutomaticActions(params: {
     serviceRequest: any;
+    fromStatusCode: string;
+    toStatusCode: string;
     toStatus: any;
+    workflow: WorkflowDefinition | null;
     userId: number;
     historyId: number;
   }) {
-    const { serviceRequest, toStatus, userId, historyId } = params;
-
-    // Create tasks if configured
-    if (toStatus?.triggerTasks) {
-      await this.createStatusTask(serviceRequest, toStatus, userId, historyId);
-    }
+    const { serviceRequest, fromStatusCode, toStatusCode, toStatus, workflow, userId, historyId } = params;
+
+    if (workflow) {
+      // Tasks, notifications and webhooks as published for the service
+      await workflowEngine.runSideEffects(workflow, serviceRequest, fromStatusCode, toStatusCode, userId);
+    } else {
+      // Create tasks if configured
+      if (toStatus?.triggerTasks) {
+        await this.createStatusTask(serviceRequest, toStatus, userId, historyId);
+      }
 
-    // Create client notification if configured
-    if (toStatus?.triggerNotification && toStatus?.clientVisible) {
-      await this.createStatusNotification(serviceRequest, toStatus);
+      // Create client notification if configured
+      if (toStatus?.triggerNotification && toStatus?.clientVisible) {
+        await this.createStatusNotification(serviceRequest, toStatus);
+      }
     }
 
     // Emit specific events for certain statuses
-    switch (toStatus?.statusCode || params.toStatus) {
+    switch (toStatusCode) {
       case 'completed':
         this.eventBus.emit('service_completed', {
           serviceRequestId: serviceRequest.id,
@@ -508,6 +564,21 @@ class StatusTransitionHandler {
     const serviceKey = serviceRequest.serviceId;
     const currentStatus = serviceRequest.status;
 
+    const workflow = await workflowEngine.getPublished(serviceKey);
+    if (workflow) {
+      return workflow.transitions
+        .filter(t => t.from === currentStatus)
+        .map(t => ({
+          fromStatusCode: t.from,
+          toStatusCode: t.to,
+          transitionName: t.name,
+          allowedRoles: t.allowedRoles,
+          requiresApproval: t.requiresApproval,
+          guards: t.guards,
+          workflowVersion: workflow.version
+        }));
+    }
+
     // Get custom transitions
     const customTransitions = await db.select()
       .from(statusTransitionRules)
@@ -58,3 +58,17 @@ export async function resolveDownloadUrl(fileUrl: string): Promise<string> {
 
   return getSignedUrl(fileUrl);
 }
+
+/**
+ * Storage path of a stored file URL, or null for files held elsewhere
+ */
+export function resolveStoragePath(fileUrl: string): string | null {
+  if (!fileUrl) return null;
+  if (fileUrl.startsWith('/uploads/')) return fileUrl.slice('/uploads/'.length);
+
+  const gsPath = extractPathFromGsUri(fileUrl);
+  if (gsPath) return gsPath;
+  if (isHttpUrl(fileUrl)) return extractPathFromGcsUrl(fileUrl);
+
+  return fileUrl.replace(/^\/+/, '');
+}
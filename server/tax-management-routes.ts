@@ -4,7 +4,11 @@ import { db } from './db';
 // Tax Management for Startups - GST, TDS, ITR
 export function registerTaxManagementRoutes(app: Express) {
 
-  // Tax dashboard handler
+  // Tax dashboard handler. These are a client business's own GST/TDS/ITR
+  // filings, which the platform does not record yet, so the figures are
+  // placeholders. The GST tax ledger is the firm's own (output tax on its
+  // invoices, input tax on its vendor bills) and is served to finance staff
+  // on the authenticated /api/gst routes, not to clients here.
   const taxDashboardHandler = async (req: Request, res: Response) => {
     try {
       const { clientId } = req.params;
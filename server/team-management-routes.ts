@@ -2,7 +2,8 @@ import { Request, Response } from 'express';
 import { eq, sql, desc, and, inArray, avg, count, gte, lte } from 'drizzle-orm';
 import { db } from './db';
 import { users, tasks, service_orders, entities, sla_timers } from '@shared/universal-schema';
-import { EnhancedSlaSystem, SlaMonitoringService } from './enhanced-sla-system';
+import { slaService } from './services/sla-service';
+import { getSlaCheckerStatus } from './jobs/sla-checker';
 
 // Enhanced Team Management Routes for Operations
 export function registerTeamManagementRoutes(app: any) {
@@ -322,56 +323,33 @@ export function registerTeamManagementRoutes(app: any) {
         .innerJoin(entities, eq(service_orders.entity_id, entities.id))
         .where(inArray(service_orders.status, ['created', 'in_progress', 'waiting_client', 'waiting_government']));
 
-      // Get SLA timer info for each active order
+      // Get SLA clock for each active order
       const slaTimers = await Promise.all(serviceOrders.map(async (order) => {
-        try {
-          const timer = await EnhancedSlaSystem.getTimer(order.id);
-          if (timer) {
-            const timerInfo = timer.getTimerInfo();
-            return {
-              id: order.id,
-              service_order_id: order.id,
-              service_type: order.service_type,
-              entity_name: order.entity.name,
-              baseline_hours: timerInfo.standardHours,
-              started_at: timerInfo.startTime.toISOString(),
-              current_status: timerInfo.status.status,
-              escalation_level: timerInfo.status.escalationLevel || null,
-              minutes_remaining: timerInfo.status.minutesRemaining,
-              total_paused_minutes: timerInfo.totalPausedMinutes,
-              currently_paused: timerInfo.currentlyPaused,
-              pause_reasons: timerInfo.pauseReasons,
-              breach_notified: timerInfo.status.status === 'breached'
-            };
-          }
-          return null;
-        } catch (error) {
-          // Initialize timer if not exists
-          const timer = await EnhancedSlaSystem.initializeTimer(order.id, order.service_type);
-          const timerInfo = timer.getTimerInfo();
-          return {
-            id: order.id,
-            service_order_id: order.id,
-            service_type: order.service_type,
-            entity_name: order.entity.name,
-            baseline_hours: timerInfo.standardHours,
-            started_at: timerInfo.startTime.toISOString(),
-            current_status: timerInfo.status.status,
-            escalation_level: timerInfo.status.escalationLevel || null,
-            minutes_remaining: timerInfo.status.minutesRemaining,
-            total_paused_minutes: timerInfo.totalPausedMinutes,
-            currently_paused: timerInfo.currentlyPaused,
-            pause_reasons: timerInfo.pauseReasons,
-            breach_notified: false
-          };
-        }
+        const report = await slaService.getClockReport(order.id);
+        if (!report) return null;
+        return {
+          id: order.id,
+          service_order_id: order.id,
+          service_type: order.service_type,
+          entity_name: order.entity.name,
+          baseline_hours: report.timer.standardHours,
+          started_at: report.timer.startTime.toISOString(),
+          deadline: report.clock.deadline.toISOString(),
+          current_status: report.state,
+          escalation_level: report.timer.escalationLevel,
+          minutes_remaining: Math.round(report.clock.remainingHours * 60),
+          total_paused_minutes: Math.round(report.clock.pausedHours * 60),
+          currently_paused: report.clock.isPaused,
+          pause_reasons: report.pauses,
+          breach_notified: !!report.timer.breachedAt
+        };
       }));
 
       // Filter out null results and sort by urgency
       const validTimers = slaTimers.filter(timer => timer !== null);
       validTimers.sort((a, b) => {
         // Sort by status priority: breached > at_risk > warning > on_track
-        const statusPriority = { 'breached': 4, 'at_risk': 3, 'warning': 2, 'on_track': 1, 'paused': 0 };
+        const statusPriority: Record<string, number> = { 'breached': 4, 'at_risk': 3, 'warning': 2, 'on_track': 1, 'paused': 0 };
         return (statusPriority[b.current_status] || 0) - (statusPriority[a.current_status] || 0);
       });
 
@@ -392,17 +370,15 @@ export function registerTeamManagementRoutes(app: any) {
         return res.status(400).json({ error: 'Reason is required for pausing SLA timer' });
       }
 
-      const timer = await EnhancedSlaSystem.getTimer(parseInt(serviceOrderId));
+      const timer = await slaService.pauseClock(parseInt(serviceOrderId), { reason: reason.trim() });
       if (!timer) {
         return res.status(404).json({ error: 'SLA timer not found' });
       }
 
-      timer.pauseTimer(reason);
-      
       res.json({ 
         success: true, 
         message: 'SLA timer paused successfully',
-        timerInfo: timer.getTimerInfo()
+        timerInfo: await slaService.getClockReport(parseInt(serviceOrderId))
       });
     } catch (error) {
       console.error('Error pausing SLA timer:', error);
@@ -420,17 +396,15 @@ export function registerTeamManagementRoutes(app: any) {
         return res.status(400).json({ error: 'Reason is required for resuming SLA timer' });
       }
 
-      const timer = await EnhancedSlaSystem.getTimer(parseInt(serviceOrderId));
+      const timer = await slaService.resumeClock(parseInt(serviceOrderId), { reason: reason.trim() });
       if (!timer) {
         return res.status(404).json({ error: 'SLA timer not found' });
       }
 
-      timer.resumeTimer(reason);
-      
       res.json({ 
         success: true, 
         message: 'SLA timer resumed successfully',
-        timerInfo: timer.getTimerInfo()
+        timerInfo: await slaService.getClockReport(parseInt(serviceOrderId))
       });
     } catch (error) {
       console.error('Error resuming SLA timer:', error);
@@ -442,7 +416,7 @@ export function registerTeamManagementRoutes(app: any) {
   app.get('/api/ops/dashboard-stats', async (req: Request, res: Response) => {
     try {
       // Get comprehensive SLA metrics
-      const slaMetrics = await EnhancedSlaSystem.getSlaMetrics();
+      const slaMetrics = await slaService.getMetrics();
       
       // Get current active orders by status
       const [statusCounts] = await db.select({
@@ -493,8 +467,11 @@ export function registerTeamManagementRoutes(app: any) {
   // SLA Monitoring Status and Controls
   app.get('/api/ops/sla-monitoring-status', async (req: Request, res: Response) => {
     try {
-      const status = await SlaMonitoringService.getMonitoringStatus();
-      res.json(status);
+      res.json({
+        ...getSlaCheckerStatus(),
+        summary: await slaService.getSLASummary(),
+        systemHealth: "operational"
+      });
     } catch (error) {
       console.error('Error fetching SLA monitoring status:', error);
       res.status(500).json({ error: 'Failed to fetch monitoring status' });
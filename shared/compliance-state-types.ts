@@ -38,9 +38,12 @@ export interface ComplianceRequirementStatus {
   domain: ComplianceDomain;
   state: ComplianceState;
   dueDate: Date | null;
+  statutoryDueDate?: Date | null; // Before holiday adjustment and government extensions
+  extensionReference?: string | null; // Circular that extended the due date
   daysUntilDue: number | null;
   daysOverdue: number | null;
   penaltyExposure: number; // in ₹
+  penaltyBreakdown?: PenaltyComponent[];
   priority: 'critical' | 'high' | 'medium' | 'low';
   isRecurring: boolean;
   nextOccurrence: Date | null;
@@ -113,6 +116,8 @@ export interface StateCalculationInput {
   hasPF: boolean;
   hasESI: boolean;
   hasForeignTransactions: boolean;
+  isListed: boolean;
+  hasForeignInvestment: boolean;
   
   // Active services and their status
   activeServices: {
@@ -146,6 +151,7 @@ export interface StateCalculationInput {
     status: string | null;
     lastCompleted: Date | null;
     priority?: string | null;
+    taxLiability?: string | null;
   }[];
 }
 
@@ -171,11 +177,13 @@ export interface ComplianceRule {
   // Timing
   frequency: 'ONE_TIME' | 'MONTHLY' | 'QUARTERLY' | 'HALF_YEARLY' | 'ANNUAL' | 'EVENT_BASED';
   dueDateLogic: string; // e.g., "20th of next month", "31st October"
+  dueDateAdjustment?: 'NEXT_WORKING_DAY' | 'PREVIOUS_WORKING_DAY' | 'NONE'; // When the due date falls on a holiday
   graceDays?: number;
   
   // Risk assessment
   penaltyPerDay?: number;
   maxPenalty?: number;
+  penaltyRules?: PenaltyRuleTerms[]; // Late fee and interest terms evaluated by the penalty engine
   criticalityScore: number; // 1-10
   
   // Required documents
@@ -190,6 +198,61 @@ export interface ComplianceRule {
   };
 }
 
+/**
+ * Late filing terms from penalty_rules_master or compliance_penalty_definitions,
+ * normalised for the penalty engine
+ */
+export interface PenaltyRuleTerms {
+  code: string;
+  name?: string;
+  component: PenaltyComponentType;
+  penaltyType: 'FLAT' | 'DAILY' | 'INTEREST' | 'SLAB' | 'COMPOUND' | 'MIXED';
+  interestMethod?: PenaltyInterestMethod;
+  flatAmount?: number;
+  dailyAmount?: number;
+  interestRateAnnual?: number;
+  interestRateRange?: [number, number]; // Damages: lowest and highest annual rate
+  compoundingFrequency?: 'DAILY' | 'MONTHLY' | 'QUARTERLY';
+  slabs?: PenaltySlab[];
+  maxPenalty?: number;
+  maxPenaltyIsTax?: boolean; // Capped at the tax amount (e.g. Section 234E)
+  maxDays?: number;
+  minPenalty?: number;
+  graceDays?: number;
+  legalReference?: string | null;
+}
+
+export type PenaltyComponentType = 'LATE_FEE' | 'INTEREST' | 'ADDITIONAL_FEE';
+
+/**
+ * DAILY: rate p.a. per day late; MONTH_OR_PART: rate p.a. / 12 per month or part;
+ * SECTION_234A/B/C: Income Tax Act interest; DAMAGES: EPF Section 14B damages by delay
+ */
+export type PenaltyInterestMethod = 'DAILY' | 'MONTH_OR_PART' | 'SECTION_234A' | 'SECTION_234B' | 'SECTION_234C' | 'DAMAGES';
+
+export interface PenaltySlab {
+  fromDays?: number;
+  toDays?: number;
+  amountPerDay?: number; // Per day late within the slab
+  amount?: number; // Fixed fee once the delay reaches the slab
+  multiplier?: number; // Multiple of the normal filing fee (MCA additional fee)
+  rate?: number; // % p.a. on tax for the days within the slab
+  incomeUpto?: number; // Income-based slabs (Section 234F)
+  incomeAbove?: number;
+}
+
+/**
+ * One line of an itemised penalty breakdown
+ */
+export interface PenaltyComponent {
+  code: string;
+  name: string;
+  component: PenaltyComponentType;
+  amount: number; // in ₹
+  basis: string; // How the amount was arrived at
+  legalReference: string | null;
+}
+
 /**
  * State calculation result
  */
@@ -17,7 +17,7 @@
 
 import { pgTable, serial, varchar, text, integer, boolean, timestamp, date, decimal, jsonb, uuid, time, bigserial, index, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
-import { users, businessEntities, serviceRequests, documentsUploads, leads } from './schema';
+import { users, businessEntities, serviceRequests, documentsUploads, documentVault, leads } from './schema';
 
 // ============================================================================
 // 1. MULTI-TENANCY
@@ -482,6 +482,10 @@ export const communicationThreads = pgTable('communication_threads', {
   entityId: integer('entity_id').notNull(),
   subject: varchar('subject', { length: 500 }),
   participantIds: jsonb('participant_ids').notNull(), // Array of user IDs
+  businessEntityId: integer('business_entity_id'),
+  contactAddress: text('contact_address'), // sender of replies not matched to a request or ticket (entityType 'contact')
+  awaitingResponse: boolean('awaiting_response').default(false), // a client reply ops have not handled
+  lastInboundAt: timestamp('last_inbound_at'),
   lastMessageAt: timestamp('last_message_at'),
   messageCount: integer('message_count').default(0),
   unreadCount: jsonb('unread_count').default({}), // { userId: count }
@@ -505,6 +509,11 @@ export const threadMessages = pgTable('thread_messages', {
   attachments: jsonb('attachments'), // Array of { name, url, size, type }
   templateId: integer('template_id'),
   isInternal: boolean('is_internal').default(false), // Internal notes not visible to clients
+  channel: varchar('channel', { length: 20 }), // 'whatsapp', 'sms', 'email', 'portal'
+  direction: varchar('direction', { length: 10 }).default('internal'), // 'inbound', 'outbound', 'internal'
+  senderAddress: text('sender_address'), // phone or email a reply came from
+  externalMessageId: text('external_message_id'), // provider message id, unique per channel
+  metadata: jsonb('metadata'), // { intent, replyTo, references, raw provider fields }
   readBy: jsonb('read_by').default([]), // Array of { userId, readAt }
   editedAt: timestamp('edited_at'),
   deletedAt: timestamp('deleted_at'),
@@ -525,8 +534,9 @@ export const documentTemplatesV2 = pgTable('document_templates_v2', {
   tenantId: uuid('tenant_id').references(() => tenants.id),
   name: varchar('name', { length: 200 }).notNull(),
   category: varchar('category', { length: 100 }),
+  documentType: varchar('document_type', { length: 100 }), // 'board_resolution', 'dir2_consent', 'inc9_declaration', 'engagement_letter'
   templateType: varchar('template_type', { length: 50 }).notNull(), // 'word', 'pdf', 'html', 'excel'
-  templateContent: text('template_content').notNull(),
+  templateContent: text('template_content').notNull(), // HTML with merge tags, see template-merge.ts
   variables: jsonb('variables'), // Array of { name, type, required, default }
   previewImage: text('preview_image'),
   version: integer('version').default(1),
@@ -542,35 +552,72 @@ export const documentTemplatesV2 = pgTable('document_templates_v2', {
 export const documentGenerationJobs = pgTable('document_generation_jobs', {
   id: serial('id').primaryKey(),
   templateId: integer('template_id').references(() => documentTemplatesV2.id),
-  entityType: varchar('entity_type', { length: 50 }),
+  templateVersion: integer('template_version'),
+  entityType: varchar('entity_type', { length: 50 }), // 'service_request', 'business_entity'
   entityId: integer('entity_id'),
-  variablesData: jsonb('variables_data').notNull(),
+  variablesData: jsonb('variables_data').notNull(), // merge fields supplied with the request
+  outputFormats: jsonb('output_formats').default(['pdf']), // 'pdf', 'docx'
   generatedDocumentId: integer('generated_document_id').references(() => documentsUploads.id),
+  aiDocumentId: integer('ai_document_id'), // ai_documents row holding the output
+  documentVersion: integer('document_version'), // version of that document this job produced
+  missingFields: jsonb('missing_fields'), // merge fields with no value, when that failed the job
   status: varchar('status', { length: 20 }).default('pending'), // 'pending', 'processing', 'completed', 'failed'
   errorMessage: text('error_message'),
   requestedBy: integer('requested_by').references(() => users.id),
   createdAt: timestamp('created_at').defaultNow(),
+  startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
-});
+}, (table) => ({
+  targetIdx: index('idx_doc_generation_jobs_target').on(table.entityType, table.entityId),
+}));
 
 /**
  * Document annotations - Comments and highlights
  */
 export const documentAnnotations = pgTable('document_annotations', {
   id: serial('id').primaryKey(),
-  documentId: integer('document_id').references(() => documentsUploads.id).notNull(),
+  documentId: integer('document_id').references(() => documentsUploads.id, { onDelete: 'cascade' }), // service request upload
+  vaultDocumentId: integer('vault_document_id').references(() => documentVault.id, { onDelete: 'cascade' }), // or vault document
   versionId: integer('version_id'),
+  serviceRequestId: integer('service_request_id'),
+  qualityReviewId: integer('quality_review_id'),
   userId: integer('user_id').references(() => users.id).notNull(),
-  annotationType: varchar('annotation_type', { length: 50 }).notNull(), // 'comment', 'highlight', 'stamp', 'drawing'
+  annotationType: varchar('annotation_type', { length: 50 }).notNull(), // 'comment', 'highlight', 'correction', 'stamp', 'drawing'
+  severity: varchar('severity', { length: 20 }).default('minor'), // 'minor', 'major', 'critical'
   content: text('content'),
-  position: jsonb('position'), // { page, x, y, width, height }
+  highlightedText: text('highlighted_text'), // the text the annotation is about, as the reviewer quoted it
+  requestedChange: text('requested_change'), // for corrections: what it should say or do instead
+  position: jsonb('position'), // { page, x, y, width, height } as fractions of the page
   color: varchar('color', { length: 7 }),
+  status: varchar('status', { length: 20 }).default('open'), // 'open', 'addressed', 'resolved', 'wont_fix'
+  addressedBy: integer('addressed_by').references(() => users.id),
+  addressedAt: timestamp('addressed_at'),
   isResolved: boolean('is_resolved').default(false),
   resolvedBy: integer('resolved_by').references(() => users.id),
   resolvedAt: timestamp('resolved_at'),
   createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => ({
   documentIdx: index('idx_doc_annotations_document').on(table.documentId),
+  vaultDocumentIdx: index('idx_doc_annotations_vault_document').on(table.vaultDocumentId),
+  serviceRequestIdx: index('idx_doc_annotations_service_request').on(table.serviceRequestId, table.status),
+}));
+
+/**
+ * Document annotation events - Resolution history of each annotation
+ * (raised, addressed, resolved, reopened, dismissed)
+ */
+export const documentAnnotationEvents = pgTable('document_annotation_events', {
+  id: serial('id').primaryKey(),
+  annotationId: integer('annotation_id').references(() => documentAnnotations.id, { onDelete: 'cascade' }).notNull(),
+  action: varchar('action', { length: 20 }).notNull(), // 'created', 'address', 'resolve', 'reopen', 'dismiss'
+  fromStatus: varchar('from_status', { length: 20 }),
+  toStatus: varchar('to_status', { length: 20 }).notNull(),
+  userId: integer('user_id').references(() => users.id),
+  note: text('note'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  annotationIdx: index('idx_doc_annotation_events_annotation').on(table.annotationId),
 }));
 
 /**
@@ -595,16 +642,37 @@ export const documentShares = pgTable('document_shares', {
 
 /**
  * Document search index - Full-text search
+ * One row per uploaded file: service request uploads (documents) or vault
+ * documents. The ranked tsvector column (search_vector) is generated in SQL
+ * from title, keywords and content_text.
  */
 export const documentSearchIndex = pgTable('document_search_index', {
   id: serial('id').primaryKey(),
-  documentId: integer('document_id').references(() => documentsUploads.id).notNull().unique(),
-  contentText: text('content_text').notNull(),
-  extractedEntities: jsonb('extracted_entities'), // { dates: [], amounts: [], names: [], etc. }
+  documentId: integer('document_id').references(() => documentsUploads.id, { onDelete: 'cascade' }).unique(),
+  vaultDocumentId: integer('vault_document_id').references(() => documentVault.id, { onDelete: 'cascade' }).unique(),
+  businessEntityId: integer('business_entity_id').references(() => businessEntities.id),
+  serviceRequestId: integer('service_request_id'),
+  ownerUserId: integer('owner_user_id'), // vault uploader, for clients without an entity
+  title: varchar('title', { length: 500 }),
+  documentType: varchar('document_type', { length: 100 }),
+  category: varchar('category', { length: 100 }),
+  keywords: text('keywords'), // entity name, client id, tags
+  contentText: text('content_text').notNull().default(''),
+  extractedEntities: jsonb('extracted_entities'), // { pan: [], gstin: [], cin: [], llpin: [], din: [], amounts: [], dates: [] }
   language: varchar('language', { length: 10 }).default('english'),
   ocrConfidence: decimal('ocr_confidence', { precision: 5, scale: 2 }),
+  documentDate: date('document_date'), // first date in the text, else the upload date
+  uploadedAt: timestamp('uploaded_at'),
+  status: varchar('status', { length: 20 }).default('pending'), // 'pending', 'indexed', 'failed', 'unsupported'
+  extractionMethod: varchar('extraction_method', { length: 20 }), // 'plain', 'pdf_text', 'docx', 'ocr'
+  pageCount: integer('page_count'),
+  errorMessage: text('error_message'),
+  attempts: integer('attempts').default(0),
   indexedAt: timestamp('indexed_at').defaultNow(),
-});
+}, (table) => ({
+  entityIdx: index('idx_document_search_entity').on(table.businessEntityId, table.documentDate),
+  statusIdx: index('idx_document_search_status').on(table.status),
+}));
 
 /**
  * Document retention policies
@@ -613,14 +681,96 @@ export const documentRetentionPolicies = pgTable('document_retention_policies',
   id: serial('id').primaryKey(),
   tenantId: uuid('tenant_id').references(() => tenants.id),
   name: varchar('name', { length: 200 }).notNull(),
-  documentCategory: varchar('document_category', { length: 100 }),
+  documentCategory: varchar('document_category', { length: 100 }), // null: categories without their own policy
   retentionDays: integer('retention_days').notNull(),
+  clockStart: varchar('clock_start', { length: 30 }).default('uploaded'), // 'uploaded', 'financial_year_end'
   action: varchar('action', { length: 20 }).notNull(), // 'archive', 'delete', 'notify'
   notifyDaysBeforeAction: integer('notify_days_before_action').default(30),
+  isStatutory: boolean('is_statutory').default(false), // retention required by law; erasure requests wait for it
+  legalBasis: text('legal_basis'), // e.g. Companies Act, 2013 s.128(5)
   isActive: boolean('is_active').default(true),
   createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+/**
+ * Legal holds - Block deletion of documents under litigation, audit or
+ * investigation, for one document, a business entity or a category
+ */
+export const legalHolds = pgTable('legal_holds', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 200 }).notNull(),
+  reason: text('reason').notNull(),
+  matterReference: varchar('matter_reference', { length: 200 }), // case number, notice reference
+  scopeType: varchar('scope_type', { length: 20 }).notNull(), // 'document', 'entity', 'category'
+  documentKind: varchar('document_kind', { length: 20 }), // 'vault', 'ai_document' (scope 'document')
+  documentId: integer('document_id'),
+  businessEntityId: integer('business_entity_id').references(() => businessEntities.id),
+  documentCategory: varchar('document_category', { length: 100 }),
+  status: varchar('status', { length: 20 }).default('active'), // 'active', 'released'
+  placedBy: integer('placed_by').references(() => users.id),
+  placedAt: timestamp('placed_at').defaultNow(),
+  releasedBy: integer('released_by').references(() => users.id),
+  releasedAt: timestamp('released_at'),
+  releaseReason: text('release_reason'),
+}, (table) => ({
+  statusIdx: index('idx_legal_holds_status').on(table.status, table.scopeType),
+}));
+
+/**
+ * Document retention schedule - When each document's retention action falls
+ * due under its policy, and what has been done about it
+ */
+export const documentRetentionSchedule = pgTable('document_retention_schedule', {
+  id: serial('id').primaryKey(),
+  documentKind: varchar('document_kind', { length: 20 }).notNull(), // 'vault', 'ai_document'
+  documentId: integer('document_id').notNull(),
+  policyId: integer('policy_id').references(() => documentRetentionPolicies.id),
+  businessEntityId: integer('business_entity_id'),
+  ownerUserId: integer('owner_user_id'),
+  documentCategory: varchar('document_category', { length: 100 }),
+  action: varchar('action', { length: 20 }).notNull(),
+  dueAt: timestamp('due_at').notNull(),
+  noticeAt: timestamp('notice_at'),
+  notifiedAt: timestamp('notified_at'),
+  status: varchar('status', { length: 20 }).default('scheduled'), // 'scheduled', 'notified', 'held', 'archived', 'purged', 'completed', 'failed'
+  heldBy: integer('held_by').references(() => legalHolds.id),
+  actionTakenAt: timestamp('action_taken_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  documentIdx: uniqueIndex('idx_retention_schedule_document').on(table.documentKind, table.documentId),
+  dueIdx: index('idx_retention_schedule_due').on(table.status, table.dueAt),
+}));
+
+/**
+ * Retention certificates - Signed record of each purge: what was deleted,
+ * under which policy or erasure request, and the files' hashes
+ */
+export const retentionCertificates = pgTable('retention_certificates', {
+  id: serial('id').primaryKey(),
+  certificateNumber: varchar('certificate_number', { length: 50 }).unique().notNull(),
+  trigger: varchar('trigger', { length: 30 }).notNull(), // 'retention_policy', 'erasure_request'
+  policyId: integer('policy_id').references(() => documentRetentionPolicies.id),
+  dataDeletionRequestId: integer('data_deletion_request_id'),
+  documentKind: varchar('document_kind', { length: 20 }).notNull(),
+  documentId: integer('document_id').notNull(),
+  documentTitle: text('document_title'),
+  documentCategory: varchar('document_category', { length: 100 }),
+  businessEntityId: integer('business_entity_id'),
+  versionsPurged: integer('versions_purged').default(0),
+  filesPurged: jsonb('files_purged'), // [{ path, sha256, bytes, status }]
+  payload: jsonb('payload').notNull(), // exactly what was signed
+  signature: varchar('signature', { length: 128 }).notNull(), // HMAC-SHA256 of the canonical payload
+  signingKeyId: varchar('signing_key_id', { length: 50 }),
+  pdfPath: text('pdf_path'),
+  issuedBy: integer('issued_by').references(() => users.id), // null when the scheduler purged
+  issuedAt: timestamp('issued_at').defaultNow(),
+}, (table) => ({
+  documentIdx: index('idx_retention_certificates_document').on(table.documentKind, table.documentId),
+}));
+
 // ============================================================================
 // 7. FINANCIAL MANAGEMENT EXTENSIONS
 // ============================================================================
@@ -654,16 +804,22 @@ export const journalEntries = pgTable('journal_entries', {
   description: text('description'),
   referenceType: varchar('reference_type', { length: 50 }), // 'invoice', 'payment', 'expense', 'manual'
   referenceId: integer('reference_id'),
+  sourceRef: varchar('source_ref', { length: 100 }), // Idempotency key for auto-posted entries, e.g. 'invoice:42'
   status: varchar('status', { length: 20 }).default('draft'), // 'draft', 'posted', 'reversed'
   totalDebit: decimal('total_debit', { precision: 15, scale: 2 }).default('0'),
   totalCredit: decimal('total_credit', { precision: 15, scale: 2 }).default('0'),
+  reversalOfId: integer('reversal_of_id').references((): AnyPgColumn => journalEntries.id),
   createdBy: integer('created_by').references(() => users.id),
   postedBy: integer('posted_by').references(() => users.id),
   postedAt: timestamp('posted_at'),
   reversedBy: integer('reversed_by').references(() => users.id),
   reversedAt: timestamp('reversed_at'),
   createdAt: timestamp('created_at').defaultNow(),
-});
+}, (table) => ({
+  tenantEntryNumberIdx: uniqueIndex('idx_journal_entries_tenant_number').on(table.tenantId, table.entryNumber),
+  tenantSourceRefIdx: uniqueIndex('idx_journal_entries_tenant_source_ref').on(table.tenantId, table.sourceRef),
+  tenantDateIdx: index('idx_journal_entries_tenant_date').on(table.tenantId, table.entryDate),
+}));
 
 /**
  * Journal entry lines - Individual debits/credits
@@ -679,7 +835,10 @@ export const journalEntryLines = pgTable('journal_entry_lines', {
   baseDebitAmount: decimal('base_debit_amount', { precision: 15, scale: 2 }).default('0'),
   baseCreditAmount: decimal('base_credit_amount', { precision: 15, scale: 2 }).default('0'),
   narration: text('narration'),
-});
+}, (table) => ({
+  entryIdx: index('idx_journal_entry_lines_entry').on(table.journalEntryId),
+  accountIdx: index('idx_journal_entry_lines_account').on(table.accountId),
+}));
 
 /**
  * Exchange rates - Currency conversion
@@ -694,6 +853,32 @@ export const exchangeRates = pgTable('exchange_rates', {
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
   currencyDateIdx: index('idx_exchange_rates_currency_date').on(table.fromCurrency, table.toCurrency, table.effectiveDate),
+  pairDateIdx: uniqueIndex('idx_exchange_rates_pair_date').on(table.fromCurrency, table.toCurrency, table.effectiveDate),
+}));
+
+/**
+ * Foreign currency settlements - Receipts against foreign currency invoices with realised FX
+ */
+export const foreignCurrencySettlements = pgTable('foreign_currency_settlements', {
+  id: serial('id').primaryKey(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  invoiceId: integer('invoice_id').notNull(), // invoices (pipeline schema)
+  currency: varchar('currency', { length: 3 }).notNull(),
+  amount: decimal('amount', { precision: 15, scale: 2 }).notNull(), // In invoice currency
+  invoiceRate: decimal('invoice_rate', { precision: 10, scale: 6 }).notNull(),
+  settlementRate: decimal('settlement_rate', { precision: 10, scale: 6 }).notNull(),
+  baseAmountAtInvoiceRate: decimal('base_amount_at_invoice_rate', { precision: 15, scale: 2 }).notNull(),
+  baseAmountReceived: decimal('base_amount_received', { precision: 15, scale: 2 }).notNull(), // INR credited to bank
+  bankCharges: decimal('bank_charges', { precision: 15, scale: 2 }).default('0'),
+  realisedGainLoss: decimal('realised_gain_loss', { precision: 15, scale: 2 }).notNull(), // Positive = gain
+  reference: varchar('reference', { length: 100 }),
+  receivedAt: date('received_at').notNull(),
+  journalEntryId: integer('journal_entry_id').references(() => journalEntries.id),
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  invoiceIdx: index('idx_fx_settlements_invoice').on(table.invoiceId),
+  tenantDateIdx: index('idx_fx_settlements_tenant_date').on(table.tenantId, table.receivedAt),
 }));
 
 /**
@@ -725,6 +910,24 @@ export const taxTransactions = pgTable('tax_transactions', {
   taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).notNull(),
   referenceType: varchar('reference_type', { length: 50 }),
   referenceId: integer('reference_id'),
+  lineNumber: integer('line_number').notNull().default(1), // One row per document line (HSN + rate)
+  documentNumber: varchar('document_number', { length: 50 }),
+  documentDate: date('document_date'),
+  documentValue: decimal('document_value', { precision: 15, scale: 2 }), // Invoice value incl. tax
+  counterpartyName: varchar('counterparty_name', { length: 255 }),
+  counterpartyGstin: varchar('counterparty_gstin', { length: 15 }),
+  counterpartyPan: varchar('counterparty_pan', { length: 10 }), // TDS rows: deductee PAN, null when not furnished
+  tdsSection: varchar('tds_section', { length: 10 }), // TDS rows, e.g. '194H'
+  placeOfSupply: varchar('place_of_supply', { length: 2 }), // GST state code, e.g. '29'
+  supplyType: varchar('supply_type', { length: 10 }), // 'intra', 'inter'
+  hsnCode: varchar('hsn_code', { length: 10 }),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }),
+  cgstAmount: decimal('cgst_amount', { precision: 15, scale: 2 }).default('0'),
+  sgstAmount: decimal('sgst_amount', { precision: 15, scale: 2 }).default('0'),
+  igstAmount: decimal('igst_amount', { precision: 15, scale: 2 }).default('0'),
+  cessAmount: decimal('cess_amount', { precision: 15, scale: 2 }).default('0'),
+  reverseCharge: boolean('reverse_charge').default(false),
+  itcEligible: boolean('itc_eligible').default(true), // Inward supplies only
   periodMonth: integer('period_month'),
   periodYear: integer('period_year'),
   filingStatus: varchar('filing_status', { length: 20 }).default('pending'), // 'pending', 'filed', 'paid'
@@ -732,6 +935,36 @@ export const taxTransactions = pgTable('tax_transactions', {
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
   periodIdx: index('idx_tax_transactions_period').on(table.periodYear, table.periodMonth),
+  tenantPeriodIdx: index('idx_tax_transactions_tenant_period').on(table.tenantId, table.periodYear, table.periodMonth),
+  documentLineIdx: uniqueIndex('idx_tax_transactions_document_line').on(
+    table.tenantId, table.transactionType, table.referenceType, table.referenceId, table.lineNumber
+  ),
+}));
+
+/**
+ * Vendor bills - Purchase invoices that feed GST input tax credit
+ */
+export const vendorBills = pgTable('vendor_bills', {
+  id: serial('id').primaryKey(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  billNumber: varchar('bill_number', { length: 50 }).notNull(),
+  billDate: date('bill_date').notNull(),
+  vendorName: varchar('vendor_name', { length: 255 }).notNull(),
+  vendorGstin: varchar('vendor_gstin', { length: 15 }),
+  placeOfSupply: varchar('place_of_supply', { length: 2 }),
+  lineItems: jsonb('line_items').notNull(), // [{ description, hsn, quantity, taxableValue, rate }]
+  subtotal: decimal('subtotal', { precision: 15, scale: 2 }).notNull(),
+  cgstAmount: decimal('cgst_amount', { precision: 15, scale: 2 }).default('0'),
+  sgstAmount: decimal('sgst_amount', { precision: 15, scale: 2 }).default('0'),
+  igstAmount: decimal('igst_amount', { precision: 15, scale: 2 }).default('0'),
+  total: decimal('total', { precision: 15, scale: 2 }).notNull(),
+  reverseCharge: boolean('reverse_charge').default(false),
+  itcEligible: boolean('itc_eligible').default(true),
+  notes: text('notes'),
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  vendorBillIdx: uniqueIndex('idx_vendor_bills_tenant_vendor_number').on(table.tenantId, table.vendorGstin, table.billNumber),
 }));
 
 /**
@@ -772,8 +1005,51 @@ export const bankTransactions = pgTable('bank_transactions', {
   reconciledWithId: integer('reconciled_with_id'),
   reconciledAt: timestamp('reconciled_at'),
   reconciledBy: integer('reconciled_by').references(() => users.id),
+  importBatchId: varchar('import_batch_id', { length: 50 }),
+  fingerprint: varchar('fingerprint', { length: 64 }), // Dedupe key for re-imported statement lines
   importedAt: timestamp('imported_at').defaultNow(),
-});
+}, (table) => ({
+  accountDateIdx: index('idx_bank_transactions_account_date').on(table.bankAccountId, table.transactionDate),
+  accountFingerprintIdx: uniqueIndex('idx_bank_transactions_account_fingerprint').on(table.bankAccountId, table.fingerprint),
+}));
+
+/**
+ * Gateway settlements - Razorpay payouts to the bank account
+ */
+export const gatewaySettlements = pgTable('gateway_settlements', {
+  id: serial('id').primaryKey(),
+  provider: varchar('provider', { length: 30 }).notNull().default('razorpay'),
+  settlementId: varchar('settlement_id', { length: 100 }).notNull(),
+  utr: varchar('utr', { length: 100 }),
+  amount: decimal('amount', { precision: 15, scale: 2 }).notNull(), // Net amount credited to bank
+  fees: decimal('fees', { precision: 15, scale: 2 }).default('0'),
+  tax: decimal('tax', { precision: 15, scale: 2 }).default('0'),
+  status: varchar('status', { length: 20 }).default('processed'),
+  settledAt: timestamp('settled_at').notNull(),
+  payload: jsonb('payload'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  providerSettlementIdx: uniqueIndex('idx_gateway_settlements_provider_id').on(table.provider, table.settlementId),
+}));
+
+/**
+ * Bank reconciliation matches - Suggested and confirmed statement matches
+ */
+export const bankReconciliationMatches = pgTable('bank_reconciliation_matches', {
+  id: serial('id').primaryKey(),
+  bankTransactionId: integer('bank_transaction_id').references(() => bankTransactions.id).notNull(),
+  matchType: varchar('match_type', { length: 30 }).notNull(), // 'payment', 'settlement', 'journal'
+  matchId: integer('match_id').notNull(),
+  score: integer('score').notNull(), // 0-100
+  reasons: jsonb('reasons').default([]),
+  status: varchar('status', { length: 20 }).default('suggested'), // 'suggested', 'confirmed', 'rejected'
+  reviewedBy: integer('reviewed_by').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  bankTxnIdx: index('idx_bank_recon_matches_txn').on(table.bankTransactionId),
+  candidateIdx: uniqueIndex('idx_bank_recon_matches_candidate').on(table.bankTransactionId, table.matchType, table.matchId),
+}));
 
 // ============================================================================
 // 8. CUSTOMER SUCCESS PLATFORM
@@ -1022,6 +1298,7 @@ export const dataDeletionRequests = pgTable('data_deletion_requests', {
   rejectionReason: text('rejection_reason'),
   exportUrl: text('export_url'), // For data portability requests
   exportExpiresAt: timestamp('export_expires_at'),
+  outcome: jsonb('outcome'), // erasure: { purged: [], retained: [{ reason }] } with certificate numbers
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -1291,19 +1568,27 @@ export const enterpriseTables = {
   documentTemplatesV2,
   documentGenerationJobs,
   documentAnnotations,
+  documentAnnotationEvents,
   documentShares,
   documentSearchIndex,
   documentRetentionPolicies,
+  legalHolds,
+  documentRetentionSchedule,
+  retentionCertificates,
 
   // Financial
   chartOfAccounts,
   journalEntries,
   journalEntryLines,
   exchangeRates,
+  foreignCurrencySettlements,
   taxConfigurations,
   taxTransactions,
+  vendorBills,
   bankAccounts,
   bankTransactions,
+  gatewaySettlements,
+  bankReconciliationMatches,
 
   // Customer Success
   customerHealthScoresV2,
@@ -1337,5 +1622,5 @@ export const enterpriseTables = {
   documentExtractions,
 };
 
-// Count of new tables: 55
-console.log('✅ Enterprise schema loaded (55 new tables for enterprise features)');
+// Count of new tables: 59
+console.log('✅ Enterprise schema loaded (59 new tables for enterprise features)');
@@ -1,4 +1,4 @@
-import { pgTable, serial, integer, varchar, text, boolean, timestamp, jsonb, index, unique, decimal, date } from 'drizzle-orm/pg-core';
+import { pgTable, serial, integer, varchar, text, boolean, timestamp, jsonb, index, unique, decimal, date, uuid } from 'drizzle-orm/pg-core';
 import { users, businessEntities, serviceRequests, payments } from './schema';
 
 // ── Pipeline Events (Event backbone) ──
@@ -31,6 +31,8 @@ export type NewPipelineEvent = typeof pipelineEvents.$inferInsert;
 export const invoices = pgTable('invoices', {
   id: serial('id').primaryKey(),
   invoiceNumber: varchar('invoice_number', { length: 20 }).unique().notNull(),
+  // Ledger tenant; set on foreign currency invoices, null on older ones
+  tenantId: uuid('tenant_id'),
   businessEntityId: integer('business_entity_id').references(() => businessEntities.id),
   serviceRequestId: integer('service_request_id').references(() => serviceRequests.id).unique(),
   clientName: varchar('client_name', { length: 200 }).notNull(),
@@ -43,6 +45,14 @@ export const invoices = pgTable('invoices', {
   igstAmount: decimal('igst_amount', { precision: 12, scale: 2 }).default('0'),
   totalTax: decimal('total_tax', { precision: 12, scale: 2 }).notNull(),
   grandTotal: decimal('grand_total', { precision: 12, scale: 2 }).notNull(),
+  // Amounts above are in the invoice currency; base_* columns hold INR at the locked rate
+  currency: varchar('currency', { length: 3 }).default('INR'),
+  exchangeRate: decimal('exchange_rate', { precision: 10, scale: 6 }).default('1'),
+  exchangeRateDate: date('exchange_rate_date'),
+  baseSubtotal: decimal('base_subtotal', { precision: 14, scale: 2 }),
+  baseTotalTax: decimal('base_total_tax', { precision: 14, scale: 2 }),
+  baseGrandTotal: decimal('base_grand_total', { precision: 14, scale: 2 }),
+  amountSettled: decimal('amount_settled', { precision: 12, scale: 2 }).default('0'),
   status: varchar('status', { length: 20 }).default('draft'),
   dueDate: date('due_date').notNull(),
   paidAt: timestamp('paid_at'),
@@ -54,6 +64,7 @@ export const invoices = pgTable('invoices', {
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => [
   index('idx_invoices_entity').on(table.businessEntityId),
+  index('idx_invoices_tenant').on(table.tenantId),
   index('idx_invoices_status').on(table.status),
   index('idx_invoices_due_date').on(table.dueDate),
 ]);
@@ -173,6 +173,8 @@ export const businessEntities = pgTable("business_entities", {
   complianceInitialized: boolean('compliance_initialized').default(false),
   complianceInitializedAt: timestamp('compliance_initialized_at'),
   estimatedTurnover: decimal('estimated_turnover', { precision: 15, scale: 2 }),
+  isListed: boolean("is_listed").default(false), // securities listed on a recognised stock exchange
+  hasForeignInvestment: boolean("has_foreign_investment").default(false), // FDI received or ODI made (FEMA reporting)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -186,6 +188,7 @@ export const userSessions = pgTable("user_sessions", {
   userAgent: text("user_agent"),
   fingerprint: text("fingerprint"), // Session fingerprinting for hijack detection
   csrfToken: text("csrf_token"), // CSRF protection token
+  tenantId: uuid("tenant_id"), // Tenant signed in to; null = no tenant
   isActive: boolean("is_active").default(true),
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -253,6 +256,7 @@ export const serviceRequests = pgTable("service_requests", {
   renewalOf: integer('renewal_of'),
   renewalDueDate: date('renewal_due_date'),
   renewalDedupKey: varchar('renewal_dedup_key', { length: 200 }).unique(),
+  workflowVersion: integer("workflow_version"), // service_workflow_versions.version the request runs on; null = built-in workflow
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -296,6 +300,8 @@ export const commissions = pgTable("commissions", {
   invoiceId: integer('invoice_id'),
   clawbackEligible: boolean('clawback_eligible').default(true),
   clawbackUntil: date('clawback_until'),
+  attributionId: integer("attribution_id"), // conversion_attributions row the amount was split by
+  attributionWeight: decimal("attribution_weight", { precision: 5, scale: 4 }), // agent's share of the conversion
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -318,6 +324,7 @@ export const commissionDisputes = pgTable("commission_disputes", {
   action: text("action"), // approve, partial_approve, reject
   adjustedAmount: decimal("adjusted_amount", { precision: 12, scale: 2 }),
   timeline: json("timeline"),
+  attributionId: integer("attribution_id"), // attribution evidence the dispute is about
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -340,6 +347,7 @@ export const complianceTracking = pgTable("compliance_tracking", {
   remindersSent: integer("reminders_sent").default(0),
   penaltyRisk: boolean("penalty_risk").default(false),
   estimatedPenalty: decimal("estimated_penalty", { precision: 10, scale: 2 }).default('0'),
+  taxLiability: decimal("tax_liability", { precision: 15, scale: 2 }), // tax payable with the filing, when known; drives interest
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -356,6 +364,7 @@ export const complianceRules = pgTable("compliance_rules", {
   periodicity: text("periodicity").notNull(), // monthly, quarterly, half_yearly, annual, event_based, one_time
   dueDateCalculationType: text("due_date_calculation_type").notNull(), // fixed_date, relative_to_month_end, relative_to_quarter_end, relative_to_fy_end, event_triggered
   dueDateFormula: json("due_date_formula").notNull(), // {type: "fixed", day: 20, month_offset: 1} or {type: "fy_end", days_after: 180}
+  dueDateAdjustment: text("due_date_adjustment").default("NEXT_WORKING_DAY"), // NEXT_WORKING_DAY, PREVIOUS_WORKING_DAY, NONE when the date falls on a holiday
   applicableEntityTypes: json("applicable_entity_types"), // ["pvt_ltd", "llp", "opc"] or null for all
   turnoverThresholdMin: decimal("turnover_threshold_min", { precision: 15, scale: 2 }), // minimum turnover for applicability
   turnoverThresholdMax: decimal("turnover_threshold_max", { precision: 15, scale: 2 }), // maximum turnover for applicability
@@ -363,8 +372,10 @@ export const complianceRules = pgTable("compliance_rules", {
   employeeCountMax: integer("employee_count_max"), // maximum employee count
   stateSpecific: boolean("state_specific").default(false), // true for Professional Tax, Shops & Establishments
   applicableStates: json("applicable_states"), // ["Maharashtra", "Karnataka"] or null for all India
+  applicabilityExpression: json("applicability_expression"), // {fact: "isListed", op: "eq", value: false}, see server/services/rule-applicability.ts
   priorityLevel: text("priority_level").notNull().default("medium"), // low, medium, high, critical
   penaltyRiskLevel: text("penalty_risk_level").notNull().default("medium"), // low, medium, high, critical
+  penaltyRuleCode: text("penalty_rule_code"), // penalty_rules_master.code used for late filing exposure
   isActive: boolean("is_active").default(true),
   effectiveFrom: timestamp("effective_from").defaultNow(),
   effectiveUntil: timestamp("effective_until"), // null means currently effective
@@ -408,6 +419,28 @@ export const compliancePenaltyDefinitions = pgTable("compliance_penalty_definiti
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Government Due Date Extensions
+// Deadlines extended by CBDT / CBIC / MCA circular. An extension replaces the
+// statutory due date of the listed rules for the period it names.
+export const complianceDueDateExtensions = pgTable("compliance_due_date_extensions", {
+  id: serial("id").primaryKey(),
+  authority: text("authority").notNull(), // CBDT, CBIC, MCA, EPFO, ESIC, STATE, OTHER
+  ruleCodes: json("rule_codes").$type<string[]>().notNull(), // compliance_rules.rule_code values covered
+  period: text("period").notNull(), // "March 2024", "Q1 FY 2024-25", "FY 2023-24"
+  originalDueDate: timestamp("original_due_date").notNull(), // statutory due date being extended
+  extendedDueDate: timestamp("extended_due_date").notNull(),
+  circularReference: text("circular_reference").notNull(), // "Notification No. 12/2024-Central Tax"
+  circularDate: timestamp("circular_date"),
+  circularUrl: text("circular_url"),
+  applicableEntityTypes: json("applicable_entity_types").$type<string[]>(), // ["pvt_ltd", "llp"] or null for all
+  applicableStates: json("applicable_states").$type<string[]>(), // ["Maharashtra"] or null for all India
+  notes: text("notes"),
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // State-Specific Rule Overrides
 // Handles variations like Professional Tax rates, Shops & Establishments rules by state
 export const complianceJurisdictionOverrides = pgTable("compliance_jurisdiction_overrides", {
@@ -436,6 +469,8 @@ export const slaTimers = pgTable("sla_timers", {
   escalationLevel: text("escalation_level"), // t24_warning, t4_warning, breach, critical
   lastEscalationAt: timestamp("last_escalation_at"),
   completedAt: timestamp("completed_at"),
+  calendarId: integer("calendar_id"), // slaBusinessCalendars row the clock runs on; null = default
+  breachedAt: timestamp("breached_at"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -447,7 +482,7 @@ export const slaExceptions = pgTable("sla_exceptions", {
   serviceRequestId: integer("service_request_id").notNull(),
   requestedBy: integer("requested_by").notNull(),
   approvedBy: integer("approved_by"),
-  exceptionType: text("exception_type").notNull(), // client_delay, external_dependency, system_issue
+  exceptionType: text("exception_type").notNull(), // client_delay, manual_pause, manual_extension, external_dependency, system_issue
   reason: text("reason").notNull(),
   requestedExtensionHours: integer("requested_extension_hours").notNull(),
   approvedExtensionHours: integer("approved_extension_hours"),
@@ -455,10 +490,31 @@ export const slaExceptions = pgTable("sla_exceptions", {
   validFrom: timestamp("valid_from"),
   validUntil: timestamp("valid_until"),
   approvalNotes: text("approval_notes"),
+  pausedBusinessMinutes: integer("paused_business_minutes"), // Business time inside a pause interval
   createdAt: timestamp("created_at").defaultNow(),
   approvedAt: timestamp("approved_at"),
 });
 
+// Business calendars for SLA clocks. The most specific active calendar for a
+// request's service, team and tenant applies.
+export const slaBusinessCalendars = pgTable("sla_business_calendars", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  serviceCode: text("service_code"), // null = any service
+  team: text("team"), // Department of the assigned team member; null = any team
+  tenantId: uuid("tenant_id"), // null = any tenant
+  utcOffsetMinutes: integer("utc_offset_minutes").notNull().default(330),
+  workdayStart: text("workday_start").notNull().default("09:00"),
+  workdayEnd: text("workday_end").notNull().default("18:00"),
+  workingDays: json("working_days").notNull().default([1, 2, 3, 4, 5]), // Sunday=0
+  jurisdictionId: uuid("jurisdiction_id"), // Holiday calendars of this jurisdiction and its parents
+  observeHolidays: boolean("observe_holidays").default(true),
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const retainershipPlans = pgTable("retainership_plans", {
   id: serial("id").primaryKey(),
   planId: text("plan_id").notNull().unique(),
@@ -538,6 +594,7 @@ export const documentVault = pgTable("document_vault", {
   checksumHash: text("checksum_hash"),
   ocrData: json("ocr_data"), // extracted text and metadata
   aiVerificationStatus: text("ai_verification_status").default("pending"), // pending, verified, failed
+  archivedAt: timestamp("archived_at"), // set by the retention engine; hidden from default listings
   createdAt: timestamp("created_at").defaultNow(),
   lastAccessed: timestamp("last_accessed"),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -1084,6 +1141,10 @@ export const qualityMetrics = pgTable("quality_metrics", {
   defectCount: integer("defect_count").default(0),
   reworkCount: integer("rework_count").default(0),
   escalationCount: integer("escalation_count").default(0),
+  annotationCount: integer("annotation_count").default(0), // QC annotations raised on the request's documents
+  correctionsRequested: integer("corrections_requested").default(0),
+  annotationsReopened: integer("annotations_reopened").default(0), // times a fix was sent back
+  avgAnnotationResolutionMinutes: integer("avg_annotation_resolution_minutes"),
   
   // SLA performance
   slaCompliance: boolean("sla_compliance").default(true),
@@ -1274,6 +1335,12 @@ export const insertComplianceJurisdictionOverrideSchema = createInsertSchema(com
   createdAt: true,
 });
 
+export const insertComplianceDueDateExtensionSchema = createInsertSchema(complianceDueDateExtensions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertRetainershipPlanSchema = createInsertSchema(retainershipPlans).omit({
   id: true,
   createdAt: true,
@@ -1316,6 +1383,8 @@ export type CompliancePenaltyDefinition = typeof compliancePenaltyDefinitions.$i
 export type InsertCompliancePenaltyDefinition = z.infer<typeof insertCompliancePenaltyDefinitionSchema>;
 export type ComplianceJurisdictionOverride = typeof complianceJurisdictionOverrides.$inferSelect;
 export type InsertComplianceJurisdictionOverride = z.infer<typeof insertComplianceJurisdictionOverrideSchema>;
+export type ComplianceDueDateExtension = typeof complianceDueDateExtensions.$inferSelect;
+export type InsertComplianceDueDateExtension = z.infer<typeof insertComplianceDueDateExtensionSchema>;
 export type RetainershipPlan = typeof retainershipPlans.$inferSelect;
 export type InsertRetainershipPlan = z.infer<typeof insertRetainershipPlanSchema>;
 export type UserRetainershipSubscription = typeof userRetainershipSubscriptions.$inferSelect;
@@ -1735,6 +1804,57 @@ export const notificationTemplates = pgTable("notification_templates", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Versioned template bodies per channel and language; the dispatcher renders the
+// latest active version and falls back to notificationTemplates (as version 0, English)
+export const notificationTemplateVersions = pgTable("notification_template_versions", {
+  id: serial("id").primaryKey(),
+  templateKey: text("template_key").notNull(),
+  version: integer("version").notNull(),
+  channel: text("channel").notNull(), // email, sms, whatsapp, push, in_app
+  language: text("language").notNull().default("en"),
+  subject: text("subject"),
+  body: text("body").notNull(),
+  variables: json("variables").$type<string[]>(), // placeholders used by subject and body
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per recipient and channel of every dispatched notification; unique on
+// (idempotency_key, recipient_key, channel) so a repeated dispatch is a no-op
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  idempotencyKey: text("idempotency_key").notNull(),
+  recipientKey: text("recipient_key").notNull(), // user-12, email-a@b.com, phone-919876543210
+  channel: text("channel").notNull(), // email, sms, whatsapp, push, in_app
+  notificationType: text("notification_type").notNull(),
+  priority: text("priority").default("normal"),
+  userId: integer("user_id"),
+  businessEntityId: integer("business_entity_id"), // client the notification concerns
+  recipientAddress: text("recipient_address"), // email or phone it went to
+  templateKey: text("template_key"),
+  templateVersion: integer("template_version"),
+  language: text("language"),
+  subject: text("subject"),
+  referenceType: text("reference_type"),
+  referenceId: integer("reference_id"),
+  status: text("status").notNull().default("queued"), // queued, deferred, batched, sent, delivered, read, bounced, failed, suppressed
+  statusReason: text("status_reason"), // opted_out, quiet_hours, frequency, provider error
+  providerMessageId: text("provider_message_id"),
+  notificationId: integer("notification_id"), // in-app feed row
+  pendingPayload: json("pending_payload"), // content held while deferred, cleared once sent
+  scheduledFor: timestamp("scheduled_for"),
+  batchFrequency: text("batch_frequency"), // hourly, daily, weekly when held for the user's digest
+  digestDeliveryId: integer("digest_delivery_id"), // digest delivery that carried this one
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  bouncedAt: timestamp("bounced_at"),
+  failedAt: timestamp("failed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Admin-Configurable Service Management Tables
 export const servicesCatalog = pgTable("services_catalog", {
   id: serial("id").primaryKey(),
@@ -1954,12 +2074,16 @@ export type InsertWorkflowTemplate = z.infer<typeof insertWorkflowTemplateSchema
 export type SlaSettings = typeof slaSettings.$inferSelect;
 export type InsertSlaSettings = z.infer<typeof insertSlaSettingSchema>;
 export type SlaException = typeof slaExceptions.$inferSelect;
+export type SlaTimer = typeof slaTimers.$inferSelect;
+export type SlaBusinessCalendar = typeof slaBusinessCalendars.$inferSelect;
 
 // Export types for notification system
 export type NotificationRule = typeof notificationRules.$inferSelect;
 export type InsertNotificationRule = typeof notificationRules.$inferInsert;
 export type NotificationOutboxItem = typeof notificationOutbox.$inferSelect;
 export type NotificationTemplate = typeof notificationTemplates.$inferSelect;
+export type NotificationTemplateVersion = typeof notificationTemplateVersions.$inferSelect;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
 export type SystemIntegration = typeof systemIntegrations.$inferSelect;
 export type InsertSystemIntegration = z.infer<typeof insertSystemIntegrationSchema>;
 export type SystemNotification = typeof systemNotifications.$inferSelect;
@@ -2027,6 +2151,8 @@ export const leads = pgTable("leads", {
   directorEmail: text("director_email"),
   directorPhone: text("director_phone"),
   state: text("state"),
+  city: text("city"),
+  industry: text("industry"),
   entityType: text("entity_type"), // pvt_ltd, partnership, proprietorship, etc
   requiredServices: json("required_services"), // array of service codes
   serviceInterested: text("service_interested").notNull(),
@@ -2052,6 +2178,11 @@ export const leads = pgTable("leads", {
   enrichmentData: jsonb('enrichment_data'),
   enrichedAt: timestamp('enriched_at'),
   enrichmentSource: varchar('enrichment_source', { length: 50 }),
+  pan: text("pan"),
+  gstin: text("gstin"),
+  mergedIntoId: integer("merged_into_id"), // surviving lead once merged as a duplicate
+  mergedAt: timestamp("merged_at"),
+  nurtureOptedOutAt: timestamp("nurture_opted_out_at"), // unsubscribed from nurture sequences
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -2155,6 +2286,189 @@ export const leadAutomation = pgTable("lead_automation", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Multi-step nurture sequences for a lead segment (steps: see nurture-rules)
+export const nurtureSequences = pgTable("nurture_sequences", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  segment: json("segment"), // {sources, services, states, stages, priorities, entityTypes, minValue}
+  steps: json("steps").notNull(), // [{key, type: email|whatsapp|task|wait|branch, ...}]
+  autoEnroll: boolean("auto_enroll").default(false), // enroll new leads matching the segment
+  autoEnrollSince: timestamp("auto_enroll_since"), // only leads created after this
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const nurtureEnrollments = pgTable("nurture_enrollments", {
+  id: serial("id").primaryKey(),
+  sequenceId: integer("sequence_id").notNull(),
+  leadId: integer("lead_id").notNull(),
+  status: text("status").notNull().default("active"), // active, completed, converted, unsubscribed, stopped
+  currentStepKey: text("current_step_key"), // step to run next
+  nextRunAt: timestamp("next_run_at"),
+  stageAtEnrollment: text("stage_at_enrollment"),
+  signals: json("signals"), // {proposalViewedAt, repliedAt}
+  stopReason: text("stop_reason"),
+  unsubscribeToken: text("unsubscribe_token").notNull().unique(),
+  enrolledBy: integer("enrolled_by"), // null when auto-enrolled
+  enrolledAt: timestamp("enrolled_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per step run, for per-step metrics
+export const nurtureStepEvents = pgTable("nurture_step_events", {
+  id: serial("id").primaryKey(),
+  enrollmentId: integer("enrollment_id").notNull(),
+  sequenceId: integer("sequence_id").notNull(),
+  stepKey: text("step_key").notNull(),
+  stepType: text("step_type").notNull(),
+  outcome: text("outcome").notNull(), // sent, failed, skipped, task_created, waited, branch_then, branch_else
+  detail: text("detail"),
+  occurredAt: timestamp("occurred_at").defaultNow(),
+});
+
+// Suspected duplicate leads, from create/import checks and the periodic scan
+export const leadDuplicatePairs = pgTable("lead_duplicate_pairs", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(), // lower id of the pair
+  duplicateLeadId: integer("duplicate_lead_id").notNull(),
+  score: decimal("score", { precision: 4, scale: 3 }).notNull(), // 0-1
+  reasons: json("reasons"), // [{signal, detail, weight}]
+  detectedBy: text("detected_by").notNull(), // create, import, agent_portal, referral, scan
+  status: text("status").default("open"), // open, merged, dismissed
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  detectedAt: timestamp("detected_at").defaultNow(),
+});
+
+// Audit trail of lead merges: what was folded into the survivor and what moved with it
+export const leadMerges = pgTable("lead_merges", {
+  id: serial("id").primaryKey(),
+  survivorLeadId: integer("survivor_lead_id").notNull(),
+  mergedLeadId: integer("merged_lead_id").notNull(),
+  mergedLeadSnapshot: json("merged_lead_snapshot").notNull(), // the lead as it was before merging
+  fieldsTaken: json("fields_taken"), // survivor fields filled from the merged lead
+  recordsMoved: json("records_moved"), // {table: count}
+  reason: text("reason"),
+  mergedBy: integer("merged_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Touchpoints that led a prospect towards conversion, for multi-touch attribution
+export const leadTouchpoints = pgTable("lead_touchpoints", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  touchType: text("touch_type").notNull(), // referral_code, agent, campaign, proposal_view, manual
+  agentId: integer("agent_id"), // agent credited for this touch
+  referrerId: integer("referrer_id"), // referring client, for referral_code touches
+  referralCode: text("referral_code"),
+  utmSource: text("utm_source"),
+  utmMedium: text("utm_medium"),
+  utmCampaign: text("utm_campaign"),
+  utmContent: text("utm_content"),
+  utmTerm: text("utm_term"),
+  proposalId: integer("proposal_id"),
+  source: text("source"), // free-form source for manual touches
+  metadata: json("metadata"),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  recordedBy: integer("recorded_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// How conversion credit is shared among a lead's touchpoints
+export const attributionModels = pgTable("attribution_models", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  model: text("model").notNull(), // first_touch, last_touch, linear, position_based
+  firstTouchWeight: decimal("first_touch_weight", { precision: 4, scale: 3 }).default("0.400"), // position_based only
+  lastTouchWeight: decimal("last_touch_weight", { precision: 4, scale: 3 }).default("0.400"),
+  lookbackDays: integer("lookback_days").default(90), // null = no limit
+  touchTypes: json("touch_types"), // touch types that earn credit; null = all
+  isDefault: boolean("is_default").default(false),
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Credit splits for one conversion; a recompute supersedes the previous row
+export const conversionAttributions = pgTable("conversion_attributions", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  serviceRequestId: integer("service_request_id"),
+  conversionType: text("conversion_type").notNull(), // service_payment, external
+  conversionValue: decimal("conversion_value", { precision: 12, scale: 2 }).notNull(),
+  convertedAt: timestamp("converted_at").notNull(),
+  modelId: integer("model_id"),
+  model: text("model").notNull(),
+  modelSettings: json("model_settings"), // weights and lookback as applied
+  splits: json("splits").notNull(), // [{touchpointId, touchType, source, campaign, agentId, referrerId, weight, value}]
+  supersededAt: timestamp("superseded_at"),
+  supersededBy: integer("superseded_by"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sales teams; a rep belongs to at most one
+export const salesTeams = pgTable("sales_teams", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  managerId: integer("manager_id"),
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const salesTeamMembers = pgTable("sales_team_members", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  userId: integer("user_id").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Territories route new leads to the reps covering them
+export const salesTerritories = pgTable("sales_territories", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  states: json("states").$type<string[]>(), // empty/null = any state
+  cities: json("cities").$type<string[]>(), // empty/null = any city
+  industries: json("industries").$type<string[]>(), // empty/null = any industry
+  teamId: integer("team_id"),
+  priority: integer("priority").default(0), // breaks ties between equally specific territories
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const salesTerritoryMembers = pgTable("sales_territory_members", {
+  id: serial("id").primaryKey(),
+  territoryId: integer("territory_id").notNull(),
+  userId: integer("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Revenue target for a rep or a team over a month or quarter
+export const salesQuotas = pgTable("sales_quotas", {
+  id: serial("id").primaryKey(),
+  ownerType: text("owner_type").notNull(), // user, team
+  userId: integer("user_id"),
+  teamId: integer("team_id"),
+  periodType: text("period_type").notNull(), // monthly, quarterly
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  targetAmount: decimal("target_amount", { precision: 14, scale: 2 }).notNull(),
+  targetConversions: integer("target_conversions"),
+  notes: text("notes"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const agentReferrals = pgTable("agent_referrals", {
   id: serial("id").primaryKey(),
   parentAgentId: integer("parent_agent_id").notNull(),
@@ -2272,6 +2586,17 @@ export type InsertAgentCommunication = z.infer<typeof insertAgentCommunicationSc
 export type AgentPerformanceMetrics = typeof agentPerformanceMetrics.$inferSelect;
 export type AgentAnnouncement = typeof agentAnnouncements.$inferSelect;
 export type LeadAutomation = typeof leadAutomation.$inferSelect;
+export type NurtureSequence = typeof nurtureSequences.$inferSelect;
+export type NurtureEnrollment = typeof nurtureEnrollments.$inferSelect;
+export type NurtureStepEvent = typeof nurtureStepEvents.$inferSelect;
+export type LeadDuplicatePair = typeof leadDuplicatePairs.$inferSelect;
+export type LeadMerge = typeof leadMerges.$inferSelect;
+export type LeadTouchpoint = typeof leadTouchpoints.$inferSelect;
+export type AttributionModelRecord = typeof attributionModels.$inferSelect;
+export type ConversionAttribution = typeof conversionAttributions.$inferSelect;
+export type SalesTeam = typeof salesTeams.$inferSelect;
+export type SalesTerritory = typeof salesTerritories.$inferSelect;
+export type SalesQuota = typeof salesQuotas.$inferSelect;
 export type AgentReferral = typeof agentReferrals.$inferSelect;
 export type IncentiveProgram = typeof incentivePrograms.$inferSelect;
 export type AgentAuditLog = typeof agentAuditLogs.$inferSelect;
@@ -4124,6 +4449,7 @@ export const referrals = pgTable("referrals", {
   referralCode: text("referral_code").notNull(), // Code used for referral
   refereeEmail: text("referee_email").notNull(), // Email of referred person
   refereeClientId: integer("referee_client_id"), // Assigned after onboarding
+  leadId: integer("lead_id"), // CRM lead the referee registered as
   status: text("status").notNull().default("pending"), // pending, registered, onboarded, credited, expired
   creditAmount: decimal("credit_amount", { precision: 12, scale: 2 }).default("0.00"),
   firstServiceAmount: decimal("first_service_amount", { precision: 12, scale: 2 }), // Amount of first service purchased by referee
@@ -4274,6 +4600,8 @@ export const documentVersions = pgTable("document_versions", {
   version: integer("version").notNull(),
   content: text("content").notNull(),
   contentFormat: text("content_format").default('html'),
+  pdfUrl: text("pdf_url"), // rendered files of that version, for template-generated documents
+  docxUrl: text("docx_url"),
   changes: text("changes"), // description of changes made
   editedBy: integer("edited_by").notNull(),
   editedAt: timestamp("edited_at").defaultNow(),
@@ -5148,6 +5476,19 @@ export const statusTransitionHistory = pgTable("status_transition_history", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Published workflow versions; the state machine runs the latest one per service
+export const serviceWorkflowVersions = pgTable("service_workflow_versions", {
+  id: serial("id").primaryKey(),
+  serviceKey: text("service_key").notNull(),
+  version: integer("version").notNull(),
+  definition: json("definition").notNull(), // Compiled statuses and transitions (WorkflowDefinition)
+  statusMapping: json("status_mapping").$type<Record<string, string>>(), // Old status -> new status used to migrate requests
+  migrationSummary: json("migration_summary"), // { moved, unchanged, closed }
+  notes: text("notes"),
+  publishedBy: integer("published_by"),
+  publishedAt: timestamp("published_at").defaultNow(),
+});
+
 // Workflow step definitions (process drill-down)
 export const serviceWorkflowSteps = pgTable("service_workflow_steps", {
   id: serial("id").primaryKey(),
@@ -5266,6 +5607,7 @@ export type StatusTransitionRule = typeof statusTransitionRules.$inferSelect;
 export type InsertStatusTransitionRule = z.infer<typeof insertStatusTransitionRuleSchema>;
 export type StatusTransitionHistory = typeof statusTransitionHistory.$inferSelect;
 export type InsertStatusTransitionHistory = z.infer<typeof insertStatusTransitionHistorySchema>;
+export type ServiceWorkflowVersion = typeof serviceWorkflowVersions.$inferSelect;
 export type ServiceWorkflowStep = typeof serviceWorkflowSteps.$inferSelect;
 export type InsertServiceWorkflowStep = z.infer<typeof insertServiceWorkflowStepSchema>;
 export type ServiceRequestStep = typeof serviceRequestSteps.$inferSelect;
@@ -5649,6 +5991,7 @@ export const ID_TYPES = {
   COMMISSION: 'COMMISSION',
   WALLET_TXN: 'WALLET_TXN',
   PAYOUT: 'PAYOUT',
+  JOURNAL_ENTRY: 'JOURNAL_ENTRY',
 
   // Documents
   DOCUMENT: 'DOCUMENT',
@@ -199,6 +199,35 @@ export const commissionPayouts = pgTable("commission_payouts", {
   paymentReference: text("payment_reference"),
   paidAt: timestamp("paid_at"),
   approvedBy: integer("approved_by").references(() => users.id),
+  // Statutory deductions (deductions = TDS + other deductions)
+  financialYear: text("financial_year"), // e.g. 2025-26
+  tdsSection: text("tds_section"), // 194H
+  tdsRate: decimal("tds_rate", { precision: 5, scale: 2 }),
+  tdsBase: decimal("tds_base", { precision: 12, scale: 2 }), // includes earlier untaxed amounts when the threshold is crossed
+  tdsAmount: decimal("tds_amount", { precision: 12, scale: 2 }),
+  tdsReasonCode: text("tds_reason_code"), // 26Q flag: C (no PAN), Y (below threshold)
+  deducteePan: text("deductee_pan"),
+  gstTreatment: text("gst_treatment"), // unregistered, forward_charge, reverse_charge
+  agentGstin: text("agent_gstin"),
+  cgstAmount: decimal("cgst_amount", { precision: 12, scale: 2 }),
+  sgstAmount: decimal("sgst_amount", { precision: 12, scale: 2 }),
+  igstAmount: decimal("igst_amount", { precision: 12, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// ============================================================================
+// AGENT TAX PROFILES - PAN / GST registration used for payout deductions
+// ============================================================================
+
+export const agentTaxProfiles = pgTable("agent_tax_profiles", {
+  id: serial("id").primaryKey(),
+  agentId: integer("agent_id").notNull().unique().references(() => users.id),
+  legalName: text("legal_name"),
+  pan: text("pan"),
+  gstin: text("gstin"),
+  gstTreatment: text("gst_treatment").default('unregistered'), // unregistered, forward_charge, reverse_charge
+  updatedBy: integer("updated_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -358,6 +387,9 @@ export type InsertCommissionRule = typeof commissionRules.$inferInsert;
 export type CommissionPayout = typeof commissionPayouts.$inferSelect;
 export type InsertCommissionPayout = typeof commissionPayouts.$inferInsert;
 
+export type AgentTaxProfile = typeof agentTaxProfiles.$inferSelect;
+export type InsertAgentTaxProfile = typeof agentTaxProfiles.$inferInsert;
+
 export type SecurityIncident = typeof securityIncidents.$inferSelect;
 export type InsertSecurityIncident = typeof securityIncidents.$inferInsert;
 